@@ -41,6 +41,16 @@ export type Floor = Prisma.FloorModel
  * 
  */
 export type Room = Prisma.RoomModel
+/**
+ * Model BookingPolicy
+ * 
+ */
+export type BookingPolicy = Prisma.BookingPolicyModel
+/**
+ * Model Amenity
+ * 
+ */
+export type Amenity = Prisma.AmenityModel
 /**
  * Model Seat
  * 
@@ -61,3 +71,48 @@ export type Teacher = Prisma.TeacherModel
  * 
  */
 export type RoomBooking = Prisma.RoomBookingModel
+/**
+ * Model BookingSeries
+ * 
+ */
+export type BookingSeries = Prisma.BookingSeriesModel
+/**
+ * Model WaitlistEntry
+ * 
+ */
+export type WaitlistEntry = Prisma.WaitlistEntryModel
+/**
+ * Model RoomBlackout
+ * 
+ */
+export type RoomBlackout = Prisma.RoomBlackoutModel
+/**
+ * Model BookingLifecycleJob
+ * 
+ */
+export type BookingLifecycleJob = Prisma.BookingLifecycleJobModel
+/**
+ * Model SchedulerLease
+ * 
+ */
+export type SchedulerLease = Prisma.SchedulerLeaseModel
+/**
+ * Model LocationEdge
+ * 
+ */
+export type LocationEdge = Prisma.LocationEdgeModel
+/**
+ * Model AllocationBatch
+ * 
+ */
+export type AllocationBatch = Prisma.AllocationBatchModel
+/**
+ * Model AllocationBatchSeat
+ * 
+ */
+export type AllocationBatchSeat = Prisma.AllocationBatchSeatModel
+/**
+ * Model AuditLog
+ * 
+ */
+export type AuditLog = Prisma.AuditLogModel
@@ -43,6 +43,17 @@ export type StringNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedStringNullableFilter<$PrismaModel> | string | null
 }
 
+export type DateTimeNullableFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+}
+
 export type EnumUserRoleFilter<$PrismaModel = never> = {
   equals?: $Enums.UserRole | Prisma.EnumUserRoleFieldRefInput<$PrismaModel>
   in?: $Enums.UserRole[] | Prisma.ListEnumUserRoleFieldRefInput<$PrismaModel>
@@ -102,6 +113,20 @@ export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedStringNullableFilter<$PrismaModel>
 }
 
+export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+}
+
 export type EnumUserRoleWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.UserRole | Prisma.EnumUserRoleFieldRefInput<$PrismaModel>
   in?: $Enums.UserRole[] | Prisma.ListEnumUserRoleFieldRefInput<$PrismaModel>
@@ -153,6 +178,46 @@ export type FloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type BoolFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolFilter<$PrismaModel> | boolean
+}
+
+export type IntNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
+}
+
+export type BoolWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedBoolFilter<$PrismaModel>
+  _max?: Prisma.NestedBoolFilter<$PrismaModel>
+}
+
+export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
 export type IntFilter<$PrismaModel = never> = {
   equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
   in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
@@ -180,6 +245,30 @@ export type IntWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedIntFilter<$PrismaModel>
 }
 
+export type JsonNullableFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonNullableFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonNullableFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
 export type EnumBranchNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.Branch | Prisma.EnumBranchFieldRefInput<$PrismaModel> | null
   in?: $Enums.Branch[] | Prisma.ListEnumBranchFieldRefInput<$PrismaModel> | null
@@ -187,6 +276,33 @@ export type EnumBranchNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumBranchNullableFilter<$PrismaModel> | $Enums.Branch | null
 }
 
+export type JsonNullableWithAggregatesFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonNullableWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonNullableWithAggregatesFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedJsonNullableFilter<$PrismaModel>
+}
+
 export type EnumBranchNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.Branch | Prisma.EnumBranchFieldRefInput<$PrismaModel> | null
   in?: $Enums.Branch[] | Prisma.ListEnumBranchFieldRefInput<$PrismaModel> | null
@@ -248,6 +364,91 @@ export type EnumBookingStatusWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
 }
 
+export type EnumWaitlistStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel> | $Enums.WaitlistStatus
+}
+
+export type EnumWaitlistStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+}
+
+export type EnumBookingJobKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingJobKind | Prisma.EnumBookingJobKindFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingJobKindFilter<$PrismaModel> | $Enums.BookingJobKind
+}
+
+export type EnumBookingJobKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingJobKind | Prisma.EnumBookingJobKindFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingJobKindWithAggregatesFilter<$PrismaModel> | $Enums.BookingJobKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingJobKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingJobKindFilter<$PrismaModel>
+}
+
+export type EnumLocationNodeTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationNodeType | Prisma.EnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationNodeTypeFilter<$PrismaModel> | $Enums.LocationNodeType
+}
+
+export type EnumLocationEdgeKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationEdgeKind | Prisma.EnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationEdgeKindFilter<$PrismaModel> | $Enums.LocationEdgeKind
+}
+
+export type EnumLocationNodeTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationNodeType | Prisma.EnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationNodeTypeWithAggregatesFilter<$PrismaModel> | $Enums.LocationNodeType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumLocationNodeTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumLocationNodeTypeFilter<$PrismaModel>
+}
+
+export type EnumLocationEdgeKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationEdgeKind | Prisma.EnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationEdgeKindWithAggregatesFilter<$PrismaModel> | $Enums.LocationEdgeKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumLocationEdgeKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumLocationEdgeKindFilter<$PrismaModel>
+}
+
+export type EnumAllocationBatchStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllocationBatchStatus | Prisma.EnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllocationBatchStatusFilter<$PrismaModel> | $Enums.AllocationBatchStatus
+}
+
+export type EnumAllocationBatchStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllocationBatchStatus | Prisma.EnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllocationBatchStatusWithAggregatesFilter<$PrismaModel> | $Enums.AllocationBatchStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllocationBatchStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllocationBatchStatusFilter<$PrismaModel>
+}
+
 export type NestedStringFilter<$PrismaModel = never> = {
   equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
   in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
@@ -276,6 +477,17 @@ export type NestedStringNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedStringNullableFilter<$PrismaModel> | string | null
 }
 
+export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+}
+
 export type NestedEnumUserRoleFilter<$PrismaModel = never> = {
   equals?: $Enums.UserRole | Prisma.EnumUserRoleFieldRefInput<$PrismaModel>
   in?: $Enums.UserRole[] | Prisma.ListEnumUserRoleFieldRefInput<$PrismaModel>
@@ -350,6 +562,20 @@ export type NestedIntNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedIntNullableFilter<$PrismaModel> | number | null
 }
 
+export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel> | null
+  in?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  notIn?: Date[] | string[] | Prisma.ListDateTimeFieldRefInput<$PrismaModel> | null
+  lt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  lte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gt?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  gte?: Date | string | Prisma.DateTimeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedDateTimeNullableFilter<$PrismaModel>
+}
+
 export type NestedEnumUserRoleWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.UserRole | Prisma.EnumUserRoleFieldRefInput<$PrismaModel>
   in?: $Enums.UserRole[] | Prisma.ListEnumUserRoleFieldRefInput<$PrismaModel>
@@ -401,6 +627,46 @@ export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type NestedBoolFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolFilter<$PrismaModel> | boolean
+}
+
+export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: boolean | Prisma.BooleanFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedBoolFilter<$PrismaModel>
+  _max?: Prisma.NestedBoolFilter<$PrismaModel>
+}
+
+export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.IntFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _avg?: Prisma.NestedFloatNullableFilter<$PrismaModel>
+  _sum?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedIntNullableFilter<$PrismaModel>
+}
+
+export type NestedFloatNullableFilter<$PrismaModel = never> = {
+  equals?: number | Prisma.FloatFieldRefInput<$PrismaModel> | null
+  in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  notIn?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
+  lt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  lte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gt?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  gte?: number | Prisma.FloatFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedFloatNullableFilter<$PrismaModel> | number | null
+}
+
 export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
   equals?: number | Prisma.IntFieldRefInput<$PrismaModel>
   in?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
@@ -424,6 +690,30 @@ export type NestedEnumBranchNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumBranchNullableFilter<$PrismaModel> | $Enums.Branch | null
 }
 
+export type NestedJsonNullableFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<NestedJsonNullableFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>,
+    Required<NestedJsonNullableFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<NestedJsonNullableFilterBase<$PrismaModel>>, 'path'>>
+
+export type NestedJsonNullableFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+}
+
 export type NestedEnumBranchNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.Branch | Prisma.EnumBranchFieldRefInput<$PrismaModel> | null
   in?: $Enums.Branch[] | Prisma.ListEnumBranchFieldRefInput<$PrismaModel> | null
@@ -485,4 +775,89 @@ export type NestedEnumBookingStatusWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumBookingStatusFilter<$PrismaModel>
 }
 
+export type NestedEnumWaitlistStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel> | $Enums.WaitlistStatus
+}
+
+export type NestedEnumWaitlistStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistStatus | Prisma.EnumWaitlistStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistStatus[] | Prisma.ListEnumWaitlistStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumBookingJobKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingJobKind | Prisma.EnumBookingJobKindFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingJobKindFilter<$PrismaModel> | $Enums.BookingJobKind
+}
+
+export type NestedEnumBookingJobKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.BookingJobKind | Prisma.EnumBookingJobKindFieldRefInput<$PrismaModel>
+  in?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.BookingJobKind[] | Prisma.ListEnumBookingJobKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumBookingJobKindWithAggregatesFilter<$PrismaModel> | $Enums.BookingJobKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumBookingJobKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumBookingJobKindFilter<$PrismaModel>
+}
+
+export type NestedEnumLocationNodeTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationNodeType | Prisma.EnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationNodeTypeFilter<$PrismaModel> | $Enums.LocationNodeType
+}
+
+export type NestedEnumLocationEdgeKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationEdgeKind | Prisma.EnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationEdgeKindFilter<$PrismaModel> | $Enums.LocationEdgeKind
+}
+
+export type NestedEnumLocationNodeTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationNodeType | Prisma.EnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationNodeType[] | Prisma.ListEnumLocationNodeTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationNodeTypeWithAggregatesFilter<$PrismaModel> | $Enums.LocationNodeType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumLocationNodeTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumLocationNodeTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumLocationEdgeKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.LocationEdgeKind | Prisma.EnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  in?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.LocationEdgeKind[] | Prisma.ListEnumLocationEdgeKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumLocationEdgeKindWithAggregatesFilter<$PrismaModel> | $Enums.LocationEdgeKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumLocationEdgeKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumLocationEdgeKindFilter<$PrismaModel>
+}
+
+export type NestedEnumAllocationBatchStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllocationBatchStatus | Prisma.EnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllocationBatchStatusFilter<$PrismaModel> | $Enums.AllocationBatchStatus
+}
+
+export type NestedEnumAllocationBatchStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllocationBatchStatus | Prisma.EnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllocationBatchStatus[] | Prisma.ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllocationBatchStatusWithAggregatesFilter<$PrismaModel> | $Enums.AllocationBatchStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllocationBatchStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllocationBatchStatusFilter<$PrismaModel>
+}
+
 
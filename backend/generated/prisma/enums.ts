@@ -41,10 +41,56 @@ export const Branch = {
 export type Branch = (typeof Branch)[keyof typeof Branch]
 
 
+export const AllocationBatchStatus = {
+  Applied: 'Applied',
+  RolledBack: 'RolledBack'
+} as const
+
+export type AllocationBatchStatus = (typeof AllocationBatchStatus)[keyof typeof AllocationBatchStatus]
+
+
+export const WaitlistStatus = {
+  Waiting: 'Waiting',
+  Booked: 'Booked'
+} as const
+
+export type WaitlistStatus = (typeof WaitlistStatus)[keyof typeof WaitlistStatus]
+
+
+export const LocationNodeType = {
+  Block: 'Block',
+  Building: 'Building',
+  Floor: 'Floor'
+} as const
+
+export type LocationNodeType = (typeof LocationNodeType)[keyof typeof LocationNodeType]
+
+
+export const LocationEdgeKind = {
+  Walkway: 'Walkway',
+  Stairs: 'Stairs',
+  Lift: 'Lift'
+} as const
+
+export type LocationEdgeKind = (typeof LocationEdgeKind)[keyof typeof LocationEdgeKind]
+
+
+export const BookingJobKind = {
+  Start: 'Start',
+  Complete: 'Complete',
+  Expire: 'Expire'
+} as const
+
+export type BookingJobKind = (typeof BookingJobKind)[keyof typeof BookingJobKind]
+
+
 export const BookingStatus = {
+  PendingApproval: 'PendingApproval',
   NotStarted: 'NotStarted',
   Ongoing: 'Ongoing',
-  Completed: 'Completed'
+  Completed: 'Completed',
+  Cancelled: 'Cancelled',
+  Rejected: 'Rejected'
 } as const
 
 export type BookingStatus = (typeof BookingStatus)[keyof typeof BookingStatus]
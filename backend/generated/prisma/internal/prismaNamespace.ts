@@ -394,10 +394,21 @@ export const ModelName = {
   Building: 'Building',
   Floor: 'Floor',
   Room: 'Room',
+  BookingPolicy: 'BookingPolicy',
+  Amenity: 'Amenity',
   Seat: 'Seat',
   Student: 'Student',
   Teacher: 'Teacher',
-  RoomBooking: 'RoomBooking'
+  RoomBooking: 'RoomBooking',
+  BookingSeries: 'BookingSeries',
+  WaitlistEntry: 'WaitlistEntry',
+  RoomBlackout: 'RoomBlackout',
+  BookingLifecycleJob: 'BookingLifecycleJob',
+  SchedulerLease: 'SchedulerLease',
+  LocationEdge: 'LocationEdge',
+  AllocationBatch: 'AllocationBatch',
+  AllocationBatchSeat: 'AllocationBatchSeat',
+  AuditLog: 'AuditLog'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -413,7 +424,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "block" | "building" | "floor" | "room" | "seat" | "student" | "teacher" | "roomBooking"
+    modelProps: "user" | "block" | "building" | "floor" | "room" | "bookingPolicy" | "amenity" | "seat" | "student" | "teacher" | "roomBooking" | "bookingSeries" | "waitlistEntry" | "roomBlackout" | "bookingLifecycleJob" | "schedulerLease" | "locationEdge" | "allocationBatch" | "allocationBatchSeat" | "auditLog"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -787,6 +798,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    BookingPolicy: {
+      payload: Prisma.$BookingPolicyPayload<ExtArgs>
+      fields: Prisma.BookingPolicyFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BookingPolicyFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BookingPolicyFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>
+        }
+        findFirst: {
+          args: Prisma.BookingPolicyFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BookingPolicyFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>
+        }
+        findMany: {
+          args: Prisma.BookingPolicyFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>[]
+        }
+        create: {
+          args: Prisma.BookingPolicyCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>
+        }
+        createMany: {
+          args: Prisma.BookingPolicyCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BookingPolicyCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>[]
+        }
+        delete: {
+          args: Prisma.BookingPolicyDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>
+        }
+        update: {
+          args: Prisma.BookingPolicyUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>
+        }
+        deleteMany: {
+          args: Prisma.BookingPolicyDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BookingPolicyUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BookingPolicyUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>[]
+        }
+        upsert: {
+          args: Prisma.BookingPolicyUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingPolicyPayload>
+        }
+        aggregate: {
+          args: Prisma.BookingPolicyAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingPolicy>
+        }
+        groupBy: {
+          args: Prisma.BookingPolicyGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingPolicyGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BookingPolicyCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingPolicyCountAggregateOutputType> | number
+        }
+      }
+    }
+    Amenity: {
+      payload: Prisma.$AmenityPayload<ExtArgs>
+      fields: Prisma.AmenityFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AmenityFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AmenityFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>
+        }
+        findFirst: {
+          args: Prisma.AmenityFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AmenityFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>
+        }
+        findMany: {
+          args: Prisma.AmenityFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>[]
+        }
+        create: {
+          args: Prisma.AmenityCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>
+        }
+        createMany: {
+          args: Prisma.AmenityCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AmenityCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>[]
+        }
+        delete: {
+          args: Prisma.AmenityDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>
+        }
+        update: {
+          args: Prisma.AmenityUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>
+        }
+        deleteMany: {
+          args: Prisma.AmenityDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AmenityUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AmenityUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>[]
+        }
+        upsert: {
+          args: Prisma.AmenityUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AmenityPayload>
+        }
+        aggregate: {
+          args: Prisma.AmenityAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAmenity>
+        }
+        groupBy: {
+          args: Prisma.AmenityGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AmenityGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AmenityCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AmenityCountAggregateOutputType> | number
+        }
+      }
+    }
     Seat: {
       payload: Prisma.$SeatPayload<ExtArgs>
       fields: Prisma.SeatFieldRefs
@@ -906,180 +1065,846 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$StudentPayload>
         }
         deleteMany: {
-          args: Prisma.StudentDeleteManyArgs<ExtArgs>
+          args: Prisma.StudentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.StudentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.StudentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StudentPayload>[]
+        }
+        upsert: {
+          args: Prisma.StudentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StudentPayload>
+        }
+        aggregate: {
+          args: Prisma.StudentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateStudent>
+        }
+        groupBy: {
+          args: Prisma.StudentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StudentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.StudentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StudentCountAggregateOutputType> | number
+        }
+      }
+    }
+    Teacher: {
+      payload: Prisma.$TeacherPayload<ExtArgs>
+      fields: Prisma.TeacherFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TeacherFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TeacherFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+        }
+        findFirst: {
+          args: Prisma.TeacherFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TeacherFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+        }
+        findMany: {
+          args: Prisma.TeacherFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>[]
+        }
+        create: {
+          args: Prisma.TeacherCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+        }
+        createMany: {
+          args: Prisma.TeacherCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TeacherCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>[]
+        }
+        delete: {
+          args: Prisma.TeacherDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+        }
+        update: {
+          args: Prisma.TeacherUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+        }
+        deleteMany: {
+          args: Prisma.TeacherDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TeacherUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TeacherUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>[]
+        }
+        upsert: {
+          args: Prisma.TeacherUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+        }
+        aggregate: {
+          args: Prisma.TeacherAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTeacher>
+        }
+        groupBy: {
+          args: Prisma.TeacherGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TeacherGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TeacherCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TeacherCountAggregateOutputType> | number
+        }
+      }
+    }
+    RoomBooking: {
+      payload: Prisma.$RoomBookingPayload<ExtArgs>
+      fields: Prisma.RoomBookingFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RoomBookingFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RoomBookingFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+        }
+        findFirst: {
+          args: Prisma.RoomBookingFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RoomBookingFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+        }
+        findMany: {
+          args: Prisma.RoomBookingFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>[]
+        }
+        create: {
+          args: Prisma.RoomBookingCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+        }
+        createMany: {
+          args: Prisma.RoomBookingCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RoomBookingCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>[]
+        }
+        delete: {
+          args: Prisma.RoomBookingDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+        }
+        update: {
+          args: Prisma.RoomBookingUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+        }
+        deleteMany: {
+          args: Prisma.RoomBookingDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RoomBookingUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RoomBookingUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>[]
+        }
+        upsert: {
+          args: Prisma.RoomBookingUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+        }
+        aggregate: {
+          args: Prisma.RoomBookingAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRoomBooking>
+        }
+        groupBy: {
+          args: Prisma.RoomBookingGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RoomBookingGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RoomBookingCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RoomBookingCountAggregateOutputType> | number
+        }
+      }
+    }
+    BookingSeries: {
+      payload: Prisma.$BookingSeriesPayload<ExtArgs>
+      fields: Prisma.BookingSeriesFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BookingSeriesFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BookingSeriesFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>
+        }
+        findFirst: {
+          args: Prisma.BookingSeriesFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BookingSeriesFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>
+        }
+        findMany: {
+          args: Prisma.BookingSeriesFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>[]
+        }
+        create: {
+          args: Prisma.BookingSeriesCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>
+        }
+        createMany: {
+          args: Prisma.BookingSeriesCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BookingSeriesCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>[]
+        }
+        delete: {
+          args: Prisma.BookingSeriesDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>
+        }
+        update: {
+          args: Prisma.BookingSeriesUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>
+        }
+        deleteMany: {
+          args: Prisma.BookingSeriesDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BookingSeriesUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BookingSeriesUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>[]
+        }
+        upsert: {
+          args: Prisma.BookingSeriesUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingSeriesPayload>
+        }
+        aggregate: {
+          args: Prisma.BookingSeriesAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingSeries>
+        }
+        groupBy: {
+          args: Prisma.BookingSeriesGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingSeriesGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BookingSeriesCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingSeriesCountAggregateOutputType> | number
+        }
+      }
+    }
+    WaitlistEntry: {
+      payload: Prisma.$WaitlistEntryPayload<ExtArgs>
+      fields: Prisma.WaitlistEntryFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WaitlistEntryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WaitlistEntryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        findFirst: {
+          args: Prisma.WaitlistEntryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WaitlistEntryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        findMany: {
+          args: Prisma.WaitlistEntryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
+        }
+        create: {
+          args: Prisma.WaitlistEntryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        createMany: {
+          args: Prisma.WaitlistEntryCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WaitlistEntryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
+        }
+        delete: {
+          args: Prisma.WaitlistEntryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        update: {
+          args: Prisma.WaitlistEntryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        deleteMany: {
+          args: Prisma.WaitlistEntryDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WaitlistEntryUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WaitlistEntryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
+        }
+        upsert: {
+          args: Prisma.WaitlistEntryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        aggregate: {
+          args: Prisma.WaitlistEntryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWaitlistEntry>
+        }
+        groupBy: {
+          args: Prisma.WaitlistEntryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistEntryGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WaitlistEntryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistEntryCountAggregateOutputType> | number
+        }
+      }
+    }
+    RoomBlackout: {
+      payload: Prisma.$RoomBlackoutPayload<ExtArgs>
+      fields: Prisma.RoomBlackoutFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.RoomBlackoutFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.RoomBlackoutFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>
+        }
+        findFirst: {
+          args: Prisma.RoomBlackoutFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RoomBlackoutFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>
+        }
+        findMany: {
+          args: Prisma.RoomBlackoutFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>[]
+        }
+        create: {
+          args: Prisma.RoomBlackoutCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>
+        }
+        createMany: {
+          args: Prisma.RoomBlackoutCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RoomBlackoutCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>[]
+        }
+        delete: {
+          args: Prisma.RoomBlackoutDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>
+        }
+        update: {
+          args: Prisma.RoomBlackoutUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>
+        }
+        deleteMany: {
+          args: Prisma.RoomBlackoutDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RoomBlackoutUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RoomBlackoutUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>[]
+        }
+        upsert: {
+          args: Prisma.RoomBlackoutUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBlackoutPayload>
+        }
+        aggregate: {
+          args: Prisma.RoomBlackoutAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRoomBlackout>
+        }
+        groupBy: {
+          args: Prisma.RoomBlackoutGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RoomBlackoutGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RoomBlackoutCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RoomBlackoutCountAggregateOutputType> | number
+        }
+      }
+    }
+    BookingLifecycleJob: {
+      payload: Prisma.$BookingLifecycleJobPayload<ExtArgs>
+      fields: Prisma.BookingLifecycleJobFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BookingLifecycleJobFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BookingLifecycleJobFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>
+        }
+        findFirst: {
+          args: Prisma.BookingLifecycleJobFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BookingLifecycleJobFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>
+        }
+        findMany: {
+          args: Prisma.BookingLifecycleJobFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>[]
+        }
+        create: {
+          args: Prisma.BookingLifecycleJobCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>
+        }
+        createMany: {
+          args: Prisma.BookingLifecycleJobCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BookingLifecycleJobCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>[]
+        }
+        delete: {
+          args: Prisma.BookingLifecycleJobDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>
+        }
+        update: {
+          args: Prisma.BookingLifecycleJobUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>
+        }
+        deleteMany: {
+          args: Prisma.BookingLifecycleJobDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BookingLifecycleJobUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BookingLifecycleJobUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>[]
+        }
+        upsert: {
+          args: Prisma.BookingLifecycleJobUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BookingLifecycleJobPayload>
+        }
+        aggregate: {
+          args: Prisma.BookingLifecycleJobAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBookingLifecycleJob>
+        }
+        groupBy: {
+          args: Prisma.BookingLifecycleJobGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingLifecycleJobGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BookingLifecycleJobCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BookingLifecycleJobCountAggregateOutputType> | number
+        }
+      }
+    }
+    SchedulerLease: {
+      payload: Prisma.$SchedulerLeasePayload<ExtArgs>
+      fields: Prisma.SchedulerLeaseFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.SchedulerLeaseFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.SchedulerLeaseFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        findFirst: {
+          args: Prisma.SchedulerLeaseFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.SchedulerLeaseFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        findMany: {
+          args: Prisma.SchedulerLeaseFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>[]
+        }
+        create: {
+          args: Prisma.SchedulerLeaseCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        createMany: {
+          args: Prisma.SchedulerLeaseCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.SchedulerLeaseCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>[]
+        }
+        delete: {
+          args: Prisma.SchedulerLeaseDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        update: {
+          args: Prisma.SchedulerLeaseUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        deleteMany: {
+          args: Prisma.SchedulerLeaseDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.SchedulerLeaseUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.SchedulerLeaseUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>[]
+        }
+        upsert: {
+          args: Prisma.SchedulerLeaseUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$SchedulerLeasePayload>
+        }
+        aggregate: {
+          args: Prisma.SchedulerLeaseAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateSchedulerLease>
+        }
+        groupBy: {
+          args: Prisma.SchedulerLeaseGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SchedulerLeaseGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.SchedulerLeaseCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.SchedulerLeaseCountAggregateOutputType> | number
+        }
+      }
+    }
+    LocationEdge: {
+      payload: Prisma.$LocationEdgePayload<ExtArgs>
+      fields: Prisma.LocationEdgeFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.LocationEdgeFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.LocationEdgeFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>
+        }
+        findFirst: {
+          args: Prisma.LocationEdgeFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.LocationEdgeFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>
+        }
+        findMany: {
+          args: Prisma.LocationEdgeFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>[]
+        }
+        create: {
+          args: Prisma.LocationEdgeCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>
+        }
+        createMany: {
+          args: Prisma.LocationEdgeCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.LocationEdgeCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>[]
+        }
+        delete: {
+          args: Prisma.LocationEdgeDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>
+        }
+        update: {
+          args: Prisma.LocationEdgeUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>
+        }
+        deleteMany: {
+          args: Prisma.LocationEdgeDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.LocationEdgeUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.LocationEdgeUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>[]
+        }
+        upsert: {
+          args: Prisma.LocationEdgeUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$LocationEdgePayload>
+        }
+        aggregate: {
+          args: Prisma.LocationEdgeAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateLocationEdge>
+        }
+        groupBy: {
+          args: Prisma.LocationEdgeGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.LocationEdgeGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.LocationEdgeCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.LocationEdgeCountAggregateOutputType> | number
+        }
+      }
+    }
+    AllocationBatch: {
+      payload: Prisma.$AllocationBatchPayload<ExtArgs>
+      fields: Prisma.AllocationBatchFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AllocationBatchFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AllocationBatchFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>
+        }
+        findFirst: {
+          args: Prisma.AllocationBatchFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AllocationBatchFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>
+        }
+        findMany: {
+          args: Prisma.AllocationBatchFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>[]
+        }
+        create: {
+          args: Prisma.AllocationBatchCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>
+        }
+        createMany: {
+          args: Prisma.AllocationBatchCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AllocationBatchCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>[]
+        }
+        delete: {
+          args: Prisma.AllocationBatchDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>
+        }
+        update: {
+          args: Prisma.AllocationBatchUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>
+        }
+        deleteMany: {
+          args: Prisma.AllocationBatchDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.StudentUpdateManyArgs<ExtArgs>
+          args: Prisma.AllocationBatchUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.StudentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$StudentPayload>[]
+          args: Prisma.AllocationBatchUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>[]
         }
         upsert: {
-          args: Prisma.StudentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$StudentPayload>
+          args: Prisma.AllocationBatchUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchPayload>
         }
         aggregate: {
-          args: Prisma.StudentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateStudent>
+          args: Prisma.AllocationBatchAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAllocationBatch>
         }
         groupBy: {
-          args: Prisma.StudentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.StudentGroupByOutputType>[]
+          args: Prisma.AllocationBatchGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AllocationBatchGroupByOutputType>[]
         }
         count: {
-          args: Prisma.StudentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.StudentCountAggregateOutputType> | number
+          args: Prisma.AllocationBatchCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AllocationBatchCountAggregateOutputType> | number
         }
       }
     }
-    Teacher: {
-      payload: Prisma.$TeacherPayload<ExtArgs>
-      fields: Prisma.TeacherFieldRefs
+    AllocationBatchSeat: {
+      payload: Prisma.$AllocationBatchSeatPayload<ExtArgs>
+      fields: Prisma.AllocationBatchSeatFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.TeacherFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload> | null
+          args: Prisma.AllocationBatchSeatFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.TeacherFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+          args: Prisma.AllocationBatchSeatFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>
         }
         findFirst: {
-          args: Prisma.TeacherFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload> | null
+          args: Prisma.AllocationBatchSeatFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.TeacherFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+          args: Prisma.AllocationBatchSeatFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>
         }
         findMany: {
-          args: Prisma.TeacherFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>[]
+          args: Prisma.AllocationBatchSeatFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>[]
         }
         create: {
-          args: Prisma.TeacherCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+          args: Prisma.AllocationBatchSeatCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>
         }
         createMany: {
-          args: Prisma.TeacherCreateManyArgs<ExtArgs>
+          args: Prisma.AllocationBatchSeatCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.TeacherCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>[]
+          args: Prisma.AllocationBatchSeatCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>[]
         }
         delete: {
-          args: Prisma.TeacherDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+          args: Prisma.AllocationBatchSeatDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>
         }
         update: {
-          args: Prisma.TeacherUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+          args: Prisma.AllocationBatchSeatUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>
         }
         deleteMany: {
-          args: Prisma.TeacherDeleteManyArgs<ExtArgs>
+          args: Prisma.AllocationBatchSeatDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.TeacherUpdateManyArgs<ExtArgs>
+          args: Prisma.AllocationBatchSeatUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.TeacherUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>[]
+          args: Prisma.AllocationBatchSeatUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>[]
         }
         upsert: {
-          args: Prisma.TeacherUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$TeacherPayload>
+          args: Prisma.AllocationBatchSeatUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AllocationBatchSeatPayload>
         }
         aggregate: {
-          args: Prisma.TeacherAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateTeacher>
+          args: Prisma.AllocationBatchSeatAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAllocationBatchSeat>
         }
         groupBy: {
-          args: Prisma.TeacherGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.TeacherGroupByOutputType>[]
+          args: Prisma.AllocationBatchSeatGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AllocationBatchSeatGroupByOutputType>[]
         }
         count: {
-          args: Prisma.TeacherCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.TeacherCountAggregateOutputType> | number
+          args: Prisma.AllocationBatchSeatCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AllocationBatchSeatCountAggregateOutputType> | number
         }
       }
     }
-    RoomBooking: {
-      payload: Prisma.$RoomBookingPayload<ExtArgs>
-      fields: Prisma.RoomBookingFieldRefs
+    AuditLog: {
+      payload: Prisma.$AuditLogPayload<ExtArgs>
+      fields: Prisma.AuditLogFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.RoomBookingFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload> | null
+          args: Prisma.AuditLogFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.RoomBookingFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+          args: Prisma.AuditLogFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
         }
         findFirst: {
-          args: Prisma.RoomBookingFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload> | null
+          args: Prisma.AuditLogFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.RoomBookingFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+          args: Prisma.AuditLogFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
         }
         findMany: {
-          args: Prisma.RoomBookingFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>[]
+          args: Prisma.AuditLogFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>[]
         }
         create: {
-          args: Prisma.RoomBookingCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+          args: Prisma.AuditLogCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
         }
         createMany: {
-          args: Prisma.RoomBookingCreateManyArgs<ExtArgs>
+          args: Prisma.AuditLogCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.RoomBookingCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>[]
+          args: Prisma.AuditLogCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>[]
         }
         delete: {
-          args: Prisma.RoomBookingDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+          args: Prisma.AuditLogDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
         }
         update: {
-          args: Prisma.RoomBookingUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+          args: Prisma.AuditLogUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
         }
         deleteMany: {
-          args: Prisma.RoomBookingDeleteManyArgs<ExtArgs>
+          args: Prisma.AuditLogDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.RoomBookingUpdateManyArgs<ExtArgs>
+          args: Prisma.AuditLogUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.RoomBookingUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>[]
+          args: Prisma.AuditLogUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>[]
         }
         upsert: {
-          args: Prisma.RoomBookingUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomBookingPayload>
+          args: Prisma.AuditLogUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AuditLogPayload>
         }
         aggregate: {
-          args: Prisma.RoomBookingAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateRoomBooking>
+          args: Prisma.AuditLogAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAuditLog>
         }
         groupBy: {
-          args: Prisma.RoomBookingGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.RoomBookingGroupByOutputType>[]
+          args: Prisma.AuditLogGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AuditLogGroupByOutputType>[]
         }
         count: {
-          args: Prisma.RoomBookingCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.RoomBookingCountAggregateOutputType> | number
+          args: Prisma.AuditLogCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AuditLogCountAggregateOutputType> | number
         }
       }
     }
@@ -1127,6 +1952,8 @@ export const UserScalarFieldEnum = {
   email: 'email',
   password: 'password',
   plainPassword: 'plainPassword',
+  setupTokenHash: 'setupTokenHash',
+  setupTokenExpiresAt: 'setupTokenExpiresAt',
   role: 'role',
   studentId: 'studentId',
   teacherId: 'teacherId',
@@ -1155,6 +1982,9 @@ export const BuildingScalarFieldEnum = {
   code: 'code',
   blockId: 'blockId',
   distance: 'distance',
+  stepFreeEntrance: 'stepFreeEntrance',
+  bufferBeforeMinutes: 'bufferBeforeMinutes',
+  bufferAfterMinutes: 'bufferAfterMinutes',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1168,6 +1998,7 @@ export const FloorScalarFieldEnum = {
   name: 'name',
   number: 'number',
   distance: 'distance',
+  stepFreeAccess: 'stepFreeAccess',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1183,9 +2014,13 @@ export const RoomScalarFieldEnum = {
   capacity: 'capacity',
   rows: 'rows',
   cols: 'cols',
+  layout: 'layout',
   claimed: 'claimed',
   distance: 'distance',
   version: 'version',
+  bufferBeforeMinutes: 'bufferBeforeMinutes',
+  bufferAfterMinutes: 'bufferAfterMinutes',
+  requiresApproval: 'requiresApproval',
   branchAllocated: 'branchAllocated',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -1194,6 +2029,34 @@ export const RoomScalarFieldEnum = {
 export type RoomScalarFieldEnum = (typeof RoomScalarFieldEnum)[keyof typeof RoomScalarFieldEnum]
 
 
+export const BookingPolicyScalarFieldEnum = {
+  id: 'id',
+  buildingId: 'buildingId',
+  roomId: 'roomId',
+  maxDurationMinutes: 'maxDurationMinutes',
+  minLeadMinutes: 'minLeadMinutes',
+  maxLeadDays: 'maxLeadDays',
+  maxActiveBookings: 'maxActiveBookings',
+  openFromMinute: 'openFromMinute',
+  openUntilMinute: 'openUntilMinute',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BookingPolicyScalarFieldEnum = (typeof BookingPolicyScalarFieldEnum)[keyof typeof BookingPolicyScalarFieldEnum]
+
+
+export const AmenityScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AmenityScalarFieldEnum = (typeof AmenityScalarFieldEnum)[keyof typeof AmenityScalarFieldEnum]
+
+
 export const SeatScalarFieldEnum = {
   id: 'id',
   roomId: 'roomId',
@@ -1248,6 +2111,11 @@ export const RoomBookingScalarFieldEnum = {
   startTime: 'startTime',
   endTime: 'endTime',
   status: 'status',
+  seriesId: 'seriesId',
+  cancelledAt: 'cancelledAt',
+  adminReason: 'adminReason',
+  reviewComment: 'reviewComment',
+  reviewedAt: 'reviewedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -1255,6 +2123,129 @@ export const RoomBookingScalarFieldEnum = {
 export type RoomBookingScalarFieldEnum = (typeof RoomBookingScalarFieldEnum)[keyof typeof RoomBookingScalarFieldEnum]
 
 
+export const BookingSeriesScalarFieldEnum = {
+  id: 'id',
+  teacherId: 'teacherId',
+  roomId: 'roomId',
+  branch: 'branch',
+  capacity: 'capacity',
+  byWeekday: 'byWeekday',
+  until: 'until',
+  count: 'count',
+  createdAt: 'createdAt'
+} as const
+
+export type BookingSeriesScalarFieldEnum = (typeof BookingSeriesScalarFieldEnum)[keyof typeof BookingSeriesScalarFieldEnum]
+
+
+export const WaitlistEntryScalarFieldEnum = {
+  id: 'id',
+  roomId: 'roomId',
+  teacherId: 'teacherId',
+  branch: 'branch',
+  capacity: 'capacity',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  status: 'status',
+  bookingId: 'bookingId',
+  createdAt: 'createdAt'
+} as const
+
+export type WaitlistEntryScalarFieldEnum = (typeof WaitlistEntryScalarFieldEnum)[keyof typeof WaitlistEntryScalarFieldEnum]
+
+
+export const RoomBlackoutScalarFieldEnum = {
+  id: 'id',
+  roomId: 'roomId',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  reason: 'reason',
+  createdById: 'createdById',
+  createdAt: 'createdAt'
+} as const
+
+export type RoomBlackoutScalarFieldEnum = (typeof RoomBlackoutScalarFieldEnum)[keyof typeof RoomBlackoutScalarFieldEnum]
+
+
+export const BookingLifecycleJobScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  kind: 'kind',
+  runAt: 'runAt'
+} as const
+
+export type BookingLifecycleJobScalarFieldEnum = (typeof BookingLifecycleJobScalarFieldEnum)[keyof typeof BookingLifecycleJobScalarFieldEnum]
+
+
+export const SchedulerLeaseScalarFieldEnum = {
+  name: 'name',
+  holder: 'holder',
+  expiresAt: 'expiresAt'
+} as const
+
+export type SchedulerLeaseScalarFieldEnum = (typeof SchedulerLeaseScalarFieldEnum)[keyof typeof SchedulerLeaseScalarFieldEnum]
+
+
+export const LocationEdgeScalarFieldEnum = {
+  id: 'id',
+  fromType: 'fromType',
+  fromId: 'fromId',
+  toType: 'toType',
+  toId: 'toId',
+  distance: 'distance',
+  kind: 'kind',
+  stepFree: 'stepFree',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type LocationEdgeScalarFieldEnum = (typeof LocationEdgeScalarFieldEnum)[keyof typeof LocationEdgeScalarFieldEnum]
+
+
+export const AllocationBatchScalarFieldEnum = {
+  id: 'id',
+  branch: 'branch',
+  buildingId: 'buildingId',
+  roomId: 'roomId',
+  strategy: 'strategy',
+  status: 'status',
+  branchAssignedRooms: 'branchAssignedRooms',
+  createdAt: 'createdAt',
+  rolledBackAt: 'rolledBackAt'
+} as const
+
+export type AllocationBatchScalarFieldEnum = (typeof AllocationBatchScalarFieldEnum)[keyof typeof AllocationBatchScalarFieldEnum]
+
+
+export const AllocationBatchSeatScalarFieldEnum = {
+  id: 'id',
+  batchId: 'batchId',
+  seatId: 'seatId',
+  studentId: 'studentId',
+  roomId: 'roomId',
+  seatLabel: 'seatLabel',
+  seatVersion: 'seatVersion'
+} as const
+
+export type AllocationBatchSeatScalarFieldEnum = (typeof AllocationBatchSeatScalarFieldEnum)[keyof typeof AllocationBatchSeatScalarFieldEnum]
+
+
+export const AuditLogScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorEmail: 'actorEmail',
+  actorRole: 'actorRole',
+  action: 'action',
+  entityType: 'entityType',
+  entityId: 'entityId',
+  before: 'before',
+  after: 'after',
+  createdAt: 'createdAt'
+} as const
+
+export type AuditLogScalarFieldEnum = (typeof AuditLogScalarFieldEnum)[keyof typeof AuditLogScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -1263,6 +2254,14 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -1279,6 +2278,15 @@ export const NullsOrder = {
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
 
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
+
 
 /**
  * Field references
@@ -1300,30 +2308,30 @@ export type ListStringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaMod
 
 
 /**
- * Reference to a field of type 'UserRole'
+ * Reference to a field of type 'DateTime'
  */
-export type EnumUserRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserRole'>
+export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
     
 
 
 /**
- * Reference to a field of type 'UserRole[]'
+ * Reference to a field of type 'DateTime[]'
  */
-export type ListEnumUserRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserRole[]'>
+export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
     
 
 
 /**
- * Reference to a field of type 'DateTime'
+ * Reference to a field of type 'UserRole'
  */
-export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
+export type EnumUserRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserRole'>
     
 
 
 /**
- * Reference to a field of type 'DateTime[]'
+ * Reference to a field of type 'UserRole[]'
  */
-export type ListDateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime[]'>
+export type ListEnumUserRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'UserRole[]'>
     
 
 
@@ -1341,6 +2349,13 @@ export type ListFloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaMode
     
 
 
+/**
+ * Reference to a field of type 'Boolean'
+ */
+export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
+    
+
+
 /**
  * Reference to a field of type 'Int'
  */
@@ -1355,6 +2370,20 @@ export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
     
 
 
+/**
+ * Reference to a field of type 'Json'
+ */
+export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryMode'
+ */
+export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
+    
+
+
 /**
  * Reference to a field of type 'Branch'
  */
@@ -1396,6 +2425,76 @@ export type EnumBookingStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$Pr
 export type ListEnumBookingStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BookingStatus[]'>
     
 
+
+/**
+ * Reference to a field of type 'WaitlistStatus'
+ */
+export type EnumWaitlistStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistStatus[]'
+ */
+export type ListEnumWaitlistStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'BookingJobKind'
+ */
+export type EnumBookingJobKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BookingJobKind'>
+    
+
+
+/**
+ * Reference to a field of type 'BookingJobKind[]'
+ */
+export type ListEnumBookingJobKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'BookingJobKind[]'>
+    
+
+
+/**
+ * Reference to a field of type 'LocationNodeType'
+ */
+export type EnumLocationNodeTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LocationNodeType'>
+    
+
+
+/**
+ * Reference to a field of type 'LocationNodeType[]'
+ */
+export type ListEnumLocationNodeTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LocationNodeType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'LocationEdgeKind'
+ */
+export type EnumLocationEdgeKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LocationEdgeKind'>
+    
+
+
+/**
+ * Reference to a field of type 'LocationEdgeKind[]'
+ */
+export type ListEnumLocationEdgeKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'LocationEdgeKind[]'>
+    
+
+
+/**
+ * Reference to a field of type 'AllocationBatchStatus'
+ */
+export type EnumAllocationBatchStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllocationBatchStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'AllocationBatchStatus[]'
+ */
+export type ListEnumAllocationBatchStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllocationBatchStatus[]'>
+    
+
 /**
  * Batch Payload for updateMany & deleteMany & createMany
  */
@@ -1488,10 +2587,21 @@ export type GlobalOmitConfig = {
   building?: Prisma.BuildingOmit
   floor?: Prisma.FloorOmit
   room?: Prisma.RoomOmit
+  bookingPolicy?: Prisma.BookingPolicyOmit
+  amenity?: Prisma.AmenityOmit
   seat?: Prisma.SeatOmit
   student?: Prisma.StudentOmit
   teacher?: Prisma.TeacherOmit
   roomBooking?: Prisma.RoomBookingOmit
+  bookingSeries?: Prisma.BookingSeriesOmit
+  waitlistEntry?: Prisma.WaitlistEntryOmit
+  roomBlackout?: Prisma.RoomBlackoutOmit
+  bookingLifecycleJob?: Prisma.BookingLifecycleJobOmit
+  schedulerLease?: Prisma.SchedulerLeaseOmit
+  locationEdge?: Prisma.LocationEdgeOmit
+  allocationBatch?: Prisma.AllocationBatchOmit
+  allocationBatchSeat?: Prisma.AllocationBatchSeatOmit
+  auditLog?: Prisma.AuditLogOmit
 }
 
 /* Types for Logging */
@@ -53,10 +53,21 @@ export const ModelName = {
   Building: 'Building',
   Floor: 'Floor',
   Room: 'Room',
+  BookingPolicy: 'BookingPolicy',
+  Amenity: 'Amenity',
   Seat: 'Seat',
   Student: 'Student',
   Teacher: 'Teacher',
-  RoomBooking: 'RoomBooking'
+  RoomBooking: 'RoomBooking',
+  BookingSeries: 'BookingSeries',
+  WaitlistEntry: 'WaitlistEntry',
+  RoomBlackout: 'RoomBlackout',
+  BookingLifecycleJob: 'BookingLifecycleJob',
+  SchedulerLease: 'SchedulerLease',
+  LocationEdge: 'LocationEdge',
+  AllocationBatch: 'AllocationBatch',
+  AllocationBatchSeat: 'AllocationBatchSeat',
+  AuditLog: 'AuditLog'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -80,6 +91,8 @@ export const UserScalarFieldEnum = {
   email: 'email',
   password: 'password',
   plainPassword: 'plainPassword',
+  setupTokenHash: 'setupTokenHash',
+  setupTokenExpiresAt: 'setupTokenExpiresAt',
   role: 'role',
   studentId: 'studentId',
   teacherId: 'teacherId',
@@ -108,6 +121,9 @@ export const BuildingScalarFieldEnum = {
   code: 'code',
   blockId: 'blockId',
   distance: 'distance',
+  stepFreeEntrance: 'stepFreeEntrance',
+  bufferBeforeMinutes: 'bufferBeforeMinutes',
+  bufferAfterMinutes: 'bufferAfterMinutes',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -121,6 +137,7 @@ export const FloorScalarFieldEnum = {
   name: 'name',
   number: 'number',
   distance: 'distance',
+  stepFreeAccess: 'stepFreeAccess',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -136,9 +153,13 @@ export const RoomScalarFieldEnum = {
   capacity: 'capacity',
   rows: 'rows',
   cols: 'cols',
+  layout: 'layout',
   claimed: 'claimed',
   distance: 'distance',
   version: 'version',
+  bufferBeforeMinutes: 'bufferBeforeMinutes',
+  bufferAfterMinutes: 'bufferAfterMinutes',
+  requiresApproval: 'requiresApproval',
   branchAllocated: 'branchAllocated',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -147,6 +168,34 @@ export const RoomScalarFieldEnum = {
 export type RoomScalarFieldEnum = (typeof RoomScalarFieldEnum)[keyof typeof RoomScalarFieldEnum]
 
 
+export const BookingPolicyScalarFieldEnum = {
+  id: 'id',
+  buildingId: 'buildingId',
+  roomId: 'roomId',
+  maxDurationMinutes: 'maxDurationMinutes',
+  minLeadMinutes: 'minLeadMinutes',
+  maxLeadDays: 'maxLeadDays',
+  maxActiveBookings: 'maxActiveBookings',
+  openFromMinute: 'openFromMinute',
+  openUntilMinute: 'openUntilMinute',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type BookingPolicyScalarFieldEnum = (typeof BookingPolicyScalarFieldEnum)[keyof typeof BookingPolicyScalarFieldEnum]
+
+
+export const AmenityScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AmenityScalarFieldEnum = (typeof AmenityScalarFieldEnum)[keyof typeof AmenityScalarFieldEnum]
+
+
 export const SeatScalarFieldEnum = {
   id: 'id',
   roomId: 'roomId',
@@ -201,6 +250,11 @@ export const RoomBookingScalarFieldEnum = {
   startTime: 'startTime',
   endTime: 'endTime',
   status: 'status',
+  seriesId: 'seriesId',
+  cancelledAt: 'cancelledAt',
+  adminReason: 'adminReason',
+  reviewComment: 'reviewComment',
+  reviewedAt: 'reviewedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -208,6 +262,129 @@ export const RoomBookingScalarFieldEnum = {
 export type RoomBookingScalarFieldEnum = (typeof RoomBookingScalarFieldEnum)[keyof typeof RoomBookingScalarFieldEnum]
 
 
+export const BookingSeriesScalarFieldEnum = {
+  id: 'id',
+  teacherId: 'teacherId',
+  roomId: 'roomId',
+  branch: 'branch',
+  capacity: 'capacity',
+  byWeekday: 'byWeekday',
+  until: 'until',
+  count: 'count',
+  createdAt: 'createdAt'
+} as const
+
+export type BookingSeriesScalarFieldEnum = (typeof BookingSeriesScalarFieldEnum)[keyof typeof BookingSeriesScalarFieldEnum]
+
+
+export const WaitlistEntryScalarFieldEnum = {
+  id: 'id',
+  roomId: 'roomId',
+  teacherId: 'teacherId',
+  branch: 'branch',
+  capacity: 'capacity',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  status: 'status',
+  bookingId: 'bookingId',
+  createdAt: 'createdAt'
+} as const
+
+export type WaitlistEntryScalarFieldEnum = (typeof WaitlistEntryScalarFieldEnum)[keyof typeof WaitlistEntryScalarFieldEnum]
+
+
+export const RoomBlackoutScalarFieldEnum = {
+  id: 'id',
+  roomId: 'roomId',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  reason: 'reason',
+  createdById: 'createdById',
+  createdAt: 'createdAt'
+} as const
+
+export type RoomBlackoutScalarFieldEnum = (typeof RoomBlackoutScalarFieldEnum)[keyof typeof RoomBlackoutScalarFieldEnum]
+
+
+export const BookingLifecycleJobScalarFieldEnum = {
+  id: 'id',
+  bookingId: 'bookingId',
+  kind: 'kind',
+  runAt: 'runAt'
+} as const
+
+export type BookingLifecycleJobScalarFieldEnum = (typeof BookingLifecycleJobScalarFieldEnum)[keyof typeof BookingLifecycleJobScalarFieldEnum]
+
+
+export const SchedulerLeaseScalarFieldEnum = {
+  name: 'name',
+  holder: 'holder',
+  expiresAt: 'expiresAt'
+} as const
+
+export type SchedulerLeaseScalarFieldEnum = (typeof SchedulerLeaseScalarFieldEnum)[keyof typeof SchedulerLeaseScalarFieldEnum]
+
+
+export const LocationEdgeScalarFieldEnum = {
+  id: 'id',
+  fromType: 'fromType',
+  fromId: 'fromId',
+  toType: 'toType',
+  toId: 'toId',
+  distance: 'distance',
+  kind: 'kind',
+  stepFree: 'stepFree',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type LocationEdgeScalarFieldEnum = (typeof LocationEdgeScalarFieldEnum)[keyof typeof LocationEdgeScalarFieldEnum]
+
+
+export const AllocationBatchScalarFieldEnum = {
+  id: 'id',
+  branch: 'branch',
+  buildingId: 'buildingId',
+  roomId: 'roomId',
+  strategy: 'strategy',
+  status: 'status',
+  branchAssignedRooms: 'branchAssignedRooms',
+  createdAt: 'createdAt',
+  rolledBackAt: 'rolledBackAt'
+} as const
+
+export type AllocationBatchScalarFieldEnum = (typeof AllocationBatchScalarFieldEnum)[keyof typeof AllocationBatchScalarFieldEnum]
+
+
+export const AllocationBatchSeatScalarFieldEnum = {
+  id: 'id',
+  batchId: 'batchId',
+  seatId: 'seatId',
+  studentId: 'studentId',
+  roomId: 'roomId',
+  seatLabel: 'seatLabel',
+  seatVersion: 'seatVersion'
+} as const
+
+export type AllocationBatchSeatScalarFieldEnum = (typeof AllocationBatchSeatScalarFieldEnum)[keyof typeof AllocationBatchSeatScalarFieldEnum]
+
+
+export const AuditLogScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorEmail: 'actorEmail',
+  actorRole: 'actorRole',
+  action: 'action',
+  entityType: 'entityType',
+  entityId: 'entityId',
+  before: 'before',
+  after: 'after',
+  createdAt: 'createdAt'
+} as const
+
+export type AuditLogScalarFieldEnum = (typeof AuditLogScalarFieldEnum)[keyof typeof AuditLogScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -216,6 +393,14 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
+  JsonNull: JsonNull
+} as const
+
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -231,3 +416,12 @@ export const NullsOrder = {
 
 export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
 
+
+export const JsonNullValueFilter = {
+  DbNull: DbNull,
+  JsonNull: JsonNull,
+  AnyNull: AnyNull
+} as const
+
+export type JsonNullValueFilter = (typeof JsonNullValueFilter)[keyof typeof JsonNullValueFilter]
+
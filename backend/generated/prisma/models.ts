@@ -12,8 +12,19 @@ export type * from './models/Block'
 export type * from './models/Building'
 export type * from './models/Floor'
 export type * from './models/Room'
+export type * from './models/BookingPolicy'
+export type * from './models/Amenity'
 export type * from './models/Seat'
 export type * from './models/Student'
 export type * from './models/Teacher'
 export type * from './models/RoomBooking'
+export type * from './models/BookingSeries'
+export type * from './models/WaitlistEntry'
+export type * from './models/RoomBlackout'
+export type * from './models/BookingLifecycleJob'
+export type * from './models/SchedulerLease'
+export type * from './models/LocationEdge'
+export type * from './models/AllocationBatch'
+export type * from './models/AllocationBatchSeat'
+export type * from './models/AuditLog'
 export type * from './commonInputTypes'
\ No newline at end of file
@@ -0,0 +1,1456 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `AllocationBatch` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AllocationBatch
+ * 
+ */
+export type AllocationBatchModel = runtime.Types.Result.DefaultSelection<Prisma.$AllocationBatchPayload>
+
+export type AggregateAllocationBatch = {
+  _count: AllocationBatchCountAggregateOutputType | null
+  _min: AllocationBatchMinAggregateOutputType | null
+  _max: AllocationBatchMaxAggregateOutputType | null
+}
+
+export type AllocationBatchMinAggregateOutputType = {
+  id: string | null
+  branch: $Enums.Branch | null
+  buildingId: string | null
+  roomId: string | null
+  strategy: string | null
+  status: $Enums.AllocationBatchStatus | null
+  createdAt: Date | null
+  rolledBackAt: Date | null
+}
+
+export type AllocationBatchMaxAggregateOutputType = {
+  id: string | null
+  branch: $Enums.Branch | null
+  buildingId: string | null
+  roomId: string | null
+  strategy: string | null
+  status: $Enums.AllocationBatchStatus | null
+  createdAt: Date | null
+  rolledBackAt: Date | null
+}
+
+export type AllocationBatchCountAggregateOutputType = {
+  id: number
+  branch: number
+  buildingId: number
+  roomId: number
+  strategy: number
+  status: number
+  branchAssignedRooms: number
+  createdAt: number
+  rolledBackAt: number
+  _all: number
+}
+
+
+export type AllocationBatchMinAggregateInputType = {
+  id?: true
+  branch?: true
+  buildingId?: true
+  roomId?: true
+  strategy?: true
+  status?: true
+  createdAt?: true
+  rolledBackAt?: true
+}
+
+export type AllocationBatchMaxAggregateInputType = {
+  id?: true
+  branch?: true
+  buildingId?: true
+  roomId?: true
+  strategy?: true
+  status?: true
+  createdAt?: true
+  rolledBackAt?: true
+}
+
+export type AllocationBatchCountAggregateInputType = {
+  id?: true
+  branch?: true
+  buildingId?: true
+  roomId?: true
+  strategy?: true
+  status?: true
+  branchAssignedRooms?: true
+  createdAt?: true
+  rolledBackAt?: true
+  _all?: true
+}
+
+export type AllocationBatchAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AllocationBatch to aggregate.
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatches to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchOrderByWithRelationInput | Prisma.AllocationBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AllocationBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AllocationBatches
+  **/
+  _count?: true | AllocationBatchCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AllocationBatchMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AllocationBatchMaxAggregateInputType
+}
+
+export type GetAllocationBatchAggregateType<T extends AllocationBatchAggregateArgs> = {
+      [P in keyof T & keyof AggregateAllocationBatch]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAllocationBatch[P]>
+    : Prisma.GetScalarType<T[P], AggregateAllocationBatch[P]>
+}
+
+
+
+
+export type AllocationBatchGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AllocationBatchWhereInput
+  orderBy?: Prisma.AllocationBatchOrderByWithAggregationInput | Prisma.AllocationBatchOrderByWithAggregationInput[]
+  by: Prisma.AllocationBatchScalarFieldEnum[] | Prisma.AllocationBatchScalarFieldEnum
+  having?: Prisma.AllocationBatchScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AllocationBatchCountAggregateInputType | true
+  _min?: AllocationBatchMinAggregateInputType
+  _max?: AllocationBatchMaxAggregateInputType
+}
+
+export type AllocationBatchGroupByOutputType = {
+  id: string
+  branch: $Enums.Branch
+  buildingId: string | null
+  roomId: string | null
+  strategy: string | null
+  status: $Enums.AllocationBatchStatus
+  branchAssignedRooms: string[]
+  createdAt: Date
+  rolledBackAt: Date | null
+  _count: AllocationBatchCountAggregateOutputType | null
+  _min: AllocationBatchMinAggregateOutputType | null
+  _max: AllocationBatchMaxAggregateOutputType | null
+}
+
+type GetAllocationBatchGroupByPayload<T extends AllocationBatchGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AllocationBatchGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AllocationBatchGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AllocationBatchGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AllocationBatchGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AllocationBatchWhereInput = {
+  AND?: Prisma.AllocationBatchWhereInput | Prisma.AllocationBatchWhereInput[]
+  OR?: Prisma.AllocationBatchWhereInput[]
+  NOT?: Prisma.AllocationBatchWhereInput | Prisma.AllocationBatchWhereInput[]
+  id?: Prisma.StringFilter<"AllocationBatch"> | string
+  branch?: Prisma.EnumBranchFilter<"AllocationBatch"> | $Enums.Branch
+  buildingId?: Prisma.StringNullableFilter<"AllocationBatch"> | string | null
+  roomId?: Prisma.StringNullableFilter<"AllocationBatch"> | string | null
+  strategy?: Prisma.StringNullableFilter<"AllocationBatch"> | string | null
+  status?: Prisma.EnumAllocationBatchStatusFilter<"AllocationBatch"> | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.StringNullableListFilter<"AllocationBatch">
+  createdAt?: Prisma.DateTimeFilter<"AllocationBatch"> | Date | string
+  rolledBackAt?: Prisma.DateTimeNullableFilter<"AllocationBatch"> | Date | string | null
+  seats?: Prisma.AllocationBatchSeatListRelationFilter
+}
+
+export type AllocationBatchOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  roomId?: Prisma.SortOrderInput | Prisma.SortOrder
+  strategy?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  branchAssignedRooms?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  rolledBackAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  seats?: Prisma.AllocationBatchSeatOrderByRelationAggregateInput
+}
+
+export type AllocationBatchWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.AllocationBatchWhereInput | Prisma.AllocationBatchWhereInput[]
+  OR?: Prisma.AllocationBatchWhereInput[]
+  NOT?: Prisma.AllocationBatchWhereInput | Prisma.AllocationBatchWhereInput[]
+  branch?: Prisma.EnumBranchFilter<"AllocationBatch"> | $Enums.Branch
+  buildingId?: Prisma.StringNullableFilter<"AllocationBatch"> | string | null
+  roomId?: Prisma.StringNullableFilter<"AllocationBatch"> | string | null
+  strategy?: Prisma.StringNullableFilter<"AllocationBatch"> | string | null
+  status?: Prisma.EnumAllocationBatchStatusFilter<"AllocationBatch"> | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.StringNullableListFilter<"AllocationBatch">
+  createdAt?: Prisma.DateTimeFilter<"AllocationBatch"> | Date | string
+  rolledBackAt?: Prisma.DateTimeNullableFilter<"AllocationBatch"> | Date | string | null
+  seats?: Prisma.AllocationBatchSeatListRelationFilter
+}, "id">
+
+export type AllocationBatchOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  roomId?: Prisma.SortOrderInput | Prisma.SortOrder
+  strategy?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  branchAssignedRooms?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  rolledBackAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.AllocationBatchCountOrderByAggregateInput
+  _max?: Prisma.AllocationBatchMaxOrderByAggregateInput
+  _min?: Prisma.AllocationBatchMinOrderByAggregateInput
+}
+
+export type AllocationBatchScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AllocationBatchScalarWhereWithAggregatesInput | Prisma.AllocationBatchScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AllocationBatchScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AllocationBatchScalarWhereWithAggregatesInput | Prisma.AllocationBatchScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AllocationBatch"> | string
+  branch?: Prisma.EnumBranchWithAggregatesFilter<"AllocationBatch"> | $Enums.Branch
+  buildingId?: Prisma.StringNullableWithAggregatesFilter<"AllocationBatch"> | string | null
+  roomId?: Prisma.StringNullableWithAggregatesFilter<"AllocationBatch"> | string | null
+  strategy?: Prisma.StringNullableWithAggregatesFilter<"AllocationBatch"> | string | null
+  status?: Prisma.EnumAllocationBatchStatusWithAggregatesFilter<"AllocationBatch"> | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.StringNullableListFilter<"AllocationBatch">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AllocationBatch"> | Date | string
+  rolledBackAt?: Prisma.DateTimeNullableWithAggregatesFilter<"AllocationBatch"> | Date | string | null
+}
+
+export type AllocationBatchCreateInput = {
+  id?: string
+  branch: $Enums.Branch
+  buildingId?: string | null
+  roomId?: string | null
+  strategy?: string | null
+  status?: $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchCreatebranchAssignedRoomsInput | string[]
+  createdAt?: Date | string
+  rolledBackAt?: Date | string | null
+  seats?: Prisma.AllocationBatchSeatCreateNestedManyWithoutBatchInput
+}
+
+export type AllocationBatchUncheckedCreateInput = {
+  id?: string
+  branch: $Enums.Branch
+  buildingId?: string | null
+  roomId?: string | null
+  strategy?: string | null
+  status?: $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchCreatebranchAssignedRoomsInput | string[]
+  createdAt?: Date | string
+  rolledBackAt?: Date | string | null
+  seats?: Prisma.AllocationBatchSeatUncheckedCreateNestedManyWithoutBatchInput
+}
+
+export type AllocationBatchUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  strategy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAllocationBatchStatusFieldUpdateOperationsInput | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchUpdatebranchAssignedRoomsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rolledBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  seats?: Prisma.AllocationBatchSeatUpdateManyWithoutBatchNestedInput
+}
+
+export type AllocationBatchUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  strategy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAllocationBatchStatusFieldUpdateOperationsInput | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchUpdatebranchAssignedRoomsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rolledBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  seats?: Prisma.AllocationBatchSeatUncheckedUpdateManyWithoutBatchNestedInput
+}
+
+export type AllocationBatchCreateManyInput = {
+  id?: string
+  branch: $Enums.Branch
+  buildingId?: string | null
+  roomId?: string | null
+  strategy?: string | null
+  status?: $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchCreatebranchAssignedRoomsInput | string[]
+  createdAt?: Date | string
+  rolledBackAt?: Date | string | null
+}
+
+export type AllocationBatchUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  strategy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAllocationBatchStatusFieldUpdateOperationsInput | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchUpdatebranchAssignedRoomsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rolledBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type AllocationBatchUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  strategy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAllocationBatchStatusFieldUpdateOperationsInput | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchUpdatebranchAssignedRoomsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rolledBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type AllocationBatchCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  strategy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  branchAssignedRooms?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  rolledBackAt?: Prisma.SortOrder
+}
+
+export type AllocationBatchMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  strategy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  rolledBackAt?: Prisma.SortOrder
+}
+
+export type AllocationBatchMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  strategy?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  rolledBackAt?: Prisma.SortOrder
+}
+
+export type AllocationBatchScalarRelationFilter = {
+  is?: Prisma.AllocationBatchWhereInput
+  isNot?: Prisma.AllocationBatchWhereInput
+}
+
+export type AllocationBatchCreatebranchAssignedRoomsInput = {
+  set: string[]
+}
+
+export type EnumAllocationBatchStatusFieldUpdateOperationsInput = {
+  set?: $Enums.AllocationBatchStatus
+}
+
+export type AllocationBatchUpdatebranchAssignedRoomsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type AllocationBatchCreateNestedOneWithoutSeatsInput = {
+  create?: Prisma.XOR<Prisma.AllocationBatchCreateWithoutSeatsInput, Prisma.AllocationBatchUncheckedCreateWithoutSeatsInput>
+  connectOrCreate?: Prisma.AllocationBatchCreateOrConnectWithoutSeatsInput
+  connect?: Prisma.AllocationBatchWhereUniqueInput
+}
+
+export type AllocationBatchUpdateOneRequiredWithoutSeatsNestedInput = {
+  create?: Prisma.XOR<Prisma.AllocationBatchCreateWithoutSeatsInput, Prisma.AllocationBatchUncheckedCreateWithoutSeatsInput>
+  connectOrCreate?: Prisma.AllocationBatchCreateOrConnectWithoutSeatsInput
+  upsert?: Prisma.AllocationBatchUpsertWithoutSeatsInput
+  connect?: Prisma.AllocationBatchWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AllocationBatchUpdateToOneWithWhereWithoutSeatsInput, Prisma.AllocationBatchUpdateWithoutSeatsInput>, Prisma.AllocationBatchUncheckedUpdateWithoutSeatsInput>
+}
+
+export type AllocationBatchCreateWithoutSeatsInput = {
+  id?: string
+  branch: $Enums.Branch
+  buildingId?: string | null
+  roomId?: string | null
+  strategy?: string | null
+  status?: $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchCreatebranchAssignedRoomsInput | string[]
+  createdAt?: Date | string
+  rolledBackAt?: Date | string | null
+}
+
+export type AllocationBatchUncheckedCreateWithoutSeatsInput = {
+  id?: string
+  branch: $Enums.Branch
+  buildingId?: string | null
+  roomId?: string | null
+  strategy?: string | null
+  status?: $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchCreatebranchAssignedRoomsInput | string[]
+  createdAt?: Date | string
+  rolledBackAt?: Date | string | null
+}
+
+export type AllocationBatchCreateOrConnectWithoutSeatsInput = {
+  where: Prisma.AllocationBatchWhereUniqueInput
+  create: Prisma.XOR<Prisma.AllocationBatchCreateWithoutSeatsInput, Prisma.AllocationBatchUncheckedCreateWithoutSeatsInput>
+}
+
+export type AllocationBatchUpsertWithoutSeatsInput = {
+  update: Prisma.XOR<Prisma.AllocationBatchUpdateWithoutSeatsInput, Prisma.AllocationBatchUncheckedUpdateWithoutSeatsInput>
+  create: Prisma.XOR<Prisma.AllocationBatchCreateWithoutSeatsInput, Prisma.AllocationBatchUncheckedCreateWithoutSeatsInput>
+  where?: Prisma.AllocationBatchWhereInput
+}
+
+export type AllocationBatchUpdateToOneWithWhereWithoutSeatsInput = {
+  where?: Prisma.AllocationBatchWhereInput
+  data: Prisma.XOR<Prisma.AllocationBatchUpdateWithoutSeatsInput, Prisma.AllocationBatchUncheckedUpdateWithoutSeatsInput>
+}
+
+export type AllocationBatchUpdateWithoutSeatsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  strategy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAllocationBatchStatusFieldUpdateOperationsInput | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchUpdatebranchAssignedRoomsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rolledBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type AllocationBatchUncheckedUpdateWithoutSeatsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  strategy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAllocationBatchStatusFieldUpdateOperationsInput | $Enums.AllocationBatchStatus
+  branchAssignedRooms?: Prisma.AllocationBatchUpdatebranchAssignedRoomsInput | string[]
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rolledBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+/**
+ * Count Type AllocationBatchCountOutputType
+ */
+
+export type AllocationBatchCountOutputType = {
+  seats: number
+}
+
+export type AllocationBatchCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seats?: boolean | AllocationBatchCountOutputTypeCountSeatsArgs
+}
+
+/**
+ * AllocationBatchCountOutputType without action
+ */
+export type AllocationBatchCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchCountOutputType
+   */
+  select?: Prisma.AllocationBatchCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * AllocationBatchCountOutputType without action
+ */
+export type AllocationBatchCountOutputTypeCountSeatsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AllocationBatchSeatWhereInput
+}
+
+
+export type AllocationBatchSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  branch?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  strategy?: boolean
+  status?: boolean
+  branchAssignedRooms?: boolean
+  createdAt?: boolean
+  rolledBackAt?: boolean
+  seats?: boolean | Prisma.AllocationBatch$seatsArgs<ExtArgs>
+  _count?: boolean | Prisma.AllocationBatchCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["allocationBatch"]>
+
+export type AllocationBatchSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  branch?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  strategy?: boolean
+  status?: boolean
+  branchAssignedRooms?: boolean
+  createdAt?: boolean
+  rolledBackAt?: boolean
+}, ExtArgs["result"]["allocationBatch"]>
+
+export type AllocationBatchSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  branch?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  strategy?: boolean
+  status?: boolean
+  branchAssignedRooms?: boolean
+  createdAt?: boolean
+  rolledBackAt?: boolean
+}, ExtArgs["result"]["allocationBatch"]>
+
+export type AllocationBatchSelectScalar = {
+  id?: boolean
+  branch?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  strategy?: boolean
+  status?: boolean
+  branchAssignedRooms?: boolean
+  createdAt?: boolean
+  rolledBackAt?: boolean
+}
+
+export type AllocationBatchOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "branch" | "buildingId" | "roomId" | "strategy" | "status" | "branchAssignedRooms" | "createdAt" | "rolledBackAt", ExtArgs["result"]["allocationBatch"]>
+export type AllocationBatchInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  seats?: boolean | Prisma.AllocationBatch$seatsArgs<ExtArgs>
+  _count?: boolean | Prisma.AllocationBatchCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type AllocationBatchIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type AllocationBatchIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $AllocationBatchPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AllocationBatch"
+  objects: {
+    seats: Prisma.$AllocationBatchSeatPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    branch: $Enums.Branch
+    buildingId: string | null
+    roomId: string | null
+    strategy: string | null
+    status: $Enums.AllocationBatchStatus
+    branchAssignedRooms: string[]
+    createdAt: Date
+    rolledBackAt: Date | null
+  }, ExtArgs["result"]["allocationBatch"]>
+  composites: {}
+}
+
+export type AllocationBatchGetPayload<S extends boolean | null | undefined | AllocationBatchDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload, S>
+
+export type AllocationBatchCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AllocationBatchFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AllocationBatchCountAggregateInputType | true
+  }
+
+export interface AllocationBatchDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AllocationBatch'], meta: { name: 'AllocationBatch' } }
+  /**
+   * Find zero or one AllocationBatch that matches the filter.
+   * @param {AllocationBatchFindUniqueArgs} args - Arguments to find a AllocationBatch
+   * @example
+   * // Get one AllocationBatch
+   * const allocationBatch = await prisma.allocationBatch.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AllocationBatchFindUniqueArgs>(args: Prisma.SelectSubset<T, AllocationBatchFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AllocationBatch that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AllocationBatchFindUniqueOrThrowArgs} args - Arguments to find a AllocationBatch
+   * @example
+   * // Get one AllocationBatch
+   * const allocationBatch = await prisma.allocationBatch.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AllocationBatchFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AllocationBatchFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AllocationBatch that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchFindFirstArgs} args - Arguments to find a AllocationBatch
+   * @example
+   * // Get one AllocationBatch
+   * const allocationBatch = await prisma.allocationBatch.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AllocationBatchFindFirstArgs>(args?: Prisma.SelectSubset<T, AllocationBatchFindFirstArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AllocationBatch that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchFindFirstOrThrowArgs} args - Arguments to find a AllocationBatch
+   * @example
+   * // Get one AllocationBatch
+   * const allocationBatch = await prisma.allocationBatch.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AllocationBatchFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AllocationBatchFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AllocationBatches that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AllocationBatches
+   * const allocationBatches = await prisma.allocationBatch.findMany()
+   * 
+   * // Get first 10 AllocationBatches
+   * const allocationBatches = await prisma.allocationBatch.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const allocationBatchWithIdOnly = await prisma.allocationBatch.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AllocationBatchFindManyArgs>(args?: Prisma.SelectSubset<T, AllocationBatchFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AllocationBatch.
+   * @param {AllocationBatchCreateArgs} args - Arguments to create a AllocationBatch.
+   * @example
+   * // Create one AllocationBatch
+   * const AllocationBatch = await prisma.allocationBatch.create({
+   *   data: {
+   *     // ... data to create a AllocationBatch
+   *   }
+   * })
+   * 
+   */
+  create<T extends AllocationBatchCreateArgs>(args: Prisma.SelectSubset<T, AllocationBatchCreateArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AllocationBatches.
+   * @param {AllocationBatchCreateManyArgs} args - Arguments to create many AllocationBatches.
+   * @example
+   * // Create many AllocationBatches
+   * const allocationBatch = await prisma.allocationBatch.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AllocationBatchCreateManyArgs>(args?: Prisma.SelectSubset<T, AllocationBatchCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AllocationBatches and returns the data saved in the database.
+   * @param {AllocationBatchCreateManyAndReturnArgs} args - Arguments to create many AllocationBatches.
+   * @example
+   * // Create many AllocationBatches
+   * const allocationBatch = await prisma.allocationBatch.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AllocationBatches and only return the `id`
+   * const allocationBatchWithIdOnly = await prisma.allocationBatch.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AllocationBatchCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AllocationBatchCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AllocationBatch.
+   * @param {AllocationBatchDeleteArgs} args - Arguments to delete one AllocationBatch.
+   * @example
+   * // Delete one AllocationBatch
+   * const AllocationBatch = await prisma.allocationBatch.delete({
+   *   where: {
+   *     // ... filter to delete one AllocationBatch
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AllocationBatchDeleteArgs>(args: Prisma.SelectSubset<T, AllocationBatchDeleteArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AllocationBatch.
+   * @param {AllocationBatchUpdateArgs} args - Arguments to update one AllocationBatch.
+   * @example
+   * // Update one AllocationBatch
+   * const allocationBatch = await prisma.allocationBatch.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AllocationBatchUpdateArgs>(args: Prisma.SelectSubset<T, AllocationBatchUpdateArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AllocationBatches.
+   * @param {AllocationBatchDeleteManyArgs} args - Arguments to filter AllocationBatches to delete.
+   * @example
+   * // Delete a few AllocationBatches
+   * const { count } = await prisma.allocationBatch.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AllocationBatchDeleteManyArgs>(args?: Prisma.SelectSubset<T, AllocationBatchDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AllocationBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AllocationBatches
+   * const allocationBatch = await prisma.allocationBatch.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AllocationBatchUpdateManyArgs>(args: Prisma.SelectSubset<T, AllocationBatchUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AllocationBatches and returns the data updated in the database.
+   * @param {AllocationBatchUpdateManyAndReturnArgs} args - Arguments to update many AllocationBatches.
+   * @example
+   * // Update many AllocationBatches
+   * const allocationBatch = await prisma.allocationBatch.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AllocationBatches and only return the `id`
+   * const allocationBatchWithIdOnly = await prisma.allocationBatch.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AllocationBatchUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AllocationBatchUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AllocationBatch.
+   * @param {AllocationBatchUpsertArgs} args - Arguments to update or create a AllocationBatch.
+   * @example
+   * // Update or create a AllocationBatch
+   * const allocationBatch = await prisma.allocationBatch.upsert({
+   *   create: {
+   *     // ... data to create a AllocationBatch
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AllocationBatch we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AllocationBatchUpsertArgs>(args: Prisma.SelectSubset<T, AllocationBatchUpsertArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AllocationBatches.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchCountArgs} args - Arguments to filter AllocationBatches to count.
+   * @example
+   * // Count the number of AllocationBatches
+   * const count = await prisma.allocationBatch.count({
+   *   where: {
+   *     // ... the filter for the AllocationBatches we want to count
+   *   }
+   * })
+  **/
+  count<T extends AllocationBatchCountArgs>(
+    args?: Prisma.Subset<T, AllocationBatchCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AllocationBatchCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AllocationBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AllocationBatchAggregateArgs>(args: Prisma.Subset<T, AllocationBatchAggregateArgs>): Prisma.PrismaPromise<GetAllocationBatchAggregateType<T>>
+
+  /**
+   * Group by AllocationBatch.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AllocationBatchGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AllocationBatchGroupByArgs['orderBy'] }
+      : { orderBy?: AllocationBatchGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AllocationBatchGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAllocationBatchGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AllocationBatch model
+ */
+readonly fields: AllocationBatchFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AllocationBatch.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AllocationBatchClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  seats<T extends Prisma.AllocationBatch$seatsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AllocationBatch$seatsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AllocationBatch model
+ */
+export interface AllocationBatchFieldRefs {
+  readonly id: Prisma.FieldRef<"AllocationBatch", 'String'>
+  readonly branch: Prisma.FieldRef<"AllocationBatch", 'Branch'>
+  readonly buildingId: Prisma.FieldRef<"AllocationBatch", 'String'>
+  readonly roomId: Prisma.FieldRef<"AllocationBatch", 'String'>
+  readonly strategy: Prisma.FieldRef<"AllocationBatch", 'String'>
+  readonly status: Prisma.FieldRef<"AllocationBatch", 'AllocationBatchStatus'>
+  readonly branchAssignedRooms: Prisma.FieldRef<"AllocationBatch", 'String[]'>
+  readonly createdAt: Prisma.FieldRef<"AllocationBatch", 'DateTime'>
+  readonly rolledBackAt: Prisma.FieldRef<"AllocationBatch", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AllocationBatch findUnique
+ */
+export type AllocationBatchFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatch to fetch.
+   */
+  where: Prisma.AllocationBatchWhereUniqueInput
+}
+
+/**
+ * AllocationBatch findUniqueOrThrow
+ */
+export type AllocationBatchFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatch to fetch.
+   */
+  where: Prisma.AllocationBatchWhereUniqueInput
+}
+
+/**
+ * AllocationBatch findFirst
+ */
+export type AllocationBatchFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatch to fetch.
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatches to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchOrderByWithRelationInput | Prisma.AllocationBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AllocationBatches.
+   */
+  cursor?: Prisma.AllocationBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AllocationBatches.
+   */
+  distinct?: Prisma.AllocationBatchScalarFieldEnum | Prisma.AllocationBatchScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatch findFirstOrThrow
+ */
+export type AllocationBatchFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatch to fetch.
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatches to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchOrderByWithRelationInput | Prisma.AllocationBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AllocationBatches.
+   */
+  cursor?: Prisma.AllocationBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatches.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AllocationBatches.
+   */
+  distinct?: Prisma.AllocationBatchScalarFieldEnum | Prisma.AllocationBatchScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatch findMany
+ */
+export type AllocationBatchFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatches to fetch.
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatches to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchOrderByWithRelationInput | Prisma.AllocationBatchOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AllocationBatches.
+   */
+  cursor?: Prisma.AllocationBatchWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatches from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatches.
+   */
+  skip?: number
+  distinct?: Prisma.AllocationBatchScalarFieldEnum | Prisma.AllocationBatchScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatch create
+ */
+export type AllocationBatchCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AllocationBatch.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchCreateInput, Prisma.AllocationBatchUncheckedCreateInput>
+}
+
+/**
+ * AllocationBatch createMany
+ */
+export type AllocationBatchCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AllocationBatches.
+   */
+  data: Prisma.AllocationBatchCreateManyInput | Prisma.AllocationBatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AllocationBatch createManyAndReturn
+ */
+export type AllocationBatchCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * The data used to create many AllocationBatches.
+   */
+  data: Prisma.AllocationBatchCreateManyInput | Prisma.AllocationBatchCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AllocationBatch update
+ */
+export type AllocationBatchUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AllocationBatch.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchUpdateInput, Prisma.AllocationBatchUncheckedUpdateInput>
+  /**
+   * Choose, which AllocationBatch to update.
+   */
+  where: Prisma.AllocationBatchWhereUniqueInput
+}
+
+/**
+ * AllocationBatch updateMany
+ */
+export type AllocationBatchUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AllocationBatches.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchUpdateManyMutationInput, Prisma.AllocationBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which AllocationBatches to update
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * Limit how many AllocationBatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * AllocationBatch updateManyAndReturn
+ */
+export type AllocationBatchUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * The data used to update AllocationBatches.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchUpdateManyMutationInput, Prisma.AllocationBatchUncheckedUpdateManyInput>
+  /**
+   * Filter which AllocationBatches to update
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * Limit how many AllocationBatches to update.
+   */
+  limit?: number
+}
+
+/**
+ * AllocationBatch upsert
+ */
+export type AllocationBatchUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AllocationBatch to update in case it exists.
+   */
+  where: Prisma.AllocationBatchWhereUniqueInput
+  /**
+   * In case the AllocationBatch found by the `where` argument doesn't exist, create a new AllocationBatch with this data.
+   */
+  create: Prisma.XOR<Prisma.AllocationBatchCreateInput, Prisma.AllocationBatchUncheckedCreateInput>
+  /**
+   * In case the AllocationBatch was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AllocationBatchUpdateInput, Prisma.AllocationBatchUncheckedUpdateInput>
+}
+
+/**
+ * AllocationBatch delete
+ */
+export type AllocationBatchDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+  /**
+   * Filter which AllocationBatch to delete.
+   */
+  where: Prisma.AllocationBatchWhereUniqueInput
+}
+
+/**
+ * AllocationBatch deleteMany
+ */
+export type AllocationBatchDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AllocationBatches to delete
+   */
+  where?: Prisma.AllocationBatchWhereInput
+  /**
+   * Limit how many AllocationBatches to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AllocationBatch.seats
+ */
+export type AllocationBatch$seatsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  where?: Prisma.AllocationBatchSeatWhereInput
+  orderBy?: Prisma.AllocationBatchSeatOrderByWithRelationInput | Prisma.AllocationBatchSeatOrderByWithRelationInput[]
+  cursor?: Prisma.AllocationBatchSeatWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AllocationBatchSeatScalarFieldEnum | Prisma.AllocationBatchSeatScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatch without action
+ */
+export type AllocationBatchDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatch
+   */
+  select?: Prisma.AllocationBatchSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatch
+   */
+  omit?: Prisma.AllocationBatchOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchInclude<ExtArgs> | null
+}
@@ -0,0 +1,1453 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `AllocationBatchSeat` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AllocationBatchSeat
+ * 
+ */
+export type AllocationBatchSeatModel = runtime.Types.Result.DefaultSelection<Prisma.$AllocationBatchSeatPayload>
+
+export type AggregateAllocationBatchSeat = {
+  _count: AllocationBatchSeatCountAggregateOutputType | null
+  _avg: AllocationBatchSeatAvgAggregateOutputType | null
+  _sum: AllocationBatchSeatSumAggregateOutputType | null
+  _min: AllocationBatchSeatMinAggregateOutputType | null
+  _max: AllocationBatchSeatMaxAggregateOutputType | null
+}
+
+export type AllocationBatchSeatAvgAggregateOutputType = {
+  seatVersion: number | null
+}
+
+export type AllocationBatchSeatSumAggregateOutputType = {
+  seatVersion: number | null
+}
+
+export type AllocationBatchSeatMinAggregateOutputType = {
+  id: string | null
+  batchId: string | null
+  seatId: string | null
+  studentId: string | null
+  roomId: string | null
+  seatLabel: string | null
+  seatVersion: number | null
+}
+
+export type AllocationBatchSeatMaxAggregateOutputType = {
+  id: string | null
+  batchId: string | null
+  seatId: string | null
+  studentId: string | null
+  roomId: string | null
+  seatLabel: string | null
+  seatVersion: number | null
+}
+
+export type AllocationBatchSeatCountAggregateOutputType = {
+  id: number
+  batchId: number
+  seatId: number
+  studentId: number
+  roomId: number
+  seatLabel: number
+  seatVersion: number
+  _all: number
+}
+
+
+export type AllocationBatchSeatAvgAggregateInputType = {
+  seatVersion?: true
+}
+
+export type AllocationBatchSeatSumAggregateInputType = {
+  seatVersion?: true
+}
+
+export type AllocationBatchSeatMinAggregateInputType = {
+  id?: true
+  batchId?: true
+  seatId?: true
+  studentId?: true
+  roomId?: true
+  seatLabel?: true
+  seatVersion?: true
+}
+
+export type AllocationBatchSeatMaxAggregateInputType = {
+  id?: true
+  batchId?: true
+  seatId?: true
+  studentId?: true
+  roomId?: true
+  seatLabel?: true
+  seatVersion?: true
+}
+
+export type AllocationBatchSeatCountAggregateInputType = {
+  id?: true
+  batchId?: true
+  seatId?: true
+  studentId?: true
+  roomId?: true
+  seatLabel?: true
+  seatVersion?: true
+  _all?: true
+}
+
+export type AllocationBatchSeatAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AllocationBatchSeat to aggregate.
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatchSeats to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchSeatOrderByWithRelationInput | Prisma.AllocationBatchSeatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AllocationBatchSeatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatchSeats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatchSeats.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AllocationBatchSeats
+  **/
+  _count?: true | AllocationBatchSeatCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AllocationBatchSeatAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AllocationBatchSeatSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AllocationBatchSeatMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AllocationBatchSeatMaxAggregateInputType
+}
+
+export type GetAllocationBatchSeatAggregateType<T extends AllocationBatchSeatAggregateArgs> = {
+      [P in keyof T & keyof AggregateAllocationBatchSeat]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAllocationBatchSeat[P]>
+    : Prisma.GetScalarType<T[P], AggregateAllocationBatchSeat[P]>
+}
+
+
+
+
+export type AllocationBatchSeatGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AllocationBatchSeatWhereInput
+  orderBy?: Prisma.AllocationBatchSeatOrderByWithAggregationInput | Prisma.AllocationBatchSeatOrderByWithAggregationInput[]
+  by: Prisma.AllocationBatchSeatScalarFieldEnum[] | Prisma.AllocationBatchSeatScalarFieldEnum
+  having?: Prisma.AllocationBatchSeatScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AllocationBatchSeatCountAggregateInputType | true
+  _avg?: AllocationBatchSeatAvgAggregateInputType
+  _sum?: AllocationBatchSeatSumAggregateInputType
+  _min?: AllocationBatchSeatMinAggregateInputType
+  _max?: AllocationBatchSeatMaxAggregateInputType
+}
+
+export type AllocationBatchSeatGroupByOutputType = {
+  id: string
+  batchId: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+  _count: AllocationBatchSeatCountAggregateOutputType | null
+  _avg: AllocationBatchSeatAvgAggregateOutputType | null
+  _sum: AllocationBatchSeatSumAggregateOutputType | null
+  _min: AllocationBatchSeatMinAggregateOutputType | null
+  _max: AllocationBatchSeatMaxAggregateOutputType | null
+}
+
+type GetAllocationBatchSeatGroupByPayload<T extends AllocationBatchSeatGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AllocationBatchSeatGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AllocationBatchSeatGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AllocationBatchSeatGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AllocationBatchSeatGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AllocationBatchSeatWhereInput = {
+  AND?: Prisma.AllocationBatchSeatWhereInput | Prisma.AllocationBatchSeatWhereInput[]
+  OR?: Prisma.AllocationBatchSeatWhereInput[]
+  NOT?: Prisma.AllocationBatchSeatWhereInput | Prisma.AllocationBatchSeatWhereInput[]
+  id?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  batchId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  studentId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  roomId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatLabel?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatVersion?: Prisma.IntFilter<"AllocationBatchSeat"> | number
+  batch?: Prisma.XOR<Prisma.AllocationBatchScalarRelationFilter, Prisma.AllocationBatchWhereInput>
+}
+
+export type AllocationBatchSeatOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  seatId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  seatLabel?: Prisma.SortOrder
+  seatVersion?: Prisma.SortOrder
+  batch?: Prisma.AllocationBatchOrderByWithRelationInput
+}
+
+export type AllocationBatchSeatWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.AllocationBatchSeatWhereInput | Prisma.AllocationBatchSeatWhereInput[]
+  OR?: Prisma.AllocationBatchSeatWhereInput[]
+  NOT?: Prisma.AllocationBatchSeatWhereInput | Prisma.AllocationBatchSeatWhereInput[]
+  batchId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  studentId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  roomId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatLabel?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatVersion?: Prisma.IntFilter<"AllocationBatchSeat"> | number
+  batch?: Prisma.XOR<Prisma.AllocationBatchScalarRelationFilter, Prisma.AllocationBatchWhereInput>
+}, "id">
+
+export type AllocationBatchSeatOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  seatId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  seatLabel?: Prisma.SortOrder
+  seatVersion?: Prisma.SortOrder
+  _count?: Prisma.AllocationBatchSeatCountOrderByAggregateInput
+  _avg?: Prisma.AllocationBatchSeatAvgOrderByAggregateInput
+  _max?: Prisma.AllocationBatchSeatMaxOrderByAggregateInput
+  _min?: Prisma.AllocationBatchSeatMinOrderByAggregateInput
+  _sum?: Prisma.AllocationBatchSeatSumOrderByAggregateInput
+}
+
+export type AllocationBatchSeatScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AllocationBatchSeatScalarWhereWithAggregatesInput | Prisma.AllocationBatchSeatScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AllocationBatchSeatScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AllocationBatchSeatScalarWhereWithAggregatesInput | Prisma.AllocationBatchSeatScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AllocationBatchSeat"> | string
+  batchId?: Prisma.StringWithAggregatesFilter<"AllocationBatchSeat"> | string
+  seatId?: Prisma.StringWithAggregatesFilter<"AllocationBatchSeat"> | string
+  studentId?: Prisma.StringWithAggregatesFilter<"AllocationBatchSeat"> | string
+  roomId?: Prisma.StringWithAggregatesFilter<"AllocationBatchSeat"> | string
+  seatLabel?: Prisma.StringWithAggregatesFilter<"AllocationBatchSeat"> | string
+  seatVersion?: Prisma.IntWithAggregatesFilter<"AllocationBatchSeat"> | number
+}
+
+export type AllocationBatchSeatCreateInput = {
+  id?: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+  batch: Prisma.AllocationBatchCreateNestedOneWithoutSeatsInput
+}
+
+export type AllocationBatchSeatUncheckedCreateInput = {
+  id?: string
+  batchId: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+}
+
+export type AllocationBatchSeatUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+  batch?: Prisma.AllocationBatchUpdateOneRequiredWithoutSeatsNestedInput
+}
+
+export type AllocationBatchSeatUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type AllocationBatchSeatCreateManyInput = {
+  id?: string
+  batchId: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+}
+
+export type AllocationBatchSeatUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type AllocationBatchSeatUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  batchId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type AllocationBatchSeatListRelationFilter = {
+  every?: Prisma.AllocationBatchSeatWhereInput
+  some?: Prisma.AllocationBatchSeatWhereInput
+  none?: Prisma.AllocationBatchSeatWhereInput
+}
+
+export type AllocationBatchSeatOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AllocationBatchSeatCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  seatId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  seatLabel?: Prisma.SortOrder
+  seatVersion?: Prisma.SortOrder
+}
+
+export type AllocationBatchSeatAvgOrderByAggregateInput = {
+  seatVersion?: Prisma.SortOrder
+}
+
+export type AllocationBatchSeatMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  seatId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  seatLabel?: Prisma.SortOrder
+  seatVersion?: Prisma.SortOrder
+}
+
+export type AllocationBatchSeatMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  batchId?: Prisma.SortOrder
+  seatId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  seatLabel?: Prisma.SortOrder
+  seatVersion?: Prisma.SortOrder
+}
+
+export type AllocationBatchSeatSumOrderByAggregateInput = {
+  seatVersion?: Prisma.SortOrder
+}
+
+export type AllocationBatchSeatCreateNestedManyWithoutBatchInput = {
+  create?: Prisma.XOR<Prisma.AllocationBatchSeatCreateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput> | Prisma.AllocationBatchSeatCreateWithoutBatchInput[] | Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput | Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput[]
+  createMany?: Prisma.AllocationBatchSeatCreateManyBatchInputEnvelope
+  connect?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+}
+
+export type AllocationBatchSeatUncheckedCreateNestedManyWithoutBatchInput = {
+  create?: Prisma.XOR<Prisma.AllocationBatchSeatCreateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput> | Prisma.AllocationBatchSeatCreateWithoutBatchInput[] | Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput | Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput[]
+  createMany?: Prisma.AllocationBatchSeatCreateManyBatchInputEnvelope
+  connect?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+}
+
+export type AllocationBatchSeatUpdateManyWithoutBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.AllocationBatchSeatCreateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput> | Prisma.AllocationBatchSeatCreateWithoutBatchInput[] | Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput | Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput[]
+  upsert?: Prisma.AllocationBatchSeatUpsertWithWhereUniqueWithoutBatchInput | Prisma.AllocationBatchSeatUpsertWithWhereUniqueWithoutBatchInput[]
+  createMany?: Prisma.AllocationBatchSeatCreateManyBatchInputEnvelope
+  set?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  disconnect?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  delete?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  connect?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  update?: Prisma.AllocationBatchSeatUpdateWithWhereUniqueWithoutBatchInput | Prisma.AllocationBatchSeatUpdateWithWhereUniqueWithoutBatchInput[]
+  updateMany?: Prisma.AllocationBatchSeatUpdateManyWithWhereWithoutBatchInput | Prisma.AllocationBatchSeatUpdateManyWithWhereWithoutBatchInput[]
+  deleteMany?: Prisma.AllocationBatchSeatScalarWhereInput | Prisma.AllocationBatchSeatScalarWhereInput[]
+}
+
+export type AllocationBatchSeatUncheckedUpdateManyWithoutBatchNestedInput = {
+  create?: Prisma.XOR<Prisma.AllocationBatchSeatCreateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput> | Prisma.AllocationBatchSeatCreateWithoutBatchInput[] | Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput[]
+  connectOrCreate?: Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput | Prisma.AllocationBatchSeatCreateOrConnectWithoutBatchInput[]
+  upsert?: Prisma.AllocationBatchSeatUpsertWithWhereUniqueWithoutBatchInput | Prisma.AllocationBatchSeatUpsertWithWhereUniqueWithoutBatchInput[]
+  createMany?: Prisma.AllocationBatchSeatCreateManyBatchInputEnvelope
+  set?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  disconnect?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  delete?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  connect?: Prisma.AllocationBatchSeatWhereUniqueInput | Prisma.AllocationBatchSeatWhereUniqueInput[]
+  update?: Prisma.AllocationBatchSeatUpdateWithWhereUniqueWithoutBatchInput | Prisma.AllocationBatchSeatUpdateWithWhereUniqueWithoutBatchInput[]
+  updateMany?: Prisma.AllocationBatchSeatUpdateManyWithWhereWithoutBatchInput | Prisma.AllocationBatchSeatUpdateManyWithWhereWithoutBatchInput[]
+  deleteMany?: Prisma.AllocationBatchSeatScalarWhereInput | Prisma.AllocationBatchSeatScalarWhereInput[]
+}
+
+export type AllocationBatchSeatCreateWithoutBatchInput = {
+  id?: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+}
+
+export type AllocationBatchSeatUncheckedCreateWithoutBatchInput = {
+  id?: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+}
+
+export type AllocationBatchSeatCreateOrConnectWithoutBatchInput = {
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+  create: Prisma.XOR<Prisma.AllocationBatchSeatCreateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput>
+}
+
+export type AllocationBatchSeatCreateManyBatchInputEnvelope = {
+  data: Prisma.AllocationBatchSeatCreateManyBatchInput | Prisma.AllocationBatchSeatCreateManyBatchInput[]
+  skipDuplicates?: boolean
+}
+
+export type AllocationBatchSeatUpsertWithWhereUniqueWithoutBatchInput = {
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+  update: Prisma.XOR<Prisma.AllocationBatchSeatUpdateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedUpdateWithoutBatchInput>
+  create: Prisma.XOR<Prisma.AllocationBatchSeatCreateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedCreateWithoutBatchInput>
+}
+
+export type AllocationBatchSeatUpdateWithWhereUniqueWithoutBatchInput = {
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+  data: Prisma.XOR<Prisma.AllocationBatchSeatUpdateWithoutBatchInput, Prisma.AllocationBatchSeatUncheckedUpdateWithoutBatchInput>
+}
+
+export type AllocationBatchSeatUpdateManyWithWhereWithoutBatchInput = {
+  where: Prisma.AllocationBatchSeatScalarWhereInput
+  data: Prisma.XOR<Prisma.AllocationBatchSeatUpdateManyMutationInput, Prisma.AllocationBatchSeatUncheckedUpdateManyWithoutBatchInput>
+}
+
+export type AllocationBatchSeatScalarWhereInput = {
+  AND?: Prisma.AllocationBatchSeatScalarWhereInput | Prisma.AllocationBatchSeatScalarWhereInput[]
+  OR?: Prisma.AllocationBatchSeatScalarWhereInput[]
+  NOT?: Prisma.AllocationBatchSeatScalarWhereInput | Prisma.AllocationBatchSeatScalarWhereInput[]
+  id?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  batchId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  studentId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  roomId?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatLabel?: Prisma.StringFilter<"AllocationBatchSeat"> | string
+  seatVersion?: Prisma.IntFilter<"AllocationBatchSeat"> | number
+}
+
+export type AllocationBatchSeatCreateManyBatchInput = {
+  id?: string
+  seatId: string
+  studentId: string
+  roomId: string
+  seatLabel: string
+  seatVersion: number
+}
+
+export type AllocationBatchSeatUpdateWithoutBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type AllocationBatchSeatUncheckedUpdateWithoutBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type AllocationBatchSeatUncheckedUpdateManyWithoutBatchInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  seatId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  seatLabel?: Prisma.StringFieldUpdateOperationsInput | string
+  seatVersion?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+
+
+export type AllocationBatchSeatSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  batchId?: boolean
+  seatId?: boolean
+  studentId?: boolean
+  roomId?: boolean
+  seatLabel?: boolean
+  seatVersion?: boolean
+  batch?: boolean | Prisma.AllocationBatchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["allocationBatchSeat"]>
+
+export type AllocationBatchSeatSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  batchId?: boolean
+  seatId?: boolean
+  studentId?: boolean
+  roomId?: boolean
+  seatLabel?: boolean
+  seatVersion?: boolean
+  batch?: boolean | Prisma.AllocationBatchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["allocationBatchSeat"]>
+
+export type AllocationBatchSeatSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  batchId?: boolean
+  seatId?: boolean
+  studentId?: boolean
+  roomId?: boolean
+  seatLabel?: boolean
+  seatVersion?: boolean
+  batch?: boolean | Prisma.AllocationBatchDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["allocationBatchSeat"]>
+
+export type AllocationBatchSeatSelectScalar = {
+  id?: boolean
+  batchId?: boolean
+  seatId?: boolean
+  studentId?: boolean
+  roomId?: boolean
+  seatLabel?: boolean
+  seatVersion?: boolean
+}
+
+export type AllocationBatchSeatOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "batchId" | "seatId" | "studentId" | "roomId" | "seatLabel" | "seatVersion", ExtArgs["result"]["allocationBatchSeat"]>
+export type AllocationBatchSeatInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  batch?: boolean | Prisma.AllocationBatchDefaultArgs<ExtArgs>
+}
+export type AllocationBatchSeatIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  batch?: boolean | Prisma.AllocationBatchDefaultArgs<ExtArgs>
+}
+export type AllocationBatchSeatIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  batch?: boolean | Prisma.AllocationBatchDefaultArgs<ExtArgs>
+}
+
+export type $AllocationBatchSeatPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AllocationBatchSeat"
+  objects: {
+    batch: Prisma.$AllocationBatchPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    batchId: string
+    seatId: string
+    studentId: string
+    roomId: string
+    seatLabel: string
+    seatVersion: number
+  }, ExtArgs["result"]["allocationBatchSeat"]>
+  composites: {}
+}
+
+export type AllocationBatchSeatGetPayload<S extends boolean | null | undefined | AllocationBatchSeatDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload, S>
+
+export type AllocationBatchSeatCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AllocationBatchSeatFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AllocationBatchSeatCountAggregateInputType | true
+  }
+
+export interface AllocationBatchSeatDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AllocationBatchSeat'], meta: { name: 'AllocationBatchSeat' } }
+  /**
+   * Find zero or one AllocationBatchSeat that matches the filter.
+   * @param {AllocationBatchSeatFindUniqueArgs} args - Arguments to find a AllocationBatchSeat
+   * @example
+   * // Get one AllocationBatchSeat
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AllocationBatchSeatFindUniqueArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AllocationBatchSeat that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AllocationBatchSeatFindUniqueOrThrowArgs} args - Arguments to find a AllocationBatchSeat
+   * @example
+   * // Get one AllocationBatchSeat
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AllocationBatchSeatFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AllocationBatchSeat that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatFindFirstArgs} args - Arguments to find a AllocationBatchSeat
+   * @example
+   * // Get one AllocationBatchSeat
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AllocationBatchSeatFindFirstArgs>(args?: Prisma.SelectSubset<T, AllocationBatchSeatFindFirstArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AllocationBatchSeat that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatFindFirstOrThrowArgs} args - Arguments to find a AllocationBatchSeat
+   * @example
+   * // Get one AllocationBatchSeat
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AllocationBatchSeatFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AllocationBatchSeatFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AllocationBatchSeats that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AllocationBatchSeats
+   * const allocationBatchSeats = await prisma.allocationBatchSeat.findMany()
+   * 
+   * // Get first 10 AllocationBatchSeats
+   * const allocationBatchSeats = await prisma.allocationBatchSeat.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const allocationBatchSeatWithIdOnly = await prisma.allocationBatchSeat.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AllocationBatchSeatFindManyArgs>(args?: Prisma.SelectSubset<T, AllocationBatchSeatFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AllocationBatchSeat.
+   * @param {AllocationBatchSeatCreateArgs} args - Arguments to create a AllocationBatchSeat.
+   * @example
+   * // Create one AllocationBatchSeat
+   * const AllocationBatchSeat = await prisma.allocationBatchSeat.create({
+   *   data: {
+   *     // ... data to create a AllocationBatchSeat
+   *   }
+   * })
+   * 
+   */
+  create<T extends AllocationBatchSeatCreateArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatCreateArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AllocationBatchSeats.
+   * @param {AllocationBatchSeatCreateManyArgs} args - Arguments to create many AllocationBatchSeats.
+   * @example
+   * // Create many AllocationBatchSeats
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AllocationBatchSeatCreateManyArgs>(args?: Prisma.SelectSubset<T, AllocationBatchSeatCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AllocationBatchSeats and returns the data saved in the database.
+   * @param {AllocationBatchSeatCreateManyAndReturnArgs} args - Arguments to create many AllocationBatchSeats.
+   * @example
+   * // Create many AllocationBatchSeats
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AllocationBatchSeats and only return the `id`
+   * const allocationBatchSeatWithIdOnly = await prisma.allocationBatchSeat.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AllocationBatchSeatCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AllocationBatchSeatCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AllocationBatchSeat.
+   * @param {AllocationBatchSeatDeleteArgs} args - Arguments to delete one AllocationBatchSeat.
+   * @example
+   * // Delete one AllocationBatchSeat
+   * const AllocationBatchSeat = await prisma.allocationBatchSeat.delete({
+   *   where: {
+   *     // ... filter to delete one AllocationBatchSeat
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AllocationBatchSeatDeleteArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatDeleteArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AllocationBatchSeat.
+   * @param {AllocationBatchSeatUpdateArgs} args - Arguments to update one AllocationBatchSeat.
+   * @example
+   * // Update one AllocationBatchSeat
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AllocationBatchSeatUpdateArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatUpdateArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AllocationBatchSeats.
+   * @param {AllocationBatchSeatDeleteManyArgs} args - Arguments to filter AllocationBatchSeats to delete.
+   * @example
+   * // Delete a few AllocationBatchSeats
+   * const { count } = await prisma.allocationBatchSeat.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AllocationBatchSeatDeleteManyArgs>(args?: Prisma.SelectSubset<T, AllocationBatchSeatDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AllocationBatchSeats.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AllocationBatchSeats
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AllocationBatchSeatUpdateManyArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AllocationBatchSeats and returns the data updated in the database.
+   * @param {AllocationBatchSeatUpdateManyAndReturnArgs} args - Arguments to update many AllocationBatchSeats.
+   * @example
+   * // Update many AllocationBatchSeats
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AllocationBatchSeats and only return the `id`
+   * const allocationBatchSeatWithIdOnly = await prisma.allocationBatchSeat.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AllocationBatchSeatUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AllocationBatchSeat.
+   * @param {AllocationBatchSeatUpsertArgs} args - Arguments to update or create a AllocationBatchSeat.
+   * @example
+   * // Update or create a AllocationBatchSeat
+   * const allocationBatchSeat = await prisma.allocationBatchSeat.upsert({
+   *   create: {
+   *     // ... data to create a AllocationBatchSeat
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AllocationBatchSeat we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AllocationBatchSeatUpsertArgs>(args: Prisma.SelectSubset<T, AllocationBatchSeatUpsertArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchSeatClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchSeatPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AllocationBatchSeats.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatCountArgs} args - Arguments to filter AllocationBatchSeats to count.
+   * @example
+   * // Count the number of AllocationBatchSeats
+   * const count = await prisma.allocationBatchSeat.count({
+   *   where: {
+   *     // ... the filter for the AllocationBatchSeats we want to count
+   *   }
+   * })
+  **/
+  count<T extends AllocationBatchSeatCountArgs>(
+    args?: Prisma.Subset<T, AllocationBatchSeatCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AllocationBatchSeatCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AllocationBatchSeat.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AllocationBatchSeatAggregateArgs>(args: Prisma.Subset<T, AllocationBatchSeatAggregateArgs>): Prisma.PrismaPromise<GetAllocationBatchSeatAggregateType<T>>
+
+  /**
+   * Group by AllocationBatchSeat.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AllocationBatchSeatGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AllocationBatchSeatGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AllocationBatchSeatGroupByArgs['orderBy'] }
+      : { orderBy?: AllocationBatchSeatGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AllocationBatchSeatGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAllocationBatchSeatGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AllocationBatchSeat model
+ */
+readonly fields: AllocationBatchSeatFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AllocationBatchSeat.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AllocationBatchSeatClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  batch<T extends Prisma.AllocationBatchDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AllocationBatchDefaultArgs<ExtArgs>>): Prisma.Prisma__AllocationBatchClient<runtime.Types.Result.GetResult<Prisma.$AllocationBatchPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AllocationBatchSeat model
+ */
+export interface AllocationBatchSeatFieldRefs {
+  readonly id: Prisma.FieldRef<"AllocationBatchSeat", 'String'>
+  readonly batchId: Prisma.FieldRef<"AllocationBatchSeat", 'String'>
+  readonly seatId: Prisma.FieldRef<"AllocationBatchSeat", 'String'>
+  readonly studentId: Prisma.FieldRef<"AllocationBatchSeat", 'String'>
+  readonly roomId: Prisma.FieldRef<"AllocationBatchSeat", 'String'>
+  readonly seatLabel: Prisma.FieldRef<"AllocationBatchSeat", 'String'>
+  readonly seatVersion: Prisma.FieldRef<"AllocationBatchSeat", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AllocationBatchSeat findUnique
+ */
+export type AllocationBatchSeatFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatchSeat to fetch.
+   */
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+}
+
+/**
+ * AllocationBatchSeat findUniqueOrThrow
+ */
+export type AllocationBatchSeatFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatchSeat to fetch.
+   */
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+}
+
+/**
+ * AllocationBatchSeat findFirst
+ */
+export type AllocationBatchSeatFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatchSeat to fetch.
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatchSeats to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchSeatOrderByWithRelationInput | Prisma.AllocationBatchSeatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AllocationBatchSeats.
+   */
+  cursor?: Prisma.AllocationBatchSeatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatchSeats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatchSeats.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AllocationBatchSeats.
+   */
+  distinct?: Prisma.AllocationBatchSeatScalarFieldEnum | Prisma.AllocationBatchSeatScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatchSeat findFirstOrThrow
+ */
+export type AllocationBatchSeatFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatchSeat to fetch.
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatchSeats to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchSeatOrderByWithRelationInput | Prisma.AllocationBatchSeatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AllocationBatchSeats.
+   */
+  cursor?: Prisma.AllocationBatchSeatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatchSeats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatchSeats.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AllocationBatchSeats.
+   */
+  distinct?: Prisma.AllocationBatchSeatScalarFieldEnum | Prisma.AllocationBatchSeatScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatchSeat findMany
+ */
+export type AllocationBatchSeatFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * Filter, which AllocationBatchSeats to fetch.
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AllocationBatchSeats to fetch.
+   */
+  orderBy?: Prisma.AllocationBatchSeatOrderByWithRelationInput | Prisma.AllocationBatchSeatOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AllocationBatchSeats.
+   */
+  cursor?: Prisma.AllocationBatchSeatWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AllocationBatchSeats from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AllocationBatchSeats.
+   */
+  skip?: number
+  distinct?: Prisma.AllocationBatchSeatScalarFieldEnum | Prisma.AllocationBatchSeatScalarFieldEnum[]
+}
+
+/**
+ * AllocationBatchSeat create
+ */
+export type AllocationBatchSeatCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AllocationBatchSeat.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchSeatCreateInput, Prisma.AllocationBatchSeatUncheckedCreateInput>
+}
+
+/**
+ * AllocationBatchSeat createMany
+ */
+export type AllocationBatchSeatCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AllocationBatchSeats.
+   */
+  data: Prisma.AllocationBatchSeatCreateManyInput | Prisma.AllocationBatchSeatCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AllocationBatchSeat createManyAndReturn
+ */
+export type AllocationBatchSeatCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * The data used to create many AllocationBatchSeats.
+   */
+  data: Prisma.AllocationBatchSeatCreateManyInput | Prisma.AllocationBatchSeatCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AllocationBatchSeat update
+ */
+export type AllocationBatchSeatUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AllocationBatchSeat.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchSeatUpdateInput, Prisma.AllocationBatchSeatUncheckedUpdateInput>
+  /**
+   * Choose, which AllocationBatchSeat to update.
+   */
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+}
+
+/**
+ * AllocationBatchSeat updateMany
+ */
+export type AllocationBatchSeatUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AllocationBatchSeats.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchSeatUpdateManyMutationInput, Prisma.AllocationBatchSeatUncheckedUpdateManyInput>
+  /**
+   * Filter which AllocationBatchSeats to update
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * Limit how many AllocationBatchSeats to update.
+   */
+  limit?: number
+}
+
+/**
+ * AllocationBatchSeat updateManyAndReturn
+ */
+export type AllocationBatchSeatUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * The data used to update AllocationBatchSeats.
+   */
+  data: Prisma.XOR<Prisma.AllocationBatchSeatUpdateManyMutationInput, Prisma.AllocationBatchSeatUncheckedUpdateManyInput>
+  /**
+   * Filter which AllocationBatchSeats to update
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * Limit how many AllocationBatchSeats to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AllocationBatchSeat upsert
+ */
+export type AllocationBatchSeatUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AllocationBatchSeat to update in case it exists.
+   */
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+  /**
+   * In case the AllocationBatchSeat found by the `where` argument doesn't exist, create a new AllocationBatchSeat with this data.
+   */
+  create: Prisma.XOR<Prisma.AllocationBatchSeatCreateInput, Prisma.AllocationBatchSeatUncheckedCreateInput>
+  /**
+   * In case the AllocationBatchSeat was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AllocationBatchSeatUpdateInput, Prisma.AllocationBatchSeatUncheckedUpdateInput>
+}
+
+/**
+ * AllocationBatchSeat delete
+ */
+export type AllocationBatchSeatDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+  /**
+   * Filter which AllocationBatchSeat to delete.
+   */
+  where: Prisma.AllocationBatchSeatWhereUniqueInput
+}
+
+/**
+ * AllocationBatchSeat deleteMany
+ */
+export type AllocationBatchSeatDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AllocationBatchSeats to delete
+   */
+  where?: Prisma.AllocationBatchSeatWhereInput
+  /**
+   * Limit how many AllocationBatchSeats to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AllocationBatchSeat without action
+ */
+export type AllocationBatchSeatDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AllocationBatchSeat
+   */
+  select?: Prisma.AllocationBatchSeatSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AllocationBatchSeat
+   */
+  omit?: Prisma.AllocationBatchSeatOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AllocationBatchSeatInclude<ExtArgs> | null
+}
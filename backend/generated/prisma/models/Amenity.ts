@@ -0,0 +1,1374 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `Amenity` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Amenity
+ * 
+ */
+export type AmenityModel = runtime.Types.Result.DefaultSelection<Prisma.$AmenityPayload>
+
+export type AggregateAmenity = {
+  _count: AmenityCountAggregateOutputType | null
+  _min: AmenityMinAggregateOutputType | null
+  _max: AmenityMaxAggregateOutputType | null
+}
+
+export type AmenityMinAggregateOutputType = {
+  id: string | null
+  name: string | null
+  description: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type AmenityMaxAggregateOutputType = {
+  id: string | null
+  name: string | null
+  description: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type AmenityCountAggregateOutputType = {
+  id: number
+  name: number
+  description: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type AmenityMinAggregateInputType = {
+  id?: true
+  name?: true
+  description?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type AmenityMaxAggregateInputType = {
+  id?: true
+  name?: true
+  description?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type AmenityCountAggregateInputType = {
+  id?: true
+  name?: true
+  description?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type AmenityAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Amenity to aggregate.
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Amenities to fetch.
+   */
+  orderBy?: Prisma.AmenityOrderByWithRelationInput | Prisma.AmenityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AmenityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Amenities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Amenities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Amenities
+  **/
+  _count?: true | AmenityCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AmenityMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AmenityMaxAggregateInputType
+}
+
+export type GetAmenityAggregateType<T extends AmenityAggregateArgs> = {
+      [P in keyof T & keyof AggregateAmenity]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAmenity[P]>
+    : Prisma.GetScalarType<T[P], AggregateAmenity[P]>
+}
+
+
+
+
+export type AmenityGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AmenityWhereInput
+  orderBy?: Prisma.AmenityOrderByWithAggregationInput | Prisma.AmenityOrderByWithAggregationInput[]
+  by: Prisma.AmenityScalarFieldEnum[] | Prisma.AmenityScalarFieldEnum
+  having?: Prisma.AmenityScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AmenityCountAggregateInputType | true
+  _min?: AmenityMinAggregateInputType
+  _max?: AmenityMaxAggregateInputType
+}
+
+export type AmenityGroupByOutputType = {
+  id: string
+  name: string
+  description: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: AmenityCountAggregateOutputType | null
+  _min: AmenityMinAggregateOutputType | null
+  _max: AmenityMaxAggregateOutputType | null
+}
+
+type GetAmenityGroupByPayload<T extends AmenityGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AmenityGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AmenityGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AmenityGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AmenityGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AmenityWhereInput = {
+  AND?: Prisma.AmenityWhereInput | Prisma.AmenityWhereInput[]
+  OR?: Prisma.AmenityWhereInput[]
+  NOT?: Prisma.AmenityWhereInput | Prisma.AmenityWhereInput[]
+  id?: Prisma.StringFilter<"Amenity"> | string
+  name?: Prisma.StringFilter<"Amenity"> | string
+  description?: Prisma.StringNullableFilter<"Amenity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Amenity"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Amenity"> | Date | string
+  rooms?: Prisma.RoomListRelationFilter
+}
+
+export type AmenityOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  rooms?: Prisma.RoomOrderByRelationAggregateInput
+}
+
+export type AmenityWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  name?: string
+  AND?: Prisma.AmenityWhereInput | Prisma.AmenityWhereInput[]
+  OR?: Prisma.AmenityWhereInput[]
+  NOT?: Prisma.AmenityWhereInput | Prisma.AmenityWhereInput[]
+  description?: Prisma.StringNullableFilter<"Amenity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Amenity"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Amenity"> | Date | string
+  rooms?: Prisma.RoomListRelationFilter
+}, "id" | "name">
+
+export type AmenityOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.AmenityCountOrderByAggregateInput
+  _max?: Prisma.AmenityMaxOrderByAggregateInput
+  _min?: Prisma.AmenityMinOrderByAggregateInput
+}
+
+export type AmenityScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AmenityScalarWhereWithAggregatesInput | Prisma.AmenityScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AmenityScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AmenityScalarWhereWithAggregatesInput | Prisma.AmenityScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Amenity"> | string
+  name?: Prisma.StringWithAggregatesFilter<"Amenity"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"Amenity"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Amenity"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Amenity"> | Date | string
+}
+
+export type AmenityCreateInput = {
+  id?: string
+  name: string
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rooms?: Prisma.RoomCreateNestedManyWithoutAmenitiesInput
+}
+
+export type AmenityUncheckedCreateInput = {
+  id?: string
+  name: string
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutAmenitiesInput
+}
+
+export type AmenityUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rooms?: Prisma.RoomUpdateManyWithoutAmenitiesNestedInput
+}
+
+export type AmenityUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  rooms?: Prisma.RoomUncheckedUpdateManyWithoutAmenitiesNestedInput
+}
+
+export type AmenityCreateManyInput = {
+  id?: string
+  name: string
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AmenityUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AmenityUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AmenityListRelationFilter = {
+  every?: Prisma.AmenityWhereInput
+  some?: Prisma.AmenityWhereInput
+  none?: Prisma.AmenityWhereInput
+}
+
+export type AmenityOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AmenityCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AmenityMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AmenityMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AmenityCreateNestedManyWithoutRoomsInput = {
+  create?: Prisma.XOR<Prisma.AmenityCreateWithoutRoomsInput, Prisma.AmenityUncheckedCreateWithoutRoomsInput> | Prisma.AmenityCreateWithoutRoomsInput[] | Prisma.AmenityUncheckedCreateWithoutRoomsInput[]
+  connectOrCreate?: Prisma.AmenityCreateOrConnectWithoutRoomsInput | Prisma.AmenityCreateOrConnectWithoutRoomsInput[]
+  connect?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+}
+
+export type AmenityUncheckedCreateNestedManyWithoutRoomsInput = {
+  create?: Prisma.XOR<Prisma.AmenityCreateWithoutRoomsInput, Prisma.AmenityUncheckedCreateWithoutRoomsInput> | Prisma.AmenityCreateWithoutRoomsInput[] | Prisma.AmenityUncheckedCreateWithoutRoomsInput[]
+  connectOrCreate?: Prisma.AmenityCreateOrConnectWithoutRoomsInput | Prisma.AmenityCreateOrConnectWithoutRoomsInput[]
+  connect?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+}
+
+export type AmenityUpdateManyWithoutRoomsNestedInput = {
+  create?: Prisma.XOR<Prisma.AmenityCreateWithoutRoomsInput, Prisma.AmenityUncheckedCreateWithoutRoomsInput> | Prisma.AmenityCreateWithoutRoomsInput[] | Prisma.AmenityUncheckedCreateWithoutRoomsInput[]
+  connectOrCreate?: Prisma.AmenityCreateOrConnectWithoutRoomsInput | Prisma.AmenityCreateOrConnectWithoutRoomsInput[]
+  upsert?: Prisma.AmenityUpsertWithWhereUniqueWithoutRoomsInput | Prisma.AmenityUpsertWithWhereUniqueWithoutRoomsInput[]
+  set?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  disconnect?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  delete?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  connect?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  update?: Prisma.AmenityUpdateWithWhereUniqueWithoutRoomsInput | Prisma.AmenityUpdateWithWhereUniqueWithoutRoomsInput[]
+  updateMany?: Prisma.AmenityUpdateManyWithWhereWithoutRoomsInput | Prisma.AmenityUpdateManyWithWhereWithoutRoomsInput[]
+  deleteMany?: Prisma.AmenityScalarWhereInput | Prisma.AmenityScalarWhereInput[]
+}
+
+export type AmenityUncheckedUpdateManyWithoutRoomsNestedInput = {
+  create?: Prisma.XOR<Prisma.AmenityCreateWithoutRoomsInput, Prisma.AmenityUncheckedCreateWithoutRoomsInput> | Prisma.AmenityCreateWithoutRoomsInput[] | Prisma.AmenityUncheckedCreateWithoutRoomsInput[]
+  connectOrCreate?: Prisma.AmenityCreateOrConnectWithoutRoomsInput | Prisma.AmenityCreateOrConnectWithoutRoomsInput[]
+  upsert?: Prisma.AmenityUpsertWithWhereUniqueWithoutRoomsInput | Prisma.AmenityUpsertWithWhereUniqueWithoutRoomsInput[]
+  set?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  disconnect?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  delete?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  connect?: Prisma.AmenityWhereUniqueInput | Prisma.AmenityWhereUniqueInput[]
+  update?: Prisma.AmenityUpdateWithWhereUniqueWithoutRoomsInput | Prisma.AmenityUpdateWithWhereUniqueWithoutRoomsInput[]
+  updateMany?: Prisma.AmenityUpdateManyWithWhereWithoutRoomsInput | Prisma.AmenityUpdateManyWithWhereWithoutRoomsInput[]
+  deleteMany?: Prisma.AmenityScalarWhereInput | Prisma.AmenityScalarWhereInput[]
+}
+
+export type AmenityCreateWithoutRoomsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AmenityUncheckedCreateWithoutRoomsInput = {
+  id?: string
+  name: string
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AmenityCreateOrConnectWithoutRoomsInput = {
+  where: Prisma.AmenityWhereUniqueInput
+  create: Prisma.XOR<Prisma.AmenityCreateWithoutRoomsInput, Prisma.AmenityUncheckedCreateWithoutRoomsInput>
+}
+
+export type AmenityUpsertWithWhereUniqueWithoutRoomsInput = {
+  where: Prisma.AmenityWhereUniqueInput
+  update: Prisma.XOR<Prisma.AmenityUpdateWithoutRoomsInput, Prisma.AmenityUncheckedUpdateWithoutRoomsInput>
+  create: Prisma.XOR<Prisma.AmenityCreateWithoutRoomsInput, Prisma.AmenityUncheckedCreateWithoutRoomsInput>
+}
+
+export type AmenityUpdateWithWhereUniqueWithoutRoomsInput = {
+  where: Prisma.AmenityWhereUniqueInput
+  data: Prisma.XOR<Prisma.AmenityUpdateWithoutRoomsInput, Prisma.AmenityUncheckedUpdateWithoutRoomsInput>
+}
+
+export type AmenityUpdateManyWithWhereWithoutRoomsInput = {
+  where: Prisma.AmenityScalarWhereInput
+  data: Prisma.XOR<Prisma.AmenityUpdateManyMutationInput, Prisma.AmenityUncheckedUpdateManyWithoutRoomsInput>
+}
+
+export type AmenityScalarWhereInput = {
+  AND?: Prisma.AmenityScalarWhereInput | Prisma.AmenityScalarWhereInput[]
+  OR?: Prisma.AmenityScalarWhereInput[]
+  NOT?: Prisma.AmenityScalarWhereInput | Prisma.AmenityScalarWhereInput[]
+  id?: Prisma.StringFilter<"Amenity"> | string
+  name?: Prisma.StringFilter<"Amenity"> | string
+  description?: Prisma.StringNullableFilter<"Amenity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Amenity"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Amenity"> | Date | string
+}
+
+export type AmenityUpdateWithoutRoomsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AmenityUncheckedUpdateWithoutRoomsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AmenityUncheckedUpdateManyWithoutRoomsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type AmenityCountOutputType
+ */
+
+export type AmenityCountOutputType = {
+  rooms: number
+}
+
+export type AmenityCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  rooms?: boolean | AmenityCountOutputTypeCountRoomsArgs
+}
+
+/**
+ * AmenityCountOutputType without action
+ */
+export type AmenityCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AmenityCountOutputType
+   */
+  select?: Prisma.AmenityCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * AmenityCountOutputType without action
+ */
+export type AmenityCountOutputTypeCountRoomsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RoomWhereInput
+}
+
+
+export type AmenitySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  description?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  rooms?: boolean | Prisma.Amenity$roomsArgs<ExtArgs>
+  _count?: boolean | Prisma.AmenityCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["amenity"]>
+
+export type AmenitySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  description?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["amenity"]>
+
+export type AmenitySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  description?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["amenity"]>
+
+export type AmenitySelectScalar = {
+  id?: boolean
+  name?: boolean
+  description?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type AmenityOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "description" | "createdAt" | "updatedAt", ExtArgs["result"]["amenity"]>
+export type AmenityInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  rooms?: boolean | Prisma.Amenity$roomsArgs<ExtArgs>
+  _count?: boolean | Prisma.AmenityCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type AmenityIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type AmenityIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $AmenityPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Amenity"
+  objects: {
+    rooms: Prisma.$RoomPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    name: string
+    description: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["amenity"]>
+  composites: {}
+}
+
+export type AmenityGetPayload<S extends boolean | null | undefined | AmenityDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AmenityPayload, S>
+
+export type AmenityCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AmenityFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AmenityCountAggregateInputType | true
+  }
+
+export interface AmenityDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Amenity'], meta: { name: 'Amenity' } }
+  /**
+   * Find zero or one Amenity that matches the filter.
+   * @param {AmenityFindUniqueArgs} args - Arguments to find a Amenity
+   * @example
+   * // Get one Amenity
+   * const amenity = await prisma.amenity.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AmenityFindUniqueArgs>(args: Prisma.SelectSubset<T, AmenityFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Amenity that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AmenityFindUniqueOrThrowArgs} args - Arguments to find a Amenity
+   * @example
+   * // Get one Amenity
+   * const amenity = await prisma.amenity.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AmenityFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AmenityFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Amenity that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityFindFirstArgs} args - Arguments to find a Amenity
+   * @example
+   * // Get one Amenity
+   * const amenity = await prisma.amenity.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AmenityFindFirstArgs>(args?: Prisma.SelectSubset<T, AmenityFindFirstArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Amenity that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityFindFirstOrThrowArgs} args - Arguments to find a Amenity
+   * @example
+   * // Get one Amenity
+   * const amenity = await prisma.amenity.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AmenityFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AmenityFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Amenities that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Amenities
+   * const amenities = await prisma.amenity.findMany()
+   * 
+   * // Get first 10 Amenities
+   * const amenities = await prisma.amenity.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const amenityWithIdOnly = await prisma.amenity.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AmenityFindManyArgs>(args?: Prisma.SelectSubset<T, AmenityFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Amenity.
+   * @param {AmenityCreateArgs} args - Arguments to create a Amenity.
+   * @example
+   * // Create one Amenity
+   * const Amenity = await prisma.amenity.create({
+   *   data: {
+   *     // ... data to create a Amenity
+   *   }
+   * })
+   * 
+   */
+  create<T extends AmenityCreateArgs>(args: Prisma.SelectSubset<T, AmenityCreateArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Amenities.
+   * @param {AmenityCreateManyArgs} args - Arguments to create many Amenities.
+   * @example
+   * // Create many Amenities
+   * const amenity = await prisma.amenity.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AmenityCreateManyArgs>(args?: Prisma.SelectSubset<T, AmenityCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Amenities and returns the data saved in the database.
+   * @param {AmenityCreateManyAndReturnArgs} args - Arguments to create many Amenities.
+   * @example
+   * // Create many Amenities
+   * const amenity = await prisma.amenity.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Amenities and only return the `id`
+   * const amenityWithIdOnly = await prisma.amenity.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AmenityCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AmenityCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Amenity.
+   * @param {AmenityDeleteArgs} args - Arguments to delete one Amenity.
+   * @example
+   * // Delete one Amenity
+   * const Amenity = await prisma.amenity.delete({
+   *   where: {
+   *     // ... filter to delete one Amenity
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AmenityDeleteArgs>(args: Prisma.SelectSubset<T, AmenityDeleteArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Amenity.
+   * @param {AmenityUpdateArgs} args - Arguments to update one Amenity.
+   * @example
+   * // Update one Amenity
+   * const amenity = await prisma.amenity.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AmenityUpdateArgs>(args: Prisma.SelectSubset<T, AmenityUpdateArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Amenities.
+   * @param {AmenityDeleteManyArgs} args - Arguments to filter Amenities to delete.
+   * @example
+   * // Delete a few Amenities
+   * const { count } = await prisma.amenity.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AmenityDeleteManyArgs>(args?: Prisma.SelectSubset<T, AmenityDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Amenities.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Amenities
+   * const amenity = await prisma.amenity.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AmenityUpdateManyArgs>(args: Prisma.SelectSubset<T, AmenityUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Amenities and returns the data updated in the database.
+   * @param {AmenityUpdateManyAndReturnArgs} args - Arguments to update many Amenities.
+   * @example
+   * // Update many Amenities
+   * const amenity = await prisma.amenity.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Amenities and only return the `id`
+   * const amenityWithIdOnly = await prisma.amenity.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AmenityUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AmenityUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Amenity.
+   * @param {AmenityUpsertArgs} args - Arguments to update or create a Amenity.
+   * @example
+   * // Update or create a Amenity
+   * const amenity = await prisma.amenity.upsert({
+   *   create: {
+   *     // ... data to create a Amenity
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Amenity we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AmenityUpsertArgs>(args: Prisma.SelectSubset<T, AmenityUpsertArgs<ExtArgs>>): Prisma.Prisma__AmenityClient<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Amenities.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityCountArgs} args - Arguments to filter Amenities to count.
+   * @example
+   * // Count the number of Amenities
+   * const count = await prisma.amenity.count({
+   *   where: {
+   *     // ... the filter for the Amenities we want to count
+   *   }
+   * })
+  **/
+  count<T extends AmenityCountArgs>(
+    args?: Prisma.Subset<T, AmenityCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AmenityCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Amenity.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AmenityAggregateArgs>(args: Prisma.Subset<T, AmenityAggregateArgs>): Prisma.PrismaPromise<GetAmenityAggregateType<T>>
+
+  /**
+   * Group by Amenity.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AmenityGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AmenityGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AmenityGroupByArgs['orderBy'] }
+      : { orderBy?: AmenityGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AmenityGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAmenityGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Amenity model
+ */
+readonly fields: AmenityFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Amenity.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AmenityClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  rooms<T extends Prisma.Amenity$roomsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Amenity$roomsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Amenity model
+ */
+export interface AmenityFieldRefs {
+  readonly id: Prisma.FieldRef<"Amenity", 'String'>
+  readonly name: Prisma.FieldRef<"Amenity", 'String'>
+  readonly description: Prisma.FieldRef<"Amenity", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Amenity", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Amenity", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Amenity findUnique
+ */
+export type AmenityFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * Filter, which Amenity to fetch.
+   */
+  where: Prisma.AmenityWhereUniqueInput
+}
+
+/**
+ * Amenity findUniqueOrThrow
+ */
+export type AmenityFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * Filter, which Amenity to fetch.
+   */
+  where: Prisma.AmenityWhereUniqueInput
+}
+
+/**
+ * Amenity findFirst
+ */
+export type AmenityFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * Filter, which Amenity to fetch.
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Amenities to fetch.
+   */
+  orderBy?: Prisma.AmenityOrderByWithRelationInput | Prisma.AmenityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Amenities.
+   */
+  cursor?: Prisma.AmenityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Amenities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Amenities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Amenities.
+   */
+  distinct?: Prisma.AmenityScalarFieldEnum | Prisma.AmenityScalarFieldEnum[]
+}
+
+/**
+ * Amenity findFirstOrThrow
+ */
+export type AmenityFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * Filter, which Amenity to fetch.
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Amenities to fetch.
+   */
+  orderBy?: Prisma.AmenityOrderByWithRelationInput | Prisma.AmenityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Amenities.
+   */
+  cursor?: Prisma.AmenityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Amenities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Amenities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Amenities.
+   */
+  distinct?: Prisma.AmenityScalarFieldEnum | Prisma.AmenityScalarFieldEnum[]
+}
+
+/**
+ * Amenity findMany
+ */
+export type AmenityFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * Filter, which Amenities to fetch.
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Amenities to fetch.
+   */
+  orderBy?: Prisma.AmenityOrderByWithRelationInput | Prisma.AmenityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Amenities.
+   */
+  cursor?: Prisma.AmenityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Amenities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Amenities.
+   */
+  skip?: number
+  distinct?: Prisma.AmenityScalarFieldEnum | Prisma.AmenityScalarFieldEnum[]
+}
+
+/**
+ * Amenity create
+ */
+export type AmenityCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Amenity.
+   */
+  data: Prisma.XOR<Prisma.AmenityCreateInput, Prisma.AmenityUncheckedCreateInput>
+}
+
+/**
+ * Amenity createMany
+ */
+export type AmenityCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Amenities.
+   */
+  data: Prisma.AmenityCreateManyInput | Prisma.AmenityCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Amenity createManyAndReturn
+ */
+export type AmenityCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * The data used to create many Amenities.
+   */
+  data: Prisma.AmenityCreateManyInput | Prisma.AmenityCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Amenity update
+ */
+export type AmenityUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Amenity.
+   */
+  data: Prisma.XOR<Prisma.AmenityUpdateInput, Prisma.AmenityUncheckedUpdateInput>
+  /**
+   * Choose, which Amenity to update.
+   */
+  where: Prisma.AmenityWhereUniqueInput
+}
+
+/**
+ * Amenity updateMany
+ */
+export type AmenityUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Amenities.
+   */
+  data: Prisma.XOR<Prisma.AmenityUpdateManyMutationInput, Prisma.AmenityUncheckedUpdateManyInput>
+  /**
+   * Filter which Amenities to update
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * Limit how many Amenities to update.
+   */
+  limit?: number
+}
+
+/**
+ * Amenity updateManyAndReturn
+ */
+export type AmenityUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * The data used to update Amenities.
+   */
+  data: Prisma.XOR<Prisma.AmenityUpdateManyMutationInput, Prisma.AmenityUncheckedUpdateManyInput>
+  /**
+   * Filter which Amenities to update
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * Limit how many Amenities to update.
+   */
+  limit?: number
+}
+
+/**
+ * Amenity upsert
+ */
+export type AmenityUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Amenity to update in case it exists.
+   */
+  where: Prisma.AmenityWhereUniqueInput
+  /**
+   * In case the Amenity found by the `where` argument doesn't exist, create a new Amenity with this data.
+   */
+  create: Prisma.XOR<Prisma.AmenityCreateInput, Prisma.AmenityUncheckedCreateInput>
+  /**
+   * In case the Amenity was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AmenityUpdateInput, Prisma.AmenityUncheckedUpdateInput>
+}
+
+/**
+ * Amenity delete
+ */
+export type AmenityDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  /**
+   * Filter which Amenity to delete.
+   */
+  where: Prisma.AmenityWhereUniqueInput
+}
+
+/**
+ * Amenity deleteMany
+ */
+export type AmenityDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Amenities to delete
+   */
+  where?: Prisma.AmenityWhereInput
+  /**
+   * Limit how many Amenities to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Amenity.rooms
+ */
+export type Amenity$roomsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Room
+   */
+  select?: Prisma.RoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Room
+   */
+  omit?: Prisma.RoomOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomInclude<ExtArgs> | null
+  where?: Prisma.RoomWhereInput
+  orderBy?: Prisma.RoomOrderByWithRelationInput | Prisma.RoomOrderByWithRelationInput[]
+  cursor?: Prisma.RoomWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RoomScalarFieldEnum | Prisma.RoomScalarFieldEnum[]
+}
+
+/**
+ * Amenity without action
+ */
+export type AmenityDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+}
@@ -0,0 +1,1314 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingLifecycleJob` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model BookingLifecycleJob
+ * 
+ */
+export type BookingLifecycleJobModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingLifecycleJobPayload>
+
+export type AggregateBookingLifecycleJob = {
+  _count: BookingLifecycleJobCountAggregateOutputType | null
+  _min: BookingLifecycleJobMinAggregateOutputType | null
+  _max: BookingLifecycleJobMaxAggregateOutputType | null
+}
+
+export type BookingLifecycleJobMinAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  kind: $Enums.BookingJobKind | null
+  runAt: Date | null
+}
+
+export type BookingLifecycleJobMaxAggregateOutputType = {
+  id: string | null
+  bookingId: string | null
+  kind: $Enums.BookingJobKind | null
+  runAt: Date | null
+}
+
+export type BookingLifecycleJobCountAggregateOutputType = {
+  id: number
+  bookingId: number
+  kind: number
+  runAt: number
+  _all: number
+}
+
+
+export type BookingLifecycleJobMinAggregateInputType = {
+  id?: true
+  bookingId?: true
+  kind?: true
+  runAt?: true
+}
+
+export type BookingLifecycleJobMaxAggregateInputType = {
+  id?: true
+  bookingId?: true
+  kind?: true
+  runAt?: true
+}
+
+export type BookingLifecycleJobCountAggregateInputType = {
+  id?: true
+  bookingId?: true
+  kind?: true
+  runAt?: true
+  _all?: true
+}
+
+export type BookingLifecycleJobAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingLifecycleJob to aggregate.
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingLifecycleJobs to fetch.
+   */
+  orderBy?: Prisma.BookingLifecycleJobOrderByWithRelationInput | Prisma.BookingLifecycleJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingLifecycleJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingLifecycleJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingLifecycleJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingLifecycleJobs
+  **/
+  _count?: true | BookingLifecycleJobCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingLifecycleJobMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingLifecycleJobMaxAggregateInputType
+}
+
+export type GetBookingLifecycleJobAggregateType<T extends BookingLifecycleJobAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingLifecycleJob]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingLifecycleJob[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingLifecycleJob[P]>
+}
+
+
+
+
+export type BookingLifecycleJobGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingLifecycleJobWhereInput
+  orderBy?: Prisma.BookingLifecycleJobOrderByWithAggregationInput | Prisma.BookingLifecycleJobOrderByWithAggregationInput[]
+  by: Prisma.BookingLifecycleJobScalarFieldEnum[] | Prisma.BookingLifecycleJobScalarFieldEnum
+  having?: Prisma.BookingLifecycleJobScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingLifecycleJobCountAggregateInputType | true
+  _min?: BookingLifecycleJobMinAggregateInputType
+  _max?: BookingLifecycleJobMaxAggregateInputType
+}
+
+export type BookingLifecycleJobGroupByOutputType = {
+  id: string
+  bookingId: string
+  kind: $Enums.BookingJobKind
+  runAt: Date
+  _count: BookingLifecycleJobCountAggregateOutputType | null
+  _min: BookingLifecycleJobMinAggregateOutputType | null
+  _max: BookingLifecycleJobMaxAggregateOutputType | null
+}
+
+type GetBookingLifecycleJobGroupByPayload<T extends BookingLifecycleJobGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingLifecycleJobGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingLifecycleJobGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingLifecycleJobGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingLifecycleJobGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingLifecycleJobWhereInput = {
+  AND?: Prisma.BookingLifecycleJobWhereInput | Prisma.BookingLifecycleJobWhereInput[]
+  OR?: Prisma.BookingLifecycleJobWhereInput[]
+  NOT?: Prisma.BookingLifecycleJobWhereInput | Prisma.BookingLifecycleJobWhereInput[]
+  id?: Prisma.StringFilter<"BookingLifecycleJob"> | string
+  bookingId?: Prisma.StringFilter<"BookingLifecycleJob"> | string
+  kind?: Prisma.EnumBookingJobKindFilter<"BookingLifecycleJob"> | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFilter<"BookingLifecycleJob"> | Date | string
+  booking?: Prisma.XOR<Prisma.RoomBookingScalarRelationFilter, Prisma.RoomBookingWhereInput>
+}
+
+export type BookingLifecycleJobOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  booking?: Prisma.RoomBookingOrderByWithRelationInput
+}
+
+export type BookingLifecycleJobWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  bookingId_kind?: Prisma.BookingLifecycleJobBookingIdKindCompoundUniqueInput
+  AND?: Prisma.BookingLifecycleJobWhereInput | Prisma.BookingLifecycleJobWhereInput[]
+  OR?: Prisma.BookingLifecycleJobWhereInput[]
+  NOT?: Prisma.BookingLifecycleJobWhereInput | Prisma.BookingLifecycleJobWhereInput[]
+  bookingId?: Prisma.StringFilter<"BookingLifecycleJob"> | string
+  kind?: Prisma.EnumBookingJobKindFilter<"BookingLifecycleJob"> | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFilter<"BookingLifecycleJob"> | Date | string
+  booking?: Prisma.XOR<Prisma.RoomBookingScalarRelationFilter, Prisma.RoomBookingWhereInput>
+}, "id" | "bookingId_kind">
+
+export type BookingLifecycleJobOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+  _count?: Prisma.BookingLifecycleJobCountOrderByAggregateInput
+  _max?: Prisma.BookingLifecycleJobMaxOrderByAggregateInput
+  _min?: Prisma.BookingLifecycleJobMinOrderByAggregateInput
+}
+
+export type BookingLifecycleJobScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingLifecycleJobScalarWhereWithAggregatesInput | Prisma.BookingLifecycleJobScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingLifecycleJobScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingLifecycleJobScalarWhereWithAggregatesInput | Prisma.BookingLifecycleJobScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingLifecycleJob"> | string
+  bookingId?: Prisma.StringWithAggregatesFilter<"BookingLifecycleJob"> | string
+  kind?: Prisma.EnumBookingJobKindWithAggregatesFilter<"BookingLifecycleJob"> | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeWithAggregatesFilter<"BookingLifecycleJob"> | Date | string
+}
+
+export type BookingLifecycleJobCreateInput = {
+  id?: string
+  kind: $Enums.BookingJobKind
+  runAt: Date | string
+  booking: Prisma.RoomBookingCreateNestedOneWithoutLifecycleJobsInput
+}
+
+export type BookingLifecycleJobUncheckedCreateInput = {
+  id?: string
+  bookingId: string
+  kind: $Enums.BookingJobKind
+  runAt: Date | string
+}
+
+export type BookingLifecycleJobUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  booking?: Prisma.RoomBookingUpdateOneRequiredWithoutLifecycleJobsNestedInput
+}
+
+export type BookingLifecycleJobUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingLifecycleJobCreateManyInput = {
+  id?: string
+  bookingId: string
+  kind: $Enums.BookingJobKind
+  runAt: Date | string
+}
+
+export type BookingLifecycleJobUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingLifecycleJobUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  bookingId?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingLifecycleJobListRelationFilter = {
+  every?: Prisma.BookingLifecycleJobWhereInput
+  some?: Prisma.BookingLifecycleJobWhereInput
+  none?: Prisma.BookingLifecycleJobWhereInput
+}
+
+export type BookingLifecycleJobOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BookingLifecycleJobBookingIdKindCompoundUniqueInput = {
+  bookingId: string
+  kind: $Enums.BookingJobKind
+}
+
+export type BookingLifecycleJobCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+}
+
+export type BookingLifecycleJobMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+}
+
+export type BookingLifecycleJobMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  runAt?: Prisma.SortOrder
+}
+
+export type BookingLifecycleJobCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingLifecycleJobCreateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput> | Prisma.BookingLifecycleJobCreateWithoutBookingInput[] | Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput | Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingLifecycleJobCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+}
+
+export type BookingLifecycleJobUncheckedCreateNestedManyWithoutBookingInput = {
+  create?: Prisma.XOR<Prisma.BookingLifecycleJobCreateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput> | Prisma.BookingLifecycleJobCreateWithoutBookingInput[] | Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput | Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput[]
+  createMany?: Prisma.BookingLifecycleJobCreateManyBookingInputEnvelope
+  connect?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+}
+
+export type BookingLifecycleJobUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingLifecycleJobCreateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput> | Prisma.BookingLifecycleJobCreateWithoutBookingInput[] | Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput | Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingLifecycleJobUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingLifecycleJobUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingLifecycleJobCreateManyBookingInputEnvelope
+  set?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  disconnect?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  delete?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  connect?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  update?: Prisma.BookingLifecycleJobUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingLifecycleJobUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingLifecycleJobUpdateManyWithWhereWithoutBookingInput | Prisma.BookingLifecycleJobUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingLifecycleJobScalarWhereInput | Prisma.BookingLifecycleJobScalarWhereInput[]
+}
+
+export type BookingLifecycleJobUncheckedUpdateManyWithoutBookingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingLifecycleJobCreateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput> | Prisma.BookingLifecycleJobCreateWithoutBookingInput[] | Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput[]
+  connectOrCreate?: Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput | Prisma.BookingLifecycleJobCreateOrConnectWithoutBookingInput[]
+  upsert?: Prisma.BookingLifecycleJobUpsertWithWhereUniqueWithoutBookingInput | Prisma.BookingLifecycleJobUpsertWithWhereUniqueWithoutBookingInput[]
+  createMany?: Prisma.BookingLifecycleJobCreateManyBookingInputEnvelope
+  set?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  disconnect?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  delete?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  connect?: Prisma.BookingLifecycleJobWhereUniqueInput | Prisma.BookingLifecycleJobWhereUniqueInput[]
+  update?: Prisma.BookingLifecycleJobUpdateWithWhereUniqueWithoutBookingInput | Prisma.BookingLifecycleJobUpdateWithWhereUniqueWithoutBookingInput[]
+  updateMany?: Prisma.BookingLifecycleJobUpdateManyWithWhereWithoutBookingInput | Prisma.BookingLifecycleJobUpdateManyWithWhereWithoutBookingInput[]
+  deleteMany?: Prisma.BookingLifecycleJobScalarWhereInput | Prisma.BookingLifecycleJobScalarWhereInput[]
+}
+
+export type EnumBookingJobKindFieldUpdateOperationsInput = {
+  set?: $Enums.BookingJobKind
+}
+
+export type BookingLifecycleJobCreateWithoutBookingInput = {
+  id?: string
+  kind: $Enums.BookingJobKind
+  runAt: Date | string
+}
+
+export type BookingLifecycleJobUncheckedCreateWithoutBookingInput = {
+  id?: string
+  kind: $Enums.BookingJobKind
+  runAt: Date | string
+}
+
+export type BookingLifecycleJobCreateOrConnectWithoutBookingInput = {
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingLifecycleJobCreateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingLifecycleJobCreateManyBookingInputEnvelope = {
+  data: Prisma.BookingLifecycleJobCreateManyBookingInput | Prisma.BookingLifecycleJobCreateManyBookingInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingLifecycleJobUpsertWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingLifecycleJobUpdateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedUpdateWithoutBookingInput>
+  create: Prisma.XOR<Prisma.BookingLifecycleJobCreateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedCreateWithoutBookingInput>
+}
+
+export type BookingLifecycleJobUpdateWithWhereUniqueWithoutBookingInput = {
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingLifecycleJobUpdateWithoutBookingInput, Prisma.BookingLifecycleJobUncheckedUpdateWithoutBookingInput>
+}
+
+export type BookingLifecycleJobUpdateManyWithWhereWithoutBookingInput = {
+  where: Prisma.BookingLifecycleJobScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingLifecycleJobUpdateManyMutationInput, Prisma.BookingLifecycleJobUncheckedUpdateManyWithoutBookingInput>
+}
+
+export type BookingLifecycleJobScalarWhereInput = {
+  AND?: Prisma.BookingLifecycleJobScalarWhereInput | Prisma.BookingLifecycleJobScalarWhereInput[]
+  OR?: Prisma.BookingLifecycleJobScalarWhereInput[]
+  NOT?: Prisma.BookingLifecycleJobScalarWhereInput | Prisma.BookingLifecycleJobScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingLifecycleJob"> | string
+  bookingId?: Prisma.StringFilter<"BookingLifecycleJob"> | string
+  kind?: Prisma.EnumBookingJobKindFilter<"BookingLifecycleJob"> | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFilter<"BookingLifecycleJob"> | Date | string
+}
+
+export type BookingLifecycleJobCreateManyBookingInput = {
+  id?: string
+  kind: $Enums.BookingJobKind
+  runAt: Date | string
+}
+
+export type BookingLifecycleJobUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingLifecycleJobUncheckedUpdateWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingLifecycleJobUncheckedUpdateManyWithoutBookingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  kind?: Prisma.EnumBookingJobKindFieldUpdateOperationsInput | $Enums.BookingJobKind
+  runAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingLifecycleJobSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  kind?: boolean
+  runAt?: boolean
+  booking?: boolean | Prisma.RoomBookingDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingLifecycleJob"]>
+
+export type BookingLifecycleJobSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  kind?: boolean
+  runAt?: boolean
+  booking?: boolean | Prisma.RoomBookingDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingLifecycleJob"]>
+
+export type BookingLifecycleJobSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  bookingId?: boolean
+  kind?: boolean
+  runAt?: boolean
+  booking?: boolean | Prisma.RoomBookingDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingLifecycleJob"]>
+
+export type BookingLifecycleJobSelectScalar = {
+  id?: boolean
+  bookingId?: boolean
+  kind?: boolean
+  runAt?: boolean
+}
+
+export type BookingLifecycleJobOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "bookingId" | "kind" | "runAt", ExtArgs["result"]["bookingLifecycleJob"]>
+export type BookingLifecycleJobInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.RoomBookingDefaultArgs<ExtArgs>
+}
+export type BookingLifecycleJobIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.RoomBookingDefaultArgs<ExtArgs>
+}
+export type BookingLifecycleJobIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  booking?: boolean | Prisma.RoomBookingDefaultArgs<ExtArgs>
+}
+
+export type $BookingLifecycleJobPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingLifecycleJob"
+  objects: {
+    booking: Prisma.$RoomBookingPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    bookingId: string
+    kind: $Enums.BookingJobKind
+    runAt: Date
+  }, ExtArgs["result"]["bookingLifecycleJob"]>
+  composites: {}
+}
+
+export type BookingLifecycleJobGetPayload<S extends boolean | null | undefined | BookingLifecycleJobDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload, S>
+
+export type BookingLifecycleJobCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingLifecycleJobFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingLifecycleJobCountAggregateInputType | true
+  }
+
+export interface BookingLifecycleJobDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingLifecycleJob'], meta: { name: 'BookingLifecycleJob' } }
+  /**
+   * Find zero or one BookingLifecycleJob that matches the filter.
+   * @param {BookingLifecycleJobFindUniqueArgs} args - Arguments to find a BookingLifecycleJob
+   * @example
+   * // Get one BookingLifecycleJob
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingLifecycleJobFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingLifecycleJob that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingLifecycleJobFindUniqueOrThrowArgs} args - Arguments to find a BookingLifecycleJob
+   * @example
+   * // Get one BookingLifecycleJob
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingLifecycleJobFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingLifecycleJob that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobFindFirstArgs} args - Arguments to find a BookingLifecycleJob
+   * @example
+   * // Get one BookingLifecycleJob
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingLifecycleJobFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingLifecycleJobFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingLifecycleJob that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobFindFirstOrThrowArgs} args - Arguments to find a BookingLifecycleJob
+   * @example
+   * // Get one BookingLifecycleJob
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingLifecycleJobFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingLifecycleJobFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingLifecycleJobs that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingLifecycleJobs
+   * const bookingLifecycleJobs = await prisma.bookingLifecycleJob.findMany()
+   * 
+   * // Get first 10 BookingLifecycleJobs
+   * const bookingLifecycleJobs = await prisma.bookingLifecycleJob.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingLifecycleJobWithIdOnly = await prisma.bookingLifecycleJob.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingLifecycleJobFindManyArgs>(args?: Prisma.SelectSubset<T, BookingLifecycleJobFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingLifecycleJob.
+   * @param {BookingLifecycleJobCreateArgs} args - Arguments to create a BookingLifecycleJob.
+   * @example
+   * // Create one BookingLifecycleJob
+   * const BookingLifecycleJob = await prisma.bookingLifecycleJob.create({
+   *   data: {
+   *     // ... data to create a BookingLifecycleJob
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingLifecycleJobCreateArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobCreateArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingLifecycleJobs.
+   * @param {BookingLifecycleJobCreateManyArgs} args - Arguments to create many BookingLifecycleJobs.
+   * @example
+   * // Create many BookingLifecycleJobs
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingLifecycleJobCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingLifecycleJobCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingLifecycleJobs and returns the data saved in the database.
+   * @param {BookingLifecycleJobCreateManyAndReturnArgs} args - Arguments to create many BookingLifecycleJobs.
+   * @example
+   * // Create many BookingLifecycleJobs
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingLifecycleJobs and only return the `id`
+   * const bookingLifecycleJobWithIdOnly = await prisma.bookingLifecycleJob.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingLifecycleJobCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingLifecycleJobCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingLifecycleJob.
+   * @param {BookingLifecycleJobDeleteArgs} args - Arguments to delete one BookingLifecycleJob.
+   * @example
+   * // Delete one BookingLifecycleJob
+   * const BookingLifecycleJob = await prisma.bookingLifecycleJob.delete({
+   *   where: {
+   *     // ... filter to delete one BookingLifecycleJob
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingLifecycleJobDeleteArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingLifecycleJob.
+   * @param {BookingLifecycleJobUpdateArgs} args - Arguments to update one BookingLifecycleJob.
+   * @example
+   * // Update one BookingLifecycleJob
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingLifecycleJobUpdateArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingLifecycleJobs.
+   * @param {BookingLifecycleJobDeleteManyArgs} args - Arguments to filter BookingLifecycleJobs to delete.
+   * @example
+   * // Delete a few BookingLifecycleJobs
+   * const { count } = await prisma.bookingLifecycleJob.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingLifecycleJobDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingLifecycleJobDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingLifecycleJobs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingLifecycleJobs
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingLifecycleJobUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingLifecycleJobs and returns the data updated in the database.
+   * @param {BookingLifecycleJobUpdateManyAndReturnArgs} args - Arguments to update many BookingLifecycleJobs.
+   * @example
+   * // Update many BookingLifecycleJobs
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingLifecycleJobs and only return the `id`
+   * const bookingLifecycleJobWithIdOnly = await prisma.bookingLifecycleJob.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingLifecycleJobUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingLifecycleJob.
+   * @param {BookingLifecycleJobUpsertArgs} args - Arguments to update or create a BookingLifecycleJob.
+   * @example
+   * // Update or create a BookingLifecycleJob
+   * const bookingLifecycleJob = await prisma.bookingLifecycleJob.upsert({
+   *   create: {
+   *     // ... data to create a BookingLifecycleJob
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingLifecycleJob we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingLifecycleJobUpsertArgs>(args: Prisma.SelectSubset<T, BookingLifecycleJobUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingLifecycleJobClient<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingLifecycleJobs.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobCountArgs} args - Arguments to filter BookingLifecycleJobs to count.
+   * @example
+   * // Count the number of BookingLifecycleJobs
+   * const count = await prisma.bookingLifecycleJob.count({
+   *   where: {
+   *     // ... the filter for the BookingLifecycleJobs we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingLifecycleJobCountArgs>(
+    args?: Prisma.Subset<T, BookingLifecycleJobCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingLifecycleJobCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingLifecycleJob.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingLifecycleJobAggregateArgs>(args: Prisma.Subset<T, BookingLifecycleJobAggregateArgs>): Prisma.PrismaPromise<GetBookingLifecycleJobAggregateType<T>>
+
+  /**
+   * Group by BookingLifecycleJob.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingLifecycleJobGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingLifecycleJobGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingLifecycleJobGroupByArgs['orderBy'] }
+      : { orderBy?: BookingLifecycleJobGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingLifecycleJobGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingLifecycleJobGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingLifecycleJob model
+ */
+readonly fields: BookingLifecycleJobFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingLifecycleJob.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingLifecycleJobClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  booking<T extends Prisma.RoomBookingDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RoomBookingDefaultArgs<ExtArgs>>): Prisma.Prisma__RoomBookingClient<runtime.Types.Result.GetResult<Prisma.$RoomBookingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingLifecycleJob model
+ */
+export interface BookingLifecycleJobFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingLifecycleJob", 'String'>
+  readonly bookingId: Prisma.FieldRef<"BookingLifecycleJob", 'String'>
+  readonly kind: Prisma.FieldRef<"BookingLifecycleJob", 'BookingJobKind'>
+  readonly runAt: Prisma.FieldRef<"BookingLifecycleJob", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingLifecycleJob findUnique
+ */
+export type BookingLifecycleJobFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingLifecycleJob to fetch.
+   */
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+}
+
+/**
+ * BookingLifecycleJob findUniqueOrThrow
+ */
+export type BookingLifecycleJobFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingLifecycleJob to fetch.
+   */
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+}
+
+/**
+ * BookingLifecycleJob findFirst
+ */
+export type BookingLifecycleJobFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingLifecycleJob to fetch.
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingLifecycleJobs to fetch.
+   */
+  orderBy?: Prisma.BookingLifecycleJobOrderByWithRelationInput | Prisma.BookingLifecycleJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingLifecycleJobs.
+   */
+  cursor?: Prisma.BookingLifecycleJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingLifecycleJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingLifecycleJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingLifecycleJobs.
+   */
+  distinct?: Prisma.BookingLifecycleJobScalarFieldEnum | Prisma.BookingLifecycleJobScalarFieldEnum[]
+}
+
+/**
+ * BookingLifecycleJob findFirstOrThrow
+ */
+export type BookingLifecycleJobFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingLifecycleJob to fetch.
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingLifecycleJobs to fetch.
+   */
+  orderBy?: Prisma.BookingLifecycleJobOrderByWithRelationInput | Prisma.BookingLifecycleJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingLifecycleJobs.
+   */
+  cursor?: Prisma.BookingLifecycleJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingLifecycleJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingLifecycleJobs.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingLifecycleJobs.
+   */
+  distinct?: Prisma.BookingLifecycleJobScalarFieldEnum | Prisma.BookingLifecycleJobScalarFieldEnum[]
+}
+
+/**
+ * BookingLifecycleJob findMany
+ */
+export type BookingLifecycleJobFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingLifecycleJobs to fetch.
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingLifecycleJobs to fetch.
+   */
+  orderBy?: Prisma.BookingLifecycleJobOrderByWithRelationInput | Prisma.BookingLifecycleJobOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingLifecycleJobs.
+   */
+  cursor?: Prisma.BookingLifecycleJobWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingLifecycleJobs from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingLifecycleJobs.
+   */
+  skip?: number
+  distinct?: Prisma.BookingLifecycleJobScalarFieldEnum | Prisma.BookingLifecycleJobScalarFieldEnum[]
+}
+
+/**
+ * BookingLifecycleJob create
+ */
+export type BookingLifecycleJobCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingLifecycleJob.
+   */
+  data: Prisma.XOR<Prisma.BookingLifecycleJobCreateInput, Prisma.BookingLifecycleJobUncheckedCreateInput>
+}
+
+/**
+ * BookingLifecycleJob createMany
+ */
+export type BookingLifecycleJobCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingLifecycleJobs.
+   */
+  data: Prisma.BookingLifecycleJobCreateManyInput | Prisma.BookingLifecycleJobCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingLifecycleJob createManyAndReturn
+ */
+export type BookingLifecycleJobCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingLifecycleJobs.
+   */
+  data: Prisma.BookingLifecycleJobCreateManyInput | Prisma.BookingLifecycleJobCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingLifecycleJob update
+ */
+export type BookingLifecycleJobUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingLifecycleJob.
+   */
+  data: Prisma.XOR<Prisma.BookingLifecycleJobUpdateInput, Prisma.BookingLifecycleJobUncheckedUpdateInput>
+  /**
+   * Choose, which BookingLifecycleJob to update.
+   */
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+}
+
+/**
+ * BookingLifecycleJob updateMany
+ */
+export type BookingLifecycleJobUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingLifecycleJobs.
+   */
+  data: Prisma.XOR<Prisma.BookingLifecycleJobUpdateManyMutationInput, Prisma.BookingLifecycleJobUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingLifecycleJobs to update
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * Limit how many BookingLifecycleJobs to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingLifecycleJob updateManyAndReturn
+ */
+export type BookingLifecycleJobUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingLifecycleJobs.
+   */
+  data: Prisma.XOR<Prisma.BookingLifecycleJobUpdateManyMutationInput, Prisma.BookingLifecycleJobUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingLifecycleJobs to update
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * Limit how many BookingLifecycleJobs to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingLifecycleJob upsert
+ */
+export type BookingLifecycleJobUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingLifecycleJob to update in case it exists.
+   */
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+  /**
+   * In case the BookingLifecycleJob found by the `where` argument doesn't exist, create a new BookingLifecycleJob with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingLifecycleJobCreateInput, Prisma.BookingLifecycleJobUncheckedCreateInput>
+  /**
+   * In case the BookingLifecycleJob was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingLifecycleJobUpdateInput, Prisma.BookingLifecycleJobUncheckedUpdateInput>
+}
+
+/**
+ * BookingLifecycleJob delete
+ */
+export type BookingLifecycleJobDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  /**
+   * Filter which BookingLifecycleJob to delete.
+   */
+  where: Prisma.BookingLifecycleJobWhereUniqueInput
+}
+
+/**
+ * BookingLifecycleJob deleteMany
+ */
+export type BookingLifecycleJobDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingLifecycleJobs to delete
+   */
+  where?: Prisma.BookingLifecycleJobWhereInput
+  /**
+   * Limit how many BookingLifecycleJobs to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingLifecycleJob without action
+ */
+export type BookingLifecycleJobDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+}
@@ -0,0 +1,1703 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingPolicy` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model BookingPolicy
+ * 
+ */
+export type BookingPolicyModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingPolicyPayload>
+
+export type AggregateBookingPolicy = {
+  _count: BookingPolicyCountAggregateOutputType | null
+  _avg: BookingPolicyAvgAggregateOutputType | null
+  _sum: BookingPolicySumAggregateOutputType | null
+  _min: BookingPolicyMinAggregateOutputType | null
+  _max: BookingPolicyMaxAggregateOutputType | null
+}
+
+export type BookingPolicyAvgAggregateOutputType = {
+  maxDurationMinutes: number | null
+  minLeadMinutes: number | null
+  maxLeadDays: number | null
+  maxActiveBookings: number | null
+  openFromMinute: number | null
+  openUntilMinute: number | null
+}
+
+export type BookingPolicySumAggregateOutputType = {
+  maxDurationMinutes: number | null
+  minLeadMinutes: number | null
+  maxLeadDays: number | null
+  maxActiveBookings: number | null
+  openFromMinute: number | null
+  openUntilMinute: number | null
+}
+
+export type BookingPolicyMinAggregateOutputType = {
+  id: string | null
+  buildingId: string | null
+  roomId: string | null
+  maxDurationMinutes: number | null
+  minLeadMinutes: number | null
+  maxLeadDays: number | null
+  maxActiveBookings: number | null
+  openFromMinute: number | null
+  openUntilMinute: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BookingPolicyMaxAggregateOutputType = {
+  id: string | null
+  buildingId: string | null
+  roomId: string | null
+  maxDurationMinutes: number | null
+  minLeadMinutes: number | null
+  maxLeadDays: number | null
+  maxActiveBookings: number | null
+  openFromMinute: number | null
+  openUntilMinute: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type BookingPolicyCountAggregateOutputType = {
+  id: number
+  buildingId: number
+  roomId: number
+  maxDurationMinutes: number
+  minLeadMinutes: number
+  maxLeadDays: number
+  maxActiveBookings: number
+  openFromMinute: number
+  openUntilMinute: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type BookingPolicyAvgAggregateInputType = {
+  maxDurationMinutes?: true
+  minLeadMinutes?: true
+  maxLeadDays?: true
+  maxActiveBookings?: true
+  openFromMinute?: true
+  openUntilMinute?: true
+}
+
+export type BookingPolicySumAggregateInputType = {
+  maxDurationMinutes?: true
+  minLeadMinutes?: true
+  maxLeadDays?: true
+  maxActiveBookings?: true
+  openFromMinute?: true
+  openUntilMinute?: true
+}
+
+export type BookingPolicyMinAggregateInputType = {
+  id?: true
+  buildingId?: true
+  roomId?: true
+  maxDurationMinutes?: true
+  minLeadMinutes?: true
+  maxLeadDays?: true
+  maxActiveBookings?: true
+  openFromMinute?: true
+  openUntilMinute?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BookingPolicyMaxAggregateInputType = {
+  id?: true
+  buildingId?: true
+  roomId?: true
+  maxDurationMinutes?: true
+  minLeadMinutes?: true
+  maxLeadDays?: true
+  maxActiveBookings?: true
+  openFromMinute?: true
+  openUntilMinute?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type BookingPolicyCountAggregateInputType = {
+  id?: true
+  buildingId?: true
+  roomId?: true
+  maxDurationMinutes?: true
+  minLeadMinutes?: true
+  maxLeadDays?: true
+  maxActiveBookings?: true
+  openFromMinute?: true
+  openUntilMinute?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type BookingPolicyAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingPolicy to aggregate.
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingPolicies to fetch.
+   */
+  orderBy?: Prisma.BookingPolicyOrderByWithRelationInput | Prisma.BookingPolicyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingPolicyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingPolicies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingPolicies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingPolicies
+  **/
+  _count?: true | BookingPolicyCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BookingPolicyAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BookingPolicySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingPolicyMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingPolicyMaxAggregateInputType
+}
+
+export type GetBookingPolicyAggregateType<T extends BookingPolicyAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingPolicy]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingPolicy[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingPolicy[P]>
+}
+
+
+
+
+export type BookingPolicyGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingPolicyWhereInput
+  orderBy?: Prisma.BookingPolicyOrderByWithAggregationInput | Prisma.BookingPolicyOrderByWithAggregationInput[]
+  by: Prisma.BookingPolicyScalarFieldEnum[] | Prisma.BookingPolicyScalarFieldEnum
+  having?: Prisma.BookingPolicyScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingPolicyCountAggregateInputType | true
+  _avg?: BookingPolicyAvgAggregateInputType
+  _sum?: BookingPolicySumAggregateInputType
+  _min?: BookingPolicyMinAggregateInputType
+  _max?: BookingPolicyMaxAggregateInputType
+}
+
+export type BookingPolicyGroupByOutputType = {
+  id: string
+  buildingId: string | null
+  roomId: string | null
+  maxDurationMinutes: number | null
+  minLeadMinutes: number | null
+  maxLeadDays: number | null
+  maxActiveBookings: number | null
+  openFromMinute: number | null
+  openUntilMinute: number | null
+  createdAt: Date
+  updatedAt: Date
+  _count: BookingPolicyCountAggregateOutputType | null
+  _avg: BookingPolicyAvgAggregateOutputType | null
+  _sum: BookingPolicySumAggregateOutputType | null
+  _min: BookingPolicyMinAggregateOutputType | null
+  _max: BookingPolicyMaxAggregateOutputType | null
+}
+
+type GetBookingPolicyGroupByPayload<T extends BookingPolicyGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingPolicyGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingPolicyGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingPolicyGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingPolicyGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingPolicyWhereInput = {
+  AND?: Prisma.BookingPolicyWhereInput | Prisma.BookingPolicyWhereInput[]
+  OR?: Prisma.BookingPolicyWhereInput[]
+  NOT?: Prisma.BookingPolicyWhereInput | Prisma.BookingPolicyWhereInput[]
+  id?: Prisma.StringFilter<"BookingPolicy"> | string
+  buildingId?: Prisma.StringNullableFilter<"BookingPolicy"> | string | null
+  roomId?: Prisma.StringNullableFilter<"BookingPolicy"> | string | null
+  maxDurationMinutes?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  minLeadMinutes?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  maxLeadDays?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  maxActiveBookings?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  openFromMinute?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  openUntilMinute?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"BookingPolicy"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingPolicy"> | Date | string
+  building?: Prisma.XOR<Prisma.BuildingNullableScalarRelationFilter, Prisma.BuildingWhereInput> | null
+  room?: Prisma.XOR<Prisma.RoomNullableScalarRelationFilter, Prisma.RoomWhereInput> | null
+}
+
+export type BookingPolicyOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  roomId?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxDurationMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrderInput | Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrderInput | Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  building?: Prisma.BuildingOrderByWithRelationInput
+  room?: Prisma.RoomOrderByWithRelationInput
+}
+
+export type BookingPolicyWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  buildingId?: string
+  roomId?: string
+  AND?: Prisma.BookingPolicyWhereInput | Prisma.BookingPolicyWhereInput[]
+  OR?: Prisma.BookingPolicyWhereInput[]
+  NOT?: Prisma.BookingPolicyWhereInput | Prisma.BookingPolicyWhereInput[]
+  maxDurationMinutes?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  minLeadMinutes?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  maxLeadDays?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  maxActiveBookings?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  openFromMinute?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  openUntilMinute?: Prisma.IntNullableFilter<"BookingPolicy"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"BookingPolicy"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"BookingPolicy"> | Date | string
+  building?: Prisma.XOR<Prisma.BuildingNullableScalarRelationFilter, Prisma.BuildingWhereInput> | null
+  room?: Prisma.XOR<Prisma.RoomNullableScalarRelationFilter, Prisma.RoomWhereInput> | null
+}, "id" | "buildingId" | "roomId">
+
+export type BookingPolicyOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  roomId?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxDurationMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrderInput | Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrderInput | Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.BookingPolicyCountOrderByAggregateInput
+  _avg?: Prisma.BookingPolicyAvgOrderByAggregateInput
+  _max?: Prisma.BookingPolicyMaxOrderByAggregateInput
+  _min?: Prisma.BookingPolicyMinOrderByAggregateInput
+  _sum?: Prisma.BookingPolicySumOrderByAggregateInput
+}
+
+export type BookingPolicyScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingPolicyScalarWhereWithAggregatesInput | Prisma.BookingPolicyScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingPolicyScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingPolicyScalarWhereWithAggregatesInput | Prisma.BookingPolicyScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingPolicy"> | string
+  buildingId?: Prisma.StringNullableWithAggregatesFilter<"BookingPolicy"> | string | null
+  roomId?: Prisma.StringNullableWithAggregatesFilter<"BookingPolicy"> | string | null
+  maxDurationMinutes?: Prisma.IntNullableWithAggregatesFilter<"BookingPolicy"> | number | null
+  minLeadMinutes?: Prisma.IntNullableWithAggregatesFilter<"BookingPolicy"> | number | null
+  maxLeadDays?: Prisma.IntNullableWithAggregatesFilter<"BookingPolicy"> | number | null
+  maxActiveBookings?: Prisma.IntNullableWithAggregatesFilter<"BookingPolicy"> | number | null
+  openFromMinute?: Prisma.IntNullableWithAggregatesFilter<"BookingPolicy"> | number | null
+  openUntilMinute?: Prisma.IntNullableWithAggregatesFilter<"BookingPolicy"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingPolicy"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"BookingPolicy"> | Date | string
+}
+
+export type BookingPolicyCreateInput = {
+  id?: string
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  building?: Prisma.BuildingCreateNestedOneWithoutBookingPolicyInput
+  room?: Prisma.RoomCreateNestedOneWithoutBookingPolicyInput
+}
+
+export type BookingPolicyUncheckedCreateInput = {
+  id?: string
+  buildingId?: string | null
+  roomId?: string | null
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPolicyUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  building?: Prisma.BuildingUpdateOneWithoutBookingPolicyNestedInput
+  room?: Prisma.RoomUpdateOneWithoutBookingPolicyNestedInput
+}
+
+export type BookingPolicyUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPolicyCreateManyInput = {
+  id?: string
+  buildingId?: string | null
+  roomId?: string | null
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPolicyUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPolicyUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPolicyNullableScalarRelationFilter = {
+  is?: Prisma.BookingPolicyWhereInput | null
+  isNot?: Prisma.BookingPolicyWhereInput | null
+}
+
+export type BookingPolicyCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  maxDurationMinutes?: Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingPolicyAvgOrderByAggregateInput = {
+  maxDurationMinutes?: Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrder
+}
+
+export type BookingPolicyMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  maxDurationMinutes?: Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingPolicyMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  buildingId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  maxDurationMinutes?: Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type BookingPolicySumOrderByAggregateInput = {
+  maxDurationMinutes?: Prisma.SortOrder
+  minLeadMinutes?: Prisma.SortOrder
+  maxLeadDays?: Prisma.SortOrder
+  maxActiveBookings?: Prisma.SortOrder
+  openFromMinute?: Prisma.SortOrder
+  openUntilMinute?: Prisma.SortOrder
+}
+
+export type BookingPolicyCreateNestedOneWithoutBuildingInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutBuildingInput, Prisma.BookingPolicyUncheckedCreateWithoutBuildingInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutBuildingInput
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+}
+
+export type BookingPolicyUncheckedCreateNestedOneWithoutBuildingInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutBuildingInput, Prisma.BookingPolicyUncheckedCreateWithoutBuildingInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutBuildingInput
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+}
+
+export type BookingPolicyUpdateOneWithoutBuildingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutBuildingInput, Prisma.BookingPolicyUncheckedCreateWithoutBuildingInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutBuildingInput
+  upsert?: Prisma.BookingPolicyUpsertWithoutBuildingInput
+  disconnect?: Prisma.BookingPolicyWhereInput | boolean
+  delete?: Prisma.BookingPolicyWhereInput | boolean
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPolicyUpdateToOneWithWhereWithoutBuildingInput, Prisma.BookingPolicyUpdateWithoutBuildingInput>, Prisma.BookingPolicyUncheckedUpdateWithoutBuildingInput>
+}
+
+export type BookingPolicyUncheckedUpdateOneWithoutBuildingNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutBuildingInput, Prisma.BookingPolicyUncheckedCreateWithoutBuildingInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutBuildingInput
+  upsert?: Prisma.BookingPolicyUpsertWithoutBuildingInput
+  disconnect?: Prisma.BookingPolicyWhereInput | boolean
+  delete?: Prisma.BookingPolicyWhereInput | boolean
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPolicyUpdateToOneWithWhereWithoutBuildingInput, Prisma.BookingPolicyUpdateWithoutBuildingInput>, Prisma.BookingPolicyUncheckedUpdateWithoutBuildingInput>
+}
+
+export type BookingPolicyCreateNestedOneWithoutRoomInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutRoomInput, Prisma.BookingPolicyUncheckedCreateWithoutRoomInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutRoomInput
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+}
+
+export type BookingPolicyUncheckedCreateNestedOneWithoutRoomInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutRoomInput, Prisma.BookingPolicyUncheckedCreateWithoutRoomInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutRoomInput
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+}
+
+export type BookingPolicyUpdateOneWithoutRoomNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutRoomInput, Prisma.BookingPolicyUncheckedCreateWithoutRoomInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutRoomInput
+  upsert?: Prisma.BookingPolicyUpsertWithoutRoomInput
+  disconnect?: Prisma.BookingPolicyWhereInput | boolean
+  delete?: Prisma.BookingPolicyWhereInput | boolean
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPolicyUpdateToOneWithWhereWithoutRoomInput, Prisma.BookingPolicyUpdateWithoutRoomInput>, Prisma.BookingPolicyUncheckedUpdateWithoutRoomInput>
+}
+
+export type BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingPolicyCreateWithoutRoomInput, Prisma.BookingPolicyUncheckedCreateWithoutRoomInput>
+  connectOrCreate?: Prisma.BookingPolicyCreateOrConnectWithoutRoomInput
+  upsert?: Prisma.BookingPolicyUpsertWithoutRoomInput
+  disconnect?: Prisma.BookingPolicyWhereInput | boolean
+  delete?: Prisma.BookingPolicyWhereInput | boolean
+  connect?: Prisma.BookingPolicyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingPolicyUpdateToOneWithWhereWithoutRoomInput, Prisma.BookingPolicyUpdateWithoutRoomInput>, Prisma.BookingPolicyUncheckedUpdateWithoutRoomInput>
+}
+
+export type BookingPolicyCreateWithoutBuildingInput = {
+  id?: string
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  room?: Prisma.RoomCreateNestedOneWithoutBookingPolicyInput
+}
+
+export type BookingPolicyUncheckedCreateWithoutBuildingInput = {
+  id?: string
+  roomId?: string | null
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPolicyCreateOrConnectWithoutBuildingInput = {
+  where: Prisma.BookingPolicyWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPolicyCreateWithoutBuildingInput, Prisma.BookingPolicyUncheckedCreateWithoutBuildingInput>
+}
+
+export type BookingPolicyUpsertWithoutBuildingInput = {
+  update: Prisma.XOR<Prisma.BookingPolicyUpdateWithoutBuildingInput, Prisma.BookingPolicyUncheckedUpdateWithoutBuildingInput>
+  create: Prisma.XOR<Prisma.BookingPolicyCreateWithoutBuildingInput, Prisma.BookingPolicyUncheckedCreateWithoutBuildingInput>
+  where?: Prisma.BookingPolicyWhereInput
+}
+
+export type BookingPolicyUpdateToOneWithWhereWithoutBuildingInput = {
+  where?: Prisma.BookingPolicyWhereInput
+  data: Prisma.XOR<Prisma.BookingPolicyUpdateWithoutBuildingInput, Prisma.BookingPolicyUncheckedUpdateWithoutBuildingInput>
+}
+
+export type BookingPolicyUpdateWithoutBuildingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  room?: Prisma.RoomUpdateOneWithoutBookingPolicyNestedInput
+}
+
+export type BookingPolicyUncheckedUpdateWithoutBuildingInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingPolicyCreateWithoutRoomInput = {
+  id?: string
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  building?: Prisma.BuildingCreateNestedOneWithoutBookingPolicyInput
+}
+
+export type BookingPolicyUncheckedCreateWithoutRoomInput = {
+  id?: string
+  buildingId?: string | null
+  maxDurationMinutes?: number | null
+  minLeadMinutes?: number | null
+  maxLeadDays?: number | null
+  maxActiveBookings?: number | null
+  openFromMinute?: number | null
+  openUntilMinute?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type BookingPolicyCreateOrConnectWithoutRoomInput = {
+  where: Prisma.BookingPolicyWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingPolicyCreateWithoutRoomInput, Prisma.BookingPolicyUncheckedCreateWithoutRoomInput>
+}
+
+export type BookingPolicyUpsertWithoutRoomInput = {
+  update: Prisma.XOR<Prisma.BookingPolicyUpdateWithoutRoomInput, Prisma.BookingPolicyUncheckedUpdateWithoutRoomInput>
+  create: Prisma.XOR<Prisma.BookingPolicyCreateWithoutRoomInput, Prisma.BookingPolicyUncheckedCreateWithoutRoomInput>
+  where?: Prisma.BookingPolicyWhereInput
+}
+
+export type BookingPolicyUpdateToOneWithWhereWithoutRoomInput = {
+  where?: Prisma.BookingPolicyWhereInput
+  data: Prisma.XOR<Prisma.BookingPolicyUpdateWithoutRoomInput, Prisma.BookingPolicyUncheckedUpdateWithoutRoomInput>
+}
+
+export type BookingPolicyUpdateWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  building?: Prisma.BuildingUpdateOneWithoutBookingPolicyNestedInput
+}
+
+export type BookingPolicyUncheckedUpdateWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  maxDurationMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minLeadMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxLeadDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxActiveBookings?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openFromMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  openUntilMinute?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type BookingPolicySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  maxDurationMinutes?: boolean
+  minLeadMinutes?: boolean
+  maxLeadDays?: boolean
+  maxActiveBookings?: boolean
+  openFromMinute?: boolean
+  openUntilMinute?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  building?: boolean | Prisma.BookingPolicy$buildingArgs<ExtArgs>
+  room?: boolean | Prisma.BookingPolicy$roomArgs<ExtArgs>
+}, ExtArgs["result"]["bookingPolicy"]>
+
+export type BookingPolicySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  maxDurationMinutes?: boolean
+  minLeadMinutes?: boolean
+  maxLeadDays?: boolean
+  maxActiveBookings?: boolean
+  openFromMinute?: boolean
+  openUntilMinute?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  building?: boolean | Prisma.BookingPolicy$buildingArgs<ExtArgs>
+  room?: boolean | Prisma.BookingPolicy$roomArgs<ExtArgs>
+}, ExtArgs["result"]["bookingPolicy"]>
+
+export type BookingPolicySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  maxDurationMinutes?: boolean
+  minLeadMinutes?: boolean
+  maxLeadDays?: boolean
+  maxActiveBookings?: boolean
+  openFromMinute?: boolean
+  openUntilMinute?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  building?: boolean | Prisma.BookingPolicy$buildingArgs<ExtArgs>
+  room?: boolean | Prisma.BookingPolicy$roomArgs<ExtArgs>
+}, ExtArgs["result"]["bookingPolicy"]>
+
+export type BookingPolicySelectScalar = {
+  id?: boolean
+  buildingId?: boolean
+  roomId?: boolean
+  maxDurationMinutes?: boolean
+  minLeadMinutes?: boolean
+  maxLeadDays?: boolean
+  maxActiveBookings?: boolean
+  openFromMinute?: boolean
+  openUntilMinute?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type BookingPolicyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "buildingId" | "roomId" | "maxDurationMinutes" | "minLeadMinutes" | "maxLeadDays" | "maxActiveBookings" | "openFromMinute" | "openUntilMinute" | "createdAt" | "updatedAt", ExtArgs["result"]["bookingPolicy"]>
+export type BookingPolicyInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  building?: boolean | Prisma.BookingPolicy$buildingArgs<ExtArgs>
+  room?: boolean | Prisma.BookingPolicy$roomArgs<ExtArgs>
+}
+export type BookingPolicyIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  building?: boolean | Prisma.BookingPolicy$buildingArgs<ExtArgs>
+  room?: boolean | Prisma.BookingPolicy$roomArgs<ExtArgs>
+}
+export type BookingPolicyIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  building?: boolean | Prisma.BookingPolicy$buildingArgs<ExtArgs>
+  room?: boolean | Prisma.BookingPolicy$roomArgs<ExtArgs>
+}
+
+export type $BookingPolicyPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingPolicy"
+  objects: {
+    building: Prisma.$BuildingPayload<ExtArgs> | null
+    room: Prisma.$RoomPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    buildingId: string | null
+    roomId: string | null
+    maxDurationMinutes: number | null
+    minLeadMinutes: number | null
+    maxLeadDays: number | null
+    maxActiveBookings: number | null
+    openFromMinute: number | null
+    openUntilMinute: number | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["bookingPolicy"]>
+  composites: {}
+}
+
+export type BookingPolicyGetPayload<S extends boolean | null | undefined | BookingPolicyDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload, S>
+
+export type BookingPolicyCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingPolicyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingPolicyCountAggregateInputType | true
+  }
+
+export interface BookingPolicyDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingPolicy'], meta: { name: 'BookingPolicy' } }
+  /**
+   * Find zero or one BookingPolicy that matches the filter.
+   * @param {BookingPolicyFindUniqueArgs} args - Arguments to find a BookingPolicy
+   * @example
+   * // Get one BookingPolicy
+   * const bookingPolicy = await prisma.bookingPolicy.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingPolicyFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingPolicyFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingPolicy that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingPolicyFindUniqueOrThrowArgs} args - Arguments to find a BookingPolicy
+   * @example
+   * // Get one BookingPolicy
+   * const bookingPolicy = await prisma.bookingPolicy.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingPolicyFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingPolicyFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingPolicy that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyFindFirstArgs} args - Arguments to find a BookingPolicy
+   * @example
+   * // Get one BookingPolicy
+   * const bookingPolicy = await prisma.bookingPolicy.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingPolicyFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingPolicyFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingPolicy that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyFindFirstOrThrowArgs} args - Arguments to find a BookingPolicy
+   * @example
+   * // Get one BookingPolicy
+   * const bookingPolicy = await prisma.bookingPolicy.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingPolicyFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingPolicyFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingPolicies that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingPolicies
+   * const bookingPolicies = await prisma.bookingPolicy.findMany()
+   * 
+   * // Get first 10 BookingPolicies
+   * const bookingPolicies = await prisma.bookingPolicy.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingPolicyWithIdOnly = await prisma.bookingPolicy.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingPolicyFindManyArgs>(args?: Prisma.SelectSubset<T, BookingPolicyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingPolicy.
+   * @param {BookingPolicyCreateArgs} args - Arguments to create a BookingPolicy.
+   * @example
+   * // Create one BookingPolicy
+   * const BookingPolicy = await prisma.bookingPolicy.create({
+   *   data: {
+   *     // ... data to create a BookingPolicy
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingPolicyCreateArgs>(args: Prisma.SelectSubset<T, BookingPolicyCreateArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingPolicies.
+   * @param {BookingPolicyCreateManyArgs} args - Arguments to create many BookingPolicies.
+   * @example
+   * // Create many BookingPolicies
+   * const bookingPolicy = await prisma.bookingPolicy.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingPolicyCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingPolicyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingPolicies and returns the data saved in the database.
+   * @param {BookingPolicyCreateManyAndReturnArgs} args - Arguments to create many BookingPolicies.
+   * @example
+   * // Create many BookingPolicies
+   * const bookingPolicy = await prisma.bookingPolicy.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingPolicies and only return the `id`
+   * const bookingPolicyWithIdOnly = await prisma.bookingPolicy.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingPolicyCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingPolicyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingPolicy.
+   * @param {BookingPolicyDeleteArgs} args - Arguments to delete one BookingPolicy.
+   * @example
+   * // Delete one BookingPolicy
+   * const BookingPolicy = await prisma.bookingPolicy.delete({
+   *   where: {
+   *     // ... filter to delete one BookingPolicy
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingPolicyDeleteArgs>(args: Prisma.SelectSubset<T, BookingPolicyDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingPolicy.
+   * @param {BookingPolicyUpdateArgs} args - Arguments to update one BookingPolicy.
+   * @example
+   * // Update one BookingPolicy
+   * const bookingPolicy = await prisma.bookingPolicy.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingPolicyUpdateArgs>(args: Prisma.SelectSubset<T, BookingPolicyUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingPolicies.
+   * @param {BookingPolicyDeleteManyArgs} args - Arguments to filter BookingPolicies to delete.
+   * @example
+   * // Delete a few BookingPolicies
+   * const { count } = await prisma.bookingPolicy.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingPolicyDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingPolicyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingPolicies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingPolicies
+   * const bookingPolicy = await prisma.bookingPolicy.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingPolicyUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingPolicyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingPolicies and returns the data updated in the database.
+   * @param {BookingPolicyUpdateManyAndReturnArgs} args - Arguments to update many BookingPolicies.
+   * @example
+   * // Update many BookingPolicies
+   * const bookingPolicy = await prisma.bookingPolicy.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingPolicies and only return the `id`
+   * const bookingPolicyWithIdOnly = await prisma.bookingPolicy.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingPolicyUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingPolicyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingPolicy.
+   * @param {BookingPolicyUpsertArgs} args - Arguments to update or create a BookingPolicy.
+   * @example
+   * // Update or create a BookingPolicy
+   * const bookingPolicy = await prisma.bookingPolicy.upsert({
+   *   create: {
+   *     // ... data to create a BookingPolicy
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingPolicy we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingPolicyUpsertArgs>(args: Prisma.SelectSubset<T, BookingPolicyUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingPolicies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyCountArgs} args - Arguments to filter BookingPolicies to count.
+   * @example
+   * // Count the number of BookingPolicies
+   * const count = await prisma.bookingPolicy.count({
+   *   where: {
+   *     // ... the filter for the BookingPolicies we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingPolicyCountArgs>(
+    args?: Prisma.Subset<T, BookingPolicyCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingPolicyCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingPolicy.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingPolicyAggregateArgs>(args: Prisma.Subset<T, BookingPolicyAggregateArgs>): Prisma.PrismaPromise<GetBookingPolicyAggregateType<T>>
+
+  /**
+   * Group by BookingPolicy.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingPolicyGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingPolicyGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingPolicyGroupByArgs['orderBy'] }
+      : { orderBy?: BookingPolicyGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingPolicyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingPolicyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingPolicy model
+ */
+readonly fields: BookingPolicyFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingPolicy.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingPolicyClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  building<T extends Prisma.BookingPolicy$buildingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPolicy$buildingArgs<ExtArgs>>): Prisma.Prisma__BuildingClient<runtime.Types.Result.GetResult<Prisma.$BuildingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  room<T extends Prisma.BookingPolicy$roomArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingPolicy$roomArgs<ExtArgs>>): Prisma.Prisma__RoomClient<runtime.Types.Result.GetResult<Prisma.$RoomPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingPolicy model
+ */
+export interface BookingPolicyFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingPolicy", 'String'>
+  readonly buildingId: Prisma.FieldRef<"BookingPolicy", 'String'>
+  readonly roomId: Prisma.FieldRef<"BookingPolicy", 'String'>
+  readonly maxDurationMinutes: Prisma.FieldRef<"BookingPolicy", 'Int'>
+  readonly minLeadMinutes: Prisma.FieldRef<"BookingPolicy", 'Int'>
+  readonly maxLeadDays: Prisma.FieldRef<"BookingPolicy", 'Int'>
+  readonly maxActiveBookings: Prisma.FieldRef<"BookingPolicy", 'Int'>
+  readonly openFromMinute: Prisma.FieldRef<"BookingPolicy", 'Int'>
+  readonly openUntilMinute: Prisma.FieldRef<"BookingPolicy", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"BookingPolicy", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"BookingPolicy", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingPolicy findUnique
+ */
+export type BookingPolicyFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingPolicy to fetch.
+   */
+  where: Prisma.BookingPolicyWhereUniqueInput
+}
+
+/**
+ * BookingPolicy findUniqueOrThrow
+ */
+export type BookingPolicyFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingPolicy to fetch.
+   */
+  where: Prisma.BookingPolicyWhereUniqueInput
+}
+
+/**
+ * BookingPolicy findFirst
+ */
+export type BookingPolicyFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingPolicy to fetch.
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingPolicies to fetch.
+   */
+  orderBy?: Prisma.BookingPolicyOrderByWithRelationInput | Prisma.BookingPolicyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingPolicies.
+   */
+  cursor?: Prisma.BookingPolicyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingPolicies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingPolicies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingPolicies.
+   */
+  distinct?: Prisma.BookingPolicyScalarFieldEnum | Prisma.BookingPolicyScalarFieldEnum[]
+}
+
+/**
+ * BookingPolicy findFirstOrThrow
+ */
+export type BookingPolicyFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingPolicy to fetch.
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingPolicies to fetch.
+   */
+  orderBy?: Prisma.BookingPolicyOrderByWithRelationInput | Prisma.BookingPolicyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingPolicies.
+   */
+  cursor?: Prisma.BookingPolicyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingPolicies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingPolicies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingPolicies.
+   */
+  distinct?: Prisma.BookingPolicyScalarFieldEnum | Prisma.BookingPolicyScalarFieldEnum[]
+}
+
+/**
+ * BookingPolicy findMany
+ */
+export type BookingPolicyFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingPolicies to fetch.
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingPolicies to fetch.
+   */
+  orderBy?: Prisma.BookingPolicyOrderByWithRelationInput | Prisma.BookingPolicyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingPolicies.
+   */
+  cursor?: Prisma.BookingPolicyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingPolicies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingPolicies.
+   */
+  skip?: number
+  distinct?: Prisma.BookingPolicyScalarFieldEnum | Prisma.BookingPolicyScalarFieldEnum[]
+}
+
+/**
+ * BookingPolicy create
+ */
+export type BookingPolicyCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingPolicy.
+   */
+  data: Prisma.XOR<Prisma.BookingPolicyCreateInput, Prisma.BookingPolicyUncheckedCreateInput>
+}
+
+/**
+ * BookingPolicy createMany
+ */
+export type BookingPolicyCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingPolicies.
+   */
+  data: Prisma.BookingPolicyCreateManyInput | Prisma.BookingPolicyCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingPolicy createManyAndReturn
+ */
+export type BookingPolicyCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingPolicies.
+   */
+  data: Prisma.BookingPolicyCreateManyInput | Prisma.BookingPolicyCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingPolicy update
+ */
+export type BookingPolicyUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingPolicy.
+   */
+  data: Prisma.XOR<Prisma.BookingPolicyUpdateInput, Prisma.BookingPolicyUncheckedUpdateInput>
+  /**
+   * Choose, which BookingPolicy to update.
+   */
+  where: Prisma.BookingPolicyWhereUniqueInput
+}
+
+/**
+ * BookingPolicy updateMany
+ */
+export type BookingPolicyUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingPolicies.
+   */
+  data: Prisma.XOR<Prisma.BookingPolicyUpdateManyMutationInput, Prisma.BookingPolicyUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingPolicies to update
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * Limit how many BookingPolicies to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingPolicy updateManyAndReturn
+ */
+export type BookingPolicyUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingPolicies.
+   */
+  data: Prisma.XOR<Prisma.BookingPolicyUpdateManyMutationInput, Prisma.BookingPolicyUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingPolicies to update
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * Limit how many BookingPolicies to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingPolicy upsert
+ */
+export type BookingPolicyUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingPolicy to update in case it exists.
+   */
+  where: Prisma.BookingPolicyWhereUniqueInput
+  /**
+   * In case the BookingPolicy found by the `where` argument doesn't exist, create a new BookingPolicy with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingPolicyCreateInput, Prisma.BookingPolicyUncheckedCreateInput>
+  /**
+   * In case the BookingPolicy was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingPolicyUpdateInput, Prisma.BookingPolicyUncheckedUpdateInput>
+}
+
+/**
+ * BookingPolicy delete
+ */
+export type BookingPolicyDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  /**
+   * Filter which BookingPolicy to delete.
+   */
+  where: Prisma.BookingPolicyWhereUniqueInput
+}
+
+/**
+ * BookingPolicy deleteMany
+ */
+export type BookingPolicyDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingPolicies to delete
+   */
+  where?: Prisma.BookingPolicyWhereInput
+  /**
+   * Limit how many BookingPolicies to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingPolicy.building
+ */
+export type BookingPolicy$buildingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Building
+   */
+  select?: Prisma.BuildingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Building
+   */
+  omit?: Prisma.BuildingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BuildingInclude<ExtArgs> | null
+  where?: Prisma.BuildingWhereInput
+}
+
+/**
+ * BookingPolicy.room
+ */
+export type BookingPolicy$roomArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Room
+   */
+  select?: Prisma.RoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Room
+   */
+  omit?: Prisma.RoomOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomInclude<ExtArgs> | null
+  where?: Prisma.RoomWhereInput
+}
+
+/**
+ * BookingPolicy without action
+ */
+export type BookingPolicyDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+}
@@ -0,0 +1,1701 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `BookingSeries` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model BookingSeries
+ * 
+ */
+export type BookingSeriesModel = runtime.Types.Result.DefaultSelection<Prisma.$BookingSeriesPayload>
+
+export type AggregateBookingSeries = {
+  _count: BookingSeriesCountAggregateOutputType | null
+  _avg: BookingSeriesAvgAggregateOutputType | null
+  _sum: BookingSeriesSumAggregateOutputType | null
+  _min: BookingSeriesMinAggregateOutputType | null
+  _max: BookingSeriesMaxAggregateOutputType | null
+}
+
+export type BookingSeriesAvgAggregateOutputType = {
+  capacity: number | null
+  byWeekday: number | null
+  count: number | null
+}
+
+export type BookingSeriesSumAggregateOutputType = {
+  capacity: number | null
+  byWeekday: number[]
+  count: number | null
+}
+
+export type BookingSeriesMinAggregateOutputType = {
+  id: string | null
+  teacherId: string | null
+  roomId: string | null
+  branch: $Enums.Branch | null
+  capacity: number | null
+  until: Date | null
+  count: number | null
+  createdAt: Date | null
+}
+
+export type BookingSeriesMaxAggregateOutputType = {
+  id: string | null
+  teacherId: string | null
+  roomId: string | null
+  branch: $Enums.Branch | null
+  capacity: number | null
+  until: Date | null
+  count: number | null
+  createdAt: Date | null
+}
+
+export type BookingSeriesCountAggregateOutputType = {
+  id: number
+  teacherId: number
+  roomId: number
+  branch: number
+  capacity: number
+  byWeekday: number
+  until: number
+  count: number
+  createdAt: number
+  _all: number
+}
+
+
+export type BookingSeriesAvgAggregateInputType = {
+  capacity?: true
+  byWeekday?: true
+  count?: true
+}
+
+export type BookingSeriesSumAggregateInputType = {
+  capacity?: true
+  byWeekday?: true
+  count?: true
+}
+
+export type BookingSeriesMinAggregateInputType = {
+  id?: true
+  teacherId?: true
+  roomId?: true
+  branch?: true
+  capacity?: true
+  until?: true
+  count?: true
+  createdAt?: true
+}
+
+export type BookingSeriesMaxAggregateInputType = {
+  id?: true
+  teacherId?: true
+  roomId?: true
+  branch?: true
+  capacity?: true
+  until?: true
+  count?: true
+  createdAt?: true
+}
+
+export type BookingSeriesCountAggregateInputType = {
+  id?: true
+  teacherId?: true
+  roomId?: true
+  branch?: true
+  capacity?: true
+  byWeekday?: true
+  until?: true
+  count?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type BookingSeriesAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingSeries to aggregate.
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingSeries to fetch.
+   */
+  orderBy?: Prisma.BookingSeriesOrderByWithRelationInput | Prisma.BookingSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.BookingSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingSeries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned BookingSeries
+  **/
+  _count?: true | BookingSeriesCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: BookingSeriesAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: BookingSeriesSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: BookingSeriesMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: BookingSeriesMaxAggregateInputType
+}
+
+export type GetBookingSeriesAggregateType<T extends BookingSeriesAggregateArgs> = {
+      [P in keyof T & keyof AggregateBookingSeries]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateBookingSeries[P]>
+    : Prisma.GetScalarType<T[P], AggregateBookingSeries[P]>
+}
+
+
+
+
+export type BookingSeriesGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingSeriesWhereInput
+  orderBy?: Prisma.BookingSeriesOrderByWithAggregationInput | Prisma.BookingSeriesOrderByWithAggregationInput[]
+  by: Prisma.BookingSeriesScalarFieldEnum[] | Prisma.BookingSeriesScalarFieldEnum
+  having?: Prisma.BookingSeriesScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: BookingSeriesCountAggregateInputType | true
+  _avg?: BookingSeriesAvgAggregateInputType
+  _sum?: BookingSeriesSumAggregateInputType
+  _min?: BookingSeriesMinAggregateInputType
+  _max?: BookingSeriesMaxAggregateInputType
+}
+
+export type BookingSeriesGroupByOutputType = {
+  id: string
+  teacherId: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday: number[]
+  until: Date | null
+  count: number | null
+  createdAt: Date
+  _count: BookingSeriesCountAggregateOutputType | null
+  _avg: BookingSeriesAvgAggregateOutputType | null
+  _sum: BookingSeriesSumAggregateOutputType | null
+  _min: BookingSeriesMinAggregateOutputType | null
+  _max: BookingSeriesMaxAggregateOutputType | null
+}
+
+type GetBookingSeriesGroupByPayload<T extends BookingSeriesGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<BookingSeriesGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof BookingSeriesGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], BookingSeriesGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], BookingSeriesGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type BookingSeriesWhereInput = {
+  AND?: Prisma.BookingSeriesWhereInput | Prisma.BookingSeriesWhereInput[]
+  OR?: Prisma.BookingSeriesWhereInput[]
+  NOT?: Prisma.BookingSeriesWhereInput | Prisma.BookingSeriesWhereInput[]
+  id?: Prisma.StringFilter<"BookingSeries"> | string
+  teacherId?: Prisma.StringFilter<"BookingSeries"> | string
+  roomId?: Prisma.StringFilter<"BookingSeries"> | string
+  branch?: Prisma.EnumBranchFilter<"BookingSeries"> | $Enums.Branch
+  capacity?: Prisma.IntFilter<"BookingSeries"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"BookingSeries">
+  until?: Prisma.DateTimeNullableFilter<"BookingSeries"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"BookingSeries"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"BookingSeries"> | Date | string
+  teacher?: Prisma.XOR<Prisma.TeacherScalarRelationFilter, Prisma.TeacherWhereInput>
+  bookings?: Prisma.RoomBookingListRelationFilter
+}
+
+export type BookingSeriesOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  until?: Prisma.SortOrderInput | Prisma.SortOrder
+  count?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  teacher?: Prisma.TeacherOrderByWithRelationInput
+  bookings?: Prisma.RoomBookingOrderByRelationAggregateInput
+}
+
+export type BookingSeriesWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.BookingSeriesWhereInput | Prisma.BookingSeriesWhereInput[]
+  OR?: Prisma.BookingSeriesWhereInput[]
+  NOT?: Prisma.BookingSeriesWhereInput | Prisma.BookingSeriesWhereInput[]
+  teacherId?: Prisma.StringFilter<"BookingSeries"> | string
+  roomId?: Prisma.StringFilter<"BookingSeries"> | string
+  branch?: Prisma.EnumBranchFilter<"BookingSeries"> | $Enums.Branch
+  capacity?: Prisma.IntFilter<"BookingSeries"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"BookingSeries">
+  until?: Prisma.DateTimeNullableFilter<"BookingSeries"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"BookingSeries"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"BookingSeries"> | Date | string
+  teacher?: Prisma.XOR<Prisma.TeacherScalarRelationFilter, Prisma.TeacherWhereInput>
+  bookings?: Prisma.RoomBookingListRelationFilter
+}, "id">
+
+export type BookingSeriesOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  until?: Prisma.SortOrderInput | Prisma.SortOrder
+  count?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.BookingSeriesCountOrderByAggregateInput
+  _avg?: Prisma.BookingSeriesAvgOrderByAggregateInput
+  _max?: Prisma.BookingSeriesMaxOrderByAggregateInput
+  _min?: Prisma.BookingSeriesMinOrderByAggregateInput
+  _sum?: Prisma.BookingSeriesSumOrderByAggregateInput
+}
+
+export type BookingSeriesScalarWhereWithAggregatesInput = {
+  AND?: Prisma.BookingSeriesScalarWhereWithAggregatesInput | Prisma.BookingSeriesScalarWhereWithAggregatesInput[]
+  OR?: Prisma.BookingSeriesScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.BookingSeriesScalarWhereWithAggregatesInput | Prisma.BookingSeriesScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"BookingSeries"> | string
+  teacherId?: Prisma.StringWithAggregatesFilter<"BookingSeries"> | string
+  roomId?: Prisma.StringWithAggregatesFilter<"BookingSeries"> | string
+  branch?: Prisma.EnumBranchWithAggregatesFilter<"BookingSeries"> | $Enums.Branch
+  capacity?: Prisma.IntWithAggregatesFilter<"BookingSeries"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"BookingSeries">
+  until?: Prisma.DateTimeNullableWithAggregatesFilter<"BookingSeries"> | Date | string | null
+  count?: Prisma.IntNullableWithAggregatesFilter<"BookingSeries"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"BookingSeries"> | Date | string
+}
+
+export type BookingSeriesCreateInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+  teacher: Prisma.TeacherCreateNestedOneWithoutSeriesInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutSeriesInput
+}
+
+export type BookingSeriesUncheckedCreateInput = {
+  id?: string
+  teacherId: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type BookingSeriesUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  teacher?: Prisma.TeacherUpdateOneRequiredWithoutSeriesNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutSeriesNestedInput
+}
+
+export type BookingSeriesUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type BookingSeriesCreateManyInput = {
+  id?: string
+  teacherId: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+}
+
+export type BookingSeriesUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingSeriesUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingSeriesListRelationFilter = {
+  every?: Prisma.BookingSeriesWhereInput
+  some?: Prisma.BookingSeriesWhereInput
+  none?: Prisma.BookingSeriesWhereInput
+}
+
+export type BookingSeriesOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type BookingSeriesNullableScalarRelationFilter = {
+  is?: Prisma.BookingSeriesWhereInput | null
+  isNot?: Prisma.BookingSeriesWhereInput | null
+}
+
+export type IntNullableListFilter<$PrismaModel = never> = {
+  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type BookingSeriesCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  until?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingSeriesAvgOrderByAggregateInput = {
+  capacity?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+}
+
+export type BookingSeriesMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  until?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingSeriesMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  until?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type BookingSeriesSumOrderByAggregateInput = {
+  capacity?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+}
+
+export type BookingSeriesCreateNestedManyWithoutTeacherInput = {
+  create?: Prisma.XOR<Prisma.BookingSeriesCreateWithoutTeacherInput, Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput> | Prisma.BookingSeriesCreateWithoutTeacherInput[] | Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput | Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput[]
+  createMany?: Prisma.BookingSeriesCreateManyTeacherInputEnvelope
+  connect?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+}
+
+export type BookingSeriesUncheckedCreateNestedManyWithoutTeacherInput = {
+  create?: Prisma.XOR<Prisma.BookingSeriesCreateWithoutTeacherInput, Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput> | Prisma.BookingSeriesCreateWithoutTeacherInput[] | Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput | Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput[]
+  createMany?: Prisma.BookingSeriesCreateManyTeacherInputEnvelope
+  connect?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+}
+
+export type BookingSeriesUpdateManyWithoutTeacherNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingSeriesCreateWithoutTeacherInput, Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput> | Prisma.BookingSeriesCreateWithoutTeacherInput[] | Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput | Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput[]
+  upsert?: Prisma.BookingSeriesUpsertWithWhereUniqueWithoutTeacherInput | Prisma.BookingSeriesUpsertWithWhereUniqueWithoutTeacherInput[]
+  createMany?: Prisma.BookingSeriesCreateManyTeacherInputEnvelope
+  set?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  disconnect?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  delete?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  connect?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  update?: Prisma.BookingSeriesUpdateWithWhereUniqueWithoutTeacherInput | Prisma.BookingSeriesUpdateWithWhereUniqueWithoutTeacherInput[]
+  updateMany?: Prisma.BookingSeriesUpdateManyWithWhereWithoutTeacherInput | Prisma.BookingSeriesUpdateManyWithWhereWithoutTeacherInput[]
+  deleteMany?: Prisma.BookingSeriesScalarWhereInput | Prisma.BookingSeriesScalarWhereInput[]
+}
+
+export type BookingSeriesUncheckedUpdateManyWithoutTeacherNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingSeriesCreateWithoutTeacherInput, Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput> | Prisma.BookingSeriesCreateWithoutTeacherInput[] | Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput | Prisma.BookingSeriesCreateOrConnectWithoutTeacherInput[]
+  upsert?: Prisma.BookingSeriesUpsertWithWhereUniqueWithoutTeacherInput | Prisma.BookingSeriesUpsertWithWhereUniqueWithoutTeacherInput[]
+  createMany?: Prisma.BookingSeriesCreateManyTeacherInputEnvelope
+  set?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  disconnect?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  delete?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  connect?: Prisma.BookingSeriesWhereUniqueInput | Prisma.BookingSeriesWhereUniqueInput[]
+  update?: Prisma.BookingSeriesUpdateWithWhereUniqueWithoutTeacherInput | Prisma.BookingSeriesUpdateWithWhereUniqueWithoutTeacherInput[]
+  updateMany?: Prisma.BookingSeriesUpdateManyWithWhereWithoutTeacherInput | Prisma.BookingSeriesUpdateManyWithWhereWithoutTeacherInput[]
+  deleteMany?: Prisma.BookingSeriesScalarWhereInput | Prisma.BookingSeriesScalarWhereInput[]
+}
+
+export type BookingSeriesCreateNestedOneWithoutBookingsInput = {
+  create?: Prisma.XOR<Prisma.BookingSeriesCreateWithoutBookingsInput, Prisma.BookingSeriesUncheckedCreateWithoutBookingsInput>
+  connectOrCreate?: Prisma.BookingSeriesCreateOrConnectWithoutBookingsInput
+  connect?: Prisma.BookingSeriesWhereUniqueInput
+}
+
+export type BookingSeriesUpdateOneWithoutBookingsNestedInput = {
+  create?: Prisma.XOR<Prisma.BookingSeriesCreateWithoutBookingsInput, Prisma.BookingSeriesUncheckedCreateWithoutBookingsInput>
+  connectOrCreate?: Prisma.BookingSeriesCreateOrConnectWithoutBookingsInput
+  upsert?: Prisma.BookingSeriesUpsertWithoutBookingsInput
+  disconnect?: Prisma.BookingSeriesWhereInput | boolean
+  delete?: Prisma.BookingSeriesWhereInput | boolean
+  connect?: Prisma.BookingSeriesWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BookingSeriesUpdateToOneWithWhereWithoutBookingsInput, Prisma.BookingSeriesUpdateWithoutBookingsInput>, Prisma.BookingSeriesUncheckedUpdateWithoutBookingsInput>
+}
+
+export type BookingSeriesCreatebyWeekdayInput = {
+  set: number[]
+}
+
+export type BookingSeriesUpdatebyWeekdayInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
+export type BookingSeriesCreateWithoutTeacherInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutSeriesInput
+}
+
+export type BookingSeriesUncheckedCreateWithoutTeacherInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type BookingSeriesCreateOrConnectWithoutTeacherInput = {
+  where: Prisma.BookingSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingSeriesCreateWithoutTeacherInput, Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput>
+}
+
+export type BookingSeriesCreateManyTeacherInputEnvelope = {
+  data: Prisma.BookingSeriesCreateManyTeacherInput | Prisma.BookingSeriesCreateManyTeacherInput[]
+  skipDuplicates?: boolean
+}
+
+export type BookingSeriesUpsertWithWhereUniqueWithoutTeacherInput = {
+  where: Prisma.BookingSeriesWhereUniqueInput
+  update: Prisma.XOR<Prisma.BookingSeriesUpdateWithoutTeacherInput, Prisma.BookingSeriesUncheckedUpdateWithoutTeacherInput>
+  create: Prisma.XOR<Prisma.BookingSeriesCreateWithoutTeacherInput, Prisma.BookingSeriesUncheckedCreateWithoutTeacherInput>
+}
+
+export type BookingSeriesUpdateWithWhereUniqueWithoutTeacherInput = {
+  where: Prisma.BookingSeriesWhereUniqueInput
+  data: Prisma.XOR<Prisma.BookingSeriesUpdateWithoutTeacherInput, Prisma.BookingSeriesUncheckedUpdateWithoutTeacherInput>
+}
+
+export type BookingSeriesUpdateManyWithWhereWithoutTeacherInput = {
+  where: Prisma.BookingSeriesScalarWhereInput
+  data: Prisma.XOR<Prisma.BookingSeriesUpdateManyMutationInput, Prisma.BookingSeriesUncheckedUpdateManyWithoutTeacherInput>
+}
+
+export type BookingSeriesScalarWhereInput = {
+  AND?: Prisma.BookingSeriesScalarWhereInput | Prisma.BookingSeriesScalarWhereInput[]
+  OR?: Prisma.BookingSeriesScalarWhereInput[]
+  NOT?: Prisma.BookingSeriesScalarWhereInput | Prisma.BookingSeriesScalarWhereInput[]
+  id?: Prisma.StringFilter<"BookingSeries"> | string
+  teacherId?: Prisma.StringFilter<"BookingSeries"> | string
+  roomId?: Prisma.StringFilter<"BookingSeries"> | string
+  branch?: Prisma.EnumBranchFilter<"BookingSeries"> | $Enums.Branch
+  capacity?: Prisma.IntFilter<"BookingSeries"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"BookingSeries">
+  until?: Prisma.DateTimeNullableFilter<"BookingSeries"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"BookingSeries"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"BookingSeries"> | Date | string
+}
+
+export type BookingSeriesCreateWithoutBookingsInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+  teacher: Prisma.TeacherCreateNestedOneWithoutSeriesInput
+}
+
+export type BookingSeriesUncheckedCreateWithoutBookingsInput = {
+  id?: string
+  teacherId: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+}
+
+export type BookingSeriesCreateOrConnectWithoutBookingsInput = {
+  where: Prisma.BookingSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.BookingSeriesCreateWithoutBookingsInput, Prisma.BookingSeriesUncheckedCreateWithoutBookingsInput>
+}
+
+export type BookingSeriesUpsertWithoutBookingsInput = {
+  update: Prisma.XOR<Prisma.BookingSeriesUpdateWithoutBookingsInput, Prisma.BookingSeriesUncheckedUpdateWithoutBookingsInput>
+  create: Prisma.XOR<Prisma.BookingSeriesCreateWithoutBookingsInput, Prisma.BookingSeriesUncheckedCreateWithoutBookingsInput>
+  where?: Prisma.BookingSeriesWhereInput
+}
+
+export type BookingSeriesUpdateToOneWithWhereWithoutBookingsInput = {
+  where?: Prisma.BookingSeriesWhereInput
+  data: Prisma.XOR<Prisma.BookingSeriesUpdateWithoutBookingsInput, Prisma.BookingSeriesUncheckedUpdateWithoutBookingsInput>
+}
+
+export type BookingSeriesUpdateWithoutBookingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  teacher?: Prisma.TeacherUpdateOneRequiredWithoutSeriesNestedInput
+}
+
+export type BookingSeriesUncheckedUpdateWithoutBookingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type BookingSeriesCreateManyTeacherInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  byWeekday?: Prisma.BookingSeriesCreatebyWeekdayInput | number[]
+  until?: Date | string | null
+  count?: number | null
+  createdAt?: Date | string
+}
+
+export type BookingSeriesUpdateWithoutTeacherInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookings?: Prisma.RoomBookingUpdateManyWithoutSeriesNestedInput
+}
+
+export type BookingSeriesUncheckedUpdateWithoutTeacherInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type BookingSeriesUncheckedUpdateManyWithoutTeacherInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.BookingSeriesUpdatebyWeekdayInput | number[]
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type BookingSeriesCountOutputType
+ */
+
+export type BookingSeriesCountOutputType = {
+  bookings: number
+}
+
+export type BookingSeriesCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  bookings?: boolean | BookingSeriesCountOutputTypeCountBookingsArgs
+}
+
+/**
+ * BookingSeriesCountOutputType without action
+ */
+export type BookingSeriesCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeriesCountOutputType
+   */
+  select?: Prisma.BookingSeriesCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * BookingSeriesCountOutputType without action
+ */
+export type BookingSeriesCountOutputTypeCountBookingsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RoomBookingWhereInput
+}
+
+
+export type BookingSeriesSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  teacherId?: boolean
+  roomId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  byWeekday?: boolean
+  until?: boolean
+  count?: boolean
+  createdAt?: boolean
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  bookings?: boolean | Prisma.BookingSeries$bookingsArgs<ExtArgs>
+  _count?: boolean | Prisma.BookingSeriesCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingSeries"]>
+
+export type BookingSeriesSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  teacherId?: boolean
+  roomId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  byWeekday?: boolean
+  until?: boolean
+  count?: boolean
+  createdAt?: boolean
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingSeries"]>
+
+export type BookingSeriesSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  teacherId?: boolean
+  roomId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  byWeekday?: boolean
+  until?: boolean
+  count?: boolean
+  createdAt?: boolean
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["bookingSeries"]>
+
+export type BookingSeriesSelectScalar = {
+  id?: boolean
+  teacherId?: boolean
+  roomId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  byWeekday?: boolean
+  until?: boolean
+  count?: boolean
+  createdAt?: boolean
+}
+
+export type BookingSeriesOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "teacherId" | "roomId" | "branch" | "capacity" | "byWeekday" | "until" | "count" | "createdAt", ExtArgs["result"]["bookingSeries"]>
+export type BookingSeriesInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  bookings?: boolean | Prisma.BookingSeries$bookingsArgs<ExtArgs>
+  _count?: boolean | Prisma.BookingSeriesCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type BookingSeriesIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}
+export type BookingSeriesIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}
+
+export type $BookingSeriesPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "BookingSeries"
+  objects: {
+    teacher: Prisma.$TeacherPayload<ExtArgs>
+    bookings: Prisma.$RoomBookingPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    teacherId: string
+    roomId: string
+    branch: $Enums.Branch
+    capacity: number
+    byWeekday: number[]
+    until: Date | null
+    count: number | null
+    createdAt: Date
+  }, ExtArgs["result"]["bookingSeries"]>
+  composites: {}
+}
+
+export type BookingSeriesGetPayload<S extends boolean | null | undefined | BookingSeriesDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload, S>
+
+export type BookingSeriesCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<BookingSeriesFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: BookingSeriesCountAggregateInputType | true
+  }
+
+export interface BookingSeriesDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['BookingSeries'], meta: { name: 'BookingSeries' } }
+  /**
+   * Find zero or one BookingSeries that matches the filter.
+   * @param {BookingSeriesFindUniqueArgs} args - Arguments to find a BookingSeries
+   * @example
+   * // Get one BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends BookingSeriesFindUniqueArgs>(args: Prisma.SelectSubset<T, BookingSeriesFindUniqueArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one BookingSeries that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {BookingSeriesFindUniqueOrThrowArgs} args - Arguments to find a BookingSeries
+   * @example
+   * // Get one BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends BookingSeriesFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, BookingSeriesFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingSeries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesFindFirstArgs} args - Arguments to find a BookingSeries
+   * @example
+   * // Get one BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends BookingSeriesFindFirstArgs>(args?: Prisma.SelectSubset<T, BookingSeriesFindFirstArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first BookingSeries that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesFindFirstOrThrowArgs} args - Arguments to find a BookingSeries
+   * @example
+   * // Get one BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends BookingSeriesFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, BookingSeriesFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more BookingSeries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.findMany()
+   * 
+   * // Get first 10 BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const bookingSeriesWithIdOnly = await prisma.bookingSeries.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends BookingSeriesFindManyArgs>(args?: Prisma.SelectSubset<T, BookingSeriesFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a BookingSeries.
+   * @param {BookingSeriesCreateArgs} args - Arguments to create a BookingSeries.
+   * @example
+   * // Create one BookingSeries
+   * const BookingSeries = await prisma.bookingSeries.create({
+   *   data: {
+   *     // ... data to create a BookingSeries
+   *   }
+   * })
+   * 
+   */
+  create<T extends BookingSeriesCreateArgs>(args: Prisma.SelectSubset<T, BookingSeriesCreateArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many BookingSeries.
+   * @param {BookingSeriesCreateManyArgs} args - Arguments to create many BookingSeries.
+   * @example
+   * // Create many BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends BookingSeriesCreateManyArgs>(args?: Prisma.SelectSubset<T, BookingSeriesCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many BookingSeries and returns the data saved in the database.
+   * @param {BookingSeriesCreateManyAndReturnArgs} args - Arguments to create many BookingSeries.
+   * @example
+   * // Create many BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many BookingSeries and only return the `id`
+   * const bookingSeriesWithIdOnly = await prisma.bookingSeries.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends BookingSeriesCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, BookingSeriesCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a BookingSeries.
+   * @param {BookingSeriesDeleteArgs} args - Arguments to delete one BookingSeries.
+   * @example
+   * // Delete one BookingSeries
+   * const BookingSeries = await prisma.bookingSeries.delete({
+   *   where: {
+   *     // ... filter to delete one BookingSeries
+   *   }
+   * })
+   * 
+   */
+  delete<T extends BookingSeriesDeleteArgs>(args: Prisma.SelectSubset<T, BookingSeriesDeleteArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one BookingSeries.
+   * @param {BookingSeriesUpdateArgs} args - Arguments to update one BookingSeries.
+   * @example
+   * // Update one BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends BookingSeriesUpdateArgs>(args: Prisma.SelectSubset<T, BookingSeriesUpdateArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more BookingSeries.
+   * @param {BookingSeriesDeleteManyArgs} args - Arguments to filter BookingSeries to delete.
+   * @example
+   * // Delete a few BookingSeries
+   * const { count } = await prisma.bookingSeries.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends BookingSeriesDeleteManyArgs>(args?: Prisma.SelectSubset<T, BookingSeriesDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends BookingSeriesUpdateManyArgs>(args: Prisma.SelectSubset<T, BookingSeriesUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more BookingSeries and returns the data updated in the database.
+   * @param {BookingSeriesUpdateManyAndReturnArgs} args - Arguments to update many BookingSeries.
+   * @example
+   * // Update many BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more BookingSeries and only return the `id`
+   * const bookingSeriesWithIdOnly = await prisma.bookingSeries.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends BookingSeriesUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, BookingSeriesUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one BookingSeries.
+   * @param {BookingSeriesUpsertArgs} args - Arguments to update or create a BookingSeries.
+   * @example
+   * // Update or create a BookingSeries
+   * const bookingSeries = await prisma.bookingSeries.upsert({
+   *   create: {
+   *     // ... data to create a BookingSeries
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the BookingSeries we want to update
+   *   }
+   * })
+   */
+  upsert<T extends BookingSeriesUpsertArgs>(args: Prisma.SelectSubset<T, BookingSeriesUpsertArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of BookingSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesCountArgs} args - Arguments to filter BookingSeries to count.
+   * @example
+   * // Count the number of BookingSeries
+   * const count = await prisma.bookingSeries.count({
+   *   where: {
+   *     // ... the filter for the BookingSeries we want to count
+   *   }
+   * })
+  **/
+  count<T extends BookingSeriesCountArgs>(
+    args?: Prisma.Subset<T, BookingSeriesCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], BookingSeriesCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a BookingSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends BookingSeriesAggregateArgs>(args: Prisma.Subset<T, BookingSeriesAggregateArgs>): Prisma.PrismaPromise<GetBookingSeriesAggregateType<T>>
+
+  /**
+   * Group by BookingSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {BookingSeriesGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends BookingSeriesGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: BookingSeriesGroupByArgs['orderBy'] }
+      : { orderBy?: BookingSeriesGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, BookingSeriesGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetBookingSeriesGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the BookingSeries model
+ */
+readonly fields: BookingSeriesFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for BookingSeries.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__BookingSeriesClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  teacher<T extends Prisma.TeacherDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TeacherDefaultArgs<ExtArgs>>): Prisma.Prisma__TeacherClient<runtime.Types.Result.GetResult<Prisma.$TeacherPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  bookings<T extends Prisma.BookingSeries$bookingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BookingSeries$bookingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBookingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the BookingSeries model
+ */
+export interface BookingSeriesFieldRefs {
+  readonly id: Prisma.FieldRef<"BookingSeries", 'String'>
+  readonly teacherId: Prisma.FieldRef<"BookingSeries", 'String'>
+  readonly roomId: Prisma.FieldRef<"BookingSeries", 'String'>
+  readonly branch: Prisma.FieldRef<"BookingSeries", 'Branch'>
+  readonly capacity: Prisma.FieldRef<"BookingSeries", 'Int'>
+  readonly byWeekday: Prisma.FieldRef<"BookingSeries", 'Int[]'>
+  readonly until: Prisma.FieldRef<"BookingSeries", 'DateTime'>
+  readonly count: Prisma.FieldRef<"BookingSeries", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"BookingSeries", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * BookingSeries findUnique
+ */
+export type BookingSeriesFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingSeries to fetch.
+   */
+  where: Prisma.BookingSeriesWhereUniqueInput
+}
+
+/**
+ * BookingSeries findUniqueOrThrow
+ */
+export type BookingSeriesFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingSeries to fetch.
+   */
+  where: Prisma.BookingSeriesWhereUniqueInput
+}
+
+/**
+ * BookingSeries findFirst
+ */
+export type BookingSeriesFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingSeries to fetch.
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingSeries to fetch.
+   */
+  orderBy?: Prisma.BookingSeriesOrderByWithRelationInput | Prisma.BookingSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingSeries.
+   */
+  cursor?: Prisma.BookingSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingSeries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingSeries.
+   */
+  distinct?: Prisma.BookingSeriesScalarFieldEnum | Prisma.BookingSeriesScalarFieldEnum[]
+}
+
+/**
+ * BookingSeries findFirstOrThrow
+ */
+export type BookingSeriesFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingSeries to fetch.
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingSeries to fetch.
+   */
+  orderBy?: Prisma.BookingSeriesOrderByWithRelationInput | Prisma.BookingSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for BookingSeries.
+   */
+  cursor?: Prisma.BookingSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingSeries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of BookingSeries.
+   */
+  distinct?: Prisma.BookingSeriesScalarFieldEnum | Prisma.BookingSeriesScalarFieldEnum[]
+}
+
+/**
+ * BookingSeries findMany
+ */
+export type BookingSeriesFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which BookingSeries to fetch.
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of BookingSeries to fetch.
+   */
+  orderBy?: Prisma.BookingSeriesOrderByWithRelationInput | Prisma.BookingSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing BookingSeries.
+   */
+  cursor?: Prisma.BookingSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` BookingSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` BookingSeries.
+   */
+  skip?: number
+  distinct?: Prisma.BookingSeriesScalarFieldEnum | Prisma.BookingSeriesScalarFieldEnum[]
+}
+
+/**
+ * BookingSeries create
+ */
+export type BookingSeriesCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * The data needed to create a BookingSeries.
+   */
+  data: Prisma.XOR<Prisma.BookingSeriesCreateInput, Prisma.BookingSeriesUncheckedCreateInput>
+}
+
+/**
+ * BookingSeries createMany
+ */
+export type BookingSeriesCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many BookingSeries.
+   */
+  data: Prisma.BookingSeriesCreateManyInput | Prisma.BookingSeriesCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * BookingSeries createManyAndReturn
+ */
+export type BookingSeriesCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * The data used to create many BookingSeries.
+   */
+  data: Prisma.BookingSeriesCreateManyInput | Prisma.BookingSeriesCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingSeries update
+ */
+export type BookingSeriesUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * The data needed to update a BookingSeries.
+   */
+  data: Prisma.XOR<Prisma.BookingSeriesUpdateInput, Prisma.BookingSeriesUncheckedUpdateInput>
+  /**
+   * Choose, which BookingSeries to update.
+   */
+  where: Prisma.BookingSeriesWhereUniqueInput
+}
+
+/**
+ * BookingSeries updateMany
+ */
+export type BookingSeriesUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update BookingSeries.
+   */
+  data: Prisma.XOR<Prisma.BookingSeriesUpdateManyMutationInput, Prisma.BookingSeriesUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingSeries to update
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * Limit how many BookingSeries to update.
+   */
+  limit?: number
+}
+
+/**
+ * BookingSeries updateManyAndReturn
+ */
+export type BookingSeriesUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * The data used to update BookingSeries.
+   */
+  data: Prisma.XOR<Prisma.BookingSeriesUpdateManyMutationInput, Prisma.BookingSeriesUncheckedUpdateManyInput>
+  /**
+   * Filter which BookingSeries to update
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * Limit how many BookingSeries to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * BookingSeries upsert
+ */
+export type BookingSeriesUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * The filter to search for the BookingSeries to update in case it exists.
+   */
+  where: Prisma.BookingSeriesWhereUniqueInput
+  /**
+   * In case the BookingSeries found by the `where` argument doesn't exist, create a new BookingSeries with this data.
+   */
+  create: Prisma.XOR<Prisma.BookingSeriesCreateInput, Prisma.BookingSeriesUncheckedCreateInput>
+  /**
+   * In case the BookingSeries was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.BookingSeriesUpdateInput, Prisma.BookingSeriesUncheckedUpdateInput>
+}
+
+/**
+ * BookingSeries delete
+ */
+export type BookingSeriesDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  /**
+   * Filter which BookingSeries to delete.
+   */
+  where: Prisma.BookingSeriesWhereUniqueInput
+}
+
+/**
+ * BookingSeries deleteMany
+ */
+export type BookingSeriesDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which BookingSeries to delete
+   */
+  where?: Prisma.BookingSeriesWhereInput
+  /**
+   * Limit how many BookingSeries to delete.
+   */
+  limit?: number
+}
+
+/**
+ * BookingSeries.bookings
+ */
+export type BookingSeries$bookingsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBooking
+   */
+  select?: Prisma.RoomBookingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBooking
+   */
+  omit?: Prisma.RoomBookingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBookingInclude<ExtArgs> | null
+  where?: Prisma.RoomBookingWhereInput
+  orderBy?: Prisma.RoomBookingOrderByWithRelationInput | Prisma.RoomBookingOrderByWithRelationInput[]
+  cursor?: Prisma.RoomBookingWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RoomBookingScalarFieldEnum | Prisma.RoomBookingScalarFieldEnum[]
+}
+
+/**
+ * BookingSeries without action
+ */
+export type BookingSeriesDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+}
@@ -27,10 +27,14 @@ export type AggregateBuilding = {
 
 export type BuildingAvgAggregateOutputType = {
   distance: number | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
 }
 
 export type BuildingSumAggregateOutputType = {
   distance: number | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
 }
 
 export type BuildingMinAggregateOutputType = {
@@ -39,6 +43,9 @@ export type BuildingMinAggregateOutputType = {
   code: string | null
   blockId: string | null
   distance: number | null
+  stepFreeEntrance: boolean | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -49,6 +56,9 @@ export type BuildingMaxAggregateOutputType = {
   code: string | null
   blockId: string | null
   distance: number | null
+  stepFreeEntrance: boolean | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -59,6 +69,9 @@ export type BuildingCountAggregateOutputType = {
   code: number
   blockId: number
   distance: number
+  stepFreeEntrance: number
+  bufferBeforeMinutes: number
+  bufferAfterMinutes: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -67,10 +80,14 @@ export type BuildingCountAggregateOutputType = {
 
 export type BuildingAvgAggregateInputType = {
   distance?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
 }
 
 export type BuildingSumAggregateInputType = {
   distance?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
 }
 
 export type BuildingMinAggregateInputType = {
@@ -79,6 +96,9 @@ export type BuildingMinAggregateInputType = {
   code?: true
   blockId?: true
   distance?: true
+  stepFreeEntrance?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -89,6 +109,9 @@ export type BuildingMaxAggregateInputType = {
   code?: true
   blockId?: true
   distance?: true
+  stepFreeEntrance?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -99,6 +122,9 @@ export type BuildingCountAggregateInputType = {
   code?: true
   blockId?: true
   distance?: true
+  stepFreeEntrance?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -196,6 +222,9 @@ export type BuildingGroupByOutputType = {
   code: string
   blockId: string
   distance: number
+  stepFreeEntrance: boolean
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
   createdAt: Date
   updatedAt: Date
   _count: BuildingCountAggregateOutputType | null
@@ -229,9 +258,13 @@ export type BuildingWhereInput = {
   code?: Prisma.StringFilter<"Building"> | string
   blockId?: Prisma.StringFilter<"Building"> | string
   distance?: Prisma.FloatFilter<"Building"> | number
+  stepFreeEntrance?: Prisma.BoolFilter<"Building"> | boolean
+  bufferBeforeMinutes?: Prisma.IntNullableFilter<"Building"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableFilter<"Building"> | number | null
   createdAt?: Prisma.DateTimeFilter<"Building"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Building"> | Date | string
   block?: Prisma.XOR<Prisma.BlockScalarRelationFilter, Prisma.BlockWhereInput>
+  bookingPolicy?: Prisma.XOR<Prisma.BookingPolicyNullableScalarRelationFilter, Prisma.BookingPolicyWhereInput> | null
   floors?: Prisma.FloorListRelationFilter
   rooms?: Prisma.RoomListRelationFilter
 }
@@ -242,9 +275,13 @@ export type BuildingOrderByWithRelationInput = {
   code?: Prisma.SortOrder
   blockId?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeEntrance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   block?: Prisma.BlockOrderByWithRelationInput
+  bookingPolicy?: Prisma.BookingPolicyOrderByWithRelationInput
   floors?: Prisma.FloorOrderByRelationAggregateInput
   rooms?: Prisma.RoomOrderByRelationAggregateInput
 }
@@ -258,9 +295,13 @@ export type BuildingWhereUniqueInput = Prisma.AtLeast<{
   name?: Prisma.StringFilter<"Building"> | string
   blockId?: Prisma.StringFilter<"Building"> | string
   distance?: Prisma.FloatFilter<"Building"> | number
+  stepFreeEntrance?: Prisma.BoolFilter<"Building"> | boolean
+  bufferBeforeMinutes?: Prisma.IntNullableFilter<"Building"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableFilter<"Building"> | number | null
   createdAt?: Prisma.DateTimeFilter<"Building"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Building"> | Date | string
   block?: Prisma.XOR<Prisma.BlockScalarRelationFilter, Prisma.BlockWhereInput>
+  bookingPolicy?: Prisma.XOR<Prisma.BookingPolicyNullableScalarRelationFilter, Prisma.BookingPolicyWhereInput> | null
   floors?: Prisma.FloorListRelationFilter
   rooms?: Prisma.RoomListRelationFilter
 }, "id" | "code">
@@ -271,6 +312,9 @@ export type BuildingOrderByWithAggregationInput = {
   code?: Prisma.SortOrder
   blockId?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeEntrance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.BuildingCountOrderByAggregateInput
@@ -289,6 +333,9 @@ export type BuildingScalarWhereWithAggregatesInput = {
   code?: Prisma.StringWithAggregatesFilter<"Building"> | string
   blockId?: Prisma.StringWithAggregatesFilter<"Building"> | string
   distance?: Prisma.FloatWithAggregatesFilter<"Building"> | number
+  stepFreeEntrance?: Prisma.BoolWithAggregatesFilter<"Building"> | boolean
+  bufferBeforeMinutes?: Prisma.IntNullableWithAggregatesFilter<"Building"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableWithAggregatesFilter<"Building"> | number | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Building"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Building"> | Date | string
 }
@@ -298,9 +345,13 @@ export type BuildingCreateInput = {
   name: string
   code: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
   block: Prisma.BlockCreateNestedOneWithoutBuildingsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutBuildingInput
   floors?: Prisma.FloorCreateNestedManyWithoutBuildingInput
   rooms?: Prisma.RoomCreateNestedManyWithoutBuildingInput
 }
@@ -311,8 +362,12 @@ export type BuildingUncheckedCreateInput = {
   code: string
   blockId: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutBuildingInput
   floors?: Prisma.FloorUncheckedCreateNestedManyWithoutBuildingInput
   rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutBuildingInput
 }
@@ -322,9 +377,13 @@ export type BuildingUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   block?: Prisma.BlockUpdateOneRequiredWithoutBuildingsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutBuildingNestedInput
   floors?: Prisma.FloorUpdateManyWithoutBuildingNestedInput
   rooms?: Prisma.RoomUpdateManyWithoutBuildingNestedInput
 }
@@ -335,8 +394,12 @@ export type BuildingUncheckedUpdateInput = {
   code?: Prisma.StringFieldUpdateOperationsInput | string
   blockId?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutBuildingNestedInput
   floors?: Prisma.FloorUncheckedUpdateManyWithoutBuildingNestedInput
   rooms?: Prisma.RoomUncheckedUpdateManyWithoutBuildingNestedInput
 }
@@ -347,6 +410,9 @@ export type BuildingCreateManyInput = {
   code: string
   blockId: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -356,6 +422,9 @@ export type BuildingUpdateManyMutationInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -366,6 +435,9 @@ export type BuildingUncheckedUpdateManyInput = {
   code?: Prisma.StringFieldUpdateOperationsInput | string
   blockId?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -386,12 +458,17 @@ export type BuildingCountOrderByAggregateInput = {
   code?: Prisma.SortOrder
   blockId?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeEntrance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type BuildingAvgOrderByAggregateInput = {
   distance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
 }
 
 export type BuildingMaxOrderByAggregateInput = {
@@ -400,6 +477,9 @@ export type BuildingMaxOrderByAggregateInput = {
   code?: Prisma.SortOrder
   blockId?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeEntrance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -410,12 +490,17 @@ export type BuildingMinOrderByAggregateInput = {
   code?: Prisma.SortOrder
   blockId?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeEntrance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type BuildingSumOrderByAggregateInput = {
   distance?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
 }
 
 export type BuildingScalarRelationFilter = {
@@ -423,6 +508,11 @@ export type BuildingScalarRelationFilter = {
   isNot?: Prisma.BuildingWhereInput
 }
 
+export type BuildingNullableScalarRelationFilter = {
+  is?: Prisma.BuildingWhereInput | null
+  isNot?: Prisma.BuildingWhereInput | null
+}
+
 export type BuildingCreateNestedManyWithoutBlockInput = {
   create?: Prisma.XOR<Prisma.BuildingCreateWithoutBlockInput, Prisma.BuildingUncheckedCreateWithoutBlockInput> | Prisma.BuildingCreateWithoutBlockInput[] | Prisma.BuildingUncheckedCreateWithoutBlockInput[]
   connectOrCreate?: Prisma.BuildingCreateOrConnectWithoutBlockInput | Prisma.BuildingCreateOrConnectWithoutBlockInput[]
@@ -465,6 +555,18 @@ export type BuildingUncheckedUpdateManyWithoutBlockNestedInput = {
   deleteMany?: Prisma.BuildingScalarWhereInput | Prisma.BuildingScalarWhereInput[]
 }
 
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
 export type BuildingCreateNestedOneWithoutFloorsInput = {
   create?: Prisma.XOR<Prisma.BuildingCreateWithoutFloorsInput, Prisma.BuildingUncheckedCreateWithoutFloorsInput>
   connectOrCreate?: Prisma.BuildingCreateOrConnectWithoutFloorsInput
@@ -493,13 +595,33 @@ export type BuildingUpdateOneRequiredWithoutRoomsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.BuildingUpdateToOneWithWhereWithoutRoomsInput, Prisma.BuildingUpdateWithoutRoomsInput>, Prisma.BuildingUncheckedUpdateWithoutRoomsInput>
 }
 
+export type BuildingCreateNestedOneWithoutBookingPolicyInput = {
+  create?: Prisma.XOR<Prisma.BuildingCreateWithoutBookingPolicyInput, Prisma.BuildingUncheckedCreateWithoutBookingPolicyInput>
+  connectOrCreate?: Prisma.BuildingCreateOrConnectWithoutBookingPolicyInput
+  connect?: Prisma.BuildingWhereUniqueInput
+}
+
+export type BuildingUpdateOneWithoutBookingPolicyNestedInput = {
+  create?: Prisma.XOR<Prisma.BuildingCreateWithoutBookingPolicyInput, Prisma.BuildingUncheckedCreateWithoutBookingPolicyInput>
+  connectOrCreate?: Prisma.BuildingCreateOrConnectWithoutBookingPolicyInput
+  upsert?: Prisma.BuildingUpsertWithoutBookingPolicyInput
+  disconnect?: Prisma.BuildingWhereInput | boolean
+  delete?: Prisma.BuildingWhereInput | boolean
+  connect?: Prisma.BuildingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BuildingUpdateToOneWithWhereWithoutBookingPolicyInput, Prisma.BuildingUpdateWithoutBookingPolicyInput>, Prisma.BuildingUncheckedUpdateWithoutBookingPolicyInput>
+}
+
 export type BuildingCreateWithoutBlockInput = {
   id?: string
   name: string
   code: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutBuildingInput
   floors?: Prisma.FloorCreateNestedManyWithoutBuildingInput
   rooms?: Prisma.RoomCreateNestedManyWithoutBuildingInput
 }
@@ -509,8 +631,12 @@ export type BuildingUncheckedCreateWithoutBlockInput = {
   name: string
   code: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutBuildingInput
   floors?: Prisma.FloorUncheckedCreateNestedManyWithoutBuildingInput
   rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutBuildingInput
 }
@@ -550,6 +676,9 @@ export type BuildingScalarWhereInput = {
   code?: Prisma.StringFilter<"Building"> | string
   blockId?: Prisma.StringFilter<"Building"> | string
   distance?: Prisma.FloatFilter<"Building"> | number
+  stepFreeEntrance?: Prisma.BoolFilter<"Building"> | boolean
+  bufferBeforeMinutes?: Prisma.IntNullableFilter<"Building"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableFilter<"Building"> | number | null
   createdAt?: Prisma.DateTimeFilter<"Building"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Building"> | Date | string
 }
@@ -559,9 +688,13 @@ export type BuildingCreateWithoutFloorsInput = {
   name: string
   code: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
   block: Prisma.BlockCreateNestedOneWithoutBuildingsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutBuildingInput
   rooms?: Prisma.RoomCreateNestedManyWithoutBuildingInput
 }
 
@@ -571,8 +704,12 @@ export type BuildingUncheckedCreateWithoutFloorsInput = {
   code: string
   blockId: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutBuildingInput
   rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutBuildingInput
 }
 
@@ -597,9 +734,13 @@ export type BuildingUpdateWithoutFloorsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   block?: Prisma.BlockUpdateOneRequiredWithoutBuildingsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutBuildingNestedInput
   rooms?: Prisma.RoomUpdateManyWithoutBuildingNestedInput
 }
 
@@ -609,8 +750,12 @@ export type BuildingUncheckedUpdateWithoutFloorsInput = {
   code?: Prisma.StringFieldUpdateOperationsInput | string
   blockId?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutBuildingNestedInput
   rooms?: Prisma.RoomUncheckedUpdateManyWithoutBuildingNestedInput
 }
 
@@ -619,9 +764,13 @@ export type BuildingCreateWithoutRoomsInput = {
   name: string
   code: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
   block: Prisma.BlockCreateNestedOneWithoutBuildingsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutBuildingInput
   floors?: Prisma.FloorCreateNestedManyWithoutBuildingInput
 }
 
@@ -631,8 +780,12 @@ export type BuildingUncheckedCreateWithoutRoomsInput = {
   code: string
   blockId: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutBuildingInput
   floors?: Prisma.FloorUncheckedCreateNestedManyWithoutBuildingInput
 }
 
@@ -657,9 +810,13 @@ export type BuildingUpdateWithoutRoomsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   block?: Prisma.BlockUpdateOneRequiredWithoutBuildingsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutBuildingNestedInput
   floors?: Prisma.FloorUpdateManyWithoutBuildingNestedInput
 }
 
@@ -669,9 +826,89 @@ export type BuildingUncheckedUpdateWithoutRoomsInput = {
   code?: Prisma.StringFieldUpdateOperationsInput | string
   blockId?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutBuildingNestedInput
+  floors?: Prisma.FloorUncheckedUpdateManyWithoutBuildingNestedInput
+}
+
+export type BuildingCreateWithoutBookingPolicyInput = {
+  id?: string
+  name: string
+  code: string
+  distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  block: Prisma.BlockCreateNestedOneWithoutBuildingsInput
+  floors?: Prisma.FloorCreateNestedManyWithoutBuildingInput
+  rooms?: Prisma.RoomCreateNestedManyWithoutBuildingInput
+}
+
+export type BuildingUncheckedCreateWithoutBookingPolicyInput = {
+  id?: string
+  name: string
+  code: string
+  blockId: string
+  distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  floors?: Prisma.FloorUncheckedCreateNestedManyWithoutBuildingInput
+  rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutBuildingInput
+}
+
+export type BuildingCreateOrConnectWithoutBookingPolicyInput = {
+  where: Prisma.BuildingWhereUniqueInput
+  create: Prisma.XOR<Prisma.BuildingCreateWithoutBookingPolicyInput, Prisma.BuildingUncheckedCreateWithoutBookingPolicyInput>
+}
+
+export type BuildingUpsertWithoutBookingPolicyInput = {
+  update: Prisma.XOR<Prisma.BuildingUpdateWithoutBookingPolicyInput, Prisma.BuildingUncheckedUpdateWithoutBookingPolicyInput>
+  create: Prisma.XOR<Prisma.BuildingCreateWithoutBookingPolicyInput, Prisma.BuildingUncheckedCreateWithoutBookingPolicyInput>
+  where?: Prisma.BuildingWhereInput
+}
+
+export type BuildingUpdateToOneWithWhereWithoutBookingPolicyInput = {
+  where?: Prisma.BuildingWhereInput
+  data: Prisma.XOR<Prisma.BuildingUpdateWithoutBookingPolicyInput, Prisma.BuildingUncheckedUpdateWithoutBookingPolicyInput>
+}
+
+export type BuildingUpdateWithoutBookingPolicyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  block?: Prisma.BlockUpdateOneRequiredWithoutBuildingsNestedInput
+  floors?: Prisma.FloorUpdateManyWithoutBuildingNestedInput
+  rooms?: Prisma.RoomUpdateManyWithoutBuildingNestedInput
+}
+
+export type BuildingUncheckedUpdateWithoutBookingPolicyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  blockId?: Prisma.StringFieldUpdateOperationsInput | string
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   floors?: Prisma.FloorUncheckedUpdateManyWithoutBuildingNestedInput
+  rooms?: Prisma.RoomUncheckedUpdateManyWithoutBuildingNestedInput
 }
 
 export type BuildingCreateManyBlockInput = {
@@ -679,6 +916,9 @@ export type BuildingCreateManyBlockInput = {
   name: string
   code: string
   distance?: number
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -688,8 +928,12 @@ export type BuildingUpdateWithoutBlockInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutBuildingNestedInput
   floors?: Prisma.FloorUpdateManyWithoutBuildingNestedInput
   rooms?: Prisma.RoomUpdateManyWithoutBuildingNestedInput
 }
@@ -699,8 +943,12 @@ export type BuildingUncheckedUpdateWithoutBlockInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutBuildingNestedInput
   floors?: Prisma.FloorUncheckedUpdateManyWithoutBuildingNestedInput
   rooms?: Prisma.RoomUncheckedUpdateManyWithoutBuildingNestedInput
 }
@@ -710,6 +958,9 @@ export type BuildingUncheckedUpdateManyWithoutBlockInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   code?: Prisma.StringFieldUpdateOperationsInput | string
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeEntrance?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -760,9 +1011,13 @@ export type BuildingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   code?: boolean
   blockId?: boolean
   distance?: boolean
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   block?: boolean | Prisma.BlockDefaultArgs<ExtArgs>
+  bookingPolicy?: boolean | Prisma.Building$bookingPolicyArgs<ExtArgs>
   floors?: boolean | Prisma.Building$floorsArgs<ExtArgs>
   rooms?: boolean | Prisma.Building$roomsArgs<ExtArgs>
   _count?: boolean | Prisma.BuildingCountOutputTypeDefaultArgs<ExtArgs>
@@ -774,6 +1029,9 @@ export type BuildingSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   code?: boolean
   blockId?: boolean
   distance?: boolean
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   block?: boolean | Prisma.BlockDefaultArgs<ExtArgs>
@@ -785,6 +1043,9 @@ export type BuildingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   code?: boolean
   blockId?: boolean
   distance?: boolean
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   block?: boolean | Prisma.BlockDefaultArgs<ExtArgs>
@@ -796,13 +1057,17 @@ export type BuildingSelectScalar = {
   code?: boolean
   blockId?: boolean
   distance?: boolean
+  stepFreeEntrance?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type BuildingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "code" | "blockId" | "distance" | "createdAt" | "updatedAt", ExtArgs["result"]["building"]>
+export type BuildingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "code" | "blockId" | "distance" | "stepFreeEntrance" | "bufferBeforeMinutes" | "bufferAfterMinutes" | "createdAt" | "updatedAt", ExtArgs["result"]["building"]>
 export type BuildingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   block?: boolean | Prisma.BlockDefaultArgs<ExtArgs>
+  bookingPolicy?: boolean | Prisma.Building$bookingPolicyArgs<ExtArgs>
   floors?: boolean | Prisma.Building$floorsArgs<ExtArgs>
   rooms?: boolean | Prisma.Building$roomsArgs<ExtArgs>
   _count?: boolean | Prisma.BuildingCountOutputTypeDefaultArgs<ExtArgs>
@@ -818,6 +1083,7 @@ export type $BuildingPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   name: "Building"
   objects: {
     block: Prisma.$BlockPayload<ExtArgs>
+    bookingPolicy: Prisma.$BookingPolicyPayload<ExtArgs> | null
     floors: Prisma.$FloorPayload<ExtArgs>[]
     rooms: Prisma.$RoomPayload<ExtArgs>[]
   }
@@ -827,6 +1093,9 @@ export type $BuildingPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     code: string
     blockId: string
     distance: number
+    stepFreeEntrance: boolean
+    bufferBeforeMinutes: number | null
+    bufferAfterMinutes: number | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["building"]>
@@ -1224,6 +1493,7 @@ readonly fields: BuildingFieldRefs;
 export interface Prisma__BuildingClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   block<T extends Prisma.BlockDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.BlockDefaultArgs<ExtArgs>>): Prisma.Prisma__BlockClient<runtime.Types.Result.GetResult<Prisma.$BlockPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  bookingPolicy<T extends Prisma.Building$bookingPolicyArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Building$bookingPolicyArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   floors<T extends Prisma.Building$floorsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Building$floorsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FloorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   rooms<T extends Prisma.Building$roomsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Building$roomsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
@@ -1260,6 +1530,9 @@ export interface BuildingFieldRefs {
   readonly code: Prisma.FieldRef<"Building", 'String'>
   readonly blockId: Prisma.FieldRef<"Building", 'String'>
   readonly distance: Prisma.FieldRef<"Building", 'Float'>
+  readonly stepFreeEntrance: Prisma.FieldRef<"Building", 'Boolean'>
+  readonly bufferBeforeMinutes: Prisma.FieldRef<"Building", 'Int'>
+  readonly bufferAfterMinutes: Prisma.FieldRef<"Building", 'Int'>
   readonly createdAt: Prisma.FieldRef<"Building", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Building", 'DateTime'>
 }
@@ -1657,6 +1930,25 @@ export type BuildingDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * Building.bookingPolicy
+ */
+export type Building$bookingPolicyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  where?: Prisma.BookingPolicyWhereInput
+}
+
 /**
  * Building.floors
  */
@@ -41,6 +41,7 @@ export type FloorMinAggregateOutputType = {
   name: string | null
   number: number | null
   distance: number | null
+  stepFreeAccess: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -51,6 +52,7 @@ export type FloorMaxAggregateOutputType = {
   name: string | null
   number: number | null
   distance: number | null
+  stepFreeAccess: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -61,6 +63,7 @@ export type FloorCountAggregateOutputType = {
   name: number
   number: number
   distance: number
+  stepFreeAccess: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -83,6 +86,7 @@ export type FloorMinAggregateInputType = {
   name?: true
   number?: true
   distance?: true
+  stepFreeAccess?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -93,6 +97,7 @@ export type FloorMaxAggregateInputType = {
   name?: true
   number?: true
   distance?: true
+  stepFreeAccess?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -103,6 +108,7 @@ export type FloorCountAggregateInputType = {
   name?: true
   number?: true
   distance?: true
+  stepFreeAccess?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -200,6 +206,7 @@ export type FloorGroupByOutputType = {
   name: string
   number: number
   distance: number
+  stepFreeAccess: boolean
   createdAt: Date
   updatedAt: Date
   _count: FloorCountAggregateOutputType | null
@@ -233,6 +240,7 @@ export type FloorWhereInput = {
   name?: Prisma.StringFilter<"Floor"> | string
   number?: Prisma.IntFilter<"Floor"> | number
   distance?: Prisma.FloatFilter<"Floor"> | number
+  stepFreeAccess?: Prisma.BoolFilter<"Floor"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Floor"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Floor"> | Date | string
   building?: Prisma.XOR<Prisma.BuildingScalarRelationFilter, Prisma.BuildingWhereInput>
@@ -245,6 +253,7 @@ export type FloorOrderByWithRelationInput = {
   name?: Prisma.SortOrder
   number?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeAccess?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   building?: Prisma.BuildingOrderByWithRelationInput
@@ -260,6 +269,7 @@ export type FloorWhereUniqueInput = Prisma.AtLeast<{
   name?: Prisma.StringFilter<"Floor"> | string
   number?: Prisma.IntFilter<"Floor"> | number
   distance?: Prisma.FloatFilter<"Floor"> | number
+  stepFreeAccess?: Prisma.BoolFilter<"Floor"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Floor"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Floor"> | Date | string
   building?: Prisma.XOR<Prisma.BuildingScalarRelationFilter, Prisma.BuildingWhereInput>
@@ -272,6 +282,7 @@ export type FloorOrderByWithAggregationInput = {
   name?: Prisma.SortOrder
   number?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeAccess?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.FloorCountOrderByAggregateInput
@@ -290,6 +301,7 @@ export type FloorScalarWhereWithAggregatesInput = {
   name?: Prisma.StringWithAggregatesFilter<"Floor"> | string
   number?: Prisma.IntWithAggregatesFilter<"Floor"> | number
   distance?: Prisma.FloatWithAggregatesFilter<"Floor"> | number
+  stepFreeAccess?: Prisma.BoolWithAggregatesFilter<"Floor"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Floor"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Floor"> | Date | string
 }
@@ -299,6 +311,7 @@ export type FloorCreateInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   building: Prisma.BuildingCreateNestedOneWithoutFloorsInput
@@ -311,6 +324,7 @@ export type FloorUncheckedCreateInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutFloorInput
@@ -321,6 +335,7 @@ export type FloorUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   building?: Prisma.BuildingUpdateOneRequiredWithoutFloorsNestedInput
@@ -333,6 +348,7 @@ export type FloorUncheckedUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   rooms?: Prisma.RoomUncheckedUpdateManyWithoutFloorNestedInput
@@ -344,6 +360,7 @@ export type FloorCreateManyInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -353,6 +370,7 @@ export type FloorUpdateManyMutationInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -363,6 +381,7 @@ export type FloorUncheckedUpdateManyInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -383,6 +402,7 @@ export type FloorCountOrderByAggregateInput = {
   name?: Prisma.SortOrder
   number?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeAccess?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -398,6 +418,7 @@ export type FloorMaxOrderByAggregateInput = {
   name?: Prisma.SortOrder
   number?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeAccess?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -408,6 +429,7 @@ export type FloorMinOrderByAggregateInput = {
   name?: Prisma.SortOrder
   number?: Prisma.SortOrder
   distance?: Prisma.SortOrder
+  stepFreeAccess?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -491,6 +513,7 @@ export type FloorCreateWithoutBuildingInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   rooms?: Prisma.RoomCreateNestedManyWithoutFloorInput
@@ -501,6 +524,7 @@ export type FloorUncheckedCreateWithoutBuildingInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   rooms?: Prisma.RoomUncheckedCreateNestedManyWithoutFloorInput
@@ -541,6 +565,7 @@ export type FloorScalarWhereInput = {
   name?: Prisma.StringFilter<"Floor"> | string
   number?: Prisma.IntFilter<"Floor"> | number
   distance?: Prisma.FloatFilter<"Floor"> | number
+  stepFreeAccess?: Prisma.BoolFilter<"Floor"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Floor"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Floor"> | Date | string
 }
@@ -550,6 +575,7 @@ export type FloorCreateWithoutRoomsInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   building: Prisma.BuildingCreateNestedOneWithoutFloorsInput
@@ -561,6 +587,7 @@ export type FloorUncheckedCreateWithoutRoomsInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -586,6 +613,7 @@ export type FloorUpdateWithoutRoomsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   building?: Prisma.BuildingUpdateOneRequiredWithoutFloorsNestedInput
@@ -597,6 +625,7 @@ export type FloorUncheckedUpdateWithoutRoomsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -606,6 +635,7 @@ export type FloorCreateManyBuildingInput = {
   name: string
   number: number
   distance?: number
+  stepFreeAccess?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -615,6 +645,7 @@ export type FloorUpdateWithoutBuildingInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   rooms?: Prisma.RoomUpdateManyWithoutFloorNestedInput
@@ -625,6 +656,7 @@ export type FloorUncheckedUpdateWithoutBuildingInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   rooms?: Prisma.RoomUncheckedUpdateManyWithoutFloorNestedInput
@@ -635,6 +667,7 @@ export type FloorUncheckedUpdateManyWithoutBuildingInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   number?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  stepFreeAccess?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -676,6 +709,7 @@ export type FloorSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   name?: boolean
   number?: boolean
   distance?: boolean
+  stepFreeAccess?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   building?: boolean | Prisma.BuildingDefaultArgs<ExtArgs>
@@ -689,6 +723,7 @@ export type FloorSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   name?: boolean
   number?: boolean
   distance?: boolean
+  stepFreeAccess?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   building?: boolean | Prisma.BuildingDefaultArgs<ExtArgs>
@@ -700,6 +735,7 @@ export type FloorSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensi
   name?: boolean
   number?: boolean
   distance?: boolean
+  stepFreeAccess?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   building?: boolean | Prisma.BuildingDefaultArgs<ExtArgs>
@@ -711,11 +747,12 @@ export type FloorSelectScalar = {
   name?: boolean
   number?: boolean
   distance?: boolean
+  stepFreeAccess?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type FloorOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "buildingId" | "name" | "number" | "distance" | "createdAt" | "updatedAt", ExtArgs["result"]["floor"]>
+export type FloorOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "buildingId" | "name" | "number" | "distance" | "stepFreeAccess" | "createdAt" | "updatedAt", ExtArgs["result"]["floor"]>
 export type FloorInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   building?: boolean | Prisma.BuildingDefaultArgs<ExtArgs>
   rooms?: boolean | Prisma.Floor$roomsArgs<ExtArgs>
@@ -740,6 +777,7 @@ export type $FloorPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     name: string
     number: number
     distance: number
+    stepFreeAccess: boolean
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["floor"]>
@@ -1172,6 +1210,7 @@ export interface FloorFieldRefs {
   readonly name: Prisma.FieldRef<"Floor", 'String'>
   readonly number: Prisma.FieldRef<"Floor", 'Int'>
   readonly distance: Prisma.FieldRef<"Floor", 'Float'>
+  readonly stepFreeAccess: Prisma.FieldRef<"Floor", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"Floor", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Floor", 'DateTime'>
 }
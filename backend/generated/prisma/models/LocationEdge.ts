@@ -0,0 +1,1343 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `LocationEdge` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model LocationEdge
+ * 
+ */
+export type LocationEdgeModel = runtime.Types.Result.DefaultSelection<Prisma.$LocationEdgePayload>
+
+export type AggregateLocationEdge = {
+  _count: LocationEdgeCountAggregateOutputType | null
+  _avg: LocationEdgeAvgAggregateOutputType | null
+  _sum: LocationEdgeSumAggregateOutputType | null
+  _min: LocationEdgeMinAggregateOutputType | null
+  _max: LocationEdgeMaxAggregateOutputType | null
+}
+
+export type LocationEdgeAvgAggregateOutputType = {
+  distance: number | null
+}
+
+export type LocationEdgeSumAggregateOutputType = {
+  distance: number | null
+}
+
+export type LocationEdgeMinAggregateOutputType = {
+  id: string | null
+  fromType: $Enums.LocationNodeType | null
+  fromId: string | null
+  toType: $Enums.LocationNodeType | null
+  toId: string | null
+  distance: number | null
+  kind: $Enums.LocationEdgeKind | null
+  stepFree: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type LocationEdgeMaxAggregateOutputType = {
+  id: string | null
+  fromType: $Enums.LocationNodeType | null
+  fromId: string | null
+  toType: $Enums.LocationNodeType | null
+  toId: string | null
+  distance: number | null
+  kind: $Enums.LocationEdgeKind | null
+  stepFree: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type LocationEdgeCountAggregateOutputType = {
+  id: number
+  fromType: number
+  fromId: number
+  toType: number
+  toId: number
+  distance: number
+  kind: number
+  stepFree: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type LocationEdgeAvgAggregateInputType = {
+  distance?: true
+}
+
+export type LocationEdgeSumAggregateInputType = {
+  distance?: true
+}
+
+export type LocationEdgeMinAggregateInputType = {
+  id?: true
+  fromType?: true
+  fromId?: true
+  toType?: true
+  toId?: true
+  distance?: true
+  kind?: true
+  stepFree?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type LocationEdgeMaxAggregateInputType = {
+  id?: true
+  fromType?: true
+  fromId?: true
+  toType?: true
+  toId?: true
+  distance?: true
+  kind?: true
+  stepFree?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type LocationEdgeCountAggregateInputType = {
+  id?: true
+  fromType?: true
+  fromId?: true
+  toType?: true
+  toId?: true
+  distance?: true
+  kind?: true
+  stepFree?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type LocationEdgeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LocationEdge to aggregate.
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LocationEdges to fetch.
+   */
+  orderBy?: Prisma.LocationEdgeOrderByWithRelationInput | Prisma.LocationEdgeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LocationEdgeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LocationEdges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LocationEdges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LocationEdges
+  **/
+  _count?: true | LocationEdgeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: LocationEdgeAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: LocationEdgeSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LocationEdgeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LocationEdgeMaxAggregateInputType
+}
+
+export type GetLocationEdgeAggregateType<T extends LocationEdgeAggregateArgs> = {
+      [P in keyof T & keyof AggregateLocationEdge]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLocationEdge[P]>
+    : Prisma.GetScalarType<T[P], AggregateLocationEdge[P]>
+}
+
+
+
+
+export type LocationEdgeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LocationEdgeWhereInput
+  orderBy?: Prisma.LocationEdgeOrderByWithAggregationInput | Prisma.LocationEdgeOrderByWithAggregationInput[]
+  by: Prisma.LocationEdgeScalarFieldEnum[] | Prisma.LocationEdgeScalarFieldEnum
+  having?: Prisma.LocationEdgeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LocationEdgeCountAggregateInputType | true
+  _avg?: LocationEdgeAvgAggregateInputType
+  _sum?: LocationEdgeSumAggregateInputType
+  _min?: LocationEdgeMinAggregateInputType
+  _max?: LocationEdgeMaxAggregateInputType
+}
+
+export type LocationEdgeGroupByOutputType = {
+  id: string
+  fromType: $Enums.LocationNodeType
+  fromId: string
+  toType: $Enums.LocationNodeType
+  toId: string
+  distance: number
+  kind: $Enums.LocationEdgeKind
+  stepFree: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: LocationEdgeCountAggregateOutputType | null
+  _avg: LocationEdgeAvgAggregateOutputType | null
+  _sum: LocationEdgeSumAggregateOutputType | null
+  _min: LocationEdgeMinAggregateOutputType | null
+  _max: LocationEdgeMaxAggregateOutputType | null
+}
+
+type GetLocationEdgeGroupByPayload<T extends LocationEdgeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LocationEdgeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LocationEdgeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LocationEdgeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LocationEdgeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LocationEdgeWhereInput = {
+  AND?: Prisma.LocationEdgeWhereInput | Prisma.LocationEdgeWhereInput[]
+  OR?: Prisma.LocationEdgeWhereInput[]
+  NOT?: Prisma.LocationEdgeWhereInput | Prisma.LocationEdgeWhereInput[]
+  id?: Prisma.StringFilter<"LocationEdge"> | string
+  fromType?: Prisma.EnumLocationNodeTypeFilter<"LocationEdge"> | $Enums.LocationNodeType
+  fromId?: Prisma.StringFilter<"LocationEdge"> | string
+  toType?: Prisma.EnumLocationNodeTypeFilter<"LocationEdge"> | $Enums.LocationNodeType
+  toId?: Prisma.StringFilter<"LocationEdge"> | string
+  distance?: Prisma.FloatFilter<"LocationEdge"> | number
+  kind?: Prisma.EnumLocationEdgeKindFilter<"LocationEdge"> | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolFilter<"LocationEdge"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"LocationEdge"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"LocationEdge"> | Date | string
+}
+
+export type LocationEdgeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  fromType?: Prisma.SortOrder
+  fromId?: Prisma.SortOrder
+  toType?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  distance?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  stepFree?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type LocationEdgeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  fromType_fromId_toType_toId?: Prisma.LocationEdgeFromTypeFromIdToTypeToIdCompoundUniqueInput
+  AND?: Prisma.LocationEdgeWhereInput | Prisma.LocationEdgeWhereInput[]
+  OR?: Prisma.LocationEdgeWhereInput[]
+  NOT?: Prisma.LocationEdgeWhereInput | Prisma.LocationEdgeWhereInput[]
+  fromType?: Prisma.EnumLocationNodeTypeFilter<"LocationEdge"> | $Enums.LocationNodeType
+  fromId?: Prisma.StringFilter<"LocationEdge"> | string
+  toType?: Prisma.EnumLocationNodeTypeFilter<"LocationEdge"> | $Enums.LocationNodeType
+  toId?: Prisma.StringFilter<"LocationEdge"> | string
+  distance?: Prisma.FloatFilter<"LocationEdge"> | number
+  kind?: Prisma.EnumLocationEdgeKindFilter<"LocationEdge"> | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolFilter<"LocationEdge"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"LocationEdge"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"LocationEdge"> | Date | string
+}, "id" | "fromType_fromId_toType_toId">
+
+export type LocationEdgeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  fromType?: Prisma.SortOrder
+  fromId?: Prisma.SortOrder
+  toType?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  distance?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  stepFree?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.LocationEdgeCountOrderByAggregateInput
+  _avg?: Prisma.LocationEdgeAvgOrderByAggregateInput
+  _max?: Prisma.LocationEdgeMaxOrderByAggregateInput
+  _min?: Prisma.LocationEdgeMinOrderByAggregateInput
+  _sum?: Prisma.LocationEdgeSumOrderByAggregateInput
+}
+
+export type LocationEdgeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LocationEdgeScalarWhereWithAggregatesInput | Prisma.LocationEdgeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LocationEdgeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LocationEdgeScalarWhereWithAggregatesInput | Prisma.LocationEdgeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"LocationEdge"> | string
+  fromType?: Prisma.EnumLocationNodeTypeWithAggregatesFilter<"LocationEdge"> | $Enums.LocationNodeType
+  fromId?: Prisma.StringWithAggregatesFilter<"LocationEdge"> | string
+  toType?: Prisma.EnumLocationNodeTypeWithAggregatesFilter<"LocationEdge"> | $Enums.LocationNodeType
+  toId?: Prisma.StringWithAggregatesFilter<"LocationEdge"> | string
+  distance?: Prisma.FloatWithAggregatesFilter<"LocationEdge"> | number
+  kind?: Prisma.EnumLocationEdgeKindWithAggregatesFilter<"LocationEdge"> | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolWithAggregatesFilter<"LocationEdge"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"LocationEdge"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"LocationEdge"> | Date | string
+}
+
+export type LocationEdgeCreateInput = {
+  id?: string
+  fromType: $Enums.LocationNodeType
+  fromId: string
+  toType: $Enums.LocationNodeType
+  toId: string
+  distance: number
+  kind?: $Enums.LocationEdgeKind
+  stepFree?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type LocationEdgeUncheckedCreateInput = {
+  id?: string
+  fromType: $Enums.LocationNodeType
+  fromId: string
+  toType: $Enums.LocationNodeType
+  toId: string
+  distance: number
+  kind?: $Enums.LocationEdgeKind
+  stepFree?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type LocationEdgeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  toType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  kind?: Prisma.EnumLocationEdgeKindFieldUpdateOperationsInput | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LocationEdgeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  toType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  kind?: Prisma.EnumLocationEdgeKindFieldUpdateOperationsInput | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LocationEdgeCreateManyInput = {
+  id?: string
+  fromType: $Enums.LocationNodeType
+  fromId: string
+  toType: $Enums.LocationNodeType
+  toId: string
+  distance: number
+  kind?: $Enums.LocationEdgeKind
+  stepFree?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type LocationEdgeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  toType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  kind?: Prisma.EnumLocationEdgeKindFieldUpdateOperationsInput | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LocationEdgeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fromType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  fromId?: Prisma.StringFieldUpdateOperationsInput | string
+  toType?: Prisma.EnumLocationNodeTypeFieldUpdateOperationsInput | $Enums.LocationNodeType
+  toId?: Prisma.StringFieldUpdateOperationsInput | string
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  kind?: Prisma.EnumLocationEdgeKindFieldUpdateOperationsInput | $Enums.LocationEdgeKind
+  stepFree?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LocationEdgeFromTypeFromIdToTypeToIdCompoundUniqueInput = {
+  fromType: $Enums.LocationNodeType
+  fromId: string
+  toType: $Enums.LocationNodeType
+  toId: string
+}
+
+export type LocationEdgeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fromType?: Prisma.SortOrder
+  fromId?: Prisma.SortOrder
+  toType?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  distance?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  stepFree?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type LocationEdgeAvgOrderByAggregateInput = {
+  distance?: Prisma.SortOrder
+}
+
+export type LocationEdgeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fromType?: Prisma.SortOrder
+  fromId?: Prisma.SortOrder
+  toType?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  distance?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  stepFree?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type LocationEdgeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  fromType?: Prisma.SortOrder
+  fromId?: Prisma.SortOrder
+  toType?: Prisma.SortOrder
+  toId?: Prisma.SortOrder
+  distance?: Prisma.SortOrder
+  kind?: Prisma.SortOrder
+  stepFree?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type LocationEdgeSumOrderByAggregateInput = {
+  distance?: Prisma.SortOrder
+}
+
+export type EnumLocationNodeTypeFieldUpdateOperationsInput = {
+  set?: $Enums.LocationNodeType
+}
+
+export type EnumLocationEdgeKindFieldUpdateOperationsInput = {
+  set?: $Enums.LocationEdgeKind
+}
+
+
+
+export type LocationEdgeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fromType?: boolean
+  fromId?: boolean
+  toType?: boolean
+  toId?: boolean
+  distance?: boolean
+  kind?: boolean
+  stepFree?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["locationEdge"]>
+
+export type LocationEdgeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fromType?: boolean
+  fromId?: boolean
+  toType?: boolean
+  toId?: boolean
+  distance?: boolean
+  kind?: boolean
+  stepFree?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["locationEdge"]>
+
+export type LocationEdgeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  fromType?: boolean
+  fromId?: boolean
+  toType?: boolean
+  toId?: boolean
+  distance?: boolean
+  kind?: boolean
+  stepFree?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["locationEdge"]>
+
+export type LocationEdgeSelectScalar = {
+  id?: boolean
+  fromType?: boolean
+  fromId?: boolean
+  toType?: boolean
+  toId?: boolean
+  distance?: boolean
+  kind?: boolean
+  stepFree?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type LocationEdgeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "fromType" | "fromId" | "toType" | "toId" | "distance" | "kind" | "stepFree" | "createdAt" | "updatedAt", ExtArgs["result"]["locationEdge"]>
+
+export type $LocationEdgePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LocationEdge"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    fromType: $Enums.LocationNodeType
+    fromId: string
+    toType: $Enums.LocationNodeType
+    toId: string
+    distance: number
+    kind: $Enums.LocationEdgeKind
+    stepFree: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["locationEdge"]>
+  composites: {}
+}
+
+export type LocationEdgeGetPayload<S extends boolean | null | undefined | LocationEdgeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload, S>
+
+export type LocationEdgeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LocationEdgeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LocationEdgeCountAggregateInputType | true
+  }
+
+export interface LocationEdgeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LocationEdge'], meta: { name: 'LocationEdge' } }
+  /**
+   * Find zero or one LocationEdge that matches the filter.
+   * @param {LocationEdgeFindUniqueArgs} args - Arguments to find a LocationEdge
+   * @example
+   * // Get one LocationEdge
+   * const locationEdge = await prisma.locationEdge.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LocationEdgeFindUniqueArgs>(args: Prisma.SelectSubset<T, LocationEdgeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LocationEdge that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LocationEdgeFindUniqueOrThrowArgs} args - Arguments to find a LocationEdge
+   * @example
+   * // Get one LocationEdge
+   * const locationEdge = await prisma.locationEdge.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LocationEdgeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LocationEdgeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LocationEdge that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeFindFirstArgs} args - Arguments to find a LocationEdge
+   * @example
+   * // Get one LocationEdge
+   * const locationEdge = await prisma.locationEdge.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LocationEdgeFindFirstArgs>(args?: Prisma.SelectSubset<T, LocationEdgeFindFirstArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LocationEdge that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeFindFirstOrThrowArgs} args - Arguments to find a LocationEdge
+   * @example
+   * // Get one LocationEdge
+   * const locationEdge = await prisma.locationEdge.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LocationEdgeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LocationEdgeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LocationEdges that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LocationEdges
+   * const locationEdges = await prisma.locationEdge.findMany()
+   * 
+   * // Get first 10 LocationEdges
+   * const locationEdges = await prisma.locationEdge.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const locationEdgeWithIdOnly = await prisma.locationEdge.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LocationEdgeFindManyArgs>(args?: Prisma.SelectSubset<T, LocationEdgeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LocationEdge.
+   * @param {LocationEdgeCreateArgs} args - Arguments to create a LocationEdge.
+   * @example
+   * // Create one LocationEdge
+   * const LocationEdge = await prisma.locationEdge.create({
+   *   data: {
+   *     // ... data to create a LocationEdge
+   *   }
+   * })
+   * 
+   */
+  create<T extends LocationEdgeCreateArgs>(args: Prisma.SelectSubset<T, LocationEdgeCreateArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LocationEdges.
+   * @param {LocationEdgeCreateManyArgs} args - Arguments to create many LocationEdges.
+   * @example
+   * // Create many LocationEdges
+   * const locationEdge = await prisma.locationEdge.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LocationEdgeCreateManyArgs>(args?: Prisma.SelectSubset<T, LocationEdgeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LocationEdges and returns the data saved in the database.
+   * @param {LocationEdgeCreateManyAndReturnArgs} args - Arguments to create many LocationEdges.
+   * @example
+   * // Create many LocationEdges
+   * const locationEdge = await prisma.locationEdge.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LocationEdges and only return the `id`
+   * const locationEdgeWithIdOnly = await prisma.locationEdge.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LocationEdgeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LocationEdgeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LocationEdge.
+   * @param {LocationEdgeDeleteArgs} args - Arguments to delete one LocationEdge.
+   * @example
+   * // Delete one LocationEdge
+   * const LocationEdge = await prisma.locationEdge.delete({
+   *   where: {
+   *     // ... filter to delete one LocationEdge
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LocationEdgeDeleteArgs>(args: Prisma.SelectSubset<T, LocationEdgeDeleteArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LocationEdge.
+   * @param {LocationEdgeUpdateArgs} args - Arguments to update one LocationEdge.
+   * @example
+   * // Update one LocationEdge
+   * const locationEdge = await prisma.locationEdge.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LocationEdgeUpdateArgs>(args: Prisma.SelectSubset<T, LocationEdgeUpdateArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LocationEdges.
+   * @param {LocationEdgeDeleteManyArgs} args - Arguments to filter LocationEdges to delete.
+   * @example
+   * // Delete a few LocationEdges
+   * const { count } = await prisma.locationEdge.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LocationEdgeDeleteManyArgs>(args?: Prisma.SelectSubset<T, LocationEdgeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LocationEdges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LocationEdges
+   * const locationEdge = await prisma.locationEdge.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LocationEdgeUpdateManyArgs>(args: Prisma.SelectSubset<T, LocationEdgeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LocationEdges and returns the data updated in the database.
+   * @param {LocationEdgeUpdateManyAndReturnArgs} args - Arguments to update many LocationEdges.
+   * @example
+   * // Update many LocationEdges
+   * const locationEdge = await prisma.locationEdge.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LocationEdges and only return the `id`
+   * const locationEdgeWithIdOnly = await prisma.locationEdge.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LocationEdgeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LocationEdgeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LocationEdge.
+   * @param {LocationEdgeUpsertArgs} args - Arguments to update or create a LocationEdge.
+   * @example
+   * // Update or create a LocationEdge
+   * const locationEdge = await prisma.locationEdge.upsert({
+   *   create: {
+   *     // ... data to create a LocationEdge
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LocationEdge we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LocationEdgeUpsertArgs>(args: Prisma.SelectSubset<T, LocationEdgeUpsertArgs<ExtArgs>>): Prisma.Prisma__LocationEdgeClient<runtime.Types.Result.GetResult<Prisma.$LocationEdgePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LocationEdges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeCountArgs} args - Arguments to filter LocationEdges to count.
+   * @example
+   * // Count the number of LocationEdges
+   * const count = await prisma.locationEdge.count({
+   *   where: {
+   *     // ... the filter for the LocationEdges we want to count
+   *   }
+   * })
+  **/
+  count<T extends LocationEdgeCountArgs>(
+    args?: Prisma.Subset<T, LocationEdgeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LocationEdgeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LocationEdge.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LocationEdgeAggregateArgs>(args: Prisma.Subset<T, LocationEdgeAggregateArgs>): Prisma.PrismaPromise<GetLocationEdgeAggregateType<T>>
+
+  /**
+   * Group by LocationEdge.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LocationEdgeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LocationEdgeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LocationEdgeGroupByArgs['orderBy'] }
+      : { orderBy?: LocationEdgeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LocationEdgeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLocationEdgeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LocationEdge model
+ */
+readonly fields: LocationEdgeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LocationEdge.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LocationEdgeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LocationEdge model
+ */
+export interface LocationEdgeFieldRefs {
+  readonly id: Prisma.FieldRef<"LocationEdge", 'String'>
+  readonly fromType: Prisma.FieldRef<"LocationEdge", 'LocationNodeType'>
+  readonly fromId: Prisma.FieldRef<"LocationEdge", 'String'>
+  readonly toType: Prisma.FieldRef<"LocationEdge", 'LocationNodeType'>
+  readonly toId: Prisma.FieldRef<"LocationEdge", 'String'>
+  readonly distance: Prisma.FieldRef<"LocationEdge", 'Float'>
+  readonly kind: Prisma.FieldRef<"LocationEdge", 'LocationEdgeKind'>
+  readonly stepFree: Prisma.FieldRef<"LocationEdge", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"LocationEdge", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"LocationEdge", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LocationEdge findUnique
+ */
+export type LocationEdgeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * Filter, which LocationEdge to fetch.
+   */
+  where: Prisma.LocationEdgeWhereUniqueInput
+}
+
+/**
+ * LocationEdge findUniqueOrThrow
+ */
+export type LocationEdgeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * Filter, which LocationEdge to fetch.
+   */
+  where: Prisma.LocationEdgeWhereUniqueInput
+}
+
+/**
+ * LocationEdge findFirst
+ */
+export type LocationEdgeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * Filter, which LocationEdge to fetch.
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LocationEdges to fetch.
+   */
+  orderBy?: Prisma.LocationEdgeOrderByWithRelationInput | Prisma.LocationEdgeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LocationEdges.
+   */
+  cursor?: Prisma.LocationEdgeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LocationEdges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LocationEdges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LocationEdges.
+   */
+  distinct?: Prisma.LocationEdgeScalarFieldEnum | Prisma.LocationEdgeScalarFieldEnum[]
+}
+
+/**
+ * LocationEdge findFirstOrThrow
+ */
+export type LocationEdgeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * Filter, which LocationEdge to fetch.
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LocationEdges to fetch.
+   */
+  orderBy?: Prisma.LocationEdgeOrderByWithRelationInput | Prisma.LocationEdgeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LocationEdges.
+   */
+  cursor?: Prisma.LocationEdgeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LocationEdges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LocationEdges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LocationEdges.
+   */
+  distinct?: Prisma.LocationEdgeScalarFieldEnum | Prisma.LocationEdgeScalarFieldEnum[]
+}
+
+/**
+ * LocationEdge findMany
+ */
+export type LocationEdgeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * Filter, which LocationEdges to fetch.
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LocationEdges to fetch.
+   */
+  orderBy?: Prisma.LocationEdgeOrderByWithRelationInput | Prisma.LocationEdgeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LocationEdges.
+   */
+  cursor?: Prisma.LocationEdgeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LocationEdges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LocationEdges.
+   */
+  skip?: number
+  distinct?: Prisma.LocationEdgeScalarFieldEnum | Prisma.LocationEdgeScalarFieldEnum[]
+}
+
+/**
+ * LocationEdge create
+ */
+export type LocationEdgeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * The data needed to create a LocationEdge.
+   */
+  data: Prisma.XOR<Prisma.LocationEdgeCreateInput, Prisma.LocationEdgeUncheckedCreateInput>
+}
+
+/**
+ * LocationEdge createMany
+ */
+export type LocationEdgeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LocationEdges.
+   */
+  data: Prisma.LocationEdgeCreateManyInput | Prisma.LocationEdgeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * LocationEdge createManyAndReturn
+ */
+export type LocationEdgeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * The data used to create many LocationEdges.
+   */
+  data: Prisma.LocationEdgeCreateManyInput | Prisma.LocationEdgeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * LocationEdge update
+ */
+export type LocationEdgeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * The data needed to update a LocationEdge.
+   */
+  data: Prisma.XOR<Prisma.LocationEdgeUpdateInput, Prisma.LocationEdgeUncheckedUpdateInput>
+  /**
+   * Choose, which LocationEdge to update.
+   */
+  where: Prisma.LocationEdgeWhereUniqueInput
+}
+
+/**
+ * LocationEdge updateMany
+ */
+export type LocationEdgeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LocationEdges.
+   */
+  data: Prisma.XOR<Prisma.LocationEdgeUpdateManyMutationInput, Prisma.LocationEdgeUncheckedUpdateManyInput>
+  /**
+   * Filter which LocationEdges to update
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * Limit how many LocationEdges to update.
+   */
+  limit?: number
+}
+
+/**
+ * LocationEdge updateManyAndReturn
+ */
+export type LocationEdgeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * The data used to update LocationEdges.
+   */
+  data: Prisma.XOR<Prisma.LocationEdgeUpdateManyMutationInput, Prisma.LocationEdgeUncheckedUpdateManyInput>
+  /**
+   * Filter which LocationEdges to update
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * Limit how many LocationEdges to update.
+   */
+  limit?: number
+}
+
+/**
+ * LocationEdge upsert
+ */
+export type LocationEdgeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * The filter to search for the LocationEdge to update in case it exists.
+   */
+  where: Prisma.LocationEdgeWhereUniqueInput
+  /**
+   * In case the LocationEdge found by the `where` argument doesn't exist, create a new LocationEdge with this data.
+   */
+  create: Prisma.XOR<Prisma.LocationEdgeCreateInput, Prisma.LocationEdgeUncheckedCreateInput>
+  /**
+   * In case the LocationEdge was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LocationEdgeUpdateInput, Prisma.LocationEdgeUncheckedUpdateInput>
+}
+
+/**
+ * LocationEdge delete
+ */
+export type LocationEdgeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+  /**
+   * Filter which LocationEdge to delete.
+   */
+  where: Prisma.LocationEdgeWhereUniqueInput
+}
+
+/**
+ * LocationEdge deleteMany
+ */
+export type LocationEdgeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LocationEdges to delete
+   */
+  where?: Prisma.LocationEdgeWhereInput
+  /**
+   * Limit how many LocationEdges to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LocationEdge without action
+ */
+export type LocationEdgeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LocationEdge
+   */
+  select?: Prisma.LocationEdgeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LocationEdge
+   */
+  omit?: Prisma.LocationEdgeOmit<ExtArgs> | null
+}
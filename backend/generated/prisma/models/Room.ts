@@ -32,6 +32,8 @@ export type RoomAvgAggregateOutputType = {
   claimed: number | null
   distance: number | null
   version: number | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
 }
 
 export type RoomSumAggregateOutputType = {
@@ -41,6 +43,8 @@ export type RoomSumAggregateOutputType = {
   claimed: number | null
   distance: number | null
   version: number | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
 }
 
 export type RoomMinAggregateOutputType = {
@@ -54,6 +58,9 @@ export type RoomMinAggregateOutputType = {
   claimed: number | null
   distance: number | null
   version: number | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
+  requiresApproval: boolean | null
   branchAllocated: $Enums.Branch | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -70,6 +77,9 @@ export type RoomMaxAggregateOutputType = {
   claimed: number | null
   distance: number | null
   version: number | null
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
+  requiresApproval: boolean | null
   branchAllocated: $Enums.Branch | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -83,9 +93,13 @@ export type RoomCountAggregateOutputType = {
   capacity: number
   rows: number
   cols: number
+  layout: number
   claimed: number
   distance: number
   version: number
+  bufferBeforeMinutes: number
+  bufferAfterMinutes: number
+  requiresApproval: number
   branchAllocated: number
   createdAt: number
   updatedAt: number
@@ -100,6 +114,8 @@ export type RoomAvgAggregateInputType = {
   claimed?: true
   distance?: true
   version?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
 }
 
 export type RoomSumAggregateInputType = {
@@ -109,6 +125,8 @@ export type RoomSumAggregateInputType = {
   claimed?: true
   distance?: true
   version?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
 }
 
 export type RoomMinAggregateInputType = {
@@ -122,6 +140,9 @@ export type RoomMinAggregateInputType = {
   claimed?: true
   distance?: true
   version?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
+  requiresApproval?: true
   branchAllocated?: true
   createdAt?: true
   updatedAt?: true
@@ -138,6 +159,9 @@ export type RoomMaxAggregateInputType = {
   claimed?: true
   distance?: true
   version?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
+  requiresApproval?: true
   branchAllocated?: true
   createdAt?: true
   updatedAt?: true
@@ -151,9 +175,13 @@ export type RoomCountAggregateInputType = {
   capacity?: true
   rows?: true
   cols?: true
+  layout?: true
   claimed?: true
   distance?: true
   version?: true
+  bufferBeforeMinutes?: true
+  bufferAfterMinutes?: true
+  requiresApproval?: true
   branchAllocated?: true
   createdAt?: true
   updatedAt?: true
@@ -254,9 +282,13 @@ export type RoomGroupByOutputType = {
   capacity: number
   rows: number
   cols: number
+  layout: runtime.JsonValue | null
   claimed: number
   distance: number
   version: number
+  bufferBeforeMinutes: number | null
+  bufferAfterMinutes: number | null
+  requiresApproval: boolean
   branchAllocated: $Enums.Branch | null
   createdAt: Date
   updatedAt: Date
@@ -293,9 +325,13 @@ export type RoomWhereInput = {
   capacity?: Prisma.IntFilter<"Room"> | number
   rows?: Prisma.IntFilter<"Room"> | number
   cols?: Prisma.IntFilter<"Room"> | number
+  layout?: Prisma.JsonNullableFilter<"Room">
   claimed?: Prisma.IntFilter<"Room"> | number
   distance?: Prisma.FloatFilter<"Room"> | number
   version?: Prisma.IntFilter<"Room"> | number
+  bufferBeforeMinutes?: Prisma.IntNullableFilter<"Room"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableFilter<"Room"> | number | null
+  requiresApproval?: Prisma.BoolFilter<"Room"> | boolean
   branchAllocated?: Prisma.EnumBranchNullableFilter<"Room"> | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFilter<"Room"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Room"> | Date | string
@@ -303,6 +339,10 @@ export type RoomWhereInput = {
   floor?: Prisma.XOR<Prisma.FloorScalarRelationFilter, Prisma.FloorWhereInput>
   seats?: Prisma.SeatListRelationFilter
   bookings?: Prisma.RoomBookingListRelationFilter
+  waitlist?: Prisma.WaitlistEntryListRelationFilter
+  blackouts?: Prisma.RoomBlackoutListRelationFilter
+  amenities?: Prisma.AmenityListRelationFilter
+  bookingPolicy?: Prisma.XOR<Prisma.BookingPolicyNullableScalarRelationFilter, Prisma.BookingPolicyWhereInput> | null
 }
 
 export type RoomOrderByWithRelationInput = {
@@ -313,9 +353,13 @@ export type RoomOrderByWithRelationInput = {
   capacity?: Prisma.SortOrder
   rows?: Prisma.SortOrder
   cols?: Prisma.SortOrder
+  layout?: Prisma.SortOrderInput | Prisma.SortOrder
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  requiresApproval?: Prisma.SortOrder
   branchAllocated?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -323,6 +367,10 @@ export type RoomOrderByWithRelationInput = {
   floor?: Prisma.FloorOrderByWithRelationInput
   seats?: Prisma.SeatOrderByRelationAggregateInput
   bookings?: Prisma.RoomBookingOrderByRelationAggregateInput
+  waitlist?: Prisma.WaitlistEntryOrderByRelationAggregateInput
+  blackouts?: Prisma.RoomBlackoutOrderByRelationAggregateInput
+  amenities?: Prisma.AmenityOrderByRelationAggregateInput
+  bookingPolicy?: Prisma.BookingPolicyOrderByWithRelationInput
 }
 
 export type RoomWhereUniqueInput = Prisma.AtLeast<{
@@ -336,9 +384,13 @@ export type RoomWhereUniqueInput = Prisma.AtLeast<{
   capacity?: Prisma.IntFilter<"Room"> | number
   rows?: Prisma.IntFilter<"Room"> | number
   cols?: Prisma.IntFilter<"Room"> | number
+  layout?: Prisma.JsonNullableFilter<"Room">
   claimed?: Prisma.IntFilter<"Room"> | number
   distance?: Prisma.FloatFilter<"Room"> | number
   version?: Prisma.IntFilter<"Room"> | number
+  bufferBeforeMinutes?: Prisma.IntNullableFilter<"Room"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableFilter<"Room"> | number | null
+  requiresApproval?: Prisma.BoolFilter<"Room"> | boolean
   branchAllocated?: Prisma.EnumBranchNullableFilter<"Room"> | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFilter<"Room"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Room"> | Date | string
@@ -346,6 +398,10 @@ export type RoomWhereUniqueInput = Prisma.AtLeast<{
   floor?: Prisma.XOR<Prisma.FloorScalarRelationFilter, Prisma.FloorWhereInput>
   seats?: Prisma.SeatListRelationFilter
   bookings?: Prisma.RoomBookingListRelationFilter
+  waitlist?: Prisma.WaitlistEntryListRelationFilter
+  blackouts?: Prisma.RoomBlackoutListRelationFilter
+  amenities?: Prisma.AmenityListRelationFilter
+  bookingPolicy?: Prisma.XOR<Prisma.BookingPolicyNullableScalarRelationFilter, Prisma.BookingPolicyWhereInput> | null
 }, "id">
 
 export type RoomOrderByWithAggregationInput = {
@@ -356,9 +412,13 @@ export type RoomOrderByWithAggregationInput = {
   capacity?: Prisma.SortOrder
   rows?: Prisma.SortOrder
   cols?: Prisma.SortOrder
+  layout?: Prisma.SortOrderInput | Prisma.SortOrder
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrderInput | Prisma.SortOrder
+  requiresApproval?: Prisma.SortOrder
   branchAllocated?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -380,9 +440,13 @@ export type RoomScalarWhereWithAggregatesInput = {
   capacity?: Prisma.IntWithAggregatesFilter<"Room"> | number
   rows?: Prisma.IntWithAggregatesFilter<"Room"> | number
   cols?: Prisma.IntWithAggregatesFilter<"Room"> | number
+  layout?: Prisma.JsonNullableWithAggregatesFilter<"Room">
   claimed?: Prisma.IntWithAggregatesFilter<"Room"> | number
   distance?: Prisma.FloatWithAggregatesFilter<"Room"> | number
   version?: Prisma.IntWithAggregatesFilter<"Room"> | number
+  bufferBeforeMinutes?: Prisma.IntNullableWithAggregatesFilter<"Room"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableWithAggregatesFilter<"Room"> | number | null
+  requiresApproval?: Prisma.BoolWithAggregatesFilter<"Room"> | boolean
   branchAllocated?: Prisma.EnumBranchNullableWithAggregatesFilter<"Room"> | $Enums.Branch | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Room"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Room"> | Date | string
@@ -394,9 +458,13 @@ export type RoomCreateInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -404,6 +472,10 @@ export type RoomCreateInput = {
   floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
   seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
   bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
 }
 
 export type RoomUncheckedCreateInput = {
@@ -414,14 +486,22 @@ export type RoomUncheckedCreateInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
   bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
 }
 
 export type RoomUpdateInput = {
@@ -430,9 +510,13 @@ export type RoomUpdateInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -440,6 +524,10 @@ export type RoomUpdateInput = {
   floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
   seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
   bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateInput = {
@@ -450,14 +538,22 @@ export type RoomUncheckedUpdateInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
   bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomCreateManyInput = {
@@ -468,9 +564,13 @@ export type RoomCreateManyInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -482,9 +582,13 @@ export type RoomUpdateManyMutationInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -498,9 +602,13 @@ export type RoomUncheckedUpdateManyInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -524,9 +632,13 @@ export type RoomCountOrderByAggregateInput = {
   capacity?: Prisma.SortOrder
   rows?: Prisma.SortOrder
   cols?: Prisma.SortOrder
+  layout?: Prisma.SortOrder
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
+  requiresApproval?: Prisma.SortOrder
   branchAllocated?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -539,6 +651,8 @@ export type RoomAvgOrderByAggregateInput = {
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
 }
 
 export type RoomMaxOrderByAggregateInput = {
@@ -552,6 +666,9 @@ export type RoomMaxOrderByAggregateInput = {
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
+  requiresApproval?: Prisma.SortOrder
   branchAllocated?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -568,6 +685,9 @@ export type RoomMinOrderByAggregateInput = {
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
+  requiresApproval?: Prisma.SortOrder
   branchAllocated?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -580,6 +700,13 @@ export type RoomSumOrderByAggregateInput = {
   claimed?: Prisma.SortOrder
   distance?: Prisma.SortOrder
   version?: Prisma.SortOrder
+  bufferBeforeMinutes?: Prisma.SortOrder
+  bufferAfterMinutes?: Prisma.SortOrder
+}
+
+export type RoomNullableScalarRelationFilter = {
+  is?: Prisma.RoomWhereInput | null
+  isNot?: Prisma.RoomWhereInput | null
 }
 
 export type RoomScalarRelationFilter = {
@@ -675,6 +802,60 @@ export type NullableEnumBranchFieldUpdateOperationsInput = {
   set?: $Enums.Branch | null
 }
 
+export type RoomCreateNestedOneWithoutBookingPolicyInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutBookingPolicyInput, Prisma.RoomUncheckedCreateWithoutBookingPolicyInput>
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutBookingPolicyInput
+  connect?: Prisma.RoomWhereUniqueInput
+}
+
+export type RoomUpdateOneWithoutBookingPolicyNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutBookingPolicyInput, Prisma.RoomUncheckedCreateWithoutBookingPolicyInput>
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutBookingPolicyInput
+  upsert?: Prisma.RoomUpsertWithoutBookingPolicyInput
+  disconnect?: Prisma.RoomWhereInput | boolean
+  delete?: Prisma.RoomWhereInput | boolean
+  connect?: Prisma.RoomWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RoomUpdateToOneWithWhereWithoutBookingPolicyInput, Prisma.RoomUpdateWithoutBookingPolicyInput>, Prisma.RoomUncheckedUpdateWithoutBookingPolicyInput>
+}
+
+export type RoomCreateNestedManyWithoutAmenitiesInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutAmenitiesInput, Prisma.RoomUncheckedCreateWithoutAmenitiesInput> | Prisma.RoomCreateWithoutAmenitiesInput[] | Prisma.RoomUncheckedCreateWithoutAmenitiesInput[]
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutAmenitiesInput | Prisma.RoomCreateOrConnectWithoutAmenitiesInput[]
+  connect?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+}
+
+export type RoomUncheckedCreateNestedManyWithoutAmenitiesInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutAmenitiesInput, Prisma.RoomUncheckedCreateWithoutAmenitiesInput> | Prisma.RoomCreateWithoutAmenitiesInput[] | Prisma.RoomUncheckedCreateWithoutAmenitiesInput[]
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutAmenitiesInput | Prisma.RoomCreateOrConnectWithoutAmenitiesInput[]
+  connect?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+}
+
+export type RoomUpdateManyWithoutAmenitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutAmenitiesInput, Prisma.RoomUncheckedCreateWithoutAmenitiesInput> | Prisma.RoomCreateWithoutAmenitiesInput[] | Prisma.RoomUncheckedCreateWithoutAmenitiesInput[]
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutAmenitiesInput | Prisma.RoomCreateOrConnectWithoutAmenitiesInput[]
+  upsert?: Prisma.RoomUpsertWithWhereUniqueWithoutAmenitiesInput | Prisma.RoomUpsertWithWhereUniqueWithoutAmenitiesInput[]
+  set?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  disconnect?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  delete?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  connect?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  update?: Prisma.RoomUpdateWithWhereUniqueWithoutAmenitiesInput | Prisma.RoomUpdateWithWhereUniqueWithoutAmenitiesInput[]
+  updateMany?: Prisma.RoomUpdateManyWithWhereWithoutAmenitiesInput | Prisma.RoomUpdateManyWithWhereWithoutAmenitiesInput[]
+  deleteMany?: Prisma.RoomScalarWhereInput | Prisma.RoomScalarWhereInput[]
+}
+
+export type RoomUncheckedUpdateManyWithoutAmenitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutAmenitiesInput, Prisma.RoomUncheckedCreateWithoutAmenitiesInput> | Prisma.RoomCreateWithoutAmenitiesInput[] | Prisma.RoomUncheckedCreateWithoutAmenitiesInput[]
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutAmenitiesInput | Prisma.RoomCreateOrConnectWithoutAmenitiesInput[]
+  upsert?: Prisma.RoomUpsertWithWhereUniqueWithoutAmenitiesInput | Prisma.RoomUpsertWithWhereUniqueWithoutAmenitiesInput[]
+  set?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  disconnect?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  delete?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  connect?: Prisma.RoomWhereUniqueInput | Prisma.RoomWhereUniqueInput[]
+  update?: Prisma.RoomUpdateWithWhereUniqueWithoutAmenitiesInput | Prisma.RoomUpdateWithWhereUniqueWithoutAmenitiesInput[]
+  updateMany?: Prisma.RoomUpdateManyWithWhereWithoutAmenitiesInput | Prisma.RoomUpdateManyWithWhereWithoutAmenitiesInput[]
+  deleteMany?: Prisma.RoomScalarWhereInput | Prisma.RoomScalarWhereInput[]
+}
+
 export type RoomCreateNestedOneWithoutSeatsInput = {
   create?: Prisma.XOR<Prisma.RoomCreateWithoutSeatsInput, Prisma.RoomUncheckedCreateWithoutSeatsInput>
   connectOrCreate?: Prisma.RoomCreateOrConnectWithoutSeatsInput
@@ -703,21 +884,57 @@ export type RoomUpdateOneRequiredWithoutBookingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.RoomUpdateToOneWithWhereWithoutBookingsInput, Prisma.RoomUpdateWithoutBookingsInput>, Prisma.RoomUncheckedUpdateWithoutBookingsInput>
 }
 
+export type RoomCreateNestedOneWithoutWaitlistInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutWaitlistInput, Prisma.RoomUncheckedCreateWithoutWaitlistInput>
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutWaitlistInput
+  connect?: Prisma.RoomWhereUniqueInput
+}
+
+export type RoomUpdateOneRequiredWithoutWaitlistNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutWaitlistInput, Prisma.RoomUncheckedCreateWithoutWaitlistInput>
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutWaitlistInput
+  upsert?: Prisma.RoomUpsertWithoutWaitlistInput
+  connect?: Prisma.RoomWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RoomUpdateToOneWithWhereWithoutWaitlistInput, Prisma.RoomUpdateWithoutWaitlistInput>, Prisma.RoomUncheckedUpdateWithoutWaitlistInput>
+}
+
+export type RoomCreateNestedOneWithoutBlackoutsInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutBlackoutsInput, Prisma.RoomUncheckedCreateWithoutBlackoutsInput>
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutBlackoutsInput
+  connect?: Prisma.RoomWhereUniqueInput
+}
+
+export type RoomUpdateOneRequiredWithoutBlackoutsNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomCreateWithoutBlackoutsInput, Prisma.RoomUncheckedCreateWithoutBlackoutsInput>
+  connectOrCreate?: Prisma.RoomCreateOrConnectWithoutBlackoutsInput
+  upsert?: Prisma.RoomUpsertWithoutBlackoutsInput
+  connect?: Prisma.RoomWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RoomUpdateToOneWithWhereWithoutBlackoutsInput, Prisma.RoomUpdateWithoutBlackoutsInput>, Prisma.RoomUncheckedUpdateWithoutBlackoutsInput>
+}
+
 export type RoomCreateWithoutBuildingInput = {
   id?: string
   name: string
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
   seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
   bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
 }
 
 export type RoomUncheckedCreateWithoutBuildingInput = {
@@ -727,14 +944,22 @@ export type RoomUncheckedCreateWithoutBuildingInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
   bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
 }
 
 export type RoomCreateOrConnectWithoutBuildingInput = {
@@ -774,9 +999,13 @@ export type RoomScalarWhereInput = {
   capacity?: Prisma.IntFilter<"Room"> | number
   rows?: Prisma.IntFilter<"Room"> | number
   cols?: Prisma.IntFilter<"Room"> | number
+  layout?: Prisma.JsonNullableFilter<"Room">
   claimed?: Prisma.IntFilter<"Room"> | number
   distance?: Prisma.FloatFilter<"Room"> | number
   version?: Prisma.IntFilter<"Room"> | number
+  bufferBeforeMinutes?: Prisma.IntNullableFilter<"Room"> | number | null
+  bufferAfterMinutes?: Prisma.IntNullableFilter<"Room"> | number | null
+  requiresApproval?: Prisma.BoolFilter<"Room"> | boolean
   branchAllocated?: Prisma.EnumBranchNullableFilter<"Room"> | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFilter<"Room"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Room"> | Date | string
@@ -788,15 +1017,23 @@ export type RoomCreateWithoutFloorInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
   seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
   bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
 }
 
 export type RoomUncheckedCreateWithoutFloorInput = {
@@ -806,14 +1043,22 @@ export type RoomUncheckedCreateWithoutFloorInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
   bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
 }
 
 export type RoomCreateOrConnectWithoutFloorInput = {
@@ -842,21 +1087,216 @@ export type RoomUpdateManyWithWhereWithoutFloorInput = {
   data: Prisma.XOR<Prisma.RoomUpdateManyMutationInput, Prisma.RoomUncheckedUpdateManyWithoutFloorInput>
 }
 
+export type RoomCreateWithoutBookingPolicyInput = {
+  id?: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
+  floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
+  seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+}
+
+export type RoomUncheckedCreateWithoutBookingPolicyInput = {
+  id?: string
+  buildingId: string
+  floorId: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+}
+
+export type RoomCreateOrConnectWithoutBookingPolicyInput = {
+  where: Prisma.RoomWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomCreateWithoutBookingPolicyInput, Prisma.RoomUncheckedCreateWithoutBookingPolicyInput>
+}
+
+export type RoomUpsertWithoutBookingPolicyInput = {
+  update: Prisma.XOR<Prisma.RoomUpdateWithoutBookingPolicyInput, Prisma.RoomUncheckedUpdateWithoutBookingPolicyInput>
+  create: Prisma.XOR<Prisma.RoomCreateWithoutBookingPolicyInput, Prisma.RoomUncheckedCreateWithoutBookingPolicyInput>
+  where?: Prisma.RoomWhereInput
+}
+
+export type RoomUpdateToOneWithWhereWithoutBookingPolicyInput = {
+  where?: Prisma.RoomWhereInput
+  data: Prisma.XOR<Prisma.RoomUpdateWithoutBookingPolicyInput, Prisma.RoomUncheckedUpdateWithoutBookingPolicyInput>
+}
+
+export type RoomUpdateWithoutBookingPolicyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
+  floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
+  seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+}
+
+export type RoomUncheckedUpdateWithoutBookingPolicyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.StringFieldUpdateOperationsInput | string
+  floorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+}
+
+export type RoomCreateWithoutAmenitiesInput = {
+  id?: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
+  floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
+  seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
+}
+
+export type RoomUncheckedCreateWithoutAmenitiesInput = {
+  id?: string
+  buildingId: string
+  floorId: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
+}
+
+export type RoomCreateOrConnectWithoutAmenitiesInput = {
+  where: Prisma.RoomWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomCreateWithoutAmenitiesInput, Prisma.RoomUncheckedCreateWithoutAmenitiesInput>
+}
+
+export type RoomUpsertWithWhereUniqueWithoutAmenitiesInput = {
+  where: Prisma.RoomWhereUniqueInput
+  update: Prisma.XOR<Prisma.RoomUpdateWithoutAmenitiesInput, Prisma.RoomUncheckedUpdateWithoutAmenitiesInput>
+  create: Prisma.XOR<Prisma.RoomCreateWithoutAmenitiesInput, Prisma.RoomUncheckedCreateWithoutAmenitiesInput>
+}
+
+export type RoomUpdateWithWhereUniqueWithoutAmenitiesInput = {
+  where: Prisma.RoomWhereUniqueInput
+  data: Prisma.XOR<Prisma.RoomUpdateWithoutAmenitiesInput, Prisma.RoomUncheckedUpdateWithoutAmenitiesInput>
+}
+
+export type RoomUpdateManyWithWhereWithoutAmenitiesInput = {
+  where: Prisma.RoomScalarWhereInput
+  data: Prisma.XOR<Prisma.RoomUpdateManyMutationInput, Prisma.RoomUncheckedUpdateManyWithoutAmenitiesInput>
+}
+
 export type RoomCreateWithoutSeatsInput = {
   id?: string
   name: string
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
   floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
   bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
 }
 
 export type RoomUncheckedCreateWithoutSeatsInput = {
@@ -867,13 +1307,21 @@ export type RoomUncheckedCreateWithoutSeatsInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
 }
 
 export type RoomCreateOrConnectWithoutSeatsInput = {
@@ -898,15 +1346,23 @@ export type RoomUpdateWithoutSeatsInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
   floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
   bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateWithoutSeatsInput = {
@@ -917,13 +1373,21 @@ export type RoomUncheckedUpdateWithoutSeatsInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomCreateWithoutBookingsInput = {
@@ -932,15 +1396,23 @@ export type RoomCreateWithoutBookingsInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
   floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
   seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
 }
 
 export type RoomUncheckedCreateWithoutBookingsInput = {
@@ -951,13 +1423,21 @@ export type RoomUncheckedCreateWithoutBookingsInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
   seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
 }
 
 export type RoomCreateOrConnectWithoutBookingsInput = {
@@ -982,15 +1462,23 @@ export type RoomUpdateWithoutBookingsInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
   floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
   seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateWithoutBookingsInput = {
@@ -1001,13 +1489,253 @@ export type RoomUncheckedUpdateWithoutBookingsInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
+}
+
+export type RoomCreateWithoutWaitlistInput = {
+  id?: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
+  floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
+  seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
+}
+
+export type RoomUncheckedCreateWithoutWaitlistInput = {
+  id?: string
+  buildingId: string
+  floorId: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  blackouts?: Prisma.RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
+}
+
+export type RoomCreateOrConnectWithoutWaitlistInput = {
+  where: Prisma.RoomWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomCreateWithoutWaitlistInput, Prisma.RoomUncheckedCreateWithoutWaitlistInput>
+}
+
+export type RoomUpsertWithoutWaitlistInput = {
+  update: Prisma.XOR<Prisma.RoomUpdateWithoutWaitlistInput, Prisma.RoomUncheckedUpdateWithoutWaitlistInput>
+  create: Prisma.XOR<Prisma.RoomCreateWithoutWaitlistInput, Prisma.RoomUncheckedCreateWithoutWaitlistInput>
+  where?: Prisma.RoomWhereInput
+}
+
+export type RoomUpdateToOneWithWhereWithoutWaitlistInput = {
+  where?: Prisma.RoomWhereInput
+  data: Prisma.XOR<Prisma.RoomUpdateWithoutWaitlistInput, Prisma.RoomUncheckedUpdateWithoutWaitlistInput>
+}
+
+export type RoomUpdateWithoutWaitlistInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
+  floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
+  seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
+}
+
+export type RoomUncheckedUpdateWithoutWaitlistInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.StringFieldUpdateOperationsInput | string
+  floorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
+}
+
+export type RoomCreateWithoutBlackoutsInput = {
+  id?: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  building: Prisma.BuildingCreateNestedOneWithoutRoomsInput
+  floor: Prisma.FloorCreateNestedOneWithoutRoomsInput
+  seats?: Prisma.SeatCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyCreateNestedOneWithoutRoomInput
+}
+
+export type RoomUncheckedCreateWithoutBlackoutsInput = {
+  id?: string
+  buildingId: string
+  floorId: string
+  name: string
+  capacity: number
+  rows: number
+  cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: number
+  distance?: number
+  version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
+  branchAllocated?: $Enums.Branch | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  seats?: Prisma.SeatUncheckedCreateNestedManyWithoutRoomInput
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutRoomInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput
+  amenities?: Prisma.AmenityUncheckedCreateNestedManyWithoutRoomsInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedCreateNestedOneWithoutRoomInput
+}
+
+export type RoomCreateOrConnectWithoutBlackoutsInput = {
+  where: Prisma.RoomWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomCreateWithoutBlackoutsInput, Prisma.RoomUncheckedCreateWithoutBlackoutsInput>
+}
+
+export type RoomUpsertWithoutBlackoutsInput = {
+  update: Prisma.XOR<Prisma.RoomUpdateWithoutBlackoutsInput, Prisma.RoomUncheckedUpdateWithoutBlackoutsInput>
+  create: Prisma.XOR<Prisma.RoomCreateWithoutBlackoutsInput, Prisma.RoomUncheckedCreateWithoutBlackoutsInput>
+  where?: Prisma.RoomWhereInput
+}
+
+export type RoomUpdateToOneWithWhereWithoutBlackoutsInput = {
+  where?: Prisma.RoomWhereInput
+  data: Prisma.XOR<Prisma.RoomUpdateWithoutBlackoutsInput, Prisma.RoomUncheckedUpdateWithoutBlackoutsInput>
+}
+
+export type RoomUpdateWithoutBlackoutsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
+  floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
+  seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
+}
+
+export type RoomUncheckedUpdateWithoutBlackoutsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.StringFieldUpdateOperationsInput | string
+  floorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomCreateManyBuildingInput = {
@@ -1017,9 +1745,13 @@ export type RoomCreateManyBuildingInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1031,15 +1763,23 @@ export type RoomUpdateWithoutBuildingInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
   seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
   bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateWithoutBuildingInput = {
@@ -1049,14 +1789,22 @@ export type RoomUncheckedUpdateWithoutBuildingInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
   bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateManyWithoutBuildingInput = {
@@ -1066,9 +1814,13 @@ export type RoomUncheckedUpdateManyWithoutBuildingInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1081,9 +1833,13 @@ export type RoomCreateManyFloorInput = {
   capacity: number
   rows: number
   cols: number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: number
   distance?: number
   version?: number
+  bufferBeforeMinutes?: number | null
+  bufferAfterMinutes?: number | null
+  requiresApproval?: boolean
   branchAllocated?: $Enums.Branch | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1095,15 +1851,23 @@ export type RoomUpdateWithoutFloorInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
   seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
   bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateWithoutFloorInput = {
@@ -1113,14 +1877,22 @@ export type RoomUncheckedUpdateWithoutFloorInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
   bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  amenities?: Prisma.AmenityUncheckedUpdateManyWithoutRoomsNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
 }
 
 export type RoomUncheckedUpdateManyWithoutFloorInput = {
@@ -1130,9 +1902,83 @@ export type RoomUncheckedUpdateManyWithoutFloorInput = {
   capacity?: Prisma.IntFieldUpdateOperationsInput | number
   rows?: Prisma.IntFieldUpdateOperationsInput | number
   cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   claimed?: Prisma.IntFieldUpdateOperationsInput | number
   distance?: Prisma.FloatFieldUpdateOperationsInput | number
   version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RoomUpdateWithoutAmenitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  building?: Prisma.BuildingUpdateOneRequiredWithoutRoomsNestedInput
+  floor?: Prisma.FloorUpdateOneRequiredWithoutRoomsNestedInput
+  seats?: Prisma.SeatUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUpdateManyWithoutRoomNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUpdateOneWithoutRoomNestedInput
+}
+
+export type RoomUncheckedUpdateWithoutAmenitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.StringFieldUpdateOperationsInput | string
+  floorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  seats?: Prisma.SeatUncheckedUpdateManyWithoutRoomNestedInput
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutRoomNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput
+  blackouts?: Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput
+  bookingPolicy?: Prisma.BookingPolicyUncheckedUpdateOneWithoutRoomNestedInput
+}
+
+export type RoomUncheckedUpdateManyWithoutAmenitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  buildingId?: Prisma.StringFieldUpdateOperationsInput | string
+  floorId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  rows?: Prisma.IntFieldUpdateOperationsInput | number
+  cols?: Prisma.IntFieldUpdateOperationsInput | number
+  layout?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  claimed?: Prisma.IntFieldUpdateOperationsInput | number
+  distance?: Prisma.FloatFieldUpdateOperationsInput | number
+  version?: Prisma.IntFieldUpdateOperationsInput | number
+  bufferBeforeMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bufferAfterMinutes?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  requiresApproval?: Prisma.BoolFieldUpdateOperationsInput | boolean
   branchAllocated?: Prisma.NullableEnumBranchFieldUpdateOperationsInput | $Enums.Branch | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1146,11 +1992,17 @@ export type RoomUncheckedUpdateManyWithoutFloorInput = {
 export type RoomCountOutputType = {
   seats: number
   bookings: number
+  waitlist: number
+  blackouts: number
+  amenities: number
 }
 
 export type RoomCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   seats?: boolean | RoomCountOutputTypeCountSeatsArgs
   bookings?: boolean | RoomCountOutputTypeCountBookingsArgs
+  waitlist?: boolean | RoomCountOutputTypeCountWaitlistArgs
+  blackouts?: boolean | RoomCountOutputTypeCountBlackoutsArgs
+  amenities?: boolean | RoomCountOutputTypeCountAmenitiesArgs
 }
 
 /**
@@ -1177,6 +2029,27 @@ export type RoomCountOutputTypeCountBookingsArgs<ExtArgs extends runtime.Types.E
   where?: Prisma.RoomBookingWhereInput
 }
 
+/**
+ * RoomCountOutputType without action
+ */
+export type RoomCountOutputTypeCountWaitlistArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+/**
+ * RoomCountOutputType without action
+ */
+export type RoomCountOutputTypeCountBlackoutsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RoomBlackoutWhereInput
+}
+
+/**
+ * RoomCountOutputType without action
+ */
+export type RoomCountOutputTypeCountAmenitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AmenityWhereInput
+}
+
 
 export type RoomSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1186,9 +2059,13 @@ export type RoomSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   capacity?: boolean
   rows?: boolean
   cols?: boolean
+  layout?: boolean
   claimed?: boolean
   distance?: boolean
   version?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
+  requiresApproval?: boolean
   branchAllocated?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -1196,6 +2073,10 @@ export type RoomSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   floor?: boolean | Prisma.FloorDefaultArgs<ExtArgs>
   seats?: boolean | Prisma.Room$seatsArgs<ExtArgs>
   bookings?: boolean | Prisma.Room$bookingsArgs<ExtArgs>
+  waitlist?: boolean | Prisma.Room$waitlistArgs<ExtArgs>
+  blackouts?: boolean | Prisma.Room$blackoutsArgs<ExtArgs>
+  amenities?: boolean | Prisma.Room$amenitiesArgs<ExtArgs>
+  bookingPolicy?: boolean | Prisma.Room$bookingPolicyArgs<ExtArgs>
   _count?: boolean | Prisma.RoomCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["room"]>
 
@@ -1207,9 +2088,13 @@ export type RoomSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   capacity?: boolean
   rows?: boolean
   cols?: boolean
+  layout?: boolean
   claimed?: boolean
   distance?: boolean
   version?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
+  requiresApproval?: boolean
   branchAllocated?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -1225,9 +2110,13 @@ export type RoomSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   capacity?: boolean
   rows?: boolean
   cols?: boolean
+  layout?: boolean
   claimed?: boolean
   distance?: boolean
   version?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
+  requiresApproval?: boolean
   branchAllocated?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -1243,20 +2132,28 @@ export type RoomSelectScalar = {
   capacity?: boolean
   rows?: boolean
   cols?: boolean
+  layout?: boolean
   claimed?: boolean
   distance?: boolean
   version?: boolean
+  bufferBeforeMinutes?: boolean
+  bufferAfterMinutes?: boolean
+  requiresApproval?: boolean
   branchAllocated?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type RoomOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "buildingId" | "floorId" | "name" | "capacity" | "rows" | "cols" | "claimed" | "distance" | "version" | "branchAllocated" | "createdAt" | "updatedAt", ExtArgs["result"]["room"]>
+export type RoomOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "buildingId" | "floorId" | "name" | "capacity" | "rows" | "cols" | "layout" | "claimed" | "distance" | "version" | "bufferBeforeMinutes" | "bufferAfterMinutes" | "requiresApproval" | "branchAllocated" | "createdAt" | "updatedAt", ExtArgs["result"]["room"]>
 export type RoomInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   building?: boolean | Prisma.BuildingDefaultArgs<ExtArgs>
   floor?: boolean | Prisma.FloorDefaultArgs<ExtArgs>
   seats?: boolean | Prisma.Room$seatsArgs<ExtArgs>
   bookings?: boolean | Prisma.Room$bookingsArgs<ExtArgs>
+  waitlist?: boolean | Prisma.Room$waitlistArgs<ExtArgs>
+  blackouts?: boolean | Prisma.Room$blackoutsArgs<ExtArgs>
+  amenities?: boolean | Prisma.Room$amenitiesArgs<ExtArgs>
+  bookingPolicy?: boolean | Prisma.Room$bookingPolicyArgs<ExtArgs>
   _count?: boolean | Prisma.RoomCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type RoomIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1275,6 +2172,10 @@ export type $RoomPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     floor: Prisma.$FloorPayload<ExtArgs>
     seats: Prisma.$SeatPayload<ExtArgs>[]
     bookings: Prisma.$RoomBookingPayload<ExtArgs>[]
+    waitlist: Prisma.$WaitlistEntryPayload<ExtArgs>[]
+    blackouts: Prisma.$RoomBlackoutPayload<ExtArgs>[]
+    amenities: Prisma.$AmenityPayload<ExtArgs>[]
+    bookingPolicy: Prisma.$BookingPolicyPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1284,9 +2185,13 @@ export type $RoomPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     capacity: number
     rows: number
     cols: number
+    layout: runtime.JsonValue | null
     claimed: number
     distance: number
     version: number
+    bufferBeforeMinutes: number | null
+    bufferAfterMinutes: number | null
+    requiresApproval: boolean
     branchAllocated: $Enums.Branch | null
     createdAt: Date
     updatedAt: Date
@@ -1688,6 +2593,10 @@ export interface Prisma__RoomClient<T, Null = never, ExtArgs extends runtime.Typ
   floor<T extends Prisma.FloorDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.FloorDefaultArgs<ExtArgs>>): Prisma.Prisma__FloorClient<runtime.Types.Result.GetResult<Prisma.$FloorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   seats<T extends Prisma.Room$seatsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Room$seatsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SeatPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   bookings<T extends Prisma.Room$bookingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Room$bookingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBookingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlist<T extends Prisma.Room$waitlistArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Room$waitlistArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  blackouts<T extends Prisma.Room$blackoutsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Room$blackoutsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  amenities<T extends Prisma.Room$amenitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Room$amenitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AmenityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  bookingPolicy<T extends Prisma.Room$bookingPolicyArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Room$bookingPolicyArgs<ExtArgs>>): Prisma.Prisma__BookingPolicyClient<runtime.Types.Result.GetResult<Prisma.$BookingPolicyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1724,9 +2633,13 @@ export interface RoomFieldRefs {
   readonly capacity: Prisma.FieldRef<"Room", 'Int'>
   readonly rows: Prisma.FieldRef<"Room", 'Int'>
   readonly cols: Prisma.FieldRef<"Room", 'Int'>
+  readonly layout: Prisma.FieldRef<"Room", 'Json'>
   readonly claimed: Prisma.FieldRef<"Room", 'Int'>
   readonly distance: Prisma.FieldRef<"Room", 'Float'>
   readonly version: Prisma.FieldRef<"Room", 'Int'>
+  readonly bufferBeforeMinutes: Prisma.FieldRef<"Room", 'Int'>
+  readonly bufferAfterMinutes: Prisma.FieldRef<"Room", 'Int'>
+  readonly requiresApproval: Prisma.FieldRef<"Room", 'Boolean'>
   readonly branchAllocated: Prisma.FieldRef<"Room", 'Branch'>
   readonly createdAt: Prisma.FieldRef<"Room", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Room", 'DateTime'>
@@ -2173,6 +3086,97 @@ export type Room$bookingsArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   distinct?: Prisma.RoomBookingScalarFieldEnum | Prisma.RoomBookingScalarFieldEnum[]
 }
 
+/**
+ * Room.waitlist
+ */
+export type Room$waitlistArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * Room.blackouts
+ */
+export type Room$blackoutsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  where?: Prisma.RoomBlackoutWhereInput
+  orderBy?: Prisma.RoomBlackoutOrderByWithRelationInput | Prisma.RoomBlackoutOrderByWithRelationInput[]
+  cursor?: Prisma.RoomBlackoutWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RoomBlackoutScalarFieldEnum | Prisma.RoomBlackoutScalarFieldEnum[]
+}
+
+/**
+ * Room.amenities
+ */
+export type Room$amenitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Amenity
+   */
+  select?: Prisma.AmenitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Amenity
+   */
+  omit?: Prisma.AmenityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AmenityInclude<ExtArgs> | null
+  where?: Prisma.AmenityWhereInput
+  orderBy?: Prisma.AmenityOrderByWithRelationInput | Prisma.AmenityOrderByWithRelationInput[]
+  cursor?: Prisma.AmenityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AmenityScalarFieldEnum | Prisma.AmenityScalarFieldEnum[]
+}
+
+/**
+ * Room.bookingPolicy
+ */
+export type Room$bookingPolicyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingPolicy
+   */
+  select?: Prisma.BookingPolicySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingPolicy
+   */
+  omit?: Prisma.BookingPolicyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingPolicyInclude<ExtArgs> | null
+  where?: Prisma.BookingPolicyWhereInput
+}
+
 /**
  * Room without action
  */
@@ -0,0 +1,1409 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `RoomBlackout` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model RoomBlackout
+ * 
+ */
+export type RoomBlackoutModel = runtime.Types.Result.DefaultSelection<Prisma.$RoomBlackoutPayload>
+
+export type AggregateRoomBlackout = {
+  _count: RoomBlackoutCountAggregateOutputType | null
+  _min: RoomBlackoutMinAggregateOutputType | null
+  _max: RoomBlackoutMaxAggregateOutputType | null
+}
+
+export type RoomBlackoutMinAggregateOutputType = {
+  id: string | null
+  roomId: string | null
+  startTime: Date | null
+  endTime: Date | null
+  reason: string | null
+  createdById: string | null
+  createdAt: Date | null
+}
+
+export type RoomBlackoutMaxAggregateOutputType = {
+  id: string | null
+  roomId: string | null
+  startTime: Date | null
+  endTime: Date | null
+  reason: string | null
+  createdById: string | null
+  createdAt: Date | null
+}
+
+export type RoomBlackoutCountAggregateOutputType = {
+  id: number
+  roomId: number
+  startTime: number
+  endTime: number
+  reason: number
+  createdById: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RoomBlackoutMinAggregateInputType = {
+  id?: true
+  roomId?: true
+  startTime?: true
+  endTime?: true
+  reason?: true
+  createdById?: true
+  createdAt?: true
+}
+
+export type RoomBlackoutMaxAggregateInputType = {
+  id?: true
+  roomId?: true
+  startTime?: true
+  endTime?: true
+  reason?: true
+  createdById?: true
+  createdAt?: true
+}
+
+export type RoomBlackoutCountAggregateInputType = {
+  id?: true
+  roomId?: true
+  startTime?: true
+  endTime?: true
+  reason?: true
+  createdById?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RoomBlackoutAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RoomBlackout to aggregate.
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RoomBlackouts to fetch.
+   */
+  orderBy?: Prisma.RoomBlackoutOrderByWithRelationInput | Prisma.RoomBlackoutOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RoomBlackoutWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RoomBlackouts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RoomBlackouts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RoomBlackouts
+  **/
+  _count?: true | RoomBlackoutCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RoomBlackoutMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RoomBlackoutMaxAggregateInputType
+}
+
+export type GetRoomBlackoutAggregateType<T extends RoomBlackoutAggregateArgs> = {
+      [P in keyof T & keyof AggregateRoomBlackout]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRoomBlackout[P]>
+    : Prisma.GetScalarType<T[P], AggregateRoomBlackout[P]>
+}
+
+
+
+
+export type RoomBlackoutGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RoomBlackoutWhereInput
+  orderBy?: Prisma.RoomBlackoutOrderByWithAggregationInput | Prisma.RoomBlackoutOrderByWithAggregationInput[]
+  by: Prisma.RoomBlackoutScalarFieldEnum[] | Prisma.RoomBlackoutScalarFieldEnum
+  having?: Prisma.RoomBlackoutScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RoomBlackoutCountAggregateInputType | true
+  _min?: RoomBlackoutMinAggregateInputType
+  _max?: RoomBlackoutMaxAggregateInputType
+}
+
+export type RoomBlackoutGroupByOutputType = {
+  id: string
+  roomId: string
+  startTime: Date
+  endTime: Date
+  reason: string
+  createdById: string | null
+  createdAt: Date
+  _count: RoomBlackoutCountAggregateOutputType | null
+  _min: RoomBlackoutMinAggregateOutputType | null
+  _max: RoomBlackoutMaxAggregateOutputType | null
+}
+
+type GetRoomBlackoutGroupByPayload<T extends RoomBlackoutGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RoomBlackoutGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RoomBlackoutGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RoomBlackoutGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RoomBlackoutGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RoomBlackoutWhereInput = {
+  AND?: Prisma.RoomBlackoutWhereInput | Prisma.RoomBlackoutWhereInput[]
+  OR?: Prisma.RoomBlackoutWhereInput[]
+  NOT?: Prisma.RoomBlackoutWhereInput | Prisma.RoomBlackoutWhereInput[]
+  id?: Prisma.StringFilter<"RoomBlackout"> | string
+  roomId?: Prisma.StringFilter<"RoomBlackout"> | string
+  startTime?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  endTime?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  reason?: Prisma.StringFilter<"RoomBlackout"> | string
+  createdById?: Prisma.StringNullableFilter<"RoomBlackout"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>
+}
+
+export type RoomBlackoutOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  room?: Prisma.RoomOrderByWithRelationInput
+}
+
+export type RoomBlackoutWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RoomBlackoutWhereInput | Prisma.RoomBlackoutWhereInput[]
+  OR?: Prisma.RoomBlackoutWhereInput[]
+  NOT?: Prisma.RoomBlackoutWhereInput | Prisma.RoomBlackoutWhereInput[]
+  roomId?: Prisma.StringFilter<"RoomBlackout"> | string
+  startTime?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  endTime?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  reason?: Prisma.StringFilter<"RoomBlackout"> | string
+  createdById?: Prisma.StringNullableFilter<"RoomBlackout"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>
+}, "id">
+
+export type RoomBlackoutOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RoomBlackoutCountOrderByAggregateInput
+  _max?: Prisma.RoomBlackoutMaxOrderByAggregateInput
+  _min?: Prisma.RoomBlackoutMinOrderByAggregateInput
+}
+
+export type RoomBlackoutScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RoomBlackoutScalarWhereWithAggregatesInput | Prisma.RoomBlackoutScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RoomBlackoutScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RoomBlackoutScalarWhereWithAggregatesInput | Prisma.RoomBlackoutScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RoomBlackout"> | string
+  roomId?: Prisma.StringWithAggregatesFilter<"RoomBlackout"> | string
+  startTime?: Prisma.DateTimeWithAggregatesFilter<"RoomBlackout"> | Date | string
+  endTime?: Prisma.DateTimeWithAggregatesFilter<"RoomBlackout"> | Date | string
+  reason?: Prisma.StringWithAggregatesFilter<"RoomBlackout"> | string
+  createdById?: Prisma.StringNullableWithAggregatesFilter<"RoomBlackout"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RoomBlackout"> | Date | string
+}
+
+export type RoomBlackoutCreateInput = {
+  id?: string
+  startTime: Date | string
+  endTime: Date | string
+  reason: string
+  createdById?: string | null
+  createdAt?: Date | string
+  room: Prisma.RoomCreateNestedOneWithoutBlackoutsInput
+}
+
+export type RoomBlackoutUncheckedCreateInput = {
+  id?: string
+  roomId: string
+  startTime: Date | string
+  endTime: Date | string
+  reason: string
+  createdById?: string | null
+  createdAt?: Date | string
+}
+
+export type RoomBlackoutUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  room?: Prisma.RoomUpdateOneRequiredWithoutBlackoutsNestedInput
+}
+
+export type RoomBlackoutUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RoomBlackoutCreateManyInput = {
+  id?: string
+  roomId: string
+  startTime: Date | string
+  endTime: Date | string
+  reason: string
+  createdById?: string | null
+  createdAt?: Date | string
+}
+
+export type RoomBlackoutUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RoomBlackoutUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RoomBlackoutListRelationFilter = {
+  every?: Prisma.RoomBlackoutWhereInput
+  some?: Prisma.RoomBlackoutWhereInput
+  none?: Prisma.RoomBlackoutWhereInput
+}
+
+export type RoomBlackoutOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RoomBlackoutCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RoomBlackoutMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RoomBlackoutMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RoomBlackoutCreateNestedManyWithoutRoomInput = {
+  create?: Prisma.XOR<Prisma.RoomBlackoutCreateWithoutRoomInput, Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput> | Prisma.RoomBlackoutCreateWithoutRoomInput[] | Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput | Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput[]
+  createMany?: Prisma.RoomBlackoutCreateManyRoomInputEnvelope
+  connect?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+}
+
+export type RoomBlackoutUncheckedCreateNestedManyWithoutRoomInput = {
+  create?: Prisma.XOR<Prisma.RoomBlackoutCreateWithoutRoomInput, Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput> | Prisma.RoomBlackoutCreateWithoutRoomInput[] | Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput | Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput[]
+  createMany?: Prisma.RoomBlackoutCreateManyRoomInputEnvelope
+  connect?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+}
+
+export type RoomBlackoutUpdateManyWithoutRoomNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomBlackoutCreateWithoutRoomInput, Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput> | Prisma.RoomBlackoutCreateWithoutRoomInput[] | Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput | Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput[]
+  upsert?: Prisma.RoomBlackoutUpsertWithWhereUniqueWithoutRoomInput | Prisma.RoomBlackoutUpsertWithWhereUniqueWithoutRoomInput[]
+  createMany?: Prisma.RoomBlackoutCreateManyRoomInputEnvelope
+  set?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  disconnect?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  delete?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  connect?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  update?: Prisma.RoomBlackoutUpdateWithWhereUniqueWithoutRoomInput | Prisma.RoomBlackoutUpdateWithWhereUniqueWithoutRoomInput[]
+  updateMany?: Prisma.RoomBlackoutUpdateManyWithWhereWithoutRoomInput | Prisma.RoomBlackoutUpdateManyWithWhereWithoutRoomInput[]
+  deleteMany?: Prisma.RoomBlackoutScalarWhereInput | Prisma.RoomBlackoutScalarWhereInput[]
+}
+
+export type RoomBlackoutUncheckedUpdateManyWithoutRoomNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomBlackoutCreateWithoutRoomInput, Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput> | Prisma.RoomBlackoutCreateWithoutRoomInput[] | Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput | Prisma.RoomBlackoutCreateOrConnectWithoutRoomInput[]
+  upsert?: Prisma.RoomBlackoutUpsertWithWhereUniqueWithoutRoomInput | Prisma.RoomBlackoutUpsertWithWhereUniqueWithoutRoomInput[]
+  createMany?: Prisma.RoomBlackoutCreateManyRoomInputEnvelope
+  set?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  disconnect?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  delete?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  connect?: Prisma.RoomBlackoutWhereUniqueInput | Prisma.RoomBlackoutWhereUniqueInput[]
+  update?: Prisma.RoomBlackoutUpdateWithWhereUniqueWithoutRoomInput | Prisma.RoomBlackoutUpdateWithWhereUniqueWithoutRoomInput[]
+  updateMany?: Prisma.RoomBlackoutUpdateManyWithWhereWithoutRoomInput | Prisma.RoomBlackoutUpdateManyWithWhereWithoutRoomInput[]
+  deleteMany?: Prisma.RoomBlackoutScalarWhereInput | Prisma.RoomBlackoutScalarWhereInput[]
+}
+
+export type RoomBlackoutCreateWithoutRoomInput = {
+  id?: string
+  startTime: Date | string
+  endTime: Date | string
+  reason: string
+  createdById?: string | null
+  createdAt?: Date | string
+}
+
+export type RoomBlackoutUncheckedCreateWithoutRoomInput = {
+  id?: string
+  startTime: Date | string
+  endTime: Date | string
+  reason: string
+  createdById?: string | null
+  createdAt?: Date | string
+}
+
+export type RoomBlackoutCreateOrConnectWithoutRoomInput = {
+  where: Prisma.RoomBlackoutWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomBlackoutCreateWithoutRoomInput, Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput>
+}
+
+export type RoomBlackoutCreateManyRoomInputEnvelope = {
+  data: Prisma.RoomBlackoutCreateManyRoomInput | Prisma.RoomBlackoutCreateManyRoomInput[]
+  skipDuplicates?: boolean
+}
+
+export type RoomBlackoutUpsertWithWhereUniqueWithoutRoomInput = {
+  where: Prisma.RoomBlackoutWhereUniqueInput
+  update: Prisma.XOR<Prisma.RoomBlackoutUpdateWithoutRoomInput, Prisma.RoomBlackoutUncheckedUpdateWithoutRoomInput>
+  create: Prisma.XOR<Prisma.RoomBlackoutCreateWithoutRoomInput, Prisma.RoomBlackoutUncheckedCreateWithoutRoomInput>
+}
+
+export type RoomBlackoutUpdateWithWhereUniqueWithoutRoomInput = {
+  where: Prisma.RoomBlackoutWhereUniqueInput
+  data: Prisma.XOR<Prisma.RoomBlackoutUpdateWithoutRoomInput, Prisma.RoomBlackoutUncheckedUpdateWithoutRoomInput>
+}
+
+export type RoomBlackoutUpdateManyWithWhereWithoutRoomInput = {
+  where: Prisma.RoomBlackoutScalarWhereInput
+  data: Prisma.XOR<Prisma.RoomBlackoutUpdateManyMutationInput, Prisma.RoomBlackoutUncheckedUpdateManyWithoutRoomInput>
+}
+
+export type RoomBlackoutScalarWhereInput = {
+  AND?: Prisma.RoomBlackoutScalarWhereInput | Prisma.RoomBlackoutScalarWhereInput[]
+  OR?: Prisma.RoomBlackoutScalarWhereInput[]
+  NOT?: Prisma.RoomBlackoutScalarWhereInput | Prisma.RoomBlackoutScalarWhereInput[]
+  id?: Prisma.StringFilter<"RoomBlackout"> | string
+  roomId?: Prisma.StringFilter<"RoomBlackout"> | string
+  startTime?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  endTime?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+  reason?: Prisma.StringFilter<"RoomBlackout"> | string
+  createdById?: Prisma.StringNullableFilter<"RoomBlackout"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"RoomBlackout"> | Date | string
+}
+
+export type RoomBlackoutCreateManyRoomInput = {
+  id?: string
+  startTime: Date | string
+  endTime: Date | string
+  reason: string
+  createdById?: string | null
+  createdAt?: Date | string
+}
+
+export type RoomBlackoutUpdateWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RoomBlackoutUncheckedUpdateWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RoomBlackoutUncheckedUpdateManyWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type RoomBlackoutSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  roomId?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["roomBlackout"]>
+
+export type RoomBlackoutSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  roomId?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["roomBlackout"]>
+
+export type RoomBlackoutSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  roomId?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["roomBlackout"]>
+
+export type RoomBlackoutSelectScalar = {
+  id?: boolean
+  roomId?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+}
+
+export type RoomBlackoutOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "roomId" | "startTime" | "endTime" | "reason" | "createdById" | "createdAt", ExtArgs["result"]["roomBlackout"]>
+export type RoomBlackoutInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+}
+export type RoomBlackoutIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+}
+export type RoomBlackoutIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+}
+
+export type $RoomBlackoutPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RoomBlackout"
+  objects: {
+    room: Prisma.$RoomPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    roomId: string
+    startTime: Date
+    endTime: Date
+    reason: string
+    createdById: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["roomBlackout"]>
+  composites: {}
+}
+
+export type RoomBlackoutGetPayload<S extends boolean | null | undefined | RoomBlackoutDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload, S>
+
+export type RoomBlackoutCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RoomBlackoutFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RoomBlackoutCountAggregateInputType | true
+  }
+
+export interface RoomBlackoutDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RoomBlackout'], meta: { name: 'RoomBlackout' } }
+  /**
+   * Find zero or one RoomBlackout that matches the filter.
+   * @param {RoomBlackoutFindUniqueArgs} args - Arguments to find a RoomBlackout
+   * @example
+   * // Get one RoomBlackout
+   * const roomBlackout = await prisma.roomBlackout.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RoomBlackoutFindUniqueArgs>(args: Prisma.SelectSubset<T, RoomBlackoutFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RoomBlackout that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RoomBlackoutFindUniqueOrThrowArgs} args - Arguments to find a RoomBlackout
+   * @example
+   * // Get one RoomBlackout
+   * const roomBlackout = await prisma.roomBlackout.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RoomBlackoutFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RoomBlackoutFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RoomBlackout that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutFindFirstArgs} args - Arguments to find a RoomBlackout
+   * @example
+   * // Get one RoomBlackout
+   * const roomBlackout = await prisma.roomBlackout.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RoomBlackoutFindFirstArgs>(args?: Prisma.SelectSubset<T, RoomBlackoutFindFirstArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RoomBlackout that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutFindFirstOrThrowArgs} args - Arguments to find a RoomBlackout
+   * @example
+   * // Get one RoomBlackout
+   * const roomBlackout = await prisma.roomBlackout.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RoomBlackoutFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RoomBlackoutFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RoomBlackouts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RoomBlackouts
+   * const roomBlackouts = await prisma.roomBlackout.findMany()
+   * 
+   * // Get first 10 RoomBlackouts
+   * const roomBlackouts = await prisma.roomBlackout.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const roomBlackoutWithIdOnly = await prisma.roomBlackout.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RoomBlackoutFindManyArgs>(args?: Prisma.SelectSubset<T, RoomBlackoutFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RoomBlackout.
+   * @param {RoomBlackoutCreateArgs} args - Arguments to create a RoomBlackout.
+   * @example
+   * // Create one RoomBlackout
+   * const RoomBlackout = await prisma.roomBlackout.create({
+   *   data: {
+   *     // ... data to create a RoomBlackout
+   *   }
+   * })
+   * 
+   */
+  create<T extends RoomBlackoutCreateArgs>(args: Prisma.SelectSubset<T, RoomBlackoutCreateArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RoomBlackouts.
+   * @param {RoomBlackoutCreateManyArgs} args - Arguments to create many RoomBlackouts.
+   * @example
+   * // Create many RoomBlackouts
+   * const roomBlackout = await prisma.roomBlackout.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RoomBlackoutCreateManyArgs>(args?: Prisma.SelectSubset<T, RoomBlackoutCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RoomBlackouts and returns the data saved in the database.
+   * @param {RoomBlackoutCreateManyAndReturnArgs} args - Arguments to create many RoomBlackouts.
+   * @example
+   * // Create many RoomBlackouts
+   * const roomBlackout = await prisma.roomBlackout.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RoomBlackouts and only return the `id`
+   * const roomBlackoutWithIdOnly = await prisma.roomBlackout.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RoomBlackoutCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RoomBlackoutCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RoomBlackout.
+   * @param {RoomBlackoutDeleteArgs} args - Arguments to delete one RoomBlackout.
+   * @example
+   * // Delete one RoomBlackout
+   * const RoomBlackout = await prisma.roomBlackout.delete({
+   *   where: {
+   *     // ... filter to delete one RoomBlackout
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RoomBlackoutDeleteArgs>(args: Prisma.SelectSubset<T, RoomBlackoutDeleteArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RoomBlackout.
+   * @param {RoomBlackoutUpdateArgs} args - Arguments to update one RoomBlackout.
+   * @example
+   * // Update one RoomBlackout
+   * const roomBlackout = await prisma.roomBlackout.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RoomBlackoutUpdateArgs>(args: Prisma.SelectSubset<T, RoomBlackoutUpdateArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RoomBlackouts.
+   * @param {RoomBlackoutDeleteManyArgs} args - Arguments to filter RoomBlackouts to delete.
+   * @example
+   * // Delete a few RoomBlackouts
+   * const { count } = await prisma.roomBlackout.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RoomBlackoutDeleteManyArgs>(args?: Prisma.SelectSubset<T, RoomBlackoutDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RoomBlackouts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RoomBlackouts
+   * const roomBlackout = await prisma.roomBlackout.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RoomBlackoutUpdateManyArgs>(args: Prisma.SelectSubset<T, RoomBlackoutUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RoomBlackouts and returns the data updated in the database.
+   * @param {RoomBlackoutUpdateManyAndReturnArgs} args - Arguments to update many RoomBlackouts.
+   * @example
+   * // Update many RoomBlackouts
+   * const roomBlackout = await prisma.roomBlackout.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RoomBlackouts and only return the `id`
+   * const roomBlackoutWithIdOnly = await prisma.roomBlackout.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RoomBlackoutUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RoomBlackoutUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RoomBlackout.
+   * @param {RoomBlackoutUpsertArgs} args - Arguments to update or create a RoomBlackout.
+   * @example
+   * // Update or create a RoomBlackout
+   * const roomBlackout = await prisma.roomBlackout.upsert({
+   *   create: {
+   *     // ... data to create a RoomBlackout
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RoomBlackout we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RoomBlackoutUpsertArgs>(args: Prisma.SelectSubset<T, RoomBlackoutUpsertArgs<ExtArgs>>): Prisma.Prisma__RoomBlackoutClient<runtime.Types.Result.GetResult<Prisma.$RoomBlackoutPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RoomBlackouts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutCountArgs} args - Arguments to filter RoomBlackouts to count.
+   * @example
+   * // Count the number of RoomBlackouts
+   * const count = await prisma.roomBlackout.count({
+   *   where: {
+   *     // ... the filter for the RoomBlackouts we want to count
+   *   }
+   * })
+  **/
+  count<T extends RoomBlackoutCountArgs>(
+    args?: Prisma.Subset<T, RoomBlackoutCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RoomBlackoutCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RoomBlackout.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RoomBlackoutAggregateArgs>(args: Prisma.Subset<T, RoomBlackoutAggregateArgs>): Prisma.PrismaPromise<GetRoomBlackoutAggregateType<T>>
+
+  /**
+   * Group by RoomBlackout.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RoomBlackoutGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RoomBlackoutGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RoomBlackoutGroupByArgs['orderBy'] }
+      : { orderBy?: RoomBlackoutGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RoomBlackoutGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRoomBlackoutGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RoomBlackout model
+ */
+readonly fields: RoomBlackoutFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RoomBlackout.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RoomBlackoutClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  room<T extends Prisma.RoomDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RoomDefaultArgs<ExtArgs>>): Prisma.Prisma__RoomClient<runtime.Types.Result.GetResult<Prisma.$RoomPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RoomBlackout model
+ */
+export interface RoomBlackoutFieldRefs {
+  readonly id: Prisma.FieldRef<"RoomBlackout", 'String'>
+  readonly roomId: Prisma.FieldRef<"RoomBlackout", 'String'>
+  readonly startTime: Prisma.FieldRef<"RoomBlackout", 'DateTime'>
+  readonly endTime: Prisma.FieldRef<"RoomBlackout", 'DateTime'>
+  readonly reason: Prisma.FieldRef<"RoomBlackout", 'String'>
+  readonly createdById: Prisma.FieldRef<"RoomBlackout", 'String'>
+  readonly createdAt: Prisma.FieldRef<"RoomBlackout", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RoomBlackout findUnique
+ */
+export type RoomBlackoutFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * Filter, which RoomBlackout to fetch.
+   */
+  where: Prisma.RoomBlackoutWhereUniqueInput
+}
+
+/**
+ * RoomBlackout findUniqueOrThrow
+ */
+export type RoomBlackoutFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * Filter, which RoomBlackout to fetch.
+   */
+  where: Prisma.RoomBlackoutWhereUniqueInput
+}
+
+/**
+ * RoomBlackout findFirst
+ */
+export type RoomBlackoutFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * Filter, which RoomBlackout to fetch.
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RoomBlackouts to fetch.
+   */
+  orderBy?: Prisma.RoomBlackoutOrderByWithRelationInput | Prisma.RoomBlackoutOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RoomBlackouts.
+   */
+  cursor?: Prisma.RoomBlackoutWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RoomBlackouts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RoomBlackouts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RoomBlackouts.
+   */
+  distinct?: Prisma.RoomBlackoutScalarFieldEnum | Prisma.RoomBlackoutScalarFieldEnum[]
+}
+
+/**
+ * RoomBlackout findFirstOrThrow
+ */
+export type RoomBlackoutFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * Filter, which RoomBlackout to fetch.
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RoomBlackouts to fetch.
+   */
+  orderBy?: Prisma.RoomBlackoutOrderByWithRelationInput | Prisma.RoomBlackoutOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RoomBlackouts.
+   */
+  cursor?: Prisma.RoomBlackoutWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RoomBlackouts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RoomBlackouts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RoomBlackouts.
+   */
+  distinct?: Prisma.RoomBlackoutScalarFieldEnum | Prisma.RoomBlackoutScalarFieldEnum[]
+}
+
+/**
+ * RoomBlackout findMany
+ */
+export type RoomBlackoutFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * Filter, which RoomBlackouts to fetch.
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RoomBlackouts to fetch.
+   */
+  orderBy?: Prisma.RoomBlackoutOrderByWithRelationInput | Prisma.RoomBlackoutOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RoomBlackouts.
+   */
+  cursor?: Prisma.RoomBlackoutWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RoomBlackouts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RoomBlackouts.
+   */
+  skip?: number
+  distinct?: Prisma.RoomBlackoutScalarFieldEnum | Prisma.RoomBlackoutScalarFieldEnum[]
+}
+
+/**
+ * RoomBlackout create
+ */
+export type RoomBlackoutCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RoomBlackout.
+   */
+  data: Prisma.XOR<Prisma.RoomBlackoutCreateInput, Prisma.RoomBlackoutUncheckedCreateInput>
+}
+
+/**
+ * RoomBlackout createMany
+ */
+export type RoomBlackoutCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RoomBlackouts.
+   */
+  data: Prisma.RoomBlackoutCreateManyInput | Prisma.RoomBlackoutCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RoomBlackout createManyAndReturn
+ */
+export type RoomBlackoutCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * The data used to create many RoomBlackouts.
+   */
+  data: Prisma.RoomBlackoutCreateManyInput | Prisma.RoomBlackoutCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RoomBlackout update
+ */
+export type RoomBlackoutUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RoomBlackout.
+   */
+  data: Prisma.XOR<Prisma.RoomBlackoutUpdateInput, Prisma.RoomBlackoutUncheckedUpdateInput>
+  /**
+   * Choose, which RoomBlackout to update.
+   */
+  where: Prisma.RoomBlackoutWhereUniqueInput
+}
+
+/**
+ * RoomBlackout updateMany
+ */
+export type RoomBlackoutUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RoomBlackouts.
+   */
+  data: Prisma.XOR<Prisma.RoomBlackoutUpdateManyMutationInput, Prisma.RoomBlackoutUncheckedUpdateManyInput>
+  /**
+   * Filter which RoomBlackouts to update
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * Limit how many RoomBlackouts to update.
+   */
+  limit?: number
+}
+
+/**
+ * RoomBlackout updateManyAndReturn
+ */
+export type RoomBlackoutUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * The data used to update RoomBlackouts.
+   */
+  data: Prisma.XOR<Prisma.RoomBlackoutUpdateManyMutationInput, Prisma.RoomBlackoutUncheckedUpdateManyInput>
+  /**
+   * Filter which RoomBlackouts to update
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * Limit how many RoomBlackouts to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RoomBlackout upsert
+ */
+export type RoomBlackoutUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RoomBlackout to update in case it exists.
+   */
+  where: Prisma.RoomBlackoutWhereUniqueInput
+  /**
+   * In case the RoomBlackout found by the `where` argument doesn't exist, create a new RoomBlackout with this data.
+   */
+  create: Prisma.XOR<Prisma.RoomBlackoutCreateInput, Prisma.RoomBlackoutUncheckedCreateInput>
+  /**
+   * In case the RoomBlackout was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RoomBlackoutUpdateInput, Prisma.RoomBlackoutUncheckedUpdateInput>
+}
+
+/**
+ * RoomBlackout delete
+ */
+export type RoomBlackoutDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+  /**
+   * Filter which RoomBlackout to delete.
+   */
+  where: Prisma.RoomBlackoutWhereUniqueInput
+}
+
+/**
+ * RoomBlackout deleteMany
+ */
+export type RoomBlackoutDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RoomBlackouts to delete
+   */
+  where?: Prisma.RoomBlackoutWhereInput
+  /**
+   * Limit how many RoomBlackouts to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RoomBlackout without action
+ */
+export type RoomBlackoutDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBlackout
+   */
+  select?: Prisma.RoomBlackoutSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RoomBlackout
+   */
+  omit?: Prisma.RoomBlackoutOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RoomBlackoutInclude<ExtArgs> | null
+}
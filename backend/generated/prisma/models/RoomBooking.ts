@@ -42,6 +42,11 @@ export type RoomBookingMinAggregateOutputType = {
   startTime: Date | null
   endTime: Date | null
   status: $Enums.BookingStatus | null
+  seriesId: string | null
+  cancelledAt: Date | null
+  adminReason: string | null
+  reviewComment: string | null
+  reviewedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -55,6 +60,11 @@ export type RoomBookingMaxAggregateOutputType = {
   startTime: Date | null
   endTime: Date | null
   status: $Enums.BookingStatus | null
+  seriesId: string | null
+  cancelledAt: Date | null
+  adminReason: string | null
+  reviewComment: string | null
+  reviewedAt: Date | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -68,6 +78,11 @@ export type RoomBookingCountAggregateOutputType = {
   startTime: number
   endTime: number
   status: number
+  seriesId: number
+  cancelledAt: number
+  adminReason: number
+  reviewComment: number
+  reviewedAt: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -91,6 +106,11 @@ export type RoomBookingMinAggregateInputType = {
   startTime?: true
   endTime?: true
   status?: true
+  seriesId?: true
+  cancelledAt?: true
+  adminReason?: true
+  reviewComment?: true
+  reviewedAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -104,6 +124,11 @@ export type RoomBookingMaxAggregateInputType = {
   startTime?: true
   endTime?: true
   status?: true
+  seriesId?: true
+  cancelledAt?: true
+  adminReason?: true
+  reviewComment?: true
+  reviewedAt?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -117,6 +142,11 @@ export type RoomBookingCountAggregateInputType = {
   startTime?: true
   endTime?: true
   status?: true
+  seriesId?: true
+  cancelledAt?: true
+  adminReason?: true
+  reviewComment?: true
+  reviewedAt?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -217,6 +247,11 @@ export type RoomBookingGroupByOutputType = {
   startTime: Date
   endTime: Date
   status: $Enums.BookingStatus
+  seriesId: string | null
+  cancelledAt: Date | null
+  adminReason: string | null
+  reviewComment: string | null
+  reviewedAt: Date | null
   createdAt: Date
   updatedAt: Date
   _count: RoomBookingCountAggregateOutputType | null
@@ -253,10 +288,17 @@ export type RoomBookingWhereInput = {
   startTime?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   endTime?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   status?: Prisma.EnumBookingStatusFilter<"RoomBooking"> | $Enums.BookingStatus
+  seriesId?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  cancelledAt?: Prisma.DateTimeNullableFilter<"RoomBooking"> | Date | string | null
+  adminReason?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  reviewComment?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"RoomBooking"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>
   teacher?: Prisma.XOR<Prisma.TeacherScalarRelationFilter, Prisma.TeacherWhereInput>
+  series?: Prisma.XOR<Prisma.BookingSeriesNullableScalarRelationFilter, Prisma.BookingSeriesWhereInput> | null
+  lifecycleJobs?: Prisma.BookingLifecycleJobListRelationFilter
 }
 
 export type RoomBookingOrderByWithRelationInput = {
@@ -268,10 +310,17 @@ export type RoomBookingOrderByWithRelationInput = {
   startTime?: Prisma.SortOrder
   endTime?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  adminReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewComment?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   room?: Prisma.RoomOrderByWithRelationInput
   teacher?: Prisma.TeacherOrderByWithRelationInput
+  series?: Prisma.BookingSeriesOrderByWithRelationInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobOrderByRelationAggregateInput
 }
 
 export type RoomBookingWhereUniqueInput = Prisma.AtLeast<{
@@ -286,10 +335,17 @@ export type RoomBookingWhereUniqueInput = Prisma.AtLeast<{
   startTime?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   endTime?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   status?: Prisma.EnumBookingStatusFilter<"RoomBooking"> | $Enums.BookingStatus
+  seriesId?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  cancelledAt?: Prisma.DateTimeNullableFilter<"RoomBooking"> | Date | string | null
+  adminReason?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  reviewComment?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"RoomBooking"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>
   teacher?: Prisma.XOR<Prisma.TeacherScalarRelationFilter, Prisma.TeacherWhereInput>
+  series?: Prisma.XOR<Prisma.BookingSeriesNullableScalarRelationFilter, Prisma.BookingSeriesWhereInput> | null
+  lifecycleJobs?: Prisma.BookingLifecycleJobListRelationFilter
 }, "id">
 
 export type RoomBookingOrderByWithAggregationInput = {
@@ -301,6 +357,11 @@ export type RoomBookingOrderByWithAggregationInput = {
   startTime?: Prisma.SortOrder
   endTime?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrderInput | Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  adminReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewComment?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.RoomBookingCountOrderByAggregateInput
@@ -322,6 +383,11 @@ export type RoomBookingScalarWhereWithAggregatesInput = {
   startTime?: Prisma.DateTimeWithAggregatesFilter<"RoomBooking"> | Date | string
   endTime?: Prisma.DateTimeWithAggregatesFilter<"RoomBooking"> | Date | string
   status?: Prisma.EnumBookingStatusWithAggregatesFilter<"RoomBooking"> | $Enums.BookingStatus
+  seriesId?: Prisma.StringNullableWithAggregatesFilter<"RoomBooking"> | string | null
+  cancelledAt?: Prisma.DateTimeNullableWithAggregatesFilter<"RoomBooking"> | Date | string | null
+  adminReason?: Prisma.StringNullableWithAggregatesFilter<"RoomBooking"> | string | null
+  reviewComment?: Prisma.StringNullableWithAggregatesFilter<"RoomBooking"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"RoomBooking"> | Date | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"RoomBooking"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"RoomBooking"> | Date | string
 }
@@ -333,10 +399,16 @@ export type RoomBookingCreateInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   room: Prisma.RoomCreateNestedOneWithoutBookingsInput
   teacher: Prisma.TeacherCreateNestedOneWithoutBookingsInput
+  series?: Prisma.BookingSeriesCreateNestedOneWithoutBookingsInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobCreateNestedManyWithoutBookingInput
 }
 
 export type RoomBookingUncheckedCreateInput = {
@@ -348,8 +420,14 @@ export type RoomBookingUncheckedCreateInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedCreateNestedManyWithoutBookingInput
 }
 
 export type RoomBookingUpdateInput = {
@@ -359,10 +437,16 @@ export type RoomBookingUpdateInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   room?: Prisma.RoomUpdateOneRequiredWithoutBookingsNestedInput
   teacher?: Prisma.TeacherUpdateOneRequiredWithoutBookingsNestedInput
+  series?: Prisma.BookingSeriesUpdateOneWithoutBookingsNestedInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobUpdateManyWithoutBookingNestedInput
 }
 
 export type RoomBookingUncheckedUpdateInput = {
@@ -374,8 +458,14 @@ export type RoomBookingUncheckedUpdateInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedUpdateManyWithoutBookingNestedInput
 }
 
 export type RoomBookingCreateManyInput = {
@@ -387,6 +477,11 @@ export type RoomBookingCreateManyInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -398,6 +493,10 @@ export type RoomBookingUpdateManyMutationInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -411,6 +510,11 @@ export type RoomBookingUncheckedUpdateManyInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -434,6 +538,11 @@ export type RoomBookingCountOrderByAggregateInput = {
   startTime?: Prisma.SortOrder
   endTime?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrder
+  adminReason?: Prisma.SortOrder
+  reviewComment?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -451,6 +560,11 @@ export type RoomBookingMaxOrderByAggregateInput = {
   startTime?: Prisma.SortOrder
   endTime?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrder
+  adminReason?: Prisma.SortOrder
+  reviewComment?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -464,6 +578,11 @@ export type RoomBookingMinOrderByAggregateInput = {
   startTime?: Prisma.SortOrder
   endTime?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrder
+  cancelledAt?: Prisma.SortOrder
+  adminReason?: Prisma.SortOrder
+  reviewComment?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -472,6 +591,11 @@ export type RoomBookingSumOrderByAggregateInput = {
   capacity?: Prisma.SortOrder
 }
 
+export type RoomBookingScalarRelationFilter = {
+  is?: Prisma.RoomBookingWhereInput
+  isNot?: Prisma.RoomBookingWhereInput
+}
+
 export type RoomBookingCreateNestedManyWithoutRoomInput = {
   create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutRoomInput, Prisma.RoomBookingUncheckedCreateWithoutRoomInput> | Prisma.RoomBookingCreateWithoutRoomInput[] | Prisma.RoomBookingUncheckedCreateWithoutRoomInput[]
   connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutRoomInput | Prisma.RoomBookingCreateOrConnectWithoutRoomInput[]
@@ -560,6 +684,62 @@ export type EnumBookingStatusFieldUpdateOperationsInput = {
   set?: $Enums.BookingStatus
 }
 
+export type RoomBookingCreateNestedManyWithoutSeriesInput = {
+  create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutSeriesInput, Prisma.RoomBookingUncheckedCreateWithoutSeriesInput> | Prisma.RoomBookingCreateWithoutSeriesInput[] | Prisma.RoomBookingUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutSeriesInput | Prisma.RoomBookingCreateOrConnectWithoutSeriesInput[]
+  createMany?: Prisma.RoomBookingCreateManySeriesInputEnvelope
+  connect?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+}
+
+export type RoomBookingUncheckedCreateNestedManyWithoutSeriesInput = {
+  create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutSeriesInput, Prisma.RoomBookingUncheckedCreateWithoutSeriesInput> | Prisma.RoomBookingCreateWithoutSeriesInput[] | Prisma.RoomBookingUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutSeriesInput | Prisma.RoomBookingCreateOrConnectWithoutSeriesInput[]
+  createMany?: Prisma.RoomBookingCreateManySeriesInputEnvelope
+  connect?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+}
+
+export type RoomBookingUpdateManyWithoutSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutSeriesInput, Prisma.RoomBookingUncheckedCreateWithoutSeriesInput> | Prisma.RoomBookingCreateWithoutSeriesInput[] | Prisma.RoomBookingUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutSeriesInput | Prisma.RoomBookingCreateOrConnectWithoutSeriesInput[]
+  upsert?: Prisma.RoomBookingUpsertWithWhereUniqueWithoutSeriesInput | Prisma.RoomBookingUpsertWithWhereUniqueWithoutSeriesInput[]
+  createMany?: Prisma.RoomBookingCreateManySeriesInputEnvelope
+  set?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  disconnect?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  delete?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  connect?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  update?: Prisma.RoomBookingUpdateWithWhereUniqueWithoutSeriesInput | Prisma.RoomBookingUpdateWithWhereUniqueWithoutSeriesInput[]
+  updateMany?: Prisma.RoomBookingUpdateManyWithWhereWithoutSeriesInput | Prisma.RoomBookingUpdateManyWithWhereWithoutSeriesInput[]
+  deleteMany?: Prisma.RoomBookingScalarWhereInput | Prisma.RoomBookingScalarWhereInput[]
+}
+
+export type RoomBookingUncheckedUpdateManyWithoutSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutSeriesInput, Prisma.RoomBookingUncheckedCreateWithoutSeriesInput> | Prisma.RoomBookingCreateWithoutSeriesInput[] | Prisma.RoomBookingUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutSeriesInput | Prisma.RoomBookingCreateOrConnectWithoutSeriesInput[]
+  upsert?: Prisma.RoomBookingUpsertWithWhereUniqueWithoutSeriesInput | Prisma.RoomBookingUpsertWithWhereUniqueWithoutSeriesInput[]
+  createMany?: Prisma.RoomBookingCreateManySeriesInputEnvelope
+  set?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  disconnect?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  delete?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  connect?: Prisma.RoomBookingWhereUniqueInput | Prisma.RoomBookingWhereUniqueInput[]
+  update?: Prisma.RoomBookingUpdateWithWhereUniqueWithoutSeriesInput | Prisma.RoomBookingUpdateWithWhereUniqueWithoutSeriesInput[]
+  updateMany?: Prisma.RoomBookingUpdateManyWithWhereWithoutSeriesInput | Prisma.RoomBookingUpdateManyWithWhereWithoutSeriesInput[]
+  deleteMany?: Prisma.RoomBookingScalarWhereInput | Prisma.RoomBookingScalarWhereInput[]
+}
+
+export type RoomBookingCreateNestedOneWithoutLifecycleJobsInput = {
+  create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutLifecycleJobsInput, Prisma.RoomBookingUncheckedCreateWithoutLifecycleJobsInput>
+  connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutLifecycleJobsInput
+  connect?: Prisma.RoomBookingWhereUniqueInput
+}
+
+export type RoomBookingUpdateOneRequiredWithoutLifecycleJobsNestedInput = {
+  create?: Prisma.XOR<Prisma.RoomBookingCreateWithoutLifecycleJobsInput, Prisma.RoomBookingUncheckedCreateWithoutLifecycleJobsInput>
+  connectOrCreate?: Prisma.RoomBookingCreateOrConnectWithoutLifecycleJobsInput
+  upsert?: Prisma.RoomBookingUpsertWithoutLifecycleJobsInput
+  connect?: Prisma.RoomBookingWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RoomBookingUpdateToOneWithWhereWithoutLifecycleJobsInput, Prisma.RoomBookingUpdateWithoutLifecycleJobsInput>, Prisma.RoomBookingUncheckedUpdateWithoutLifecycleJobsInput>
+}
+
 export type RoomBookingCreateWithoutRoomInput = {
   id?: string
   branch: $Enums.Branch
@@ -567,9 +747,15 @@ export type RoomBookingCreateWithoutRoomInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   teacher: Prisma.TeacherCreateNestedOneWithoutBookingsInput
+  series?: Prisma.BookingSeriesCreateNestedOneWithoutBookingsInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobCreateNestedManyWithoutBookingInput
 }
 
 export type RoomBookingUncheckedCreateWithoutRoomInput = {
@@ -580,8 +766,14 @@ export type RoomBookingUncheckedCreateWithoutRoomInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedCreateNestedManyWithoutBookingInput
 }
 
 export type RoomBookingCreateOrConnectWithoutRoomInput = {
@@ -622,6 +814,11 @@ export type RoomBookingScalarWhereInput = {
   startTime?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   endTime?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   status?: Prisma.EnumBookingStatusFilter<"RoomBooking"> | $Enums.BookingStatus
+  seriesId?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  cancelledAt?: Prisma.DateTimeNullableFilter<"RoomBooking"> | Date | string | null
+  adminReason?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  reviewComment?: Prisma.StringNullableFilter<"RoomBooking"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"RoomBooking"> | Date | string | null
   createdAt?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"RoomBooking"> | Date | string
 }
@@ -633,9 +830,15 @@ export type RoomBookingCreateWithoutTeacherInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   room: Prisma.RoomCreateNestedOneWithoutBookingsInput
+  series?: Prisma.BookingSeriesCreateNestedOneWithoutBookingsInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobCreateNestedManyWithoutBookingInput
 }
 
 export type RoomBookingUncheckedCreateWithoutTeacherInput = {
@@ -646,8 +849,14 @@ export type RoomBookingUncheckedCreateWithoutTeacherInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedCreateNestedManyWithoutBookingInput
 }
 
 export type RoomBookingCreateOrConnectWithoutTeacherInput = {
@@ -676,6 +885,156 @@ export type RoomBookingUpdateManyWithWhereWithoutTeacherInput = {
   data: Prisma.XOR<Prisma.RoomBookingUpdateManyMutationInput, Prisma.RoomBookingUncheckedUpdateManyWithoutTeacherInput>
 }
 
+export type RoomBookingCreateWithoutSeriesInput = {
+  id?: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  room: Prisma.RoomCreateNestedOneWithoutBookingsInput
+  teacher: Prisma.TeacherCreateNestedOneWithoutBookingsInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobCreateNestedManyWithoutBookingInput
+}
+
+export type RoomBookingUncheckedCreateWithoutSeriesInput = {
+  id?: string
+  roomId: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedCreateNestedManyWithoutBookingInput
+}
+
+export type RoomBookingCreateOrConnectWithoutSeriesInput = {
+  where: Prisma.RoomBookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomBookingCreateWithoutSeriesInput, Prisma.RoomBookingUncheckedCreateWithoutSeriesInput>
+}
+
+export type RoomBookingCreateManySeriesInputEnvelope = {
+  data: Prisma.RoomBookingCreateManySeriesInput | Prisma.RoomBookingCreateManySeriesInput[]
+  skipDuplicates?: boolean
+}
+
+export type RoomBookingUpsertWithWhereUniqueWithoutSeriesInput = {
+  where: Prisma.RoomBookingWhereUniqueInput
+  update: Prisma.XOR<Prisma.RoomBookingUpdateWithoutSeriesInput, Prisma.RoomBookingUncheckedUpdateWithoutSeriesInput>
+  create: Prisma.XOR<Prisma.RoomBookingCreateWithoutSeriesInput, Prisma.RoomBookingUncheckedCreateWithoutSeriesInput>
+}
+
+export type RoomBookingUpdateWithWhereUniqueWithoutSeriesInput = {
+  where: Prisma.RoomBookingWhereUniqueInput
+  data: Prisma.XOR<Prisma.RoomBookingUpdateWithoutSeriesInput, Prisma.RoomBookingUncheckedUpdateWithoutSeriesInput>
+}
+
+export type RoomBookingUpdateManyWithWhereWithoutSeriesInput = {
+  where: Prisma.RoomBookingScalarWhereInput
+  data: Prisma.XOR<Prisma.RoomBookingUpdateManyMutationInput, Prisma.RoomBookingUncheckedUpdateManyWithoutSeriesInput>
+}
+
+export type RoomBookingCreateWithoutLifecycleJobsInput = {
+  id?: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  room: Prisma.RoomCreateNestedOneWithoutBookingsInput
+  teacher: Prisma.TeacherCreateNestedOneWithoutBookingsInput
+  series?: Prisma.BookingSeriesCreateNestedOneWithoutBookingsInput
+}
+
+export type RoomBookingUncheckedCreateWithoutLifecycleJobsInput = {
+  id?: string
+  roomId: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RoomBookingCreateOrConnectWithoutLifecycleJobsInput = {
+  where: Prisma.RoomBookingWhereUniqueInput
+  create: Prisma.XOR<Prisma.RoomBookingCreateWithoutLifecycleJobsInput, Prisma.RoomBookingUncheckedCreateWithoutLifecycleJobsInput>
+}
+
+export type RoomBookingUpsertWithoutLifecycleJobsInput = {
+  update: Prisma.XOR<Prisma.RoomBookingUpdateWithoutLifecycleJobsInput, Prisma.RoomBookingUncheckedUpdateWithoutLifecycleJobsInput>
+  create: Prisma.XOR<Prisma.RoomBookingCreateWithoutLifecycleJobsInput, Prisma.RoomBookingUncheckedCreateWithoutLifecycleJobsInput>
+  where?: Prisma.RoomBookingWhereInput
+}
+
+export type RoomBookingUpdateToOneWithWhereWithoutLifecycleJobsInput = {
+  where?: Prisma.RoomBookingWhereInput
+  data: Prisma.XOR<Prisma.RoomBookingUpdateWithoutLifecycleJobsInput, Prisma.RoomBookingUncheckedUpdateWithoutLifecycleJobsInput>
+}
+
+export type RoomBookingUpdateWithoutLifecycleJobsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  room?: Prisma.RoomUpdateOneRequiredWithoutBookingsNestedInput
+  teacher?: Prisma.TeacherUpdateOneRequiredWithoutBookingsNestedInput
+  series?: Prisma.BookingSeriesUpdateOneWithoutBookingsNestedInput
+}
+
+export type RoomBookingUncheckedUpdateWithoutLifecycleJobsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type RoomBookingCreateManyRoomInput = {
   id?: string
   teacherId: string
@@ -684,6 +1043,11 @@ export type RoomBookingCreateManyRoomInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -695,9 +1059,15 @@ export type RoomBookingUpdateWithoutRoomInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   teacher?: Prisma.TeacherUpdateOneRequiredWithoutBookingsNestedInput
+  series?: Prisma.BookingSeriesUpdateOneWithoutBookingsNestedInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobUpdateManyWithoutBookingNestedInput
 }
 
 export type RoomBookingUncheckedUpdateWithoutRoomInput = {
@@ -708,8 +1078,14 @@ export type RoomBookingUncheckedUpdateWithoutRoomInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedUpdateManyWithoutBookingNestedInput
 }
 
 export type RoomBookingUncheckedUpdateManyWithoutRoomInput = {
@@ -720,6 +1096,11 @@ export type RoomBookingUncheckedUpdateManyWithoutRoomInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -732,6 +1113,11 @@ export type RoomBookingCreateManyTeacherInput = {
   startTime: Date | string
   endTime: Date | string
   status?: $Enums.BookingStatus
+  seriesId?: string | null
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -743,9 +1129,15 @@ export type RoomBookingUpdateWithoutTeacherInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   room?: Prisma.RoomUpdateOneRequiredWithoutBookingsNestedInput
+  series?: Prisma.BookingSeriesUpdateOneWithoutBookingsNestedInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobUpdateManyWithoutBookingNestedInput
 }
 
 export type RoomBookingUncheckedUpdateWithoutTeacherInput = {
@@ -756,8 +1148,14 @@ export type RoomBookingUncheckedUpdateWithoutTeacherInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedUpdateManyWithoutBookingNestedInput
 }
 
 export type RoomBookingUncheckedUpdateManyWithoutTeacherInput = {
@@ -768,10 +1166,114 @@ export type RoomBookingUncheckedUpdateManyWithoutTeacherInput = {
   startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
+export type RoomBookingCreateManySeriesInput = {
+  id?: string
+  roomId: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.BookingStatus
+  cancelledAt?: Date | string | null
+  adminReason?: string | null
+  reviewComment?: string | null
+  reviewedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type RoomBookingUpdateWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  room?: Prisma.RoomUpdateOneRequiredWithoutBookingsNestedInput
+  teacher?: Prisma.TeacherUpdateOneRequiredWithoutBookingsNestedInput
+  lifecycleJobs?: Prisma.BookingLifecycleJobUpdateManyWithoutBookingNestedInput
+}
+
+export type RoomBookingUncheckedUpdateWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lifecycleJobs?: Prisma.BookingLifecycleJobUncheckedUpdateManyWithoutBookingNestedInput
+}
+
+export type RoomBookingUncheckedUpdateManyWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBookingStatusFieldUpdateOperationsInput | $Enums.BookingStatus
+  cancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  adminReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewComment?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type RoomBookingCountOutputType
+ */
+
+export type RoomBookingCountOutputType = {
+  lifecycleJobs: number
+}
+
+export type RoomBookingCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  lifecycleJobs?: boolean | RoomBookingCountOutputTypeCountLifecycleJobsArgs
+}
+
+/**
+ * RoomBookingCountOutputType without action
+ */
+export type RoomBookingCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RoomBookingCountOutputType
+   */
+  select?: Prisma.RoomBookingCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * RoomBookingCountOutputType without action
+ */
+export type RoomBookingCountOutputTypeCountLifecycleJobsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingLifecycleJobWhereInput
+}
 
 
 export type RoomBookingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -783,10 +1285,18 @@ export type RoomBookingSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   startTime?: boolean
   endTime?: boolean
   status?: boolean
+  seriesId?: boolean
+  cancelledAt?: boolean
+  adminReason?: boolean
+  reviewComment?: boolean
+  reviewedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
   teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  series?: boolean | Prisma.RoomBooking$seriesArgs<ExtArgs>
+  lifecycleJobs?: boolean | Prisma.RoomBooking$lifecycleJobsArgs<ExtArgs>
+  _count?: boolean | Prisma.RoomBookingCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["roomBooking"]>
 
 export type RoomBookingSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -798,10 +1308,16 @@ export type RoomBookingSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   startTime?: boolean
   endTime?: boolean
   status?: boolean
+  seriesId?: boolean
+  cancelledAt?: boolean
+  adminReason?: boolean
+  reviewComment?: boolean
+  reviewedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
   teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  series?: boolean | Prisma.RoomBooking$seriesArgs<ExtArgs>
 }, ExtArgs["result"]["roomBooking"]>
 
 export type RoomBookingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -813,10 +1329,16 @@ export type RoomBookingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   startTime?: boolean
   endTime?: boolean
   status?: boolean
+  seriesId?: boolean
+  cancelledAt?: boolean
+  adminReason?: boolean
+  reviewComment?: boolean
+  reviewedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
   teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  series?: boolean | Prisma.RoomBooking$seriesArgs<ExtArgs>
 }, ExtArgs["result"]["roomBooking"]>
 
 export type RoomBookingSelectScalar = {
@@ -828,22 +1350,32 @@ export type RoomBookingSelectScalar = {
   startTime?: boolean
   endTime?: boolean
   status?: boolean
+  seriesId?: boolean
+  cancelledAt?: boolean
+  adminReason?: boolean
+  reviewComment?: boolean
+  reviewedAt?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type RoomBookingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "roomId" | "teacherId" | "branch" | "capacity" | "startTime" | "endTime" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["roomBooking"]>
+export type RoomBookingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "roomId" | "teacherId" | "branch" | "capacity" | "startTime" | "endTime" | "status" | "seriesId" | "cancelledAt" | "adminReason" | "reviewComment" | "reviewedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["roomBooking"]>
 export type RoomBookingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
   teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  series?: boolean | Prisma.RoomBooking$seriesArgs<ExtArgs>
+  lifecycleJobs?: boolean | Prisma.RoomBooking$lifecycleJobsArgs<ExtArgs>
+  _count?: boolean | Prisma.RoomBookingCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type RoomBookingIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
   teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  series?: boolean | Prisma.RoomBooking$seriesArgs<ExtArgs>
 }
 export type RoomBookingIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
   teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+  series?: boolean | Prisma.RoomBooking$seriesArgs<ExtArgs>
 }
 
 export type $RoomBookingPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -851,6 +1383,8 @@ export type $RoomBookingPayload<ExtArgs extends runtime.Types.Extensions.Interna
   objects: {
     room: Prisma.$RoomPayload<ExtArgs>
     teacher: Prisma.$TeacherPayload<ExtArgs>
+    series: Prisma.$BookingSeriesPayload<ExtArgs> | null
+    lifecycleJobs: Prisma.$BookingLifecycleJobPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -861,6 +1395,11 @@ export type $RoomBookingPayload<ExtArgs extends runtime.Types.Extensions.Interna
     startTime: Date
     endTime: Date
     status: $Enums.BookingStatus
+    seriesId: string | null
+    cancelledAt: Date | null
+    adminReason: string | null
+    reviewComment: string | null
+    reviewedAt: Date | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["roomBooking"]>
@@ -1259,6 +1798,8 @@ export interface Prisma__RoomBookingClient<T, Null = never, ExtArgs extends runt
   readonly [Symbol.toStringTag]: "PrismaPromise"
   room<T extends Prisma.RoomDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RoomDefaultArgs<ExtArgs>>): Prisma.Prisma__RoomClient<runtime.Types.Result.GetResult<Prisma.$RoomPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   teacher<T extends Prisma.TeacherDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TeacherDefaultArgs<ExtArgs>>): Prisma.Prisma__TeacherClient<runtime.Types.Result.GetResult<Prisma.$TeacherPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  series<T extends Prisma.RoomBooking$seriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RoomBooking$seriesArgs<ExtArgs>>): Prisma.Prisma__BookingSeriesClient<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  lifecycleJobs<T extends Prisma.RoomBooking$lifecycleJobsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RoomBooking$lifecycleJobsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingLifecycleJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1296,6 +1837,11 @@ export interface RoomBookingFieldRefs {
   readonly startTime: Prisma.FieldRef<"RoomBooking", 'DateTime'>
   readonly endTime: Prisma.FieldRef<"RoomBooking", 'DateTime'>
   readonly status: Prisma.FieldRef<"RoomBooking", 'BookingStatus'>
+  readonly seriesId: Prisma.FieldRef<"RoomBooking", 'String'>
+  readonly cancelledAt: Prisma.FieldRef<"RoomBooking", 'DateTime'>
+  readonly adminReason: Prisma.FieldRef<"RoomBooking", 'String'>
+  readonly reviewComment: Prisma.FieldRef<"RoomBooking", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"RoomBooking", 'DateTime'>
   readonly createdAt: Prisma.FieldRef<"RoomBooking", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"RoomBooking", 'DateTime'>
 }
@@ -1693,6 +2239,49 @@ export type RoomBookingDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.I
   limit?: number
 }
 
+/**
+ * RoomBooking.series
+ */
+export type RoomBooking$seriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  where?: Prisma.BookingSeriesWhereInput
+}
+
+/**
+ * RoomBooking.lifecycleJobs
+ */
+export type RoomBooking$lifecycleJobsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingLifecycleJob
+   */
+  select?: Prisma.BookingLifecycleJobSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingLifecycleJob
+   */
+  omit?: Prisma.BookingLifecycleJobOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingLifecycleJobInclude<ExtArgs> | null
+  where?: Prisma.BookingLifecycleJobWhereInput
+  orderBy?: Prisma.BookingLifecycleJobOrderByWithRelationInput | Prisma.BookingLifecycleJobOrderByWithRelationInput[]
+  cursor?: Prisma.BookingLifecycleJobWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingLifecycleJobScalarFieldEnum | Prisma.BookingLifecycleJobScalarFieldEnum[]
+}
+
 /**
  * RoomBooking without action
  */
@@ -0,0 +1,1087 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `SchedulerLease` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SchedulerLease
+ * 
+ */
+export type SchedulerLeaseModel = runtime.Types.Result.DefaultSelection<Prisma.$SchedulerLeasePayload>
+
+export type AggregateSchedulerLease = {
+  _count: SchedulerLeaseCountAggregateOutputType | null
+  _min: SchedulerLeaseMinAggregateOutputType | null
+  _max: SchedulerLeaseMaxAggregateOutputType | null
+}
+
+export type SchedulerLeaseMinAggregateOutputType = {
+  name: string | null
+  holder: string | null
+  expiresAt: Date | null
+}
+
+export type SchedulerLeaseMaxAggregateOutputType = {
+  name: string | null
+  holder: string | null
+  expiresAt: Date | null
+}
+
+export type SchedulerLeaseCountAggregateOutputType = {
+  name: number
+  holder: number
+  expiresAt: number
+  _all: number
+}
+
+
+export type SchedulerLeaseMinAggregateInputType = {
+  name?: true
+  holder?: true
+  expiresAt?: true
+}
+
+export type SchedulerLeaseMaxAggregateInputType = {
+  name?: true
+  holder?: true
+  expiresAt?: true
+}
+
+export type SchedulerLeaseCountAggregateInputType = {
+  name?: true
+  holder?: true
+  expiresAt?: true
+  _all?: true
+}
+
+export type SchedulerLeaseAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SchedulerLease to aggregate.
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SchedulerLeases to fetch.
+   */
+  orderBy?: Prisma.SchedulerLeaseOrderByWithRelationInput | Prisma.SchedulerLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SchedulerLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SchedulerLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SchedulerLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SchedulerLeases
+  **/
+  _count?: true | SchedulerLeaseCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SchedulerLeaseMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SchedulerLeaseMaxAggregateInputType
+}
+
+export type GetSchedulerLeaseAggregateType<T extends SchedulerLeaseAggregateArgs> = {
+      [P in keyof T & keyof AggregateSchedulerLease]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSchedulerLease[P]>
+    : Prisma.GetScalarType<T[P], AggregateSchedulerLease[P]>
+}
+
+
+
+
+export type SchedulerLeaseGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SchedulerLeaseWhereInput
+  orderBy?: Prisma.SchedulerLeaseOrderByWithAggregationInput | Prisma.SchedulerLeaseOrderByWithAggregationInput[]
+  by: Prisma.SchedulerLeaseScalarFieldEnum[] | Prisma.SchedulerLeaseScalarFieldEnum
+  having?: Prisma.SchedulerLeaseScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SchedulerLeaseCountAggregateInputType | true
+  _min?: SchedulerLeaseMinAggregateInputType
+  _max?: SchedulerLeaseMaxAggregateInputType
+}
+
+export type SchedulerLeaseGroupByOutputType = {
+  name: string
+  holder: string
+  expiresAt: Date
+  _count: SchedulerLeaseCountAggregateOutputType | null
+  _min: SchedulerLeaseMinAggregateOutputType | null
+  _max: SchedulerLeaseMaxAggregateOutputType | null
+}
+
+type GetSchedulerLeaseGroupByPayload<T extends SchedulerLeaseGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SchedulerLeaseGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SchedulerLeaseGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SchedulerLeaseGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SchedulerLeaseGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SchedulerLeaseWhereInput = {
+  AND?: Prisma.SchedulerLeaseWhereInput | Prisma.SchedulerLeaseWhereInput[]
+  OR?: Prisma.SchedulerLeaseWhereInput[]
+  NOT?: Prisma.SchedulerLeaseWhereInput | Prisma.SchedulerLeaseWhereInput[]
+  name?: Prisma.StringFilter<"SchedulerLease"> | string
+  holder?: Prisma.StringFilter<"SchedulerLease"> | string
+  expiresAt?: Prisma.DateTimeFilter<"SchedulerLease"> | Date | string
+}
+
+export type SchedulerLeaseOrderByWithRelationInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type SchedulerLeaseWhereUniqueInput = Prisma.AtLeast<{
+  name?: string
+  AND?: Prisma.SchedulerLeaseWhereInput | Prisma.SchedulerLeaseWhereInput[]
+  OR?: Prisma.SchedulerLeaseWhereInput[]
+  NOT?: Prisma.SchedulerLeaseWhereInput | Prisma.SchedulerLeaseWhereInput[]
+  holder?: Prisma.StringFilter<"SchedulerLease"> | string
+  expiresAt?: Prisma.DateTimeFilter<"SchedulerLease"> | Date | string
+}, "name">
+
+export type SchedulerLeaseOrderByWithAggregationInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  _count?: Prisma.SchedulerLeaseCountOrderByAggregateInput
+  _max?: Prisma.SchedulerLeaseMaxOrderByAggregateInput
+  _min?: Prisma.SchedulerLeaseMinOrderByAggregateInput
+}
+
+export type SchedulerLeaseScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SchedulerLeaseScalarWhereWithAggregatesInput | Prisma.SchedulerLeaseScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SchedulerLeaseScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SchedulerLeaseScalarWhereWithAggregatesInput | Prisma.SchedulerLeaseScalarWhereWithAggregatesInput[]
+  name?: Prisma.StringWithAggregatesFilter<"SchedulerLease"> | string
+  holder?: Prisma.StringWithAggregatesFilter<"SchedulerLease"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"SchedulerLease"> | Date | string
+}
+
+export type SchedulerLeaseCreateInput = {
+  name: string
+  holder: string
+  expiresAt: Date | string
+}
+
+export type SchedulerLeaseUncheckedCreateInput = {
+  name: string
+  holder: string
+  expiresAt: Date | string
+}
+
+export type SchedulerLeaseUpdateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SchedulerLeaseUncheckedUpdateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SchedulerLeaseCreateManyInput = {
+  name: string
+  holder: string
+  expiresAt: Date | string
+}
+
+export type SchedulerLeaseUpdateManyMutationInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SchedulerLeaseUncheckedUpdateManyInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SchedulerLeaseCountOrderByAggregateInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type SchedulerLeaseMaxOrderByAggregateInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+export type SchedulerLeaseMinOrderByAggregateInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+}
+
+
+
+export type SchedulerLeaseSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["schedulerLease"]>
+
+export type SchedulerLeaseSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["schedulerLease"]>
+
+export type SchedulerLeaseSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+}, ExtArgs["result"]["schedulerLease"]>
+
+export type SchedulerLeaseSelectScalar = {
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+}
+
+export type SchedulerLeaseOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"name" | "holder" | "expiresAt", ExtArgs["result"]["schedulerLease"]>
+
+export type $SchedulerLeasePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SchedulerLease"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    name: string
+    holder: string
+    expiresAt: Date
+  }, ExtArgs["result"]["schedulerLease"]>
+  composites: {}
+}
+
+export type SchedulerLeaseGetPayload<S extends boolean | null | undefined | SchedulerLeaseDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload, S>
+
+export type SchedulerLeaseCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SchedulerLeaseFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SchedulerLeaseCountAggregateInputType | true
+  }
+
+export interface SchedulerLeaseDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SchedulerLease'], meta: { name: 'SchedulerLease' } }
+  /**
+   * Find zero or one SchedulerLease that matches the filter.
+   * @param {SchedulerLeaseFindUniqueArgs} args - Arguments to find a SchedulerLease
+   * @example
+   * // Get one SchedulerLease
+   * const schedulerLease = await prisma.schedulerLease.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SchedulerLeaseFindUniqueArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SchedulerLease that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SchedulerLeaseFindUniqueOrThrowArgs} args - Arguments to find a SchedulerLease
+   * @example
+   * // Get one SchedulerLease
+   * const schedulerLease = await prisma.schedulerLease.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SchedulerLeaseFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SchedulerLease that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseFindFirstArgs} args - Arguments to find a SchedulerLease
+   * @example
+   * // Get one SchedulerLease
+   * const schedulerLease = await prisma.schedulerLease.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SchedulerLeaseFindFirstArgs>(args?: Prisma.SelectSubset<T, SchedulerLeaseFindFirstArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SchedulerLease that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseFindFirstOrThrowArgs} args - Arguments to find a SchedulerLease
+   * @example
+   * // Get one SchedulerLease
+   * const schedulerLease = await prisma.schedulerLease.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SchedulerLeaseFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SchedulerLeaseFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SchedulerLeases that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SchedulerLeases
+   * const schedulerLeases = await prisma.schedulerLease.findMany()
+   * 
+   * // Get first 10 SchedulerLeases
+   * const schedulerLeases = await prisma.schedulerLease.findMany({ take: 10 })
+   * 
+   * // Only select the `name`
+   * const schedulerLeaseWithNameOnly = await prisma.schedulerLease.findMany({ select: { name: true } })
+   * 
+   */
+  findMany<T extends SchedulerLeaseFindManyArgs>(args?: Prisma.SelectSubset<T, SchedulerLeaseFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SchedulerLease.
+   * @param {SchedulerLeaseCreateArgs} args - Arguments to create a SchedulerLease.
+   * @example
+   * // Create one SchedulerLease
+   * const SchedulerLease = await prisma.schedulerLease.create({
+   *   data: {
+   *     // ... data to create a SchedulerLease
+   *   }
+   * })
+   * 
+   */
+  create<T extends SchedulerLeaseCreateArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseCreateArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SchedulerLeases.
+   * @param {SchedulerLeaseCreateManyArgs} args - Arguments to create many SchedulerLeases.
+   * @example
+   * // Create many SchedulerLeases
+   * const schedulerLease = await prisma.schedulerLease.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SchedulerLeaseCreateManyArgs>(args?: Prisma.SelectSubset<T, SchedulerLeaseCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SchedulerLeases and returns the data saved in the database.
+   * @param {SchedulerLeaseCreateManyAndReturnArgs} args - Arguments to create many SchedulerLeases.
+   * @example
+   * // Create many SchedulerLeases
+   * const schedulerLease = await prisma.schedulerLease.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SchedulerLeases and only return the `name`
+   * const schedulerLeaseWithNameOnly = await prisma.schedulerLease.createManyAndReturn({
+   *   select: { name: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SchedulerLeaseCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SchedulerLeaseCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SchedulerLease.
+   * @param {SchedulerLeaseDeleteArgs} args - Arguments to delete one SchedulerLease.
+   * @example
+   * // Delete one SchedulerLease
+   * const SchedulerLease = await prisma.schedulerLease.delete({
+   *   where: {
+   *     // ... filter to delete one SchedulerLease
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SchedulerLeaseDeleteArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseDeleteArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SchedulerLease.
+   * @param {SchedulerLeaseUpdateArgs} args - Arguments to update one SchedulerLease.
+   * @example
+   * // Update one SchedulerLease
+   * const schedulerLease = await prisma.schedulerLease.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SchedulerLeaseUpdateArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseUpdateArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SchedulerLeases.
+   * @param {SchedulerLeaseDeleteManyArgs} args - Arguments to filter SchedulerLeases to delete.
+   * @example
+   * // Delete a few SchedulerLeases
+   * const { count } = await prisma.schedulerLease.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SchedulerLeaseDeleteManyArgs>(args?: Prisma.SelectSubset<T, SchedulerLeaseDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SchedulerLeases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SchedulerLeases
+   * const schedulerLease = await prisma.schedulerLease.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SchedulerLeaseUpdateManyArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SchedulerLeases and returns the data updated in the database.
+   * @param {SchedulerLeaseUpdateManyAndReturnArgs} args - Arguments to update many SchedulerLeases.
+   * @example
+   * // Update many SchedulerLeases
+   * const schedulerLease = await prisma.schedulerLease.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SchedulerLeases and only return the `name`
+   * const schedulerLeaseWithNameOnly = await prisma.schedulerLease.updateManyAndReturn({
+   *   select: { name: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SchedulerLeaseUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SchedulerLease.
+   * @param {SchedulerLeaseUpsertArgs} args - Arguments to update or create a SchedulerLease.
+   * @example
+   * // Update or create a SchedulerLease
+   * const schedulerLease = await prisma.schedulerLease.upsert({
+   *   create: {
+   *     // ... data to create a SchedulerLease
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SchedulerLease we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SchedulerLeaseUpsertArgs>(args: Prisma.SelectSubset<T, SchedulerLeaseUpsertArgs<ExtArgs>>): Prisma.Prisma__SchedulerLeaseClient<runtime.Types.Result.GetResult<Prisma.$SchedulerLeasePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SchedulerLeases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseCountArgs} args - Arguments to filter SchedulerLeases to count.
+   * @example
+   * // Count the number of SchedulerLeases
+   * const count = await prisma.schedulerLease.count({
+   *   where: {
+   *     // ... the filter for the SchedulerLeases we want to count
+   *   }
+   * })
+  **/
+  count<T extends SchedulerLeaseCountArgs>(
+    args?: Prisma.Subset<T, SchedulerLeaseCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SchedulerLeaseCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SchedulerLease.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SchedulerLeaseAggregateArgs>(args: Prisma.Subset<T, SchedulerLeaseAggregateArgs>): Prisma.PrismaPromise<GetSchedulerLeaseAggregateType<T>>
+
+  /**
+   * Group by SchedulerLease.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SchedulerLeaseGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SchedulerLeaseGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SchedulerLeaseGroupByArgs['orderBy'] }
+      : { orderBy?: SchedulerLeaseGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SchedulerLeaseGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSchedulerLeaseGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SchedulerLease model
+ */
+readonly fields: SchedulerLeaseFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SchedulerLease.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SchedulerLeaseClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SchedulerLease model
+ */
+export interface SchedulerLeaseFieldRefs {
+  readonly name: Prisma.FieldRef<"SchedulerLease", 'String'>
+  readonly holder: Prisma.FieldRef<"SchedulerLease", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"SchedulerLease", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SchedulerLease findUnique
+ */
+export type SchedulerLeaseFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which SchedulerLease to fetch.
+   */
+  where: Prisma.SchedulerLeaseWhereUniqueInput
+}
+
+/**
+ * SchedulerLease findUniqueOrThrow
+ */
+export type SchedulerLeaseFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which SchedulerLease to fetch.
+   */
+  where: Prisma.SchedulerLeaseWhereUniqueInput
+}
+
+/**
+ * SchedulerLease findFirst
+ */
+export type SchedulerLeaseFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which SchedulerLease to fetch.
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SchedulerLeases to fetch.
+   */
+  orderBy?: Prisma.SchedulerLeaseOrderByWithRelationInput | Prisma.SchedulerLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SchedulerLeases.
+   */
+  cursor?: Prisma.SchedulerLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SchedulerLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SchedulerLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SchedulerLeases.
+   */
+  distinct?: Prisma.SchedulerLeaseScalarFieldEnum | Prisma.SchedulerLeaseScalarFieldEnum[]
+}
+
+/**
+ * SchedulerLease findFirstOrThrow
+ */
+export type SchedulerLeaseFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which SchedulerLease to fetch.
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SchedulerLeases to fetch.
+   */
+  orderBy?: Prisma.SchedulerLeaseOrderByWithRelationInput | Prisma.SchedulerLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SchedulerLeases.
+   */
+  cursor?: Prisma.SchedulerLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SchedulerLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SchedulerLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SchedulerLeases.
+   */
+  distinct?: Prisma.SchedulerLeaseScalarFieldEnum | Prisma.SchedulerLeaseScalarFieldEnum[]
+}
+
+/**
+ * SchedulerLease findMany
+ */
+export type SchedulerLeaseFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which SchedulerLeases to fetch.
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SchedulerLeases to fetch.
+   */
+  orderBy?: Prisma.SchedulerLeaseOrderByWithRelationInput | Prisma.SchedulerLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SchedulerLeases.
+   */
+  cursor?: Prisma.SchedulerLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SchedulerLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SchedulerLeases.
+   */
+  skip?: number
+  distinct?: Prisma.SchedulerLeaseScalarFieldEnum | Prisma.SchedulerLeaseScalarFieldEnum[]
+}
+
+/**
+ * SchedulerLease create
+ */
+export type SchedulerLeaseCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * The data needed to create a SchedulerLease.
+   */
+  data: Prisma.XOR<Prisma.SchedulerLeaseCreateInput, Prisma.SchedulerLeaseUncheckedCreateInput>
+}
+
+/**
+ * SchedulerLease createMany
+ */
+export type SchedulerLeaseCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SchedulerLeases.
+   */
+  data: Prisma.SchedulerLeaseCreateManyInput | Prisma.SchedulerLeaseCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SchedulerLease createManyAndReturn
+ */
+export type SchedulerLeaseCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * The data used to create many SchedulerLeases.
+   */
+  data: Prisma.SchedulerLeaseCreateManyInput | Prisma.SchedulerLeaseCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SchedulerLease update
+ */
+export type SchedulerLeaseUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * The data needed to update a SchedulerLease.
+   */
+  data: Prisma.XOR<Prisma.SchedulerLeaseUpdateInput, Prisma.SchedulerLeaseUncheckedUpdateInput>
+  /**
+   * Choose, which SchedulerLease to update.
+   */
+  where: Prisma.SchedulerLeaseWhereUniqueInput
+}
+
+/**
+ * SchedulerLease updateMany
+ */
+export type SchedulerLeaseUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SchedulerLeases.
+   */
+  data: Prisma.XOR<Prisma.SchedulerLeaseUpdateManyMutationInput, Prisma.SchedulerLeaseUncheckedUpdateManyInput>
+  /**
+   * Filter which SchedulerLeases to update
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * Limit how many SchedulerLeases to update.
+   */
+  limit?: number
+}
+
+/**
+ * SchedulerLease updateManyAndReturn
+ */
+export type SchedulerLeaseUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * The data used to update SchedulerLeases.
+   */
+  data: Prisma.XOR<Prisma.SchedulerLeaseUpdateManyMutationInput, Prisma.SchedulerLeaseUncheckedUpdateManyInput>
+  /**
+   * Filter which SchedulerLeases to update
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * Limit how many SchedulerLeases to update.
+   */
+  limit?: number
+}
+
+/**
+ * SchedulerLease upsert
+ */
+export type SchedulerLeaseUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * The filter to search for the SchedulerLease to update in case it exists.
+   */
+  where: Prisma.SchedulerLeaseWhereUniqueInput
+  /**
+   * In case the SchedulerLease found by the `where` argument doesn't exist, create a new SchedulerLease with this data.
+   */
+  create: Prisma.XOR<Prisma.SchedulerLeaseCreateInput, Prisma.SchedulerLeaseUncheckedCreateInput>
+  /**
+   * In case the SchedulerLease was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SchedulerLeaseUpdateInput, Prisma.SchedulerLeaseUncheckedUpdateInput>
+}
+
+/**
+ * SchedulerLease delete
+ */
+export type SchedulerLeaseDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+  /**
+   * Filter which SchedulerLease to delete.
+   */
+  where: Prisma.SchedulerLeaseWhereUniqueInput
+}
+
+/**
+ * SchedulerLease deleteMany
+ */
+export type SchedulerLeaseDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SchedulerLeases to delete
+   */
+  where?: Prisma.SchedulerLeaseWhereInput
+  /**
+   * Limit how many SchedulerLeases to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SchedulerLease without action
+ */
+export type SchedulerLeaseDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SchedulerLease
+   */
+  select?: Prisma.SchedulerLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SchedulerLease
+   */
+  omit?: Prisma.SchedulerLeaseOmit<ExtArgs> | null
+}
@@ -199,6 +199,8 @@ export type TeacherWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"Teacher"> | Date | string
   user?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
   bookings?: Prisma.RoomBookingListRelationFilter
+  series?: Prisma.BookingSeriesListRelationFilter
+  waitlist?: Prisma.WaitlistEntryListRelationFilter
 }
 
 export type TeacherOrderByWithRelationInput = {
@@ -211,6 +213,8 @@ export type TeacherOrderByWithRelationInput = {
   updatedAt?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
   bookings?: Prisma.RoomBookingOrderByRelationAggregateInput
+  series?: Prisma.BookingSeriesOrderByRelationAggregateInput
+  waitlist?: Prisma.WaitlistEntryOrderByRelationAggregateInput
 }
 
 export type TeacherWhereUniqueInput = Prisma.AtLeast<{
@@ -226,6 +230,8 @@ export type TeacherWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"Teacher"> | Date | string
   user?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
   bookings?: Prisma.RoomBookingListRelationFilter
+  series?: Prisma.BookingSeriesListRelationFilter
+  waitlist?: Prisma.WaitlistEntryListRelationFilter
 }, "id" | "email" | "userId">
 
 export type TeacherOrderByWithAggregationInput = {
@@ -264,6 +270,8 @@ export type TeacherCreateInput = {
   updatedAt?: Date | string
   user?: Prisma.UserCreateNestedOneWithoutTeacherInput
   bookings?: Prisma.RoomBookingCreateNestedManyWithoutTeacherInput
+  series?: Prisma.BookingSeriesCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutTeacherInput
 }
 
 export type TeacherUncheckedCreateInput = {
@@ -276,6 +284,8 @@ export type TeacherUncheckedCreateInput = {
   updatedAt?: Date | string
   user?: Prisma.UserUncheckedCreateNestedOneWithoutTeacherInput
   bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutTeacherInput
+  series?: Prisma.BookingSeriesUncheckedCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutTeacherInput
 }
 
 export type TeacherUpdateInput = {
@@ -288,6 +298,8 @@ export type TeacherUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneWithoutTeacherNestedInput
   bookings?: Prisma.RoomBookingUpdateManyWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutTeacherNestedInput
 }
 
 export type TeacherUncheckedUpdateInput = {
@@ -300,6 +312,8 @@ export type TeacherUncheckedUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUncheckedUpdateOneWithoutTeacherNestedInput
   bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUncheckedUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutTeacherNestedInput
 }
 
 export type TeacherCreateManyInput = {
@@ -402,6 +416,34 @@ export type TeacherUpdateOneRequiredWithoutBookingsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TeacherUpdateToOneWithWhereWithoutBookingsInput, Prisma.TeacherUpdateWithoutBookingsInput>, Prisma.TeacherUncheckedUpdateWithoutBookingsInput>
 }
 
+export type TeacherCreateNestedOneWithoutSeriesInput = {
+  create?: Prisma.XOR<Prisma.TeacherCreateWithoutSeriesInput, Prisma.TeacherUncheckedCreateWithoutSeriesInput>
+  connectOrCreate?: Prisma.TeacherCreateOrConnectWithoutSeriesInput
+  connect?: Prisma.TeacherWhereUniqueInput
+}
+
+export type TeacherUpdateOneRequiredWithoutSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.TeacherCreateWithoutSeriesInput, Prisma.TeacherUncheckedCreateWithoutSeriesInput>
+  connectOrCreate?: Prisma.TeacherCreateOrConnectWithoutSeriesInput
+  upsert?: Prisma.TeacherUpsertWithoutSeriesInput
+  connect?: Prisma.TeacherWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TeacherUpdateToOneWithWhereWithoutSeriesInput, Prisma.TeacherUpdateWithoutSeriesInput>, Prisma.TeacherUncheckedUpdateWithoutSeriesInput>
+}
+
+export type TeacherCreateNestedOneWithoutWaitlistInput = {
+  create?: Prisma.XOR<Prisma.TeacherCreateWithoutWaitlistInput, Prisma.TeacherUncheckedCreateWithoutWaitlistInput>
+  connectOrCreate?: Prisma.TeacherCreateOrConnectWithoutWaitlistInput
+  connect?: Prisma.TeacherWhereUniqueInput
+}
+
+export type TeacherUpdateOneRequiredWithoutWaitlistNestedInput = {
+  create?: Prisma.XOR<Prisma.TeacherCreateWithoutWaitlistInput, Prisma.TeacherUncheckedCreateWithoutWaitlistInput>
+  connectOrCreate?: Prisma.TeacherCreateOrConnectWithoutWaitlistInput
+  upsert?: Prisma.TeacherUpsertWithoutWaitlistInput
+  connect?: Prisma.TeacherWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TeacherUpdateToOneWithWhereWithoutWaitlistInput, Prisma.TeacherUpdateWithoutWaitlistInput>, Prisma.TeacherUncheckedUpdateWithoutWaitlistInput>
+}
+
 export type TeacherCreateWithoutUserInput = {
   id?: string
   name: string
@@ -411,6 +453,8 @@ export type TeacherCreateWithoutUserInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.RoomBookingCreateNestedManyWithoutTeacherInput
+  series?: Prisma.BookingSeriesCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutTeacherInput
 }
 
 export type TeacherUncheckedCreateWithoutUserInput = {
@@ -422,6 +466,8 @@ export type TeacherUncheckedCreateWithoutUserInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutTeacherInput
+  series?: Prisma.BookingSeriesUncheckedCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutTeacherInput
 }
 
 export type TeacherCreateOrConnectWithoutUserInput = {
@@ -449,6 +495,8 @@ export type TeacherUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.RoomBookingUpdateManyWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutTeacherNestedInput
 }
 
 export type TeacherUncheckedUpdateWithoutUserInput = {
@@ -460,6 +508,8 @@ export type TeacherUncheckedUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUncheckedUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutTeacherNestedInput
 }
 
 export type TeacherCreateWithoutBookingsInput = {
@@ -471,6 +521,8 @@ export type TeacherCreateWithoutBookingsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   user?: Prisma.UserCreateNestedOneWithoutTeacherInput
+  series?: Prisma.BookingSeriesCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutTeacherInput
 }
 
 export type TeacherUncheckedCreateWithoutBookingsInput = {
@@ -482,6 +534,8 @@ export type TeacherUncheckedCreateWithoutBookingsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   user?: Prisma.UserUncheckedCreateNestedOneWithoutTeacherInput
+  series?: Prisma.BookingSeriesUncheckedCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutTeacherInput
 }
 
 export type TeacherCreateOrConnectWithoutBookingsInput = {
@@ -509,6 +563,8 @@ export type TeacherUpdateWithoutBookingsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutTeacherNestedInput
 }
 
 export type TeacherUncheckedUpdateWithoutBookingsInput = {
@@ -520,6 +576,144 @@ export type TeacherUncheckedUpdateWithoutBookingsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUncheckedUpdateOneWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUncheckedUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutTeacherNestedInput
+}
+
+export type TeacherCreateWithoutSeriesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string
+  userId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user?: Prisma.UserCreateNestedOneWithoutTeacherInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryCreateNestedManyWithoutTeacherInput
+}
+
+export type TeacherUncheckedCreateWithoutSeriesInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string
+  userId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user?: Prisma.UserUncheckedCreateNestedOneWithoutTeacherInput
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutTeacherInput
+  waitlist?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutTeacherInput
+}
+
+export type TeacherCreateOrConnectWithoutSeriesInput = {
+  where: Prisma.TeacherWhereUniqueInput
+  create: Prisma.XOR<Prisma.TeacherCreateWithoutSeriesInput, Prisma.TeacherUncheckedCreateWithoutSeriesInput>
+}
+
+export type TeacherUpsertWithoutSeriesInput = {
+  update: Prisma.XOR<Prisma.TeacherUpdateWithoutSeriesInput, Prisma.TeacherUncheckedUpdateWithoutSeriesInput>
+  create: Prisma.XOR<Prisma.TeacherCreateWithoutSeriesInput, Prisma.TeacherUncheckedCreateWithoutSeriesInput>
+  where?: Prisma.TeacherWhereInput
+}
+
+export type TeacherUpdateToOneWithWhereWithoutSeriesInput = {
+  where?: Prisma.TeacherWhereInput
+  data: Prisma.XOR<Prisma.TeacherUpdateWithoutSeriesInput, Prisma.TeacherUncheckedUpdateWithoutSeriesInput>
+}
+
+export type TeacherUpdateWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneWithoutTeacherNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUpdateManyWithoutTeacherNestedInput
+}
+
+export type TeacherUncheckedUpdateWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUncheckedUpdateOneWithoutTeacherNestedInput
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutTeacherNestedInput
+  waitlist?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutTeacherNestedInput
+}
+
+export type TeacherCreateWithoutWaitlistInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string
+  userId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user?: Prisma.UserCreateNestedOneWithoutTeacherInput
+  bookings?: Prisma.RoomBookingCreateNestedManyWithoutTeacherInput
+  series?: Prisma.BookingSeriesCreateNestedManyWithoutTeacherInput
+}
+
+export type TeacherUncheckedCreateWithoutWaitlistInput = {
+  id?: string
+  name: string
+  email: string
+  password?: string
+  userId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user?: Prisma.UserUncheckedCreateNestedOneWithoutTeacherInput
+  bookings?: Prisma.RoomBookingUncheckedCreateNestedManyWithoutTeacherInput
+  series?: Prisma.BookingSeriesUncheckedCreateNestedManyWithoutTeacherInput
+}
+
+export type TeacherCreateOrConnectWithoutWaitlistInput = {
+  where: Prisma.TeacherWhereUniqueInput
+  create: Prisma.XOR<Prisma.TeacherCreateWithoutWaitlistInput, Prisma.TeacherUncheckedCreateWithoutWaitlistInput>
+}
+
+export type TeacherUpsertWithoutWaitlistInput = {
+  update: Prisma.XOR<Prisma.TeacherUpdateWithoutWaitlistInput, Prisma.TeacherUncheckedUpdateWithoutWaitlistInput>
+  create: Prisma.XOR<Prisma.TeacherCreateWithoutWaitlistInput, Prisma.TeacherUncheckedCreateWithoutWaitlistInput>
+  where?: Prisma.TeacherWhereInput
+}
+
+export type TeacherUpdateToOneWithWhereWithoutWaitlistInput = {
+  where?: Prisma.TeacherWhereInput
+  data: Prisma.XOR<Prisma.TeacherUpdateWithoutWaitlistInput, Prisma.TeacherUncheckedUpdateWithoutWaitlistInput>
+}
+
+export type TeacherUpdateWithoutWaitlistInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneWithoutTeacherNestedInput
+  bookings?: Prisma.RoomBookingUpdateManyWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUpdateManyWithoutTeacherNestedInput
+}
+
+export type TeacherUncheckedUpdateWithoutWaitlistInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUncheckedUpdateOneWithoutTeacherNestedInput
+  bookings?: Prisma.RoomBookingUncheckedUpdateManyWithoutTeacherNestedInput
+  series?: Prisma.BookingSeriesUncheckedUpdateManyWithoutTeacherNestedInput
 }
 
 
@@ -529,10 +723,14 @@ export type TeacherUncheckedUpdateWithoutBookingsInput = {
 
 export type TeacherCountOutputType = {
   bookings: number
+  series: number
+  waitlist: number
 }
 
 export type TeacherCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   bookings?: boolean | TeacherCountOutputTypeCountBookingsArgs
+  series?: boolean | TeacherCountOutputTypeCountSeriesArgs
+  waitlist?: boolean | TeacherCountOutputTypeCountWaitlistArgs
 }
 
 /**
@@ -552,6 +750,20 @@ export type TeacherCountOutputTypeCountBookingsArgs<ExtArgs extends runtime.Type
   where?: Prisma.RoomBookingWhereInput
 }
 
+/**
+ * TeacherCountOutputType without action
+ */
+export type TeacherCountOutputTypeCountSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BookingSeriesWhereInput
+}
+
+/**
+ * TeacherCountOutputType without action
+ */
+export type TeacherCountOutputTypeCountWaitlistArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 
 export type TeacherSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -563,6 +775,8 @@ export type TeacherSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   updatedAt?: boolean
   user?: boolean | Prisma.Teacher$userArgs<ExtArgs>
   bookings?: boolean | Prisma.Teacher$bookingsArgs<ExtArgs>
+  series?: boolean | Prisma.Teacher$seriesArgs<ExtArgs>
+  waitlist?: boolean | Prisma.Teacher$waitlistArgs<ExtArgs>
   _count?: boolean | Prisma.TeacherCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["teacher"]>
 
@@ -600,6 +814,8 @@ export type TeacherOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs =
 export type TeacherInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.Teacher$userArgs<ExtArgs>
   bookings?: boolean | Prisma.Teacher$bookingsArgs<ExtArgs>
+  series?: boolean | Prisma.Teacher$seriesArgs<ExtArgs>
+  waitlist?: boolean | Prisma.Teacher$waitlistArgs<ExtArgs>
   _count?: boolean | Prisma.TeacherCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TeacherIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -610,6 +826,8 @@ export type $TeacherPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   objects: {
     user: Prisma.$UserPayload<ExtArgs> | null
     bookings: Prisma.$RoomBookingPayload<ExtArgs>[]
+    series: Prisma.$BookingSeriesPayload<ExtArgs>[]
+    waitlist: Prisma.$WaitlistEntryPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1015,6 +1233,8 @@ export interface Prisma__TeacherClient<T, Null = never, ExtArgs extends runtime.
   readonly [Symbol.toStringTag]: "PrismaPromise"
   user<T extends Prisma.Teacher$userArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Teacher$userArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   bookings<T extends Prisma.Teacher$bookingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Teacher$bookingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RoomBookingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  series<T extends Prisma.Teacher$seriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Teacher$seriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BookingSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlist<T extends Prisma.Teacher$waitlistArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Teacher$waitlistArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1481,6 +1701,54 @@ export type Teacher$bookingsArgs<ExtArgs extends runtime.Types.Extensions.Intern
   distinct?: Prisma.RoomBookingScalarFieldEnum | Prisma.RoomBookingScalarFieldEnum[]
 }
 
+/**
+ * Teacher.series
+ */
+export type Teacher$seriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BookingSeries
+   */
+  select?: Prisma.BookingSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BookingSeries
+   */
+  omit?: Prisma.BookingSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BookingSeriesInclude<ExtArgs> | null
+  where?: Prisma.BookingSeriesWhereInput
+  orderBy?: Prisma.BookingSeriesOrderByWithRelationInput | Prisma.BookingSeriesOrderByWithRelationInput[]
+  cursor?: Prisma.BookingSeriesWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BookingSeriesScalarFieldEnum | Prisma.BookingSeriesScalarFieldEnum[]
+}
+
+/**
+ * Teacher.waitlist
+ */
+export type Teacher$waitlistArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * Teacher without action
  */
@@ -28,6 +28,8 @@ export type UserMinAggregateOutputType = {
   email: string | null
   password: string | null
   plainPassword: string | null
+  setupTokenHash: string | null
+  setupTokenExpiresAt: Date | null
   role: $Enums.UserRole | null
   studentId: string | null
   teacherId: string | null
@@ -40,6 +42,8 @@ export type UserMaxAggregateOutputType = {
   email: string | null
   password: string | null
   plainPassword: string | null
+  setupTokenHash: string | null
+  setupTokenExpiresAt: Date | null
   role: $Enums.UserRole | null
   studentId: string | null
   teacherId: string | null
@@ -52,6 +56,8 @@ export type UserCountAggregateOutputType = {
   email: number
   password: number
   plainPassword: number
+  setupTokenHash: number
+  setupTokenExpiresAt: number
   role: number
   studentId: number
   teacherId: number
@@ -66,6 +72,8 @@ export type UserMinAggregateInputType = {
   email?: true
   password?: true
   plainPassword?: true
+  setupTokenHash?: true
+  setupTokenExpiresAt?: true
   role?: true
   studentId?: true
   teacherId?: true
@@ -78,6 +86,8 @@ export type UserMaxAggregateInputType = {
   email?: true
   password?: true
   plainPassword?: true
+  setupTokenHash?: true
+  setupTokenExpiresAt?: true
   role?: true
   studentId?: true
   teacherId?: true
@@ -90,6 +100,8 @@ export type UserCountAggregateInputType = {
   email?: true
   password?: true
   plainPassword?: true
+  setupTokenHash?: true
+  setupTokenExpiresAt?: true
   role?: true
   studentId?: true
   teacherId?: true
@@ -175,6 +187,8 @@ export type UserGroupByOutputType = {
   email: string
   password: string
   plainPassword: string | null
+  setupTokenHash: string | null
+  setupTokenExpiresAt: Date | null
   role: $Enums.UserRole
   studentId: string | null
   teacherId: string | null
@@ -208,6 +222,8 @@ export type UserWhereInput = {
   email?: Prisma.StringFilter<"User"> | string
   password?: Prisma.StringFilter<"User"> | string
   plainPassword?: Prisma.StringNullableFilter<"User"> | string | null
+  setupTokenHash?: Prisma.StringNullableFilter<"User"> | string | null
+  setupTokenExpiresAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
   studentId?: Prisma.StringNullableFilter<"User"> | string | null
   teacherId?: Prisma.StringNullableFilter<"User"> | string | null
@@ -222,6 +238,8 @@ export type UserOrderByWithRelationInput = {
   email?: Prisma.SortOrder
   password?: Prisma.SortOrder
   plainPassword?: Prisma.SortOrderInput | Prisma.SortOrder
+  setupTokenHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  setupTokenExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
   role?: Prisma.SortOrder
   studentId?: Prisma.SortOrderInput | Prisma.SortOrder
   teacherId?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -234,6 +252,7 @@ export type UserOrderByWithRelationInput = {
 export type UserWhereUniqueInput = Prisma.AtLeast<{
   id?: string
   email?: string
+  setupTokenHash?: string
   studentId?: string
   teacherId?: string
   AND?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
@@ -241,18 +260,21 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   NOT?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
   password?: Prisma.StringFilter<"User"> | string
   plainPassword?: Prisma.StringNullableFilter<"User"> | string | null
+  setupTokenExpiresAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
   student?: Prisma.XOR<Prisma.StudentNullableScalarRelationFilter, Prisma.StudentWhereInput> | null
   teacher?: Prisma.XOR<Prisma.TeacherNullableScalarRelationFilter, Prisma.TeacherWhereInput> | null
-}, "id" | "email" | "studentId" | "teacherId">
+}, "id" | "email" | "setupTokenHash" | "studentId" | "teacherId">
 
 export type UserOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
   password?: Prisma.SortOrder
   plainPassword?: Prisma.SortOrderInput | Prisma.SortOrder
+  setupTokenHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  setupTokenExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
   role?: Prisma.SortOrder
   studentId?: Prisma.SortOrderInput | Prisma.SortOrder
   teacherId?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -271,6 +293,8 @@ export type UserScalarWhereWithAggregatesInput = {
   email?: Prisma.StringWithAggregatesFilter<"User"> | string
   password?: Prisma.StringWithAggregatesFilter<"User"> | string
   plainPassword?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  setupTokenHash?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  setupTokenExpiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   role?: Prisma.EnumUserRoleWithAggregatesFilter<"User"> | $Enums.UserRole
   studentId?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   teacherId?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
@@ -283,6 +307,8 @@ export type UserCreateInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -295,6 +321,8 @@ export type UserUncheckedCreateInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   studentId?: string | null
   teacherId?: string | null
@@ -307,6 +335,8 @@ export type UserUpdateInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -319,6 +349,8 @@ export type UserUncheckedUpdateInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   studentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   teacherId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -331,6 +363,8 @@ export type UserCreateManyInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   studentId?: string | null
   teacherId?: string | null
@@ -343,6 +377,8 @@ export type UserUpdateManyMutationInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -353,6 +389,8 @@ export type UserUncheckedUpdateManyInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   studentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   teacherId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -365,6 +403,8 @@ export type UserCountOrderByAggregateInput = {
   email?: Prisma.SortOrder
   password?: Prisma.SortOrder
   plainPassword?: Prisma.SortOrder
+  setupTokenHash?: Prisma.SortOrder
+  setupTokenExpiresAt?: Prisma.SortOrder
   role?: Prisma.SortOrder
   studentId?: Prisma.SortOrder
   teacherId?: Prisma.SortOrder
@@ -377,6 +417,8 @@ export type UserMaxOrderByAggregateInput = {
   email?: Prisma.SortOrder
   password?: Prisma.SortOrder
   plainPassword?: Prisma.SortOrder
+  setupTokenHash?: Prisma.SortOrder
+  setupTokenExpiresAt?: Prisma.SortOrder
   role?: Prisma.SortOrder
   studentId?: Prisma.SortOrder
   teacherId?: Prisma.SortOrder
@@ -389,6 +431,8 @@ export type UserMinOrderByAggregateInput = {
   email?: Prisma.SortOrder
   password?: Prisma.SortOrder
   plainPassword?: Prisma.SortOrder
+  setupTokenHash?: Prisma.SortOrder
+  setupTokenExpiresAt?: Prisma.SortOrder
   role?: Prisma.SortOrder
   studentId?: Prisma.SortOrder
   teacherId?: Prisma.SortOrder
@@ -409,6 +453,10 @@ export type NullableStringFieldUpdateOperationsInput = {
   set?: string | null
 }
 
+export type NullableDateTimeFieldUpdateOperationsInput = {
+  set?: Date | string | null
+}
+
 export type EnumUserRoleFieldUpdateOperationsInput = {
   set?: $Enums.UserRole
 }
@@ -486,6 +534,8 @@ export type UserCreateWithoutStudentInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -497,6 +547,8 @@ export type UserUncheckedCreateWithoutStudentInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   teacherId?: string | null
   createdAt?: Date | string
@@ -524,6 +576,8 @@ export type UserUpdateWithoutStudentInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -535,6 +589,8 @@ export type UserUncheckedUpdateWithoutStudentInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   teacherId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -546,6 +602,8 @@ export type UserCreateWithoutTeacherInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -557,6 +615,8 @@ export type UserUncheckedCreateWithoutTeacherInput = {
   email: string
   password: string
   plainPassword?: string | null
+  setupTokenHash?: string | null
+  setupTokenExpiresAt?: Date | string | null
   role?: $Enums.UserRole
   studentId?: string | null
   createdAt?: Date | string
@@ -584,6 +644,8 @@ export type UserUpdateWithoutTeacherInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -595,6 +657,8 @@ export type UserUncheckedUpdateWithoutTeacherInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   password?: Prisma.StringFieldUpdateOperationsInput | string
   plainPassword?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  setupTokenExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   studentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -608,6 +672,8 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   email?: boolean
   password?: boolean
   plainPassword?: boolean
+  setupTokenHash?: boolean
+  setupTokenExpiresAt?: boolean
   role?: boolean
   studentId?: boolean
   teacherId?: boolean
@@ -622,6 +688,8 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   email?: boolean
   password?: boolean
   plainPassword?: boolean
+  setupTokenHash?: boolean
+  setupTokenExpiresAt?: boolean
   role?: boolean
   studentId?: boolean
   teacherId?: boolean
@@ -636,6 +704,8 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   email?: boolean
   password?: boolean
   plainPassword?: boolean
+  setupTokenHash?: boolean
+  setupTokenExpiresAt?: boolean
   role?: boolean
   studentId?: boolean
   teacherId?: boolean
@@ -650,6 +720,8 @@ export type UserSelectScalar = {
   email?: boolean
   password?: boolean
   plainPassword?: boolean
+  setupTokenHash?: boolean
+  setupTokenExpiresAt?: boolean
   role?: boolean
   studentId?: boolean
   teacherId?: boolean
@@ -657,7 +729,7 @@ export type UserSelectScalar = {
   updatedAt?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "password" | "plainPassword" | "role" | "studentId" | "teacherId" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "password" | "plainPassword" | "setupTokenHash" | "setupTokenExpiresAt" | "role" | "studentId" | "teacherId" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   student?: boolean | Prisma.User$studentArgs<ExtArgs>
   teacher?: boolean | Prisma.User$teacherArgs<ExtArgs>
@@ -682,6 +754,8 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     email: string
     password: string
     plainPassword: string | null
+    setupTokenHash: string | null
+    setupTokenExpiresAt: Date | null
     role: $Enums.UserRole
     studentId: string | null
     teacherId: string | null
@@ -1116,6 +1190,8 @@ export interface UserFieldRefs {
   readonly email: Prisma.FieldRef<"User", 'String'>
   readonly password: Prisma.FieldRef<"User", 'String'>
   readonly plainPassword: Prisma.FieldRef<"User", 'String'>
+  readonly setupTokenHash: Prisma.FieldRef<"User", 'String'>
+  readonly setupTokenExpiresAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly role: Prisma.FieldRef<"User", 'UserRole'>
   readonly studentId: Prisma.FieldRef<"User", 'String'>
   readonly teacherId: Prisma.FieldRef<"User", 'String'>
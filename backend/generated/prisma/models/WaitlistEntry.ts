@@ -0,0 +1,1712 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// @ts-nocheck 
+/*
+ * This file exports the `WaitlistEntry` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/library"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WaitlistEntry
+ * 
+ */
+export type WaitlistEntryModel = runtime.Types.Result.DefaultSelection<Prisma.$WaitlistEntryPayload>
+
+export type AggregateWaitlistEntry = {
+  _count: WaitlistEntryCountAggregateOutputType | null
+  _avg: WaitlistEntryAvgAggregateOutputType | null
+  _sum: WaitlistEntrySumAggregateOutputType | null
+  _min: WaitlistEntryMinAggregateOutputType | null
+  _max: WaitlistEntryMaxAggregateOutputType | null
+}
+
+export type WaitlistEntryAvgAggregateOutputType = {
+  capacity: number | null
+}
+
+export type WaitlistEntrySumAggregateOutputType = {
+  capacity: number | null
+}
+
+export type WaitlistEntryMinAggregateOutputType = {
+  id: string | null
+  roomId: string | null
+  teacherId: string | null
+  branch: $Enums.Branch | null
+  capacity: number | null
+  startTime: Date | null
+  endTime: Date | null
+  status: $Enums.WaitlistStatus | null
+  bookingId: string | null
+  createdAt: Date | null
+}
+
+export type WaitlistEntryMaxAggregateOutputType = {
+  id: string | null
+  roomId: string | null
+  teacherId: string | null
+  branch: $Enums.Branch | null
+  capacity: number | null
+  startTime: Date | null
+  endTime: Date | null
+  status: $Enums.WaitlistStatus | null
+  bookingId: string | null
+  createdAt: Date | null
+}
+
+export type WaitlistEntryCountAggregateOutputType = {
+  id: number
+  roomId: number
+  teacherId: number
+  branch: number
+  capacity: number
+  startTime: number
+  endTime: number
+  status: number
+  bookingId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WaitlistEntryAvgAggregateInputType = {
+  capacity?: true
+}
+
+export type WaitlistEntrySumAggregateInputType = {
+  capacity?: true
+}
+
+export type WaitlistEntryMinAggregateInputType = {
+  id?: true
+  roomId?: true
+  teacherId?: true
+  branch?: true
+  capacity?: true
+  startTime?: true
+  endTime?: true
+  status?: true
+  bookingId?: true
+  createdAt?: true
+}
+
+export type WaitlistEntryMaxAggregateInputType = {
+  id?: true
+  roomId?: true
+  teacherId?: true
+  branch?: true
+  capacity?: true
+  startTime?: true
+  endTime?: true
+  status?: true
+  bookingId?: true
+  createdAt?: true
+}
+
+export type WaitlistEntryCountAggregateInputType = {
+  id?: true
+  roomId?: true
+  teacherId?: true
+  branch?: true
+  capacity?: true
+  startTime?: true
+  endTime?: true
+  status?: true
+  bookingId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WaitlistEntryAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistEntry to aggregate.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WaitlistEntries
+  **/
+  _count?: true | WaitlistEntryCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WaitlistEntryAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WaitlistEntrySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WaitlistEntryMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WaitlistEntryMaxAggregateInputType
+}
+
+export type GetWaitlistEntryAggregateType<T extends WaitlistEntryAggregateArgs> = {
+      [P in keyof T & keyof AggregateWaitlistEntry]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWaitlistEntry[P]>
+    : Prisma.GetScalarType<T[P], AggregateWaitlistEntry[P]>
+}
+
+
+
+
+export type WaitlistEntryGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithAggregationInput | Prisma.WaitlistEntryOrderByWithAggregationInput[]
+  by: Prisma.WaitlistEntryScalarFieldEnum[] | Prisma.WaitlistEntryScalarFieldEnum
+  having?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WaitlistEntryCountAggregateInputType | true
+  _avg?: WaitlistEntryAvgAggregateInputType
+  _sum?: WaitlistEntrySumAggregateInputType
+  _min?: WaitlistEntryMinAggregateInputType
+  _max?: WaitlistEntryMaxAggregateInputType
+}
+
+export type WaitlistEntryGroupByOutputType = {
+  id: string
+  roomId: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date
+  endTime: Date
+  status: $Enums.WaitlistStatus
+  bookingId: string | null
+  createdAt: Date
+  _count: WaitlistEntryCountAggregateOutputType | null
+  _avg: WaitlistEntryAvgAggregateOutputType | null
+  _sum: WaitlistEntrySumAggregateOutputType | null
+  _min: WaitlistEntryMinAggregateOutputType | null
+  _max: WaitlistEntryMaxAggregateOutputType | null
+}
+
+type GetWaitlistEntryGroupByPayload<T extends WaitlistEntryGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WaitlistEntryGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WaitlistEntryGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WaitlistEntryGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WaitlistEntryGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WaitlistEntryWhereInput = {
+  AND?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  OR?: Prisma.WaitlistEntryWhereInput[]
+  NOT?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistEntry"> | string
+  roomId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  teacherId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  branch?: Prisma.EnumBranchFilter<"WaitlistEntry"> | $Enums.Branch
+  capacity?: Prisma.IntFilter<"WaitlistEntry"> | number
+  startTime?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  endTime?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  status?: Prisma.EnumWaitlistStatusFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  bookingId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>
+  teacher?: Prisma.XOR<Prisma.TeacherScalarRelationFilter, Prisma.TeacherWhereInput>
+}
+
+export type WaitlistEntryOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  room?: Prisma.RoomOrderByWithRelationInput
+  teacher?: Prisma.TeacherOrderByWithRelationInput
+}
+
+export type WaitlistEntryWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  OR?: Prisma.WaitlistEntryWhereInput[]
+  NOT?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  roomId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  teacherId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  branch?: Prisma.EnumBranchFilter<"WaitlistEntry"> | $Enums.Branch
+  capacity?: Prisma.IntFilter<"WaitlistEntry"> | number
+  startTime?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  endTime?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  status?: Prisma.EnumWaitlistStatusFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  bookingId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>
+  teacher?: Prisma.XOR<Prisma.TeacherScalarRelationFilter, Prisma.TeacherWhereInput>
+}, "id">
+
+export type WaitlistEntryOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WaitlistEntryCountOrderByAggregateInput
+  _avg?: Prisma.WaitlistEntryAvgOrderByAggregateInput
+  _max?: Prisma.WaitlistEntryMaxOrderByAggregateInput
+  _min?: Prisma.WaitlistEntryMinOrderByAggregateInput
+  _sum?: Prisma.WaitlistEntrySumOrderByAggregateInput
+}
+
+export type WaitlistEntryScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput | Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput | Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  roomId?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  teacherId?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  branch?: Prisma.EnumBranchWithAggregatesFilter<"WaitlistEntry"> | $Enums.Branch
+  capacity?: Prisma.IntWithAggregatesFilter<"WaitlistEntry"> | number
+  startTime?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  endTime?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  status?: Prisma.EnumWaitlistStatusWithAggregatesFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  bookingId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+}
+
+export type WaitlistEntryCreateInput = {
+  id?: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+  room: Prisma.RoomCreateNestedOneWithoutWaitlistInput
+  teacher: Prisma.TeacherCreateNestedOneWithoutWaitlistInput
+}
+
+export type WaitlistEntryUncheckedCreateInput = {
+  id?: string
+  roomId: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistEntryUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  room?: Prisma.RoomUpdateOneRequiredWithoutWaitlistNestedInput
+  teacher?: Prisma.TeacherUpdateOneRequiredWithoutWaitlistNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyInput = {
+  id?: string
+  roomId: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistEntryUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryListRelationFilter = {
+  every?: Prisma.WaitlistEntryWhereInput
+  some?: Prisma.WaitlistEntryWhereInput
+  none?: Prisma.WaitlistEntryWhereInput
+}
+
+export type WaitlistEntryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WaitlistEntryCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntryAvgOrderByAggregateInput = {
+  capacity?: Prisma.SortOrder
+}
+
+export type WaitlistEntryMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntryMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  roomId?: Prisma.SortOrder
+  teacherId?: Prisma.SortOrder
+  branch?: Prisma.SortOrder
+  capacity?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  bookingId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntrySumOrderByAggregateInput = {
+  capacity?: Prisma.SortOrder
+}
+
+export type WaitlistEntryCreateNestedManyWithoutRoomInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutRoomInput, Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput> | Prisma.WaitlistEntryCreateWithoutRoomInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput | Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyRoomInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutRoomInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutRoomInput, Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput> | Prisma.WaitlistEntryCreateWithoutRoomInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput | Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyRoomInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutRoomNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutRoomInput, Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput> | Prisma.WaitlistEntryCreateWithoutRoomInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput | Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutRoomInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutRoomInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyRoomInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutRoomInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutRoomInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutRoomInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutRoomInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutRoomNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutRoomInput, Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput> | Prisma.WaitlistEntryCreateWithoutRoomInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput | Prisma.WaitlistEntryCreateOrConnectWithoutRoomInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutRoomInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutRoomInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyRoomInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutRoomInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutRoomInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutRoomInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutRoomInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutTeacherInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput> | Prisma.WaitlistEntryCreateWithoutTeacherInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput | Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyTeacherInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutTeacherInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput> | Prisma.WaitlistEntryCreateWithoutTeacherInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput | Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyTeacherInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutTeacherNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput> | Prisma.WaitlistEntryCreateWithoutTeacherInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput | Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutTeacherInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutTeacherInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyTeacherInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutTeacherInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutTeacherInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutTeacherInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutTeacherInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutTeacherNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput> | Prisma.WaitlistEntryCreateWithoutTeacherInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput | Prisma.WaitlistEntryCreateOrConnectWithoutTeacherInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutTeacherInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutTeacherInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyTeacherInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutTeacherInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutTeacherInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutTeacherInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutTeacherInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type EnumWaitlistStatusFieldUpdateOperationsInput = {
+  set?: $Enums.WaitlistStatus
+}
+
+export type WaitlistEntryCreateWithoutRoomInput = {
+  id?: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+  teacher: Prisma.TeacherCreateNestedOneWithoutWaitlistInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutRoomInput = {
+  id?: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutRoomInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutRoomInput, Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput>
+}
+
+export type WaitlistEntryCreateManyRoomInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyRoomInput | Prisma.WaitlistEntryCreateManyRoomInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutRoomInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutRoomInput, Prisma.WaitlistEntryUncheckedUpdateWithoutRoomInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutRoomInput, Prisma.WaitlistEntryUncheckedCreateWithoutRoomInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutRoomInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutRoomInput, Prisma.WaitlistEntryUncheckedUpdateWithoutRoomInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutRoomInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutRoomInput>
+}
+
+export type WaitlistEntryScalarWhereInput = {
+  AND?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+  OR?: Prisma.WaitlistEntryScalarWhereInput[]
+  NOT?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistEntry"> | string
+  roomId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  teacherId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  branch?: Prisma.EnumBranchFilter<"WaitlistEntry"> | $Enums.Branch
+  capacity?: Prisma.IntFilter<"WaitlistEntry"> | number
+  startTime?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  endTime?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  status?: Prisma.EnumWaitlistStatusFilter<"WaitlistEntry"> | $Enums.WaitlistStatus
+  bookingId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+}
+
+export type WaitlistEntryCreateWithoutTeacherInput = {
+  id?: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+  room: Prisma.RoomCreateNestedOneWithoutWaitlistInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutTeacherInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutTeacherInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput>
+}
+
+export type WaitlistEntryCreateManyTeacherInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyTeacherInput | Prisma.WaitlistEntryCreateManyTeacherInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutTeacherInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedUpdateWithoutTeacherInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedCreateWithoutTeacherInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutTeacherInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutTeacherInput, Prisma.WaitlistEntryUncheckedUpdateWithoutTeacherInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutTeacherInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutTeacherInput>
+}
+
+export type WaitlistEntryCreateManyRoomInput = {
+  id?: string
+  teacherId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  teacher?: Prisma.TeacherUpdateOneRequiredWithoutWaitlistNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutRoomInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  teacherId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyTeacherInput = {
+  id?: string
+  roomId: string
+  branch: $Enums.Branch
+  capacity: number
+  startTime: Date | string
+  endTime: Date | string
+  status?: $Enums.WaitlistStatus
+  bookingId?: string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutTeacherInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  room?: Prisma.RoomUpdateOneRequiredWithoutWaitlistNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutTeacherInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutTeacherInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roomId?: Prisma.StringFieldUpdateOperationsInput | string
+  branch?: Prisma.EnumBranchFieldUpdateOperationsInput | $Enums.Branch
+  capacity?: Prisma.IntFieldUpdateOperationsInput | number
+  startTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endTime?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumWaitlistStatusFieldUpdateOperationsInput | $Enums.WaitlistStatus
+  bookingId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WaitlistEntrySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  roomId?: boolean
+  teacherId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  status?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  roomId?: boolean
+  teacherId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  status?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  roomId?: boolean
+  teacherId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  status?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectScalar = {
+  id?: boolean
+  roomId?: boolean
+  teacherId?: boolean
+  branch?: boolean
+  capacity?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  status?: boolean
+  bookingId?: boolean
+  createdAt?: boolean
+}
+
+export type WaitlistEntryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "roomId" | "teacherId" | "branch" | "capacity" | "startTime" | "endTime" | "status" | "bookingId" | "createdAt", ExtArgs["result"]["waitlistEntry"]>
+export type WaitlistEntryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}
+export type WaitlistEntryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}
+export type WaitlistEntryIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>
+  teacher?: boolean | Prisma.TeacherDefaultArgs<ExtArgs>
+}
+
+export type $WaitlistEntryPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WaitlistEntry"
+  objects: {
+    room: Prisma.$RoomPayload<ExtArgs>
+    teacher: Prisma.$TeacherPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    roomId: string
+    teacherId: string
+    branch: $Enums.Branch
+    capacity: number
+    startTime: Date
+    endTime: Date
+    status: $Enums.WaitlistStatus
+    bookingId: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["waitlistEntry"]>
+  composites: {}
+}
+
+export type WaitlistEntryGetPayload<S extends boolean | null | undefined | WaitlistEntryDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload, S>
+
+export type WaitlistEntryCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WaitlistEntryFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WaitlistEntryCountAggregateInputType | true
+  }
+
+export interface WaitlistEntryDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WaitlistEntry'], meta: { name: 'WaitlistEntry' } }
+  /**
+   * Find zero or one WaitlistEntry that matches the filter.
+   * @param {WaitlistEntryFindUniqueArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WaitlistEntryFindUniqueArgs>(args: Prisma.SelectSubset<T, WaitlistEntryFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WaitlistEntry that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WaitlistEntryFindUniqueOrThrowArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WaitlistEntryFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WaitlistEntryFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistEntry that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindFirstArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WaitlistEntryFindFirstArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindFirstArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistEntry that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindFirstOrThrowArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WaitlistEntryFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WaitlistEntries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WaitlistEntries
+   * const waitlistEntries = await prisma.waitlistEntry.findMany()
+   * 
+   * // Get first 10 WaitlistEntries
+   * const waitlistEntries = await prisma.waitlistEntry.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WaitlistEntryFindManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WaitlistEntry.
+   * @param {WaitlistEntryCreateArgs} args - Arguments to create a WaitlistEntry.
+   * @example
+   * // Create one WaitlistEntry
+   * const WaitlistEntry = await prisma.waitlistEntry.create({
+   *   data: {
+   *     // ... data to create a WaitlistEntry
+   *   }
+   * })
+   * 
+   */
+  create<T extends WaitlistEntryCreateArgs>(args: Prisma.SelectSubset<T, WaitlistEntryCreateArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WaitlistEntries.
+   * @param {WaitlistEntryCreateManyArgs} args - Arguments to create many WaitlistEntries.
+   * @example
+   * // Create many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WaitlistEntryCreateManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WaitlistEntries and returns the data saved in the database.
+   * @param {WaitlistEntryCreateManyAndReturnArgs} args - Arguments to create many WaitlistEntries.
+   * @example
+   * // Create many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WaitlistEntries and only return the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WaitlistEntryCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WaitlistEntry.
+   * @param {WaitlistEntryDeleteArgs} args - Arguments to delete one WaitlistEntry.
+   * @example
+   * // Delete one WaitlistEntry
+   * const WaitlistEntry = await prisma.waitlistEntry.delete({
+   *   where: {
+   *     // ... filter to delete one WaitlistEntry
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WaitlistEntryDeleteArgs>(args: Prisma.SelectSubset<T, WaitlistEntryDeleteArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WaitlistEntry.
+   * @param {WaitlistEntryUpdateArgs} args - Arguments to update one WaitlistEntry.
+   * @example
+   * // Update one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WaitlistEntryUpdateArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WaitlistEntries.
+   * @param {WaitlistEntryDeleteManyArgs} args - Arguments to filter WaitlistEntries to delete.
+   * @example
+   * // Delete a few WaitlistEntries
+   * const { count } = await prisma.waitlistEntry.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WaitlistEntryDeleteManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WaitlistEntryUpdateManyArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistEntries and returns the data updated in the database.
+   * @param {WaitlistEntryUpdateManyAndReturnArgs} args - Arguments to update many WaitlistEntries.
+   * @example
+   * // Update many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WaitlistEntries and only return the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WaitlistEntryUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WaitlistEntry.
+   * @param {WaitlistEntryUpsertArgs} args - Arguments to update or create a WaitlistEntry.
+   * @example
+   * // Update or create a WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.upsert({
+   *   create: {
+   *     // ... data to create a WaitlistEntry
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WaitlistEntry we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WaitlistEntryUpsertArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpsertArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WaitlistEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryCountArgs} args - Arguments to filter WaitlistEntries to count.
+   * @example
+   * // Count the number of WaitlistEntries
+   * const count = await prisma.waitlistEntry.count({
+   *   where: {
+   *     // ... the filter for the WaitlistEntries we want to count
+   *   }
+   * })
+  **/
+  count<T extends WaitlistEntryCountArgs>(
+    args?: Prisma.Subset<T, WaitlistEntryCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WaitlistEntryCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WaitlistEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WaitlistEntryAggregateArgs>(args: Prisma.Subset<T, WaitlistEntryAggregateArgs>): Prisma.PrismaPromise<GetWaitlistEntryAggregateType<T>>
+
+  /**
+   * Group by WaitlistEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WaitlistEntryGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WaitlistEntryGroupByArgs['orderBy'] }
+      : { orderBy?: WaitlistEntryGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WaitlistEntryGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWaitlistEntryGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WaitlistEntry model
+ */
+readonly fields: WaitlistEntryFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WaitlistEntry.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WaitlistEntryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  room<T extends Prisma.RoomDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RoomDefaultArgs<ExtArgs>>): Prisma.Prisma__RoomClient<runtime.Types.Result.GetResult<Prisma.$RoomPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  teacher<T extends Prisma.TeacherDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TeacherDefaultArgs<ExtArgs>>): Prisma.Prisma__TeacherClient<runtime.Types.Result.GetResult<Prisma.$TeacherPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WaitlistEntry model
+ */
+export interface WaitlistEntryFieldRefs {
+  readonly id: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly roomId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly teacherId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly branch: Prisma.FieldRef<"WaitlistEntry", 'Branch'>
+  readonly capacity: Prisma.FieldRef<"WaitlistEntry", 'Int'>
+  readonly startTime: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly endTime: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly status: Prisma.FieldRef<"WaitlistEntry", 'WaitlistStatus'>
+  readonly bookingId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly createdAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WaitlistEntry findUnique
+ */
+export type WaitlistEntryFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry findUniqueOrThrow
+ */
+export type WaitlistEntryFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry findFirst
+ */
+export type WaitlistEntryFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistEntries.
+   */
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry findFirstOrThrow
+ */
+export type WaitlistEntryFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistEntries.
+   */
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry findMany
+ */
+export type WaitlistEntryFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntries to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry create
+ */
+export type WaitlistEntryCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WaitlistEntry.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryCreateInput, Prisma.WaitlistEntryUncheckedCreateInput>
+}
+
+/**
+ * WaitlistEntry createMany
+ */
+export type WaitlistEntryCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WaitlistEntries.
+   */
+  data: Prisma.WaitlistEntryCreateManyInput | Prisma.WaitlistEntryCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WaitlistEntry createManyAndReturn
+ */
+export type WaitlistEntryCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * The data used to create many WaitlistEntries.
+   */
+  data: Prisma.WaitlistEntryCreateManyInput | Prisma.WaitlistEntryCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntry update
+ */
+export type WaitlistEntryUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WaitlistEntry.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateInput, Prisma.WaitlistEntryUncheckedUpdateInput>
+  /**
+   * Choose, which WaitlistEntry to update.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry updateMany
+ */
+export type WaitlistEntryUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WaitlistEntries.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistEntries to update
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to update.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistEntry updateManyAndReturn
+ */
+export type WaitlistEntryUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * The data used to update WaitlistEntries.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistEntries to update
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntry upsert
+ */
+export type WaitlistEntryUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WaitlistEntry to update in case it exists.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * In case the WaitlistEntry found by the `where` argument doesn't exist, create a new WaitlistEntry with this data.
+   */
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateInput, Prisma.WaitlistEntryUncheckedCreateInput>
+  /**
+   * In case the WaitlistEntry was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateInput, Prisma.WaitlistEntryUncheckedUpdateInput>
+}
+
+/**
+ * WaitlistEntry delete
+ */
+export type WaitlistEntryDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter which WaitlistEntry to delete.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+/**
+ * WaitlistEntry deleteMany
+ */
+export type WaitlistEntryDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistEntries to delete
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistEntry without action
+ */
+export type WaitlistEntryDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+}
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AllocationBatchStatus" AS ENUM ('Applied', 'RolledBack');
+
+-- CreateTable
+CREATE TABLE "AllocationBatch" (
+    "id" TEXT NOT NULL,
+    "branch" "Branch" NOT NULL,
+    "buildingId" TEXT,
+    "roomId" TEXT,
+    "strategy" TEXT,
+    "status" "AllocationBatchStatus" NOT NULL DEFAULT 'Applied',
+    "branchAssignedRooms" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rolledBackAt" TIMESTAMP(3),
+
+    CONSTRAINT "AllocationBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AllocationBatchSeat" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "seatId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "seatLabel" TEXT NOT NULL,
+    "seatVersion" INTEGER NOT NULL,
+
+    CONSTRAINT "AllocationBatchSeat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AllocationBatch_createdAt_idx" ON "AllocationBatch"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AllocationBatchSeat_batchId_idx" ON "AllocationBatchSeat"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "AllocationBatchSeat" ADD CONSTRAINT "AllocationBatchSeat_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "AllocationBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "RoomBooking" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BookingSeries" (
+    "id" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "branch" "Branch" NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "byWeekday" INTEGER[],
+    "until" TIMESTAMP(3),
+    "count" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoomBooking_seriesId_idx" ON "RoomBooking"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "RoomBooking" ADD CONSTRAINT "RoomBooking_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "BookingSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingSeries" ADD CONSTRAINT "BookingSeries_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher"("id") ON DELETE CASCADE ON UPDATE CASCADE;
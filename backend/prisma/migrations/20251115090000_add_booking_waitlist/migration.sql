@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('Waiting', 'Booked');
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "branch" "Branch" NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'Waiting',
+    "bookingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_roomId_startTime_endTime_idx" ON "WaitlistEntry"("roomId", "startTime", "endTime");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_teacherId_idx" ON "WaitlistEntry"("teacherId");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher"("id") ON DELETE CASCADE ON UPDATE CASCADE;
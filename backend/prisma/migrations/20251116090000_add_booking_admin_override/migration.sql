@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "BookingStatus" ADD VALUE 'Cancelled';
+
+-- AlterTable
+ALTER TABLE "RoomBooking" ADD COLUMN     "adminReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
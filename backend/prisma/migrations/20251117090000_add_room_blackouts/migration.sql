@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "RoomBlackout" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomBlackout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoomBlackout_roomId_startTime_endTime_idx" ON "RoomBlackout"("roomId", "startTime", "endTime");
+
+-- AddForeignKey
+ALTER TABLE "RoomBlackout" ADD CONSTRAINT "RoomBlackout_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "setupTokenExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "setupTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_setupTokenHash_key" ON "User"("setupTokenHash");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "LocationNodeType" AS ENUM ('Block', 'Building', 'Floor');
+
+-- CreateEnum
+CREATE TYPE "LocationEdgeKind" AS ENUM ('Walkway', 'Stairs', 'Lift');
+
+-- CreateTable
+CREATE TABLE "LocationEdge" (
+    "id" TEXT NOT NULL,
+    "fromType" "LocationNodeType" NOT NULL,
+    "fromId" TEXT NOT NULL,
+    "toType" "LocationNodeType" NOT NULL,
+    "toId" TEXT NOT NULL,
+    "distance" DOUBLE PRECISION NOT NULL,
+    "kind" "LocationEdgeKind" NOT NULL DEFAULT 'Walkway',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LocationEdge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LocationEdge_fromType_fromId_toType_toId_key" ON "LocationEdge"("fromType", "fromId", "toType", "toId");
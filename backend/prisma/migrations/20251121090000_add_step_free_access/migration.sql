@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Building" ADD COLUMN     "stepFreeEntrance" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Floor" ADD COLUMN     "stepFreeAccess" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "LocationEdge" ADD COLUMN     "stepFree" BOOLEAN NOT NULL DEFAULT true;
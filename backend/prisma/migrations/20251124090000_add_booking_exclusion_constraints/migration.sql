@@ -0,0 +1,58 @@
+-- Exclusion constraints need GiST support for "=" on the text id columns
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- The time columns are TIMESTAMP(3) holding UTC, so the ranges are tsrange:
+-- tstzrange over them would need a session-timezone cast, which index
+-- expressions do not allow. Ranges are half-open, so back-to-back bookings
+-- do not clash.
+
+-- The room lock used to let partially overlapping bookings through, so the
+-- constraints below would fail on existing data. Bookings are kept first come,
+-- first served: every active booking that overlaps an earlier one of the same
+-- room or teacher is cancelled, with the reason in adminReason. Bookings are
+-- visited in creation order, so one that only clashed with an already
+-- cancelled booking is kept.
+DO $$
+DECLARE
+  booking RECORD;
+  earlier RECORD;
+BEGIN
+  FOR booking IN
+    SELECT "id", "roomId", "teacherId", "startTime", "endTime", "createdAt"
+    FROM "RoomBooking"
+    WHERE "status" IN ('NotStarted', 'Ongoing')
+    ORDER BY "createdAt", "id"
+  LOOP
+    SELECT "id", "roomId" = booking."roomId" AS "sameRoom"
+    INTO earlier
+    FROM "RoomBooking"
+    WHERE "status" IN ('NotStarted', 'Ongoing')
+      AND ("roomId" = booking."roomId" OR "teacherId" = booking."teacherId")
+      AND tsrange("startTime", "endTime") && tsrange(booking."startTime", booking."endTime")
+      AND ("createdAt", "id") < (booking."createdAt", booking."id")
+    ORDER BY "createdAt", "id"
+    LIMIT 1;
+
+    IF FOUND THEN
+      UPDATE "RoomBooking"
+      SET "status" = 'Cancelled',
+          "cancelledAt" = CURRENT_TIMESTAMP,
+          "updatedAt" = CURRENT_TIMESTAMP,
+          "adminReason" = CASE
+            WHEN earlier."sameRoom" THEN 'Cancelled automatically: the room was already booked at this time (booking ' || earlier."id" || ')'
+            ELSE 'Cancelled automatically: the teacher already had a booking at this time (booking ' || earlier."id" || ')'
+          END
+      WHERE "id" = booking."id";
+    END IF;
+  END LOOP;
+END $$;
+
+-- A room holds at most one active booking at any moment
+ALTER TABLE "RoomBooking" ADD CONSTRAINT "RoomBooking_room_no_overlap"
+  EXCLUDE USING gist ("roomId" WITH =, tsrange("startTime", "endTime") WITH &&)
+  WHERE ("status" IN ('NotStarted', 'Ongoing'));
+
+-- A teacher holds at most one active booking at any moment
+ALTER TABLE "RoomBooking" ADD CONSTRAINT "RoomBooking_teacher_no_overlap"
+  EXCLUDE USING gist ("teacherId" WITH =, tsrange("startTime", "endTime") WITH &&)
+  WHERE ("status" IN ('NotStarted', 'Ongoing'));
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "BookingJobKind" AS ENUM ('Start', 'Complete');
+
+-- CreateTable
+CREATE TABLE "BookingLifecycleJob" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "kind" "BookingJobKind" NOT NULL,
+    "runAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookingLifecycleJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SchedulerLease" (
+    "name" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SchedulerLease_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingLifecycleJob_bookingId_kind_key" ON "BookingLifecycleJob"("bookingId", "kind");
+
+-- CreateIndex
+CREATE INDEX "BookingLifecycleJob_runAt_idx" ON "BookingLifecycleJob"("runAt");
+
+-- AddForeignKey
+ALTER TABLE "BookingLifecycleJob" ADD CONSTRAINT "BookingLifecycleJob_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "RoomBooking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Reschedule a booking's transitions whenever it is created, moved in time or
+-- changes status: NotStarted bookings get a Start job at startTime, and every
+-- active booking a Complete job at endTime
+CREATE FUNCTION "schedule_booking_lifecycle_jobs"() RETURNS trigger AS $$
+BEGIN
+  DELETE FROM "BookingLifecycleJob" WHERE "bookingId" = NEW."id";
+
+  IF NEW."status" = 'NotStarted' THEN
+    INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+    VALUES (gen_random_uuid()::text, NEW."id", 'Start', NEW."startTime");
+  END IF;
+
+  IF NEW."status" IN ('NotStarted', 'Ongoing') THEN
+    INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+    VALUES (gen_random_uuid()::text, NEW."id", 'Complete', NEW."endTime");
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "RoomBooking_schedule_lifecycle_jobs"
+  AFTER INSERT OR UPDATE OF "status", "startTime", "endTime" ON "RoomBooking"
+  FOR EACH ROW EXECUTE FUNCTION "schedule_booking_lifecycle_jobs"();
+
+-- Schedule the bookings that are already active
+INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+SELECT gen_random_uuid()::text, "id", 'Start', "startTime"
+FROM "RoomBooking" WHERE "status" = 'NotStarted';
+
+INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+SELECT gen_random_uuid()::text, "id", 'Complete', "endTime"
+FROM "RoomBooking" WHERE "status" IN ('NotStarted', 'Ongoing');
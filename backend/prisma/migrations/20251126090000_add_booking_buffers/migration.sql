@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Building" ADD COLUMN     "bufferAfterMinutes" INTEGER,
+ADD COLUMN     "bufferBeforeMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "bufferAfterMinutes" INTEGER,
+ADD COLUMN     "bufferBeforeMinutes" INTEGER;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "BookingPolicy" (
+    "id" TEXT NOT NULL,
+    "buildingId" TEXT,
+    "roomId" TEXT,
+    "maxDurationMinutes" INTEGER,
+    "minLeadMinutes" INTEGER,
+    "maxLeadDays" INTEGER,
+    "maxActiveBookings" INTEGER,
+    "openFromMinute" INTEGER,
+    "openUntilMinute" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookingPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingPolicy_buildingId_key" ON "BookingPolicy"("buildingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingPolicy_roomId_key" ON "BookingPolicy"("roomId");
+
+-- AddForeignKey
+ALTER TABLE "BookingPolicy" ADD CONSTRAINT "BookingPolicy_buildingId_fkey" FOREIGN KEY ("buildingId") REFERENCES "Building"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingPolicy" ADD CONSTRAINT "BookingPolicy_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum. The new values are
+-- only used from the next migration on: PostgreSQL does not allow a value
+-- added in a transaction to be used before that transaction commits.
+ALTER TYPE "BookingStatus" ADD VALUE 'PendingApproval' BEFORE 'NotStarted';
+ALTER TYPE "BookingStatus" ADD VALUE 'Rejected';
+
+-- AlterEnum
+ALTER TYPE "BookingJobKind" ADD VALUE 'Expire';
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "requiresApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "RoomBooking" ADD COLUMN     "reviewComment" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3);
@@ -0,0 +1,37 @@
+-- Bookings waiting for approval hold their slot like active ones, so the
+-- overlap constraints are recreated to cover them too
+ALTER TABLE "RoomBooking" DROP CONSTRAINT "RoomBooking_room_no_overlap";
+ALTER TABLE "RoomBooking" DROP CONSTRAINT "RoomBooking_teacher_no_overlap";
+
+ALTER TABLE "RoomBooking" ADD CONSTRAINT "RoomBooking_room_no_overlap"
+  EXCLUDE USING gist ("roomId" WITH =, tsrange("startTime", "endTime") WITH &&)
+  WHERE ("status" IN ('PendingApproval', 'NotStarted', 'Ongoing'));
+
+ALTER TABLE "RoomBooking" ADD CONSTRAINT "RoomBooking_teacher_no_overlap"
+  EXCLUDE USING gist ("teacherId" WITH =, tsrange("startTime", "endTime") WITH &&)
+  WHERE ("status" IN ('PendingApproval', 'NotStarted', 'Ongoing'));
+
+-- A booking still waiting for approval when it is due to start lapses: it
+-- gets an Expire job at startTime instead of Start and Complete jobs
+CREATE OR REPLACE FUNCTION "schedule_booking_lifecycle_jobs"() RETURNS trigger AS $$
+BEGIN
+  DELETE FROM "BookingLifecycleJob" WHERE "bookingId" = NEW."id";
+
+  IF NEW."status" = 'PendingApproval' THEN
+    INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+    VALUES (gen_random_uuid()::text, NEW."id", 'Expire', NEW."startTime");
+  END IF;
+
+  IF NEW."status" = 'NotStarted' THEN
+    INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+    VALUES (gen_random_uuid()::text, NEW."id", 'Start', NEW."startTime");
+  END IF;
+
+  IF NEW."status" IN ('NotStarted', 'Ongoing') THEN
+    INSERT INTO "BookingLifecycleJob" ("id", "bookingId", "kind", "runAt")
+    VALUES (gen_random_uuid()::text, NEW."id", 'Complete', NEW."endTime");
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -18,8 +18,18 @@ import planRouter from "./routes/plan";
 import allocationsRouter from "./routes/allocations";
 import blocksRouter from "./routes/blocks";
 import floorsRouter from "./routes/floors";
+import locationHierarchyRouter from "./routes/locationHierarchy";
+import locationGraphRouter from "./routes/locationGraph";
+import amenitiesRouter from "./routes/amenities";
+import bookingPoliciesRouter from "./routes/bookingPolicies";
 import roomBookingsRouter from "./routes/roomBookings";
+import auditLogsRouter from "./routes/auditLogs";
 import { BookingExpirationService } from "./services/bookingExpirationService";
+import {
+  roomLockService,
+  RedisLockStore,
+} from "./services/roomLockService";
+import redis from "./redis";
 
 const prisma = new PrismaClient({
   log: ["query", "info", "warn", "error"],
@@ -42,7 +52,8 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json());
+// Large enough for bulk student imports, which send the file in the body
+app.use(express.json({ limit: "5mb" }));
 
 // Rate limiting
 // const limiter = rateLimit({
@@ -66,6 +77,7 @@ const sensitiveLimiter = rateLimit({
 });
 app.use("/api/plan/allocate", sensitiveLimiter);
 app.use("/api/auth/login", sensitiveLimiter); // if exists
+app.use("/api/auth/setup-password", sensitiveLimiter);
 
 app.get("/api", (req, res) => {
   res.json({ message: "SeatPlanner API is running!" });
@@ -82,7 +94,12 @@ app.use("/api/plan", planRouter);
 app.use("/api/allocations", allocationsRouter);
 app.use("/api/locations/blocks", blocksRouter);
 app.use("/api/locations/floors", floorsRouter);
+app.use("/api/locations/hierarchy", locationHierarchyRouter);
+app.use("/api/locations/graph", locationGraphRouter);
+app.use("/api/amenities", amenitiesRouter);
+app.use("/api/booking-policies", bookingPoliciesRouter);
 app.use("/api/room-bookings", roomBookingsRouter);
+app.use("/api/audit-logs", auditLogsRouter);
 
 // Socket.io connection
 io.on("connection", (socket) => {
@@ -96,14 +113,18 @@ io.on("connection", (socket) => {
 // Make io available in routes
 app.set("io", io);
 
-// Initialize and start booking expiration service
+// Initialize and start the booking lifecycle scheduler
 const bookingExpirationService = new BookingExpirationService(io);
-const expirationInterval = bookingExpirationService.startScheduledJob();
+bookingExpirationService.start();
+
+// Share room locks across backend instances through Redis when asked to
+if (process.env.ROOM_LOCK_STORE === "redis") {
+  roomLockService.useStore(new RedisLockStore(redis));
+}
 
 // Clean up expired room locks every 60 seconds
-import { roomLockService } from "./services/roomLockService";
-const lockCleanupInterval = setInterval(() => {
-  const cleaned = roomLockService.cleanupExpiredLocks();
+const lockCleanupInterval = setInterval(async () => {
+  const cleaned = await roomLockService.cleanupExpiredLocks();
   if (cleaned > 0) {
     console.log(`Cleaned up ${cleaned} expired room locks`);
   }
@@ -115,7 +136,7 @@ server.listen(port, () => {
 
 // Graceful shutdown for nodemon restarts
 process.on("SIGUSR2", async () => {
-  bookingExpirationService.stopScheduledJob(expirationInterval);
+  await bookingExpirationService.stop();
   clearInterval(lockCleanupInterval);
   await prisma.$disconnect();
   server.close(() => {
@@ -61,6 +61,21 @@ class UpstashRedis {
     }
   }
 
+  // Unlike the cache helpers above this throws on failure: callers such as the
+  // room lock must not mistake an unreachable Redis for a granted lock.
+  async eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown> {
+    const response = await axios.post(
+      this.baseURL,
+      ['EVAL', script, keys.length, ...keys, ...args.map(String)],
+      {
+        headers: {
+          Authorization: `Bearer ${this.token}`,
+        },
+      }
+    );
+    return response.data.result;
+  }
+
   async keys(pattern: string): Promise<string[]> {
     try {
       // Corrected: pattern should be part of the URL path, not a query parameter.
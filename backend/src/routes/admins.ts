@@ -3,6 +3,7 @@ import bcrypt from "bcrypt";
 import { body, param, validationResult } from "express-validator";
 import { PrismaClient, UserRole } from "../../generated/prisma/client";
 import { authenticateToken, requireSuperAdmin, AuthRequest } from "./auth";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
 import {
   sendError,
   sendValidationError,
@@ -89,6 +90,14 @@ router.post(
         },
       });
 
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ADMIN_CREATED,
+        entityType: "User",
+        entityId: admin.id,
+        after: admin,
+      });
+
       res.status(201).json(admin);
     } catch (error) {
       return handleUnexpectedError(error, res);
@@ -173,6 +182,15 @@ router.put(
         },
       });
 
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ADMIN_UPDATED,
+        entityType: "User",
+        entityId: updatedAdmin.id,
+        before: { email: admin.email, role: admin.role },
+        after: { email: updatedAdmin.email, role: updatedAdmin.role, passwordChanged: !!password },
+      });
+
       res.json(updatedAdmin);
     } catch (error: any) {
       if (error.code === "P2025") {
@@ -218,6 +236,14 @@ router.delete(
         where: { id: req.params.id },
       });
 
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ADMIN_DELETED,
+        entityType: "User",
+        entityId: admin.id,
+        before: { email: admin.email, role: admin.role },
+      });
+
       res.status(204).send();
     } catch (error: any) {
       if (error.code === "P2025") {
@@ -0,0 +1,213 @@
+import { Router, Request, Response } from "express";
+import { param, body, validationResult } from "express-validator";
+import { PrismaClient } from "../../generated/prisma/client";
+import { cacheMiddleware, invalidateCache } from "../middleware/cache";
+import { authenticateToken, requireAdmin, AuthRequest } from "./auth";
+import {
+  sendError,
+  sendValidationError,
+  handleUnexpectedError,
+  ErrorCode,
+} from "../utils/errorHandler";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import { RoomSearchService } from "../services/roomSearchService";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Room lists embed their amenities, so catalogue changes invalidate them too
+const invalidateAmenityCaches = async () => {
+  await invalidateCache("amenities:*");
+  await invalidateCache("rooms:*");
+  RoomSearchService.invalidateSearchCache();
+};
+
+// GET /api/amenities -> the amenity catalogue with how many rooms offer each
+router.get(
+  "/",
+  [authenticateToken],
+  cacheMiddleware("amenities"),
+  async (req: Request, res: Response) => {
+    try {
+      const amenities = await prisma.amenity.findMany({
+        include: {
+          _count: {
+            select: { rooms: true },
+          },
+        },
+        orderBy: { name: "asc" },
+      });
+
+      res.json(
+        amenities.map(({ _count, ...amenity }) => ({
+          ...amenity,
+          roomCount: _count.rooms,
+        }))
+      );
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/amenities -> add an amenity to the catalogue
+router.post(
+  "/",
+  [
+    authenticateToken,
+    requireAdmin,
+    body("name")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Name must be between 1 and 100 characters"),
+    body("description")
+      .optional({ values: "null" })
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Description must be at most 500 characters"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { name, description } = req.body;
+
+      const existing = await prisma.amenity.findUnique({ where: { name } });
+      if (existing) {
+        return sendError(res, 409, ErrorCode.AMENITY_EXISTS);
+      }
+
+      const amenity = await prisma.amenity.create({
+        data: { name, description: description || null },
+      });
+
+      await invalidateAmenityCaches();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.AMENITY_CREATED,
+        entityType: "Amenity",
+        entityId: amenity.id,
+        after: amenity,
+      });
+
+      res.status(201).json(amenity);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// PUT /api/amenities/:id -> rename or describe an amenity
+router.put(
+  "/:id",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    body("name")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage("Name must be between 1 and 100 characters"),
+    body("description")
+      .optional({ values: "null" })
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage("Description must be at most 500 characters"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { name, description } = req.body;
+
+      const existing = await prisma.amenity.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!existing) {
+        return sendError(res, 404, ErrorCode.AMENITY_NOT_FOUND);
+      }
+
+      if (name !== undefined && name !== existing.name) {
+        const duplicate = await prisma.amenity.findUnique({ where: { name } });
+        if (duplicate) {
+          return sendError(res, 409, ErrorCode.AMENITY_EXISTS);
+        }
+      }
+
+      const updateData: { name?: string; description?: string | null } = {};
+      if (name !== undefined) updateData.name = name;
+      if (description !== undefined) updateData.description = description || null;
+
+      const amenity = await prisma.amenity.update({
+        where: { id: existing.id },
+        data: updateData,
+      });
+
+      await invalidateAmenityCaches();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.AMENITY_UPDATED,
+        entityType: "Amenity",
+        entityId: amenity.id,
+        before: existing,
+        after: amenity,
+      });
+
+      res.json(amenity);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// DELETE /api/amenities/:id -> remove an amenity from the catalogue and from every room
+router.delete(
+  "/:id",
+  [authenticateToken, requireAdmin, param("id").isString().notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const existing = await prisma.amenity.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!existing) {
+        return sendError(res, 404, ErrorCode.AMENITY_NOT_FOUND);
+      }
+
+      await prisma.amenity.delete({ where: { id: existing.id } });
+
+      await invalidateAmenityCaches();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.AMENITY_DELETED,
+        entityType: "Amenity",
+        entityId: existing.id,
+        before: existing,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router, Response } from "express";
+import { query, validationResult } from "express-validator";
+import { authenticateToken, requireSuperAdmin, AuthRequest } from "./auth";
+import { AuditLogService } from "../services/auditLogService";
+import {
+  sendValidationError,
+  handleUnexpectedError,
+} from "../utils/errorHandler";
+
+const router = Router();
+
+// GET /api/audit-logs - Query audit events (super admin only)
+router.get(
+  "/",
+  authenticateToken,
+  requireSuperAdmin,
+  [
+    query("actorId").optional().isString(),
+    query("actorEmail").optional().isString(),
+    query("entityType")
+      .optional()
+      .isIn([
+        "Seat",
+        "Room",
+        "User",
+        "RoomBooking",
+        "BookingSeries",
+        "RoomBlackout",
+        "Student",
+        "Location",
+        "Amenity",
+        "BookingPolicy",
+      ])
+      .withMessage("Invalid entity type"),
+    query("entityId").optional().isString(),
+    query("action").optional().isString(),
+    query("from")
+      .optional()
+      .isISO8601()
+      .withMessage("From must be a valid date"),
+    query("to")
+      .optional()
+      .isISO8601()
+      .withMessage("To must be a valid date"),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 200 }),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { actorId, actorEmail, entityType, entityId, action, from, to, page, limit } =
+        req.query as Record<string, string | undefined>;
+
+      const result = await AuditLogService.query({
+        actorId,
+        actorEmail,
+        entityType,
+        entityId,
+        action,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        page: page ? parseInt(page) : undefined,
+        limit: limit ? parseInt(limit) : undefined,
+      });
+
+      res.json(result);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+export default router;
@@ -3,6 +3,8 @@ import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import { body, validationResult } from "express-validator";
 import { PrismaClient, Branch } from "../../generated/prisma/client";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import { StudentAccountService } from "../services/studentAccountService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -81,6 +83,40 @@ router.post(
   }
 );
 
+// POST /api/auth/setup-password - Choose a password with a one-time setup token
+router.post(
+  "/setup-password",
+  [
+    body("token").isString().notEmpty().withMessage("Setup token is required"),
+    body("password")
+      .isLength({ min: 6 })
+      .withMessage("Password must be at least 6 characters"),
+  ],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const email = await StudentAccountService.redeemSetupToken(
+        req.body.token,
+        req.body.password
+      );
+
+      if (!email) {
+        return res
+          .status(400)
+          .json({ error: "This setup link is invalid or has expired" });
+      }
+
+      res.json({ message: "Password set successfully", email });
+    } catch (error) {
+      res.status(500).json({ error: "Password setup failed" });
+    }
+  }
+);
+
 // Middleware to verify JWT
 export const authenticateToken = (
   req: AuthRequest,
@@ -211,6 +247,15 @@ router.post(
         },
       });
 
+      // Never snapshot the password itself, only whose it was
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.MASTER_PASSWORD_RESET,
+        entityType: "User",
+        entityId: user.id,
+        after: { email: user.email, role: user.role },
+      });
+
       res.json({
         message: "Password reset successfully",
         email: userEmail,
@@ -3,6 +3,7 @@ import { param, body, validationResult } from "express-validator";
 import { PrismaClient } from "../../generated/prisma/client";
 import { cacheMiddleware, invalidateCache } from "../middleware/cache";
 import { authenticateToken, requireAdmin } from "./auth";
+import { LocationGraphService } from "../services/locationGraphService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -206,6 +207,7 @@ router.delete(
       await prisma.block.delete({
         where: { id },
       });
+      await LocationGraphService.pruneDanglingEdges();
 
       await invalidateCache("blocks:*");
       await invalidateCache("buildings:*");
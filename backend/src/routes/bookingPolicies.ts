@@ -0,0 +1,254 @@
+import { Router, Response } from "express";
+import { param, body, validationResult } from "express-validator";
+import { PrismaClient } from "../../generated/prisma/client";
+import { authenticateToken, requireAdmin, AuthRequest } from "./auth";
+import {
+  sendError,
+  sendValidationError,
+  handleUnexpectedError,
+  ErrorCode,
+} from "../utils/errorHandler";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import { RoomSearchService } from "../services/roomSearchService";
+import {
+  GLOBAL_POLICY_ID,
+  POLICY_RULES,
+  PolicyRule,
+  PolicyRules,
+} from "../services/bookingPolicyService";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Every rule is optional; null (or leaving it out) inherits or means no limit
+const policyValidators = [
+  body("maxDurationMinutes")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Maximum duration must be at least 1 minute"),
+  body("minLeadMinutes")
+    .optional({ values: "null" })
+    .isInt({ min: 0 })
+    .withMessage("Minimum lead time cannot be negative"),
+  body("maxLeadDays")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Maximum lead time must be at least 1 day"),
+  body("maxActiveBookings")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Maximum active bookings must be at least 1"),
+  body("openFromMinute")
+    .optional({ values: "null" })
+    .isInt({ min: 0, max: 1439 })
+    .withMessage("Opening time must be between 00:00 and 23:59"),
+  body("openUntilMinute")
+    .optional({ values: "null" })
+    .isInt({ min: 1, max: 1440 })
+    .withMessage("Closing time must be between 00:01 and 24:00"),
+  body("openUntilMinute").custom((openUntil, { req }) => {
+    const openFrom = req.body.openFromMinute;
+    if (
+      openUntil !== null &&
+      openUntil !== undefined &&
+      openFrom !== null &&
+      openFrom !== undefined &&
+      openUntil <= openFrom
+    ) {
+      throw new Error("Closing time must be after opening time");
+    }
+    return true;
+  }),
+];
+
+// A PUT replaces every rule of the policy
+const rulesFromBody = (
+  body: Partial<Record<PolicyRule, number | null>>
+): PolicyRules => {
+  const rules = {} as PolicyRules;
+  for (const rule of POLICY_RULES) {
+    rules[rule] = body[rule] ?? null;
+  }
+  return rules;
+};
+
+const policyInclude = {
+  building: { select: { id: true, name: true, code: true } },
+  room: {
+    select: {
+      id: true,
+      name: true,
+      building: { select: { id: true, name: true, code: true } },
+    },
+  },
+} as const;
+
+// GET /api/booking-policies -> the global policy and every building and room override
+router.get(
+  "/",
+  [authenticateToken, requireAdmin],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const policies = await prisma.bookingPolicy.findMany({
+        include: policyInclude,
+        orderBy: { createdAt: "asc" },
+      });
+
+      res.json({
+        global: policies.find((p) => p.id === GLOBAL_POLICY_ID) ?? null,
+        overrides: policies.filter((p) => p.id !== GLOBAL_POLICY_ID),
+      });
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+/**
+ * Creates or replaces one policy and records the change
+ */
+async function savePolicy(
+  req: AuthRequest,
+  res: Response,
+  where: { id: string } | { buildingId: string } | { roomId: string }
+) {
+  const rules = rulesFromBody(req.body);
+
+  const before = await prisma.bookingPolicy.findUnique({ where });
+  const policy = await prisma.bookingPolicy.upsert({
+    where,
+    create: { ...where, ...rules },
+    update: rules,
+    include: policyInclude,
+  });
+
+  RoomSearchService.invalidateSearchCache();
+
+  await AuditLogService.record({
+    actor: req.user,
+    action: AuditAction.BOOKING_POLICY_UPDATED,
+    entityType: "BookingPolicy",
+    entityId: policy.id,
+    before,
+    after: policy,
+  });
+
+  res.json(policy);
+}
+
+// PUT /api/booking-policies/global -> set the rules that apply everywhere
+router.put(
+  "/global",
+  [authenticateToken, requireAdmin, ...policyValidators],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      await savePolicy(req, res, { id: GLOBAL_POLICY_ID });
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// PUT /api/booking-policies/buildings/:buildingId -> override rules for a building
+router.put(
+  "/buildings/:buildingId",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("buildingId").isString().notEmpty(),
+    ...policyValidators,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const building = await prisma.building.findUnique({
+        where: { id: req.params.buildingId },
+      });
+      if (!building) {
+        return sendError(res, 404, ErrorCode.BUILDING_NOT_FOUND);
+      }
+
+      await savePolicy(req, res, { buildingId: building.id });
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// PUT /api/booking-policies/rooms/:roomId -> override rules for a single room
+router.put(
+  "/rooms/:roomId",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("roomId").isString().notEmpty(),
+    ...policyValidators,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const room = await prisma.room.findUnique({
+        where: { id: req.params.roomId },
+      });
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
+      }
+
+      await savePolicy(req, res, { roomId: room.id });
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// DELETE /api/booking-policies/:id -> drop an override (or lift the global rules)
+router.delete(
+  "/:id",
+  [authenticateToken, requireAdmin, param("id").isString().notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const existing = await prisma.bookingPolicy.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!existing) {
+        return sendError(res, 404, ErrorCode.BOOKING_POLICY_NOT_FOUND);
+      }
+
+      await prisma.bookingPolicy.delete({ where: { id: existing.id } });
+
+      RoomSearchService.invalidateSearchCache();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_POLICY_DELETED,
+        entityType: "BookingPolicy",
+        entityId: existing.id,
+        before: existing,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+export default router;
@@ -3,6 +3,8 @@ import { param, body, validationResult } from "express-validator";
 import { PrismaClient } from "../../generated/prisma/client";
 import { cacheMiddleware, invalidateCache } from "../middleware/cache";
 import { authenticateToken, requireAdmin } from "./auth";
+import { LocationGraphService } from "../services/locationGraphService";
+import { RoomSearchService } from "../services/roomSearchService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -29,6 +31,9 @@ router.get(
         blockId: b.blockId,
         blockName: b.block.name,
         distance: b.distance,
+        stepFreeEntrance: b.stepFreeEntrance,
+        bufferBeforeMinutes: b.bufferBeforeMinutes,
+        bufferAfterMinutes: b.bufferAfterMinutes,
         roomCount: b._count.rooms,
       }));
       res.json(buildingsWithRoomCount);
@@ -59,6 +64,12 @@ router.post(
       .optional()
       .isFloat({ min: 0 })
       .withMessage("Distance must be a positive number"),
+    body("stepFreeEntrance").optional().isBoolean(),
+    // null falls back to the global buffer
+    body(["bufferBeforeMinutes", "bufferAfterMinutes"])
+      .optional({ values: "null" })
+      .isInt({ min: 0, max: 240 })
+      .withMessage("Buffers must be between 0 and 240 minutes"),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -67,7 +78,15 @@ router.post(
     }
 
     try {
-      const { name, code, blockId, distance } = req.body;
+      const {
+        name,
+        code,
+        blockId,
+        distance,
+        stepFreeEntrance,
+        bufferBeforeMinutes,
+        bufferAfterMinutes,
+      } = req.body;
 
       // Validate that block exists
       const block = await prisma.block.findUnique({
@@ -97,6 +116,9 @@ router.post(
           code,
           blockId,
           distance: distance !== undefined ? parseFloat(distance) : 0,
+          stepFreeEntrance: stepFreeEntrance ?? false,
+          bufferBeforeMinutes: bufferBeforeMinutes ?? null,
+          bufferAfterMinutes: bufferAfterMinutes ?? null,
         },
       });
 
@@ -139,6 +161,12 @@ router.put(
       .optional()
       .isFloat({ min: 0 })
       .withMessage("Distance must be a positive number"),
+    body("stepFreeEntrance").optional().isBoolean(),
+    // null falls back to the global buffer
+    body(["bufferBeforeMinutes", "bufferAfterMinutes"])
+      .optional({ values: "null" })
+      .isInt({ min: 0, max: 240 })
+      .withMessage("Buffers must be between 0 and 240 minutes"),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -148,7 +176,15 @@ router.put(
 
     try {
       const { id } = req.params;
-      const { name, code, blockId, distance } = req.body;
+      const {
+        name,
+        code,
+        blockId,
+        distance,
+        stepFreeEntrance,
+        bufferBeforeMinutes,
+        bufferAfterMinutes,
+      } = req.body;
 
       const existingBuilding = await prisma.building.findUnique({
         where: { id },
@@ -187,6 +223,9 @@ router.put(
       if (code !== undefined) updateData.code = code;
       if (blockId !== undefined) updateData.blockId = blockId;
       if (distance !== undefined) updateData.distance = parseFloat(distance);
+      if (stepFreeEntrance !== undefined) updateData.stepFreeEntrance = stepFreeEntrance;
+      if (bufferBeforeMinutes !== undefined) updateData.bufferBeforeMinutes = bufferBeforeMinutes;
+      if (bufferAfterMinutes !== undefined) updateData.bufferAfterMinutes = bufferAfterMinutes;
 
       const updatedBuilding = await prisma.building.update({
         where: { id },
@@ -195,6 +234,8 @@ router.put(
 
       await invalidateCache("buildings:*");
       await invalidateCache("blocks:*");
+      // Room search results carry the building's buffers
+      RoomSearchService.invalidateSearchCache();
 
       res.json(updatedBuilding);
     } catch (error) {
@@ -229,9 +270,11 @@ router.delete(
       await prisma.building.delete({
         where: { id },
       });
+      await LocationGraphService.pruneDanglingEdges();
 
       await invalidateCache("buildings:*");
       await invalidateCache("floors:*");
+      RoomSearchService.invalidateSearchCache();
 
       res.status(204).send();
     } catch (error) {
@@ -253,6 +296,7 @@ router.get(
       const buildingId = req.params.id;
       const buildingRooms = await prisma.room.findMany({
         where: { buildingId },
+        include: { amenities: { orderBy: { name: "asc" } } },
       });
       res.json(buildingRooms);
     } catch (error) {
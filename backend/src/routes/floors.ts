@@ -3,6 +3,8 @@ import { param, body, query, validationResult } from "express-validator";
 import { PrismaClient } from "../../generated/prisma/client";
 import { cacheMiddleware, invalidateCache } from "../middleware/cache";
 import { authenticateToken, requireAdmin, requireAdminOrTeacher } from "./auth";
+import { LocationGraphService } from "../services/locationGraphService";
+import { RoomSearchService } from "../services/roomSearchService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -49,6 +51,7 @@ router.get(
         buildingName: floor.building.name,
         blockName: floor.building.block.name,
         distance: floor.distance,
+        stepFreeAccess: floor.stepFreeAccess,
         roomCount: floor._count.rooms,
         createdAt: floor.createdAt,
         updatedAt: floor.updatedAt,
@@ -82,6 +85,7 @@ router.post(
       .optional()
       .isFloat({ min: 0 })
       .withMessage("Distance must be a positive number"),
+    body("stepFreeAccess").optional().isBoolean(),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -90,7 +94,7 @@ router.post(
     }
 
     try {
-      const { name, number, buildingId, distance } = req.body;
+      const { name, number, buildingId, distance, stepFreeAccess } = req.body;
 
       // Validate that building exists
       const building = await prisma.building.findUnique({
@@ -110,6 +114,7 @@ router.post(
           number: parseInt(number),
           buildingId,
           distance: distance !== undefined ? parseFloat(distance) : 0,
+          stepFreeAccess: stepFreeAccess ?? false,
         },
       });
 
@@ -150,6 +155,7 @@ router.put(
       .optional()
       .isFloat({ min: 0 })
       .withMessage("Distance must be a positive number"),
+    body("stepFreeAccess").optional().isBoolean(),
   ],
   async (req: Request, res: Response) => {
     const errors = validationResult(req);
@@ -159,7 +165,7 @@ router.put(
 
     try {
       const { id } = req.params;
-      const { name, number, buildingId, distance } = req.body;
+      const { name, number, buildingId, distance, stepFreeAccess } = req.body;
 
       // Check if floor exists
       const existingFloor = await prisma.floor.findUnique({
@@ -188,6 +194,7 @@ router.put(
       if (number !== undefined) updateData.number = parseInt(number);
       if (buildingId !== undefined) updateData.buildingId = buildingId;
       if (distance !== undefined) updateData.distance = parseFloat(distance);
+      if (stepFreeAccess !== undefined) updateData.stepFreeAccess = stepFreeAccess;
 
       const updatedFloor = await prisma.floor.update({
         where: { id },
@@ -196,6 +203,8 @@ router.put(
 
       await invalidateCache("floors:*");
       await invalidateCache("buildings:*");
+      // Room search results depend on the floor's step-free access
+      RoomSearchService.invalidateSearchCache();
 
       res.json(updatedFloor);
     } catch (error) {
@@ -231,9 +240,11 @@ router.delete(
       await prisma.floor.delete({
         where: { id },
       });
+      await LocationGraphService.pruneDanglingEdges();
 
       await invalidateCache("floors:*");
       await invalidateCache("buildings:*");
+      RoomSearchService.invalidateSearchCache();
 
       res.status(204).send();
     } catch (error) {
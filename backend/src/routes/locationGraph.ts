@@ -0,0 +1,201 @@
+import { Router, Response } from "express";
+import { body, param, validationResult } from "express-validator";
+import { PrismaClient } from "../../generated/prisma/client";
+import { authenticateToken, requireAdmin, AuthRequest } from "./auth";
+import {
+  sendError,
+  sendValidationError,
+  handleUnexpectedError,
+  ErrorCode,
+} from "../utils/errorHandler";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import {
+  LocationGraphService,
+  LocationEdgeError,
+} from "../services/locationGraphService";
+import { RoomSearchService } from "../services/roomSearchService";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const NODE_TYPES = ["Block", "Building", "Floor"];
+const EDGE_KINDS = ["Walkway", "Stairs", "Lift"];
+
+// GET /api/locations/graph/edges -> every walking route with its endpoint names
+router.get(
+  "/edges",
+  [authenticateToken, requireAdmin],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await LocationGraphService.listEdges());
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/locations/graph/edges -> connect two blocks, buildings or floors
+router.post(
+  "/edges",
+  [
+    authenticateToken,
+    requireAdmin,
+    body("fromType")
+      .isIn(NODE_TYPES)
+      .withMessage("From type must be Block, Building or Floor"),
+    body("fromId").isString().notEmpty().withMessage("From location is required"),
+    body("toType")
+      .isIn(NODE_TYPES)
+      .withMessage("To type must be Block, Building or Floor"),
+    body("toId").isString().notEmpty().withMessage("To location is required"),
+    body("distance")
+      .isFloat({ min: 0 })
+      .withMessage("Distance must be a positive number"),
+    body("kind")
+      .optional()
+      .isIn(EDGE_KINDS)
+      .withMessage("Kind must be Walkway, Stairs or Lift"),
+    body("stepFree").optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { fromType, fromId, toType, toId, distance, kind, stepFree } =
+        req.body;
+      const edge = await LocationGraphService.createEdge({
+        fromType,
+        fromId,
+        toType,
+        toId,
+        distance: parseFloat(distance),
+        kind,
+        stepFree,
+      });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.LOCATION_EDGE_CREATED,
+        entityType: "Location",
+        entityId: edge.id,
+        after: edge,
+      });
+
+      RoomSearchService.invalidateSearchCache();
+
+      res.status(201).json(edge);
+    } catch (error) {
+      if (error instanceof LocationEdgeError) {
+        const status =
+          error.code === ErrorCode.LOCATION_EDGE_EXISTS
+            ? 409
+            : error.code === ErrorCode.VALIDATION_ERROR
+              ? 400
+              : 404;
+        return sendError(res, status, error.code, error.message || undefined);
+      }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// PATCH /api/locations/graph/edges/:id -> change the distance or step-free flag of a route
+router.patch(
+  "/edges/:id",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    body("distance")
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage("Distance must be a positive number"),
+    body("stepFree").optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const existing = await prisma.locationEdge.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!existing) {
+        return sendError(res, 404, ErrorCode.LOCATION_EDGE_NOT_FOUND);
+      }
+
+      const data: { distance?: number; stepFree?: boolean } = {};
+      if (req.body.distance !== undefined) {
+        data.distance = parseFloat(req.body.distance);
+      }
+      // Stairs always have steps
+      if (req.body.stepFree !== undefined && existing.kind !== "Stairs") {
+        data.stepFree = req.body.stepFree;
+      }
+
+      const edge = await prisma.locationEdge.update({
+        where: { id: existing.id },
+        data,
+      });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.LOCATION_EDGE_UPDATED,
+        entityType: "Location",
+        entityId: edge.id,
+        before: existing,
+        after: edge,
+      });
+
+      RoomSearchService.invalidateSearchCache();
+
+      res.json(edge);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// DELETE /api/locations/graph/edges/:id -> remove a walking route
+router.delete(
+  "/edges/:id",
+  [authenticateToken, requireAdmin, param("id").isString().notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const edge = await prisma.locationEdge.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!edge) {
+        return sendError(res, 404, ErrorCode.LOCATION_EDGE_NOT_FOUND);
+      }
+
+      await prisma.locationEdge.delete({ where: { id: edge.id } });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.LOCATION_EDGE_DELETED,
+        entityType: "Location",
+        entityId: edge.id,
+        before: edge,
+      });
+
+      RoomSearchService.invalidateSearchCache();
+
+      res.status(204).send();
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,139 @@
+import { Router, Response } from "express";
+import { body, query, validationResult } from "express-validator";
+import { invalidateCache } from "../middleware/cache";
+import { authenticateToken, requireAdmin, AuthRequest } from "./auth";
+import {
+  sendError,
+  sendValidationError,
+  handleUnexpectedError,
+  ErrorCode,
+} from "../utils/errorHandler";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import {
+  LocationHierarchyService,
+  HierarchyFileError,
+} from "../services/locationHierarchyService";
+import { SeatRegenerationService } from "../services/seatRegenerationService";
+import { RoomSearchService } from "../services/roomSearchService";
+
+const router = Router();
+
+// GET /api/locations/hierarchy/export?format=json|csv -> every block, building, floor and room
+router.get(
+  "/export",
+  [
+    authenticateToken,
+    requireAdmin,
+    query("format")
+      .optional()
+      .isIn(["json", "csv"])
+      .withMessage("Format must be json or csv"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const document = await LocationHierarchyService.exportHierarchy();
+
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          'attachment; filename="location-hierarchy.csv"'
+        );
+        return res.send(LocationHierarchyService.toCsv(document));
+      }
+
+      res.json(document);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/locations/hierarchy/import -> upsert blocks, buildings, floors and rooms from a file
+router.post(
+  "/import",
+  [
+    authenticateToken,
+    requireAdmin,
+    body("format")
+      .isIn(["json", "csv"])
+      .withMessage("Format must be json or csv"),
+    body("content")
+      .isString()
+      .notEmpty()
+      .withMessage("File content is required"),
+    body("dryRun").optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { format, content, dryRun = false } = req.body;
+      const { report, regeneratedRooms } =
+        await LocationHierarchyService.importHierarchy(format, content, dryRun);
+
+      // A dry run always reports; a real import with problems writes nothing
+      if (!dryRun && !report.valid) {
+        return sendError(
+          res,
+          400,
+          report.errors[0].code,
+          `Import has ${report.errors.length} problem(s); nothing was changed`,
+          report
+        );
+      }
+
+      if (!dryRun) {
+        // Reseat students whose seats were removed, now that the import has committed
+        for (const room of regeneratedRooms) {
+          const change = report.rooms.find((c) => c.key === room.key)!;
+          change.seatChanges = await SeatRegenerationService.reallocateDisplaced(
+            room.seatChanges,
+            room.buildingId,
+            room.id
+          );
+          await invalidateCache(`room-seats:/api/rooms/${room.id}/seats`);
+        }
+
+        await invalidateCache("blocks*");
+        await invalidateCache("buildings*");
+        await invalidateCache("floors*");
+        await invalidateCache("rooms*");
+        RoomSearchService.invalidateSearchCache();
+
+        const io = req.app.get("io");
+        if (io && regeneratedRooms.length > 0) {
+          io.emit("allocationsUpdated");
+        }
+
+        await AuditLogService.record({
+          actor: req.user,
+          action: AuditAction.LOCATION_HIERARCHY_IMPORTED,
+          entityType: "Location",
+          after: {
+            format,
+            ...report.summary,
+            regeneratedRoomIds: regeneratedRooms.map((room) => room.id),
+          },
+        });
+      }
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof HierarchyFileError) {
+        return sendError(res, 400, ErrorCode.VALIDATION_ERROR, error.message);
+      }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+export default router;
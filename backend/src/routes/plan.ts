@@ -1,19 +1,83 @@
 import { Router, Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
 import { AllocationService } from '../services/allocationService';
+import { ALLOCATION_STRATEGIES } from '../services/allocationStrategies';
 import { Server } from 'socket.io';
 import { authenticateToken, requireAdmin } from './auth';
-import { Branch } from '../../generated/prisma/client';
+import { Branch, PrismaClient } from '../../generated/prisma/client';
 import { invalidateCache } from '../middleware/cache';
 
 const router = Router();
+const prisma = new PrismaClient();
+
+// POST /api/plan/allocate
+router.post('/allocate', [
+    authenticateToken,
+    requireAdmin,
+    body('strategy').optional().isIn(ALLOCATION_STRATEGIES)
+], async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+        const { summary } = await AllocationService.allocateAllBranches({ strategy: req.body?.strategy });
+
+        for (const roomId of summary.affectedRoomIds) {
+            await invalidateCache(`room-seats:/api/rooms/${roomId}/seats`);
+        }
+
+        const seats = await prisma.seat.findMany({ include: { student: true } });
+
+        const io: Server = req.app.get('io');
+        io.emit('allocationsUpdated');
+
+        res.json({ seats, summary });
+    } catch (error) {
+        console.error("Campus allocation failed:", error);
+        res.status(500).json({ error: 'Failed to run allocation' });
+    }
+});
+
+// POST /api/plan/rebalance
+router.post('/rebalance', [
+    authenticateToken,
+    requireAdmin,
+    body('strategy').optional().isIn(ALLOCATION_STRATEGIES)
+], async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+        const { rebalanceSummary } = await AllocationService.rebalanceAllocations({ strategy: req.body?.strategy });
+
+        for (const roomId of rebalanceSummary.affectedRoomIds) {
+            await invalidateCache(`room-seats:/api/rooms/${roomId}/seats`);
+        }
+
+        const seats = await prisma.seat.findMany({ include: { student: true } });
+
+        const io: Server = req.app.get('io');
+        io.emit('allocationsUpdated');
+
+        res.json({ seats, rebalanceSummary });
+    } catch (error) {
+        console.error("Rebalance failed:", error);
+        res.status(500).json({ error: 'Failed to rebalance allocations' });
+    }
+});
 
 // POST /api/plan/allocate-branch
 router.post('/allocate-branch', [
     authenticateToken,
     requireAdmin,
     body('branch').isIn(Object.values(Branch)),
-    body('buildingId').isString().notEmpty()
+    body('buildingId').isString().notEmpty(),
+    body('preview').optional().isBoolean(),
+    body('strategy').optional().isIn(ALLOCATION_STRATEGIES)
 ], async (req: Request, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -21,8 +85,13 @@ router.post('/allocate-branch', [
     }
 
     try {
-        const { branch, buildingId } = req.body;
-        const { summary } = await AllocationService.allocateBranchToBuilding(branch, buildingId);
+        const { branch, buildingId, preview, strategy } = req.body;
+        const { summary, plan } = await AllocationService.allocateBranchToBuilding(branch, buildingId, { dryRun: !!preview, strategy });
+
+        // A preview only proposes seats; nothing changed, so nothing to broadcast
+        if (preview) {
+            return res.json({ summary, plan });
+        }
 
         // Invalidate cache for affected rooms
         for (const roomId of summary.affectedRoomIds) {
@@ -45,7 +114,9 @@ router.post('/allocate-branch-to-room', [
     authenticateToken,
     requireAdmin,
     body('branch').isIn(Object.values(Branch)),
-    body('roomId').isString().notEmpty()
+    body('roomId').isString().notEmpty(),
+    body('preview').optional().isBoolean(),
+    body('strategy').optional().isIn(ALLOCATION_STRATEGIES)
 ], async (req: Request, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -53,8 +124,12 @@ router.post('/allocate-branch-to-room', [
     }
 
     try {
-        const { branch, roomId } = req.body;
-        const { summary } = await AllocationService.allocateBranchToRoom(branch, roomId);
+        const { branch, roomId, preview, strategy } = req.body;
+        const { summary, plan } = await AllocationService.allocateBranchToRoom(branch, roomId, { dryRun: !!preview, strategy });
+
+        if (preview) {
+            return res.json({ summary, plan });
+        }
 
         // Invalidate cache for the room's seats
         await invalidateCache(`room-seats:/api/rooms/${roomId}/seats`);
@@ -70,4 +145,112 @@ router.post('/allocate-branch-to-room', [
     }
 });
 
+// POST /api/plan/commit - apply a plan previously returned by a preview run
+router.post('/commit', [
+    authenticateToken,
+    requireAdmin,
+    body('plan.branch').isIn(Object.values(Branch)),
+    body('plan.assignments').isArray({ min: 1 }).withMessage('Plan must contain at least one assignment.'),
+    body('plan.assignments.*.studentId').isString().notEmpty(),
+    body('plan.assignments.*.seatId').isString().notEmpty(),
+    body('plan.assignments.*.roomId').isString().notEmpty(),
+    body('plan.assignments.*.seatVersion').isInt({ min: 0 })
+], async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+        const { summary } = await AllocationService.commitAllocationPlan(req.body.plan);
+
+        for (const roomId of summary.affectedRoomIds) {
+            await invalidateCache(`room-seats:/api/rooms/${roomId}/seats`);
+        }
+
+        const io: Server = req.app.get('io');
+        io.emit('allocationsUpdated');
+
+        res.json({ summary });
+    } catch (error: any) {
+        if (error.message === 'INVALID_PLAN') {
+            return res.status(400).json({
+                message: 'Each student and each seat may appear only once in a plan.',
+                duplicateStudentIds: error.duplicateStudentIds,
+                duplicateSeatIds: error.duplicateSeatIds
+            });
+        }
+        if (error.message === 'PLAN_CONFLICT') {
+            return res.status(409).json({
+                message: 'Some seats changed since the preview. Please preview the allocation again.',
+                conflicts: error.conflicts
+            });
+        }
+        // Prisma error when a versioned update matched nothing
+        if (error.code === 'P2025') {
+            return res.status(409).json({
+                message: 'Seats or rooms were modified by another user. Please preview the allocation again.'
+            });
+        }
+        console.error("Committing allocation plan failed:", error);
+        res.status(500).json({ error: 'Failed to commit allocation plan' });
+    }
+});
+
+// GET /api/plan/batches - recent allocation runs, newest first
+router.get('/batches', [authenticateToken, requireAdmin], async (req: Request, res: Response) => {
+    try {
+        const batches = await AllocationService.listAllocationBatches();
+        res.json(batches);
+    } catch (error) {
+        console.error("Failed to fetch allocation batches:", error);
+        res.status(500).json({ error: 'Failed to fetch allocation batches' });
+    }
+});
+
+// POST /api/plan/batches/:id/rollback - undo every seat an allocation run wrote
+router.post('/batches/:id/rollback', [
+    authenticateToken,
+    requireAdmin,
+    param('id').isString().notEmpty()
+], async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+        const result = await AllocationService.rollbackAllocationBatch(req.params.id as string);
+
+        for (const roomId of result.affectedRoomIds) {
+            await invalidateCache(`room-seats:/api/rooms/${roomId}/seats`);
+        }
+
+        const io: Server = req.app.get('io');
+        io.emit('allocationsUpdated');
+
+        res.json(result);
+    } catch (error: any) {
+        if (error.message === 'BATCH_NOT_FOUND') {
+            return res.status(404).json({ error: 'Allocation batch not found' });
+        }
+        if (error.message === 'BATCH_ALREADY_ROLLED_BACK') {
+            return res.status(409).json({ message: 'This allocation batch has already been rolled back.' });
+        }
+        if (error.message === 'ROLLBACK_CONFLICT') {
+            return res.status(409).json({
+                message: 'Some seats changed since this allocation ran. Nothing was rolled back.',
+                conflicts: error.conflicts
+            });
+        }
+        if (error.code === 'P2025') {
+            return res.status(409).json({
+                message: 'Seats or rooms were modified by another user. Please try again.'
+            });
+        }
+        console.error("Rolling back allocation batch failed:", error);
+        res.status(500).json({ error: 'Failed to roll back allocation batch' });
+    }
+});
+
 export default router;
@@ -1,10 +1,15 @@
 import { Router, Response } from "express";
 import { body, param, query, validationResult } from "express-validator";
-import { PrismaClient, Branch } from "../../generated/prisma/client";
+import {
+  PrismaClient,
+  Branch,
+  BookingStatus,
+} from "../../generated/prisma/client";
 import {
   authenticateToken,
   requireTeacher,
   requireAdminOrTeacher,
+  requireAdmin,
   AuthRequest,
 } from "./auth";
 import {
@@ -17,11 +22,248 @@ import {
   handleUnexpectedError,
   ErrorCode,
 } from "../utils/errorHandler";
-import { roomLockService } from "../services/roomLockService";
+import {
+  roomLockService,
+  RoomLock,
+  RoomLockLostError,
+} from "../services/roomLockService";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import {
+  RecurringBookingService,
+  MAX_SERIES_OCCURRENCES,
+} from "../services/recurringBookingService";
+import { WaitlistService, FreedSlot } from "../services/waitlistService";
+import { BookingCancellationService } from "../services/bookingCancellationService";
+import { RoomBlackoutService } from "../services/roomBlackoutService";
+import {
+  BookingBufferService,
+  BookingBuffers,
+} from "../services/bookingBufferService";
+import { BookingPolicyService } from "../services/bookingPolicyService";
+import {
+  BookingApprovalService,
+  ReviewDecision,
+} from "../services/bookingApprovalService";
 
 const router = Router();
 const prisma = new PrismaClient();
 
+/**
+ * Seats the booking's branch in the room. A failed allocation is logged and
+ * does not fail the booking, which is still valid.
+ */
+async function allocateBranchForBooking(
+  branch: Branch,
+  roomId: string
+): Promise<void> {
+  const { AllocationService } = await import(
+    "../services/allocationService"
+  );
+  try {
+    // Check if room has seats before attempting allocation
+    const seatCount = await prisma.seat.count({
+      where: { roomId },
+    });
+
+    if (seatCount === 0) {
+      console.warn(
+        `Room ${roomId} has no seats. Skipping student allocation. Please ensure seats are generated for this room.`
+      );
+    } else {
+      const allocationResult = await AllocationService.allocateBranchToRoom(
+        branch,
+        roomId
+      );
+      console.log(
+        `Auto-allocated ${allocationResult.summary.allocatedCount} students from ${branch} to room ${roomId} (${allocationResult.summary.unallocatedCount} unallocated)`
+      );
+
+      if (allocationResult.summary.unallocatedCount > 0) {
+        console.warn(
+          `${allocationResult.summary.unallocatedCount} students could not be allocated. Reasons:`,
+          allocationResult.summary.unallocatedStudents.map(
+            (u) => `${u.student.name}: ${u.reason}`
+          )
+        );
+      }
+    }
+  } catch (allocationError) {
+    console.error("Failed to auto-allocate students:", allocationError);
+    // Don't fail the booking if allocation fails - the booking is still valid
+  }
+}
+
+/**
+ * Offers a freed slot to the waitlist and notifies clients about every
+ * booking created for a waitlisted teacher.
+ */
+async function promoteWaitlist(io: any, slot: FreedSlot): Promise<void> {
+  try {
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    for (const { entry, booking } of promoted) {
+      // Pending bookings are allocated once approved
+      if (booking.status === "NotStarted") {
+        await allocateBranchForBooking(booking.branch, booking.roomId);
+      }
+
+      await AuditLogService.record({
+        action: AuditAction.BOOKING_CREATED,
+        entityType: "RoomBooking",
+        entityId: booking.id,
+        after: {
+          roomId: booking.roomId,
+          teacherId: booking.teacherId,
+          branch: booking.branch,
+          capacity: booking.capacity,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          status: booking.status,
+          waitlistEntryId: entry.id,
+        },
+      });
+
+      if (io) {
+        io.emit("bookingCreated", booking);
+        io.emit("waitlistPromoted", {
+          entryId: entry.id,
+          teacherId: entry.teacherId,
+          booking,
+        });
+        if (booking.status === "PendingApproval") {
+          io.emit("approvalRequested", booking);
+        }
+      }
+    }
+  } catch (promotionError) {
+    console.error("Failed to promote waitlisted bookings:", promotionError);
+    // The cancellation itself succeeded; waiting teachers can still rebook
+  }
+}
+
+/**
+ * Returns a ROOM_BLACKED_OUT conflict when the room is closed during any part
+ * of the slot.
+ */
+async function findBlackoutConflict(
+  roomId: string,
+  startTime: Date,
+  endTime: Date
+): Promise<{ code: ErrorCode; message: string } | null> {
+  const blackout = await RoomBlackoutService.findOverlapping(
+    roomId,
+    startTime,
+    endTime
+  );
+
+  if (!blackout) return null;
+
+  return {
+    code: ErrorCode.ROOM_BLACKED_OUT,
+    message: `This room is closed from ${blackout.startTime.toISOString()} to ${blackout.endTime.toISOString()}: ${blackout.reason}`,
+  };
+}
+
+/**
+ * Message for a room clash; when only the buffers make the slots collide,
+ * says so and shows when the other booking really runs.
+ */
+function roomTakenMessage(
+  clash: { startTime: Date; endTime: Date; teacher: { name: string } },
+  startTime: Date,
+  endTime: Date,
+  buffers: BookingBuffers
+): string {
+  if (clash.startTime < endTime && clash.endTime > startTime) {
+    return `This room is already booked by ${clash.teacher.name} for the selected time slot.`;
+  }
+
+  return `This room is already booked by ${clash.teacher.name} from ${clash.startTime.toISOString()} to ${clash.endTime.toISOString()}. ${BookingBufferService.describe(buffers)}`;
+}
+
+/**
+ * Finds the first blackout or active booking clashing with the slot, either
+ * in the room (buffers included) or (when `teacherId` is given) for the
+ * teacher. `excludeBookingId` skips the booking being changed.
+ */
+async function findSlotConflict(
+  roomId: string,
+  startTime: Date,
+  endTime: Date,
+  buffers: BookingBuffers,
+  teacherId?: string,
+  excludeBookingId?: string
+): Promise<{ code: ErrorCode; message: string } | null> {
+  const blackoutConflict = await findBlackoutConflict(
+    roomId,
+    startTime,
+    endTime
+  );
+  if (blackoutConflict) return blackoutConflict;
+
+  const clash = await prisma.roomBooking.findFirst({
+    where: {
+      ...(excludeBookingId ? { id: { not: excludeBookingId } } : {}),
+      status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+      OR: [
+        {
+          roomId,
+          ...BookingBufferService.overlapWhere(startTime, endTime, buffers),
+        },
+        ...(teacherId
+          ? [
+              {
+                teacherId,
+                startTime: { lt: endTime },
+                endTime: { gt: startTime },
+              },
+            ]
+          : []),
+      ],
+    },
+    include: {
+      teacher: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  });
+
+  if (!clash) return null;
+
+  if (
+    teacherId &&
+    clash.teacherId === teacherId &&
+    clash.startTime < endTime &&
+    clash.endTime > startTime
+  ) {
+    return {
+      code: ErrorCode.TEACHER_TIME_CONFLICT,
+      message: "The teacher already has a booking during this time slot.",
+    };
+  }
+
+  return {
+    code: ErrorCode.ROOM_NOT_AVAILABLE,
+    message: roomTakenMessage(clash, startTime, endTime, buffers),
+  };
+}
+
+const bookingInclude = {
+  room: {
+    include: {
+      building: {
+        include: {
+          block: true,
+        },
+      },
+      floor: true,
+    },
+  },
+  teacher: true,
+} as const;
+
 // POST /api/room-bookings/search - Search for suitable rooms
 router.post(
   "/search",
@@ -78,6 +320,14 @@ router.post(
     body("preferredLocation.blockId").optional().isString(),
     body("preferredLocation.buildingId").optional().isString(),
     body("preferredLocation.floorId").optional().isString(),
+    body("stepFree")
+      .optional()
+      .isIn(["require", "prefer"])
+      .withMessage("Step-free access must be require or prefer"),
+    body("requiredAmenityIds").optional().isArray(),
+    body("requiredAmenityIds.*").isString(),
+    body("preferredAmenityIds").optional().isArray(),
+    body("preferredAmenityIds.*").isString(),
   ],
   async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
@@ -93,8 +343,15 @@ router.post(
         endTime,
         currentLocation,
         preferredLocation,
+        stepFree,
+        requiredAmenityIds,
+        preferredAmenityIds,
       } = req.body;
 
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId: req.user?.id },
+      });
+
       const criteria: SearchCriteria = {
         capacity,
         branch,
@@ -102,11 +359,20 @@ router.post(
         endTime: new Date(endTime),
         currentLocation,
         preferredLocation,
+        stepFree,
+        requiredAmenityIds,
+        preferredAmenityIds,
+        teacherId: teacher?.id,
       };
 
       const recommendations = await RoomSearchService.searchRooms(criteria);
 
-      res.json({ rooms: recommendations });
+      // Rooms dropped by the step-free requirement or a booking policy are
+      // listed with their reasons
+      res.json({
+        rooms: recommendations.filter((r) => !r.excluded),
+        excluded: recommendations.filter((r) => r.excluded),
+      });
     } catch (error) {
       return handleUnexpectedError(error, res);
     }
@@ -159,6 +425,7 @@ router.post(
     const endTimeDate = new Date(req.body.endTime);
     const { roomId } = req.body;
     const userId = req.user?.id;
+    let lock: RoomLock | null = null;
 
     try {
       const { branch, capacity } = req.body;
@@ -167,21 +434,15 @@ router.post(
         return sendError(res, 401, ErrorCode.UNAUTHORIZED);
       }
 
-      // Step 1: Try to acquire lock
-      const lockAcquired = roomLockService.acquireLock(
+      // Step 1: Try to acquire lock over the slot and its buffers
+      const buffers = await BookingBufferService.forRoom(roomId);
+      lock = await roomLockService.acquireLock(
         roomId,
         userId,
-        startTimeDate,
-        endTimeDate
+        BookingBufferService.effectiveWindow(startTimeDate, endTimeDate, buffers)
       );
 
-      if (!lockAcquired) {
-        const lockHolder = roomLockService.getLockHolder(
-          roomId,
-          startTimeDate,
-          endTimeDate
-        );
-
+      if (!lock) {
         // Emit conflict event to the requesting user
         const io = req.app.get("io");
         if (io) {
@@ -208,7 +469,6 @@ router.post(
       });
 
       if (!teacher) {
-        roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
         return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
       }
 
@@ -218,20 +478,49 @@ router.post(
       });
 
       if (!room) {
-        roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
         return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
       }
 
       if (room.capacity < capacity) {
-        roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
         return sendError(res, 400, ErrorCode.INSUFFICIENT_CAPACITY);
       }
 
+      // Admin-configured limits: duration, lead time, hours and quota
+      const policyViolation = await BookingPolicyService.check(
+        roomId,
+        teacher.id,
+        [{ startTime: startTimeDate, endTime: endTimeDate }]
+      );
+
+      if (policyViolation) {
+        return sendError(
+          res,
+          policyViolation.status,
+          policyViolation.code,
+          policyViolation.message
+        );
+      }
+
+      const blackoutConflict = await findBlackoutConflict(
+        roomId,
+        startTimeDate,
+        endTimeDate
+      );
+
+      if (blackoutConflict) {
+        return sendError(
+          res,
+          409,
+          blackoutConflict.code,
+          blackoutConflict.message
+        );
+      }
+
       // Step 2: Check if teacher already has a booking at this time
       const teacherConflict = await prisma.roomBooking.findFirst({
         where: {
           teacherId: teacher.id,
-          status: { in: ["NotStarted", "Ongoing"] },
+          status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
           OR: [
             {
               AND: [
@@ -256,7 +545,6 @@ router.post(
       });
 
       if (teacherConflict) {
-        roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
 
         const roomLocation = `${teacherConflict.room.building.block.name} - ${teacherConflict.room.building.name} - ${teacherConflict.room.floor.name} - ${teacherConflict.room.name}`;
 
@@ -268,19 +556,17 @@ router.post(
         );
       }
 
-      // Step 3: Double-check for overlapping bookings (race condition protection)
+      // Step 3: Double-check for overlapping bookings, buffers included
+      // (race condition protection)
       const overlappingBooking = await prisma.roomBooking.findFirst({
         where: {
           roomId,
-          status: { in: ["NotStarted", "Ongoing"] },
-          OR: [
-            {
-              AND: [
-                { startTime: { lt: endTimeDate } },
-                { endTime: { gt: startTimeDate } },
-              ],
-            },
-          ],
+          status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+          ...BookingBufferService.overlapWhere(
+            startTimeDate,
+            endTimeDate,
+            buffers
+          ),
         },
         include: {
           teacher: {
@@ -292,7 +578,6 @@ router.post(
       });
 
       if (overlappingBooking) {
-        roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
 
         // Emit conflict event with details
         const io = req.app.get("io");
@@ -316,11 +601,19 @@ router.post(
           res,
           409,
           ErrorCode.ROOM_NOT_AVAILABLE,
-          `This room is already booked by ${overlappingBooking.teacher.name} for the selected time slot.`
+          roomTakenMessage(
+            overlappingBooking,
+            startTimeDate,
+            endTimeDate,
+            buffers
+          )
         );
       }
 
-      // Step 4: Create the booking and allocate students to the room
+      // Step 4: Create the booking and allocate students to the room,
+      // unless the lock was taken over while the checks ran. Bookings of
+      // rooms that require approval hold the slot until an admin reviews them.
+      await roomLockService.checkStillHeld(lock);
       const booking = await prisma.roomBooking.create({
         data: {
           roomId,
@@ -329,7 +622,7 @@ router.post(
           capacity,
           startTime: startTimeDate,
           endTime: endTimeDate,
-          status: "NotStarted",
+          status: room.requiresApproval ? "PendingApproval" : "NotStarted",
         },
         include: {
           room: {
@@ -347,72 +640,105 @@ router.post(
       });
 
       // Step 5: Automatically allocate all students from the branch to the room
-      const { AllocationService } = await import(
-        "../services/allocationService"
-      );
-      try {
-        // Check if room has seats before attempting allocation
-        const seatCount = await prisma.seat.count({
-          where: { roomId },
-        });
-
-        if (seatCount === 0) {
-          console.warn(
-            `Room ${roomId} has no seats. Skipping student allocation. Please ensure seats are generated for this room.`
-          );
-        } else {
-          const allocationResult = await AllocationService.allocateBranchToRoom(
-            branch,
-            roomId
-          );
-          console.log(
-            `Auto-allocated ${allocationResult.summary.allocatedCount} students from ${branch} to room ${roomId} (${allocationResult.summary.unallocatedCount} unallocated)`
-          );
-
-          if (allocationResult.summary.unallocatedCount > 0) {
-            console.warn(
-              `${allocationResult.summary.unallocatedCount} students could not be allocated. Reasons:`,
-              allocationResult.summary.unallocatedStudents.map(
-                (u) => `${u.student.name}: ${u.reason}`
-              )
-            );
-          }
-        }
-      } catch (allocationError) {
-        console.error("Failed to auto-allocate students:", allocationError);
-        // Don't fail the booking if allocation fails - the booking is still valid
+      if (booking.status === "NotStarted") {
+        await allocateBranchForBooking(branch, roomId);
       }
 
       // Step 6: Release lock after successful booking
-      roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
+      await roomLockService.releaseLock(lock);
+      lock = null;
 
       // Invalidate search cache
       RoomSearchService.invalidateSearchCache();
 
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_CREATED,
+        entityType: "RoomBooking",
+        entityId: booking.id,
+        after: {
+          roomId: booking.roomId,
+          teacherId: booking.teacherId,
+          branch: booking.branch,
+          capacity: booking.capacity,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          status: booking.status,
+        },
+      });
+
       // Emit real-time update to all connected clients
       const io = req.app.get("io");
       if (io) {
         io.emit("bookingCreated", booking);
+        if (booking.status === "PendingApproval") {
+          io.emit("approvalRequested", booking);
+        }
       }
 
       res.status(201).json(booking);
     } catch (error) {
-      // Release lock on error
-      roomLockService.releaseLock(roomId, startTimeDate, endTimeDate);
+      if (error instanceof RoomLockLostError) {
+        return sendError(res, 409, ErrorCode.ROOM_LOCK_LOST);
+      }
       return handleUnexpectedError(error, res);
+    } finally {
+      // Release lock on early return or error
+      await roomLockService.releaseLock(lock);
     }
   }
 );
 
-// GET /api/room-bookings - List bookings (filtered by teacherId or roomId)
-router.get(
-  "/",
+// POST /api/room-bookings/series - Create a weekly recurring booking (teacher only)
+router.post(
+  "/series",
   authenticateToken,
-  requireAdminOrTeacher,
+  requireTeacher,
   [
-    query("teacherId").optional().isString(),
-    query("roomId").optional().isString(),
-    query("status").optional().isIn(["NotStarted", "Ongoing", "Completed"]),
+    body("roomId").isString().notEmpty().withMessage("Room ID is required"),
+    body("branch").isIn(Object.values(Branch)).withMessage("Invalid branch"),
+    body("capacity")
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Capacity must be between 1 and 1000"),
+    body("startTime")
+      .isISO8601()
+      .withMessage("Valid start time is required"),
+    body("endTime").isISO8601().withMessage("Valid end time is required"),
+    body("endTime").custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error("End time must be after start time");
+      }
+      return true;
+    }),
+    body("startTime").custom((startTime) => {
+      if (new Date(startTime) <= new Date()) {
+        throw new Error("Start time must be in the future");
+      }
+      return true;
+    }),
+    body("recurrence.byWeekday")
+      .isArray({ min: 1, max: 7 })
+      .withMessage("Select at least one weekday"),
+    body("recurrence.byWeekday.*")
+      .isInt({ min: 0, max: 6 })
+      .withMessage("Weekdays must be between 0 (Sunday) and 6 (Saturday)"),
+    body("recurrence.until")
+      .optional()
+      .isISO8601()
+      .withMessage("Until must be a valid date"),
+    body("recurrence.count")
+      .optional()
+      .isInt({ min: 1, max: MAX_SERIES_OCCURRENCES })
+      .withMessage(
+        `Occurrences must be between 1 and ${MAX_SERIES_OCCURRENCES}`
+      ),
+    body("recurrence").custom((recurrence) => {
+      if (!recurrence?.until === !recurrence?.count) {
+        throw new Error("Provide either an end date or a number of occurrences");
+      }
+      return true;
+    }),
+    body("skipConflicts").optional().isBoolean(),
   ],
   async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
@@ -420,77 +746,183 @@ router.get(
       return sendValidationError(res, errors.array());
     }
 
+    const userId = req.user?.id;
+    const { roomId, branch, capacity, recurrence, skipConflicts } = req.body;
+    const occurrences = RecurringBookingService.expandOccurrences(
+      new Date(req.body.startTime),
+      new Date(req.body.endTime),
+      {
+        byWeekday: recurrence.byWeekday,
+        until: recurrence.until
+          ? RecurringBookingService.parseUntil(recurrence.until)
+          : undefined,
+        count: recurrence.count,
+      }
+    );
+    let lock: RoomLock | null = null;
+
     try {
-      const { teacherId, roomId, status } = req.query;
-      const userId = req.user?.id;
-      const userRole = req.user?.role;
+      if (!userId) {
+        return sendError(res, 401, ErrorCode.UNAUTHORIZED);
+      }
 
-      // Build where clause
-      const whereClause: any = {};
+      if (occurrences.length === 0) {
+        return sendError(res, 400, ErrorCode.INVALID_RECURRENCE);
+      }
 
-      if (roomId) {
-        whereClause.roomId = roomId as string;
+      // Lock every occurrence so a concurrent single booking cannot slip in
+      const buffers = await BookingBufferService.forRoom(roomId);
+      lock = await roomLockService.acquireLock(
+        roomId,
+        userId,
+        occurrences.map((occurrence) =>
+          BookingBufferService.effectiveWindow(
+            occurrence.startTime,
+            occurrence.endTime,
+            buffers
+          )
+        )
+      );
+      if (!lock) {
+        return sendError(
+          res,
+          409,
+          ErrorCode.ROOM_NOT_AVAILABLE,
+          "Another teacher is currently booking this room. Please try again."
+        );
       }
 
-      if (status) {
-        whereClause.status = status as string;
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
       }
 
-      // Non-admin users can only query their own bookings
-      if (userRole === "Teacher") {
-        // Find the teacher by userId
-        const teacher = await prisma.teacher.findFirst({
-          where: { userId },
-        });
+      const room = await prisma.room.findUnique({
+        where: { id: roomId },
+      });
 
-        if (!teacher) {
-          return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
-        }
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
+      }
 
-        // If teacherId is provided and doesn't match, return 403
-        if (teacherId && teacherId !== teacher.id) {
-          return sendError(res, 403, ErrorCode.FORBIDDEN);
-        }
+      if (room.capacity < capacity) {
+        return sendError(res, 400, ErrorCode.INSUFFICIENT_CAPACITY);
+      }
 
-        whereClause.teacherId = teacher.id;
-      } else if (teacherId) {
-        // Admin can filter by any teacherId
-        whereClause.teacherId = teacherId as string;
+      // Admin-configured limits: duration, lead time, hours and quota
+      const policyViolation = await BookingPolicyService.check(
+        roomId,
+        teacher.id,
+        occurrences
+      );
+
+      if (policyViolation) {
+        return sendError(
+          res,
+          policyViolation.status,
+          policyViolation.code,
+          policyViolation.message
+        );
       }
 
-      const bookings = await prisma.roomBooking.findMany({
-        where: whereClause,
-        include: {
-          room: {
-            include: {
-              building: {
-                include: {
-                  block: true,
-                },
-              },
-              floor: true,
-            },
+      await roomLockService.checkStillHeld(lock);
+      const { series, bookings, skipped } =
+        await RecurringBookingService.createSeries({
+          teacherId: teacher.id,
+          roomId,
+          branch,
+          capacity,
+          recurrence: {
+            byWeekday: recurrence.byWeekday,
+            until: recurrence.until
+              ? RecurringBookingService.parseUntil(recurrence.until)
+              : undefined,
+            count: recurrence.count,
           },
-          teacher: true,
-        },
-        orderBy: {
-          startTime: "desc",
+          occurrences,
+          skipConflicts,
+          requiresApproval: room.requiresApproval,
+        });
+
+      if (!room.requiresApproval) {
+        await allocateBranchForBooking(branch, roomId);
+      }
+
+      await roomLockService.releaseLock(lock);
+      lock = null;
+
+      RoomSearchService.invalidateSearchCache();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_SERIES_CREATED,
+        entityType: "BookingSeries",
+        entityId: series.id,
+        after: {
+          ...series,
+          bookingIds: bookings.map((b) => b.id),
+          skippedOccurrences: skipped.map((c) => c.startTime),
         },
       });
 
-      res.json(bookings);
-    } catch (error) {
+      const io = req.app.get("io");
+      if (io) {
+        bookings.forEach((booking) => io.emit("bookingCreated", booking));
+        if (room.requiresApproval) {
+          bookings.forEach((booking) => io.emit("approvalRequested", booking));
+        }
+      }
+
+      res.status(201).json({ series, bookings, skipped });
+    } catch (error: any) {
+      if (error instanceof RoomLockLostError) {
+        return sendError(res, 409, ErrorCode.ROOM_LOCK_LOST);
+      }
+      if (error.message === "SERIES_CONFLICT") {
+        return sendError(
+          res,
+          409,
+          ErrorCode.SERIES_CONFLICT,
+          undefined,
+          { conflicts: error.conflicts }
+        );
+      }
       return handleUnexpectedError(error, res);
+    } finally {
+      await roomLockService.releaseLock(lock);
     }
   }
 );
 
-// DELETE /api/room-bookings/:id - Cancel a booking (teacher only, own bookings)
-router.delete(
-  "/:id",
+// POST /api/room-bookings/waitlist - Join the waitlist for a taken room and time slot (teacher only)
+router.post(
+  "/waitlist",
   authenticateToken,
   requireTeacher,
-  [param("id").isString().notEmpty()],
+  [
+    body("roomId").isString().notEmpty().withMessage("Room ID is required"),
+    body("branch").isIn(Object.values(Branch)).withMessage("Invalid branch"),
+    body("capacity")
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Capacity must be between 1 and 1000"),
+    body("startTime").isISO8601().withMessage("Valid start time is required"),
+    body("endTime").isISO8601().withMessage("Valid end time is required"),
+    body("endTime").custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error("End time must be after start time");
+      }
+      return true;
+    }),
+    body("startTime").custom((startTime) => {
+      if (new Date(startTime) <= new Date()) {
+        throw new Error("Start time must be in the future");
+      }
+      return true;
+    }),
+  ],
   async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -498,14 +930,15 @@ router.delete(
     }
 
     try {
-      const bookingId = req.params.id;
+      const { roomId, branch, capacity } = req.body;
+      const startTimeDate = new Date(req.body.startTime);
+      const endTimeDate = new Date(req.body.endTime);
       const userId = req.user?.id;
 
       if (!userId) {
         return sendError(res, 401, ErrorCode.UNAUTHORIZED);
       }
 
-      // Find the teacher by userId
       const teacher = await prisma.teacher.findFirst({
         where: { userId },
       });
@@ -514,106 +947,1320 @@ router.delete(
         return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
       }
 
-      // Find the booking
-      const booking = await prisma.roomBooking.findUnique({
-        where: { id: bookingId },
+      const room = await prisma.room.findUnique({
+        where: { id: roomId },
+        include: { building: true },
       });
 
-      if (!booking) {
-        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
       }
 
-      // Verify the booking belongs to the teacher
+      if (room.capacity < capacity) {
+        return sendError(res, 400, ErrorCode.INSUFFICIENT_CAPACITY);
+      }
+
+      // Admin-configured limits: duration, lead time, hours and quota
+      const policyViolation = await BookingPolicyService.check(
+        roomId,
+        teacher.id,
+        [{ startTime: startTimeDate, endTime: endTimeDate }]
+      );
+
+      if (policyViolation) {
+        return sendError(
+          res,
+          policyViolation.status,
+          policyViolation.code,
+          policyViolation.message
+        );
+      }
+
+      const existingEntry = await prisma.waitlistEntry.findFirst({
+        where: {
+          roomId,
+          teacherId: teacher.id,
+          status: "Waiting",
+          startTime: startTimeDate,
+          endTime: endTimeDate,
+        },
+      });
+
+      if (existingEntry) {
+        return sendError(res, 409, ErrorCode.ALREADY_WAITLISTED);
+      }
+
+      // Waiting cannot help while the room is closed
+      const blackoutConflict = await findBlackoutConflict(
+        roomId,
+        startTimeDate,
+        endTimeDate
+      );
+
+      if (blackoutConflict) {
+        return sendError(
+          res,
+          409,
+          blackoutConflict.code,
+          blackoutConflict.message
+        );
+      }
+
+      // A waitlist only makes sense while the slot is actually taken,
+      // possibly only by another booking's buffers
+      const blockingBooking = await prisma.roomBooking.findFirst({
+        where: {
+          roomId,
+          status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+          ...BookingBufferService.overlapWhere(
+            startTimeDate,
+            endTimeDate,
+            BookingBufferService.resolve(room, room.building)
+          ),
+        },
+      });
+
+      if (!blockingBooking) {
+        return sendError(
+          res,
+          400,
+          ErrorCode.VALIDATION_ERROR,
+          "This room is free for the selected time slot. Book it directly instead."
+        );
+      }
+
+      const entry = await prisma.waitlistEntry.create({
+        data: {
+          roomId,
+          teacherId: teacher.id,
+          branch,
+          capacity,
+          startTime: startTimeDate,
+          endTime: endTimeDate,
+        },
+        include: {
+          room: {
+            include: {
+              building: {
+                include: {
+                  block: true,
+                },
+              },
+              floor: true,
+            },
+          },
+        },
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// GET /api/room-bookings/waitlist - List the teacher's upcoming waitlist entries (teacher only)
+router.get(
+  "/waitlist",
+  authenticateToken,
+  requireTeacher,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId: req.user?.id },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+      }
+
+      const entries = await prisma.waitlistEntry.findMany({
+        where: {
+          teacherId: teacher.id,
+          status: "Waiting",
+          startTime: { gt: new Date() },
+        },
+        include: {
+          room: {
+            include: {
+              building: {
+                include: {
+                  block: true,
+                },
+              },
+              floor: true,
+            },
+          },
+        },
+        orderBy: { startTime: "asc" },
+      });
+
+      res.json(entries);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// DELETE /api/room-bookings/waitlist/:id - Leave the waitlist (teacher only, own entries)
+router.delete(
+  "/waitlist/:id",
+  authenticateToken,
+  requireTeacher,
+  [param("id").isString().notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId: req.user?.id },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+      }
+
+      const entry = await prisma.waitlistEntry.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!entry) {
+        return sendError(res, 404, ErrorCode.WAITLIST_ENTRY_NOT_FOUND);
+      }
+
+      if (entry.teacherId !== teacher.id) {
+        return sendError(res, 403, ErrorCode.FORBIDDEN);
+      }
+
+      await prisma.waitlistEntry.delete({
+        where: { id: entry.id },
+      });
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === "P2025") {
+        return sendError(res, 404, ErrorCode.WAITLIST_ENTRY_NOT_FOUND);
+      }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// GET /api/room-bookings - List bookings (filtered by teacherId or roomId)
+router.get(
+  "/",
+  authenticateToken,
+  requireAdminOrTeacher,
+  [
+    query("teacherId").optional().isString(),
+    query("roomId").optional().isString(),
+    query("status").optional().isIn(Object.values(BookingStatus)),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { teacherId, roomId, status } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      // Build where clause
+      const whereClause: any = {};
+
+      if (roomId) {
+        whereClause.roomId = roomId as string;
+      }
+
+      if (status) {
+        whereClause.status = status as string;
+      }
+
+      // Non-admin users can only query their own bookings
+      if (userRole === "Teacher") {
+        // Find the teacher by userId
+        const teacher = await prisma.teacher.findFirst({
+          where: { userId },
+        });
+
+        if (!teacher) {
+          return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+        }
+
+        // If teacherId is provided and doesn't match, return 403
+        if (teacherId && teacherId !== teacher.id) {
+          return sendError(res, 403, ErrorCode.FORBIDDEN);
+        }
+
+        whereClause.teacherId = teacher.id;
+      } else if (teacherId) {
+        // Admin can filter by any teacherId
+        whereClause.teacherId = teacherId as string;
+      }
+
+      const bookings = await prisma.roomBooking.findMany({
+        where: whereClause,
+        include: {
+          room: {
+            include: {
+              building: {
+                include: {
+                  block: true,
+                },
+              },
+              floor: true,
+            },
+          },
+          teacher: true,
+        },
+        orderBy: {
+          startTime: "desc",
+        },
+      });
+
+      res.json(bookings);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// PATCH /api/room-bookings/:id - Reschedule a booking: time, room or capacity (teacher only, own bookings)
+router.patch(
+  "/:id",
+  authenticateToken,
+  requireTeacher,
+  [
+    param("id").isString().notEmpty(),
+    body("roomId").optional().isString().notEmpty(),
+    body("capacity")
+      .optional()
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Capacity must be between 1 and 1000"),
+    body("startTime")
+      .optional()
+      .isISO8601()
+      .withMessage("Valid start time is required"),
+    body("endTime")
+      .optional()
+      .isISO8601()
+      .withMessage("Valid end time is required"),
+    body().custom((value) => {
+      if (
+        value.roomId === undefined &&
+        value.capacity === undefined &&
+        value.startTime === undefined &&
+        value.endTime === undefined
+      ) {
+        throw new Error(
+          "At least one of roomId, capacity, startTime or endTime is required"
+        );
+      }
+      return true;
+    }),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    const bookingId = req.params.id;
+    const userId = req.user?.id;
+    let lock: RoomLock | null = null;
+
+    try {
+      if (!userId) {
+        return sendError(res, 401, ErrorCode.UNAUTHORIZED);
+      }
+
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+      }
+
+      const booking = await prisma.roomBooking.findUnique({
+        where: { id: bookingId },
+      });
+
+      if (!booking) {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+      }
+
+      if (booking.teacherId !== teacher.id) {
+        return sendError(res, 403, ErrorCode.FORBIDDEN);
+      }
+
+      if (
+        booking.status !== "NotStarted" &&
+        booking.status !== "PendingApproval"
+      ) {
+        return sendError(res, 400, ErrorCode.CANNOT_MODIFY_STARTED);
+      }
+
+      // Unspecified fields keep their current value
+      const roomId: string = req.body.roomId ?? booking.roomId;
+      const capacity: number = req.body.capacity ?? booking.capacity;
+      const startTimeDate = req.body.startTime
+        ? new Date(req.body.startTime)
+        : booking.startTime;
+      const endTimeDate = req.body.endTime
+        ? new Date(req.body.endTime)
+        : booking.endTime;
+
+      if (endTimeDate <= startTimeDate) {
+        return sendError(
+          res,
+          400,
+          ErrorCode.INVALID_TIME_RANGE,
+          "End time must be after start time"
+        );
+      }
+
+      if (startTimeDate <= new Date()) {
+        return sendError(res, 400, ErrorCode.PAST_BOOKING);
+      }
+
+      // Step 1: Lock the target slot and its buffers while the checks run
+      const buffers = await BookingBufferService.forRoom(roomId);
+      lock = await roomLockService.acquireLock(
+        roomId,
+        userId,
+        BookingBufferService.effectiveWindow(startTimeDate, endTimeDate, buffers)
+      );
+      if (!lock) {
+        return sendError(
+          res,
+          409,
+          ErrorCode.ROOM_NOT_AVAILABLE,
+          "Another teacher is currently booking this room. Please try again."
+        );
+      }
+
+      const room = await prisma.room.findUnique({
+        where: { id: roomId },
+      });
+
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
+      }
+
+      if (room.capacity < capacity) {
+        return sendError(res, 400, ErrorCode.INSUFFICIENT_CAPACITY);
+      }
+
+      const slotChanged =
+        roomId !== booking.roomId ||
+        startTimeDate.getTime() !== booking.startTime.getTime() ||
+        endTimeDate.getTime() !== booking.endTime.getTime();
+
+      // A new room or time in a room that requires approval is reviewed
+      // again; a room that does not confirms a pending booking right away
+      const status: BookingStatus = !room.requiresApproval
+        ? "NotStarted"
+        : slotChanged
+        ? "PendingApproval"
+        : booking.status;
+
+      // Admin-configured limits on the new slot; the booking already counts
+      // towards the teacher's quota
+      if (slotChanged) {
+        const policyViolation = BookingPolicyService.checkSlot(
+          await BookingPolicyService.forRoom(roomId),
+          { startTime: startTimeDate, endTime: endTimeDate }
+        );
+
+        if (policyViolation) {
+          return sendError(
+            res,
+            policyViolation.status,
+            policyViolation.code,
+            policyViolation.message
+          );
+        }
+      }
+
+      const blackoutConflict = await findBlackoutConflict(
+        roomId,
+        startTimeDate,
+        endTimeDate
+      );
+
+      if (blackoutConflict) {
+        return sendError(
+          res,
+          409,
+          blackoutConflict.code,
+          blackoutConflict.message
+        );
+      }
+
+      // Step 2: Teacher conflict, ignoring the booking being changed
+      const teacherConflict = await prisma.roomBooking.findFirst({
+        where: {
+          id: { not: bookingId },
+          teacherId: teacher.id,
+          status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+          startTime: { lt: endTimeDate },
+          endTime: { gt: startTimeDate },
+        },
+        include: {
+          room: {
+            include: {
+              building: {
+                include: {
+                  block: true,
+                },
+              },
+              floor: true,
+            },
+          },
+        },
+      });
+
+      if (teacherConflict) {
+        const roomLocation = `${teacherConflict.room.building.block.name} - ${teacherConflict.room.building.name} - ${teacherConflict.room.floor.name} - ${teacherConflict.room.name}`;
+
+        return sendError(
+          res,
+          409,
+          ErrorCode.TEACHER_TIME_CONFLICT,
+          `You already have a booking at ${roomLocation} during this time slot. A teacher cannot book multiple rooms at the same time.`
+        );
+      }
+
+      // Step 3: Room overlap with buffers, ignoring the booking being changed
+      const overlappingBooking = await prisma.roomBooking.findFirst({
+        where: {
+          id: { not: bookingId },
+          roomId,
+          status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+          ...BookingBufferService.overlapWhere(
+            startTimeDate,
+            endTimeDate,
+            buffers
+          ),
+        },
+        include: {
+          teacher: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      });
+
+      if (overlappingBooking) {
+        return sendError(
+          res,
+          409,
+          ErrorCode.ROOM_NOT_AVAILABLE,
+          roomTakenMessage(
+            overlappingBooking,
+            startTimeDate,
+            endTimeDate,
+            buffers
+          )
+        );
+      }
+
+      // Step 4: Apply the change, unless the lock was taken over while the
+      // checks ran
+      await roomLockService.checkStillHeld(lock);
+      const updated = await prisma.roomBooking.update({
+        where: { id: bookingId },
+        data: {
+          roomId,
+          capacity,
+          startTime: startTimeDate,
+          endTime: endTimeDate,
+          status,
+          ...(status === "PendingApproval" && booking.status !== status
+            ? { reviewComment: null, reviewedAt: null }
+            : {}),
+        },
+        include: {
+          room: {
+            include: {
+              building: {
+                include: {
+                  block: true,
+                },
+              },
+              floor: true,
+            },
+          },
+          teacher: true,
+        },
+      });
+
+      // Step 5: Move the branch's students along with the booking; only
+      // confirmed bookings have students allocated
+      const wasAllocated = booking.status === "NotStarted";
+      const isAllocated = status === "NotStarted";
+      const roomChanged = roomId !== booking.roomId;
+      if (wasAllocated && (roomChanged || !isAllocated)) {
+        await BookingCancellationService.releaseBranchSeats(booking, [
+          booking.id,
+        ]);
+      }
+      if (isAllocated && (roomChanged || !wasAllocated)) {
+        await allocateBranchForBooking(booking.branch, roomId);
+      }
+
+      RoomSearchService.invalidateSearchCache();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_UPDATED,
+        entityType: "RoomBooking",
+        entityId: bookingId,
+        before: booking,
+        after: {
+          ...booking,
+          roomId,
+          capacity,
+          startTime: startTimeDate,
+          endTime: endTimeDate,
+          status,
+        },
+      });
+
+      const io = req.app.get("io");
+      if (io) {
+        io.emit("bookingUpdated", {
+          bookingId,
+          roomId,
+          previousRoomId: booking.roomId,
+          booking: updated,
+        });
+        if (status === "PendingApproval" && slotChanged) {
+          io.emit("approvalRequested", updated);
+        }
+      }
+
+      // The previous slot is free for the waitlist now; the lock is released
+      // first since it may cover the same room and time
+      if (slotChanged) {
+        await roomLockService.releaseLock(lock);
+        lock = null;
+        await promoteWaitlist(io, booking);
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof RoomLockLostError) {
+        return sendError(res, 409, ErrorCode.ROOM_LOCK_LOST);
+      }
+      if (error.code === "P2025") {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+      }
+      return handleUnexpectedError(error, res);
+    } finally {
+      await roomLockService.releaseLock(lock);
+    }
+  }
+);
+
+// DELETE /api/room-bookings/:id - Cancel a booking (teacher only, own bookings)
+router.delete(
+  "/:id",
+  authenticateToken,
+  requireTeacher,
+  [param("id").isString().notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const bookingId = req.params.id;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return sendError(res, 401, ErrorCode.UNAUTHORIZED);
+      }
+
+      // Find the teacher by userId
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+      }
+
+      // Find the booking
+      const booking = await prisma.roomBooking.findUnique({
+        where: { id: bookingId },
+      });
+
+      if (!booking) {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+      }
+
+      // Verify the booking belongs to the teacher
       if (booking.teacherId !== teacher.id) {
         return sendError(res, 403, ErrorCode.FORBIDDEN);
       }
 
-      // Cannot cancel ongoing or completed bookings
-      if (booking.status === "Ongoing") {
-        return sendError(res, 400, ErrorCode.CANNOT_CANCEL_ONGOING);
+      // Cannot cancel ongoing or completed bookings
+      if (booking.status === "Ongoing") {
+        return sendError(res, 400, ErrorCode.CANNOT_CANCEL_ONGOING);
+      }
+
+      if (booking.status === "Completed") {
+        return sendError(res, 400, ErrorCode.CANNOT_CANCEL_COMPLETED);
+      }
+
+      // Cancelled and rejected bookings no longer hold the slot, and the row
+      // keeps the admin's reason or review comment
+      if (
+        booking.status !== "PendingApproval" &&
+        booking.status !== "NotStarted"
+      ) {
+        return sendError(
+          res,
+          400,
+          ErrorCode.VALIDATION_ERROR,
+          booking.status === "Rejected"
+            ? "Booking was rejected"
+            : "Booking is already cancelled"
+        );
+      }
+
+      // Deallocate students from the room before deleting the booking;
+      // pending bookings have none allocated yet
+      if (booking.status !== "PendingApproval") {
+        await BookingCancellationService.releaseBranchSeats(booking, [
+          booking.id,
+        ]);
+      }
+
+      // Delete the booking
+      await prisma.roomBooking.delete({
+        where: { id: bookingId },
+      });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_CANCELLED,
+        entityType: "RoomBooking",
+        entityId: bookingId,
+        before: booking,
+      });
+
+      // Invalidate search cache
+      RoomSearchService.invalidateSearchCache();
+
+      // Emit real-time update
+      const io = req.app.get("io");
+      if (io) {
+        io.emit("bookingCanceled", { bookingId, roomId: booking.roomId });
+      }
+
+      // Hand the freed slot to the first waitlisted teachers
+      await promoteWaitlist(io, booking);
+
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.code === "P2025") {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+      }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// DELETE /api/room-bookings/series/:seriesId - Cancel every upcoming occurrence of a series (teacher only, own series)
+router.delete(
+  "/series/:seriesId",
+  authenticateToken,
+  requireTeacher,
+  [param("seriesId").isString().notEmpty()],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { seriesId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return sendError(res, 401, ErrorCode.UNAUTHORIZED);
+      }
+
+      const teacher = await prisma.teacher.findFirst({
+        where: { userId },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+      }
+
+      const series = await prisma.bookingSeries.findUnique({
+        where: { id: seriesId },
+      });
+
+      if (!series) {
+        return sendError(res, 404, ErrorCode.SERIES_NOT_FOUND);
+      }
+
+      if (series.teacherId !== teacher.id) {
+        return sendError(res, 403, ErrorCode.FORBIDDEN);
+      }
+
+      // Ongoing and completed occurrences stay; only upcoming ones are cancelled
+      const upcoming = await prisma.roomBooking.findMany({
+        where: { seriesId, status: { in: ["PendingApproval", "NotStarted"] } },
+      });
+      const cancelledIds = upcoming.map((b) => b.id);
+
+      const allocated = upcoming.find((b) => b.status === "NotStarted");
+      if (allocated) {
+        await BookingCancellationService.releaseBranchSeats(
+          allocated,
+          cancelledIds
+        );
+      }
+
+      await prisma.roomBooking.deleteMany({
+        where: { id: { in: cancelledIds } },
+      });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_SERIES_CANCELLED,
+        entityType: "BookingSeries",
+        entityId: seriesId,
+        before: { ...series, bookingIds: cancelledIds },
+      });
+
+      RoomSearchService.invalidateSearchCache();
+
+      const io = req.app.get("io");
+      if (io) {
+        upcoming.forEach((booking) =>
+          io.emit("bookingCanceled", {
+            bookingId: booking.id,
+            roomId: booking.roomId,
+          })
+        );
+      }
+
+      // Hand each freed slot to the first waitlisted teachers
+      for (const booking of upcoming) {
+        await promoteWaitlist(io, booking);
+      }
+
+      res.json({ seriesId, cancelledCount: cancelledIds.length });
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/room-bookings/admin - Create a booking on behalf of a teacher (admin only)
+router.post(
+  "/admin",
+  authenticateToken,
+  requireAdmin,
+  [
+    body("teacherId").isString().notEmpty().withMessage("Teacher ID is required"),
+    body("roomId").isString().notEmpty().withMessage("Room ID is required"),
+    body("branch").isIn(Object.values(Branch)).withMessage("Invalid branch"),
+    body("capacity")
+      .isInt({ min: 1, max: 1000 })
+      .withMessage("Capacity must be between 1 and 1000"),
+    body("startTime").isISO8601().withMessage("Valid start time is required"),
+    body("endTime").isISO8601().withMessage("Valid end time is required"),
+    body("endTime").custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error("End time must be after start time");
+      }
+      return true;
+    }),
+    body("startTime").custom((startTime) => {
+      if (new Date(startTime) <= new Date()) {
+        throw new Error("Start time must be in the future");
+      }
+      return true;
+    }),
+    body("reason").optional().isString().trim(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    const { teacherId, roomId, branch, capacity, reason } = req.body;
+    const startTimeDate = new Date(req.body.startTime);
+    const endTimeDate = new Date(req.body.endTime);
+    const userId = req.user!.id;
+
+    const buffers = await BookingBufferService.forRoom(roomId);
+    const lock = await roomLockService.acquireLock(
+      roomId,
+      userId,
+      BookingBufferService.effectiveWindow(startTimeDate, endTimeDate, buffers)
+    );
+    if (!lock) {
+      return sendError(
+        res,
+        409,
+        ErrorCode.ROOM_NOT_AVAILABLE,
+        "Another user is currently booking this room. Please try again."
+      );
+    }
+
+    try {
+      const teacher = await prisma.teacher.findUnique({
+        where: { id: teacherId },
+      });
+
+      if (!teacher) {
+        return sendError(res, 404, ErrorCode.TEACHER_NOT_FOUND);
+      }
+
+      const room = await prisma.room.findUnique({
+        where: { id: roomId },
+      });
+
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
+      }
+
+      if (room.capacity < capacity) {
+        return sendError(res, 400, ErrorCode.INSUFFICIENT_CAPACITY);
+      }
+
+      const conflict = await findSlotConflict(
+        roomId,
+        startTimeDate,
+        endTimeDate,
+        buffers,
+        teacherId
+      );
+
+      if (conflict) {
+        return sendError(res, 409, conflict.code, conflict.message);
+      }
+
+      await roomLockService.checkStillHeld(lock);
+      const booking = await prisma.roomBooking.create({
+        data: {
+          roomId,
+          teacherId,
+          branch,
+          capacity,
+          startTime: startTimeDate,
+          endTime: endTimeDate,
+          status: "NotStarted",
+          adminReason: reason || null,
+        },
+        include: bookingInclude,
+      });
+
+      await allocateBranchForBooking(branch, roomId);
+
+      RoomSearchService.invalidateSearchCache();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_CREATED,
+        entityType: "RoomBooking",
+        entityId: booking.id,
+        after: {
+          roomId: booking.roomId,
+          teacherId: booking.teacherId,
+          branch: booking.branch,
+          capacity: booking.capacity,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          status: booking.status,
+          adminReason: booking.adminReason,
+        },
+      });
+
+      const io = req.app.get("io");
+      if (io) {
+        io.emit("bookingCreated", booking);
+      }
+      await BookingCancellationService.notifyTeacherOfAdminAction(
+        io,
+        "created",
+        booking,
+        reason,
+        booking
+      );
+
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof RoomLockLostError) {
+        return sendError(res, 409, ErrorCode.ROOM_LOCK_LOST);
+      }
+      return handleUnexpectedError(error, res);
+    } finally {
+      await roomLockService.releaseLock(lock);
+    }
+  }
+);
+
+// GET /api/room-bookings/approvals - Upcoming bookings waiting for approval, soonest first (admin only)
+router.get(
+  "/approvals",
+  authenticateToken,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await BookingApprovalService.listPending());
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+/**
+ * Approves or rejects a pending booking. Approved bookings get their
+ * students allocated; rejected ones free the slot for the waitlist.
+ */
+async function reviewBooking(
+  req: AuthRequest,
+  res: Response,
+  decision: ReviewDecision
+) {
+  const booking = await prisma.roomBooking.findUnique({
+    where: { id: req.params.id },
+  });
+
+  if (!booking) {
+    return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+  }
+
+  if (booking.status !== "PendingApproval") {
+    return sendError(res, 409, ErrorCode.BOOKING_NOT_PENDING_APPROVAL);
+  }
+
+  // Null when another admin got there first or the booking lapsed meanwhile
+  const reviewed = await BookingApprovalService.review(
+    booking.id,
+    decision,
+    req.body.comment || null,
+    req.user
+  );
+
+  if (!reviewed) {
+    return sendError(res, 409, ErrorCode.BOOKING_NOT_PENDING_APPROVAL);
+  }
+
+  if (decision === "approved") {
+    await allocateBranchForBooking(reviewed.branch, reviewed.roomId);
+  }
+
+  RoomSearchService.invalidateSearchCache();
+
+  const io = req.app.get("io");
+  BookingApprovalService.notifyTeacher(io, decision, reviewed);
+
+  if (decision === "rejected") {
+    await promoteWaitlist(io, reviewed);
+  }
+
+  res.json(reviewed);
+}
+
+// POST /api/room-bookings/:id/approve - Confirm a booking waiting for approval (admin only)
+router.post(
+  "/:id/approve",
+  authenticateToken,
+  requireAdmin,
+  [
+    param("id").isString().notEmpty(),
+    body("comment").optional({ values: "null" }).isString().trim(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      await reviewBooking(req, res, "approved");
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/room-bookings/:id/reject - Turn down a booking waiting for approval with a reason (admin only)
+router.post(
+  "/:id/reject",
+  authenticateToken,
+  requireAdmin,
+  [
+    param("id").isString().notEmpty(),
+    body("comment")
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("A reason for the rejection is required"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      await reviewBooking(req, res, "rejected");
+    } catch (error) {
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/room-bookings/:id/force-cancel - Cancel any teacher's booking with a reason (admin only)
+router.post(
+  "/:id/force-cancel",
+  authenticateToken,
+  requireAdmin,
+  [
+    param("id").isString().notEmpty(),
+    body("reason")
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("A cancellation reason is required"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const bookingId = req.params.id;
+      const { reason } = req.body;
+
+      const booking = await prisma.roomBooking.findUnique({
+        where: { id: bookingId },
+      });
+
+      if (!booking) {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
       }
 
       if (booking.status === "Completed") {
         return sendError(res, 400, ErrorCode.CANNOT_CANCEL_COMPLETED);
       }
 
-      // Deallocate students from the room before deleting the booking
-      // Only if the room is allocated to this branch
-      try {
-        const room = await prisma.room.findUnique({
-          where: { id: booking.roomId },
-        });
+      if (booking.status === "Cancelled") {
+        return sendError(
+          res,
+          400,
+          ErrorCode.VALIDATION_ERROR,
+          "Booking is already cancelled"
+        );
+      }
 
-        // Only deallocate if the room is currently allocated to this booking's branch
-        if (room && room.branchAllocated === booking.branch) {
-          // Find all students from this branch that are allocated to this room
-          const allocatedSeats = await prisma.seat.findMany({
-            where: {
-              roomId: booking.roomId,
-              status: "Allocated",
-              student: {
-                branch: booking.branch,
-              },
-            },
-            include: {
-              student: true,
-            },
-          });
+      if (booking.status === "Rejected") {
+        return sendError(
+          res,
+          400,
+          ErrorCode.VALIDATION_ERROR,
+          "Booking was rejected"
+        );
+      }
 
-          // Deallocate all seats for students from this branch
-          if (allocatedSeats.length > 0) {
-            await prisma.$transaction(async (tx) => {
-              // Update all seats to Available and remove student assignment
-              await tx.seat.updateMany({
-                where: {
-                  id: { in: allocatedSeats.map((s) => s.id) },
-                },
-                data: {
-                  status: "Available",
-                  studentId: null,
-                },
-              });
-
-              // Update room claimed count and clear branchAllocated
-              await tx.room.update({
-                where: { id: booking.roomId },
-                data: {
-                  claimed: { decrement: allocatedSeats.length },
-                  branchAllocated: null,
-                },
-              });
-            });
+      // Ongoing bookings can be cancelled too, e.g. to evacuate a room
+      const cancelled = await BookingCancellationService.forceCancel(
+        booking,
+        reason,
+        req.user
+      );
 
-            console.log(
-              `Deallocated ${allocatedSeats.length} students from room ${booking.roomId} after booking cancellation`
-            );
-          }
-        }
-      } catch (deallocationError) {
-        console.error("Failed to deallocate students:", deallocationError);
-        // Continue with booking deletion even if deallocation fails
+      RoomSearchService.invalidateSearchCache();
+
+      const io = req.app.get("io");
+      if (io) {
+        io.emit("bookingCanceled", { bookingId, roomId: booking.roomId });
+      }
+      await BookingCancellationService.notifyTeacherOfAdminAction(
+        io,
+        "cancelled",
+        cancelled,
+        reason,
+        cancelled
+      );
+
+      // Hand the freed slot to the first waitlisted teachers
+      await promoteWaitlist(io, booking);
+
+      res.json(cancelled);
+    } catch (error: any) {
+      if (error.code === "P2025") {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
       }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
 
-      // Delete the booking
-      await prisma.roomBooking.delete({
+// POST /api/room-bookings/:id/reassign - Move any teacher's booking to another room (admin only)
+router.post(
+  "/:id/reassign",
+  authenticateToken,
+  requireAdmin,
+  [
+    param("id").isString().notEmpty(),
+    body("roomId").isString().notEmpty().withMessage("Room ID is required"),
+    body("reason").optional().isString().trim(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    const bookingId = req.params.id;
+    const { roomId, reason } = req.body;
+    const userId = req.user!.id;
+    let lock: RoomLock | null = null;
+
+    try {
+      const booking = await prisma.roomBooking.findUnique({
         where: { id: bookingId },
       });
 
-      // Invalidate search cache
+      if (!booking) {
+        return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
+      }
+
+      if (booking.status !== "NotStarted" && booking.status !== "Ongoing") {
+        return sendError(res, 400, ErrorCode.CANNOT_MODIFY_STARTED);
+      }
+
+      if (booking.roomId === roomId) {
+        return sendError(
+          res,
+          400,
+          ErrorCode.VALIDATION_ERROR,
+          "Booking is already in this room"
+        );
+      }
+
+      const buffers = await BookingBufferService.forRoom(roomId);
+      lock = await roomLockService.acquireLock(
+        roomId,
+        userId,
+        BookingBufferService.effectiveWindow(
+          booking.startTime,
+          booking.endTime,
+          buffers
+        )
+      );
+      if (!lock) {
+        return sendError(
+          res,
+          409,
+          ErrorCode.ROOM_NOT_AVAILABLE,
+          "Another user is currently booking this room. Please try again."
+        );
+      }
+
+      const room = await prisma.room.findUnique({
+        where: { id: roomId },
+      });
+
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
+      }
+
+      if (room.capacity < booking.capacity) {
+        return sendError(res, 400, ErrorCode.INSUFFICIENT_CAPACITY);
+      }
+
+      // The teacher's own schedule is unchanged, so only the room is checked
+      const conflict = await findSlotConflict(
+        roomId,
+        booking.startTime,
+        booking.endTime,
+        buffers
+      );
+
+      if (conflict) {
+        return sendError(res, 409, conflict.code, conflict.message);
+      }
+
+      await roomLockService.checkStillHeld(lock);
+      const updated = await prisma.roomBooking.update({
+        where: { id: bookingId },
+        data: {
+          roomId,
+          adminReason: reason || null,
+        },
+        include: bookingInclude,
+      });
+
+      await BookingCancellationService.releaseBranchSeats(booking, [
+        booking.id,
+      ]);
+      await allocateBranchForBooking(booking.branch, roomId);
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.BOOKING_REASSIGNED,
+        entityType: "RoomBooking",
+        entityId: bookingId,
+        before: booking,
+        after: { roomId, adminReason: updated.adminReason },
+      });
+
       RoomSearchService.invalidateSearchCache();
 
-      // Emit real-time update
       const io = req.app.get("io");
       if (io) {
-        io.emit("bookingCanceled", { bookingId, roomId: booking.roomId });
+        io.emit("bookingUpdated", {
+          bookingId,
+          roomId,
+          previousRoomId: booking.roomId,
+          booking: updated,
+        });
       }
+      await BookingCancellationService.notifyTeacherOfAdminAction(
+        io,
+        "reassigned",
+        updated,
+        reason,
+        updated
+      );
 
-      res.status(204).send();
+      // The slot in the previous room is free for the waitlist now
+      await promoteWaitlist(io, booking);
+
+      res.json(updated);
     } catch (error: any) {
+      if (error instanceof RoomLockLostError) {
+        return sendError(res, 409, ErrorCode.ROOM_LOCK_LOST);
+      }
       if (error.code === "P2025") {
         return sendError(res, 404, ErrorCode.BOOKING_NOT_FOUND);
       }
       return handleUnexpectedError(error, res);
+    } finally {
+      await roomLockService.releaseLock(lock);
     }
   }
 );
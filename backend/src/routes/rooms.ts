@@ -1,13 +1,68 @@
 import { Router, Request, Response } from "express";
 import { param, body, validationResult } from "express-validator";
-import { PrismaClient } from "../../generated/prisma/client";
+import { PrismaClient, Prisma } from "../../generated/prisma/client";
 import { cacheMiddleware, invalidateCache } from "../middleware/cache";
-import { authenticateToken, requireAdmin } from "./auth";
-import { SeatGenerationService } from "../services/seatGenerationService";
+import { authenticateToken, requireAdmin, AuthRequest } from "./auth";
+import {
+  SeatGenerationService,
+  RoomLayout,
+  POSITIONAL_FEATURES,
+} from "../services/seatGenerationService";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import {
+  SeatRegenerationService,
+  SeatChangeReport,
+} from "../services/seatRegenerationService";
+import { RoomBlackoutService } from "../services/roomBlackoutService";
+import { RoomSearchService } from "../services/roomSearchService";
+import { BookingCancellationService } from "../services/bookingCancellationService";
+import {
+  sendError,
+  sendValidationError,
+  handleUnexpectedError,
+  ErrorCode,
+} from "../utils/errorHandler";
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// A change to one seat in the layout editor, addressed by grid position
+interface SeatEdit {
+  row: number;
+  col: number;
+  label?: string;
+  features?: string[];
+}
+
+/**
+ * After a seat regeneration has committed: reseats the students whose seats
+ * were removed and tells clients the allocations moved.
+ */
+async function reallocateDisplacedStudents(
+  req: AuthRequest,
+  room: { id: string; buildingId: string },
+  seatChanges: SeatChangeReport
+): Promise<SeatChangeReport> {
+  await invalidateCache(`room-seats:/api/rooms/${room.id}/seats`);
+
+  if (seatChanges.displacedStudentIds.length === 0) {
+    return seatChanges;
+  }
+
+  const report = await SeatRegenerationService.reallocateDisplaced(
+    seatChanges,
+    room.buildingId,
+    room.id
+  );
+
+  const io = req.app.get("io");
+  if (io) {
+    io.emit("allocationsUpdated");
+  }
+
+  return report;
+}
+
 // GET /api/rooms -> list all rooms
 router.get(
   "/",
@@ -18,6 +73,7 @@ router.get(
         include: {
           building: true,
           floor: true,
+          amenities: { orderBy: { name: "asc" } },
         },
         orderBy: { name: "asc" },
       });
@@ -40,6 +96,7 @@ router.get(
     try {
       const room = await prisma.room.findUnique({
         where: { id: req.params.id },
+        include: { amenities: { orderBy: { name: "asc" } } },
       });
       if (room) {
         res.json(room);
@@ -65,25 +122,62 @@ router.post(
       .trim()
       .isLength({ min: 1, max: 100 })
       .withMessage("Name must be between 1 and 100 characters"),
-    body("capacity").isInt({ min: 1 }),
-    body("rows").isInt({ min: 1 }),
-    body("cols").isInt({ min: 1 }),
+    // With a layout the dimensions (and by default the capacity) come from it
+    body("capacity").if(body("layout").not().exists()).isInt({ min: 1 }),
+    body("capacity").optional().isInt({ min: 1 }),
+    body("rows").if(body("layout").not().exists()).isInt({ min: 1 }),
+    body("cols").if(body("layout").not().exists()).isInt({ min: 1 }),
+    body("layout")
+      .optional()
+      .custom((layout) => {
+        const layoutError = SeatGenerationService.validateLayout(layout);
+        if (layoutError) {
+          throw new Error(layoutError);
+        }
+        return true;
+      }),
     body("distance")
       .optional()
       .isFloat({ min: 0 })
       .withMessage("Distance must be a positive number"),
+    // null inherits the building's buffer
+    body(["bufferBeforeMinutes", "bufferAfterMinutes"])
+      .optional({ values: "null" })
+      .isInt({ min: 0, max: 240 })
+      .withMessage("Buffers must be between 0 and 240 minutes"),
+    body("requiresApproval").optional().isBoolean(),
   ],
-  async (req: Request, res: Response) => {
+  async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
     try {
-      const { buildingId, floorId, name, capacity, rows, cols, distance } =
-        req.body;
+      const {
+        buildingId,
+        floorId,
+        name,
+        distance,
+        bufferBeforeMinutes,
+        bufferAfterMinutes,
+        requiresApproval,
+      } = req.body;
+      const layout: RoomLayout | undefined = req.body.layout;
+      let { capacity, rows, cols } = req.body;
 
-      if (capacity > rows * cols) {
+      if (layout) {
+        const dimensions = SeatGenerationService.layoutDimensions(layout);
+        rows = dimensions.rows;
+        cols = dimensions.cols;
+        capacity = capacity ?? dimensions.seatCount;
+
+        if (capacity > dimensions.seatCount) {
+          return res.status(400).json({
+            error: "Capacity cannot exceed the number of seats in the layout",
+          });
+        }
+      } else if (capacity > rows * cols) {
         return res.status(400).json({
           error:
             "Capacity cannot exceed the total seats from dimensions (rows * cols)",
@@ -124,7 +218,11 @@ router.post(
           capacity,
           rows,
           cols,
+          layout: layout as Prisma.InputJsonValue | undefined,
           distance: distance !== undefined ? parseFloat(distance) : 0,
+          bufferBeforeMinutes: bufferBeforeMinutes ?? null,
+          bufferAfterMinutes: bufferAfterMinutes ?? null,
+          requiresApproval: requiresApproval ?? false,
         },
       });
 
@@ -134,13 +232,22 @@ router.post(
         room.capacity,
         room.rows,
         room.cols,
-        prisma
+        prisma,
+        layout
       );
 
       await invalidateCache("buildings:*");
       await invalidateCache("floors:*");
       await invalidateCache(`room-seats:/api/rooms/${room.id}/seats`);
 
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_CREATED,
+        entityType: "Room",
+        entityId: room.id,
+        after: room,
+      });
+
       res.status(201).json(room);
     } catch (error) {
       console.error("Failed to create room:", error);
@@ -165,6 +272,17 @@ router.put(
     body("capacity").optional().isInt({ min: 1 }),
     body("rows").optional().isInt({ min: 1 }),
     body("cols").optional().isInt({ min: 1 }),
+    // null switches the room back to a plain rows×cols grid
+    body("layout")
+      .optional({ values: "undefined" })
+      .custom((layout) => {
+        if (layout === null) return true;
+        const layoutError = SeatGenerationService.validateLayout(layout);
+        if (layoutError) {
+          throw new Error(layoutError);
+        }
+        return true;
+      }),
     body("floorId")
       .optional()
       .isString()
@@ -174,11 +292,17 @@ router.put(
       .optional()
       .isFloat({ min: 0 })
       .withMessage("Distance must be a positive number"),
+    body(["bufferBeforeMinutes", "bufferAfterMinutes"])
+      .optional({ values: "null" })
+      .isInt({ min: 0, max: 240 })
+      .withMessage("Buffers must be between 0 and 240 minutes"),
+    body("requiresApproval").optional().isBoolean(),
     body("version")
       .isInt({ min: 0 })
       .withMessage("Version is required for updates."),
+    body("dryRun").optional().isBoolean(),
   ],
-  async (req: Request, res: Response) => {
+  async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
@@ -186,8 +310,19 @@ router.put(
 
     try {
       const { id } = req.params;
-      const { name, capacity, rows, cols, floorId, distance, version } =
-        req.body;
+      const {
+        name,
+        capacity,
+        rows,
+        cols,
+        floorId,
+        distance,
+        bufferBeforeMinutes,
+        bufferAfterMinutes,
+        requiresApproval,
+        version,
+      } = req.body;
+      const layout: RoomLayout | null | undefined = req.body.layout;
 
       const existingRoom = await prisma.room.findUnique({
         where: { id },
@@ -242,45 +377,327 @@ router.put(
 
       if (floorId !== undefined) updatedData.floorId = floorId;
       if (distance !== undefined) updatedData.distance = parseFloat(distance);
+      if (bufferBeforeMinutes !== undefined)
+        updatedData.bufferBeforeMinutes = bufferBeforeMinutes;
+      if (bufferAfterMinutes !== undefined)
+        updatedData.bufferAfterMinutes = bufferAfterMinutes;
+      // Bookings already waiting for approval stay in the queue either way
+      if (requiresApproval !== undefined)
+        updatedData.requiresApproval = requiresApproval;
+
+      const currentLayout = existingRoom.layout as RoomLayout | null;
+      const nextLayout = layout === undefined ? currentLayout : layout;
+
+      if (nextLayout) {
+        const dimensions = SeatGenerationService.layoutDimensions(nextLayout);
+        updatedData.rows = dimensions.rows;
+        updatedData.cols = dimensions.cols;
+        // A new layout without an explicit capacity seats as many as it holds
+        if (layout && !capacity) {
+          updatedData.capacity = dimensions.seatCount;
+        }
 
-      if (updatedData.capacity > updatedData.rows * updatedData.cols) {
+        if (updatedData.capacity > dimensions.seatCount) {
+          return res.status(400).json({
+            error: "Capacity cannot exceed the number of seats in the layout",
+          });
+        }
+      } else if (updatedData.capacity > updatedData.rows * updatedData.cols) {
         return res.status(400).json({
           error:
             "Capacity cannot exceed the total seats from dimensions (rows * cols)",
         });
       }
 
-      const updatedRoom = await prisma.room.update({
-        where: {
-          id,
-          version: version,
-        },
-        data: {
-          ...updatedData,
-          version: { increment: 1 },
-        },
+      if (layout !== undefined) {
+        updatedData.layout = layout ?? Prisma.DbNull;
+      }
+
+      // If dimensions, capacity or layout changed, the seats follow
+      const seatsAffected =
+        updatedData.rows !== existingRoom.rows ||
+        updatedData.cols !== existingRoom.cols ||
+        updatedData.capacity !== existingRoom.capacity ||
+        JSON.stringify(nextLayout) !== JSON.stringify(currentLayout);
+      const targetSeats = SeatGenerationService.buildSeats(
+        nextLayout ??
+          SeatGenerationService.defaultLayout(
+            updatedData.rows,
+            updatedData.cols
+          ),
+        updatedData.capacity
+      );
+
+      if (req.body.dryRun === true) {
+        return res.json({
+          dryRun: true,
+          seatChanges: seatsAffected
+            ? await SeatRegenerationService.previewChanges(id, targetSeats)
+            : null,
+        });
+      }
+
+      const { updatedRoom, seatChanges } = await prisma.$transaction(
+        async (tx) => {
+          const room = await tx.room.update({
+            where: {
+              id,
+              version: version,
+            },
+            data: {
+              ...updatedData,
+              version: { increment: 1 },
+            },
+          });
+          const changes = seatsAffected
+            ? await SeatRegenerationService.applyChanges(tx, id, targetSeats)
+            : null;
+          return { updatedRoom: room, seatChanges: changes };
+        }
+      );
+
+      const seatReport = seatChanges
+        ? await reallocateDisplacedStudents(req, existingRoom, seatChanges)
+        : null;
+
+      await invalidateCache("buildings:*");
+      await invalidateCache("floors:*");
+      RoomSearchService.invalidateSearchCache();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_UPDATED,
+        entityType: "Room",
+        entityId: id,
+        before: existingRoom,
+        after: updatedRoom,
       });
 
-      // If dimensions or capacity changed, regenerate seats
-      const dimensionsChanged = rows && rows !== existingRoom.rows;
-      const colsChanged = cols && cols !== existingRoom.cols;
-      const capacityChanged = capacity && capacity !== existingRoom.capacity;
-
-      if (dimensionsChanged || colsChanged || capacityChanged) {
-        await SeatGenerationService.generateSeatsForRoom(
-          updatedRoom.id,
-          updatedRoom.capacity,
-          updatedRoom.rows,
-          updatedRoom.cols,
-          prisma
+      res.json({ ...updatedRoom, seatChanges: seatReport });
+    } catch (error: any) {
+      if (error.code === "P2025") {
+        return res.status(409).json({
+          message:
+            "Room has been modified by another user. Please refresh and try again.",
+        });
+      }
+      res.status(500).json({ error: "Failed to update room" });
+    }
+  }
+);
+
+// PUT /api/rooms/:id/layout -> save the seat layout together with per-seat
+// labels and custom features (admin only). Seats that keep their position keep
+// their allocation; with dryRun only the seat change report is returned.
+router.put(
+  "/:id/layout",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    body("version")
+      .isInt({ min: 0 })
+      .withMessage("Version is required for updates."),
+    body("layout").custom((layout) => {
+      const layoutError = SeatGenerationService.validateLayout(layout);
+      if (layoutError) {
+        throw new Error(layoutError);
+      }
+      return true;
+    }),
+    body("seats").optional().isArray(),
+    body("seats.*.row").isInt({ min: 0 }),
+    body("seats.*.col").isInt({ min: 0 }),
+    body("seats.*.label")
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 10 })
+      .withMessage("Seat labels must be between 1 and 10 characters"),
+    body("seats.*.features").optional().isArray(),
+    body("seats.*.features.*").isString(),
+    body("dryRun").optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const { id } = req.params;
+      const { version } = req.body;
+      const layout: RoomLayout = req.body.layout;
+      const edits: SeatEdit[] = req.body.seats ?? [];
+
+      const existingRoom = await prisma.room.findUnique({
+        where: { id },
+        include: { seats: true },
+      });
+
+      if (!existingRoom) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+
+      if (existingRoom.version !== version) {
+        return res.status(409).json({
+          message:
+            "Room has been modified by another user. Please refresh and try again.",
+          currentRoom: {
+            id: existingRoom.id,
+            name: existingRoom.name,
+            capacity: existingRoom.capacity,
+            rows: existingRoom.rows,
+            cols: existingRoom.cols,
+            layout: existingRoom.layout,
+            version: existingRoom.version,
+          },
+        });
+      }
+
+      const dimensions = SeatGenerationService.layoutDimensions(layout);
+      const generated = SeatGenerationService.buildSeats(
+        layout,
+        dimensions.seatCount
+      );
+
+      // Whether any seat appears, disappears or changes its positional features
+      const positionalKey = (seat: {
+        row: number;
+        col: number;
+        features: string[];
+      }) =>
+        `${seat.row}:${seat.col}:${seat.features
+          .filter((f) => POSITIONAL_FEATURES.includes(f))
+          .sort()
+          .join(",")}`;
+      const existingKeys = existingRoom.seats.map(positionalKey).sort();
+      const generatedKeys = generated.map(positionalKey).sort();
+      const seatsMoved =
+        JSON.stringify(existingKeys) !== JSON.stringify(generatedKeys);
+
+      const seatsByPosition = new Map(
+        generated.map((seat) => [`${seat.row}:${seat.col}`, seat])
+      );
+      // Surviving seats keep their custom features, and their labels too as
+      // long as no seat moved (otherwise default labels are renumbered)
+      for (const existingSeat of existingRoom.seats) {
+        const seat = seatsByPosition.get(
+          `${existingSeat.row}:${existingSeat.col}`
         );
-        await invalidateCache(`room-seats:/api/rooms/${id}/seats`);
+        if (!seat) continue;
+        if (!seatsMoved) seat.label = existingSeat.label;
+        seat.features = [
+          ...new Set([
+            ...seat.features,
+            ...existingSeat.features.filter(
+              (f) => !POSITIONAL_FEATURES.includes(f)
+            ),
+          ]),
+        ];
       }
 
+      // Apply the per-seat edits; `features` replaces the seat's custom features
+      for (const edit of edits) {
+        const seat = seatsByPosition.get(`${edit.row}:${edit.col}`);
+        if (!seat) {
+          return res.status(400).json({
+            error: `There is no seat at row ${edit.row + 1}, column ${
+              edit.col + 1
+            } in the layout`,
+          });
+        }
+        if (edit.label) seat.label = edit.label.trim();
+        if (edit.features) {
+          const positionalFeatures = seat.features.filter((f) =>
+            POSITIONAL_FEATURES.includes(f)
+          );
+          const customFeatures = edit.features.filter(
+            (f) => !POSITIONAL_FEATURES.includes(f)
+          );
+          seat.features = [
+            ...new Set([...positionalFeatures, ...customFeatures]),
+          ];
+        }
+      }
+
+      const labels = generated.map((seat) => seat.label);
+      const duplicate = labels.find((label, i) => labels.indexOf(label) !== i);
+      if (duplicate) {
+        return res
+          .status(400)
+          .json({ error: `Seat label "${duplicate}" is used more than once` });
+      }
+
+      if (req.body.dryRun === true) {
+        return res.json({
+          dryRun: true,
+          seatChanges: SeatRegenerationService.planChanges(
+            existingRoom.seats,
+            generated,
+            false
+          ).report,
+        });
+      }
+
+      const { updatedRoom, seatChanges } = await prisma.$transaction(
+        async (tx) => {
+          const room = await tx.room.update({
+            where: { id, version },
+            data: {
+              layout: layout as unknown as Prisma.InputJsonValue,
+              rows: dimensions.rows,
+              cols: dimensions.cols,
+              capacity: dimensions.seatCount,
+              version: { increment: 1 },
+            },
+          });
+          // The seats above already carry the labels and features to keep
+          const changes = await SeatRegenerationService.applyChanges(
+            tx,
+            id,
+            generated,
+            false
+          );
+          return { updatedRoom: room, seatChanges: changes };
+        }
+      );
+
+      const seatReport = await reallocateDisplacedStudents(
+        req,
+        existingRoom,
+        seatChanges
+      );
+
+      const seats = await prisma.seat.findMany({
+        where: { roomId: id },
+        orderBy: [{ row: "asc" }, { col: "asc" }],
+      });
+
       await invalidateCache("buildings:*");
       await invalidateCache("floors:*");
 
-      res.json(updatedRoom);
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_LAYOUT_UPDATED,
+        entityType: "Room",
+        entityId: id,
+        before: { layout: existingRoom.layout, version: existingRoom.version },
+        after: {
+          layout: updatedRoom.layout,
+          version: updatedRoom.version,
+          seatsAdded: seatReport.added.length,
+          seatsRemoved: seatReport.removed.length,
+          displacedStudentIds: seatReport.displacedStudentIds,
+        },
+      });
+
+      const io = req.app.get("io");
+      if (io) {
+        io.emit("roomLayoutUpdated", { roomId: id });
+      }
+
+      res.json({ room: updatedRoom, seats, seatChanges: seatReport });
     } catch (error: any) {
       if (error.code === "P2025") {
         return res.status(409).json({
@@ -288,7 +705,70 @@ router.put(
             "Room has been modified by another user. Please refresh and try again.",
         });
       }
-      res.status(500).json({ error: "Failed to update room" });
+      console.error("Failed to update room layout:", error);
+      res.status(500).json({ error: "Failed to update room layout" });
+    }
+  }
+);
+
+// PUT /api/rooms/:id/amenities -> replace the amenities a room offers
+router.put(
+  "/:id/amenities",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    body("amenityIds").isArray().withMessage("Amenity IDs must be an array"),
+    body("amenityIds.*").isString().notEmpty(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const amenityIds: string[] = [...new Set<string>(req.body.amenityIds)];
+
+      const room = await prisma.room.findUnique({
+        where: { id: req.params.id },
+        include: { amenities: true },
+      });
+      if (!room) {
+        return sendError(res, 404, ErrorCode.ROOM_NOT_FOUND);
+      }
+
+      const found = await prisma.amenity.count({
+        where: { id: { in: amenityIds } },
+      });
+      if (found !== amenityIds.length) {
+        return sendError(res, 400, ErrorCode.AMENITY_NOT_FOUND);
+      }
+
+      const updatedRoom = await prisma.room.update({
+        where: { id: room.id },
+        data: {
+          amenities: { set: amenityIds.map((id) => ({ id })) },
+        },
+        include: { amenities: { orderBy: { name: "asc" } } },
+      });
+
+      await invalidateCache("rooms:*");
+      await invalidateCache("amenities:*");
+      RoomSearchService.invalidateSearchCache();
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_AMENITIES_UPDATED,
+        entityType: "Room",
+        entityId: room.id,
+        before: { amenities: room.amenities.map((a) => a.name) },
+        after: { amenities: updatedRoom.amenities.map((a) => a.name) },
+      });
+
+      res.json(updatedRoom);
+    } catch (error) {
+      return handleUnexpectedError(error, res);
     }
   }
 );
@@ -297,7 +777,7 @@ router.put(
 router.delete(
   "/:id",
   [authenticateToken, requireAdmin, param("id").isString().notEmpty()],
-  async (req: Request, res: Response) => {
+  async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
@@ -307,11 +787,11 @@ router.delete(
       const { id } = req.params;
 
       // Use a transaction to delete seats and then the room
-      await prisma.$transaction(async (tx) => {
+      const deletedRoom = await prisma.$transaction(async (tx) => {
         await tx.seat.deleteMany({
           where: { roomId: id },
         });
-        await tx.room.delete({
+        return tx.room.delete({
           where: { id },
         });
       });
@@ -319,6 +799,14 @@ router.delete(
       await invalidateCache("buildings:*");
       await invalidateCache(`room-seats:/api/rooms/${id}/seats`);
 
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_DELETED,
+        entityType: "Room",
+        entityId: id,
+        before: deletedRoom,
+      });
+
       res.status(204).send();
     } catch (error: any) {
       if (error.code === "P2025") {
@@ -394,10 +882,17 @@ router.get(
 );
 
 // POST /api/rooms/:id/regenerate-seats - Regenerate seats for a room (admin only)
+// Seats that keep their position keep their id, status, student and custom
+// features; with dryRun only the seat change report is returned.
 router.post(
   "/:id/regenerate-seats",
-  [authenticateToken, requireAdmin, param("id").isString().notEmpty()],
-  async (req: Request, res: Response) => {
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    body("dryRun").optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
@@ -412,21 +907,52 @@ router.post(
         return res.status(404).json({ error: "Room not found" });
       }
 
+      const targetSeats = SeatGenerationService.buildSeats(
+        SeatGenerationService.layoutForRoom(room),
+        room.capacity
+      );
+
+      if (req.body?.dryRun === true) {
+        return res.json({
+          dryRun: true,
+          roomId: room.id,
+          seatChanges: await SeatRegenerationService.previewChanges(
+            room.id,
+            targetSeats
+          ),
+        });
+      }
+
       // Regenerate seats
-      await SeatGenerationService.generateSeatsForRoom(
-        room.id,
-        room.capacity,
-        room.rows,
-        room.cols,
-        prisma
+      const seatChanges = await prisma.$transaction((tx) =>
+        SeatRegenerationService.applyChanges(tx, room.id, targetSeats)
+      );
+      const seatReport = await reallocateDisplacedStudents(
+        req,
+        room,
+        seatChanges
       );
 
-      await invalidateCache(`room-seats:/api/rooms/${room.id}/seats`);
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_SEATS_REGENERATED,
+        entityType: "Room",
+        entityId: room.id,
+        after: {
+          capacity: room.capacity,
+          rows: room.rows,
+          cols: room.cols,
+          seatsAdded: seatReport.added.length,
+          seatsRemoved: seatReport.removed.length,
+          displacedStudentIds: seatReport.displacedStudentIds,
+        },
+      });
 
       res.json({
         message: "Seats regenerated successfully",
         roomId: room.id,
         capacity: room.capacity,
+        seatChanges: seatReport,
       });
     } catch (error) {
       console.error("Failed to regenerate seats:", error);
@@ -435,4 +961,178 @@ router.post(
   }
 );
 
+// GET /api/rooms/:id/blackouts - Current and upcoming blackouts of a room
+router.get(
+  "/:id/blackouts",
+  [authenticateToken, param("id").isString().notEmpty()],
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const blackouts = await RoomBlackoutService.listForRoom(req.params.id);
+      res.json(blackouts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch room blackouts" });
+    }
+  }
+);
+
+// POST /api/rooms/:id/blackouts - Close a room for a time window (admin only)
+// With dryRun the affected bookings are returned without creating anything;
+// with cancelAffected the overlapping bookings are force-cancelled.
+router.post(
+  "/:id/blackouts",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    body("startTime").isISO8601().withMessage("Valid start time is required"),
+    body("endTime").isISO8601().withMessage("Valid end time is required"),
+    body("endTime").custom((endTime, { req }) => {
+      if (new Date(endTime) <= new Date(req.body.startTime)) {
+        throw new Error("End time must be after start time");
+      }
+      return true;
+    }),
+    body("reason")
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage("A reason is required"),
+    body("dryRun").optional().isBoolean(),
+    body("cancelAffected").optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const room = await prisma.room.findUnique({
+        where: { id: req.params.id },
+      });
+
+      if (!room) {
+        return res.status(404).json({ error: "Room not found" });
+      }
+
+      const startTime = new Date(req.body.startTime);
+      const endTime = new Date(req.body.endTime);
+      const reason: string = req.body.reason;
+
+      const affectedBookings = await RoomBlackoutService.findAffectedBookings(
+        room.id,
+        startTime,
+        endTime
+      );
+
+      if (req.body.dryRun === true) {
+        return res.json({ affectedBookings });
+      }
+
+      const blackout = await prisma.roomBlackout.create({
+        data: {
+          roomId: room.id,
+          startTime,
+          endTime,
+          reason,
+          createdById: req.user?.id,
+        },
+      });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_BLACKOUT_CREATED,
+        entityType: "RoomBlackout",
+        entityId: blackout.id,
+        after: blackout,
+      });
+
+      const cancelledBookingIds: string[] = [];
+      if (req.body.cancelAffected === true) {
+        const io = req.app.get("io");
+        const cancelReason = `Room unavailable: ${reason}`;
+
+        for (const booking of affectedBookings) {
+          const cancelled = await BookingCancellationService.forceCancel(
+            booking,
+            cancelReason,
+            req.user
+          );
+          cancelledBookingIds.push(cancelled.id);
+
+          if (io) {
+            io.emit("bookingCanceled", {
+              bookingId: cancelled.id,
+              roomId: room.id,
+            });
+          }
+          await BookingCancellationService.notifyTeacherOfAdminAction(
+            io,
+            "cancelled",
+            cancelled,
+            cancelReason,
+            cancelled
+          );
+        }
+      }
+
+      RoomSearchService.invalidateSearchCache();
+
+      res.status(201).json({ blackout, affectedBookings, cancelledBookingIds });
+    } catch (error) {
+      console.error("Failed to create room blackout:", error);
+      res.status(500).json({ error: "Failed to create room blackout" });
+    }
+  }
+);
+
+// DELETE /api/rooms/:id/blackouts/:blackoutId - Reopen a room (admin only)
+router.delete(
+  "/:id/blackouts/:blackoutId",
+  [
+    authenticateToken,
+    requireAdmin,
+    param("id").isString().notEmpty(),
+    param("blackoutId").isString().notEmpty(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    try {
+      const blackout = await prisma.roomBlackout.findFirst({
+        where: { id: req.params.blackoutId, roomId: req.params.id },
+      });
+
+      if (!blackout) {
+        return res.status(404).json({ error: "Blackout not found" });
+      }
+
+      await prisma.roomBlackout.delete({ where: { id: blackout.id } });
+
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.ROOM_BLACKOUT_DELETED,
+        entityType: "RoomBlackout",
+        entityId: blackout.id,
+        before: blackout,
+      });
+
+      RoomSearchService.invalidateSearchCache();
+
+      res.json({ message: "Blackout removed successfully" });
+    } catch (error) {
+      console.error("Failed to delete room blackout:", error);
+      res.status(500).json({ error: "Failed to delete room blackout" });
+    }
+  }
+);
+
 export default router;
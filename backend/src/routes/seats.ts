@@ -1,9 +1,10 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { PrismaClient, SeatStatus } from '../../generated/prisma/client';
 import { invalidateCache } from '../middleware/cache';
 import { Server } from 'socket.io';
-import { authenticateToken, requireAdmin } from './auth';
+import { authenticateToken, requireAdmin, AuthRequest } from './auth';
+import { AuditLogService, AuditAction } from '../services/auditLogService';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -15,7 +16,7 @@ router.patch('/:id/status', [
   param('id').isString().notEmpty(),
   body('status').isIn(Object.values(SeatStatus)).withMessage(`Status must be one of: ${Object.values(SeatStatus).join(', ')}`),
   body('version').isInt({ min: 0 }).withMessage('Version is required for updates.')
-], async (req: Request, res: Response) => {
+], async (req: AuthRequest, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({ errors: errors.array() });
@@ -24,6 +25,7 @@ router.patch('/:id/status', [
   const { status, version } = req.body as { status: SeatStatus; version: number };
   const seatId = req.params.id;
   let displacedStudentInfo: { studentId: string; buildingId: string; roomId: string } | null = null;
+  let previousSeat: { status: SeatStatus; studentId: string | null; version: number } | null = null;
 
   try {
     const updatedSeatResult = await prisma.$transaction(async (tx) => {
@@ -41,6 +43,7 @@ router.patch('/:id/status', [
         throw error;
       }
 
+      previousSeat = { status: seat.status, studentId: seat.studentId, version: seat.version };
       const oldStatus = seat.status;
       const studentIdOnSeat = seat.studentId;
       const hadStudent = !!studentIdOnSeat;
@@ -109,6 +112,15 @@ router.patch('/:id/status', [
 
     await invalidateCache(`room-seats:/api/rooms/${updatedSeatResult.roomId}/seats`);
 
+    await AuditLogService.record({
+      actor: req.user,
+      action: AuditAction.SEAT_STATUS_CHANGED,
+      entityType: 'Seat',
+      entityId: seatId,
+      before: previousSeat,
+      after: { status: updatedSeatResult.status, studentId: updatedSeatResult.studentId, version: updatedSeatResult.version }
+    });
+
     const io: Server = req.app.get('io');
     io.emit('seatUpdated', updatedSeatResult);
     io.emit('roomUpdated');
@@ -155,7 +167,7 @@ router.patch('/:id/features', [
     param('id').isString().notEmpty(),
     body('features').isArray().withMessage('Features must be an array of strings.'),
     body('version').isInt({ min: 0 }).withMessage('Version is required for updates.')
-], async (req: Request, res: Response) => {
+], async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
@@ -209,6 +221,15 @@ router.patch('/:id/features', [
         });
 
         await invalidateCache(`room-seats:/api/rooms/${updatedSeat.roomId}/seats`);
+
+        await AuditLogService.record({
+            actor: req.user,
+            action: AuditAction.SEAT_FEATURES_CHANGED,
+            entityType: 'Seat',
+            entityId: seatId,
+            before: { features: seat.features, version: seat.version },
+            after: { features: updatedSeat.features, version: updatedSeat.version }
+        });
         
         const io: Server = req.app.get('io');
         io.emit('seatUpdated', updatedSeat);
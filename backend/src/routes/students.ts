@@ -10,6 +10,16 @@ import {
   handleUnexpectedError,
   ErrorCode,
 } from "../utils/errorHandler";
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+import {
+  StudentImportService,
+  StudentImportFileError,
+} from "../services/studentImportService";
+import {
+  StudentAccountService,
+  StudentAccountConflictError,
+  CREDENTIAL_MODES,
+} from "../services/studentAccountService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -125,6 +135,7 @@ router.get(
           userId: true,
           createdAt: true,
           updatedAt: true,
+          user: { select: { id: true, setupTokenExpiresAt: true } },
           seats: {
             include: {
               room: { include: { building: true } },
@@ -152,6 +163,10 @@ router.post(
       .withMessage("A valid branch is required."),
     body("tags").isArray(),
     body("accessibilityNeeds").isArray(),
+    body("provisionAccount")
+      .optional()
+      .isIn(CREDENTIAL_MODES)
+      .withMessage("provisionAccount must be password or setupToken"),
   ],
   async (req: AuthRequest, res: Response) => {
     const errors = validationResult(req);
@@ -159,17 +174,156 @@ router.post(
       return res.status(400).json({ errors: errors.array() });
     }
     try {
-      const studentData = req.body;
-      const newStudent = await prisma.student.create({
-        data: studentData,
+      const { name, email, branch, tags, accessibilityNeeds, provisionAccount } =
+        req.body;
+
+      // Optionally create the student's login alongside the profile
+      const prepared = provisionAccount
+        ? await StudentAccountService.prepareCredentials(provisionAccount)
+        : null;
+
+      const newStudent = await prisma.$transaction(async (tx) => {
+        const student = await tx.student.create({
+          data: { name, email, branch, tags, accessibilityNeeds },
+        });
+        if (!prepared) return student;
+
+        const credentials = await StudentAccountService.applyCredentials(
+          tx,
+          student,
+          prepared
+        );
+        const linked = await tx.student.findUnique({
+          where: { id: student.id },
+        });
+        return { ...linked, credentials };
       });
       res.status(201).json(newStudent);
     } catch (error) {
+      if (error instanceof StudentAccountConflictError) {
+        return sendError(res, 400, ErrorCode.EMAIL_IN_USE, error.message);
+      }
       res.status(500).json({ error: "Failed to create student" });
     }
   }
 );
 
+// POST /api/students/import - Bulk create/update students from a CSV or XLSX file
+router.post(
+  "/import",
+  authenticateToken,
+  requireAdmin,
+  [
+    body("format")
+      .isIn(["csv", "xlsx"])
+      .withMessage("Format must be csv or xlsx"),
+    body("content")
+      .isString()
+      .notEmpty()
+      .withMessage("File content is required"),
+    body("dryRun").optional().isBoolean(),
+    body("provisionAccounts")
+      .optional()
+      .isIn(CREDENTIAL_MODES)
+      .withMessage("provisionAccounts must be password or setupToken"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const { format, content, dryRun = false, provisionAccounts } = req.body;
+      const report = await StudentImportService.importStudents(
+        format,
+        content,
+        dryRun,
+        provisionAccounts
+      );
+
+      if (!dryRun && report.valid > 0) {
+        await AuditLogService.record({
+          actor: req.user,
+          action: AuditAction.STUDENTS_IMPORTED,
+          entityType: "Student",
+          after: {
+            created: report.created,
+            updated: report.updated,
+            skipped: report.invalid,
+            accountsProvisioned: report.credentials?.length ?? 0,
+            emails: report.rows
+              .filter((row) => row.action !== "skip")
+              .map((row) => row.email),
+          },
+        });
+      }
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof StudentImportFileError) {
+        return sendError(res, 400, ErrorCode.INVALID_IMPORT_FILE, error.message);
+      }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
+// POST /api/students/:id/credentials - Issue or reissue a student's login (admin only)
+router.post(
+  "/:id/credentials",
+  authenticateToken,
+  requireAdmin,
+  [
+    param("id").isString().notEmpty(),
+    body("mode")
+      .isIn(CREDENTIAL_MODES)
+      .withMessage("Mode must be password or setupToken"),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return sendValidationError(res, errors.array());
+    }
+
+    try {
+      const student = await prisma.student.findUnique({
+        where: { id: req.params.id },
+        include: { user: { select: { id: true } } },
+      });
+
+      if (!student) {
+        return sendError(res, 404, ErrorCode.STUDENT_NOT_FOUND);
+      }
+
+      const credentials = await StudentAccountService.issueCredentials(
+        student,
+        req.body.mode
+      );
+
+      // Never snapshot the credential itself
+      await AuditLogService.record({
+        actor: req.user,
+        action: AuditAction.STUDENT_CREDENTIALS_ISSUED,
+        entityType: "Student",
+        entityId: student.id,
+        after: {
+          email: student.email,
+          mode: credentials.mode,
+          reissued: !!student.user,
+        },
+      });
+
+      res.json(credentials);
+    } catch (error) {
+      if (error instanceof StudentAccountConflictError) {
+        return sendError(res, 400, ErrorCode.EMAIL_IN_USE, error.message);
+      }
+      return handleUnexpectedError(error, res);
+    }
+  }
+);
+
 // PUT /api/students/:id - Update student (name field read-only, admin only)
 router.put(
   "/:id",
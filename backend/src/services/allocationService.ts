@@ -1,4 +1,5 @@
-import { PrismaClient, Seat, Student, SeatStatus, Branch, Room } from '../../generated/prisma/client';
+import { PrismaClient, Prisma, Seat, Student, SeatStatus, Branch, Room, AllocationBatchStatus } from '../../generated/prisma/client';
+import { AllocationStrategyName, getAllocationStrategy, selectBestSeat } from './allocationStrategies';
 
 const prisma = new PrismaClient();
 
@@ -11,6 +12,59 @@ export interface AllocationResult {
   branchAllocated?: string;
   availableSeatsAfterAllocation?: number;
   roomsAllocated?: number;
+  strategy?: AllocationStrategyName;
+  durationMs?: number;
+  batchId?: string;
+}
+
+export interface AllocationOptions {
+  dryRun?: boolean;
+  strategy?: AllocationStrategyName;
+}
+
+export interface PlannedAssignment {
+  studentId: string;
+  studentName: string;
+  seatId: string;
+  seatLabel: string;
+  seatVersion: number;
+  roomId: string;
+}
+
+export interface AllocationPlan {
+  branch: Branch;
+  buildingId?: string;
+  roomId?: string;
+  assignments: PlannedAssignment[];
+}
+
+export interface PlanConflict extends PlannedAssignment {
+  reason: string;
+  currentSeat?: { status: SeatStatus; version: number; studentId: string | null };
+}
+
+export interface BatchConflict {
+  seatId: string;
+  seatLabel: string;
+  studentId: string;
+  roomId: string;
+  reason: string;
+  currentSeat?: { status: SeatStatus; version: number; studentId: string | null };
+}
+
+export interface RollbackResult {
+  batchId: string;
+  releasedCount: number;
+  affectedRoomIds: string[];
+}
+
+export interface RebalanceResult {
+  reallocatedCount: number;
+  newlyAllocatedCount: number;
+  roomsFreed: number;
+  stillUnassignedCount: number;
+  stillUnassigned: { student: Student; reason: string }[];
+  affectedRoomIds: string[];
 }
 
 export interface ReallocationResult {
@@ -22,58 +76,6 @@ export interface ReallocationResult {
 
 export class AllocationService {
 
-  /**
-   * Helper function to select the best seat for a student based on their accessibility needs
-   */
-  private static selectBestSeat(
-    student: Student,
-    suitableSeats: any[],
-    availableSeats: any[]
-  ): any | null {
-    if (suitableSeats.length === 0) return null;
-
-    if (student.accessibilityNeeds.includes('aisle_seat')) {
-      // Get room info to determine max columns
-      const sampleSeat = suitableSeats[0];
-      const roomSeats = availableSeats.filter(s => s.roomId === sampleSeat.roomId);
-      const maxCol = Math.max(...roomSeats.map(s => s.col));
-      
-      // Prioritize corner seats: col 0 (leftmost) or maxCol (rightmost)
-      const cornerSeats = suitableSeats.filter(seat => seat.col === 0 || seat.col === maxCol);
-      
-      if (cornerSeats.length > 0) {
-        // Prefer leftmost corner, then rightmost
-        return cornerSeats.find(seat => seat.col === 0) || cornerSeats[0];
-      } else {
-        // If no corner seats available, take any aisle seat
-        return suitableSeats[0];
-      }
-    } else if (student.accessibilityNeeds.includes('middle_seat')) {
-      // For middle seat preference, prioritize seats with occupied neighbors
-      const seatsWithOccupiedNeighbors = suitableSeats.filter(seat => {
-        // Get all seats in the same room and row
-        const allSeatsInRoom = availableSeats.filter(s => s.roomId === seat.roomId);
-        const occupiedSeatsInRow = allSeatsInRoom.filter(s => 
-          s.row === seat.row && s.status === SeatStatus.Allocated
-        );
-        
-        // Check if there are occupied seats adjacent to this seat
-        const hasLeftNeighbor = occupiedSeatsInRow.some(s => s.col === seat.col - 1);
-        const hasRightNeighbor = occupiedSeatsInRow.some(s => s.col === seat.col + 1);
-        
-        return hasLeftNeighbor || hasRightNeighbor;
-      });
-      
-      // Prefer seats with occupied neighbors, otherwise take any middle seat
-      return seatsWithOccupiedNeighbors.length > 0 
-        ? seatsWithOccupiedNeighbors[0] 
-        : suitableSeats[0];
-    } else {
-      // For non-aisle, non-middle students, take the first suitable seat
-      return suitableSeats[0];
-    }
-  }
-
   static async reallocateStudent(studentId: string, buildingId: string, roomId: string): Promise<ReallocationResult> {
     const maxRetries = 3;
     let attempt = 0;
@@ -109,7 +111,7 @@ export class AllocationService {
         );
 
         // Use helper to select the best seat
-        const suitableSeat = this.selectBestSeat(student, suitableSeats, availableSeats);
+        const suitableSeat = selectBestSeat(student, suitableSeats, availableSeats);
 
         if (!suitableSeat) {
           return { success: false, student, message: 'No suitable seats available for reallocation in this building.' };
@@ -183,8 +185,64 @@ export class AllocationService {
     return { success: false, student: null, message: 'Reallocation failed after multiple retries' };
   }
 
-  static async allocateBranchToBuilding(branch: Branch, buildingId: string): Promise<{ summary: AllocationResult }> {
-    console.log(`Starting allocation for branch ${branch} to building ${buildingId}`);
+  private static toPlan(
+    branch: Branch,
+    target: { buildingId?: string; roomId?: string },
+    assignments: { student: Student; seat: any }[]
+  ): AllocationPlan {
+    return {
+      branch,
+      ...target,
+      assignments: assignments.map(({ student, seat }) => ({
+        studentId: student.id,
+        studentName: student.name,
+        seatId: seat.id,
+        seatLabel: seat.label,
+        seatVersion: seat.version,
+        roomId: seat.roomId
+      }))
+    };
+  }
+
+  /**
+   * Records the seats an allocation run wrote so the run can be rolled back
+   * as a unit. seatVersion is the version each seat has after the run.
+   */
+  private static async recordBatch(
+    tx: Prisma.TransactionClient,
+    plan: AllocationPlan,
+    strategy: AllocationStrategyName | undefined,
+    branchAssignedRooms: string[]
+  ): Promise<string | undefined> {
+    if (plan.assignments.length === 0) return undefined;
+
+    const batch = await tx.allocationBatch.create({
+      data: {
+        branch: plan.branch,
+        buildingId: plan.buildingId,
+        roomId: plan.roomId,
+        strategy,
+        branchAssignedRooms,
+        seats: {
+          create: plan.assignments.map(a => ({
+            seatId: a.seatId,
+            studentId: a.studentId,
+            roomId: a.roomId,
+            seatLabel: a.seatLabel,
+            seatVersion: a.seatVersion + 1
+          }))
+        }
+      }
+    });
+    return batch.id;
+  }
+
+  static async allocateBranchToBuilding(
+    branch: Branch,
+    buildingId: string,
+    options: AllocationOptions = {}
+  ): Promise<{ summary: AllocationResult; plan: AllocationPlan }> {
+    console.log(`Starting ${options.dryRun ? 'preview' : 'allocation'} for branch ${branch} to building ${buildingId}`);
     // Use a single transaction for the entire allocation to prevent race conditions
     return await prisma.$transaction(async (tx) => {
       // 1. Fetch only students of the specified branch who are currently unallocated.
@@ -213,15 +271,21 @@ export class AllocationService {
 
       // If there are no students to allocate or no eligible rooms, exit early.
       if (studentsToAllocate.length === 0) {
-        return { summary: { allocatedCount: 0, unallocatedCount: 0, unallocatedStudents: [], affectedRoomIds: [] } };
+        return {
+          summary: { allocatedCount: 0, unallocatedCount: 0, unallocatedStudents: [], affectedRoomIds: [] },
+          plan: this.toPlan(branch, { buildingId }, [])
+        };
       }
       if (eligibleRoomIds.length === 0) {
-        return { summary: {
-          allocatedCount: 0,
-          unallocatedCount: studentsToAllocate.length,
-          unallocatedStudents: studentsToAllocate.map(s => ({ student: s, reason: "No rooms available in the building for this branch." })),
-          affectedRoomIds: []
-        }};
+        return {
+          summary: {
+            allocatedCount: 0,
+            unallocatedCount: studentsToAllocate.length,
+            unallocatedStudents: studentsToAllocate.map(s => ({ student: s, reason: "No rooms available in the building for this branch." })),
+            affectedRoomIds: []
+          },
+          plan: this.toPlan(branch, { buildingId }, [])
+        };
       }
       
       // 3. Fetch all available seats in the eligible rooms with FOR UPDATE lock
@@ -233,32 +297,29 @@ export class AllocationService {
         orderBy: [{ roomId: 'asc' }, { row: 'asc' }, { col: 'asc' }]
       });
       console.log(`Found ${availableSeats.length} available seats in eligible rooms`);
-      
-      let allocatedCount = 0;
-      const unallocatedStudents: { student: Student; reason: string }[] = [];
-      let seatsInUse = [...availableSeats];
-      const affectedRoomIds: string[] = [];
-      const roomVersions = new Map(eligibleRooms.map(r => [r.id, r.version]));
-
-      const priorityStudents = studentsToAllocate.filter(s => s.accessibilityNeeds.length > 0);
-      const otherStudents = studentsToAllocate.filter(s => s.accessibilityNeeds.length === 0);
 
-      // 4. Loop through students and assign them to seats.
-      for (const student of [...priorityStudents, ...otherStudents]) {
-        // Find all suitable seats that match accessibility needs
-        const suitableSeats = seatsInUse.filter(seat =>
-          student.accessibilityNeeds.every(need => seat.features.includes(need))
-        );
+      // 4. Decide every student's seat up front.
+      const strategy = getAllocationStrategy(options.strategy);
+      const startedAt = Date.now();
+      const { assignments, unassigned, remainingSeats } = strategy.assign(studentsToAllocate, availableSeats);
+      const durationMs = Date.now() - startedAt;
+      const unallocatedStudents = unassigned.map(student => ({ student, reason: 'No suitable seats available in the building.' }));
+      const affectedRoomIds: string[] = [];
+      for (const { seat } of assignments) {
+        if (!affectedRoomIds.includes(seat.roomId)) {
+          affectedRoomIds.push(seat.roomId);
+        }
+      }
 
-        // Use helper to select the best seat
-        const selectedSeat = this.selectBestSeat(student, suitableSeats, availableSeats);
+      // 5. Persist the assignments unless this is a preview.
+      const plan = this.toPlan(branch, { buildingId }, assignments);
+      let batchId: string | undefined;
+      if (!options.dryRun) {
+        const roomVersions = new Map(eligibleRooms.map(r => [r.id, r.version]));
+        const branchAssignedRooms: string[] = [];
 
-        const suitableSeatIndex = selectedSeat ? seatsInUse.findIndex(s => s.id === selectedSeat.id) : -1;
-        
-        if (suitableSeatIndex > -1) {
-          const seatToAllocate = seatsInUse.splice(suitableSeatIndex, 1)[0];
+        for (const { student, seat: seatToAllocate } of assignments) {
           const roomForSeat = eligibleRooms.find(r => r.id === seatToAllocate.roomId);
-
           if (!roomForSeat) continue;
 
           // Update seat with version check
@@ -292,21 +353,16 @@ export class AllocationService {
           roomVersions.set(roomForSeat.id, currentRoomVersion + 1);
           if (!roomForSeat.branchAllocated) {
             roomForSeat.branchAllocated = branch;
+            branchAssignedRooms.push(roomForSeat.id);
           }
-
-          // Track affected room
-          if (!affectedRoomIds.includes(roomForSeat.id)) {
-            affectedRoomIds.push(roomForSeat.id);
-          }
-
-          allocatedCount++;
-        } else {
-          unallocatedStudents.push({ student, reason: 'No suitable seats available in the building.' });
         }
+
+        batchId = await this.recordBatch(tx, plan, strategy.name, branchAssignedRooms);
       }
 
       // Calculate available seats after allocation in affected rooms
-      const availableSeatsAfterAllocation = seatsInUse.length;
+      const availableSeatsAfterAllocation = remainingSeats.length;
+      const allocatedCount = assignments.length;
 
       const summary: AllocationResult = {
         allocatedCount,
@@ -315,11 +371,14 @@ export class AllocationService {
         affectedRoomIds,
         branchAllocated: branch,
         availableSeatsAfterAllocation,
-        roomsAllocated: affectedRoomIds.length
+        roomsAllocated: affectedRoomIds.length,
+        strategy: strategy.name,
+        durationMs,
+        batchId
       };
 
-      console.log(`Allocation complete: ${allocatedCount} allocated, ${unallocatedStudents.length} unallocated, ${affectedRoomIds.length} rooms affected, ${availableSeatsAfterAllocation} seats available`);
-      return { summary };
+      console.log(`Allocation ${options.dryRun ? 'preview' : 'complete'}: ${allocatedCount} allocated, ${unallocatedStudents.length} unallocated, ${affectedRoomIds.length} rooms affected, ${availableSeatsAfterAllocation} seats available`);
+      return { summary, plan };
     }, {
       maxWait: 10000, // Maximum time to wait for a transaction slot
       timeout: 30000, // Maximum time for the transaction to complete
@@ -327,8 +386,12 @@ export class AllocationService {
     });
   }
 
-  static async allocateBranchToRoom(branch: Branch, roomId: string): Promise<{ summary: AllocationResult }> {
-    console.log(`Starting allocation for branch ${branch} to room ${roomId}`);
+  static async allocateBranchToRoom(
+    branch: Branch,
+    roomId: string,
+    options: AllocationOptions = {}
+  ): Promise<{ summary: AllocationResult; plan: AllocationPlan }> {
+    console.log(`Starting ${options.dryRun ? 'preview' : 'allocation'} for branch ${branch} to room ${roomId}`);
     // Use a single transaction for the entire allocation to prevent race conditions
     return await prisma.$transaction(async (tx) => {
       // 1. Check if the room exists and validate branch allocation
@@ -356,7 +419,10 @@ export class AllocationService {
 
       // If there are no students to allocate, exit early.
       if (studentsToAllocate.length === 0) {
-        return { summary: { allocatedCount: 0, unallocatedCount: 0, unallocatedStudents: [], affectedRoomIds: [] } };
+        return {
+          summary: { allocatedCount: 0, unallocatedCount: 0, unallocatedStudents: [], affectedRoomIds: [] },
+          plan: this.toPlan(branch, { roomId }, [])
+        };
       }
 
       // 3. Fetch all available seats in the room.
@@ -370,40 +436,34 @@ export class AllocationService {
       console.log(`Found ${availableSeats.length} available seats in room ${roomId}`);
 
       if (availableSeats.length === 0) {
-        return { summary: {
-          allocatedCount: 0,
-          unallocatedCount: studentsToAllocate.length,
-          unallocatedStudents: studentsToAllocate.map(s => ({ student: s, reason: "No available seats in the room." })),
-          affectedRoomIds: []
-        }};
+        return {
+          summary: {
+            allocatedCount: 0,
+            unallocatedCount: studentsToAllocate.length,
+            unallocatedStudents: studentsToAllocate.map(s => ({ student: s, reason: "No available seats in the room." })),
+            affectedRoomIds: []
+          },
+          plan: this.toPlan(branch, { roomId }, [])
+        };
       }
 
-      let allocatedCount = 0;
-      const unallocatedStudents: { student: Student; reason: string }[] = [];
-      let seatsInUse = [...availableSeats];
+      // 4. Decide every student's seat up front.
+      const strategy = getAllocationStrategy(options.strategy);
+      const startedAt = Date.now();
+      const { assignments, unassigned, remainingSeats } = strategy.assign(studentsToAllocate, availableSeats);
+      const durationMs = Date.now() - startedAt;
+      const unallocatedStudents = unassigned.map(student => ({ student, reason: 'No suitable seats available in the room.' }));
       const affectedRoomIds: string[] = [roomId];
-      let currentRoomVersion = room.version;
-      // Track if we need to set branchAllocated (only if room wasn't already allocated to this branch)
-      let needsInitialBranchAllocation = !room.branchAllocated;
-
-      const priorityStudents = studentsToAllocate.filter(s => s.accessibilityNeeds.length > 0);
-      const otherStudents = studentsToAllocate.filter(s => s.accessibilityNeeds.length === 0);
-
-      // 4. Loop through students and assign them to seats.
-      for (const student of [...priorityStudents, ...otherStudents]) {
-        // Find all suitable seats that match accessibility needs
-        const suitableSeats = seatsInUse.filter(seat =>
-          student.accessibilityNeeds.every(need => seat.features.includes(need))
-        );
-
-        // Use helper to select the best seat
-        const selectedSeat = this.selectBestSeat(student, suitableSeats, availableSeats);
 
-        const suitableSeatIndex = selectedSeat ? seatsInUse.findIndex(s => s.id === selectedSeat.id) : -1;
-
-        if (suitableSeatIndex > -1) {
-          const seatToAllocate = seatsInUse.splice(suitableSeatIndex, 1)[0];
+      // 5. Persist the assignments unless this is a preview.
+      const plan = this.toPlan(branch, { roomId }, assignments);
+      let batchId: string | undefined;
+      if (!options.dryRun) {
+        let currentRoomVersion = room.version;
+        // Track if we need to set branchAllocated (only if room wasn't already allocated to this branch)
+        let needsInitialBranchAllocation = !room.branchAllocated;
 
+        for (const { student, seat: seatToAllocate } of assignments) {
           // Update seat with version check
           await tx.seat.update({
             where: { 
@@ -438,14 +498,14 @@ export class AllocationService {
           });
 
           currentRoomVersion++;
-          allocatedCount++;
-        } else {
-          unallocatedStudents.push({ student, reason: 'No suitable seats available in the room.' });
         }
+
+        batchId = await this.recordBatch(tx, plan, strategy.name, room.branchAllocated ? [] : [roomId]);
       }
 
       // Calculate available seats after allocation in the room
-      const availableSeatsAfterAllocation = seatsInUse.length;
+      const availableSeatsAfterAllocation = remainingSeats.length;
+      const allocatedCount = assignments.length;
 
       const summary: AllocationResult = {
         allocatedCount,
@@ -454,10 +514,126 @@ export class AllocationService {
         affectedRoomIds,
         branchAllocated: branch,
         availableSeatsAfterAllocation,
-        roomsAllocated: 1
+        roomsAllocated: 1,
+        strategy: strategy.name,
+        durationMs,
+        batchId
+      };
+
+      console.log(`Room allocation ${options.dryRun ? 'preview' : 'complete'}: ${allocatedCount} allocated, ${unallocatedStudents.length} unallocated, ${availableSeatsAfterAllocation} seats available`);
+      return { summary, plan };
+    }, {
+      maxWait: 10000,
+      timeout: 30000,
+      isolationLevel: 'Serializable'
+    });
+  }
+
+  /**
+   * Applies a plan produced by a preview run exactly as proposed. Every seat
+   * must still be available at the version the preview saw, every student
+   * must still be unseated and every room must still accept the branch;
+   * otherwise nothing is written and a PLAN_CONFLICT error listing each
+   * stale assignment is thrown. A plan that names a student or a seat twice
+   * is malformed rather than stale and fails with INVALID_PLAN.
+   */
+  static async commitAllocationPlan(plan: AllocationPlan): Promise<{ summary: AllocationResult }> {
+    console.log(`Committing allocation plan for branch ${plan.branch} with ${plan.assignments.length} assignments`);
+    const seatIds = plan.assignments.map(a => a.seatId);
+    const studentIds = plan.assignments.map(a => a.studentId);
+
+    const duplicates = (ids: string[]) => [...new Set(ids.filter((id, index) => ids.indexOf(id) !== index))];
+    const duplicateStudentIds = duplicates(studentIds);
+    const duplicateSeatIds = duplicates(seatIds);
+    if (duplicateStudentIds.length > 0 || duplicateSeatIds.length > 0) {
+      const error: any = new Error('INVALID_PLAN');
+      error.duplicateStudentIds = duplicateStudentIds;
+      error.duplicateSeatIds = duplicateSeatIds;
+      throw error;
+    }
+
+    return await prisma.$transaction(async (tx) => {
+
+      const seats = await tx.seat.findMany({ where: { id: { in: seatIds } } });
+      const students = await tx.student.findMany({
+        where: { id: { in: studentIds } },
+        include: { seats: { select: { id: true } } }
+      });
+      const rooms = await tx.room.findMany({
+        where: { id: { in: [...new Set(plan.assignments.map(a => a.roomId))] } }
+      });
+
+      const conflicts: PlanConflict[] = [];
+      for (const assignment of plan.assignments) {
+        const seat = seats.find(s => s.id === assignment.seatId);
+        const student = students.find(s => s.id === assignment.studentId);
+        const room = rooms.find(r => r.id === assignment.roomId);
+
+        if (!seat || seat.roomId !== assignment.roomId) {
+          conflicts.push({ ...assignment, reason: 'Seat no longer exists in this room.' });
+        } else if (seat.version !== assignment.seatVersion || seat.status !== SeatStatus.Available) {
+          conflicts.push({ ...assignment, reason: 'Seat was modified since the preview.', currentSeat: { status: seat.status, version: seat.version, studentId: seat.studentId } });
+        } else if (!student) {
+          conflicts.push({ ...assignment, reason: 'Student no longer exists.' });
+        } else if (student.seats.length > 0) {
+          conflicts.push({ ...assignment, reason: 'Student has been allocated a seat since the preview.' });
+        } else if (student.branch !== plan.branch) {
+          conflicts.push({ ...assignment, reason: `Student belongs to ${student.branch}, not ${plan.branch}.` });
+        } else if (!room || (room.branchAllocated && room.branchAllocated !== plan.branch)) {
+          conflicts.push({ ...assignment, reason: `Room is now allocated to ${room?.branchAllocated ?? 'an unknown branch'}.` });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        const error: any = new Error('PLAN_CONFLICT');
+        error.conflicts = conflicts;
+        throw error;
+      }
+
+      for (const assignment of plan.assignments) {
+        await tx.seat.update({
+          where: { id: assignment.seatId, version: assignment.seatVersion },
+          data: { status: SeatStatus.Allocated, studentId: assignment.studentId, version: { increment: 1 } }
+        });
+      }
+
+      const claimedByRoom = new Map<string, number>();
+      for (const assignment of plan.assignments) {
+        claimedByRoom.set(assignment.roomId, (claimedByRoom.get(assignment.roomId) || 0) + 1);
+      }
+      for (const room of rooms) {
+        await tx.room.update({
+          where: { id: room.id, version: room.version },
+          data: {
+            branchAllocated: room.branchAllocated || plan.branch,
+            claimed: { increment: claimedByRoom.get(room.id) || 0 },
+            version: { increment: 1 }
+          }
+        });
+      }
+
+      const batchId = await this.recordBatch(
+        tx,
+        plan,
+        undefined,
+        rooms.filter(r => !r.branchAllocated).map(r => r.id)
+      );
+
+      const stillUnallocated = await tx.student.findMany({
+        where: { branch: plan.branch, seats: { none: {} } }
+      });
+
+      const summary: AllocationResult = {
+        allocatedCount: plan.assignments.length,
+        unallocatedCount: stillUnallocated.length,
+        unallocatedStudents: stillUnallocated.map(student => ({ student, reason: 'Not part of the committed plan.' })),
+        affectedRoomIds: rooms.map(r => r.id),
+        branchAllocated: plan.branch,
+        roomsAllocated: rooms.length,
+        batchId
       };
 
-      console.log(`Room allocation complete: ${allocatedCount} allocated, ${unallocatedStudents.length} unallocated, ${availableSeatsAfterAllocation} seats available`);
+      console.log(`Allocation plan committed: ${summary.allocatedCount} allocated across ${rooms.length} rooms`);
       return { summary };
     }, {
       maxWait: 10000,
@@ -465,4 +641,357 @@ export class AllocationService {
       isolationLevel: 'Serializable'
     });
   }
+
+  static async listAllocationBatches(limit = 20) {
+    return prisma.allocationBatch.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { _count: { select: { seats: true } } }
+    });
+  }
+
+  /**
+   * Undoes an allocation batch. Every seat the batch wrote must still hold
+   * the same student at the version the batch left it at; otherwise nothing
+   * is written and a ROLLBACK_CONFLICT error listing each changed seat is
+   * thrown. Rooms the batch assigned to the branch are released again once
+   * they are empty.
+   */
+  static async rollbackAllocationBatch(batchId: string): Promise<RollbackResult> {
+    console.log(`Rolling back allocation batch ${batchId}`);
+    return await prisma.$transaction(async (tx) => {
+      const batch = await tx.allocationBatch.findUnique({
+        where: { id: batchId },
+        include: { seats: true }
+      });
+      if (!batch) {
+        throw new Error('BATCH_NOT_FOUND');
+      }
+      if (batch.status === AllocationBatchStatus.RolledBack) {
+        throw new Error('BATCH_ALREADY_ROLLED_BACK');
+      }
+
+      const seats = await tx.seat.findMany({ where: { id: { in: batch.seats.map(s => s.seatId) } } });
+
+      const conflicts: BatchConflict[] = [];
+      for (const batchSeat of batch.seats) {
+        const seat = seats.find(s => s.id === batchSeat.seatId);
+        const { seatId, seatLabel, studentId, roomId } = batchSeat;
+
+        if (!seat) {
+          conflicts.push({ seatId, seatLabel, studentId, roomId, reason: 'Seat no longer exists.' });
+        } else if (seat.status !== SeatStatus.Allocated || seat.studentId !== studentId) {
+          conflicts.push({ seatId, seatLabel, studentId, roomId, reason: 'Seat no longer holds the student this batch placed there.', currentSeat: { status: seat.status, version: seat.version, studentId: seat.studentId } });
+        } else if (seat.version !== batchSeat.seatVersion) {
+          conflicts.push({ seatId, seatLabel, studentId, roomId, reason: 'Seat was modified after the allocation.', currentSeat: { status: seat.status, version: seat.version, studentId: seat.studentId } });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        const error: any = new Error('ROLLBACK_CONFLICT');
+        error.conflicts = conflicts;
+        throw error;
+      }
+
+      for (const batchSeat of batch.seats) {
+        await tx.seat.update({
+          where: { id: batchSeat.seatId, version: batchSeat.seatVersion },
+          data: { status: SeatStatus.Available, studentId: null, version: { increment: 1 } }
+        });
+      }
+
+      const releasedByRoom = new Map<string, number>();
+      for (const batchSeat of batch.seats) {
+        releasedByRoom.set(batchSeat.roomId, (releasedByRoom.get(batchSeat.roomId) || 0) + 1);
+      }
+      const rooms = await tx.room.findMany({ where: { id: { in: [...releasedByRoom.keys()] } } });
+      for (const room of rooms) {
+        const released = releasedByRoom.get(room.id) || 0;
+        const emptied = room.claimed - released <= 0;
+        await tx.room.update({
+          where: { id: room.id, version: room.version },
+          data: {
+            claimed: Math.max(room.claimed - released, 0),
+            version: { increment: 1 },
+            ...(emptied && batch.branchAssignedRooms.includes(room.id) ? { branchAllocated: null } : {})
+          }
+        });
+      }
+
+      await tx.allocationBatch.update({
+        where: { id: batch.id },
+        data: { status: AllocationBatchStatus.RolledBack, rolledBackAt: new Date() }
+      });
+
+      console.log(`Allocation batch ${batchId} rolled back: ${batch.seats.length} seats released across ${rooms.length} rooms`);
+      return { batchId: batch.id, releasedCount: batch.seats.length, affectedRoomIds: rooms.map(r => r.id) };
+    }, {
+      maxWait: 10000,
+      timeout: 30000,
+      isolationLevel: 'Serializable'
+    });
+  }
+
+  /**
+   * Picks the building a branch should be allocated to.
+   * A branch that already holds rooms stays in that building; otherwise the
+   * building whose free (unallocated) rooms fit the branch most tightly wins,
+   * falling back to the building with the most free seats.
+   */
+  private static async chooseBuildingForBranch(branch: Branch, studentCount: number): Promise<string | null> {
+    const homeRoom = await prisma.room.findFirst({
+      where: { branchAllocated: branch },
+      select: { buildingId: true }
+    });
+    if (homeRoom) {
+      return homeRoom.buildingId;
+    }
+
+    const freeRooms = await prisma.room.findMany({
+      where: { branchAllocated: null },
+      select: {
+        buildingId: true,
+        _count: { select: { seats: { where: { status: SeatStatus.Available } } } }
+      }
+    });
+
+    const freeSeatsByBuilding = new Map<string, number>();
+    for (const room of freeRooms) {
+      freeSeatsByBuilding.set(room.buildingId, (freeSeatsByBuilding.get(room.buildingId) || 0) + room._count.seats);
+    }
+
+    const candidates = [...freeSeatsByBuilding.entries()].filter(([, free]) => free > 0);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const fitting = candidates.filter(([, free]) => free >= studentCount).sort((a, b) => a[1] - b[1]);
+    if (fitting.length > 0) {
+      return fitting[0][0];
+    }
+    return candidates.sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  /**
+   * Allocates every unallocated student on campus, branch by branch.
+   * Each branch is kept inside a single building (the same rule
+   * eligible-branches enforces), largest branches are placed first.
+   */
+  static async allocateAllBranches(
+    options: Pick<AllocationOptions, 'strategy'> = {}
+  ): Promise<{ summary: AllocationResult }> {
+    const pendingByBranch = await prisma.student.groupBy({
+      by: ['branch'],
+      where: { seats: { none: {} } },
+      _count: { _all: true }
+    });
+    const branchesBySize = pendingByBranch
+      .filter(b => b._count._all > 0)
+      .sort((a, b) => b._count._all - a._count._all);
+    console.log(`Starting campus allocation for ${branchesBySize.length} branches`);
+
+    let allocatedCount = 0;
+    let durationMs = 0;
+    const unallocatedStudents: { student: Student; reason: string }[] = [];
+    const affectedRoomIds: string[] = [];
+
+    for (const { branch, _count } of branchesBySize) {
+      const buildingId = await this.chooseBuildingForBranch(branch, _count._all);
+
+      if (!buildingId) {
+        const students = await prisma.student.findMany({
+          where: { branch, seats: { none: {} } }
+        });
+        unallocatedStudents.push(...students.map(student => ({
+          student,
+          reason: 'No building has free rooms for this branch.'
+        })));
+        continue;
+      }
+
+      const { summary } = await this.allocateBranchToBuilding(branch, buildingId, { strategy: options.strategy });
+      allocatedCount += summary.allocatedCount;
+      durationMs += summary.durationMs || 0;
+      unallocatedStudents.push(...summary.unallocatedStudents);
+      for (const roomId of summary.affectedRoomIds) {
+        if (!affectedRoomIds.includes(roomId)) {
+          affectedRoomIds.push(roomId);
+        }
+      }
+    }
+
+    const usableSeats = await prisma.seat.count({ where: { status: { not: SeatStatus.Broken } } });
+    const occupiedSeats = await prisma.seat.count({ where: { status: SeatStatus.Allocated } });
+    const availableSeatsAfterAllocation = await prisma.seat.count({ where: { status: SeatStatus.Available } });
+
+    const summary: AllocationResult = {
+      allocatedCount,
+      unallocatedCount: unallocatedStudents.length,
+      unallocatedStudents,
+      utilization: usableSeats > 0 ? (occupiedSeats / usableSeats) * 100 : 0,
+      affectedRoomIds,
+      availableSeatsAfterAllocation,
+      roomsAllocated: affectedRoomIds.length,
+      strategy: getAllocationStrategy(options.strategy).name,
+      durationMs
+    };
+
+    console.log(`Campus allocation complete: ${allocatedCount} allocated, ${unallocatedStudents.length} unallocated, ${affectedRoomIds.length} rooms affected`);
+    return { summary };
+  }
+
+  /**
+   * Consolidates half-empty rooms. Within each building, students of a
+   * branch sitting in a room that is less than half full are moved into the
+   * branch's other rooms there, freeing the room for other branches. A room
+   * is only emptied if all of its students fit elsewhere, and rooms with an
+   * active booking are left alone. Remaining unallocated students are then
+   * offered the freed capacity through a campus allocation pass.
+   */
+  static async rebalanceAllocations(
+    options: Pick<AllocationOptions, 'strategy'> = {}
+  ): Promise<{ rebalanceSummary: RebalanceResult }> {
+    const branchRooms = await prisma.room.findMany({
+      where: { branchAllocated: { not: null } },
+      include: {
+        seats: { orderBy: [{ row: 'asc' }, { col: 'asc' }], include: { student: true } },
+        bookings: { where: { status: { in: ['NotStarted', 'Ongoing'] } }, select: { id: true } }
+      }
+    });
+
+    const groups = new Map<string, typeof branchRooms>();
+    for (const room of branchRooms) {
+      const key = `${room.buildingId}:${room.branchAllocated}`;
+      groups.set(key, [...(groups.get(key) || []), room]);
+    }
+
+    let reallocatedCount = 0;
+    let roomsFreed = 0;
+    const affectedRoomIds: string[] = [];
+
+    for (const rooms of groups.values()) {
+      if (rooms.length < 2) continue;
+
+      const usableSeats = (room: typeof rooms[number]) => room.seats.filter(s => s.status !== SeatStatus.Broken).length;
+      const occupancy = (room: typeof rooms[number]) => {
+        const usable = usableSeats(room);
+        return usable > 0 ? room.seats.filter(s => s.status === SeatStatus.Allocated).length / usable : 1;
+      };
+
+      const donors = rooms
+        .filter(room => room.bookings.length === 0 && occupancy(room) < 0.5)
+        .sort((a, b) => occupancy(a) - occupancy(b));
+      const emptied = new Set<string>();
+
+      for (const donor of donors) {
+        const targets = rooms
+          .filter(room => room.id !== donor.id && !emptied.has(room.id))
+          .sort((a, b) => occupancy(b) - occupancy(a));
+        // Seat preferences look at the whole room, e.g. occupied neighbours
+        const targetSeats = targets.flatMap(room => room.seats);
+        const freeSeats = targetSeats.filter(s => s.status === SeatStatus.Available);
+        const movingSeats = donor.seats.filter(s => s.status === SeatStatus.Allocated && s.student);
+
+        // Plan the moves first; only empty the room if everyone fits.
+        const remaining = [...freeSeats];
+        const moves: { from: typeof movingSeats[number]; to: typeof freeSeats[number] }[] = [];
+        const ordered = [
+          ...movingSeats.filter(s => s.student!.accessibilityNeeds.length > 0),
+          ...movingSeats.filter(s => s.student!.accessibilityNeeds.length === 0)
+        ];
+        for (const seat of ordered) {
+          const student = seat.student!;
+          const suitable = remaining.filter(target =>
+            student.accessibilityNeeds.every(need => target.features.includes(need))
+          );
+          const chosen = selectBestSeat(student, suitable, targetSeats);
+          if (!chosen) break;
+          remaining.splice(remaining.findIndex(s => s.id === chosen.id), 1);
+          moves.push({ from: seat, to: chosen });
+        }
+        if (moves.length === 0 || moves.length !== movingSeats.length) continue;
+
+        const claimedByRoom = new Map<string, number>();
+        for (const { to } of moves) {
+          claimedByRoom.set(to.roomId, (claimedByRoom.get(to.roomId) || 0) + 1);
+        }
+        const roomsGainingSeats = targets.filter(room => claimedByRoom.has(room.id));
+
+        try {
+          await prisma.$transaction(async (tx) => {
+            for (const { from, to } of moves) {
+              await tx.seat.update({
+                where: { id: from.id, version: from.version },
+                data: { status: SeatStatus.Available, studentId: null, version: { increment: 1 } }
+              });
+              await tx.seat.update({
+                where: { id: to.id, version: to.version },
+                data: { status: SeatStatus.Allocated, studentId: from.studentId, version: { increment: 1 } }
+              });
+            }
+
+            for (const room of roomsGainingSeats) {
+              await tx.room.update({
+                where: { id: room.id, version: room.version },
+                data: { claimed: { increment: claimedByRoom.get(room.id)! }, version: { increment: 1 } }
+              });
+            }
+
+            await tx.room.update({
+              where: { id: donor.id, version: donor.version },
+              data: { claimed: 0, branchAllocated: null, version: { increment: 1 } }
+            });
+          }, {
+            maxWait: 10000,
+            timeout: 30000,
+            isolationLevel: 'Serializable'
+          });
+        } catch (error: any) {
+          // Another admin touched these seats; skip this room rather than fail the whole pass.
+          if (error.code === 'P2025') {
+            console.warn(`Skipping consolidation of room ${donor.id} due to concurrent modification`);
+            continue;
+          }
+          throw error;
+        }
+
+        // Mirror the committed moves in memory so later donors see the new occupancy.
+        for (const { from, to } of moves) {
+          Object.assign(to, { status: SeatStatus.Allocated, studentId: from.studentId, version: to.version + 1 });
+          Object.assign(from, { status: SeatStatus.Available, studentId: null, version: from.version + 1 });
+        }
+        for (const room of roomsGainingSeats) {
+          room.version++;
+        }
+        emptied.add(donor.id);
+        reallocatedCount += moves.length;
+        roomsFreed++;
+        for (const roomId of [donor.id, ...moves.map(m => m.to.roomId)]) {
+          if (!affectedRoomIds.includes(roomId)) {
+            affectedRoomIds.push(roomId);
+          }
+        }
+      }
+    }
+
+    // Offer the freed rooms to anyone still without a seat.
+    const { summary } = await this.allocateAllBranches(options);
+    for (const roomId of summary.affectedRoomIds) {
+      if (!affectedRoomIds.includes(roomId)) {
+        affectedRoomIds.push(roomId);
+      }
+    }
+
+    const rebalanceSummary: RebalanceResult = {
+      reallocatedCount,
+      newlyAllocatedCount: summary.allocatedCount,
+      roomsFreed,
+      stillUnassignedCount: summary.unallocatedCount,
+      stillUnassigned: summary.unallocatedStudents,
+      affectedRoomIds
+    };
+
+    console.log(`Rebalance complete: ${reallocatedCount} moved, ${roomsFreed} rooms freed, ${summary.allocatedCount} newly allocated, ${summary.unallocatedCount} still unassigned`);
+    return { rebalanceSummary };
+  }
 }
@@ -0,0 +1,300 @@
+import { Student, SeatStatus } from '../../generated/prisma/client';
+
+export type AllocationStrategyName = 'greedy' | 'optimal';
+
+export const ALLOCATION_STRATEGIES: AllocationStrategyName[] = ['greedy', 'optimal'];
+
+export interface SeatAssignmentOutcome {
+  assignments: { student: Student; seat: any }[];
+  unassigned: Student[];
+  remainingSeats: any[];
+}
+
+/**
+ * Decides which student sits where, given students and the seats they may use.
+ * Strategies never touch the database; AllocationService persists the result.
+ */
+export interface AllocationStrategy {
+  readonly name: AllocationStrategyName;
+  assign(students: Student[], availableSeats: any[]): SeatAssignmentOutcome;
+}
+
+const POSITIONAL_FEATURES = ['front_seat', 'middle_seat', 'aisle_seat'];
+
+const seatSuits = (student: Student, seat: any): boolean =>
+  student.accessibilityNeeds.every(need => seat.features.includes(need));
+
+const neighbourKeys = (seat: any): string[] => [
+  `${seat.roomId}:${seat.row}:${seat.col - 1}`,
+  `${seat.roomId}:${seat.row}:${seat.col + 1}`
+];
+
+/**
+ * Helper function to select the best seat for a student based on their accessibility needs
+ */
+export function selectBestSeat(
+  student: Student,
+  suitableSeats: any[],
+  availableSeats: any[]
+): any | null {
+  if (suitableSeats.length === 0) return null;
+
+  if (student.accessibilityNeeds.includes('aisle_seat')) {
+    // Get room info to determine max columns
+    const sampleSeat = suitableSeats[0];
+    const roomSeats = availableSeats.filter(s => s.roomId === sampleSeat.roomId);
+    const maxCol = Math.max(...roomSeats.map(s => s.col));
+
+    // Prioritize corner seats: col 0 (leftmost) or maxCol (rightmost)
+    const cornerSeats = suitableSeats.filter(seat => seat.col === 0 || seat.col === maxCol);
+
+    if (cornerSeats.length > 0) {
+      // Prefer leftmost corner, then rightmost
+      return cornerSeats.find(seat => seat.col === 0) || cornerSeats[0];
+    } else {
+      // If no corner seats available, take any aisle seat
+      return suitableSeats[0];
+    }
+  } else if (student.accessibilityNeeds.includes('middle_seat')) {
+    // For middle seat preference, prioritize seats with occupied neighbors
+    const seatsWithOccupiedNeighbors = suitableSeats.filter(seat => {
+      // Get all seats in the same room and row
+      const allSeatsInRoom = availableSeats.filter(s => s.roomId === seat.roomId);
+      const occupiedSeatsInRow = allSeatsInRoom.filter(s =>
+        s.row === seat.row && s.status === SeatStatus.Allocated
+      );
+
+      // Check if there are occupied seats adjacent to this seat
+      const hasLeftNeighbor = occupiedSeatsInRow.some(s => s.col === seat.col - 1);
+      const hasRightNeighbor = occupiedSeatsInRow.some(s => s.col === seat.col + 1);
+
+      return hasLeftNeighbor || hasRightNeighbor;
+    });
+
+    // Prefer seats with occupied neighbors, otherwise take any middle seat
+    return seatsWithOccupiedNeighbors.length > 0
+      ? seatsWithOccupiedNeighbors[0]
+      : suitableSeats[0];
+  } else {
+    // For non-aisle, non-middle students, take the first suitable seat
+    return suitableSeats[0];
+  }
+}
+
+/**
+ * First-fit allocation: students with accessibility needs pick first, each
+ * taking the best seat still free. Fast, but an early pick can take the only
+ * seat a later student could have used.
+ */
+export class GreedyAllocationStrategy implements AllocationStrategy {
+  readonly name = 'greedy' as const;
+
+  assign(students: Student[], availableSeats: any[]): SeatAssignmentOutcome {
+    const seatsInUse = [...availableSeats];
+    const assignments: { student: Student; seat: any }[] = [];
+    const unassigned: Student[] = [];
+
+    const priorityStudents = students.filter(s => s.accessibilityNeeds.length > 0);
+    const otherStudents = students.filter(s => s.accessibilityNeeds.length === 0);
+
+    for (const student of [...priorityStudents, ...otherStudents]) {
+      // Find all suitable seats that match accessibility needs
+      const suitableSeats = seatsInUse.filter(seat => seatSuits(student, seat));
+
+      // Use helper to select the best seat
+      const selectedSeat = selectBestSeat(student, suitableSeats, availableSeats);
+      const suitableSeatIndex = selectedSeat ? seatsInUse.findIndex(s => s.id === selectedSeat.id) : -1;
+
+      if (suitableSeatIndex > -1) {
+        assignments.push({ student, seat: seatsInUse.splice(suitableSeatIndex, 1)[0] });
+      } else {
+        unassigned.push(student);
+      }
+    }
+
+    return { assignments, unassigned, remainingSeats: seatsInUse };
+  }
+}
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  reverse: number;
+}
+
+/**
+ * Optimal allocation as a min-cost max-flow over students grouped by their
+ * accessibility needs (students with identical needs are interchangeable, which
+ * keeps the graph small). The max flow seats as many students as any
+ * assignment can; among those, edge costs prefer corner seats for aisle_seat,
+ * keep special-feature seats free for students who need them, and fill seats
+ * in row order. A final swap pass gives middle_seat students an occupied
+ * neighbour where possible.
+ */
+export class OptimalAllocationStrategy implements AllocationStrategy {
+  readonly name = 'optimal' as const;
+
+  assign(students: Student[], availableSeats: any[]): SeatAssignmentOutcome {
+    const groups = new Map<string, Student[]>();
+    for (const student of students) {
+      const key = [...student.accessibilityNeeds].sort().join('|');
+      groups.set(key, [...(groups.get(key) || []), student]);
+    }
+    const groupList = [...groups.values()];
+
+    const maxColByRoom = new Map<string, number>();
+    for (const seat of availableSeats) {
+      maxColByRoom.set(seat.roomId, Math.max(maxColByRoom.get(seat.roomId) ?? 0, seat.col));
+    }
+    const occupied = new Set(
+      availableSeats.filter(s => s.status === SeatStatus.Allocated).map(s => `${s.roomId}:${s.row}:${s.col}`)
+    );
+
+    // Soft preferences dominate seat order; seat order only breaks ties.
+    const preferenceWeight = availableSeats.length + 1;
+    const edgeCost = (needs: string[], seat: any, index: number): number => {
+      let penalty = 0;
+      if (needs.includes('aisle_seat') && seat.col !== 0 && seat.col !== maxColByRoom.get(seat.roomId)) {
+        penalty++;
+      }
+      if (needs.includes('middle_seat') && !neighbourKeys(seat).some(k => occupied.has(k))) {
+        penalty++;
+      }
+      if (seat.features.some((f: string) => !needs.includes(f) && !POSITIONAL_FEATURES.includes(f))) {
+        penalty++;
+      }
+      return penalty * preferenceWeight + index;
+    };
+
+    // Node layout: source, one node per needs group, one per seat, sink.
+    const source = 0;
+    const groupNode = (g: number) => 1 + g;
+    const seatNode = (s: number) => 1 + groupList.length + s;
+    const sink = 1 + groupList.length + availableSeats.length;
+    const graph: FlowEdge[][] = Array.from({ length: sink + 1 }, () => []);
+    const addEdge = (from: number, to: number, capacity: number, cost: number) => {
+      graph[from].push({ to, capacity, cost, reverse: graph[to].length });
+      graph[to].push({ to: from, capacity: 0, cost: -cost, reverse: graph[from].length - 1 });
+    };
+
+    groupList.forEach((group, g) => {
+      addEdge(source, groupNode(g), group.length, 0);
+      const needs = group[0].accessibilityNeeds;
+      availableSeats.forEach((seat, s) => {
+        if (seatSuits(group[0], seat)) {
+          addEdge(groupNode(g), seatNode(s), 1, edgeCost(needs, seat, s));
+        }
+      });
+    });
+    availableSeats.forEach((_, s) => addEdge(seatNode(s), sink, 1, 0));
+
+    // Successive shortest augmenting paths (SPFA handles the negative residual costs).
+    while (true) {
+      const distance = new Array(graph.length).fill(Infinity);
+      const inQueue = new Array(graph.length).fill(false);
+      const previous: { node: number; edge: number }[] = new Array(graph.length);
+      distance[source] = 0;
+      const queue = [source];
+      inQueue[source] = true;
+      while (queue.length > 0) {
+        const node = queue.shift()!;
+        inQueue[node] = false;
+        graph[node].forEach((edge, e) => {
+          if (edge.capacity > 0 && distance[node] + edge.cost < distance[edge.to]) {
+            distance[edge.to] = distance[node] + edge.cost;
+            previous[edge.to] = { node, edge: e };
+            if (!inQueue[edge.to]) {
+              queue.push(edge.to);
+              inQueue[edge.to] = true;
+            }
+          }
+        });
+      }
+      if (distance[sink] === Infinity) break;
+
+      for (let node = sink; node !== source; node = previous[node].node) {
+        const edge = graph[previous[node].node][previous[node].edge];
+        edge.capacity -= 1;
+        graph[node][edge.reverse].capacity += 1;
+      }
+    }
+
+    // Read the seat chosen for each group off the saturated group→seat edges.
+    const assignments: { student: Student; seat: any }[] = [];
+    const unassigned: Student[] = [];
+    const usedSeats = new Set<number>();
+    groupList.forEach((group, g) => {
+      const seatIndexes = graph[groupNode(g)]
+        .filter(edge => edge.to !== source && edge.capacity === 0)
+        .map(edge => edge.to - seatNode(0))
+        .sort((a, b) => a - b);
+      group.forEach((student, i) => {
+        if (i < seatIndexes.length) {
+          assignments.push({ student, seat: availableSeats[seatIndexes[i]] });
+          usedSeats.add(seatIndexes[i]);
+        } else {
+          unassigned.push(student);
+        }
+      });
+    });
+
+    this.improveMiddleSeatNeighbours(assignments, occupied);
+
+    // Keep the same priority ordering the greedy strategy reports.
+    assignments.sort((a, b) =>
+      (b.student.accessibilityNeeds.length > 0 ? 1 : 0) - (a.student.accessibilityNeeds.length > 0 ? 1 : 0)
+    );
+
+    return {
+      assignments,
+      unassigned,
+      remainingSeats: availableSeats.filter((_, s) => !usedSeats.has(s))
+    };
+  }
+
+  /**
+   * Swaps seats between a middle_seat student without an occupied neighbour
+   * and another student, when both still fit and the swap gives the
+   * middle_seat student a neighbour. Bounded so it always terminates.
+   */
+  private improveMiddleSeatNeighbours(
+    assignments: { student: Student; seat: any }[],
+    preOccupied: Set<string>
+  ): void {
+    const key = (seat: any) => `${seat.roomId}:${seat.row}:${seat.col}`;
+    const taken = new Set([...preOccupied, ...assignments.map(a => key(a.seat))]);
+    const hasNeighbour = (seat: any, ignore: string) =>
+      neighbourKeys(seat).some(k => k !== ignore && taken.has(k));
+
+    for (let pass = 0; pass < 3; pass++) {
+      let improved = false;
+      for (const lonely of assignments) {
+        if (!lonely.student.accessibilityNeeds.includes('middle_seat')) continue;
+        if (hasNeighbour(lonely.seat, '')) continue;
+
+        const partner = assignments.find(other =>
+          other !== lonely &&
+          seatSuits(lonely.student, other.seat) &&
+          seatSuits(other.student, lonely.seat) &&
+          hasNeighbour(other.seat, key(lonely.seat)) &&
+          !(other.student.accessibilityNeeds.includes('middle_seat') && !hasNeighbour(lonely.seat, key(other.seat)))
+        );
+        if (partner) {
+          [lonely.seat, partner.seat] = [partner.seat, lonely.seat];
+          improved = true;
+        }
+      }
+      if (!improved) break;
+    }
+  }
+}
+
+const strategies: Record<AllocationStrategyName, AllocationStrategy> = {
+  greedy: new GreedyAllocationStrategy(),
+  optimal: new OptimalAllocationStrategy()
+};
+
+export function getAllocationStrategy(name: AllocationStrategyName = 'greedy'): AllocationStrategy {
+  return strategies[name] || strategies.greedy;
+}
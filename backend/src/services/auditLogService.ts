@@ -0,0 +1,150 @@
+import { PrismaClient, Prisma } from "../../generated/prisma/client";
+
+const prisma = new PrismaClient();
+
+export const AuditAction = {
+  SEAT_STATUS_CHANGED: "seat.status_changed",
+  SEAT_FEATURES_CHANGED: "seat.features_changed",
+  ROOM_CREATED: "room.created",
+  ROOM_UPDATED: "room.updated",
+  ROOM_DELETED: "room.deleted",
+  ROOM_SEATS_REGENERATED: "room.seats_regenerated",
+  ROOM_LAYOUT_UPDATED: "room.layout_updated",
+  ROOM_BLACKOUT_CREATED: "room.blackout_created",
+  ROOM_BLACKOUT_DELETED: "room.blackout_deleted",
+  ROOM_AMENITIES_UPDATED: "room.amenities_updated",
+  AMENITY_CREATED: "amenity.created",
+  AMENITY_UPDATED: "amenity.updated",
+  AMENITY_DELETED: "amenity.deleted",
+  BOOKING_POLICY_UPDATED: "booking_policy.updated",
+  BOOKING_POLICY_DELETED: "booking_policy.deleted",
+  LOCATION_HIERARCHY_IMPORTED: "location.hierarchy_imported",
+  LOCATION_EDGE_CREATED: "location.edge_created",
+  LOCATION_EDGE_UPDATED: "location.edge_updated",
+  LOCATION_EDGE_DELETED: "location.edge_deleted",
+  STUDENTS_IMPORTED: "student.imported",
+  STUDENT_CREDENTIALS_ISSUED: "student.credentials_issued",
+  MASTER_PASSWORD_RESET: "auth.master_password_reset",
+  ADMIN_CREATED: "admin.created",
+  ADMIN_UPDATED: "admin.updated",
+  ADMIN_DELETED: "admin.deleted",
+  BOOKING_CREATED: "booking.created",
+  BOOKING_UPDATED: "booking.updated",
+  BOOKING_CANCELLED: "booking.cancelled",
+  BOOKING_FORCE_CANCELLED: "booking.force_cancelled",
+  BOOKING_REASSIGNED: "booking.reassigned",
+  BOOKING_SERIES_CREATED: "booking.series_created",
+  BOOKING_SERIES_CANCELLED: "booking.series_cancelled",
+  BOOKING_APPROVED: "booking.approved",
+  BOOKING_REJECTED: "booking.rejected",
+} as const;
+
+export type AuditActionName = (typeof AuditAction)[keyof typeof AuditAction];
+
+export type AuditEntityType =
+  | "Seat"
+  | "Room"
+  | "User"
+  | "RoomBooking"
+  | "BookingSeries"
+  | "RoomBlackout"
+  | "Student"
+  | "Location"
+  | "Amenity"
+  | "BookingPolicy";
+
+export interface AuditActor {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface AuditEntry {
+  actor?: AuditActor;
+  action: AuditActionName;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  actorEmail?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Converts a record into plain JSON (Dates become ISO strings) so it can be
+ * stored as a snapshot.
+ */
+const toSnapshot = (value: unknown): Prisma.InputJsonValue | undefined =>
+  value === undefined || value === null
+    ? undefined
+    : JSON.parse(JSON.stringify(value));
+
+export class AuditLogService {
+  /**
+   * Stores an audit event. Failures are logged and swallowed: the mutation
+   * being audited has already happened and must not be reported as failed.
+   */
+  static async record(entry: AuditEntry): Promise<void> {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          actorId: entry.actor?.id,
+          actorEmail: entry.actor?.email,
+          actorRole: entry.actor?.role,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          before: toSnapshot(entry.before),
+          after: toSnapshot(entry.after),
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to record audit event ${entry.action}:`, error);
+    }
+  }
+
+  /**
+   * Returns audit events matching the filters, newest first.
+   */
+  static async query(filters: AuditLogFilters) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 50;
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (filters.actorId) where.actorId = filters.actorId;
+    if (filters.actorEmail) {
+      where.actorEmail = { contains: filters.actorEmail, mode: "insensitive" };
+    }
+    if (filters.entityType) where.entityType = filters.entityType;
+    if (filters.entityId) where.entityId = filters.entityId;
+    if (filters.action) where.action = filters.action;
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from ? { gte: filters.from } : {}),
+        ...(filters.to ? { lte: filters.to } : {}),
+      };
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total, page, limit };
+  }
+}
@@ -0,0 +1,125 @@
+import { PrismaClient } from "../../generated/prisma/client";
+import { AuditLogService, AuditAction, AuditActor } from "./auditLogService";
+
+const prisma = new PrismaClient();
+
+export type ReviewDecision = "approved" | "rejected";
+
+export const LAPSED_REVIEW_COMMENT =
+  "Not reviewed before the booking was due to start";
+
+const bookingInclude = {
+  room: {
+    include: {
+      building: {
+        include: {
+          block: true,
+        },
+      },
+      floor: true,
+    },
+  },
+  teacher: true,
+} as const;
+
+/**
+ * Bookings of rooms flagged `requiresApproval` are created as PendingApproval.
+ * They hold their slot like active bookings but get no students allocated
+ * until an admin approves them; rejected ones free the slot. A booking still
+ * pending when it is due to start lapses (see BookingExpirationService).
+ */
+export class BookingApprovalService {
+  /**
+   * Whether new bookings of the room wait for approval; false for unknown rooms
+   */
+  static async requiresApproval(roomId: string): Promise<boolean> {
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      select: { requiresApproval: true },
+    });
+    return room?.requiresApproval ?? false;
+  }
+
+  /**
+   * The approvals queue: upcoming pending bookings, soonest first
+   */
+  static async listPending() {
+    return prisma.roomBooking.findMany({
+      where: { status: "PendingApproval", startTime: { gt: new Date() } },
+      include: bookingInclude,
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  /**
+   * Approves or rejects a pending booking that has not started yet.
+   * @returns the reviewed booking, or null if it was no longer pending (e.g.
+   * another admin reviewed it or the teacher cancelled it meanwhile)
+   */
+  static async review(
+    bookingId: string,
+    decision: ReviewDecision,
+    comment: string | null,
+    actor?: AuditActor
+  ) {
+    const { count } = await prisma.roomBooking.updateMany({
+      where: {
+        id: bookingId,
+        status: "PendingApproval",
+        startTime: { gt: new Date() },
+      },
+      data: {
+        status: decision === "approved" ? "NotStarted" : "Rejected",
+        reviewComment: comment,
+        reviewedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const booking = await prisma.roomBooking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: bookingInclude,
+    });
+
+    await AuditLogService.record({
+      actor,
+      action:
+        decision === "approved"
+          ? AuditAction.BOOKING_APPROVED
+          : AuditAction.BOOKING_REJECTED,
+      entityType: "RoomBooking",
+      entityId: bookingId,
+      before: { status: "PendingApproval" },
+      after: { status: booking.status, reviewComment: comment },
+    });
+
+    return booking;
+  }
+
+  /**
+   * Tells the teacher that their booking was approved or rejected
+   */
+  static notifyTeacher(
+    io: any,
+    decision: ReviewDecision,
+    booking: {
+      id: string;
+      teacherId: string;
+      reviewComment: string | null;
+      teacher: { userId: string | null };
+    }
+  ): void {
+    if (!io) return;
+
+    io.emit("bookingReviewed", {
+      decision,
+      bookingId: booking.id,
+      teacherId: booking.teacherId,
+      teacherUserId: booking.teacher.userId,
+      comment: booking.reviewComment,
+      booking,
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import { PrismaClient } from "../../generated/prisma/client";
+import { TimeRange } from "./roomLockService";
+
+const prisma = new PrismaClient();
+
+/**
+ * Minutes a booking keeps the room occupied before its start (setup) and
+ * after its end (changeover)
+ */
+export interface BookingBuffers {
+  beforeMinutes: number;
+  afterMinutes: number;
+}
+
+interface BufferOverrides {
+  bufferBeforeMinutes: number | null;
+  bufferAfterMinutes: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const envMinutes = (name: string): number => {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+/**
+ * Resolves booking buffers (room, then building, then the global default from
+ * BOOKING_BUFFER_BEFORE_MINUTES / BOOKING_BUFFER_AFTER_MINUTES) and turns
+ * them into the windows used by overlap checks.
+ */
+export class BookingBufferService {
+  /**
+   * Global defaults, read on every call so tests and restarts pick up changes
+   */
+  static globalBuffers(): BookingBuffers {
+    return {
+      beforeMinutes: envMinutes("BOOKING_BUFFER_BEFORE_MINUTES"),
+      afterMinutes: envMinutes("BOOKING_BUFFER_AFTER_MINUTES"),
+    };
+  }
+
+  /**
+   * Each side is resolved on its own, so a room may override only one of them
+   */
+  static resolve(
+    room: BufferOverrides,
+    building?: BufferOverrides | null
+  ): BookingBuffers {
+    const global = this.globalBuffers();
+    return {
+      beforeMinutes:
+        room.bufferBeforeMinutes ??
+        building?.bufferBeforeMinutes ??
+        global.beforeMinutes,
+      afterMinutes:
+        room.bufferAfterMinutes ??
+        building?.bufferAfterMinutes ??
+        global.afterMinutes,
+    };
+  }
+
+  /**
+   * Buffers of a room; an unknown room gets the global defaults
+   */
+  static async forRoom(roomId: string): Promise<BookingBuffers> {
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      select: {
+        bufferBeforeMinutes: true,
+        bufferAfterMinutes: true,
+        building: {
+          select: { bufferBeforeMinutes: true, bufferAfterMinutes: true },
+        },
+      },
+    });
+
+    return room ? this.resolve(room, room.building) : this.globalBuffers();
+  }
+
+  /**
+   * The time the room is actually occupied for a booking
+   */
+  static effectiveWindow(
+    startTime: Date,
+    endTime: Date,
+    buffers: BookingBuffers
+  ): TimeRange {
+    return {
+      startTime: new Date(startTime.getTime() - buffers.beforeMinutes * MINUTE_MS),
+      endTime: new Date(endTime.getTime() + buffers.afterMinutes * MINUTE_MS),
+    };
+  }
+
+  /**
+   * Where clause matching the bookings of the same room whose effective
+   * window overlaps this slot's. Both windows carry the same buffers, so the
+   * raw slot is widened by before + after on each side.
+   */
+  static overlapWhere(
+    startTime: Date,
+    endTime: Date,
+    buffers: BookingBuffers
+  ): { startTime: { lt: Date }; endTime: { gt: Date } } {
+    const paddingMs = (buffers.beforeMinutes + buffers.afterMinutes) * MINUTE_MS;
+    return {
+      startTime: { lt: new Date(endTime.getTime() + paddingMs) },
+      endTime: { gt: new Date(startTime.getTime() - paddingMs) },
+    };
+  }
+
+  /**
+   * Whether two slots of the same room clash once buffers are applied
+   */
+  static overlaps(
+    a: TimeRange,
+    b: TimeRange,
+    buffers: BookingBuffers
+  ): boolean {
+    const paddingMs = (buffers.beforeMinutes + buffers.afterMinutes) * MINUTE_MS;
+    return (
+      a.startTime.getTime() < b.endTime.getTime() + paddingMs &&
+      a.endTime.getTime() > b.startTime.getTime() - paddingMs
+    );
+  }
+
+  /**
+   * Describes a clash caused only by the buffers, for error messages
+   */
+  static describe(buffers: BookingBuffers): string {
+    const parts = [];
+    if (buffers.beforeMinutes > 0) {
+      parts.push(`${buffers.beforeMinutes} min before`);
+    }
+    if (buffers.afterMinutes > 0) {
+      parts.push(`${buffers.afterMinutes} min after`);
+    }
+    return parts.length > 0
+      ? `This room keeps ${parts.join(" and ")} each class free.`
+      : "";
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  PrismaClient,
+  Branch,
+  BookingStatus,
+} from "../../generated/prisma/client";
+import { AuditLogService, AuditAction, AuditActor } from "./auditLogService";
+
+const prisma = new PrismaClient();
+
+export type AdminBookingAction = "created" | "cancelled" | "reassigned";
+
+const bookingInclude = {
+  room: {
+    include: {
+      building: {
+        include: {
+          block: true,
+        },
+      },
+      floor: true,
+    },
+  },
+  teacher: true,
+} as const;
+
+export class BookingCancellationService {
+  /**
+   * Frees the seats a booking's branch holds in its room. Only done while the
+   * room is allocated to that branch and no other active booking of the branch
+   * (e.g. a later occurrence of the same series) still needs the room.
+   */
+  static async releaseBranchSeats(
+    booking: { roomId: string; branch: Branch },
+    cancelledBookingIds: string[]
+  ): Promise<void> {
+    try {
+      const otherActiveBooking = await prisma.roomBooking.findFirst({
+        where: {
+          id: { notIn: cancelledBookingIds },
+          roomId: booking.roomId,
+          branch: booking.branch,
+          status: { in: ["NotStarted", "Ongoing"] },
+        },
+      });
+      if (otherActiveBooking) {
+        return;
+      }
+
+      const room = await prisma.room.findUnique({
+        where: { id: booking.roomId },
+      });
+
+      // Only deallocate if the room is currently allocated to this booking's branch
+      if (room && room.branchAllocated === booking.branch) {
+        // Find all students from this branch that are allocated to this room
+        const allocatedSeats = await prisma.seat.findMany({
+          where: {
+            roomId: booking.roomId,
+            status: "Allocated",
+            student: {
+              branch: booking.branch,
+            },
+          },
+          include: {
+            student: true,
+          },
+        });
+
+        // Deallocate all seats for students from this branch
+        if (allocatedSeats.length > 0) {
+          await prisma.$transaction(async (tx) => {
+            // Update all seats to Available and remove student assignment
+            await tx.seat.updateMany({
+              where: {
+                id: { in: allocatedSeats.map((s) => s.id) },
+              },
+              data: {
+                status: "Available",
+                studentId: null,
+              },
+            });
+
+            // Update room claimed count and clear branchAllocated
+            await tx.room.update({
+              where: { id: booking.roomId },
+              data: {
+                claimed: { decrement: allocatedSeats.length },
+                branchAllocated: null,
+              },
+            });
+          });
+
+          console.log(
+            `Deallocated ${allocatedSeats.length} students from room ${booking.roomId} after booking cancellation`
+          );
+        }
+      }
+    } catch (deallocationError) {
+      console.error("Failed to deallocate students:", deallocationError);
+      // Continue with booking deletion even if deallocation fails
+    }
+  }
+
+  /**
+   * Cancels a booking on an admin's behalf. The booking is kept with status
+   * Cancelled and the reason so the teacher can see why it was cancelled.
+   */
+  static async forceCancel(
+    booking: {
+      id: string;
+      roomId: string;
+      branch: Branch;
+      status: BookingStatus;
+    },
+    reason: string,
+    actor?: AuditActor
+  ) {
+    // Pending bookings have no students allocated yet
+    if (booking.status !== "PendingApproval") {
+      await this.releaseBranchSeats(booking, [booking.id]);
+    }
+
+    const cancelled = await prisma.roomBooking.update({
+      where: { id: booking.id },
+      data: {
+        status: "Cancelled",
+        cancelledAt: new Date(),
+        adminReason: reason,
+      },
+      include: bookingInclude,
+    });
+
+    await AuditLogService.record({
+      actor,
+      action: AuditAction.BOOKING_FORCE_CANCELLED,
+      entityType: "RoomBooking",
+      entityId: booking.id,
+      before: booking,
+      after: { status: cancelled.status, adminReason: reason },
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * Tells the affected teacher that an admin created, cancelled or moved one of
+   * their bookings.
+   */
+  static async notifyTeacherOfAdminAction(
+    io: any,
+    action: AdminBookingAction,
+    booking: { id: string; teacherId: string },
+    reason?: string,
+    details?: unknown
+  ): Promise<void> {
+    if (!io) return;
+
+    const teacher = await prisma.teacher.findUnique({
+      where: { id: booking.teacherId },
+      select: { userId: true },
+    });
+
+    io.emit("bookingAdminAction", {
+      action,
+      bookingId: booking.id,
+      teacherId: booking.teacherId,
+      teacherUserId: teacher?.userId ?? null,
+      reason: reason ?? null,
+      booking: details ?? booking,
+    });
+  }
+}
@@ -1,10 +1,41 @@
-import { PrismaClient } from "../../generated/prisma/client";
+import { randomUUID } from "crypto";
+import {
+  PrismaClient,
+  Branch,
+  BookingStatus,
+} from "../../generated/prisma/client";
 import { Server as SocketIOServer } from "socket.io";
+import {
+  BookingApprovalService,
+  LAPSED_REVIEW_COMMENT,
+} from "./bookingApprovalService";
 
 const prisma = new PrismaClient();
 
+const LEASE_NAME = "booking-lifecycle";
+const LEASE_TTL_MS = 30000;
+// Longest the scheduler sleeps, so the lease is renewed (or taken over) in
+// time and jobs added by other instances are picked up
+const MAX_IDLE_MS = 10000;
+const BATCH_SIZE = 500;
+
+const ACTIVE_STATUSES: BookingStatus[] = ["NotStarted", "Ongoing"];
+
+/**
+ * Runs booking status transitions at their startTime and endTime.
+ * Transitions: NotStarted → Ongoing → Completed, and PendingApproval →
+ * Rejected for bookings nobody reviewed before they were due to start
+ *
+ * Pending transitions are BookingLifecycleJob rows that a database trigger
+ * keeps in step with each booking. Only the instance holding the scheduler
+ * lease runs them; it sleeps until the next job is due and applies every due
+ * job in one batch.
+ */
 export class BookingExpirationService {
   private io: SocketIOServer | null = null;
+  private readonly instanceId = randomUUID();
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
 
   constructor(io?: SocketIOServer) {
     this.io = io || null;
@@ -18,188 +49,295 @@ export class BookingExpirationService {
   }
 
   /**
-   * Update booking statuses based on current time
-   * Transitions: NotStarted → Ongoing → Completed
+   * Take the scheduler lease, or renew it if this instance already holds it
+   * @returns true if this instance may run jobs
    */
-  async updateBookingStatuses(): Promise<void> {
-    const now = new Date();
+  async acquireLease(now: Date = new Date()): Promise<boolean> {
+    const expiresAt = new Date(now.getTime() + LEASE_TTL_MS);
+
+    const renewed = await prisma.schedulerLease.updateMany({
+      where: {
+        name: LEASE_NAME,
+        OR: [{ holder: this.instanceId }, { expiresAt: { lte: now } }],
+      },
+      data: { holder: this.instanceId, expiresAt },
+    });
+    if (renewed.count > 0) {
+      return true;
+    }
 
     try {
-      // 1. Update NotStarted → Ongoing (bookings that have started)
-      const startedBookings = await prisma.roomBooking.findMany({
+      await prisma.schedulerLease.create({
+        data: { name: LEASE_NAME, holder: this.instanceId, expiresAt },
+      });
+      return true;
+    } catch (error: any) {
+      // Another instance holds a live lease
+      if (error.code === "P2002") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give up the lease so another instance can take over straight away
+   */
+  async releaseLease(): Promise<void> {
+    await prisma.schedulerLease.deleteMany({
+      where: { name: LEASE_NAME, holder: this.instanceId },
+    });
+  }
+
+  /**
+   * Apply every transition that is due, in one batch of at most BATCH_SIZE jobs
+   * @returns the number of jobs taken off the queue
+   */
+  async updateBookingStatuses(now: Date = new Date()): Promise<number> {
+    const jobs = await prisma.bookingLifecycleJob.findMany({
+      where: { runAt: { lte: now } },
+      orderBy: { runAt: "asc" },
+      take: BATCH_SIZE,
+      include: {
+        booking: {
+          include: {
+            room: true,
+            teacher: true,
+          },
+        },
+      },
+    });
+
+    if (jobs.length === 0) {
+      return 0;
+    }
+
+    // A booking whose start and end both passed (e.g. while no instance was
+    // running) goes straight to Completed
+    const expiredBookings = jobs
+      .filter(
+        (job) =>
+          job.kind === "Complete" && ACTIVE_STATUSES.includes(job.booking.status)
+      )
+      .map((job) => job.booking);
+    const expiredIds = expiredBookings.map((booking) => booking.id);
+    const startedBookings = jobs
+      .filter(
+        (job) =>
+          job.kind === "Start" &&
+          job.booking.status === "NotStarted" &&
+          !expiredIds.includes(job.bookingId)
+      )
+      .map((job) => job.booking);
+    const lapsedBookings = jobs
+      .filter(
+        (job) =>
+          job.kind === "Expire" && job.booking.status === "PendingApproval"
+      )
+      .map((job) => job.booking);
+
+    if (expiredBookings.length > 0) {
+      try {
+        await this.deallocateStudents(expiredBookings);
+      } catch (deallocationError) {
+        console.error(
+          "Failed to deallocate students for expired bookings:",
+          deallocationError
+        );
+        // Continue with booking status update even if deallocation fails
+      }
+    }
+
+    // Status changes reschedule the booking's remaining jobs via the trigger
+    await prisma.$transaction([
+      prisma.roomBooking.updateMany({
         where: {
+          id: { in: startedBookings.map((booking) => booking.id) },
           status: "NotStarted",
-          startTime: { lte: now },
-          endTime: { gt: now },
         },
-        include: {
-          room: true,
-          teacher: true,
+        data: { status: "Ongoing" },
+      }),
+      prisma.roomBooking.updateMany({
+        where: { id: { in: expiredIds }, status: { in: ACTIVE_STATUSES } },
+        data: { status: "Completed" },
+      }),
+      prisma.roomBooking.updateMany({
+        where: {
+          id: { in: lapsedBookings.map((booking) => booking.id) },
+          status: "PendingApproval",
+        },
+        data: {
+          status: "Rejected",
+          reviewComment: LAPSED_REVIEW_COMMENT,
+          reviewedAt: now,
         },
-      });
+      }),
+      prisma.bookingLifecycleJob.deleteMany({
+        where: { id: { in: jobs.map((job) => job.id) } },
+      }),
+    ]);
 
+    // Emit real-time events
+    if (this.io) {
       for (const booking of startedBookings) {
-        await prisma.roomBooking.update({
-          where: { id: booking.id },
-          data: { status: "Ongoing" },
+        this.io.emit("bookingStatusChanged", {
+          bookingId: booking.id,
+          roomId: booking.roomId,
+          status: "Ongoing",
+          booking: {
+            ...booking,
+            status: "Ongoing",
+          },
         });
+      }
+      for (const booking of expiredBookings) {
+        this.io.emit("bookingExpired", {
+          bookingId: booking.id,
+          roomId: booking.roomId,
+          booking: {
+            ...booking,
+            status: "Completed",
+          },
+        });
+      }
+      for (const booking of lapsedBookings) {
+        const rejected = {
+          ...booking,
+          status: "Rejected" as const,
+          reviewComment: LAPSED_REVIEW_COMMENT,
+        };
+        BookingApprovalService.notifyTeacher(this.io, "rejected", rejected);
+      }
+    }
 
-        console.log(
-          `Booking ${booking.id} status updated to Ongoing for room ${booking.room.name}`
-        );
+    if (
+      startedBookings.length > 0 ||
+      expiredBookings.length > 0 ||
+      lapsedBookings.length > 0
+    ) {
+      console.log(
+        `Booking status update completed: ${startedBookings.length} started, ${expiredBookings.length} expired, ${lapsedBookings.length} lapsed`
+      );
+    }
 
-        // Emit real-time event
-        if (this.io) {
-          this.io.emit("bookingStatusChanged", {
-            bookingId: booking.id,
-            roomId: booking.roomId,
-            status: "Ongoing",
-            booking: {
-              ...booking,
-              status: "Ongoing",
-            },
-          });
-        }
-      }
+    return jobs.length;
+  }
 
-      // 2. Update Ongoing/NotStarted → Completed (bookings that have ended)
-      const expiredBookings = await prisma.roomBooking.findMany({
-        where: {
-          status: { in: ["NotStarted", "Ongoing"] },
-          endTime: { lte: now },
-        },
-        include: {
-          room: true,
-          teacher: true,
+  /**
+   * Free the seats held by the branches of expired bookings, in one
+   * transaction for the whole batch
+   */
+  private async deallocateStudents(
+    bookings: { roomId: string; branch: Branch }[]
+  ): Promise<void> {
+    // Find all students from these branches that are allocated to these rooms
+    const allocatedSeats = await prisma.seat.findMany({
+      where: {
+        status: "Allocated",
+        OR: bookings.map((booking) => ({
+          roomId: booking.roomId,
+          student: { branch: booking.branch },
+        })),
+      },
+      select: { id: true, roomId: true },
+    });
+
+    if (allocatedSeats.length === 0) {
+      return;
+    }
+
+    const freedByRoom = new Map<string, number>();
+    for (const seat of allocatedSeats) {
+      freedByRoom.set(seat.roomId, (freedByRoom.get(seat.roomId) ?? 0) + 1);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Update all seats to Available and remove student assignment
+      await tx.seat.updateMany({
+        where: { id: { in: allocatedSeats.map((s) => s.id) } },
+        data: {
+          status: "Available",
+          studentId: null,
         },
       });
 
-      for (const booking of expiredBookings) {
-        // Deallocate students from the room when booking expires
-        try {
-          // Find all students from this branch that are allocated to this room
-          const allocatedSeats = await prisma.seat.findMany({
-            where: {
-              roomId: booking.roomId,
-              status: "Allocated",
-              student: {
-                branch: booking.branch,
-              },
-            },
-            include: {
-              student: true,
-            },
-          });
-
-          // Deallocate all seats for students from this branch
-          if (allocatedSeats.length > 0) {
-            await prisma.$transaction(async (tx) => {
-              // Update all seats to Available and remove student assignment
-              await tx.seat.updateMany({
-                where: {
-                  id: { in: allocatedSeats.map((s) => s.id) },
-                },
-                data: {
-                  status: "Available",
-                  studentId: null,
-                },
-              });
-
-              // Update room claimed count and potentially clear branchAllocated
-              const room = await tx.room.findUnique({
-                where: { id: booking.roomId },
-                include: {
-                  seats: {
-                    where: {
-                      status: "Allocated",
-                    },
-                  },
-                },
-              });
-
-              if (room) {
-                const remainingAllocatedCount =
-                  room.seats.length - allocatedSeats.length;
-                await tx.room.update({
-                  where: { id: booking.roomId },
-                  data: {
-                    claimed: { decrement: allocatedSeats.length },
-                    // Clear branchAllocated if no more students are allocated
-                    branchAllocated:
-                      remainingAllocatedCount === 0
-                        ? null
-                        : room.branchAllocated,
-                  },
-                });
-              }
-            });
-
-            console.log(
-              `Deallocated ${allocatedSeats.length} students from room ${booking.roomId} after booking expiration`
-            );
-          }
-        } catch (deallocationError) {
-          console.error(
-            `Failed to deallocate students for expired booking ${booking.id}:`,
-            deallocationError
-          );
-          // Continue with booking status update even if deallocation fails
-        }
+      const stillAllocated = await tx.seat.groupBy({
+        by: ["roomId"],
+        where: { roomId: { in: [...freedByRoom.keys()] }, status: "Allocated" },
+        _count: { _all: true },
+      });
+      const occupiedRooms = new Set(stillAllocated.map((row) => row.roomId));
 
-        await prisma.roomBooking.update({
-          where: { id: booking.id },
-          data: { status: "Completed" },
+      // Update room claimed counts and clear branchAllocated on emptied rooms
+      for (const [roomId, freed] of freedByRoom) {
+        await tx.room.update({
+          where: { id: roomId },
+          data: {
+            claimed: { decrement: freed },
+            ...(occupiedRooms.has(roomId) ? {} : { branchAllocated: null }),
+          },
         });
+      }
+    });
 
-        console.log(
-          `Booking ${booking.id} expired and marked as Completed for room ${booking.room.name}`
-        );
+    console.log(
+      `Deallocated ${allocatedSeats.length} students from ${freedByRoom.size} rooms after booking expiration`
+    );
+  }
 
-        // Emit real-time event
-        if (this.io) {
-          this.io.emit("bookingExpired", {
-            bookingId: booking.id,
-            roomId: booking.roomId,
-            booking: {
-              ...booking,
-              status: "Completed",
-            },
-          });
-        }
-      }
+  /**
+   * One scheduler step: as lease holder, drain due jobs, then sleep until the
+   * next one is due
+   */
+  private async tick(): Promise<void> {
+    let delay = MAX_IDLE_MS;
 
-      if (startedBookings.length > 0 || expiredBookings.length > 0) {
-        console.log(
-          `Booking status update completed: ${startedBookings.length} started, ${expiredBookings.length} expired`
+    try {
+      if (await this.acquireLease()) {
+        while (
+          (await this.updateBookingStatuses()) === BATCH_SIZE &&
+          (await this.acquireLease())
         );
+
+        const next = await prisma.bookingLifecycleJob.findFirst({
+          orderBy: { runAt: "asc" },
+          select: { runAt: true },
+        });
+        if (next) {
+          delay = Math.min(
+            Math.max(next.runAt.getTime() - Date.now(), 0),
+            MAX_IDLE_MS
+          );
+        }
       }
     } catch (error) {
       console.error("Error updating booking statuses:", error);
     }
+
+    if (!this.stopped) {
+      this.timer = setTimeout(() => this.tick(), delay);
+    }
   }
 
   /**
-   * Start the scheduled job to run every 5 minutes
+   * Start the scheduler; runs any overdue jobs right away
    */
-  startScheduledJob(): NodeJS.Timeout {
-    console.log("Starting booking expiration service (runs every 5 minutes)");
-
-    // Run immediately on start
-    this.updateBookingStatuses();
-
-    // Then run every 5 minutes
-    const interval = setInterval(() => {
-      this.updateBookingStatuses();
-    }, 5 * 60 * 1000); // 5 minutes in milliseconds
-
-    return interval;
+  start(): void {
+    console.log("Starting booking lifecycle scheduler");
+    this.stopped = false;
+    this.timer = setTimeout(() => this.tick(), 0);
   }
 
   /**
-   * Stop the scheduled job
+   * Stop the scheduler and hand the lease over
    */
-  stopScheduledJob(interval: NodeJS.Timeout): void {
-    clearInterval(interval);
-    console.log("Booking expiration service stopped");
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.releaseLease();
+    console.log("Booking lifecycle scheduler stopped");
   }
 }
@@ -0,0 +1,287 @@
+import { PrismaClient, BookingPolicy } from "../../generated/prisma/client";
+import { ErrorCode } from "../utils/errorHandler";
+import { TimeRange } from "./roomLockService";
+
+const prisma = new PrismaClient();
+
+export const GLOBAL_POLICY_ID = "global";
+
+export const POLICY_RULES = [
+  "maxDurationMinutes",
+  "minLeadMinutes",
+  "maxLeadDays",
+  "maxActiveBookings",
+  "openFromMinute",
+  "openUntilMinute",
+] as const;
+
+export type PolicyRule = (typeof POLICY_RULES)[number];
+
+/** Effective limits for one room; null means no limit */
+export type PolicyRules = Record<PolicyRule, number | null>;
+
+export interface PolicyViolation {
+  status: 400 | 409;
+  code: ErrorCode;
+  message: string;
+}
+
+/** Every stored policy, keyed for resolving many rooms at once */
+export interface PolicySet {
+  global: BookingPolicy | null;
+  buildings: Map<string, BookingPolicy>;
+  rooms: Map<string, BookingPolicy>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MINUTES_PER_DAY = 24 * 60;
+
+const formatMinute = (minute: number): string =>
+  `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(
+    minute % 60
+  ).padStart(2, "0")}`;
+
+const formatDuration = (minutes: number): string =>
+  minutes % 60 === 0
+    ? `${minutes / 60} hour${minutes === 60 ? "" : "s"}`
+    : `${minutes} minutes`;
+
+// Minutes after local midnight, in the server's time zone like recurrences
+const minuteOfDay = (date: Date): number =>
+  date.getHours() * 60 + date.getMinutes();
+
+const sameLocalDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Admin-configured booking limits: maximum duration, minimum and maximum lead
+ * time, bookable hours and a cap on each teacher's active bookings. Rules are
+ * resolved room, then building, then global, one rule at a time.
+ */
+export class BookingPolicyService {
+  /**
+   * Effective rules from the most specific layer to the least specific one
+   */
+  static resolve(
+    ...layers: (Partial<PolicyRules> | null | undefined)[]
+  ): PolicyRules {
+    const rules = {} as PolicyRules;
+    for (const rule of POLICY_RULES) {
+      rules[rule] = null;
+      for (const layer of layers) {
+        const value = layer?.[rule];
+        if (value !== null && value !== undefined) {
+          rules[rule] = value;
+          break;
+        }
+      }
+    }
+    return rules;
+  }
+
+  /**
+   * All stored policies; the table holds at most one row per room and building
+   */
+  static async loadPolicies(): Promise<PolicySet> {
+    const policies = await prisma.bookingPolicy.findMany();
+    const set: PolicySet = {
+      global: null,
+      buildings: new Map(),
+      rooms: new Map(),
+    };
+
+    for (const policy of policies) {
+      if (policy.id === GLOBAL_POLICY_ID) {
+        set.global = policy;
+      } else if (policy.roomId) {
+        set.rooms.set(policy.roomId, policy);
+      } else if (policy.buildingId) {
+        set.buildings.set(policy.buildingId, policy);
+      }
+    }
+    return set;
+  }
+
+  /**
+   * Effective rules for a room out of a loaded policy set
+   */
+  static rulesFor(
+    set: PolicySet,
+    room: { id: string; buildingId: string }
+  ): PolicyRules {
+    return this.resolve(
+      set.rooms.get(room.id),
+      set.buildings.get(room.buildingId),
+      set.global
+    );
+  }
+
+  /**
+   * Effective rules for a room; an unknown room gets the global ones
+   */
+  static async forRoom(roomId: string): Promise<PolicyRules> {
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      select: { buildingId: true },
+    });
+
+    const policies = await prisma.bookingPolicy.findMany({
+      where: {
+        OR: [
+          { id: GLOBAL_POLICY_ID },
+          { roomId },
+          ...(room ? [{ buildingId: room.buildingId }] : []),
+        ],
+      },
+    });
+
+    return this.resolve(
+      policies.find((p) => p.roomId === roomId),
+      room ? policies.find((p) => p.buildingId === room.buildingId) : null,
+      policies.find((p) => p.id === GLOBAL_POLICY_ID)
+    );
+  }
+
+  /**
+   * Duration, lead time and opening hours of a single slot
+   */
+  static checkSlot(
+    rules: PolicyRules,
+    slot: TimeRange,
+    now: Date = new Date()
+  ): PolicyViolation | null {
+    const durationMinutes =
+      (slot.endTime.getTime() - slot.startTime.getTime()) / MINUTE_MS;
+    if (
+      rules.maxDurationMinutes !== null &&
+      durationMinutes > rules.maxDurationMinutes
+    ) {
+      return {
+        status: 400,
+        code: ErrorCode.BOOKING_TOO_LONG,
+        message: `Bookings in this room can last at most ${formatDuration(
+          rules.maxDurationMinutes
+        )}.`,
+      };
+    }
+
+    const leadMs = slot.startTime.getTime() - now.getTime();
+    if (
+      rules.minLeadMinutes !== null &&
+      leadMs < rules.minLeadMinutes * MINUTE_MS
+    ) {
+      return {
+        status: 400,
+        code: ErrorCode.BOOKING_TOO_SOON,
+        message: `This room must be booked at least ${formatDuration(
+          rules.minLeadMinutes
+        )} in advance.`,
+      };
+    }
+    if (rules.maxLeadDays !== null && leadMs > rules.maxLeadDays * DAY_MS) {
+      return {
+        status: 400,
+        code: ErrorCode.BOOKING_TOO_FAR_AHEAD,
+        message: `This room can be booked at most ${rules.maxLeadDays} day${
+          rules.maxLeadDays === 1 ? "" : "s"
+        } ahead.`,
+      };
+    }
+
+    if (rules.openFromMinute !== null || rules.openUntilMinute !== null) {
+      const openFrom = rules.openFromMinute ?? 0;
+      const openUntil = rules.openUntilMinute ?? MINUTES_PER_DAY;
+      // A slot ending at midnight counts as ending at the end of its day
+      const endMinute = minuteOfDay(slot.endTime) || MINUTES_PER_DAY;
+      const lastDay = new Date(slot.endTime.getTime() - 1);
+      if (
+        !sameLocalDay(slot.startTime, lastDay) ||
+        minuteOfDay(slot.startTime) < openFrom ||
+        endMinute > openUntil
+      ) {
+        return {
+          status: 400,
+          code: ErrorCode.BOOKING_OUTSIDE_HOURS,
+          message: `This room can only be booked between ${formatMinute(
+            openFrom
+          )} and ${formatMinute(openUntil)}.`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Bookings of the teacher that count towards the quota, pending ones included
+   */
+  static async activeBookingCount(teacherId: string): Promise<number> {
+    return prisma.roomBooking.count({
+      where: {
+        teacherId,
+        status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+      },
+    });
+  }
+
+  /**
+   * Cap on the teacher's active bookings, counting the ones about to be made
+   */
+  static quotaViolation(
+    rules: PolicyRules,
+    active: number,
+    newBookings: number = 1
+  ): PolicyViolation | null {
+    if (
+      rules.maxActiveBookings !== null &&
+      active + newBookings > rules.maxActiveBookings
+    ) {
+      return {
+        status: 409,
+        code: ErrorCode.BOOKING_QUOTA_EXCEEDED,
+        message: `You can hold at most ${rules.maxActiveBookings} active booking${
+          rules.maxActiveBookings === 1 ? "" : "s"
+        }; you have ${active}.`,
+      };
+    }
+    return null;
+  }
+
+  static async checkQuota(
+    rules: PolicyRules,
+    teacherId: string,
+    newBookings: number = 1
+  ): Promise<PolicyViolation | null> {
+    if (rules.maxActiveBookings === null) {
+      return null;
+    }
+
+    return this.quotaViolation(
+      rules,
+      await this.activeBookingCount(teacherId),
+      newBookings
+    );
+  }
+
+  /**
+   * First policy violation of booking new slots in the room, if any
+   */
+  static async check(
+    roomId: string,
+    teacherId: string,
+    slots: TimeRange[],
+    now: Date = new Date()
+  ): Promise<PolicyViolation | null> {
+    const rules = await this.forRoom(roomId);
+
+    for (const slot of slots) {
+      const violation = this.checkSlot(rules, slot, now);
+      if (violation) return violation;
+    }
+
+    return this.checkQuota(rules, teacherId, slots.length);
+  }
+}
@@ -0,0 +1,379 @@
+import {
+  PrismaClient,
+  LocationNodeType,
+  LocationEdgeKind,
+} from '../../generated/prisma/client';
+import { ErrorCode } from '../utils/errorHandler';
+
+const prisma = new PrismaClient();
+
+export interface LocationRef {
+  blockId?: string;
+  buildingId?: string;
+  floorId?: string;
+}
+
+export interface LocationEdgeInput {
+  fromType: LocationNodeType;
+  fromId: string;
+  toType: LocationNodeType;
+  toId: string;
+  distance: number;
+  kind?: LocationEdgeKind;
+  stepFree?: boolean;
+}
+
+export interface LocationNodeSummary {
+  type: LocationNodeType;
+  id: string;
+  name: string;
+}
+
+// Adjacency list keyed by nodeKey(type, id)
+export type LocationGraph = Map<string, { key: string; distance: number }[]>;
+
+export class LocationEdgeError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message?: string
+  ) {
+    super(message);
+  }
+}
+
+export const nodeKey = (type: LocationNodeType, id: string) => `${type}:${id}`;
+
+const addEdge = (graph: LocationGraph, a: string, b: string, distance: number) => {
+  if (!graph.has(a)) graph.set(a, []);
+  if (!graph.has(b)) graph.set(b, []);
+  graph.get(a)!.push({ key: b, distance });
+  graph.get(b)!.push({ key: a, distance });
+};
+
+// Stands in for the campus grounds when no walking graph is defined: the
+// hierarchy scheme treats every block as reachable from a common origin
+const CAMPUS_KEY = 'Campus';
+
+export class LocationGraphService {
+  /**
+   * Builds the walking graph, or returns null when no edges have been defined
+   * so callers can keep using the hierarchy distances.
+   *
+   * Besides the admin-defined edges, every building is linked to its block and
+   * every floor to its building using their own `distance` fields, so an edge
+   * only has to be added where people can actually walk between locations.
+   */
+  static async loadGraph(): Promise<LocationGraph | null> {
+    const edges = await prisma.locationEdge.findMany();
+    if (edges.length === 0) {
+      return null;
+    }
+
+    return this.buildGraph(edges, false);
+  }
+
+  /**
+   * Same graph restricted to step-free movement: a building joins its block
+   * only through a step-free entrance, a floor joins its building only when it
+   * has step-free access, and stairs (or walkways marked with steps) are left
+   * out. Without admin-defined edges every block hangs off a shared campus
+   * node, mirroring the hierarchy distance scheme.
+   */
+  static async loadStepFreeGraph(): Promise<LocationGraph> {
+    const edges = await prisma.locationEdge.findMany();
+    const graph = await this.buildGraph(edges, true);
+
+    if (edges.length === 0) {
+      const blocks = await prisma.block.findMany({ select: { id: true } });
+      for (const block of blocks) {
+        addEdge(graph, CAMPUS_KEY, nodeKey('Block', block.id), 0);
+      }
+    }
+
+    return graph;
+  }
+
+  private static async buildGraph(
+    edges: {
+      fromType: LocationNodeType;
+      fromId: string;
+      toType: LocationNodeType;
+      toId: string;
+      distance: number;
+      kind: LocationEdgeKind;
+      stepFree: boolean;
+    }[],
+    stepFreeOnly: boolean
+  ): Promise<LocationGraph> {
+    const [buildings, floors] = await Promise.all([
+      prisma.building.findMany({
+        select: { id: true, blockId: true, distance: true, stepFreeEntrance: true },
+      }),
+      prisma.floor.findMany({
+        select: { id: true, buildingId: true, distance: true, stepFreeAccess: true },
+      }),
+    ]);
+
+    const graph: LocationGraph = new Map();
+    const known = new Set<string>();
+    for (const building of buildings) {
+      known.add(nodeKey('Building', building.id));
+      known.add(nodeKey('Block', building.blockId));
+      if (!stepFreeOnly || building.stepFreeEntrance) {
+        addEdge(
+          graph,
+          nodeKey('Building', building.id),
+          nodeKey('Block', building.blockId),
+          building.distance
+        );
+      }
+    }
+    for (const floor of floors) {
+      known.add(nodeKey('Floor', floor.id));
+      if (!stepFreeOnly || floor.stepFreeAccess) {
+        addEdge(
+          graph,
+          nodeKey('Floor', floor.id),
+          nodeKey('Building', floor.buildingId),
+          floor.distance
+        );
+      }
+    }
+
+    // Edges left behind by deleted locations never reach a known node; skip them
+    for (const edge of edges) {
+      const from = nodeKey(edge.fromType, edge.fromId);
+      const to = nodeKey(edge.toType, edge.toId);
+      if (!known.has(from) || !known.has(to)) continue;
+      if (stepFreeOnly && (edge.kind === 'Stairs' || !edge.stepFree)) continue;
+      addEdge(graph, from, to, edge.distance);
+    }
+
+    return graph;
+  }
+
+  /**
+   * The node a search starts from: the most specific part of the location given.
+   */
+  static sourceKey(location: LocationRef): string | null {
+    if (location.floorId) return nodeKey('Floor', location.floorId);
+    if (location.buildingId) return nodeKey('Building', location.buildingId);
+    if (location.blockId) return nodeKey('Block', location.blockId);
+    return null;
+  }
+
+  /**
+   * Dijkstra from the source; unreachable nodes are absent from the result.
+   */
+  static shortestDistances(graph: LocationGraph, source: string): Map<string, number> {
+    const distances = new Map<string, number>();
+    if (!graph.has(source)) {
+      return distances;
+    }
+
+    const pending = new Map<string, number>([[source, 0]]);
+    while (pending.size > 0) {
+      let current = '';
+      let currentDistance = Infinity;
+      for (const [key, distance] of pending) {
+        if (distance < currentDistance) {
+          current = key;
+          currentDistance = distance;
+        }
+      }
+      pending.delete(current);
+      distances.set(current, currentDistance);
+
+      for (const neighbour of graph.get(current) || []) {
+        if (distances.has(neighbour.key)) continue;
+        const candidate = currentDistance + neighbour.distance;
+        if (candidate < (pending.get(neighbour.key) ?? Infinity)) {
+          pending.set(neighbour.key, candidate);
+        }
+      }
+    }
+
+    return distances;
+  }
+
+  /**
+   * Walking distance from a location to every reachable floor, or null when
+   * there is no graph to walk.
+   */
+  static async floorDistancesFrom(location: LocationRef): Promise<Map<string, number> | null> {
+    const source = this.sourceKey(location);
+    if (!source) return null;
+
+    const graph = await this.loadGraph();
+    if (!graph) return null;
+
+    return this.shortestDistances(graph, source);
+  }
+
+  /**
+   * Floors that can be reached from a location without steps, or null when the
+   * location is empty. The starting floor always counts: nobody has to move.
+   */
+  static async stepFreeFloorsFrom(location: LocationRef): Promise<Set<string> | null> {
+    const source = this.sourceKey(location);
+    if (!source) return null;
+
+    const graph = await this.loadStepFreeGraph();
+    if (!graph.has(source)) {
+      graph.set(source, []);
+    }
+
+    const floors = new Set<string>();
+    for (const key of this.shortestDistances(graph, source).keys()) {
+      if (key.startsWith('Floor:')) {
+        floors.add(key.slice('Floor:'.length));
+      }
+    }
+    return floors;
+  }
+
+  /**
+   * Every edge with the names of its endpoints, for the admin screen.
+   */
+  static async listEdges() {
+    const edges = await prisma.locationEdge.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+    const names = await this.resolveNames(
+      edges.flatMap(edge => [
+        { type: edge.fromType, id: edge.fromId },
+        { type: edge.toType, id: edge.toId },
+      ])
+    );
+
+    return edges.map(edge => ({
+      ...edge,
+      fromName: names.get(nodeKey(edge.fromType, edge.fromId)) ?? null,
+      toName: names.get(nodeKey(edge.toType, edge.toId)) ?? null,
+    }));
+  }
+
+  static async createEdge(input: LocationEdgeInput) {
+    const kind = input.kind ?? 'Walkway';
+
+    if (input.fromType === input.toType && input.fromId === input.toId) {
+      throw new LocationEdgeError(
+        ErrorCode.VALIDATION_ERROR,
+        'An edge must connect two different locations'
+      );
+    }
+    if (kind !== 'Walkway' && (input.fromType !== 'Floor' || input.toType !== 'Floor')) {
+      throw new LocationEdgeError(
+        ErrorCode.VALIDATION_ERROR,
+        'Stairs and lifts can only connect two floors'
+      );
+    }
+
+    const names = await this.resolveNames([
+      { type: input.fromType, id: input.fromId },
+      { type: input.toType, id: input.toId },
+    ]);
+    for (const [type, id] of [
+      [input.fromType, input.fromId],
+      [input.toType, input.toId],
+    ] as const) {
+      if (!names.has(nodeKey(type, id))) {
+        throw new LocationEdgeError(
+          type === 'Block'
+            ? ErrorCode.BLOCK_NOT_FOUND
+            : type === 'Building'
+              ? ErrorCode.BUILDING_NOT_FOUND
+              : ErrorCode.FLOOR_NOT_FOUND
+        );
+      }
+    }
+
+    // Edges are undirected, so the reverse pair counts as the same edge
+    const existing = await prisma.locationEdge.findFirst({
+      where: {
+        OR: [
+          {
+            fromType: input.fromType,
+            fromId: input.fromId,
+            toType: input.toType,
+            toId: input.toId,
+          },
+          {
+            fromType: input.toType,
+            fromId: input.toId,
+            toType: input.fromType,
+            toId: input.fromId,
+          },
+        ],
+      },
+    });
+    if (existing) {
+      throw new LocationEdgeError(ErrorCode.LOCATION_EDGE_EXISTS);
+    }
+
+    return prisma.locationEdge.create({
+      data: {
+        fromType: input.fromType,
+        fromId: input.fromId,
+        toType: input.toType,
+        toId: input.toId,
+        distance: input.distance,
+        kind,
+        stepFree: kind === 'Stairs' ? false : (input.stepFree ?? true),
+      },
+    });
+  }
+
+  /**
+   * Removes edges whose endpoints no longer exist. Deleting a block cascades to
+   * its buildings and floors, so this runs after any location is deleted.
+   */
+  static async pruneDanglingEdges(): Promise<number> {
+    const edges = await prisma.locationEdge.findMany();
+    if (edges.length === 0) return 0;
+
+    const names = await this.resolveNames(
+      edges.flatMap(edge => [
+        { type: edge.fromType, id: edge.fromId },
+        { type: edge.toType, id: edge.toId },
+      ])
+    );
+    const dangling = edges
+      .filter(
+        edge =>
+          !names.has(nodeKey(edge.fromType, edge.fromId)) ||
+          !names.has(nodeKey(edge.toType, edge.toId))
+      )
+      .map(edge => edge.id);
+
+    if (dangling.length > 0) {
+      await prisma.locationEdge.deleteMany({ where: { id: { in: dangling } } });
+    }
+    return dangling.length;
+  }
+
+  private static async resolveNames(
+    nodes: { type: LocationNodeType; id: string }[]
+  ): Promise<Map<string, string>> {
+    const idsOf = (type: LocationNodeType) => [
+      ...new Set(nodes.filter(node => node.type === type).map(node => node.id)),
+    ];
+
+    const [blocks, buildings, floors] = await Promise.all([
+      prisma.block.findMany({ where: { id: { in: idsOf('Block') } } }),
+      prisma.building.findMany({ where: { id: { in: idsOf('Building') } } }),
+      prisma.floor.findMany({
+        where: { id: { in: idsOf('Floor') } },
+        include: { building: true },
+      }),
+    ]);
+
+    const names = new Map<string, string>();
+    blocks.forEach(block => names.set(nodeKey('Block', block.id), block.name));
+    buildings.forEach(building => names.set(nodeKey('Building', building.id), building.name));
+    floors.forEach(floor =>
+      names.set(nodeKey('Floor', floor.id), `${floor.building.name} / ${floor.name}`)
+    );
+    return names;
+  }
+}
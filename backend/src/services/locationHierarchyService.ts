@@ -0,0 +1,728 @@
+import { PrismaClient, Prisma } from '../../generated/prisma/client';
+import { ErrorCode } from '../utils/errorHandler';
+import { parseCsv, formatCsv, CsvParseError } from '../utils/csv';
+import { RoomLayout, SeatGenerationService } from './seatGenerationService';
+import { SeatChangeReport, SeatRegenerationService } from './seatRegenerationService';
+
+const prisma = new PrismaClient();
+
+export type HierarchyFormat = 'json' | 'csv';
+
+// The JSON exchange format nests each level inside its parent. Blocks and
+// buildings are matched by code, floors by number within their building and
+// rooms by name within their building.
+export interface HierarchyRoom {
+  name: string;
+  capacity: number;
+  rows: number;
+  cols: number;
+  distance?: number;
+  layout?: RoomLayout | null;
+}
+
+export interface HierarchyFloor {
+  number: number;
+  name?: string;
+  distance?: number;
+  rooms?: HierarchyRoom[];
+}
+
+export interface HierarchyBuilding {
+  code: string;
+  name?: string;
+  distance?: number;
+  floors?: HierarchyFloor[];
+}
+
+export interface HierarchyBlock {
+  code: string;
+  name?: string;
+  distance?: number;
+  buildings?: HierarchyBuilding[];
+}
+
+export interface HierarchyDocument {
+  blocks: HierarchyBlock[];
+}
+
+// CSV has one row per entity; the type column says which and the parent
+// columns place it in the hierarchy
+export const HIERARCHY_CSV_COLUMNS = [
+  'type', 'blockCode', 'buildingCode', 'floorNumber', 'name', 'distance', 'capacity', 'rows', 'cols',
+];
+
+// Fields left out of the file keep their current value (or the default for new entities)
+interface FlatBlock { source: string; code: string; name?: string; distance?: number }
+interface FlatBuilding { source: string; code: string; blockCode: string; name?: string; distance?: number }
+interface FlatFloor { source: string; buildingCode: string; number: number; name?: string; distance?: number }
+interface FlatRoom {
+  source: string;
+  buildingCode: string;
+  floorNumber: number;
+  name: string;
+  capacity?: number;
+  rows?: number;
+  cols?: number;
+  distance?: number;
+  layout?: RoomLayout | null;
+}
+
+interface FlatHierarchy {
+  blocks: FlatBlock[];
+  buildings: FlatBuilding[];
+  floors: FlatFloor[];
+  rooms: FlatRoom[];
+}
+
+export interface HierarchyImportError {
+  // Where in the file the problem is, e.g. "line 4" or "blocks[0].buildings[2]"
+  source: string;
+  code: ErrorCode;
+  message: string;
+}
+
+export interface HierarchyChange {
+  key: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  // For rooms whose seats are regenerated
+  seatChanges?: SeatChangeReport;
+}
+
+export interface HierarchyImportReport {
+  dryRun: boolean;
+  valid: boolean;
+  errors: HierarchyImportError[];
+  blocks: HierarchyChange[];
+  buildings: HierarchyChange[];
+  floors: HierarchyChange[];
+  rooms: HierarchyChange[];
+  summary: { created: number; updated: number; unchanged: number };
+}
+
+/**
+ * Thrown when the file itself cannot be read, as opposed to entries in it being invalid.
+ */
+export class HierarchyFileError extends Error {}
+
+const CODE_PATTERN = /^[A-Z0-9-]+$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWholeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+const roomKey = (buildingCode: string, name: string) => `${buildingCode}/${name}`;
+const floorKey = (buildingCode: string, number: number) => `${buildingCode}#${number}`;
+
+// Compares the fields the file sets with the stored entity
+const diffFields = (current: Record<string, any>, incoming: Record<string, unknown>) => {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(incoming)) {
+    if (value === undefined) continue;
+    if (JSON.stringify(current[field] ?? null) !== JSON.stringify(value ?? null)) {
+      changes[field] = { from: current[field] ?? null, to: value };
+    }
+  }
+  return changes;
+};
+
+export class LocationHierarchyService {
+  /**
+   * Exports every block, building, floor and room in the nested JSON format.
+   */
+  static async exportHierarchy(): Promise<HierarchyDocument> {
+    const blocks = await prisma.block.findMany({
+      orderBy: { code: 'asc' },
+      include: {
+        buildings: {
+          orderBy: { code: 'asc' },
+          include: {
+            floors: {
+              orderBy: { number: 'asc' },
+              include: { rooms: { orderBy: { name: 'asc' } } },
+            },
+          },
+        },
+      },
+    });
+
+    return {
+      blocks: blocks.map(block => ({
+        code: block.code,
+        name: block.name,
+        distance: block.distance,
+        buildings: block.buildings.map(building => ({
+          code: building.code,
+          name: building.name,
+          distance: building.distance,
+          floors: building.floors.map(floor => ({
+            number: floor.number,
+            name: floor.name,
+            distance: floor.distance,
+            rooms: floor.rooms.map(room => ({
+              name: room.name,
+              capacity: room.capacity,
+              rows: room.rows,
+              cols: room.cols,
+              distance: room.distance,
+              layout: (room.layout as RoomLayout | null) ?? null,
+            })),
+          })),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Flattens a hierarchy document into CSV rows. Custom room layouts have no
+   * CSV representation; use JSON to carry them.
+   */
+  static toCsv(document: HierarchyDocument): string {
+    const rows: (string | number | undefined)[][] = [HIERARCHY_CSV_COLUMNS];
+
+    for (const block of document.blocks) {
+      rows.push(['block', block.code, '', '', block.name, block.distance]);
+      for (const building of block.buildings ?? []) {
+        rows.push(['building', block.code, building.code, '', building.name, building.distance]);
+        for (const floor of building.floors ?? []) {
+          rows.push(['floor', block.code, building.code, floor.number, floor.name, floor.distance]);
+          for (const room of floor.rooms ?? []) {
+            rows.push([
+              'room', block.code, building.code, floor.number, room.name, room.distance,
+              room.capacity, room.rows, room.cols,
+            ]);
+          }
+        }
+      }
+    }
+
+    return formatCsv(rows);
+  }
+
+  /**
+   * Parses an uploaded file into flat lists of entities with their parent keys.
+   * Shape problems are collected as errors rather than thrown.
+   */
+  static parseFile(format: HierarchyFormat, content: string): { hierarchy: FlatHierarchy; errors: HierarchyImportError[] } {
+    return format === 'csv' ? this.parseCsv(content) : this.parseJson(content);
+  }
+
+  private static parseJson(content: string): { hierarchy: FlatHierarchy; errors: HierarchyImportError[] } {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch {
+      throw new HierarchyFileError('File is not valid JSON');
+    }
+    if (!isRecord(document) || !Array.isArray(document.blocks)) {
+      throw new HierarchyFileError('JSON file must have a "blocks" array');
+    }
+
+    const hierarchy: FlatHierarchy = { blocks: [], buildings: [], floors: [], rooms: [] };
+    const errors: HierarchyImportError[] = [];
+    const invalid = (source: string, message: string) =>
+      errors.push({ source, code: ErrorCode.VALIDATION_ERROR, message });
+    // Children may be left out, but must be a list when given
+    const children = (parent: Record<string, unknown>, key: string, source: string, label: string): unknown[] => {
+      const list = parent[key];
+      if (list === undefined || list === null) return [];
+      if (!Array.isArray(list)) {
+        invalid(`${source}.${key}`, `${label} must be a list`);
+        return [];
+      }
+      return list;
+    };
+
+    // Names, distances, sizes and layouts are passed on as given; planImport
+    // reports the ones of the wrong type
+    document.blocks.forEach((block: unknown, b: number) => {
+      const blockSource = `blocks[${b}]`;
+      if (!isRecord(block) || typeof block.code !== 'string') return invalid(blockSource, 'Block code is required');
+      const blockCode = block.code;
+      hierarchy.blocks.push({
+        source: blockSource,
+        code: blockCode,
+        name: block.name as string | undefined,
+        distance: block.distance as number | undefined,
+      });
+
+      children(block, 'buildings', blockSource, 'Buildings').forEach((building, i) => {
+        const buildingSource = `${blockSource}.buildings[${i}]`;
+        if (!isRecord(building) || typeof building.code !== 'string') {
+          return invalid(buildingSource, 'Building code is required');
+        }
+        const buildingCode = building.code;
+        hierarchy.buildings.push({
+          source: buildingSource,
+          code: buildingCode,
+          blockCode,
+          name: building.name as string | undefined,
+          distance: building.distance as number | undefined,
+        });
+
+        children(building, 'floors', buildingSource, 'Floors').forEach((floor, f) => {
+          const floorSource = `${buildingSource}.floors[${f}]`;
+          if (!isRecord(floor) || !isWholeNumber(floor.number)) {
+            return invalid(floorSource, 'Floor number must be a whole number');
+          }
+          const floorNumber = floor.number;
+          hierarchy.floors.push({
+            source: floorSource,
+            buildingCode,
+            number: floorNumber,
+            name: floor.name as string | undefined,
+            distance: floor.distance as number | undefined,
+          });
+
+          children(floor, 'rooms', floorSource, 'Rooms').forEach((room, r) => {
+            const roomSource = `${floorSource}.rooms[${r}]`;
+            if (!isRecord(room) || typeof room.name !== 'string') return invalid(roomSource, 'Room name is required');
+            hierarchy.rooms.push({
+              source: roomSource,
+              buildingCode,
+              floorNumber,
+              name: room.name,
+              capacity: room.capacity as number | undefined,
+              rows: room.rows as number | undefined,
+              cols: room.cols as number | undefined,
+              distance: room.distance as number | undefined,
+              layout: room.layout as RoomLayout | null | undefined,
+            });
+          });
+        });
+      });
+    });
+
+    return { hierarchy, errors };
+  }
+
+  private static parseCsv(content: string): { hierarchy: FlatHierarchy; errors: HierarchyImportError[] } {
+    let table: string[][];
+    try {
+      table = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+    } catch (error) {
+      if (error instanceof CsvParseError) throw new HierarchyFileError(error.message);
+      throw error;
+    }
+    if (table.length === 0) {
+      throw new HierarchyFileError('File is empty');
+    }
+
+    const header = table[0].map(cell => cell.trim().toLowerCase());
+    const missing = HIERARCHY_CSV_COLUMNS.slice(0, 5).filter(column => !header.includes(column.toLowerCase()));
+    if (missing.length > 0) {
+      throw new HierarchyFileError(`Missing required column(s): ${missing.join(', ')}`);
+    }
+
+    const hierarchy: FlatHierarchy = { blocks: [], buildings: [], floors: [], rooms: [] };
+    const errors: HierarchyImportError[] = [];
+
+    table.slice(1).forEach((cells, index) => {
+      const source = `line ${index + 2}`;
+      const text = (column: string) => {
+        const value = (cells[header.indexOf(column.toLowerCase())] ?? '').trim();
+        return value === '' ? undefined : value;
+      };
+      // Non-numeric input is kept as NaN so validation reports it
+      const number = (column: string) => {
+        const value = text(column);
+        return value === undefined ? undefined : Number(value);
+      };
+
+      const blockCode = text('blockCode');
+      const buildingCode = text('buildingCode');
+      const floorNumber = number('floorNumber');
+      const name = text('name');
+      const distance = number('distance');
+
+      switch (text('type')?.toLowerCase()) {
+        case 'block':
+          if (!blockCode) break;
+          hierarchy.blocks.push({ source, code: blockCode, name, distance });
+          return;
+        case 'building':
+          if (!buildingCode || !blockCode) break;
+          hierarchy.buildings.push({ source, code: buildingCode, blockCode, name, distance });
+          return;
+        case 'floor':
+          if (!buildingCode || floorNumber === undefined) break;
+          hierarchy.floors.push({ source, buildingCode, number: floorNumber, name, distance });
+          return;
+        case 'room':
+          if (!buildingCode || floorNumber === undefined || !name) break;
+          hierarchy.rooms.push({
+            source,
+            buildingCode,
+            floorNumber,
+            name,
+            distance,
+            capacity: number('capacity'),
+            rows: number('rows'),
+            cols: number('cols'),
+          });
+          return;
+        default:
+          errors.push({ source, code: ErrorCode.VALIDATION_ERROR, message: 'Type must be block, building, floor or room' });
+          return;
+      }
+
+      errors.push({
+        source,
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Missing the code, floor number or name that identifies this entry',
+      });
+    });
+
+    return { hierarchy, errors };
+  }
+
+  /**
+   * Validates parsed entries against each other and the database and works out
+   * what importing them would change. Nothing is written.
+   */
+  static async planImport(hierarchy: FlatHierarchy, errors: HierarchyImportError[] = []): Promise<HierarchyImportReport> {
+    const error = (source: string, code: ErrorCode, message: string) => errors.push({ source, code, message });
+    const checkName = (source: string, name: string | undefined, isNew: boolean, label: string) => {
+      if (name === undefined) {
+        if (isNew) error(source, ErrorCode.VALIDATION_ERROR, `Name is required for new ${label}`);
+      } else if (typeof name !== 'string' || name.trim().length < 1 || name.length > 100) {
+        error(source, ErrorCode.VALIDATION_ERROR, 'Name must be between 1 and 100 characters');
+      }
+    };
+    const checkDistance = (source: string, distance: number | undefined) => {
+      if (distance !== undefined && (typeof distance !== 'number' || !(distance >= 0))) {
+        error(source, ErrorCode.VALIDATION_ERROR, 'Distance must be a positive number');
+      }
+    };
+
+    const [existingBlocks, existingBuildings] = await Promise.all([
+      prisma.block.findMany(),
+      prisma.building.findMany({ include: { block: true, floors: true, rooms: true } }),
+    ]);
+    const blocksByCode = new Map(existingBlocks.map(block => [block.code, block]));
+    const buildingsByCode = new Map(existingBuildings.map(building => [building.code, building]));
+
+    const report: HierarchyImportReport = {
+      dryRun: true,
+      valid: true,
+      errors,
+      blocks: [],
+      buildings: [],
+      floors: [],
+      rooms: [],
+      summary: { created: 0, updated: 0, unchanged: 0 },
+    };
+    const record = (list: HierarchyChange[], key: string, current: Record<string, any> | undefined, incoming: Record<string, unknown>) => {
+      const changes = current ? diffFields(current, incoming) : undefined;
+      const action = !current ? 'create' : Object.keys(changes!).length > 0 ? 'update' : 'unchanged';
+      const change: HierarchyChange = { key, action, ...(action === 'update' ? { changes } : {}) };
+      list.push(change);
+      return change;
+    };
+
+    // Blocks
+    const fileBlocks = new Map<string, FlatBlock>();
+    for (const block of hierarchy.blocks) {
+      if (!CODE_PATTERN.test(block.code)) {
+        error(block.source, ErrorCode.VALIDATION_ERROR, 'Code must contain only uppercase letters, numbers, and hyphens');
+        continue;
+      }
+      if (fileBlocks.has(block.code)) {
+        error(block.source, ErrorCode.DUPLICATE_LOCATION_CODE, `Block code ${block.code} is already used at ${fileBlocks.get(block.code)!.source}`);
+        continue;
+      }
+      fileBlocks.set(block.code, block);
+      const current = blocksByCode.get(block.code);
+      checkName(block.source, block.name, !current, 'blocks');
+      checkDistance(block.source, block.distance);
+      record(report.blocks, block.code, current, { name: block.name, distance: block.distance });
+    }
+
+    // Buildings
+    const fileBuildings = new Map<string, FlatBuilding>();
+    for (const building of hierarchy.buildings) {
+      if (!CODE_PATTERN.test(building.code)) {
+        error(building.source, ErrorCode.VALIDATION_ERROR, 'Code must contain only uppercase letters, numbers, and hyphens');
+        continue;
+      }
+      if (fileBuildings.has(building.code)) {
+        error(building.source, ErrorCode.DUPLICATE_LOCATION_CODE, `Building code ${building.code} is already used at ${fileBuildings.get(building.code)!.source}`);
+        continue;
+      }
+      fileBuildings.set(building.code, building);
+      if (!fileBlocks.has(building.blockCode) && !blocksByCode.has(building.blockCode)) {
+        error(building.source, ErrorCode.INVALID_PARENT, `Block ${building.blockCode} does not exist`);
+        continue;
+      }
+      const current = buildingsByCode.get(building.code);
+      checkName(building.source, building.name, !current, 'buildings');
+      checkDistance(building.source, building.distance);
+      record(
+        report.buildings,
+        building.code,
+        current && { name: current.name, distance: current.distance, blockCode: current.block.code },
+        { name: building.name, distance: building.distance, blockCode: building.blockCode }
+      );
+    }
+
+    const buildingExists = (code: string) => fileBuildings.has(code) || buildingsByCode.has(code);
+
+    // Floors
+    const fileFloors = new Map<string, FlatFloor>();
+    for (const floor of hierarchy.floors) {
+      const key = floorKey(floor.buildingCode, floor.number);
+      if (!Number.isInteger(floor.number)) {
+        error(floor.source, ErrorCode.VALIDATION_ERROR, 'Floor number must be a whole number');
+        continue;
+      }
+      if (!buildingExists(floor.buildingCode)) {
+        error(floor.source, ErrorCode.INVALID_PARENT, `Building ${floor.buildingCode} does not exist`);
+        continue;
+      }
+      if (fileFloors.has(key)) {
+        error(floor.source, ErrorCode.VALIDATION_ERROR, `Floor ${floor.number} of ${floor.buildingCode} is already listed at ${fileFloors.get(key)!.source}`);
+        continue;
+      }
+      fileFloors.set(key, floor);
+      const current = buildingsByCode.get(floor.buildingCode)?.floors.find(f => f.number === floor.number);
+      checkName(floor.source, floor.name, !current, 'floors');
+      checkDistance(floor.source, floor.distance);
+      record(report.floors, key, current, { name: floor.name, distance: floor.distance });
+    }
+
+    // Rooms
+    const fileRooms = new Map<string, FlatRoom>();
+    for (const room of hierarchy.rooms) {
+      const key = roomKey(room.buildingCode, room.name);
+      if (!buildingExists(room.buildingCode)) {
+        error(room.source, ErrorCode.INVALID_PARENT, `Building ${room.buildingCode} does not exist`);
+        continue;
+      }
+      const existingBuilding = buildingsByCode.get(room.buildingCode);
+      const floorExists = fileFloors.has(floorKey(room.buildingCode, room.floorNumber))
+        || !!existingBuilding?.floors.some(f => f.number === room.floorNumber);
+      if (!floorExists) {
+        error(room.source, ErrorCode.INVALID_PARENT, `Floor ${room.floorNumber} of ${room.buildingCode} does not exist`);
+        continue;
+      }
+      if (fileRooms.has(key)) {
+        error(room.source, ErrorCode.VALIDATION_ERROR, `Room ${room.name} of ${room.buildingCode} is already listed at ${fileRooms.get(key)!.source}`);
+        continue;
+      }
+      fileRooms.set(key, room);
+
+      const current = existingBuilding?.rooms.find(r => r.name === room.name);
+      const roomError = this.validateRoom(room, current);
+      if (roomError) {
+        error(room.source, ErrorCode.VALIDATION_ERROR, roomError);
+        continue;
+      }
+      checkName(room.source, room.name, !current, 'rooms');
+      checkDistance(room.source, room.distance);
+
+      const currentFloorNumber = current && existingBuilding!.floors.find(f => f.id === current.floorId)?.number;
+      const change = record(
+        report.rooms,
+        key,
+        current && { ...current, floorNumber: currentFloorNumber },
+        {
+          floorNumber: room.floorNumber,
+          capacity: room.capacity,
+          rows: room.rows,
+          cols: room.cols,
+          distance: room.distance,
+          layout: room.layout,
+        }
+      );
+
+      if (current && change.changes && ['capacity', 'rows', 'cols', 'layout'].some(f => f in change.changes!)) {
+        change.seatChanges = await SeatRegenerationService.previewChanges(current.id, this.targetSeats(room, current).seats);
+      }
+    }
+
+    for (const list of [report.blocks, report.buildings, report.floors, report.rooms]) {
+      for (const change of list) {
+        report.summary[change.action === 'create' ? 'created' : change.action === 'update' ? 'updated' : 'unchanged']++;
+      }
+    }
+    report.valid = errors.length === 0;
+    return report;
+  }
+
+  /**
+   * Checks a room's dimensions, merged with the stored room when it already exists.
+   */
+  private static validateRoom(room: FlatRoom, current?: { capacity: number; rows: number; cols: number; layout: unknown }): string | null {
+    const layout = room.layout !== undefined ? room.layout : (current?.layout as RoomLayout | null | undefined);
+    if (room.layout) {
+      const layoutError = SeatGenerationService.validateLayout(room.layout);
+      if (layoutError) return layoutError;
+    }
+
+    for (const field of ['capacity', 'rows', 'cols'] as const) {
+      const value = room[field];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 1)) {
+        return `${field} must be a whole number of at least 1`;
+      }
+      // With a layout the dimensions, and by default the capacity, come from it
+      if (value === undefined && !current && !layout) {
+        return `${field} is required for new rooms`;
+      }
+    }
+
+    if (layout) {
+      const { seatCount } = SeatGenerationService.layoutDimensions(layout);
+      if ((room.capacity ?? current?.capacity ?? seatCount) > seatCount) {
+        return 'Capacity cannot exceed the number of seats in the layout';
+      }
+    } else if ((room.capacity ?? current!.capacity) > (room.rows ?? current!.rows) * (room.cols ?? current!.cols)) {
+      return 'Capacity cannot exceed the total seats from dimensions (rows * cols)';
+    }
+    return null;
+  }
+
+  /**
+   * The seats a room should have once the file's values are applied.
+   */
+  private static targetSeats(room: FlatRoom, current?: { capacity: number; rows: number; cols: number; layout: unknown }) {
+    const merged = {
+      capacity: room.capacity ?? current?.capacity ?? 0,
+      rows: room.rows ?? current?.rows ?? 0,
+      cols: room.cols ?? current?.cols ?? 0,
+      layout: room.layout !== undefined ? room.layout : (current?.layout as RoomLayout | null | undefined) ?? null,
+    };
+    if (merged.layout) {
+      const dimensions = SeatGenerationService.layoutDimensions(merged.layout);
+      merged.rows = dimensions.rows;
+      merged.cols = dimensions.cols;
+      merged.capacity = room.capacity ?? current?.capacity ?? dimensions.seatCount;
+    }
+    return { ...merged, seats: SeatGenerationService.buildSeats(SeatGenerationService.layoutForRoom(merged), merged.capacity) };
+  }
+
+  /**
+   * Validates and, unless `dryRun`, applies an import in a single transaction:
+   * blocks and buildings are upserted by code, floors by number and rooms by
+   * name within their building. New rooms get seats; rooms whose dimensions
+   * change have them regenerated, keeping surviving seats. Nothing in the
+   * database that is missing from the file is removed.
+   *
+   * Returns the report and the seat changes of updated rooms, so the caller can
+   * reseat displaced students once the transaction has committed.
+   */
+  static async importHierarchy(
+    format: HierarchyFormat,
+    content: string,
+    dryRun: boolean
+  ): Promise<{ report: HierarchyImportReport; regeneratedRooms: { id: string; buildingId: string; key: string; seatChanges: SeatChangeReport }[] }> {
+    const { hierarchy, errors } = this.parseFile(format, content);
+    const report = await this.planImport(hierarchy, errors);
+    report.dryRun = dryRun;
+
+    if (dryRun || !report.valid) {
+      return { report, regeneratedRooms: [] };
+    }
+
+    const regeneratedRooms = await prisma.$transaction(async (tx) => {
+      const blockIds = new Map<string, string>();
+      const buildingIds = new Map<string, string>();
+      const floorIds = new Map<string, string>();
+      const regenerated: { id: string; buildingId: string; key: string; seatChanges: SeatChangeReport }[] = [];
+
+      for (const block of hierarchy.blocks) {
+        const { code, name, distance } = block;
+        const saved = await tx.block.upsert({
+          where: { code },
+          create: { code, name: name!, distance: distance ?? 0 },
+          update: { name, distance },
+        });
+        blockIds.set(code, saved.id);
+      }
+
+      const blockId = async (code: string) =>
+        blockIds.get(code) ?? (await tx.block.findUniqueOrThrow({ where: { code } })).id;
+
+      for (const building of hierarchy.buildings) {
+        const { code, name, distance } = building;
+        const parentId = await blockId(building.blockCode);
+        const saved = await tx.building.upsert({
+          where: { code },
+          create: { code, name: name!, distance: distance ?? 0, blockId: parentId },
+          update: { name, distance, blockId: parentId },
+        });
+        buildingIds.set(code, saved.id);
+      }
+
+      const buildingId = async (code: string) =>
+        buildingIds.get(code) ?? (await tx.building.findUniqueOrThrow({ where: { code } })).id;
+
+      for (const floor of hierarchy.floors) {
+        const parentId = await buildingId(floor.buildingCode);
+        const current = await tx.floor.findFirst({ where: { buildingId: parentId, number: floor.number } });
+        const saved = current
+          ? await tx.floor.update({
+              where: { id: current.id },
+              data: { name: floor.name, distance: floor.distance },
+            })
+          : await tx.floor.create({
+              data: { buildingId: parentId, number: floor.number, name: floor.name!, distance: floor.distance ?? 0 },
+            });
+        floorIds.set(floorKey(floor.buildingCode, floor.number), saved.id);
+      }
+
+      for (const room of hierarchy.rooms) {
+        const parentId = await buildingId(room.buildingCode);
+        const floorId = floorIds.get(floorKey(room.buildingCode, room.floorNumber))
+          ?? (await tx.floor.findFirstOrThrow({ where: { buildingId: parentId, number: room.floorNumber } })).id;
+        const current = await tx.room.findFirst({ where: { buildingId: parentId, name: room.name } });
+        const target = this.targetSeats(room, current ?? undefined);
+        const layout = target.layout === null
+          ? Prisma.DbNull
+          : (target.layout as unknown as Prisma.InputJsonValue);
+
+        if (!current) {
+          const created = await tx.room.create({
+            data: {
+              buildingId: parentId,
+              floorId,
+              name: room.name,
+              capacity: target.capacity,
+              rows: target.rows,
+              cols: target.cols,
+              layout,
+              distance: room.distance ?? 0,
+            },
+          });
+          await SeatGenerationService.replaceSeats(tx, created.id, target.seats);
+          continue;
+        }
+
+        const change = report.rooms.find(c => c.key === roomKey(room.buildingCode, room.name));
+        if (change?.action !== 'update') continue;
+
+        await tx.room.update({
+          where: { id: current.id },
+          data: {
+            floorId,
+            capacity: target.capacity,
+            rows: target.rows,
+            cols: target.cols,
+            layout,
+            distance: room.distance,
+            version: { increment: 1 },
+          },
+        });
+        if (change.seatChanges) {
+          const seatChanges = await SeatRegenerationService.applyChanges(tx, current.id, target.seats);
+          regenerated.push({ id: current.id, buildingId: parentId, key: change.key, seatChanges });
+        }
+      }
+
+      return regenerated;
+    }, { timeout: 60000 });
+
+    return { report, regeneratedRooms };
+  }
+}
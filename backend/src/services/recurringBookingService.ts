@@ -0,0 +1,271 @@
+import {
+  PrismaClient,
+  Branch,
+  BookingStatus,
+} from "../../generated/prisma/client";
+import { ErrorCode } from "../utils/errorHandler";
+import { BookingBufferService } from "./bookingBufferService";
+
+const prisma = new PrismaClient();
+
+/** Upper bound on occurrences generated for one series. */
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/**
+ * Weekly recurrence, modelled on RRULE FREQ=WEEKLY;BYDAY=...;UNTIL|COUNT.
+ * Weekdays use Date#getDay numbering (0 = Sunday … 6 = Saturday) in the
+ * server's time zone. Exactly one of `until` or `count` is expected; `until`
+ * names the last day of the series, whatever its time of day.
+ */
+export interface RecurrenceRule {
+  byWeekday: number[];
+  until?: Date;
+  count?: number;
+}
+
+export interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface OccurrenceConflict extends Occurrence {
+  code:
+    | ErrorCode.ROOM_NOT_AVAILABLE
+    | ErrorCode.TEACHER_TIME_CONFLICT
+    | ErrorCode.ROOM_BLACKED_OUT;
+  message: string;
+  conflictingBookingId?: string;
+  conflictingBlackoutId?: string;
+}
+
+export interface SeriesRequest {
+  teacherId: string;
+  roomId: string;
+  branch: Branch;
+  capacity: number;
+  recurrence: RecurrenceRule;
+  occurrences: Occurrence[];
+  skipConflicts?: boolean;
+  // Occurrences are created as PendingApproval instead of NotStarted
+  requiresApproval?: boolean;
+}
+
+// Bookings waiting for approval hold their slot as well
+const ACTIVE_STATUSES: BookingStatus[] = [
+  "PendingApproval",
+  "NotStarted",
+  "Ongoing",
+];
+
+export class RecurringBookingService {
+  /**
+   * Reads a recurrence end date from a request. A date without a time is that
+   * day in the server's time zone rather than midnight UTC.
+   */
+  static parseUntil(value: string): Date {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00`)
+      : new Date(value);
+  }
+
+  /**
+   * Expands a recurrence into concrete occurrences, starting with the first
+   * matching weekday on or after `startTime`. Every occurrence keeps the
+   * wall-clock start time and the duration of the first one.
+   */
+  static expandOccurrences(
+    startTime: Date,
+    endTime: Date,
+    rule: RecurrenceRule
+  ): Occurrence[] {
+    const durationMs = endTime.getTime() - startTime.getTime();
+    const weekdays = new Set(rule.byWeekday);
+    const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+    const occurrences: Occurrence[] = [];
+
+    if (weekdays.size === 0) return occurrences;
+
+    const cursor = new Date(startTime);
+    // A week with no matching weekday cannot exist, so this bounds the scan
+    const lastDay = new Date(startTime);
+    lastDay.setDate(lastDay.getDate() + (MAX_SERIES_OCCURRENCES + 1) * 7);
+    const untilEndOfDay = rule.until ? new Date(rule.until) : null;
+    untilEndOfDay?.setHours(23, 59, 59, 999);
+
+    while (occurrences.length < limit && cursor <= lastDay) {
+      if (untilEndOfDay && cursor > untilEndOfDay) break;
+      if (weekdays.has(cursor.getDay())) {
+        occurrences.push({
+          startTime: new Date(cursor),
+          endTime: new Date(cursor.getTime() + durationMs),
+        });
+      }
+      cursor.setDate(cursor.getDate() + 1);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Runs the room-overlap and teacher time-conflict checks for every
+   * occurrence and reports each clash separately.
+   */
+  static async findConflicts(
+    teacherId: string,
+    roomId: string,
+    occurrences: Occurrence[]
+  ): Promise<OccurrenceConflict[]> {
+    if (occurrences.length === 0) return [];
+
+    const windowStart = occurrences[0].startTime;
+    const windowEnd = occurrences[occurrences.length - 1].endTime;
+    const buffers = await BookingBufferService.forRoom(roomId);
+
+    const candidates = await prisma.roomBooking.findMany({
+      where: {
+        status: { in: ACTIVE_STATUSES },
+        OR: [
+          {
+            roomId,
+            ...BookingBufferService.overlapWhere(windowStart, windowEnd, buffers),
+          },
+          { teacherId, startTime: { lt: windowEnd }, endTime: { gt: windowStart } },
+        ],
+      },
+      include: { teacher: { select: { name: true } } },
+    });
+    const blackouts = await prisma.roomBlackout.findMany({
+      where: {
+        roomId,
+        startTime: { lt: windowEnd },
+        endTime: { gt: windowStart },
+      },
+    });
+
+    const conflicts: OccurrenceConflict[] = [];
+    for (const occurrence of occurrences) {
+      const overlapping = candidates.filter(
+        (b) => b.startTime < occurrence.endTime && b.endTime > occurrence.startTime
+      );
+
+      const blackout = blackouts.find(
+        (b) => b.startTime < occurrence.endTime && b.endTime > occurrence.startTime
+      );
+      if (blackout) {
+        conflicts.push({
+          ...occurrence,
+          code: ErrorCode.ROOM_BLACKED_OUT,
+          message: `Room closed: ${blackout.reason}.`,
+          conflictingBlackoutId: blackout.id,
+        });
+        continue;
+      }
+
+      const teacherClash = overlapping.find((b) => b.teacherId === teacherId);
+      if (teacherClash) {
+        conflicts.push({
+          ...occurrence,
+          code: ErrorCode.TEACHER_TIME_CONFLICT,
+          message: "You already have a booking during this occurrence.",
+          conflictingBookingId: teacherClash.id,
+        });
+        continue;
+      }
+
+      // Room clashes count the buffers around each booking
+      const roomClash = candidates.find(
+        (b) =>
+          b.roomId === roomId && BookingBufferService.overlaps(b, occurrence, buffers)
+      );
+      if (roomClash) {
+        conflicts.push({
+          ...occurrence,
+          code: ErrorCode.ROOM_NOT_AVAILABLE,
+          message: `Room already booked by ${roomClash.teacher.name}.`,
+          conflictingBookingId: roomClash.id,
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Creates the series and one booking per occurrence. When any occurrence
+   * conflicts, nothing is created unless `skipConflicts` is set, in which
+   * case only the free occurrences are booked. Throws SERIES_CONFLICT with
+   * `.conflicts` when nothing can be booked.
+   */
+  static async createSeries(request: SeriesRequest) {
+    const { occurrences } = request;
+    const conflicts = await this.findConflicts(
+      request.teacherId,
+      request.roomId,
+      occurrences
+    );
+    if (conflicts.length > 0 && !request.skipConflicts) {
+      const error: any = new Error("SERIES_CONFLICT");
+      error.conflicts = conflicts;
+      throw error;
+    }
+
+    const conflicting = new Set(conflicts.map((c) => c.startTime.getTime()));
+    const toBook = occurrences.filter((o) => !conflicting.has(o.startTime.getTime()));
+    if (toBook.length === 0) {
+      const error: any = new Error("SERIES_CONFLICT");
+      error.conflicts = conflicts;
+      throw error;
+    }
+
+    const series = await prisma.$transaction(async (tx) => {
+      const created = await tx.bookingSeries.create({
+        data: {
+          teacherId: request.teacherId,
+          roomId: request.roomId,
+          branch: request.branch,
+          capacity: request.capacity,
+          byWeekday: request.recurrence.byWeekday,
+          until: request.recurrence.until,
+          count: request.recurrence.count,
+        },
+      });
+
+      await tx.roomBooking.createMany({
+        data: toBook.map((o) => ({
+          roomId: request.roomId,
+          teacherId: request.teacherId,
+          branch: request.branch,
+          capacity: request.capacity,
+          startTime: o.startTime,
+          endTime: o.endTime,
+          status: request.requiresApproval
+            ? ("PendingApproval" as const)
+            : ("NotStarted" as const),
+          seriesId: created.id,
+        })),
+      });
+
+      return created;
+    });
+
+    const bookings = await prisma.roomBooking.findMany({
+      where: { seriesId: series.id },
+      include: {
+        room: {
+          include: {
+            building: {
+              include: {
+                block: true,
+              },
+            },
+            floor: true,
+          },
+        },
+        teacher: true,
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    return { series, bookings, skipped: conflicts };
+  }
+}
@@ -0,0 +1,55 @@
+import { PrismaClient } from "../../generated/prisma/client";
+
+const prisma = new PrismaClient();
+
+export class RoomBlackoutService {
+  /**
+   * Returns the first blackout of the room overlapping the time range, if any.
+   */
+  static async findOverlapping(roomId: string, startTime: Date, endTime: Date) {
+    return prisma.roomBlackout.findFirst({
+      where: {
+        roomId,
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  /**
+   * Active and pending bookings of the room that fall inside the time range,
+   * i.e. the bookings a blackout over that range would displace.
+   */
+  static async findAffectedBookings(
+    roomId: string,
+    startTime: Date,
+    endTime: Date
+  ) {
+    return prisma.roomBooking.findMany({
+      where: {
+        roomId,
+        status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime },
+      },
+      include: {
+        teacher: true,
+      },
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  /**
+   * Current and upcoming blackouts of a room, soonest first.
+   */
+  static async listForRoom(roomId: string) {
+    return prisma.roomBlackout.findMany({
+      where: {
+        roomId,
+        endTime: { gt: new Date() },
+      },
+      orderBy: { startTime: "asc" },
+    });
+  }
+}
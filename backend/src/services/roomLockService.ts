@@ -1,116 +1,302 @@
-import { Server } from "socket.io";
-
-interface RoomLock {
-  roomId: string;
-  userId: string;
+export interface TimeRange {
   startTime: Date;
   endTime: Date;
-  lockedAt: Date;
+}
+
+/**
+ * A held room lock. The fencing token grows with every acquisition, so a
+ * holder whose lease lapsed and was taken over can tell it no longer owns the
+ * slot, and its late release cannot drop the new holder's lock.
+ */
+export interface RoomLock {
+  roomId: string;
+  owner: string;
+  token: number;
+  keys: string[];
   expiresAt: Date;
 }
 
 /**
- * Service to manage room booking locks to prevent race conditions
- * Uses in-memory storage with automatic expiration
+ * Storage behind the room lock. Acquisition is all-or-nothing across keys so
+ * two requests locking overlapping bucket sets can never each hold half.
+ */
+export interface LockStore {
+  /** @returns the fencing token, or null if any key is already held */
+  acquire(keys: string[], owner: string, ttlMs: number): Promise<number | null>;
+  /** Drops only the keys still held under this token */
+  release(keys: string[], token: number): Promise<void>;
+  /** Whether every key is still held under this token */
+  isHeld(keys: string[], token: number): Promise<boolean>;
+  /** Owner of the first held key, if any */
+  holder(keys: string[]): Promise<string | null>;
+  /** Removes expired entries; stores that expire keys themselves return 0 */
+  cleanup(): Promise<number>;
+}
+
+export class RoomLockLostError extends Error {}
+
+interface MemoryEntry {
+  token: number;
+  owner: string;
+  expiresAt: number;
+}
+
+/**
+ * Single-process store for tests and local development
+ */
+export class InMemoryLockStore implements LockStore {
+  private entries: Map<string, MemoryEntry> = new Map();
+  private lastToken = 0;
+
+  private live(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async acquire(keys: string[], owner: string, ttlMs: number) {
+    if (keys.some((key) => this.live(key))) {
+      return null;
+    }
+
+    const token = ++this.lastToken;
+    const expiresAt = Date.now() + ttlMs;
+    for (const key of keys) {
+      this.entries.set(key, { token, owner, expiresAt });
+    }
+    return token;
+  }
+
+  async release(keys: string[], token: number) {
+    for (const key of keys) {
+      if (this.entries.get(key)?.token === token) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async isHeld(keys: string[], token: number) {
+    return keys.every((key) => this.live(key)?.token === token);
+  }
+
+  async holder(keys: string[]) {
+    for (const key of keys) {
+      const entry = this.live(key);
+      if (entry) return entry.owner;
+    }
+    return null;
+  }
+
+  async cleanup() {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+}
+
+export interface RedisEvalClient {
+  eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown>;
+}
+
+// Lock values are "<token>:<owner>"; KEYS[1] of the acquire script is the
+// fencing counter, the rest are the lock keys
+const ACQUIRE_SCRIPT = `
+for i = 2, #KEYS do
+  if redis.call('EXISTS', KEYS[i]) == 1 then return 0 end
+end
+local token = redis.call('INCR', KEYS[1])
+for i = 2, #KEYS do
+  redis.call('SET', KEYS[i], token .. ':' .. ARGV[1], 'PX', ARGV[2])
+end
+return token`;
+
+const RELEASE_SCRIPT = `
+for i = 1, #KEYS do
+  local value = redis.call('GET', KEYS[i])
+  if value and string.match(value, '^(%d+):') == ARGV[1] then
+    redis.call('DEL', KEYS[i])
+  end
+end
+return 0`;
+
+const IS_HELD_SCRIPT = `
+for i = 1, #KEYS do
+  local value = redis.call('GET', KEYS[i])
+  if not value or string.match(value, '^(%d+):') ~= ARGV[1] then return 0 end
+end
+return 1`;
+
+const HOLDER_SCRIPT = `
+for i = 1, #KEYS do
+  local value = redis.call('GET', KEYS[i])
+  if value then return value end
+end
+return false`;
+
+/**
+ * Store shared by every backend instance; keys expire in Redis itself
+ */
+export class RedisLockStore implements LockStore {
+  constructor(
+    private client: RedisEvalClient,
+    private fenceKey: string = "room-lock:fence"
+  ) {}
+
+  async acquire(keys: string[], owner: string, ttlMs: number) {
+    const token = Number(
+      await this.client.eval(ACQUIRE_SCRIPT, [this.fenceKey, ...keys], [owner, ttlMs])
+    );
+    return token > 0 ? token : null;
+  }
+
+  async release(keys: string[], token: number) {
+    await this.client.eval(RELEASE_SCRIPT, keys, [token]);
+  }
+
+  async isHeld(keys: string[], token: number) {
+    return Number(await this.client.eval(IS_HELD_SCRIPT, keys, [token])) === 1;
+  }
+
+  async holder(keys: string[]) {
+    const value = await this.client.eval(HOLDER_SCRIPT, keys, []);
+    return typeof value === "string" ? value.slice(value.indexOf(":") + 1) : null;
+  }
+
+  async cleanup() {
+    return 0;
+  }
+}
+
+const DEFAULT_BUCKET_MINUTES = 60;
+
+/**
+ * Service to manage room booking locks to prevent race conditions.
+ * Locks cover fixed-size time buckets of a room, so any two overlapping
+ * ranges share at least one key; with a bucket size of 0 the whole room is
+ * locked instead.
  */
 export class RoomLockService {
-  private locks: Map<string, RoomLock> = new Map();
-  private readonly LOCK_DURATION_MS = 30000; // 30 seconds to complete booking
+  private readonly bucketMs: number;
+  private readonly ttlMs: number;
+
+  constructor(
+    private store: LockStore,
+    options: { bucketMinutes?: number; ttlMs?: number } = {}
+  ) {
+    // A bad bucket size would lock nothing (NaN) or never stop adding keys
+    // (negative), so it falls back to the default
+    let bucketMinutes = options.bucketMinutes ?? DEFAULT_BUCKET_MINUTES;
+    if (!Number.isInteger(bucketMinutes) || bucketMinutes < 0) {
+      console.warn(
+        `Invalid room lock bucket size ${bucketMinutes}, using ${DEFAULT_BUCKET_MINUTES} minutes`
+      );
+      bucketMinutes = DEFAULT_BUCKET_MINUTES;
+    }
+    this.bucketMs = bucketMinutes * 60 * 1000;
+    this.ttlMs = options.ttlMs ?? 30000; // 30 seconds to complete booking
+  }
 
   /**
-   * Generate a unique lock key for a room and time slot
+   * Switches to another store; call at startup, before any lock is taken
    */
-  private getLockKey(roomId: string, startTime: Date, endTime: Date): string {
-    return `${roomId}:${startTime.toISOString()}:${endTime.toISOString()}`;
+  useStore(store: LockStore): void {
+    this.store = store;
   }
 
   /**
-   * Attempt to acquire a lock for a room booking
-   * @returns true if lock acquired, false if already locked
+   * Keys covering every bucket the ranges touch
    */
-  acquireLock(
-    roomId: string,
-    userId: string,
-    startTime: Date,
-    endTime: Date
-  ): boolean {
-    const lockKey = this.getLockKey(roomId, startTime, endTime);
-    const existingLock = this.locks.get(lockKey);
-
-    // Check if lock exists and hasn't expired
-    if (existingLock) {
-      if (existingLock.expiresAt > new Date()) {
-        // Lock is still valid
-        return existingLock.userId === userId; // Only same user can proceed
-      } else {
-        // Lock expired, remove it
-        this.locks.delete(lockKey);
+  lockKeys(roomId: string, ranges: TimeRange[]): string[] {
+    if (this.bucketMs === 0) {
+      return [`room-lock:${roomId}`];
+    }
+
+    const keys = new Set<string>();
+    for (const { startTime, endTime } of ranges) {
+      const end = endTime.getTime();
+      let bucket = Math.floor(startTime.getTime() / this.bucketMs) * this.bucketMs;
+      for (; bucket < end; bucket += this.bucketMs) {
+        keys.add(`room-lock:${roomId}:${bucket}`);
       }
     }
+    return [...keys].sort();
+  }
+
+  /**
+   * Attempt to lock a room for one or more time ranges at once
+   * @returns the lock, or null if another request holds any part of it
+   */
+  async acquireLock(
+    roomId: string,
+    owner: string,
+    ranges: TimeRange | TimeRange[]
+  ): Promise<RoomLock | null> {
+    const keys = this.lockKeys(roomId, Array.isArray(ranges) ? ranges : [ranges]);
+    const token = await this.store.acquire(keys, owner, this.ttlMs);
+    if (token === null) {
+      return null;
+    }
 
-    // Acquire new lock
-    const lock: RoomLock = {
+    return {
       roomId,
-      userId,
-      startTime,
-      endTime,
-      lockedAt: new Date(),
-      expiresAt: new Date(Date.now() + this.LOCK_DURATION_MS),
+      owner,
+      token,
+      keys,
+      expiresAt: new Date(Date.now() + this.ttlMs),
     };
-
-    this.locks.set(lockKey, lock);
-    return true;
   }
 
   /**
-   * Release a lock after booking is complete or failed
+   * Release a lock after booking is complete or failed; safe to call with
+   * no lock or with one that has since been taken over
    */
-  releaseLock(roomId: string, startTime: Date, endTime: Date): void {
-    const lockKey = this.getLockKey(roomId, startTime, endTime);
-    this.locks.delete(lockKey);
+  async releaseLock(lock: RoomLock | null | undefined): Promise<void> {
+    if (lock) {
+      await this.store.release(lock.keys, lock.token);
+    }
   }
 
   /**
-   * Get the current lock holder for a room/time slot
+   * Best-effort check of the fencing token right before writing. The write
+   * goes to the database, not the store, so the lease can still lapse between
+   * this check and the write; the overlap exclusion constraints are what
+   * finally keeps such a write out.
+   * @throws RoomLockLostError if the lease already lapsed or was taken over
    */
-  getLockHolder(roomId: string, startTime: Date, endTime: Date): string | null {
-    const lockKey = this.getLockKey(roomId, startTime, endTime);
-    const lock = this.locks.get(lockKey);
-
-    if (lock && lock.expiresAt > new Date()) {
-      return lock.userId;
+  async checkStillHeld(lock: RoomLock): Promise<void> {
+    if (!(await this.store.isHeld(lock.keys, lock.token))) {
+      throw new RoomLockLostError();
     }
-
-    return null;
   }
 
   /**
-   * Clean up expired locks (called periodically)
+   * Get the current lock holder for a room/time slot
    */
-  cleanupExpiredLocks(): number {
-    const now = new Date();
-    let cleaned = 0;
-
-    for (const [key, lock] of this.locks.entries()) {
-      if (lock.expiresAt <= now) {
-        this.locks.delete(key);
-        cleaned++;
-      }
-    }
-
-    return cleaned;
+  async getLockHolder(roomId: string, range: TimeRange): Promise<string | null> {
+    return this.store.holder(this.lockKeys(roomId, [range]));
   }
 
   /**
-   * Get all active locks (for debugging)
+   * Clean up expired locks (called periodically)
    */
-  getActiveLocks(): RoomLock[] {
-    const now = new Date();
-    return Array.from(this.locks.values()).filter(
-      (lock) => lock.expiresAt > now
-    );
+  async cleanupExpiredLocks(): Promise<number> {
+    return this.store.cleanup();
   }
 }
 
-// Singleton instance
-export const roomLockService = new RoomLockService();
+// Singleton instance; the server switches it to a RedisLockStore when
+// ROOM_LOCK_STORE=redis so locks are shared across instances
+export const roomLockService = new RoomLockService(new InMemoryLockStore(), {
+  bucketMinutes: process.env.ROOM_LOCK_BUCKET_MINUTES
+    ? Number(process.env.ROOM_LOCK_BUCKET_MINUTES)
+    : undefined,
+});
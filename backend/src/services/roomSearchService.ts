@@ -6,7 +6,12 @@ import {
   Floor,
   Block,
   RoomBooking,
+  Amenity,
 } from "../../generated/prisma/client";
+import { LocationGraphService, nodeKey } from "./locationGraphService";
+import { BookingBufferService, BookingBuffers } from "./bookingBufferService";
+import { TimeRange } from "./roomLockService";
+import { BookingPolicyService } from "./bookingPolicyService";
 
 const prisma = new PrismaClient();
 
@@ -44,6 +49,9 @@ class SimpleCache {
 // Initialize cache with 5-minute TTL
 const searchCache = new SimpleCache(300);
 
+// "require" drops rooms that cannot be reached without steps, "prefer" ranks them down
+export type StepFreeMode = "require" | "prefer";
+
 export interface SearchCriteria {
   capacity: number;
   branch: Branch;
@@ -59,6 +67,12 @@ export interface SearchCriteria {
     buildingId?: string;
     floorId?: string;
   };
+  stepFree?: StepFreeMode;
+  // Rooms lacking any required amenity are left out; preferred ones add points
+  requiredAmenityIds?: string[];
+  preferredAmenityIds?: string[];
+  // Searching teacher, whose active bookings count against each room's quota
+  teacherId?: string;
 }
 
 export interface RoomWithHierarchy extends Room {
@@ -67,17 +81,31 @@ export interface RoomWithHierarchy extends Room {
       block: Block;
     };
   };
+  amenities: Amenity[];
 }
 
 export interface RoomRecommendation {
   room: RoomWithHierarchy;
   distance: number;
   score: number;
+  // Why the room was ranked down or excluded, in plain words
+  reasons: string[];
+  excluded?: boolean;
+  // Buffers of the room and the time it would really be occupied
+  buffers: BookingBuffers;
+  effectiveWindow: TimeRange;
 }
 
+// Points taken off a room that is not reachable step-free when it is only preferred
+const STEP_FREE_PENALTY = 30;
+
+// Points shared out between the preferred amenities a room offers
+const PREFERRED_AMENITIES_POINTS = 10;
+
 export class RoomSearchService {
   /**
-   * Calculate distance between a room and a reference location based on hierarchy
+   * Calculate distance between a room and a reference location based on hierarchy.
+   * Used when no walking graph is defined or the room's floor is not reachable on it.
    */
   static calculateDistance(
     room: RoomWithHierarchy,
@@ -134,17 +162,61 @@ export class RoomSearchService {
   }
 
   /**
-   * Check if a room has overlapping bookings for the given time range
+   * Explains why a room cannot be reached step-free, naming the first barrier
+   */
+  static stepFreeReason(
+    room: RoomWithHierarchy,
+    referenceLocation: { buildingId?: string }
+  ): string {
+    const { floor } = room;
+    if (!floor.stepFreeAccess) {
+      return `No step-free access to ${floor.name} in ${floor.building.name}`;
+    }
+    if (
+      !floor.building.stepFreeEntrance &&
+      referenceLocation.buildingId !== floor.buildingId
+    ) {
+      return `${floor.building.name} has no step-free entrance`;
+    }
+    return "No step-free route from your current location";
+  }
+
+  /**
+   * Check if a room has overlapping bookings for the given time range, with
+   * the room's buffers around both (resolved from the room when not given)
    */
   static async hasOverlappingBooking(
     roomId: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    buffers?: BookingBuffers
   ): Promise<boolean> {
     const count = await prisma.roomBooking.count({
       where: {
         roomId,
-        status: { in: ["NotStarted", "Ongoing"] },
+        status: { in: ["PendingApproval", "NotStarted", "Ongoing"] },
+        ...BookingBufferService.overlapWhere(
+          startTime,
+          endTime,
+          buffers ?? (await BookingBufferService.forRoom(roomId))
+        ),
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Check if a room is blacked out (closed) during any part of the time range
+   */
+  static async hasOverlappingBlackout(
+    roomId: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<boolean> {
+    const count = await prisma.roomBlackout.count({
+      where: {
+        roomId,
         AND: [{ startTime: { lt: endTime } }, { endTime: { gt: startTime } }],
       },
     });
@@ -159,7 +231,8 @@ export class RoomSearchService {
     room: RoomWithHierarchy,
     criteria: SearchCriteria,
     isAvailable: boolean,
-    distance: number
+    distance: number,
+    stepFreeReachable: boolean = true
   ): number {
     let score = 0;
 
@@ -191,6 +264,19 @@ export class RoomSearchService {
       score += proximityScore;
     }
 
+    // 4. Preferred Amenities Score (10 points max), split evenly between them
+    const preferred = criteria.preferredAmenityIds ?? [];
+    if (preferred.length > 0) {
+      const offered = new Set(room.amenities.map((amenity) => amenity.id));
+      const matched = preferred.filter((id) => offered.has(id)).length;
+      score += (PREFERRED_AMENITIES_POINTS * matched) / preferred.length;
+    }
+
+    // 5. Step-free access penalty, when step-free access is preferred
+    if (criteria.stepFree === "prefer" && !stepFreeReachable) {
+      score = Math.max(0, score - STEP_FREE_PENALTY);
+    }
+
     return score;
   }
 
@@ -208,6 +294,10 @@ export class RoomSearchService {
       endTime: criteria.endTime.toISOString(),
       currentLocation: criteria.currentLocation,
       preferredLocation: criteria.preferredLocation,
+      stepFree: criteria.stepFree,
+      requiredAmenityIds: [...(criteria.requiredAmenityIds ?? [])].sort(),
+      preferredAmenityIds: [...(criteria.preferredAmenityIds ?? [])].sort(),
+      teacherId: criteria.teacherId,
     });
 
     // Check cache first
@@ -237,6 +327,13 @@ export class RoomSearchService {
       }
     }
 
+    // Only rooms offering every required amenity
+    if (criteria.requiredAmenityIds && criteria.requiredAmenityIds.length > 0) {
+      whereClause.AND = criteria.requiredAmenityIds.map((id) => ({
+        amenities: { some: { id } },
+      }));
+    }
+
     // Fetch rooms based on criteria
     const rooms = await prisma.room.findMany({
       where: whereClause,
@@ -250,38 +347,137 @@ export class RoomSearchService {
             },
           },
         },
+        amenities: { orderBy: { name: "asc" } },
       },
     });
 
+    // Names of the preferred amenities, to say which ones a room lacks
+    const preferredAmenities =
+      criteria.preferredAmenityIds && criteria.preferredAmenityIds.length > 0
+        ? await prisma.amenity.findMany({
+            where: { id: { in: criteria.preferredAmenityIds } },
+          })
+        : [];
+
+    // Shortest walking distances from the current location, when a graph exists
+    const floorDistances = await LocationGraphService.floorDistancesFrom(
+      criteria.currentLocation
+    );
+
+    // Floors reachable without steps, only needed when the search asks for it
+    const stepFreeFloors = criteria.stepFree
+      ? await LocationGraphService.stepFreeFloorsFrom(criteria.currentLocation)
+      : null;
+
+    // Booking policies are resolved per room; rooms the teacher may not book
+    // for this slot are listed as excluded with the rule they break
+    const policies = await BookingPolicyService.loadPolicies();
+    const activeBookings = criteria.teacherId
+      ? await BookingPolicyService.activeBookingCount(criteria.teacherId)
+      : null;
+
     // Calculate scores for each room
     const recommendations: RoomRecommendation[] = [];
 
     for (const room of rooms) {
-      // Check availability
-      const isAvailable = !(await this.hasOverlappingBooking(
+      const reasons: string[] = [];
+
+      // Check availability; a blackout makes the room as unavailable as a booking
+      const buffers = BookingBufferService.resolve(room, room.floor.building);
+      const isBooked = await this.hasOverlappingBooking(
         room.id,
         criteria.startTime,
-        criteria.endTime
-      ));
+        criteria.endTime,
+        buffers
+      );
+      const isBlackedOut =
+        !isBooked &&
+        (await this.hasOverlappingBlackout(
+          room.id,
+          criteria.startTime,
+          criteria.endTime
+        ));
+      const isAvailable = !isBooked && !isBlackedOut;
+      if (isBooked) {
+        // Say when only the buffers around a neighbouring booking are in the way
+        const bookedOutright =
+          (buffers.beforeMinutes === 0 && buffers.afterMinutes === 0) ||
+          (await this.hasOverlappingBooking(
+            room.id,
+            criteria.startTime,
+            criteria.endTime,
+            { beforeMinutes: 0, afterMinutes: 0 }
+          ));
+        reasons.push(
+          bookedOutright
+            ? "Already booked during this time"
+            : `Too close to another booking. ${BookingBufferService.describe(buffers)}`
+        );
+      } else if (isBlackedOut) {
+        reasons.push("Closed during this time");
+      }
 
-      // Calculate distance from current location
-      const distance = this.calculateDistance(
-        room as any,
-        criteria.currentLocation
+      if (room.capacity > criteria.capacity) {
+        reasons.push(
+          `${room.capacity - criteria.capacity} more seats than needed`
+        );
+      }
+
+      const missingPreferred = preferredAmenities.filter(
+        (amenity) => !room.amenities.some((offered) => offered.id === amenity.id)
       );
+      if (missingPreferred.length > 0) {
+        reasons.push(
+          `No ${missingPreferred.map((amenity) => amenity.name).join(", ")}`
+        );
+      }
+
+      const rules = BookingPolicyService.rulesFor(policies, room);
+      const policyViolation =
+        BookingPolicyService.checkSlot(rules, criteria) ??
+        (activeBookings !== null
+          ? BookingPolicyService.quotaViolation(rules, activeBookings)
+          : null);
+      if (policyViolation) {
+        reasons.push(policyViolation.message);
+      }
+
+      const stepFreeReachable =
+        !stepFreeFloors || stepFreeFloors.has(room.floorId);
+      if (!stepFreeReachable) {
+        reasons.push(this.stepFreeReason(room, criteria.currentLocation));
+      }
+
+      // Calculate distance from current location
+      const floorDistance = floorDistances?.get(nodeKey("Floor", room.floorId));
+      const distance =
+        floorDistance !== undefined
+          ? floorDistance + room.distance
+          : this.calculateDistance(room, criteria.currentLocation);
 
       // Calculate score
       const score = this.calculateRoomScore(
         room as any,
         criteria,
         isAvailable,
-        distance
+        distance,
+        stepFreeReachable
       );
 
       recommendations.push({
         room: room as any,
         distance,
         score,
+        reasons,
+        excluded:
+          (criteria.stepFree === "require" && !stepFreeReachable) ||
+          policyViolation !== null,
+        buffers,
+        effectiveWindow: BookingBufferService.effectiveWindow(
+          criteria.startTime,
+          criteria.endTime,
+          buffers
+        ),
       });
     }
 
@@ -1,95 +1,235 @@
-import { PrismaClient, SeatStatus } from '../../generated/prisma/client';
+import { PrismaClient, Prisma, SeatStatus } from '../../generated/prisma/client';
+
+// Where the stage (or board) is, relative to the seat grid as drawn:
+// 'front' is above row 0, 'back' below the last row, 'left'/'right' beside the columns.
+export type StageOrientation = 'front' | 'back' | 'left' | 'right';
+
+export interface RoomLayoutRow {
+  // Number of seats in the row
+  seats: number;
+  // Grid column of the first seat; lets shorter or curved rows be indented
+  offset?: number;
+}
+
+export interface RoomLayout {
+  rows: RoomLayoutRow[];
+  // Grid columns that are followed by an aisle
+  aislesAfter: number[];
+  // Grid cells with no seat (pillars, gaps); seats in the row continue after them
+  blocked: { row: number; col: number }[];
+  stage: StageOrientation;
+}
+
+export interface GeneratedSeat {
+  label: string;
+  row: number;
+  col: number;
+  features: string[];
+}
+
+// Features the generator derives from a seat's position; everything else is set by admins
+export const POSITIONAL_FEATURES = ['front_seat', 'middle_seat', 'aisle_seat'];
+
+const STAGE_ORIENTATIONS: StageOrientation[] = ['front', 'back', 'left', 'right'];
+const MAX_LAYOUT_ROWS = 26; // Row labels are single letters
+const MAX_LAYOUT_COLS = 100;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A row or column number: a whole number, zero or more
+const isGridIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isGridCell = (value: unknown): value is { row: number; col: number } =>
+  isRecord(value) && isGridIndex(value.row) && isGridIndex(value.col);
+
+const isStageOrientation = (value: unknown): value is StageOrientation =>
+  typeof value === 'string' && (STAGE_ORIENTATIONS as string[]).includes(value);
 
 export class SeatGenerationService {
-  static async generateSeatsForRoom(roomId: string, capacity: number, rows: number, cols: number, prisma: PrismaClient): Promise<void> {
-
-    const seatsData: Array<{ roomId: string; label: string; row: number; col: number; features: string[]; status: SeatStatus; version: number; }> = [];
-    let createdSeatsCount = 0;
-
-    // --- NEW LOGIC for defining seat banks ---
-    const banks: { startCol: number; endCol: number }[] = [];
-    // This logic mimics the frontend's visual split after the 3rd column (index 2)
-    // to create a main aisle for wider rooms.
-    const aisleAfterColIndex = 2; 
-    if (cols > 3) {
-        banks.push({ startCol: 0, endCol: aisleAfterColIndex });
-        banks.push({ startCol: aisleAfterColIndex + 1, endCol: cols - 1 });
-    } else {
-        // For narrow rooms, treat as a single bank
-        banks.push({ startCol: 0, endCol: cols - 1 });
+  /**
+   * The layout a plain rows×cols room has always had: full rows and a single
+   * aisle after the 3rd column for rooms wider than 3 seats.
+   */
+  static defaultLayout(rows: number, cols: number): RoomLayout {
+    return {
+      rows: Array.from({ length: rows }, () => ({ seats: cols })),
+      aislesAfter: cols > 3 ? [2] : [],
+      blocked: [],
+      stage: 'front',
+    };
+  }
+
+  /**
+   * Returns the room's stored layout, or the default one derived from its dimensions.
+   */
+  static layoutForRoom(room: { rows: number; cols: number; layout?: unknown }): RoomLayout {
+    return (room.layout as RoomLayout | null) ?? this.defaultLayout(room.rows, room.cols);
+  }
+
+  /**
+   * Checks a layout received from a client. Returns an error message, or null when valid.
+   */
+  static validateLayout(layout: unknown): string | null {
+    if (!isRecord(layout)) return 'Layout must be an object';
+    const { rows, aislesAfter, blocked, stage } = layout;
+    if (!Array.isArray(rows) || rows.length === 0) return 'Layout must have at least one row';
+    if (rows.length > MAX_LAYOUT_ROWS) return `Layout cannot have more than ${MAX_LAYOUT_ROWS} rows`;
+    if (!isStageOrientation(stage)) return `Stage must be one of: ${STAGE_ORIENTATIONS.join(', ')}`;
+    if (!Array.isArray(aislesAfter) || !aislesAfter.every(isGridIndex)) {
+      return 'Aisles must be a list of column indexes';
     }
-    // --- END NEW LOGIC ---
-
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        if (createdSeatsCount >= capacity) break;
-
-        const label = `${String.fromCharCode(65 + row)}${col + 1}`;
-        const features: string[] = [];
-
-        // Add positional features based on row
-        // Front seat = first row only
-        if (row === 0) {
-          features.push('front_seat');
-        }
-        // Note: Last row doesn't get a special tag
-
-        // Aisle seat tagging (outer edges of room and inner edges of banks)
-        const isOuterAisle = col === 0 || col === cols - 1;
-        let isInnerAisle = false;
-        if (banks.length > 1) {
-            isInnerAisle = banks.some(bank => (col === bank.endCol || col === bank.startCol));
-        }
-        if (isOuterAisle || isInnerAisle) {
-            features.push('aisle_seat');
-        }
-
-        // Middle seat = seats that are NOT on the edges of their bank (not aisle seats within the bank)
-        // Find which bank this column belongs to
-        const currentBank = banks.find(bank => col >= bank.startCol && col <= bank.endCol);
-        if (currentBank) {
-          const bankWidth = currentBank.endCol - currentBank.startCol + 1;
-          const colInBank = col - currentBank.startCol;
-          // A seat is a middle seat if it's not on the edge of its bank and the bank has at least 3 seats
-          if (bankWidth >= 3 && colInBank > 0 && colInBank < bankWidth - 1) {
-            features.push('middle_seat');
-          }
-        }
-
-        seatsData.push({
-          roomId,
-          label,
-          row,
-          col,
-          features: [...new Set(features)], // Ensure no duplicate tags
-          status: SeatStatus.Available,
-          version: 1,
-        });
+    if (!Array.isArray(blocked) || !blocked.every(isGridCell)) {
+      return 'Blocked cells must be a list of { row, col } positions';
+    }
+
+    const layoutRows: RoomLayoutRow[] = [];
+    for (const [index, row] of rows.entries()) {
+      if (!isRecord(row) || !isGridIndex(row.seats)) {
+        return `Row ${index + 1} must have a whole number of seats`;
+      }
+      const { seats, offset } = row;
+      if (offset !== undefined && !isGridIndex(offset)) {
+        return `Row ${index + 1} has an invalid offset`;
+      }
+      layoutRows.push({ seats, offset });
+    }
+
+    const { cols, seatCount } = this.layoutDimensions({ rows: layoutRows, aislesAfter, blocked, stage });
+    if (seatCount === 0) return 'Layout must contain at least one seat';
+    if (cols > MAX_LAYOUT_COLS) return `Layout cannot be wider than ${MAX_LAYOUT_COLS} columns`;
+
+    return null;
+  }
+
+  /**
+   * Grid size and number of seats of a layout.
+   */
+  static layoutDimensions(layout: RoomLayout): { rows: number; cols: number; seatCount: number } {
+    const cells = this.layoutCells(layout);
+    const cols = cells.length > 0 ? Math.max(...cells.map(c => c.col)) + 1 : 0;
+    return { rows: layout.rows.length, cols, seatCount: cells.length };
+  }
 
-        createdSeatsCount++;
+  /**
+   * Grid positions of every seat in the layout, front row first and left to right.
+   */
+  private static layoutCells(layout: RoomLayout): { row: number; col: number; number: number }[] {
+    const blocked = new Set(layout.blocked.map(cell => `${cell.row}:${cell.col}`));
+    const cells: { row: number; col: number; number: number }[] = [];
+
+    layout.rows.forEach((layoutRow, row) => {
+      let col = layoutRow.offset ?? 0;
+      for (let number = 1; number <= layoutRow.seats; number++) {
+        while (blocked.has(`${row}:${col}`)) col++;
+        cells.push({ row, col, number });
+        col++;
+      }
+    });
+
+    return cells;
+  }
+
+  /**
+   * Builds the seats of a layout, up to `capacity`, with their positional features.
+   *
+   * Within a row, seats between two aisles (or an aisle and the row end) form a
+   * bank: the outer seats of a bank are aisle seats and, in banks of 3 or more,
+   * the others are middle seats. Front seats are the ones closest to the stage.
+   */
+  static buildSeats(layout: RoomLayout, capacity: number): GeneratedSeat[] {
+    const cells = this.layoutCells(layout);
+    const aisles = [...layout.aislesAfter].sort((a, b) => a - b);
+    const bankOf = (col: number) => aisles.filter(aisle => aisle < col).length;
+
+    let frontLine: (cell: { row: number; col: number }) => boolean;
+    switch (layout.stage) {
+      case 'back': {
+        const lastRow = Math.max(...cells.map(c => c.row));
+        frontLine = cell => cell.row === lastRow;
+        break;
+      }
+      case 'left': {
+        const firstCol = Math.min(...cells.map(c => c.col));
+        frontLine = cell => cell.col === firstCol;
+        break;
       }
-      if (createdSeatsCount >= capacity) break;
+      case 'right': {
+        const lastCol = Math.max(...cells.map(c => c.col));
+        frontLine = cell => cell.col === lastCol;
+        break;
+      }
+      default: {
+        const firstRow = Math.min(...cells.map(c => c.row));
+        frontLine = cell => cell.row === firstRow;
+      }
+    }
+
+    // Group each row's seats into banks
+    const banks = new Map<string, number[]>();
+    for (const cell of cells) {
+      const key = `${cell.row}:${bankOf(cell.col)}`;
+      banks.set(key, [...(banks.get(key) ?? []), cell.col]);
     }
 
+    return cells.slice(0, capacity).map(cell => {
+      const bank = banks.get(`${cell.row}:${bankOf(cell.col)}`)!;
+      const position = bank.indexOf(cell.col);
+      const features: string[] = [];
+
+      if (frontLine(cell)) {
+        features.push('front_seat');
+      }
+      if (position === 0 || position === bank.length - 1) {
+        features.push('aisle_seat');
+      } else if (bank.length >= 3) {
+        features.push('middle_seat');
+      }
+
+      return {
+        label: `${String.fromCharCode(65 + cell.row)}${cell.number}`,
+        row: cell.row,
+        col: cell.col,
+        features,
+      };
+    });
+  }
+
+  static async generateSeatsForRoom(roomId: string, capacity: number, rows: number, cols: number, prisma: PrismaClient, layout?: RoomLayout | null): Promise<void> {
+    const seats = this.buildSeats(layout ?? this.defaultLayout(rows, cols), capacity);
+
     // Use a transaction to delete old seats and create new ones atomically
     await prisma.$transaction(async (tx) => {
-        // Delete existing seats for this room to ensure a clean slate
-        await tx.seat.deleteMany({
-          where: { roomId },
-        });
-
-        // Create the new seats if any were generated
-        if (seatsData.length > 0) {
-          await tx.seat.createMany({
-            data: seatsData,
-          });
-        }
-
-        // Reset claimed count on the room
-        await tx.room.update({
-            where: { id: roomId },
-            data: { claimed: 0 }
-        });
+      await this.replaceSeats(tx, roomId, seats);
+    });
+  }
+
+  /**
+   * Replaces all seats of a room inside the caller's transaction and resets its claimed count.
+   */
+  static async replaceSeats(tx: Prisma.TransactionClient, roomId: string, seats: GeneratedSeat[]): Promise<void> {
+    // Delete existing seats for this room to ensure a clean slate
+    await tx.seat.deleteMany({
+      where: { roomId },
+    });
+
+    // Create the new seats if any were generated
+    if (seats.length > 0) {
+      await tx.seat.createMany({
+        data: seats.map(seat => ({
+          roomId,
+          ...seat,
+          status: SeatStatus.Available,
+          version: 1,
+        })),
+      });
+    }
+
+    // Reset claimed count on the room
+    await tx.room.update({
+      where: { id: roomId },
+      data: { claimed: 0 }
     });
   }
 }
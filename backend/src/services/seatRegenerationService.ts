@@ -0,0 +1,182 @@
+import { PrismaClient, Prisma, Seat, SeatStatus } from '../../generated/prisma/client';
+import { AllocationService } from './allocationService';
+import { GeneratedSeat, POSITIONAL_FEATURES } from './seatGenerationService';
+
+const prisma = new PrismaClient();
+
+export interface SeatChangeReport {
+  // Seats whose (row, col) survives; they keep their id, status and student
+  kept: number;
+  // Kept seats whose label or features changed
+  updated: number;
+  added: { label: string; row: number; col: number }[];
+  removed: {
+    seatId: string;
+    label: string;
+    row: number;
+    col: number;
+    status: SeatStatus;
+    studentId: string | null;
+  }[];
+  displacedStudentIds: string[];
+  // Filled in once the change is applied and displaced students were reseated
+  reallocations?: {
+    studentId: string;
+    fromSeatLabel: string;
+    success: boolean;
+    newSeatId: string | null;
+    newRoomId: string | null;
+    message: string;
+  }[];
+}
+
+interface SeatChangePlan {
+  report: SeatChangeReport;
+  toCreate: GeneratedSeat[];
+  toUpdate: { id: string; label: string; features: string[] }[];
+  toDelete: Seat[];
+}
+
+const positionKey = (seat: { row: number; col: number }) => `${seat.row}:${seat.col}`;
+const sameFeatures = (a: string[], b: string[]) => [...a].sort().join(',') === [...b].sort().join(',');
+
+export class SeatRegenerationService {
+  /**
+   * Diffs a room's current seats against the seats it should have, by grid
+   * position. With `keepCustomFeatures` a surviving seat keeps its
+   * admin-assigned features next to the target's positional ones; otherwise the
+   * target's features replace them.
+   */
+  static planChanges(existingSeats: Seat[], targets: GeneratedSeat[], keepCustomFeatures: boolean): SeatChangePlan {
+    const existingByPosition = new Map(existingSeats.map(seat => [positionKey(seat), seat]));
+    const targetPositions = new Set(targets.map(positionKey));
+
+    const toCreate: GeneratedSeat[] = [];
+    const toUpdate: SeatChangePlan['toUpdate'] = [];
+    let kept = 0;
+
+    for (const target of targets) {
+      const existing = existingByPosition.get(positionKey(target));
+      if (!existing) {
+        toCreate.push(target);
+        continue;
+      }
+
+      kept++;
+      const features = keepCustomFeatures
+        ? [...new Set([
+            ...target.features.filter(f => POSITIONAL_FEATURES.includes(f)),
+            ...existing.features.filter(f => !POSITIONAL_FEATURES.includes(f)),
+          ])]
+        : target.features;
+      if (existing.label !== target.label || !sameFeatures(existing.features, features)) {
+        toUpdate.push({ id: existing.id, label: target.label, features });
+      }
+    }
+
+    const toDelete = existingSeats.filter(seat => !targetPositions.has(positionKey(seat)));
+
+    return {
+      report: {
+        kept,
+        updated: toUpdate.length,
+        added: toCreate.map(({ label, row, col }) => ({ label, row, col })),
+        removed: toDelete.map(seat => ({
+          seatId: seat.id,
+          label: seat.label,
+          row: seat.row,
+          col: seat.col,
+          status: seat.status,
+          studentId: seat.studentId,
+        })),
+        displacedStudentIds: toDelete.filter(seat => seat.studentId).map(seat => seat.studentId!),
+      },
+      toCreate,
+      toUpdate,
+      toDelete,
+    };
+  }
+
+  /**
+   * Reports what regenerating the room's seats would change, without changing anything.
+   */
+  static async previewChanges(roomId: string, targets: GeneratedSeat[], keepCustomFeatures = true): Promise<SeatChangeReport> {
+    const existingSeats = await prisma.seat.findMany({ where: { roomId } });
+    return this.planChanges(existingSeats, targets, keepCustomFeatures).report;
+  }
+
+  /**
+   * Brings the room's seats in line with `targets` inside the caller's
+   * transaction: surviving seats are updated in place, missing ones created and
+   * the rest deleted. Students on deleted seats are left unseated; pass the
+   * report to `reallocateDisplaced` once the transaction has committed.
+   */
+  static async applyChanges(
+    tx: Prisma.TransactionClient,
+    roomId: string,
+    targets: GeneratedSeat[],
+    keepCustomFeatures = true
+  ): Promise<SeatChangeReport> {
+    const existingSeats = await tx.seat.findMany({ where: { roomId } });
+    const plan = this.planChanges(existingSeats, targets, keepCustomFeatures);
+
+    if (plan.toDelete.length > 0) {
+      await tx.seat.deleteMany({
+        where: { id: { in: plan.toDelete.map(seat => seat.id) } },
+      });
+    }
+
+    for (const update of plan.toUpdate) {
+      await tx.seat.update({
+        where: { id: update.id },
+        data: { label: update.label, features: update.features, version: { increment: 1 } },
+      });
+    }
+
+    if (plan.toCreate.length > 0) {
+      await tx.seat.createMany({
+        data: plan.toCreate.map(seat => ({
+          roomId,
+          ...seat,
+          status: SeatStatus.Available,
+          version: 1,
+        })),
+      });
+    }
+
+    // Only students on surviving seats still count towards the room
+    const claimed = await tx.seat.count({
+      where: { roomId, status: SeatStatus.Allocated },
+    });
+    await tx.room.update({
+      where: { id: roomId },
+      data: { claimed },
+    });
+
+    return plan.report;
+  }
+
+  /**
+   * Tries to reseat every student displaced by `applyChanges` elsewhere in the
+   * building and records the outcome on the report.
+   */
+  static async reallocateDisplaced(report: SeatChangeReport, buildingId: string, roomId: string): Promise<SeatChangeReport> {
+    const reallocations: NonNullable<SeatChangeReport['reallocations']> = [];
+
+    for (const removed of report.removed) {
+      if (!removed.studentId) continue;
+
+      const result = await AllocationService.reallocateStudent(removed.studentId, buildingId, roomId);
+      reallocations.push({
+        studentId: removed.studentId,
+        fromSeatLabel: removed.label,
+        success: result.success,
+        newSeatId: result.newSeat?.id ?? null,
+        newRoomId: result.newSeat?.roomId ?? null,
+        message: result.message,
+      });
+    }
+
+    return { ...report, reallocations };
+  }
+}
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { PrismaClient, Prisma, UserRole } from '../../generated/prisma/client';
+
+const prisma = new PrismaClient();
+
+// 'password' hands the admin a generated password to pass on; 'setupToken' a
+// one-time token the student redeems to choose their own
+export type CredentialMode = 'password' | 'setupToken';
+
+export const CREDENTIAL_MODES: CredentialMode[] = ['password', 'setupToken'];
+
+const SETUP_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * What the admin gets back when credentials are issued. The secret is only
+ * ever returned here; the database keeps hashes.
+ */
+export interface StudentCredentials {
+  studentId: string;
+  email: string;
+  mode: CredentialMode;
+  password?: string;
+  setupToken?: string;
+  setupTokenExpiresAt?: Date;
+}
+
+/**
+ * Hashed credentials ready to be written. Hashing is slow, so bulk callers
+ * prepare these before opening their transaction.
+ */
+export interface PreparedCredentials {
+  mode: CredentialMode;
+  secret: string;
+  passwordHash: string;
+  setupTokenHash: string | null;
+  setupTokenExpiresAt: Date | null;
+}
+
+/**
+ * Thrown when the student's email already belongs to an account that is not theirs.
+ */
+export class StudentAccountConflictError extends Error {}
+
+export class StudentAccountService {
+  static hashSetupToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  static async prepareCredentials(mode: CredentialMode): Promise<PreparedCredentials> {
+    if (mode === 'password') {
+      // 12 characters without look-alikes such as 0/O or 1/l, easy to read out or type
+      const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+      const secret = Array.from(crypto.randomBytes(12), byte => alphabet[byte % alphabet.length]).join('');
+      return {
+        mode,
+        secret,
+        passwordHash: await bcrypt.hash(secret, 10),
+        setupTokenHash: null,
+        setupTokenExpiresAt: null,
+      };
+    }
+
+    const secret = crypto.randomBytes(32).toString('base64url');
+    return {
+      mode,
+      secret,
+      // Until the token is redeemed the account has a password nobody knows
+      passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+      setupTokenHash: this.hashSetupToken(secret),
+      setupTokenExpiresAt: new Date(Date.now() + SETUP_TOKEN_TTL_MS),
+    };
+  }
+
+  /**
+   * Whether an existing user with the student's email may be (re)used as the
+   * student's login: it must be a Student account that is unlinked or already
+   * linked to this student.
+   */
+  static canUseAccount(user: { role: UserRole; studentId: string | null }, studentId?: string): boolean {
+    return user.role === UserRole.Student && (!user.studentId || user.studentId === studentId);
+  }
+
+  /**
+   * Creates the student's login, or replaces the credentials of the existing
+   * one, inside the caller's transaction. Any earlier password or unredeemed
+   * setup token stops working.
+   */
+  static async applyCredentials(
+    tx: Prisma.TransactionClient,
+    student: { id: string; email: string },
+    prepared: PreparedCredentials
+  ): Promise<StudentCredentials> {
+    const credentialData = {
+      password: prepared.passwordHash,
+      plainPassword: null,
+      setupTokenHash: prepared.setupTokenHash,
+      setupTokenExpiresAt: prepared.setupTokenExpiresAt,
+    };
+
+    const existingUser = await tx.user.findFirst({
+      where: {
+        OR: [
+          { studentId: student.id },
+          { email: { equals: student.email, mode: 'insensitive' } },
+        ],
+      },
+    });
+
+    if (existingUser && !this.canUseAccount(existingUser, student.id)) {
+      throw new StudentAccountConflictError(`${student.email} is already used by another account`);
+    }
+
+    const user = existingUser
+      ? await tx.user.update({
+          where: { id: existingUser.id },
+          data: { ...credentialData, studentId: student.id },
+        })
+      : await tx.user.create({
+          data: {
+            ...credentialData,
+            email: student.email,
+            role: UserRole.Student,
+            studentId: student.id,
+          },
+        });
+
+    await tx.student.update({
+      where: { id: student.id },
+      data: { userId: user.id },
+    });
+
+    return {
+      studentId: student.id,
+      email: student.email,
+      mode: prepared.mode,
+      ...(prepared.mode === 'password'
+        ? { password: prepared.secret }
+        : { setupToken: prepared.secret, setupTokenExpiresAt: prepared.setupTokenExpiresAt! }),
+    };
+  }
+
+  /**
+   * Issues credentials for a single student in its own transaction.
+   */
+  static async issueCredentials(student: { id: string; email: string }, mode: CredentialMode): Promise<StudentCredentials> {
+    const prepared = await this.prepareCredentials(mode);
+    return prisma.$transaction(tx => this.applyCredentials(tx, student, prepared));
+  }
+
+  /**
+   * Sets the password of the account a setup token was issued for and
+   * invalidates the token. Returns the account's email, or null when the token
+   * is unknown or expired.
+   */
+  static async redeemSetupToken(token: string, password: string): Promise<string | null> {
+    const setupTokenHash = this.hashSetupToken(token);
+    const user = await prisma.user.findUnique({ where: { setupTokenHash } });
+    if (!user) {
+      return null;
+    }
+
+    // Claiming the token and setting the password is one conditional write,
+    // so of two concurrent requests with the same token only one succeeds
+    const { count } = await prisma.user.updateMany({
+      where: { setupTokenHash, setupTokenExpiresAt: { gt: new Date() } },
+      data: {
+        password: await bcrypt.hash(password, 10),
+        setupTokenHash: null,
+        setupTokenExpiresAt: null,
+      },
+    });
+
+    return count === 0 ? null : user.email;
+  }
+}
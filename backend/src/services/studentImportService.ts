@@ -0,0 +1,370 @@
+import { inflateRawSync } from 'zlib';
+import { PrismaClient, Branch } from '../../generated/prisma/client';
+import { POSITIONAL_FEATURES } from './seatGenerationService';
+import { parseCsv, CsvParseError } from '../utils/csv';
+import {
+  StudentAccountService,
+  CredentialMode,
+  PreparedCredentials,
+  StudentCredentials,
+} from './studentAccountService';
+
+const prisma = new PrismaClient();
+
+export type StudentImportFormat = 'csv' | 'xlsx';
+
+// Needs a student can ask for; they are matched against seat features during allocation
+export const KNOWN_ACCESSIBILITY_NEEDS = [...POSITIONAL_FEATURES, 'wheelchair_access', 'near_exit'];
+
+const REQUIRED_COLUMNS = ['name', 'email', 'branch'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface StudentImportRow {
+  name: string;
+  email: string;
+  branch: Branch;
+  tags: string[];
+  accessibilityNeeds: string[];
+}
+
+export interface StudentImportRowResult {
+  // 1-based line in the file, counting the header as line 1
+  line: number;
+  email: string;
+  name: string;
+  action: 'create' | 'update' | 'skip';
+  errors: string[];
+  warnings: string[];
+  // Whether a login will be (or was) created for the student
+  provisionAccount?: boolean;
+}
+
+export interface StudentImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  updated: number;
+  rows: StudentImportRowResult[];
+  // Only returned when accounts were provisioned; shown to the admin once
+  credentials?: StudentCredentials[];
+}
+
+/**
+ * Thrown when the file itself cannot be read, as opposed to individual rows being invalid.
+ */
+export class StudentImportFileError extends Error {}
+
+const splitList = (value: string) =>
+  value
+    .split(/[;,|]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+export class StudentImportService {
+  /**
+   * Parses CSV text into rows of cells.
+   */
+  static parseCsv(text: string): string[][] {
+    try {
+      return parseCsv(text);
+    } catch (error) {
+      if (error instanceof CsvParseError) {
+        throw new StudentImportFileError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the first worksheet of an XLSX workbook into rows of cells.
+   *
+   * An XLSX file is a zip archive of XML parts; only the shared string table
+   * and the first sheet are needed, so they are unzipped with zlib directly.
+   */
+  static parseXlsx(file: Buffer): string[][] {
+    const entries = this.readZipEntries(file);
+    const sheet = entries.get('xl/worksheets/sheet1.xml');
+    if (!sheet) {
+      throw new StudentImportFileError('XLSX file has no worksheet');
+    }
+
+    const sharedStrings: string[] = [];
+    const sharedXml = entries.get('xl/sharedStrings.xml');
+    if (sharedXml) {
+      for (const [, item] of sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+        // Rich text is split into runs, each with its own <t>
+        const text = [...item.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => m[1]).join('');
+        sharedStrings.push(decodeXml(text));
+      }
+    }
+
+    const rows: string[][] = [];
+    for (const [, rowXml] of sheet.matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g)) {
+      const row: string[] = [];
+      let nextCol = 0;
+
+      for (const [, attrs, body = ''] of rowXml.matchAll(/<c([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        // Empty cells are usually omitted, so place each cell by its reference (e.g. "C4")
+        const ref = attrs.match(/\br="([A-Z]+)\d+"/);
+        const col = ref
+          ? [...ref[1]].reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0) - 1
+          : nextCol;
+        const type = attrs.match(/\bt="(\w+)"/)?.[1];
+
+        let value = '';
+        if (type === 'inlineStr') {
+          value = decodeXml([...body.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => m[1]).join(''));
+        } else {
+          const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '';
+          value = type === 's' ? sharedStrings[Number(raw)] ?? '' : decodeXml(raw);
+        }
+
+        while (row.length < col) row.push('');
+        row[col] = value;
+        nextCol = col + 1;
+      }
+
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Extracts the XML parts of a zip archive as text, keyed by path.
+   */
+  private static readZipEntries(file: Buffer): Map<string, string> {
+    const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+    const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+    const LOCAL_FILE_HEADER = 0x04034b50;
+
+    let end = -1;
+    for (let i = file.length - 22; i >= Math.max(0, file.length - 22 - 0xffff); i--) {
+      if (file.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new StudentImportFileError('File is not a valid XLSX workbook');
+    }
+
+    const entries = new Map<string, string>();
+    const count = file.readUInt16LE(end + 10);
+    let offset = file.readUInt32LE(end + 16);
+
+    for (let i = 0; i < count; i++) {
+      if (file.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new StudentImportFileError('File is not a valid XLSX workbook');
+      }
+      const method = file.readUInt16LE(offset + 10);
+      const compressedSize = file.readUInt32LE(offset + 20);
+      const nameLength = file.readUInt16LE(offset + 28);
+      const extraLength = file.readUInt16LE(offset + 30);
+      const commentLength = file.readUInt16LE(offset + 32);
+      const localOffset = file.readUInt32LE(offset + 42);
+      const name = file.toString('utf8', offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (!name.endsWith('.xml') || file.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) continue;
+
+      const dataStart = localOffset + 30 + file.readUInt16LE(localOffset + 26) + file.readUInt16LE(localOffset + 28);
+      const data = file.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        entries.set(name, data.toString('utf8'));
+      } else if (method === 8) {
+        entries.set(name, inflateRawSync(data).toString('utf8'));
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parses an uploaded file. XLSX content arrives base64 encoded.
+   */
+  static parseFile(format: StudentImportFormat, content: string): string[][] {
+    let rows: string[][];
+    try {
+      rows = format === 'xlsx'
+        ? this.parseXlsx(Buffer.from(content, 'base64'))
+        : this.parseCsv(content);
+    } catch (error) {
+      if (error instanceof StudentImportFileError) throw error;
+      // Truncated or corrupt archives fail while reading offsets or inflating
+      throw new StudentImportFileError('File is not a valid XLSX workbook');
+    }
+
+    // Ignore blank lines, including trailing ones most editors add
+    return rows.filter(row => row.some(cell => cell.trim() !== ''));
+  }
+
+  /**
+   * Checks every data row against the header. Returns the parsed students and
+   * a result per row; rows with errors get a null student.
+   */
+  static validateRows(table: string[][]): { row: StudentImportRow | null; result: StudentImportRowResult }[] {
+    if (table.length === 0) {
+      throw new StudentImportFileError('File is empty');
+    }
+
+    const header = table[0].map(cell => cell.trim().toLowerCase().replace(/[\s_]/g, ''));
+    const columnIndex = (name: string) => header.indexOf(name.toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => columnIndex(column) < 0);
+    if (missing.length > 0) {
+      throw new StudentImportFileError(`Missing required column(s): ${missing.join(', ')}`);
+    }
+
+    const branches = Object.values(Branch) as string[];
+    const seenEmails = new Map<string, number>();
+
+    return table.slice(1).map((cells, index) => {
+      const line = index + 2;
+      const cell = (name: string) => (cells[columnIndex(name)] ?? '').trim();
+
+      const name = cell('name');
+      const email = cell('email').toLowerCase();
+      const branchInput = cell('branch');
+      const tags = splitList(cell('tags'));
+      const accessibilityNeeds = [...new Set(splitList(cell('accessibilityNeeds')).map(need => need.toLowerCase()))];
+      const errors: string[] = [];
+
+      if (!name) errors.push('Name is required');
+      if (!email) {
+        errors.push('Email is required');
+      } else if (!EMAIL_PATTERN.test(email)) {
+        errors.push(`"${email}" is not a valid email`);
+      } else if (seenEmails.has(email)) {
+        errors.push(`Email is duplicated on line ${seenEmails.get(email)}`);
+      } else {
+        seenEmails.set(email, line);
+      }
+
+      const branch = branches.find(b => b.toLowerCase() === branchInput.toLowerCase());
+      if (!branchInput) {
+        errors.push('Branch is required');
+      } else if (!branch) {
+        errors.push(`Unknown branch "${branchInput}". Expected one of: ${branches.join(', ')}`);
+      }
+
+      const unknownNeeds = accessibilityNeeds.filter(need => !KNOWN_ACCESSIBILITY_NEEDS.includes(need));
+      if (unknownNeeds.length > 0) {
+        errors.push(`Unknown accessibility need(s): ${unknownNeeds.join(', ')}`);
+      }
+
+      const valid = errors.length === 0;
+      return {
+        row: valid ? { name, email, branch: branch as Branch, tags, accessibilityNeeds } : null,
+        result: { line, email, name, action: valid ? 'create' : 'skip', errors, warnings: [] },
+      };
+    });
+  }
+
+  /**
+   * Validates an import file and, unless `dryRun`, upserts its valid rows by
+   * email in a single transaction. Names of existing students are left as they
+   * are, matching the rule that a student's name cannot be edited.
+   *
+   * With `provisionMode`, students without a login get one and the issued
+   * credentials are returned on the report; existing logins are left alone.
+   */
+  static async importStudents(
+    format: StudentImportFormat,
+    content: string,
+    dryRun: boolean,
+    provisionMode?: CredentialMode
+  ): Promise<StudentImportReport> {
+    const checked = this.validateRows(this.parseFile(format, content));
+    const emails = checked.filter(c => c.row).map(c => c.row!.email);
+
+    // Emails are compared case-insensitively: rows are lowercased, but stored
+    // emails may still carry the capitals they were created with
+    const existing = await prisma.student.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: { id: true, email: true, name: true, user: { select: { id: true } } },
+    });
+    const existingByEmail = new Map(existing.map(student => [student.email.toLowerCase(), student]));
+
+    const users = provisionMode
+      ? await prisma.user.findMany({
+          where: { email: { in: emails, mode: 'insensitive' } },
+          select: { email: true, role: true, studentId: true },
+        })
+      : [];
+    const usersByEmail = new Map(users.map(user => [user.email.toLowerCase(), user]));
+
+    for (const { row, result } of checked) {
+      if (!row) continue;
+      const current = existingByEmail.get(row.email);
+      if (current) {
+        result.action = 'update';
+        if (current.name !== row.name) {
+          result.warnings.push(`Name differs from the existing record ("${current.name}") and will not be changed`);
+        }
+      }
+
+      if (provisionMode && !current?.user) {
+        const user = usersByEmail.get(row.email);
+        if (user && !StudentAccountService.canUseAccount(user, current?.id)) {
+          result.errors.push('Email is already used by another account');
+          result.action = 'skip';
+        } else {
+          result.provisionAccount = true;
+        }
+      }
+    }
+
+    const validRows = checked.filter(c => c.result.action !== 'skip');
+    const credentials: StudentCredentials[] = [];
+
+    if (!dryRun && validRows.length > 0) {
+      // Hash outside the transaction so it stays short
+      const prepared = new Map<string, PreparedCredentials>();
+      for (const { row, result } of validRows) {
+        if (result.provisionAccount) {
+          prepared.set(row!.email, await StudentAccountService.prepareCredentials(provisionMode!));
+        }
+      }
+
+      await prisma.$transaction(async (tx) => {
+        for (const { row } of validRows) {
+          const { name, email, branch, tags, accessibilityNeeds } = row!;
+          const current = existingByEmail.get(email);
+          const student = await tx.student.upsert({
+            where: current ? { id: current.id } : { email },
+            create: { name, email, branch, tags, accessibilityNeeds },
+            update: { branch, tags, accessibilityNeeds },
+          });
+
+          const accountCredentials = prepared.get(email);
+          if (accountCredentials) {
+            credentials.push(await StudentAccountService.applyCredentials(tx, student, accountCredentials));
+          }
+        }
+      }, { timeout: 30000 });
+    }
+
+    const results = checked.map(c => c.result);
+    return {
+      dryRun,
+      total: results.length,
+      valid: validRows.length,
+      invalid: results.length - validRows.length,
+      created: results.filter(r => r.action === 'create').length,
+      updated: results.filter(r => r.action === 'update').length,
+      rows: results,
+      ...(provisionMode && !dryRun ? { credentials } : {}),
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import { PrismaClient, BookingStatus } from "../../generated/prisma/client";
+import { roomLockService } from "./roomLockService";
+import { RoomBlackoutService } from "./roomBlackoutService";
+import { BookingBufferService } from "./bookingBufferService";
+import { BookingApprovalService } from "./bookingApprovalService";
+import { BookingPolicyService } from "./bookingPolicyService";
+import { bookingOverlapViolation } from "../utils/errorHandler";
+
+const prisma = new PrismaClient();
+
+export interface FreedSlot {
+  roomId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+// Bookings waiting for approval hold their slot as well
+const ACTIVE_STATUSES: BookingStatus[] = [
+  "PendingApproval",
+  "NotStarted",
+  "Ongoing",
+];
+
+export class WaitlistService {
+  /**
+   * Books the freed slot for waitlisted teachers, oldest entry first. Each
+   * entry goes through the same room-overlap, blackout and teacher
+   * time-conflict and booking policy checks as a regular booking, under the
+   * room lock; entries that still clash stay on the waitlist. Entries held back only by the
+   * freed booking's buffers are candidates too. Bookings of a room that
+   * requires approval are created as PendingApproval.
+   */
+  static async promoteWaiting(slot: FreedSlot) {
+    const buffers = await BookingBufferService.forRoom(slot.roomId);
+    const requiresApproval = await BookingApprovalService.requiresApproval(
+      slot.roomId
+    );
+    const freed = BookingBufferService.overlapWhere(
+      slot.startTime,
+      slot.endTime,
+      buffers
+    );
+    const candidates = await prisma.waitlistEntry.findMany({
+      where: {
+        roomId: slot.roomId,
+        status: "Waiting",
+        startTime: { ...freed.startTime, gt: new Date() },
+        endTime: freed.endTime,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const promoted = [];
+    for (const entry of candidates) {
+      const lockOwner = `waitlist:${entry.id}`;
+      const lock = await roomLockService.acquireLock(
+        entry.roomId,
+        lockOwner,
+        BookingBufferService.effectiveWindow(
+          entry.startTime,
+          entry.endTime,
+          buffers
+        )
+      );
+      if (!lock) {
+        continue;
+      }
+
+      try {
+        const clash = await prisma.roomBooking.findFirst({
+          where: {
+            status: { in: ACTIVE_STATUSES },
+            OR: [
+              {
+                roomId: entry.roomId,
+                ...BookingBufferService.overlapWhere(
+                  entry.startTime,
+                  entry.endTime,
+                  buffers
+                ),
+              },
+              {
+                teacherId: entry.teacherId,
+                startTime: { lt: entry.endTime },
+                endTime: { gt: entry.startTime },
+              },
+            ],
+          },
+        });
+        if (clash) continue;
+
+        const blackout = await RoomBlackoutService.findOverlapping(
+          entry.roomId,
+          entry.startTime,
+          entry.endTime
+        );
+        if (blackout) continue;
+
+        // Policies may have tightened since the teacher joined, and other
+        // promotions may have used up their quota meanwhile
+        const violation = await BookingPolicyService.check(
+          entry.roomId,
+          entry.teacherId,
+          [entry]
+        );
+        if (violation) continue;
+
+        let booking;
+        try {
+          booking = await prisma.$transaction(async (tx) => {
+            const created = await tx.roomBooking.create({
+              data: {
+                roomId: entry.roomId,
+                teacherId: entry.teacherId,
+                branch: entry.branch,
+                capacity: entry.capacity,
+                startTime: entry.startTime,
+                endTime: entry.endTime,
+                status: requiresApproval ? "PendingApproval" : "NotStarted",
+              },
+              include: {
+                room: {
+                  include: {
+                    building: {
+                      include: {
+                        block: true,
+                      },
+                    },
+                    floor: true,
+                  },
+                },
+                teacher: true,
+              },
+            });
+
+            await tx.waitlistEntry.update({
+              where: { id: entry.id },
+              data: { status: "Booked", bookingId: created.id },
+            });
+
+            return created;
+          });
+        } catch (error) {
+          // The overlap constraints have the final say if a booking slipped
+          // in since the check above; the entry keeps waiting
+          if (bookingOverlapViolation(error)) continue;
+          throw error;
+        }
+
+        promoted.push({ entry, booking });
+      } finally {
+        await roomLockService.releaseLock(lock);
+      }
+    }
+
+    return promoted;
+  }
+}
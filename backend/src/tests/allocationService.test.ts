@@ -5,6 +5,8 @@ const mockSeatCount = jest.fn();
 const mockSeatUpdate = jest.fn();
 const mockStudentFindMany = jest.fn();
 const mockStudentFindUnique = jest.fn();
+const mockStudentGroupBy = jest.fn();
+const mockRoomFindFirst = jest.fn();
 const mockRoomFindMany = jest.fn();
 const mockRoomFindUnique = jest.fn();
 const mockRoomUpdate = jest.fn();
@@ -21,8 +23,10 @@ jest.mock("../../generated/prisma/client", () => ({
     student: {
       findMany: mockStudentFindMany,
       findUnique: mockStudentFindUnique,
+      groupBy: mockStudentGroupBy,
     },
     room: {
+      findFirst: mockRoomFindFirst,
       findMany: mockRoomFindMany,
       findUnique: mockRoomFindUnique,
       update: mockRoomUpdate,
@@ -34,6 +38,10 @@ jest.mock("../../generated/prisma/client", () => ({
     Allocated: "Allocated",
     Broken: "Broken",
   },
+  AllocationBatchStatus: {
+    Applied: "Applied",
+    RolledBack: "RolledBack",
+  },
   Branch: {
     ConsultingClub: "ConsultingClub",
     InvestmentBankingClub: "InvestmentBankingClub",
@@ -123,6 +131,9 @@ describe("AllocationService", () => {
             findMany: jest.fn().mockResolvedValue(mockSeats),
             update: jest.fn().mockResolvedValue({}),
           },
+          allocationBatch: {
+            create: jest.fn().mockResolvedValue({ id: "batch1" }),
+          },
         };
         return await callback(mockTx);
       });
@@ -138,6 +149,7 @@ describe("AllocationService", () => {
       expect(summary.allocatedCount).toBe(3);
       expect(summary.unallocatedCount).toBe(0);
       expect(summary.affectedRoomIds).toEqual(["room1"]);
+      expect(summary.batchId).toBe("batch1");
     });
 
     it("should leave students unallocated if no suitable seats are available", async () => {
@@ -182,6 +194,9 @@ describe("AllocationService", () => {
             findMany: jest.fn().mockResolvedValue(mockSeats),
             update: jest.fn().mockResolvedValue({}),
           },
+          allocationBatch: {
+            create: jest.fn().mockResolvedValue({ id: "batch1" }),
+          },
         };
         return await callback(mockTx);
       });
@@ -199,6 +214,289 @@ describe("AllocationService", () => {
     });
   });
 
+  describe("allocateBranchToRoom preview", () => {
+    it("should return the proposed assignments without writing", async () => {
+      // Arrange
+      const mockRoom = { id: "room1", version: 1, branchAllocated: null };
+      const mockSeats = [
+        { id: "s1", label: "A1", status: "Available", row: 0, col: 0, features: [], roomId: "room1", version: 3 },
+        { id: "s2", label: "A2", status: "Available", row: 0, col: 1, features: ["wheelchair_access"], roomId: "room1", version: 1 },
+      ];
+      const mockStudents = [
+        { id: "st1", name: "Student 1", accessibilityNeeds: [], branch: Branch.ConsultingClub },
+        { id: "st2", name: "Student 2", accessibilityNeeds: ["wheelchair_access"], branch: Branch.ConsultingClub },
+      ];
+      const seatUpdate = jest.fn();
+      const roomUpdate = jest.fn();
+
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          room: { findUnique: jest.fn().mockResolvedValue(mockRoom), update: roomUpdate },
+          student: { findMany: jest.fn().mockResolvedValue(mockStudents) },
+          seat: { findMany: jest.fn().mockResolvedValue(mockSeats), update: seatUpdate },
+        })
+      );
+
+      // Act
+      const { summary, plan } = await AllocationService.allocateBranchToRoom(
+        Branch.ConsultingClub,
+        "room1",
+        { dryRun: true }
+      );
+
+      // Assert
+      expect(seatUpdate).not.toHaveBeenCalled();
+      expect(roomUpdate).not.toHaveBeenCalled();
+      expect(summary.allocatedCount).toBe(2);
+      expect(plan.roomId).toBe("room1");
+      expect(plan.assignments).toEqual([
+        { studentId: "st2", studentName: "Student 2", seatId: "s2", seatLabel: "A2", seatVersion: 1, roomId: "room1" },
+        { studentId: "st1", studentName: "Student 1", seatId: "s1", seatLabel: "A1", seatVersion: 3, roomId: "room1" },
+      ]);
+    });
+  });
+
+  describe("commitAllocationPlan", () => {
+    const plan = {
+      branch: Branch.ConsultingClub,
+      roomId: "room1",
+      assignments: [
+        { studentId: "st1", studentName: "Student 1", seatId: "s1", seatLabel: "A1", seatVersion: 3, roomId: "room1" },
+      ],
+    };
+
+    it("should reject the plan if a seat version changed", async () => {
+      // Arrange
+      const seatUpdate = jest.fn();
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          seat: {
+            findMany: jest.fn().mockResolvedValue([
+              { id: "s1", roomId: "room1", status: "Available", version: 4, studentId: null },
+            ]),
+            update: seatUpdate,
+          },
+          student: { findMany: jest.fn().mockResolvedValue([{ id: "st1", branch: Branch.ConsultingClub, seats: [] }]) },
+          room: { findMany: jest.fn().mockResolvedValue([{ id: "room1", version: 1, branchAllocated: null }]) },
+        })
+      );
+
+      // Act & Assert
+      await expect(AllocationService.commitAllocationPlan(plan)).rejects.toMatchObject({
+        message: "PLAN_CONFLICT",
+        conflicts: [expect.objectContaining({ seatId: "s1", reason: "Seat was modified since the preview." })],
+      });
+      expect(seatUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should apply the plan when nothing changed", async () => {
+      // Arrange
+      const seatUpdate = jest.fn().mockResolvedValue({});
+      const roomUpdate = jest.fn().mockResolvedValue({});
+      const batchCreate = jest.fn().mockResolvedValue({ id: "batch1" });
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          seat: {
+            findMany: jest.fn().mockResolvedValue([
+              { id: "s1", roomId: "room1", status: "Available", version: 3, studentId: null },
+            ]),
+            update: seatUpdate,
+          },
+          student: {
+            findMany: jest
+              .fn()
+              .mockResolvedValueOnce([{ id: "st1", branch: Branch.ConsultingClub, seats: [] }])
+              .mockResolvedValueOnce([]),
+          },
+          room: {
+            findMany: jest.fn().mockResolvedValue([{ id: "room1", version: 1, branchAllocated: null }]),
+            update: roomUpdate,
+          },
+          allocationBatch: { create: batchCreate },
+        })
+      );
+
+      // Act
+      const { summary } = await AllocationService.commitAllocationPlan(plan);
+
+      // Assert
+      expect(seatUpdate).toHaveBeenCalledWith({
+        where: { id: "s1", version: 3 },
+        data: { status: "Allocated", studentId: "st1", version: { increment: 1 } },
+      });
+      expect(roomUpdate).toHaveBeenCalledWith({
+        where: { id: "room1", version: 1 },
+        data: { branchAllocated: Branch.ConsultingClub, claimed: { increment: 1 }, version: { increment: 1 } },
+      });
+      expect(batchCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          branch: Branch.ConsultingClub,
+          branchAssignedRooms: ["room1"],
+          seats: { create: [{ seatId: "s1", studentId: "st1", roomId: "room1", seatLabel: "A1", seatVersion: 4 }] },
+        }),
+      });
+      expect(summary.allocatedCount).toBe(1);
+      expect(summary.unallocatedCount).toBe(0);
+      expect(summary.batchId).toBe("batch1");
+    });
+
+    it("should reject a plan that seats the same student twice", async () => {
+      // Arrange
+      const twice = {
+        ...plan,
+        assignments: [
+          ...plan.assignments,
+          { studentId: "st1", studentName: "Student 1", seatId: "s2", seatLabel: "A2", seatVersion: 1, roomId: "room1" },
+        ],
+      };
+
+      // Act & Assert
+      await expect(AllocationService.commitAllocationPlan(twice)).rejects.toMatchObject({
+        message: "INVALID_PLAN",
+        duplicateStudentIds: ["st1"],
+        duplicateSeatIds: [],
+      });
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should reject a plan that uses the same seat twice", async () => {
+      // Arrange
+      const twice = {
+        ...plan,
+        assignments: [
+          ...plan.assignments,
+          { studentId: "st2", studentName: "Student 2", seatId: "s1", seatLabel: "A1", seatVersion: 3, roomId: "room1" },
+        ],
+      };
+
+      // Act & Assert
+      await expect(AllocationService.commitAllocationPlan(twice)).rejects.toMatchObject({
+        message: "INVALID_PLAN",
+        duplicateStudentIds: [],
+        duplicateSeatIds: ["s1"],
+      });
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should report students of another branch as conflicts", async () => {
+      // Arrange
+      const seatUpdate = jest.fn();
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          seat: {
+            findMany: jest.fn().mockResolvedValue([
+              { id: "s1", roomId: "room1", status: "Available", version: 3, studentId: null },
+            ]),
+            update: seatUpdate,
+          },
+          student: {
+            findMany: jest.fn().mockResolvedValue([{ id: "st1", branch: Branch.RealEstateClub, seats: [] }]),
+          },
+          room: { findMany: jest.fn().mockResolvedValue([{ id: "room1", version: 1, branchAllocated: null }]) },
+        })
+      );
+
+      // Act & Assert
+      await expect(AllocationService.commitAllocationPlan(plan)).rejects.toMatchObject({
+        message: "PLAN_CONFLICT",
+        conflicts: [
+          expect.objectContaining({
+            studentId: "st1",
+            reason: "Student belongs to RealEstateClub, not ConsultingClub.",
+          }),
+        ],
+      });
+      expect(seatUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rollbackAllocationBatch", () => {
+    const batch = {
+      id: "batch1",
+      status: "Applied",
+      branchAssignedRooms: ["room1"],
+      seats: [
+        { seatId: "s1", seatLabel: "A1", studentId: "st1", roomId: "room1", seatVersion: 4 },
+        { seatId: "s2", seatLabel: "A2", studentId: "st2", roomId: "room1", seatVersion: 2 },
+      ],
+    };
+
+    it("should refuse to roll back when a seat changed since the batch", async () => {
+      // Arrange
+      const seatUpdate = jest.fn();
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          allocationBatch: { findUnique: jest.fn().mockResolvedValue(batch), update: jest.fn() },
+          seat: {
+            findMany: jest.fn().mockResolvedValue([
+              { id: "s1", status: "Allocated", version: 4, studentId: "st1" },
+              { id: "s2", status: "Available", version: 3, studentId: null },
+            ]),
+            update: seatUpdate,
+          },
+        })
+      );
+
+      // Act & Assert
+      await expect(AllocationService.rollbackAllocationBatch("batch1")).rejects.toMatchObject({
+        message: "ROLLBACK_CONFLICT",
+        conflicts: [expect.objectContaining({ seatId: "s2", currentSeat: { status: "Available", version: 3, studentId: null } })],
+      });
+      expect(seatUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should free the seats and release rooms the batch claimed", async () => {
+      // Arrange
+      const seatUpdate = jest.fn().mockResolvedValue({});
+      const roomUpdate = jest.fn().mockResolvedValue({});
+      const batchUpdate = jest.fn().mockResolvedValue({});
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          allocationBatch: { findUnique: jest.fn().mockResolvedValue(batch), update: batchUpdate },
+          seat: {
+            findMany: jest.fn().mockResolvedValue([
+              { id: "s1", status: "Allocated", version: 4, studentId: "st1" },
+              { id: "s2", status: "Allocated", version: 2, studentId: "st2" },
+            ]),
+            update: seatUpdate,
+          },
+          room: {
+            findMany: jest.fn().mockResolvedValue([{ id: "room1", version: 7, claimed: 2, branchAllocated: Branch.ConsultingClub }]),
+            update: roomUpdate,
+          },
+        })
+      );
+
+      // Act
+      const result = await AllocationService.rollbackAllocationBatch("batch1");
+
+      // Assert
+      expect(seatUpdate).toHaveBeenCalledWith({
+        where: { id: "s1", version: 4 },
+        data: { status: "Available", studentId: null, version: { increment: 1 } },
+      });
+      expect(roomUpdate).toHaveBeenCalledWith({
+        where: { id: "room1", version: 7 },
+        data: { claimed: 0, version: { increment: 1 }, branchAllocated: null },
+      });
+      expect(batchUpdate).toHaveBeenCalledWith({
+        where: { id: "batch1" },
+        data: expect.objectContaining({ status: "RolledBack" }),
+      });
+      expect(result).toEqual({ batchId: "batch1", releasedCount: 2, affectedRoomIds: ["room1"] });
+    });
+
+    it("should reject a batch that was already rolled back", async () => {
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          allocationBatch: { findUnique: jest.fn().mockResolvedValue({ ...batch, status: "RolledBack" }) },
+        })
+      );
+
+      await expect(AllocationService.rollbackAllocationBatch("batch1")).rejects.toThrow("BATCH_ALREADY_ROLLED_BACK");
+    });
+  });
+
   describe("reallocateStudent", () => {
     it("should reallocate a student to an available seat", async () => {
       // Arrange
@@ -277,4 +575,168 @@ describe("AllocationService", () => {
       );
     });
   });
+
+  describe("allocateAllBranches", () => {
+    it("should keep a branch in the building it already occupies", async () => {
+      // Arrange
+      mockStudentGroupBy.mockResolvedValueOnce([
+        { branch: Branch.ConsultingClub, _count: { _all: 2 } },
+      ]);
+      mockRoomFindFirst.mockResolvedValueOnce({ buildingId: "building2" });
+      mockSeatCount.mockResolvedValue(10);
+      const allocateSpy = jest
+        .spyOn(AllocationService, "allocateBranchToBuilding")
+        .mockResolvedValueOnce({
+          summary: {
+            allocatedCount: 2,
+            unallocatedCount: 0,
+            unallocatedStudents: [],
+            affectedRoomIds: ["room3"],
+          },
+          plan: { branch: Branch.ConsultingClub, assignments: [] },
+        });
+
+      // Act
+      const { summary } = await AllocationService.allocateAllBranches();
+
+      // Assert
+      expect(allocateSpy).toHaveBeenCalledWith(
+        Branch.ConsultingClub,
+        "building2",
+        { strategy: undefined }
+      );
+      expect(mockRoomFindMany).not.toHaveBeenCalled();
+      expect(summary.allocatedCount).toBe(2);
+      expect(summary.affectedRoomIds).toEqual(["room3"]);
+      allocateSpy.mockRestore();
+    });
+
+    it("should place a new branch in the tightest-fitting building", async () => {
+      // Arrange
+      mockStudentGroupBy.mockResolvedValueOnce([
+        { branch: Branch.RealEstateClub, _count: { _all: 5 } },
+      ]);
+      mockRoomFindFirst.mockResolvedValueOnce(null);
+      mockRoomFindMany.mockResolvedValueOnce([
+        { buildingId: "big", _count: { seats: 40 } },
+        { buildingId: "snug", _count: { seats: 3 } },
+        { buildingId: "snug", _count: { seats: 3 } },
+        { buildingId: "tiny", _count: { seats: 4 } },
+      ]);
+      mockSeatCount.mockResolvedValue(10);
+      const allocateSpy = jest
+        .spyOn(AllocationService, "allocateBranchToBuilding")
+        .mockResolvedValueOnce({
+          summary: {
+            allocatedCount: 5,
+            unallocatedCount: 0,
+            unallocatedStudents: [],
+            affectedRoomIds: ["room1", "room2"],
+          },
+          plan: { branch: Branch.RealEstateClub, assignments: [] },
+        });
+
+      // Act
+      await AllocationService.allocateAllBranches();
+
+      // Assert
+      expect(allocateSpy).toHaveBeenCalledWith(Branch.RealEstateClub, "snug", {
+        strategy: undefined,
+      });
+      allocateSpy.mockRestore();
+    });
+  });
+
+  describe("rebalanceAllocations", () => {
+    const seat = (
+      roomId: string,
+      col: number,
+      status: string,
+      features: string[] = [],
+      student: any = null
+    ) => ({
+      id: `${roomId}-${col}`,
+      roomId,
+      row: 0,
+      col,
+      status,
+      features,
+      version: 1,
+      studentId: student?.id ?? null,
+      student,
+    });
+
+    it("should move students of a half-empty room next to the target room's occupants", async () => {
+      // Arrange: the donor's only student wants a middle seat; in the target
+      // only the second free seat sits next to someone
+      const student = {
+        id: "st1",
+        name: "Student 1",
+        accessibilityNeeds: ["middle_seat"],
+        branch: Branch.ConsultingClub,
+      };
+      const donor = {
+        id: "donor",
+        buildingId: "building1",
+        branchAllocated: Branch.ConsultingClub,
+        version: 4,
+        bookings: [],
+        seats: [
+          seat("donor", 0, "Allocated", ["middle_seat"], student),
+          seat("donor", 1, "Available"),
+          seat("donor", 2, "Available"),
+          seat("donor", 3, "Available"),
+        ],
+      };
+      const target = {
+        id: "target",
+        buildingId: "building1",
+        branchAllocated: Branch.ConsultingClub,
+        version: 7,
+        bookings: [],
+        seats: [
+          seat("target", 0, "Available", ["middle_seat"]),
+          seat("target", 1, "Available", ["middle_seat"]),
+          seat("target", 2, "Allocated", [], { id: "st2", accessibilityNeeds: [] }),
+          seat("target", 3, "Allocated", [], { id: "st3", accessibilityNeeds: [] }),
+        ],
+      };
+      mockRoomFindMany.mockResolvedValueOnce([donor, target]);
+      const seatUpdate = jest.fn();
+      const roomUpdate = jest.fn();
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({ seat: { update: seatUpdate }, room: { update: roomUpdate } })
+      );
+      const allocateSpy = jest
+        .spyOn(AllocationService, "allocateAllBranches")
+        .mockResolvedValueOnce({
+          summary: {
+            allocatedCount: 0,
+            unallocatedCount: 0,
+            unallocatedStudents: [],
+            affectedRoomIds: [],
+          },
+        });
+
+      // Act
+      const { rebalanceSummary } = await AllocationService.rebalanceAllocations();
+
+      // Assert
+      expect(seatUpdate).toHaveBeenCalledWith({
+        where: { id: "target-1", version: 1 },
+        data: { status: "Allocated", studentId: "st1", version: { increment: 1 } },
+      });
+      expect(roomUpdate).toHaveBeenCalledWith({
+        where: { id: "target", version: 7 },
+        data: { claimed: { increment: 1 }, version: { increment: 1 } },
+      });
+      expect(roomUpdate).toHaveBeenCalledWith({
+        where: { id: "donor", version: 4 },
+        data: { claimed: 0, branchAllocated: null, version: { increment: 1 } },
+      });
+      expect(rebalanceSummary.reallocatedCount).toBe(1);
+      expect(rebalanceSummary.roomsFreed).toBe(1);
+      allocateSpy.mockRestore();
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import {
+  GreedyAllocationStrategy,
+  OptimalAllocationStrategy,
+  getAllocationStrategy,
+} from "../services/allocationStrategies";
+
+const seat = (id: string, row: number, col: number, features: string[] = []) => ({
+  id,
+  label: `${String.fromCharCode(65 + row)}${col + 1}`,
+  roomId: "room1",
+  row,
+  col,
+  features,
+  status: "Available",
+  version: 1,
+});
+
+const student = (id: string, accessibilityNeeds: string[] = []) =>
+  ({
+    id,
+    name: `Student ${id}`,
+    branch: "ConsultingClub",
+    accessibilityNeeds,
+    tags: [],
+  } as any);
+
+describe("Allocation strategies", () => {
+  describe("getAllocationStrategy", () => {
+    it("should default to the greedy strategy", () => {
+      expect(getAllocationStrategy().name).toBe("greedy");
+      expect(getAllocationStrategy("optimal").name).toBe("optimal");
+    });
+  });
+
+  describe("when an early pick would strand a later student", () => {
+    // st1 can sit in either front seat; st2 needs the one with wheelchair access.
+    const seats = [
+      seat("s1", 0, 0, ["front_seat", "wheelchair_access"]),
+      seat("s2", 0, 1, ["front_seat"]),
+    ];
+    const students = [
+      student("st1", ["front_seat"]),
+      student("st2", ["front_seat", "wheelchair_access"]),
+    ];
+
+    it("greedy should leave a student unseated", () => {
+      const outcome = new GreedyAllocationStrategy().assign(students, seats);
+
+      expect(outcome.assignments).toHaveLength(1);
+      expect(outcome.unassigned.map((s) => s.id)).toEqual(["st2"]);
+    });
+
+    it("optimal should seat everyone", () => {
+      const outcome = new OptimalAllocationStrategy().assign(students, seats);
+      const seatOf = (id: string) =>
+        outcome.assignments.find((a) => a.student.id === id)?.seat.id;
+
+      expect(outcome.unassigned).toHaveLength(0);
+      expect(seatOf("st1")).toBe("s2");
+      expect(seatOf("st2")).toBe("s1");
+      expect(outcome.remainingSeats).toHaveLength(0);
+    });
+  });
+
+  describe("OptimalAllocationStrategy", () => {
+    it("should fill seats in order for students without needs", () => {
+      const seats = [seat("s1", 0, 0), seat("s2", 0, 1), seat("s3", 1, 0)];
+      const outcome = new OptimalAllocationStrategy().assign(
+        [student("st1"), student("st2")],
+        seats
+      );
+
+      expect(outcome.assignments.map((a) => a.seat.id).sort()).toEqual([
+        "s1",
+        "s2",
+      ]);
+      expect(outcome.remainingSeats.map((s) => s.id)).toEqual(["s3"]);
+    });
+
+    it("should keep special-feature seats free for students who need them", () => {
+      const seats = [seat("s1", 0, 0, ["near_exit"]), seat("s2", 0, 1)];
+      const outcome = new OptimalAllocationStrategy().assign(
+        [student("st1")],
+        seats
+      );
+
+      expect(outcome.assignments[0].seat.id).toBe("s2");
+    });
+
+    it("should give a middle_seat student an occupied neighbour when possible", () => {
+      // Row 0: s1 s2 s3 are middle seats; s9 sits alone in row 1.
+      const seats = [
+        seat("s1", 0, 1, ["middle_seat"]),
+        seat("s2", 0, 2, ["middle_seat"]),
+        seat("s9", 1, 5, ["middle_seat"]),
+      ];
+      const outcome = new OptimalAllocationStrategy().assign(
+        [student("st1", ["middle_seat"]), student("st2")],
+        seats
+      );
+      const seatOf = (id: string) =>
+        outcome.assignments.find((a) => a.student.id === id)?.seat.id;
+
+      expect(["s1", "s2"]).toContain(seatOf("st1"));
+      expect(["s1", "s2"]).toContain(seatOf("st2"));
+    });
+  });
+});
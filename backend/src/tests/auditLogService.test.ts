@@ -0,0 +1,101 @@
+// Mock PrismaClient
+const mockAuditLogCreate = jest.fn();
+const mockAuditLogFindMany = jest.fn();
+const mockAuditLogCount = jest.fn();
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    auditLog: {
+      create: mockAuditLogCreate,
+      findMany: mockAuditLogFindMany,
+      count: mockAuditLogCount,
+    },
+  })),
+}));
+
+import { AuditLogService, AuditAction } from "../services/auditLogService";
+
+describe("AuditLogService", () => {
+  const actor = { id: "user1", email: "admin@test.com", role: "Admin" };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("record", () => {
+    it("should store actor, entity and JSON snapshots", async () => {
+      mockAuditLogCreate.mockResolvedValue({});
+      const updatedAt = new Date("2025-11-13T10:00:00.000Z");
+
+      await AuditLogService.record({
+        actor,
+        action: AuditAction.ROOM_UPDATED,
+        entityType: "Room",
+        entityId: "room1",
+        before: { name: "Old", updatedAt },
+        after: { name: "New", updatedAt },
+      });
+
+      expect(mockAuditLogCreate).toHaveBeenCalledWith({
+        data: {
+          actorId: "user1",
+          actorEmail: "admin@test.com",
+          actorRole: "Admin",
+          action: "room.updated",
+          entityType: "Room",
+          entityId: "room1",
+          before: { name: "Old", updatedAt: "2025-11-13T10:00:00.000Z" },
+          after: { name: "New", updatedAt: "2025-11-13T10:00:00.000Z" },
+        },
+      });
+    });
+
+    it("should not throw when the audit write fails", async () => {
+      mockAuditLogCreate.mockRejectedValue(new Error("db down"));
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(
+        AuditLogService.record({
+          actor,
+          action: AuditAction.BOOKING_CANCELLED,
+          entityType: "RoomBooking",
+          entityId: "booking1",
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("query", () => {
+    it("should filter by actor, entity and date range", async () => {
+      mockAuditLogFindMany.mockResolvedValue([]);
+      mockAuditLogCount.mockResolvedValue(0);
+      const from = new Date("2025-11-01T00:00:00.000Z");
+      const to = new Date("2025-11-30T00:00:00.000Z");
+
+      const result = await AuditLogService.query({
+        actorId: "user1",
+        entityType: "Seat",
+        entityId: "seat1",
+        from,
+        to,
+        page: 2,
+        limit: 10,
+      });
+
+      const where = {
+        actorId: "user1",
+        entityType: "Seat",
+        entityId: "seat1",
+        createdAt: { gte: from, lte: to },
+      };
+      expect(mockAuditLogFindMany).toHaveBeenCalledWith({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: 10,
+        take: 10,
+      });
+      expect(mockAuditLogCount).toHaveBeenCalledWith({ where });
+      expect(result).toEqual({ entries: [], total: 0, page: 2, limit: 10 });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+// Mock PrismaClient
+const mockPrisma = {
+  room: { findUnique: jest.fn() },
+  roomBooking: {
+    updateMany: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+  },
+  auditLog: { create: jest.fn() },
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+import { BookingApprovalService } from "../services/bookingApprovalService";
+
+const admin = { id: "u1", email: "admin@example.com", role: "Admin" };
+
+const reviewed = (status: string, reviewComment: string | null) => ({
+  id: "b1",
+  teacherId: "t1",
+  status,
+  reviewComment,
+  teacher: { userId: "user-t1" },
+});
+
+describe("BookingApprovalService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.auditLog.create.mockResolvedValue({});
+  });
+
+  describe("requiresApproval", () => {
+    it("should follow the room's flag and treat unknown rooms as open", async () => {
+      mockPrisma.room.findUnique.mockResolvedValueOnce({ requiresApproval: true });
+      expect(await BookingApprovalService.requiresApproval("room1")).toBe(true);
+
+      mockPrisma.room.findUnique.mockResolvedValueOnce(null);
+      expect(await BookingApprovalService.requiresApproval("missing")).toBe(false);
+    });
+  });
+
+  describe("review", () => {
+    it("should confirm an upcoming pending booking and audit the comment", async () => {
+      mockPrisma.roomBooking.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.roomBooking.findUniqueOrThrow.mockResolvedValue(
+        reviewed("NotStarted", "Enjoy")
+      );
+
+      const booking = await BookingApprovalService.review(
+        "b1",
+        "approved",
+        "Enjoy",
+        admin
+      );
+
+      expect(booking?.status).toBe("NotStarted");
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "b1",
+          status: "PendingApproval",
+          startTime: { gt: expect.any(Date) },
+        },
+        data: {
+          status: "NotStarted",
+          reviewComment: "Enjoy",
+          reviewedAt: expect.any(Date),
+        },
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: "booking.approved",
+          entityId: "b1",
+          after: { status: "NotStarted", reviewComment: "Enjoy" },
+        }),
+      });
+    });
+
+    it("should mark a rejected booking Rejected", async () => {
+      mockPrisma.roomBooking.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.roomBooking.findUniqueOrThrow.mockResolvedValue(
+        reviewed("Rejected", "Exams all week")
+      );
+
+      await BookingApprovalService.review("b1", "rejected", "Exams all week", admin);
+
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "Rejected" }),
+        })
+      );
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: "booking.rejected" }),
+      });
+    });
+
+    it("should leave a booking that is no longer pending alone", async () => {
+      mockPrisma.roomBooking.updateMany.mockResolvedValue({ count: 0 });
+
+      const booking = await BookingApprovalService.review(
+        "b1",
+        "approved",
+        null,
+        admin
+      );
+
+      expect(booking).toBeNull();
+      expect(mockPrisma.roomBooking.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("notifyTeacher", () => {
+    it("should push the decision and comment to the teacher", () => {
+      const io = { emit: jest.fn() };
+
+      BookingApprovalService.notifyTeacher(
+        io,
+        "rejected",
+        reviewed("Rejected", "Exams all week")
+      );
+
+      expect(io.emit).toHaveBeenCalledWith(
+        "bookingReviewed",
+        expect.objectContaining({
+          decision: "rejected",
+          bookingId: "b1",
+          teacherUserId: "user-t1",
+          comment: "Exams all week",
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+// Mock PrismaClient
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    room: { findUnique: jest.fn() },
+  })),
+}));
+
+import { BookingBufferService } from "../services/bookingBufferService";
+
+const at = (time: string) => new Date(`2030-01-01T${time}:00.000Z`);
+
+describe("BookingBufferService", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      BOOKING_BUFFER_BEFORE_MINUTES: "5",
+      BOOKING_BUFFER_AFTER_MINUTES: "10",
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe("resolve", () => {
+    it("should prefer the room, then the building, then the global default", () => {
+      expect(
+        BookingBufferService.resolve(
+          { bufferBeforeMinutes: null, bufferAfterMinutes: 20 },
+          { bufferBeforeMinutes: 15, bufferAfterMinutes: 30 }
+        )
+      ).toEqual({ beforeMinutes: 15, afterMinutes: 20 });
+
+      expect(
+        BookingBufferService.resolve(
+          { bufferBeforeMinutes: null, bufferAfterMinutes: null },
+          { bufferBeforeMinutes: null, bufferAfterMinutes: null }
+        )
+      ).toEqual({ beforeMinutes: 5, afterMinutes: 10 });
+    });
+
+    it("should let a room turn a buffer off with 0", () => {
+      expect(
+        BookingBufferService.resolve({
+          bufferBeforeMinutes: 0,
+          bufferAfterMinutes: 0,
+        })
+      ).toEqual({ beforeMinutes: 0, afterMinutes: 0 });
+    });
+
+    it("should ignore invalid global values", () => {
+      process.env.BOOKING_BUFFER_BEFORE_MINUTES = "soon";
+      process.env.BOOKING_BUFFER_AFTER_MINUTES = "-5";
+
+      expect(BookingBufferService.globalBuffers()).toEqual({
+        beforeMinutes: 0,
+        afterMinutes: 0,
+      });
+    });
+  });
+
+  describe("overlap", () => {
+    const buffers = { beforeMinutes: 5, afterMinutes: 10 };
+    const booked = { startTime: at("10:00"), endTime: at("11:00") };
+
+    it("should extend the occupied window on both sides", () => {
+      expect(
+        BookingBufferService.effectiveWindow(at("10:00"), at("11:00"), buffers)
+      ).toEqual({ startTime: at("09:55"), endTime: at("11:10") });
+    });
+
+    it("should need before + after minutes between neighbouring bookings", () => {
+      expect(
+        BookingBufferService.overlaps(
+          { startTime: at("11:10"), endTime: at("12:00") },
+          booked,
+          buffers
+        )
+      ).toBe(true);
+      expect(
+        BookingBufferService.overlaps(
+          { startTime: at("11:15"), endTime: at("12:00") },
+          booked,
+          buffers
+        )
+      ).toBe(false);
+      expect(
+        BookingBufferService.overlaps(
+          { startTime: at("09:00"), endTime: at("09:45") },
+          booked,
+          buffers
+        )
+      ).toBe(false);
+    });
+
+    it("should widen the query window by the same amount", () => {
+      expect(
+        BookingBufferService.overlapWhere(at("12:00"), at("13:00"), buffers)
+      ).toEqual({
+        startTime: { lt: at("13:15") },
+        endTime: { gt: at("11:45") },
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// Mock PrismaClient
+const mockPrisma = {
+  bookingLifecycleJob: {
+    findMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  roomBooking: { updateMany: jest.fn() },
+  seat: { findMany: jest.fn() },
+  schedulerLease: {
+    updateMany: jest.fn(),
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+import { BookingExpirationService } from "../services/bookingExpirationService";
+
+const booking = (id: string, status: string, roomId = "room1") => ({
+  id,
+  roomId,
+  branch: "ConsultingClub",
+  status,
+  room: { id: roomId, name: roomId },
+  teacher: { id: "t1", name: "Teacher" },
+});
+
+const job = (
+  id: string,
+  kind: "Start" | "Complete" | "Expire",
+  b: ReturnType<typeof booking>
+) => ({
+  id,
+  bookingId: b.id,
+  kind,
+  runAt: new Date("2030-01-01T10:00:00Z"),
+  booking: b,
+});
+
+describe("BookingExpirationService", () => {
+  let txSeatUpdateMany: jest.Mock;
+  let txRoomUpdate: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.roomBooking.updateMany.mockImplementation((args) => args);
+    mockPrisma.bookingLifecycleJob.deleteMany.mockImplementation((args) => args);
+    txSeatUpdateMany = jest.fn().mockResolvedValue({});
+    txRoomUpdate = jest.fn().mockResolvedValue({});
+    mockPrisma.$transaction.mockImplementation(async (arg) =>
+      typeof arg === "function"
+        ? arg({
+            seat: {
+              updateMany: txSeatUpdateMany,
+              groupBy: jest.fn().mockResolvedValue([]),
+            },
+            room: { update: txRoomUpdate },
+          })
+        : arg
+    );
+  });
+
+  describe("updateBookingStatuses", () => {
+    it("should apply every due transition in one batch", async () => {
+      const starting = [booking("b1", "NotStarted"), booking("b2", "NotStarted")];
+      const ending = booking("b3", "Ongoing", "room2");
+      mockPrisma.bookingLifecycleJob.findMany.mockResolvedValue([
+        job("j1", "Start", starting[0]),
+        job("j2", "Start", starting[1]),
+        job("j3", "Complete", ending),
+      ]);
+      mockPrisma.seat.findMany.mockResolvedValue([
+        { id: "s1", roomId: "room2" },
+        { id: "s2", roomId: "room2" },
+      ]);
+
+      const processed = await new BookingExpirationService().updateBookingStatuses();
+
+      expect(processed).toBe(3);
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["b1", "b2"] }, status: "NotStarted" },
+        data: { status: "Ongoing" },
+      });
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["b3"] }, status: { in: ["NotStarted", "Ongoing"] } },
+        data: { status: "Completed" },
+      });
+      expect(mockPrisma.bookingLifecycleJob.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["j1", "j2", "j3"] } },
+      });
+      expect(txSeatUpdateMany).toHaveBeenCalledTimes(1);
+      expect(txRoomUpdate).toHaveBeenCalledWith({
+        where: { id: "room2" },
+        data: { claimed: { decrement: 2 }, branchAllocated: null },
+      });
+    });
+
+    it("should complete a booking whose start and end are both overdue", async () => {
+      const missed = booking("b1", "NotStarted");
+      mockPrisma.bookingLifecycleJob.findMany.mockResolvedValue([
+        job("j1", "Start", missed),
+        job("j2", "Complete", missed),
+      ]);
+      mockPrisma.seat.findMany.mockResolvedValue([]);
+
+      await new BookingExpirationService().updateBookingStatuses();
+
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: [] }, status: "NotStarted" },
+        })
+      );
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: "Completed" } })
+      );
+    });
+
+    it("should reject bookings still pending approval when they are due", async () => {
+      mockPrisma.bookingLifecycleJob.findMany.mockResolvedValue([
+        job("j1", "Expire", booking("b1", "PendingApproval")),
+      ]);
+
+      const now = new Date("2030-01-01T10:00:00Z");
+      await new BookingExpirationService().updateBookingStatuses(now);
+
+      expect(mockPrisma.roomBooking.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["b1"] }, status: "PendingApproval" },
+        data: {
+          status: "Rejected",
+          reviewComment: "Not reviewed before the booking was due to start",
+          reviewedAt: now,
+        },
+      });
+      expect(mockPrisma.seat.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should drop jobs of bookings that were cancelled meanwhile", async () => {
+      mockPrisma.bookingLifecycleJob.findMany.mockResolvedValue([
+        job("j1", "Complete", booking("b1", "Cancelled")),
+      ]);
+
+      await new BookingExpirationService().updateBookingStatuses();
+
+      expect(mockPrisma.seat.findMany).not.toHaveBeenCalled();
+      expect(mockPrisma.bookingLifecycleJob.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["j1"] } },
+      });
+    });
+  });
+
+  describe("acquireLease", () => {
+    it("should renew or take over an expired lease", async () => {
+      mockPrisma.schedulerLease.updateMany.mockResolvedValue({ count: 1 });
+
+      expect(await new BookingExpirationService().acquireLease()).toBe(true);
+      expect(mockPrisma.schedulerLease.create).not.toHaveBeenCalled();
+    });
+
+    it("should not run jobs while another instance holds the lease", async () => {
+      mockPrisma.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.schedulerLease.create.mockRejectedValue({ code: "P2002" });
+
+      expect(await new BookingExpirationService().acquireLease()).toBe(false);
+    });
+
+    it("should create the lease when none exists yet", async () => {
+      mockPrisma.schedulerLease.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.schedulerLease.create.mockResolvedValue({});
+
+      expect(await new BookingExpirationService().acquireLease()).toBe(true);
+    });
+  });
+});
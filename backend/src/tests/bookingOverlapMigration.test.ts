@@ -0,0 +1,200 @@
+import fs from "fs";
+import path from "path";
+import { PrismaClient, Branch } from "../../generated/prisma/client";
+
+const prisma = new PrismaClient();
+
+const MIGRATION_PATH = path.join(
+  __dirname,
+  "../../prisma/migrations/20251124090000_add_booking_exclusion_constraints/migration.sql"
+);
+
+// Raw queries take one statement at a time; semicolons inside a $$ body
+// do not end a statement
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  for (const part of sql.split(/;\s*\n/)) {
+    current += current ? `;\n${part}` : part;
+    if ((current.match(/\$\$/g) ?? []).length % 2 === 0) {
+      const statement = current
+        .split("\n")
+        .filter((line) => !line.trim().startsWith("--"))
+        .join("\n")
+        .trim();
+      if (statement) {
+        statements.push(statement);
+      }
+      current = "";
+    }
+  }
+  return statements;
+}
+
+// Thrown to roll back the transaction once the results have been read
+class Rollback {
+  constructor(
+    public bookings: { id: string; status: string; adminReason: string | null }[]
+  ) {}
+}
+
+describe("Booking Exclusion Constraint Migration", () => {
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("should cancel bookings that overlap earlier ones before adding the constraints", async () => {
+    const hour = 60 * 60 * 1000;
+    const base = Date.now() + 24 * hour;
+    const at = (hours: number) => new Date(base + hours * hour);
+
+    let outcome: Rollback | undefined;
+    try {
+      await prisma.$transaction(
+        async (tx) => {
+          // Back to the data the migration first ran against
+          await tx.$executeRawUnsafe(
+            'ALTER TABLE "RoomBooking" DROP CONSTRAINT "RoomBooking_room_no_overlap"'
+          );
+          await tx.$executeRawUnsafe(
+            'ALTER TABLE "RoomBooking" DROP CONSTRAINT "RoomBooking_teacher_no_overlap"'
+          );
+
+          const block = await tx.block.create({
+            data: { name: "Test Block", code: "TB-MIG", distance: 0 },
+          });
+          const building = await tx.building.create({
+            data: {
+              name: "Test Building",
+              code: "TBD-MIG",
+              blockId: block.id,
+              distance: 0,
+            },
+          });
+          const floor = await tx.floor.create({
+            data: {
+              buildingId: building.id,
+              name: "Floor MIG",
+              number: 1,
+              distance: 0,
+            },
+          });
+          const [room1, room2] = await Promise.all(
+            ["Test Room MIG 1", "Test Room MIG 2"].map((name) =>
+              tx.room.create({
+                data: {
+                  buildingId: building.id,
+                  floorId: floor.id,
+                  name,
+                  capacity: 30,
+                  rows: 5,
+                  cols: 6,
+                },
+              })
+            )
+          );
+          const [teacher1, teacher2, teacher3] = await Promise.all(
+            [1, 2, 3].map((n) =>
+              tx.teacher.create({
+                data: {
+                  name: `Test Teacher MIG ${n}`,
+                  email: `teacher-mig-${n}@test.com`,
+                },
+              })
+            )
+          );
+
+          let created = 0;
+          const booking = (
+            roomId: string,
+            teacherId: string,
+            startHour: number,
+            endHour: number,
+            status: "NotStarted" | "Cancelled" = "NotStarted"
+          ) =>
+            tx.roomBooking.create({
+              data: {
+                roomId,
+                teacherId,
+                branch: Branch.ConsultingClub,
+                capacity: 20,
+                startTime: at(startHour),
+                endTime: at(endHour),
+                status,
+                createdAt: new Date(Date.now() + created++ * 1000),
+              },
+            });
+
+          const first = await booking(room1.id, teacher1.id, 0, 1);
+          const roomClash = await booking(room1.id, teacher2.id, 0.5, 1.5);
+          // Only overlaps roomClash, which is cancelled first
+          const afterClash = await booking(room1.id, teacher3.id, 1.25, 2);
+          const teacherClash = await booking(room2.id, teacher1.id, 0.5, 1);
+          const backToBack = await booking(room1.id, teacher2.id, 2, 3);
+          const alreadyCancelled = await booking(
+            room1.id,
+            teacher2.id,
+            0,
+            1,
+            "Cancelled"
+          );
+
+          for (const statement of splitStatements(
+            fs.readFileSync(MIGRATION_PATH, "utf8")
+          )) {
+            await tx.$executeRawUnsafe(statement);
+          }
+
+          throw new Rollback(
+            await tx.roomBooking.findMany({
+              where: {
+                id: {
+                  in: [
+                    first.id,
+                    roomClash.id,
+                    afterClash.id,
+                    teacherClash.id,
+                    backToBack.id,
+                    alreadyCancelled.id,
+                  ],
+                },
+              },
+              orderBy: { createdAt: "asc" },
+              select: { id: true, status: true, adminReason: true },
+            })
+          );
+        },
+        { timeout: 20000 }
+      );
+    } catch (error) {
+      if (!(error instanceof Rollback)) {
+        throw error;
+      }
+      outcome = error;
+    }
+
+    const [
+      first,
+      roomClash,
+      afterClash,
+      teacherClash,
+      backToBack,
+      alreadyCancelled,
+    ] = outcome!.bookings;
+
+    expect(first).toMatchObject({ status: "NotStarted", adminReason: null });
+    expect(roomClash.status).toBe("Cancelled");
+    expect(roomClash.adminReason).toContain("the room was already booked");
+    expect(roomClash.adminReason).toContain(first.id);
+    expect(afterClash).toMatchObject({ status: "NotStarted", adminReason: null });
+    expect(teacherClash.status).toBe("Cancelled");
+    expect(teacherClash.adminReason).toContain(
+      "the teacher already had a booking"
+    );
+    expect(backToBack).toMatchObject({ status: "NotStarted", adminReason: null });
+    expect(alreadyCancelled).toMatchObject({
+      status: "Cancelled",
+      adminReason: null,
+    });
+  });
+});
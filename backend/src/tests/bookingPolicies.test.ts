@@ -0,0 +1,179 @@
+import request from "supertest";
+import express from "express";
+import { PrismaClient } from "../../generated/prisma/client";
+import bookingPoliciesRouter from "../routes/bookingPolicies";
+import { GLOBAL_POLICY_ID } from "../services/bookingPolicyService";
+
+const app = express();
+app.use(express.json());
+app.use("/api/booking-policies", bookingPoliciesRouter);
+
+const prisma = new PrismaClient();
+
+describe("Booking Policy Routes", () => {
+  let adminToken: string;
+  let teacherToken: string;
+  let savedGlobalPolicy: any;
+
+  beforeAll(async () => {
+    // The global policy is a singleton; put back whatever was there
+    savedGlobalPolicy = await prisma.bookingPolicy.findUnique({
+      where: { id: GLOBAL_POLICY_ID },
+    });
+
+    const adminUser = await prisma.user.create({
+      data: {
+        email: "admin-policies@test.com",
+        password: "$2b$10$abcdefghijklmnopqrstuv",
+        role: "Admin",
+      },
+    });
+
+    const teacherUser = await prisma.user.create({
+      data: {
+        email: "teacher-policies@test.com",
+        password: "$2b$10$abcdefghijklmnopqrstuv",
+        role: "Teacher",
+      },
+    });
+
+    const jwt = require("jsonwebtoken");
+    const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+
+    adminToken = jwt.sign(
+      { id: adminUser.id, email: adminUser.email, role: "Admin" },
+      JWT_SECRET
+    );
+    teacherToken = jwt.sign(
+      { id: teacherUser.id, email: teacherUser.email, role: "Teacher" },
+      JWT_SECRET
+    );
+  });
+
+  afterAll(async () => {
+    await prisma.bookingPolicy.deleteMany({ where: { id: GLOBAL_POLICY_ID } });
+    if (savedGlobalPolicy) {
+      await prisma.bookingPolicy.create({ data: savedGlobalPolicy });
+    }
+    await prisma.user.deleteMany({
+      where: {
+        email: { in: ["admin-policies@test.com", "teacher-policies@test.com"] },
+      },
+    });
+    await prisma.$disconnect();
+  });
+
+  describe("PUT /global", () => {
+    it("should only be available to admins", async () => {
+      const response = await request(app)
+        .put("/api/booking-policies/global")
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({ maxActiveBookings: 3 });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should reject rules out of range", async () => {
+      const response = await request(app)
+        .put("/api/booking-policies/global")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ maxDurationMinutes: 0, openUntilMinute: 1441 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+      expect(response.body.details).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: "maxDurationMinutes" }),
+          expect.objectContaining({ field: "openUntilMinute" }),
+        ])
+      );
+    });
+
+    it("should reject a closing time that is not after the opening time", async () => {
+      const response = await request(app)
+        .put("/api/booking-policies/global")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ openFromMinute: 17 * 60, openUntilMinute: 8 * 60 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        {
+          field: "openUntilMinute",
+          message: "Closing time must be after opening time",
+        },
+      ]);
+    });
+
+    it("should replace every rule, clearing the ones left out", async () => {
+      await request(app)
+        .put("/api/booking-policies/global")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ maxDurationMinutes: 180, maxActiveBookings: 5 });
+
+      const response = await request(app)
+        .put("/api/booking-policies/global")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ maxActiveBookings: 3, openFromMinute: 8 * 60 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        id: GLOBAL_POLICY_ID,
+        maxDurationMinutes: null,
+        maxActiveBookings: 3,
+        openFromMinute: 8 * 60,
+        openUntilMinute: null,
+      });
+    });
+  });
+
+  describe("overrides", () => {
+    it("should return 404 for a building that does not exist", async () => {
+      const response = await request(app)
+        .put("/api/booking-policies/buildings/missing-building")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ maxActiveBookings: 2 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("BUILDING_NOT_FOUND");
+    });
+
+    it("should return 404 for a room that does not exist", async () => {
+      const response = await request(app)
+        .put("/api/booking-policies/rooms/missing-room")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ maxActiveBookings: 2 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("ROOM_NOT_FOUND");
+    });
+  });
+
+  describe("DELETE /:id", () => {
+    it("should lift the global rules", async () => {
+      await request(app)
+        .put("/api/booking-policies/global")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ maxActiveBookings: 3 });
+
+      const response = await request(app)
+        .delete(`/api/booking-policies/${GLOBAL_POLICY_ID}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(204);
+
+      const listed = await request(app)
+        .get("/api/booking-policies")
+        .set("Authorization", `Bearer ${adminToken}`);
+      expect(listed.body.global).toBeNull();
+    });
+
+    it("should return 404 for a policy that does not exist", async () => {
+      const response = await request(app)
+        .delete("/api/booking-policies/missing-policy")
+        .set("Authorization", `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("BOOKING_POLICY_NOT_FOUND");
+    });
+  });
+});
@@ -0,0 +1,145 @@
+// Mock PrismaClient
+const mockPrisma = {
+  room: { findUnique: jest.fn() },
+  bookingPolicy: { findMany: jest.fn() },
+  roomBooking: { count: jest.fn() },
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+import {
+  BookingPolicyService,
+  PolicyRules,
+} from "../services/bookingPolicyService";
+
+const noLimits: PolicyRules = {
+  maxDurationMinutes: null,
+  minLeadMinutes: null,
+  maxLeadDays: null,
+  maxActiveBookings: null,
+  openFromMinute: null,
+  openUntilMinute: null,
+};
+
+// Local times, like the opening hours they are checked against
+const now = new Date(2030, 0, 7, 9, 0);
+const slot = (day: number, from: number, until: number) => ({
+  startTime: new Date(2030, 0, day, from, 0),
+  endTime: new Date(2030, 0, day, until, 0),
+});
+const checkSlot = (rules: PolicyRules, range: ReturnType<typeof slot>) =>
+  BookingPolicyService.checkSlot(rules, range, now);
+
+describe("BookingPolicyService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("resolve", () => {
+    it("should take each rule from the most specific policy that sets it", () => {
+      expect(
+        BookingPolicyService.resolve(
+          { maxDurationMinutes: 60, openFromMinute: null },
+          { maxDurationMinutes: 120, openFromMinute: 480 },
+          { maxLeadDays: 30, openFromMinute: 420 }
+        )
+      ).toEqual({
+        ...noLimits,
+        maxDurationMinutes: 60,
+        maxLeadDays: 30,
+        openFromMinute: 480,
+      });
+    });
+  });
+
+  describe("checkSlot", () => {
+    it("should allow any slot without rules", () => {
+      expect(checkSlot(noLimits, slot(8, 6, 22))).toBeNull();
+    });
+
+    it("should reject slots longer than the maximum duration", () => {
+      const rules = { ...noLimits, maxDurationMinutes: 120 };
+
+      expect(checkSlot(rules, slot(8, 10, 12))).toBeNull();
+      expect(checkSlot(rules, slot(8, 10, 13))).toMatchObject({
+        code: "BOOKING_TOO_LONG",
+      });
+    });
+
+    it("should enforce the minimum and maximum lead time", () => {
+      const rules = { ...noLimits, minLeadMinutes: 120, maxLeadDays: 14 };
+
+      expect(checkSlot(rules, slot(7, 10, 11))).toMatchObject({
+        code: "BOOKING_TOO_SOON",
+      });
+      expect(checkSlot(rules, slot(7, 11, 12))).toBeNull();
+      expect(checkSlot(rules, slot(22, 10, 11))).toMatchObject({
+        code: "BOOKING_TOO_FAR_AHEAD",
+      });
+    });
+
+    it("should keep slots within the bookable hours of a single day", () => {
+      const rules = {
+        ...noLimits,
+        openFromMinute: 8 * 60,
+        openUntilMinute: 18 * 60,
+      };
+
+      expect(checkSlot(rules, slot(8, 8, 18))).toBeNull();
+      expect(checkSlot(rules, slot(8, 7, 9))).toMatchObject({
+        code: "BOOKING_OUTSIDE_HOURS",
+        message: "This room can only be booked between 08:00 and 18:00.",
+      });
+      expect(
+        BookingPolicyService.checkSlot(
+          { ...noLimits, openFromMinute: 8 * 60 },
+          {
+            startTime: new Date(2030, 0, 8, 20, 0),
+            endTime: new Date(2030, 0, 9, 9, 0),
+          },
+          now
+        )
+      ).toMatchObject({ code: "BOOKING_OUTSIDE_HOURS" });
+    });
+  });
+
+  describe("check", () => {
+    it("should apply a building's rules and the global quota to a room", async () => {
+      mockPrisma.room.findUnique.mockResolvedValue({ buildingId: "bld1" });
+      mockPrisma.bookingPolicy.findMany.mockResolvedValue([
+        { id: "global", buildingId: null, roomId: null, maxActiveBookings: 3 },
+        { id: "p1", buildingId: "bld1", roomId: null, maxDurationMinutes: 90 },
+      ]);
+      mockPrisma.roomBooking.count.mockResolvedValue(2);
+
+      expect(
+        await BookingPolicyService.check(
+          "room1",
+          "teacher1",
+          [slot(8, 10, 12)],
+          now
+        )
+      ).toMatchObject({ code: "BOOKING_TOO_LONG", status: 400 });
+
+      expect(
+        await BookingPolicyService.check(
+          "room1",
+          "teacher1",
+          [slot(8, 10, 11)],
+          now
+        )
+      ).toBeNull();
+
+      expect(
+        await BookingPolicyService.check(
+          "room1",
+          "teacher1",
+          [slot(8, 10, 11), slot(15, 10, 11)],
+          now
+        )
+      ).toMatchObject({ code: "BOOKING_QUOTA_EXCEEDED", status: 409 });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+// Mock PrismaClient
+const mockPrisma = {
+  locationEdge: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  block: { findMany: jest.fn() },
+  building: { findMany: jest.fn() },
+  floor: { findMany: jest.fn() },
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+}));
+
+import {
+  LocationGraphService,
+  LocationEdgeError,
+  nodeKey,
+} from "../services/locationGraphService";
+import { ErrorCode } from "../utils/errorHandler";
+
+// Two blocks; building A1 is next to B1 across the block boundary, far from A2
+const buildings = [
+  { id: "A1", blockId: "blockA", distance: 10 },
+  { id: "A2", blockId: "blockA", distance: 200 },
+  { id: "B1", blockId: "blockB", distance: 50 },
+];
+const floors = [
+  { id: "A1-0", buildingId: "A1", distance: 0 },
+  { id: "A1-1", buildingId: "A1", distance: 40 },
+  { id: "A2-0", buildingId: "A2", distance: 0 },
+  { id: "B1-0", buildingId: "B1", distance: 0 },
+];
+
+describe("LocationGraphService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.building.findMany.mockResolvedValue(buildings);
+    mockPrisma.floor.findMany.mockResolvedValue(floors);
+  });
+
+  describe("floorDistancesFrom", () => {
+    it("should return null when no edges are defined", async () => {
+      mockPrisma.locationEdge.findMany.mockResolvedValue([]);
+
+      const distances = await LocationGraphService.floorDistancesFrom({
+        floorId: "A1-0",
+      });
+
+      expect(distances).toBeNull();
+      expect(mockPrisma.building.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should take the shortest route over walkways and stairs", async () => {
+      mockPrisma.locationEdge.findMany.mockResolvedValue([
+        { fromType: "Building", fromId: "A1", toType: "Building", toId: "B1", distance: 15 },
+        { fromType: "Floor", fromId: "A1-0", toType: "Floor", toId: "A1-1", distance: 5 },
+        // Left behind by a deleted floor
+        { fromType: "Floor", fromId: "gone", toType: "Floor", toId: "A1-0", distance: 1 },
+      ]);
+
+      const distances = await LocationGraphService.floorDistancesFrom({
+        blockId: "blockA",
+        buildingId: "A1",
+        floorId: "A1-0",
+      });
+
+      expect(distances!.get(nodeKey("Floor", "A1-1"))).toBe(5);
+      // Next door across the block boundary: floor -> A1 -> B1 -> floor
+      expect(distances!.get(nodeKey("Floor", "B1-0"))).toBe(15);
+      // Same block but far away: floor -> A1 -> block -> A2 -> floor
+      expect(distances!.get(nodeKey("Floor", "A2-0"))).toBe(210);
+      expect(distances!.has(nodeKey("Floor", "gone"))).toBe(false);
+    });
+
+    it("should leave floors off a disconnected graph unreachable", async () => {
+      mockPrisma.locationEdge.findMany.mockResolvedValue([
+        { fromType: "Floor", fromId: "A1-0", toType: "Floor", toId: "A1-1", distance: 5 },
+      ]);
+
+      const distances = await LocationGraphService.floorDistancesFrom({
+        buildingId: "A1",
+      });
+
+      expect(distances!.get(nodeKey("Floor", "A1-0"))).toBe(0);
+      expect(distances!.has(nodeKey("Floor", "B1-0"))).toBe(false);
+    });
+  });
+
+  describe("stepFreeFloorsFrom", () => {
+    beforeEach(() => {
+      mockPrisma.block.findMany.mockResolvedValue([{ id: "blockA" }, { id: "blockB" }]);
+      mockPrisma.building.findMany.mockResolvedValue([
+        { ...buildings[0], stepFreeEntrance: true },
+        { ...buildings[1], stepFreeEntrance: false },
+        { ...buildings[2], stepFreeEntrance: true },
+      ]);
+      mockPrisma.floor.findMany.mockResolvedValue([
+        { ...floors[0], stepFreeAccess: true },
+        { ...floors[1], stepFreeAccess: false },
+        { ...floors[2], stepFreeAccess: true },
+        { ...floors[3], stepFreeAccess: true },
+      ]);
+    });
+
+    it("should treat every block as connected when no edges are defined", async () => {
+      mockPrisma.locationEdge.findMany.mockResolvedValue([]);
+
+      const floorIds = await LocationGraphService.stepFreeFloorsFrom({
+        floorId: "A1-0",
+      });
+
+      // A1-1 has no step-free access and A2 no step-free entrance
+      expect([...floorIds!].sort()).toEqual(["A1-0", "B1-0"]);
+    });
+
+    it("should follow lifts but not stairs", async () => {
+      mockPrisma.locationEdge.findMany.mockResolvedValue([
+        { fromType: "Floor", fromId: "A1-0", toType: "Floor", toId: "A1-1", distance: 5, kind: "Lift", stepFree: true },
+        { fromType: "Floor", fromId: "A1-0", toType: "Floor", toId: "A2-0", distance: 5, kind: "Stairs", stepFree: false },
+        { fromType: "Building", fromId: "A1", toType: "Building", toId: "B1", distance: 15, kind: "Walkway", stepFree: false },
+      ]);
+
+      const floorIds = await LocationGraphService.stepFreeFloorsFrom({
+        buildingId: "A1",
+      });
+
+      // B1 is only reachable over a walkway with steps; there is no campus node
+      expect([...floorIds!].sort()).toEqual(["A1-0", "A1-1"]);
+    });
+
+    it("should always include the floor the search starts on", async () => {
+      mockPrisma.locationEdge.findMany.mockResolvedValue([]);
+
+      const floorIds = await LocationGraphService.stepFreeFloorsFrom({
+        floorId: "A1-1",
+      });
+
+      expect([...floorIds!]).toEqual(["A1-1"]);
+    });
+  });
+
+  describe("createEdge", () => {
+    beforeEach(() => {
+      mockPrisma.block.findMany.mockResolvedValue([]);
+      mockPrisma.building.findMany.mockResolvedValue([]);
+      mockPrisma.floor.findMany.mockResolvedValue([
+        { id: "A1-0", name: "Ground", building: { name: "A1" } },
+        { id: "A1-1", name: "First", building: { name: "A1" } },
+      ]);
+    });
+
+    it("should reject stairs between anything other than floors", async () => {
+      await expect(
+        LocationGraphService.createEdge({
+          fromType: "Building",
+          fromId: "A1",
+          toType: "Floor",
+          toId: "A1-0",
+          distance: 5,
+          kind: "Stairs",
+        })
+      ).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it("should reject an edge to an unknown floor", async () => {
+      await expect(
+        LocationGraphService.createEdge({
+          fromType: "Floor",
+          fromId: "A1-0",
+          toType: "Floor",
+          toId: "missing",
+          distance: 5,
+        })
+      ).rejects.toEqual(new LocationEdgeError(ErrorCode.FLOOR_NOT_FOUND));
+    });
+
+    it("should treat the reverse direction as the same edge", async () => {
+      mockPrisma.locationEdge.findFirst.mockResolvedValue({ id: "edge1" });
+
+      await expect(
+        LocationGraphService.createEdge({
+          fromType: "Floor",
+          fromId: "A1-1",
+          toType: "Floor",
+          toId: "A1-0",
+          distance: 5,
+          kind: "Lift",
+        })
+      ).rejects.toMatchObject({ code: ErrorCode.LOCATION_EDGE_EXISTS });
+      expect(mockPrisma.locationEdge.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,281 @@
+// Mock PrismaClient
+const mockPrisma = {
+  block: { findMany: jest.fn() },
+  building: { findMany: jest.fn() },
+  seat: { findMany: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  Prisma: { DbNull: "DbNull" },
+  SeatStatus: {
+    Available: "Available",
+    Allocated: "Allocated",
+    Broken: "Broken",
+  },
+}));
+
+jest.mock("../services/allocationService", () => ({
+  AllocationService: { reallocateStudent: jest.fn() },
+}));
+
+import { LocationHierarchyService } from "../services/locationHierarchyService";
+import { ErrorCode } from "../utils/errorHandler";
+
+const existingBlock = { id: "block1", code: "NORTH", name: "North", distance: 0 };
+const existingBuilding = {
+  id: "bld1",
+  code: "N1",
+  name: "North One",
+  distance: 10,
+  blockId: "block1",
+  block: existingBlock,
+  floors: [{ id: "floor1", buildingId: "bld1", number: 0, name: "Ground", distance: 0 }],
+  rooms: [
+    {
+      id: "room1",
+      buildingId: "bld1",
+      floorId: "floor1",
+      name: "101",
+      capacity: 4,
+      rows: 2,
+      cols: 2,
+      layout: null,
+      distance: 5,
+    },
+  ],
+};
+
+const csv = (...lines: string[]) =>
+  ["type,blockCode,buildingCode,floorNumber,name,distance,capacity,rows,cols", ...lines].join("\n");
+
+describe("LocationHierarchyService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.block.findMany.mockResolvedValue([existingBlock]);
+    mockPrisma.building.findMany.mockResolvedValue([existingBuilding]);
+    mockPrisma.seat.findMany.mockResolvedValue([]);
+  });
+
+  describe("parseFile", () => {
+    it("should report children that are not lists instead of failing", () => {
+      const { hierarchy, errors } = LocationHierarchyService.parseFile(
+        "json",
+        JSON.stringify({
+          blocks: [
+            { code: "NORTH", buildings: {} },
+            { code: "SOUTH", buildings: [{ code: "S1", floors: [{ number: 0, rooms: "101" }] }, 7] },
+          ],
+        })
+      );
+
+      expect(hierarchy.blocks).toHaveLength(2);
+      expect(hierarchy.buildings).toHaveLength(1);
+      expect(hierarchy.floors).toHaveLength(1);
+      expect(hierarchy.rooms).toEqual([]);
+      expect(errors).toEqual([
+        expect.objectContaining({ source: "blocks[0].buildings", message: "Buildings must be a list" }),
+        expect.objectContaining({ source: "blocks[1].buildings[0].floors[0].rooms", message: "Rooms must be a list" }),
+        expect.objectContaining({ source: "blocks[1].buildings[1]", message: "Building code is required" }),
+      ]);
+    });
+  });
+
+  describe("planImport", () => {
+    it("should report invalid parents, duplicate codes and oversized rooms", async () => {
+      const { hierarchy, errors } = LocationHierarchyService.parseFile(
+        "csv",
+        csv(
+          "block,SOUTH,,,South,0",
+          "block,SOUTH,,,South again,0",
+          "building,EAST,E1,,East One,0",
+          "floor,,N1,3,Third,0",
+          "room,,N1,3,301,0,50,5,5",
+          "room,,N1,9,901,0,10,5,5"
+        )
+      );
+
+      const report = await LocationHierarchyService.planImport(hierarchy, errors);
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toEqual([
+        expect.objectContaining({ source: "line 3", code: ErrorCode.DUPLICATE_LOCATION_CODE }),
+        expect.objectContaining({ source: "line 4", code: ErrorCode.INVALID_PARENT }),
+        expect.objectContaining({
+          source: "line 6",
+          message: "Capacity cannot exceed the total seats from dimensions (rows * cols)",
+        }),
+        expect.objectContaining({ source: "line 7", code: ErrorCode.INVALID_PARENT }),
+      ]);
+    });
+
+    it("should diff existing entities and preview seat changes of resized rooms", async () => {
+      const { hierarchy, errors } = LocationHierarchyService.parseFile(
+        "json",
+        JSON.stringify({
+          blocks: [
+            {
+              code: "NORTH",
+              buildings: [
+                {
+                  code: "N1",
+                  name: "North Wing",
+                  floors: [
+                    {
+                      number: 0,
+                      rooms: [{ name: "101", capacity: 6, rows: 2, cols: 3 }],
+                    },
+                    {
+                      number: 1,
+                      name: "First",
+                      rooms: [{ name: "111", capacity: 10, rows: 2, cols: 5 }],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        })
+      );
+
+      const report = await LocationHierarchyService.planImport(hierarchy, errors);
+
+      expect(report.valid).toBe(true);
+      expect(report.blocks).toEqual([{ key: "NORTH", action: "unchanged" }]);
+      expect(report.buildings).toEqual([
+        {
+          key: "N1",
+          action: "update",
+          changes: { name: { from: "North One", to: "North Wing" } },
+        },
+      ]);
+      expect(report.floors.map((f) => f.action)).toEqual(["unchanged", "create"]);
+      expect(report.rooms[0]).toMatchObject({
+        key: "N1/101",
+        action: "update",
+        changes: {
+          capacity: { from: 4, to: 6 },
+          cols: { from: 2, to: 3 },
+        },
+        seatChanges: expect.objectContaining({ added: expect.any(Array) }),
+      });
+      expect(report.rooms[1]).toEqual({ key: "N1/111", action: "create" });
+      expect(report.summary).toEqual({ created: 2, updated: 2, unchanged: 2 });
+    });
+  });
+
+  describe("toCsv", () => {
+    it("should produce a file the importer reads back", () => {
+      const document = {
+        blocks: [
+          {
+            code: "NORTH",
+            name: "North, Main",
+            distance: 0,
+            buildings: [
+              {
+                code: "N1",
+                name: "North One",
+                distance: 10,
+                floors: [
+                  {
+                    number: 0,
+                    name: "Ground",
+                    distance: 0,
+                    rooms: [{ name: "101", capacity: 4, rows: 2, cols: 2, distance: 5 }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      const { hierarchy, errors } = LocationHierarchyService.parseFile(
+        "csv",
+        LocationHierarchyService.toCsv(document)
+      );
+
+      expect(errors).toEqual([]);
+      expect(hierarchy.blocks).toEqual([
+        { source: "line 2", code: "NORTH", name: "North, Main", distance: 0 },
+      ]);
+      expect(hierarchy.rooms).toEqual([
+        expect.objectContaining({
+          buildingCode: "N1",
+          floorNumber: 0,
+          name: "101",
+          capacity: 4,
+          rows: 2,
+          cols: 2,
+        }),
+      ]);
+    });
+  });
+
+  describe("importHierarchy", () => {
+    it("should write nothing on a dry run", async () => {
+      const { report } = await LocationHierarchyService.importHierarchy(
+        "csv",
+        csv("block,SOUTH,,,South,0"),
+        true
+      );
+
+      expect(report).toMatchObject({ dryRun: true, valid: true });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should upsert by code and generate seats for new rooms", async () => {
+      const tx = {
+        block: {
+          upsert: jest.fn(),
+          findUniqueOrThrow: jest.fn().mockResolvedValue({ id: "block1" }),
+        },
+        building: {
+          upsert: jest.fn().mockResolvedValue({ id: "bld2" }),
+          findUniqueOrThrow: jest.fn(),
+        },
+        floor: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          create: jest.fn().mockResolvedValue({ id: "floor2" }),
+        },
+        room: {
+          findFirst: jest.fn().mockResolvedValue(null),
+          create: jest.fn().mockResolvedValue({ id: "room2" }),
+          update: jest.fn(),
+        },
+        seat: { deleteMany: jest.fn(), createMany: jest.fn() },
+      };
+      mockPrisma.$transaction.mockImplementation((fn: any) => fn(tx));
+
+      const { report } = await LocationHierarchyService.importHierarchy(
+        "csv",
+        csv(
+          "building,NORTH,N2,,North Two,0",
+          "floor,,N2,0,Ground,0",
+          "room,,N2,0,201,0,6,2,3"
+        ),
+        false
+      );
+
+      expect(report.valid).toBe(true);
+      expect(tx.building.upsert).toHaveBeenCalledWith({
+        where: { code: "N2" },
+        create: { code: "N2", name: "North Two", distance: 0, blockId: "block1" },
+        update: { name: "North Two", distance: 0, blockId: "block1" },
+      });
+      expect(tx.room.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          buildingId: "bld2",
+          floorId: "floor2",
+          name: "201",
+          capacity: 6,
+          rows: 2,
+          cols: 3,
+        }),
+      });
+      expect(tx.seat.createMany.mock.calls[0][0].data).toHaveLength(6);
+    });
+  });
+});
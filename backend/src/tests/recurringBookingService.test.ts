@@ -0,0 +1,293 @@
+// Mock PrismaClient
+const mockRoomBookingFindMany = jest.fn();
+const mockRoomBlackoutFindMany = jest.fn();
+const mockRoomFindUnique = jest.fn();
+const mockTransaction = jest.fn();
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    roomBooking: {
+      findMany: mockRoomBookingFindMany,
+    },
+    roomBlackout: {
+      findMany: mockRoomBlackoutFindMany,
+    },
+    room: {
+      findUnique: mockRoomFindUnique,
+    },
+    $transaction: mockTransaction,
+  })),
+  Branch: {
+    ConsultingClub: "ConsultingClub",
+  },
+}));
+
+import {
+  RecurringBookingService,
+  MAX_SERIES_OCCURRENCES,
+} from "../services/recurringBookingService";
+import { Branch } from "../../generated/prisma/client";
+
+describe("RecurringBookingService", () => {
+  // Monday 3 November 2025, 10:00-11:00 local time
+  const start = new Date(2025, 10, 3, 10, 0);
+  const end = new Date(2025, 10, 3, 11, 0);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRoomBlackoutFindMany.mockResolvedValue([]);
+    mockRoomFindUnique.mockResolvedValue(null);
+  });
+
+  describe("expandOccurrences", () => {
+    it("should generate N occurrences on the given weekdays", () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [1, 3], // Monday, Wednesday
+        count: 4,
+      });
+
+      expect(occurrences.map((o) => o.startTime)).toEqual([
+        new Date(2025, 10, 3, 10, 0),
+        new Date(2025, 10, 5, 10, 0),
+        new Date(2025, 10, 10, 10, 0),
+        new Date(2025, 10, 12, 10, 0),
+      ]);
+      expect(occurrences[3].endTime).toEqual(new Date(2025, 10, 12, 11, 0));
+    });
+
+    it("should stop at the until date", () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [1],
+        until: new Date(2025, 10, 24, 23, 59),
+      });
+
+      expect(occurrences).toHaveLength(4);
+      expect(occurrences[3].startTime).toEqual(new Date(2025, 10, 24, 10, 0));
+    });
+
+    it("should include an occurrence on the until day itself", () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [1],
+        until: RecurringBookingService.parseUntil("2025-11-24"),
+      });
+
+      expect(occurrences).toHaveLength(4);
+      expect(occurrences[3].startTime).toEqual(new Date(2025, 10, 24, 10, 0));
+    });
+
+    it("should start on the first matching weekday after the start time", () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [5], // Friday
+        count: 1,
+      });
+
+      expect(occurrences[0].startTime).toEqual(new Date(2025, 10, 7, 10, 0));
+    });
+
+    it("should cap the number of occurrences", () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [0, 1, 2, 3, 4, 5, 6],
+        until: new Date(2027, 0, 1),
+      });
+
+      expect(occurrences).toHaveLength(MAX_SERIES_OCCURRENCES);
+    });
+  });
+
+  describe("findConflicts", () => {
+    it("should report each clashing occurrence with its reason", async () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [1],
+        count: 3,
+      });
+      mockRoomBookingFindMany.mockResolvedValue([
+        {
+          id: "b1",
+          roomId: "room1",
+          teacherId: "other",
+          startTime: new Date(2025, 10, 10, 10, 30),
+          endTime: new Date(2025, 10, 10, 12, 0),
+          teacher: { name: "Dr. Smith" },
+        },
+        {
+          id: "b2",
+          roomId: "room2",
+          teacherId: "teacher1",
+          startTime: new Date(2025, 10, 17, 9, 0),
+          endTime: new Date(2025, 10, 17, 10, 30),
+          teacher: { name: "Me" },
+        },
+      ]);
+
+      const conflicts = await RecurringBookingService.findConflicts(
+        "teacher1",
+        "room1",
+        occurrences
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          startTime: new Date(2025, 10, 10, 10, 0),
+          code: "ROOM_NOT_AVAILABLE",
+          conflictingBookingId: "b1",
+        }),
+        expect.objectContaining({
+          startTime: new Date(2025, 10, 17, 10, 0),
+          code: "TEACHER_TIME_CONFLICT",
+          conflictingBookingId: "b2",
+        }),
+      ]);
+    });
+
+    it("should keep the room's buffers free between bookings", async () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [1],
+        count: 2,
+      });
+      // 10 minutes before from the building, 15 after from the room
+      mockRoomFindUnique.mockResolvedValue({
+        bufferBeforeMinutes: null,
+        bufferAfterMinutes: 15,
+        building: { bufferBeforeMinutes: 10, bufferAfterMinutes: null },
+      });
+      mockRoomBookingFindMany.mockResolvedValue([
+        {
+          id: "b1",
+          roomId: "room1",
+          teacherId: "other",
+          startTime: new Date(2025, 10, 3, 9, 0),
+          endTime: new Date(2025, 10, 3, 9, 50),
+          teacher: { name: "Dr. Smith" },
+        },
+        {
+          id: "b2",
+          roomId: "room1",
+          teacherId: "other",
+          startTime: new Date(2025, 10, 10, 11, 30),
+          endTime: new Date(2025, 10, 10, 12, 30),
+          teacher: { name: "Dr. Smith" },
+        },
+      ]);
+
+      const conflicts = await RecurringBookingService.findConflicts(
+        "teacher1",
+        "room1",
+        occurrences
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          startTime: new Date(2025, 10, 3, 10, 0),
+          code: "ROOM_NOT_AVAILABLE",
+          conflictingBookingId: "b1",
+        }),
+      ]);
+    });
+
+    it("should report occurrences falling inside a room blackout", async () => {
+      const occurrences = RecurringBookingService.expandOccurrences(start, end, {
+        byWeekday: [1],
+        count: 2,
+      });
+      mockRoomBookingFindMany.mockResolvedValue([]);
+      mockRoomBlackoutFindMany.mockResolvedValue([
+        {
+          id: "blk1",
+          roomId: "room1",
+          startTime: new Date(2025, 10, 10, 0, 0),
+          endTime: new Date(2025, 10, 11, 0, 0),
+          reason: "Projector replacement",
+        },
+      ]);
+
+      const conflicts = await RecurringBookingService.findConflicts(
+        "teacher1",
+        "room1",
+        occurrences
+      );
+
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          startTime: new Date(2025, 10, 10, 10, 0),
+          code: "ROOM_BLACKED_OUT",
+          conflictingBlackoutId: "blk1",
+        }),
+      ]);
+    });
+  });
+
+  describe("createSeries", () => {
+    const occurrences = [
+      { startTime: start, endTime: end },
+      { startTime: new Date(2025, 10, 10, 10, 0), endTime: new Date(2025, 10, 10, 11, 0) },
+    ];
+    const request = {
+      teacherId: "teacher1",
+      roomId: "room1",
+      branch: Branch.ConsultingClub,
+      capacity: 30,
+      recurrence: { byWeekday: [1], count: 2 },
+      occurrences,
+    };
+    const clash = {
+      id: "b1",
+      roomId: "room1",
+      teacherId: "other",
+      startTime: new Date(2025, 10, 10, 10, 0),
+      endTime: new Date(2025, 10, 10, 11, 0),
+      teacher: { name: "Dr. Smith" },
+    };
+
+    it("should create nothing when an occurrence conflicts", async () => {
+      mockRoomBookingFindMany.mockResolvedValue([clash]);
+
+      await expect(RecurringBookingService.createSeries(request)).rejects.toMatchObject({
+        message: "SERIES_CONFLICT",
+        conflicts: [expect.objectContaining({ conflictingBookingId: "b1" })],
+      });
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should book only the free occurrences when skipping conflicts", async () => {
+      mockRoomBookingFindMany.mockResolvedValueOnce([clash]).mockResolvedValueOnce([]);
+      const createMany = jest.fn().mockResolvedValue({ count: 1 });
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          bookingSeries: { create: jest.fn().mockResolvedValue({ id: "series1" }) },
+          roomBooking: { createMany },
+        })
+      );
+
+      const result = await RecurringBookingService.createSeries({
+        ...request,
+        skipConflicts: true,
+      });
+
+      expect(createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ startTime: start, seriesId: "series1" })],
+      });
+      expect(result.skipped).toHaveLength(1);
+    });
+
+    it("should create every occurrence pending approval for a restricted room", async () => {
+      mockRoomBookingFindMany.mockResolvedValue([]);
+      const createMany = jest.fn().mockResolvedValue({ count: 2 });
+      mockTransaction.mockImplementation(async (callback) =>
+        callback({
+          bookingSeries: { create: jest.fn().mockResolvedValue({ id: "series1" }) },
+          roomBooking: { createMany },
+        })
+      );
+
+      await RecurringBookingService.createSeries({
+        ...request,
+        requiresApproval: true,
+      });
+
+      expect(createMany.mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ status: "PendingApproval" }),
+        expect.objectContaining({ status: "PendingApproval" }),
+      ]);
+    });
+  });
+});
@@ -522,6 +522,31 @@ describe("Room Search and Booking Flow", () => {
       expect(deletedBooking).toBeUndefined();
     });
 
+    it("should keep a rejected booking and its review comment", async () => {
+      const rejected = await prisma.roomBooking.create({
+        data: {
+          roomId: room2.id,
+          teacherId: teacher.id,
+          branch: Branch.ConsultingClub,
+          capacity: 30,
+          startTime: new Date(Date.now() + 7 * 60 * 60 * 1000),
+          endTime: new Date(Date.now() + 8 * 60 * 60 * 1000),
+          status: "Rejected",
+          reviewComment: "Reserved for the open day",
+        },
+      });
+
+      const response = await request(app)
+        .delete(`/api/room-bookings/${rejected.id}`)
+        .set("Authorization", `Bearer ${teacherToken}`);
+
+      expect(response.status).toBe(400);
+      const kept = await prisma.roomBooking.findUnique({
+        where: { id: rejected.id },
+      });
+      expect(kept?.reviewComment).toBe("Reserved for the open day");
+    });
+
     it("should return 404 for non-existent booking", async () => {
       const response = await request(app)
         .delete("/api/room-bookings/non-existent-id")
@@ -531,6 +556,350 @@ describe("Room Search and Booking Flow", () => {
     });
   });
 
+  describe("Room Booking Reschedule", () => {
+    let booking: any;
+
+    beforeAll(async () => {
+      const startTime = new Date(Date.now() + 20 * 60 * 60 * 1000);
+      const endTime = new Date(Date.now() + 21 * 60 * 60 * 1000);
+
+      const response = await request(app)
+        .post("/api/room-bookings")
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({
+          roomId: room1.id,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime: startTime.toISOString(),
+          endTime: endTime.toISOString(),
+        });
+
+      booking = response.body;
+    });
+
+    it("should move a booking by 30 minutes without cancelling it", async () => {
+      const startTime = new Date(
+        new Date(booking.startTime).getTime() + 30 * 60 * 1000
+      );
+      const endTime = new Date(
+        new Date(booking.endTime).getTime() + 30 * 60 * 1000
+      );
+
+      const response = await request(app)
+        .patch(`/api/room-bookings/${booking.id}`)
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({
+          startTime: startTime.toISOString(),
+          endTime: endTime.toISOString(),
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe(booking.id);
+      expect(new Date(response.body.startTime)).toEqual(startTime);
+      expect(response.body.roomId).toBe(room1.id);
+    });
+
+    it("should move a booking to another room", async () => {
+      const response = await request(app)
+        .patch(`/api/room-bookings/${booking.id}`)
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({ roomId: room2.id, capacity: 40 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.roomId).toBe(room2.id);
+      expect(response.body.capacity).toBe(40);
+    });
+
+    it("should reject a capacity larger than the room", async () => {
+      const response = await request(app)
+        .patch(`/api/room-bookings/${booking.id}`)
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({ roomId: room1.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("INSUFFICIENT_CAPACITY");
+    });
+
+    it("should reject a time that overlaps another booking of the teacher", async () => {
+      const otherStart = new Date(Date.now() + 30 * 60 * 60 * 1000);
+      const otherEnd = new Date(Date.now() + 31 * 60 * 60 * 1000);
+      await request(app)
+        .post("/api/room-bookings")
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({
+          roomId: room1.id,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime: otherStart.toISOString(),
+          endTime: otherEnd.toISOString(),
+        });
+
+      const response = await request(app)
+        .patch(`/api/room-bookings/${booking.id}`)
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({
+          startTime: otherStart.toISOString(),
+          endTime: otherEnd.toISOString(),
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe("TEACHER_TIME_CONFLICT");
+    });
+
+    it("should return 404 for non-existent booking", async () => {
+      const response = await request(app)
+        .patch("/api/room-bookings/non-existent-id")
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({ capacity: 10 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Admin Booking Management", () => {
+    let adminToken: string;
+    let otherTeacher: any;
+    let otherTeacherToken: string;
+
+    const slotAt = (hoursFromNow: number) => ({
+      startTime: new Date(Date.now() + hoursFromNow * 60 * 60 * 1000),
+      endTime: new Date(Date.now() + (hoursFromNow + 1) * 60 * 60 * 1000),
+    });
+
+    const adminBooking = async (
+      roomId: string,
+      slot: { startTime: Date; endTime: Date }
+    ) =>
+      request(app)
+        .post("/api/room-bookings/admin")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({
+          teacherId: teacher.id,
+          roomId,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime: slot.startTime.toISOString(),
+          endTime: slot.endTime.toISOString(),
+          reason: "Booked at the teacher's request",
+        });
+
+    const joinWaitlist = async (
+      roomId: string,
+      slot: { startTime: Date; endTime: Date }
+    ) =>
+      request(app)
+        .post("/api/room-bookings/waitlist")
+        .set("Authorization", `Bearer ${otherTeacherToken}`)
+        .send({
+          roomId,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime: slot.startTime.toISOString(),
+          endTime: slot.endTime.toISOString(),
+        });
+
+    beforeAll(async () => {
+      const hashedPassword = await bcrypt.hash("admin123", 10);
+      await prisma.user.create({
+        data: {
+          email: "test-booking-admin@example.com",
+          password: hashedPassword,
+          role: "Admin",
+        },
+      });
+
+      const otherTeacherUser = await prisma.user.create({
+        data: {
+          email: "test-booking-teacher-2@example.com",
+          password: hashedPassword,
+          role: "Teacher",
+        },
+      });
+
+      otherTeacher = await prisma.teacher.create({
+        data: {
+          name: "Test Booking Teacher 2",
+          email: "test-booking-teacher-2@example.com",
+          userId: otherTeacherUser.id,
+        },
+      });
+
+      const adminLogin = await request(app).post("/api/auth/login").send({
+        email: "test-booking-admin@example.com",
+        password: "admin123",
+      });
+      adminToken = adminLogin.body.token;
+
+      const teacherLogin = await request(app).post("/api/auth/login").send({
+        email: "test-booking-teacher-2@example.com",
+        password: "admin123",
+      });
+      otherTeacherToken = teacherLogin.body.token;
+    });
+
+    it("should create a booking on behalf of a teacher", async () => {
+      const response = await adminBooking(room1.id, slotAt(40));
+
+      expect(response.status).toBe(201);
+      expect(response.body.teacherId).toBe(teacher.id);
+      expect(response.body.status).toBe("NotStarted");
+      expect(response.body.adminReason).toBe("Booked at the teacher's request");
+    });
+
+    it("should return 404 when booking for an unknown teacher", async () => {
+      const slot = slotAt(42);
+      const response = await request(app)
+        .post("/api/room-bookings/admin")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({
+          teacherId: "non-existent-teacher",
+          roomId: room1.id,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime: slot.startTime.toISOString(),
+          endTime: slot.endTime.toISOString(),
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("TEACHER_NOT_FOUND");
+    });
+
+    it("should not let teachers use the admin endpoints", async () => {
+      const response = await request(app)
+        .post("/api/room-bookings/non-existent-id/force-cancel")
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({ reason: "Not mine to cancel" });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should require a reason to force-cancel", async () => {
+      const { body: booking } = await adminBooking(room1.id, slotAt(44));
+
+      const response = await request(app)
+        .post(`/api/room-bookings/${booking.id}/force-cancel`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ reason: " " });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should force-cancel a booking and hand the slot to the waitlist", async () => {
+      const slot = slotAt(46);
+      const { body: booking } = await adminBooking(room1.id, slot);
+      const { body: entry } = await joinWaitlist(room1.id, slot);
+
+      const response = await request(app)
+        .post(`/api/room-bookings/${booking.id}/force-cancel`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ reason: "Room needed for exams" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe("Cancelled");
+      expect(response.body.adminReason).toBe("Room needed for exams");
+
+      const promoted = await prisma.waitlistEntry.findUnique({
+        where: { id: entry.id },
+      });
+      expect(promoted?.status).toBe("Booked");
+      const promotedBooking = await prisma.roomBooking.findUnique({
+        where: { id: promoted!.bookingId! },
+      });
+      expect(promotedBooking?.teacherId).toBe(otherTeacher.id);
+      expect(promotedBooking?.roomId).toBe(room1.id);
+    });
+
+    it("should refuse to force-cancel a booking twice", async () => {
+      const { body: booking } = await adminBooking(room1.id, slotAt(48));
+      await request(app)
+        .post(`/api/room-bookings/${booking.id}/force-cancel`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ reason: "Room needed for exams" });
+
+      const response = await request(app)
+        .post(`/api/room-bookings/${booking.id}/force-cancel`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ reason: "Room needed for exams" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should reassign a booking and hand the previous room to the waitlist", async () => {
+      const slot = slotAt(50);
+      const { body: booking } = await adminBooking(room1.id, slot);
+      const { body: entry } = await joinWaitlist(room1.id, slot);
+
+      const response = await request(app)
+        .post(`/api/room-bookings/${booking.id}/reassign`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ roomId: room2.id, reason: "Projector is broken" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.roomId).toBe(room2.id);
+      expect(response.body.adminReason).toBe("Projector is broken");
+
+      const promoted = await prisma.waitlistEntry.findUnique({
+        where: { id: entry.id },
+      });
+      expect(promoted?.status).toBe("Booked");
+      const promotedBooking = await prisma.roomBooking.findUnique({
+        where: { id: promoted!.bookingId! },
+      });
+      expect(promotedBooking?.roomId).toBe(room1.id);
+    });
+
+    it("should hand the previous slot to the waitlist when a booking is moved", async () => {
+      const slot = slotAt(54);
+      const { body: booking } = await adminBooking(room1.id, slot);
+      const { body: entry } = await joinWaitlist(room1.id, slot);
+      const later = slotAt(56);
+
+      const response = await request(app)
+        .patch(`/api/room-bookings/${booking.id}`)
+        .set("Authorization", `Bearer ${teacherToken}`)
+        .send({
+          startTime: later.startTime.toISOString(),
+          endTime: later.endTime.toISOString(),
+        });
+
+      expect(response.status).toBe(200);
+
+      const promoted = await prisma.waitlistEntry.findUnique({
+        where: { id: entry.id },
+      });
+      expect(promoted?.status).toBe("Booked");
+      const promotedBooking = await prisma.roomBooking.findUnique({
+        where: { id: promoted!.bookingId! },
+      });
+      expect(promotedBooking?.teacherId).toBe(otherTeacher.id);
+      expect(promotedBooking?.startTime).toEqual(slot.startTime);
+    });
+
+    it("should not reassign a booking into a taken room", async () => {
+      const slot = slotAt(52);
+      const { body: booking } = await adminBooking(room1.id, slot);
+      await prisma.roomBooking.create({
+        data: {
+          roomId: room2.id,
+          teacherId: otherTeacher.id,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+        },
+      });
+
+      const response = await request(app)
+        .post(`/api/room-bookings/${booking.id}/reassign`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ roomId: room2.id });
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe("ROOM_NOT_AVAILABLE");
+    });
+  });
+
   describe("Booking Status Updates", () => {
     it("should update booking status from NotStarted to Ongoing", async () => {
       // Create a booking that starts very soon
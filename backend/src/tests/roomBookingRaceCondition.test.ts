@@ -1,8 +1,9 @@
 import request from "supertest";
 import express from "express";
-import { PrismaClient } from "../../generated/prisma/client";
+import { PrismaClient, Branch } from "../../generated/prisma/client";
 import roomBookingsRouter from "../routes/roomBookings";
 import authRouter from "../routes/auth";
+import { roomLockService } from "../services/roomLockService";
 import { Server } from "socket.io";
 import { createServer } from "http";
 
@@ -24,6 +25,7 @@ describe("Room Booking Race Condition Tests", () => {
   let teacher1Id: string;
   let teacher2Id: string;
   let roomId: string;
+  let room2Id: string;
   let blockId: string;
   let buildingId: string;
   let floorId: string;
@@ -75,6 +77,19 @@ describe("Room Booking Race Condition Tests", () => {
     });
     roomId = room.id;
 
+    const room2 = await prisma.room.create({
+      data: {
+        name: "Test Room 102",
+        buildingId: buildingId,
+        floorId: floorId,
+        capacity: 50,
+        rows: 5,
+        cols: 10,
+        distance: 0,
+      },
+    });
+    room2Id = room2.id;
+
     // Create two test teachers
     const teacher1Response = await request(app).post("/api/auth/signup").send({
       email: "teacher1@test.com",
@@ -98,7 +113,7 @@ describe("Room Booking Race Condition Tests", () => {
   afterAll(async () => {
     // Clean up test data
     await prisma.roomBooking.deleteMany({});
-    await prisma.room.deleteMany({ where: { id: roomId } });
+    await prisma.room.deleteMany({ where: { id: { in: [roomId, room2Id] } } });
     await prisma.floor.deleteMany({ where: { id: floorId } });
     await prisma.building.deleteMany({ where: { id: buildingId } });
     await prisma.block.deleteMany({ where: { id: blockId } });
@@ -315,6 +330,186 @@ describe("Room Booking Race Condition Tests", () => {
       expect(response2.status).toBe(409);
       expect(response2.body.code).toBe("ROOM_NOT_AVAILABLE");
     });
+
+    it("should let only one of two simultaneous partially overlapping bookings through", async () => {
+      const [response1, response2] = await Promise.all([
+        request(app)
+          .post("/api/room-bookings")
+          .set("Authorization", `Bearer ${teacher1Token}`)
+          .send({
+            roomId,
+            branch: "CSE",
+            capacity: 30,
+            startTime: new Date(Date.now() + 3600000).toISOString(),
+            endTime: new Date(Date.now() + 7200000).toISOString(),
+          }),
+        request(app)
+          .post("/api/room-bookings")
+          .set("Authorization", `Bearer ${teacher2Token}`)
+          .send({
+            roomId,
+            branch: "ECE",
+            capacity: 25,
+            startTime: new Date(Date.now() + 5400000).toISOString(),
+            endTime: new Date(Date.now() + 9000000).toISOString(),
+          }),
+      ]);
+
+      const statuses = [response1.status, response2.status].sort();
+      expect(statuses).toEqual([201, 409]);
+
+      const bookings = await prisma.roomBooking.findMany({
+        where: { roomId },
+      });
+      expect(bookings).toHaveLength(1);
+    });
+  });
+
+  describe("Database Overlap Constraints", () => {
+    // Every request gets a lock, as if each ran on its own backend instance
+    // without a shared lock store; only the database stands in the way
+    beforeEach(() => {
+      jest
+        .spyOn(roomLockService, "acquireLock")
+        .mockImplementation(async (lockRoomId, owner) => ({
+          roomId: lockRoomId,
+          owner,
+          token: 0,
+          keys: [],
+          expiresAt: new Date(Date.now() + 30000),
+        }));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const teacherIdFor = async (userId: string) =>
+      (await prisma.teacher.findFirstOrThrow({ where: { userId } })).id;
+
+    it("should reject overlapping active bookings of a room written directly", async () => {
+      const [teacherA, teacherB] = await Promise.all([
+        teacherIdFor(teacher1Id),
+        teacherIdFor(teacher2Id),
+      ]);
+      const base = Date.now() + 3600000;
+
+      const results = await Promise.allSettled(
+        [teacherA, teacherB].map((teacherId, i) =>
+          prisma.roomBooking.create({
+            data: {
+              roomId,
+              teacherId,
+              branch: Branch.ConsultingClub,
+              capacity: 20,
+              startTime: new Date(base + i * 1800000),
+              endTime: new Date(base + 3600000 + i * 1800000),
+            },
+          })
+        )
+      );
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+      expect(
+        (results.find((r) => r.status === "rejected") as PromiseRejectedResult)
+          .reason.message
+      ).toContain("RoomBooking_room_no_overlap");
+    });
+
+    it("should allow a new booking over a cancelled one", async () => {
+      const teacherA = await teacherIdFor(teacher1Id);
+      const startTime = new Date(Date.now() + 3600000);
+      const endTime = new Date(Date.now() + 7200000);
+
+      await prisma.roomBooking.create({
+        data: {
+          roomId,
+          teacherId: teacherA,
+          branch: Branch.ConsultingClub,
+          capacity: 20,
+          startTime,
+          endTime,
+          status: "Cancelled",
+        },
+      });
+
+      await expect(
+        prisma.roomBooking.create({
+          data: {
+            roomId,
+            teacherId: teacherA,
+            branch: Branch.ConsultingClub,
+            capacity: 20,
+            startTime,
+            endTime,
+          },
+        })
+      ).resolves.toBeDefined();
+    });
+
+    it("should let only one of many simultaneous requests book the room", async () => {
+      const responses = await Promise.all(
+        Array.from({ length: 6 }, (_, i) =>
+          request(app)
+            .post("/api/room-bookings")
+            .set(
+              "Authorization",
+              `Bearer ${i % 2 === 0 ? teacher1Token : teacher2Token}`
+            )
+            .send({
+              roomId,
+              branch: Branch.ConsultingClub,
+              capacity: 20,
+              startTime: new Date(Date.now() + 3600000 + i * 60000).toISOString(),
+              endTime: new Date(Date.now() + 7200000 + i * 60000).toISOString(),
+            })
+        )
+      );
+
+      expect(responses.filter((r) => r.status === 201)).toHaveLength(1);
+      responses
+        .filter((r) => r.status !== 201)
+        .forEach((r) => {
+          expect(r.status).toBe(409);
+          expect(["ROOM_NOT_AVAILABLE", "TEACHER_TIME_CONFLICT"]).toContain(
+            r.body.code
+          );
+        });
+
+      const bookings = await prisma.roomBooking.findMany({ where: { roomId } });
+      expect(bookings).toHaveLength(1);
+    });
+
+    it("should stop a teacher booking two rooms at once", async () => {
+      const startTime = new Date(Date.now() + 3600000).toISOString();
+      const endTime = new Date(Date.now() + 7200000).toISOString();
+
+      const responses = await Promise.all(
+        [roomId, room2Id].map((targetRoomId) =>
+          request(app)
+            .post("/api/room-bookings")
+            .set("Authorization", `Bearer ${teacher1Token}`)
+            .send({
+              roomId: targetRoomId,
+              branch: Branch.ConsultingClub,
+              capacity: 20,
+              startTime,
+              endTime,
+            })
+        )
+      );
+
+      const statuses = responses.map((r) => r.status).sort();
+      expect(statuses).toEqual([201, 409]);
+      expect(responses.find((r) => r.status === 409)!.body.code).toBe(
+        "TEACHER_TIME_CONFLICT"
+      );
+
+      const bookings = await prisma.roomBooking.findMany({
+        where: { roomId: { in: [roomId, room2Id] } },
+      });
+      expect(bookings).toHaveLength(1);
+    });
   });
 
   describe("Lock Management", () => {
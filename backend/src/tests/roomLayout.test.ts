@@ -0,0 +1,166 @@
+import request from "supertest";
+import express from "express";
+import { PrismaClient } from "../../generated/prisma/client";
+import roomsRouter from "../routes/rooms";
+
+const app = express();
+app.use(express.json());
+app.use("/api/rooms", roomsRouter);
+
+const prisma = new PrismaClient();
+
+describe("Room Layout Endpoint", () => {
+  let adminToken: string;
+  let testRoom: any;
+  let testStudent: any;
+  let allocatedSeat: any;
+
+  const layoutWithAisleAfter = (col: number) => ({
+    rows: [{ seats: 4 }],
+    aislesAfter: [col],
+    blocked: [],
+    stage: "front",
+  });
+
+  beforeAll(async () => {
+    const adminUser = await prisma.user.create({
+      data: {
+        email: "admin-layout@test.com",
+        password: "$2b$10$abcdefghijklmnopqrstuv",
+        role: "Admin",
+      },
+    });
+
+    testStudent = await prisma.student.create({
+      data: {
+        name: "Test Student Layout",
+        email: "student-layout@test.com",
+        branch: "ConsultingClub",
+        tags: [],
+        accessibilityNeeds: [],
+      },
+    });
+
+    const block = await prisma.block.create({
+      data: { name: "Test Block", code: "TB-RL", distance: 0 },
+    });
+
+    const building = await prisma.building.create({
+      data: {
+        name: "Test Building",
+        code: "TBD-RL",
+        blockId: block.id,
+        distance: 0,
+      },
+    });
+
+    const floor = await prisma.floor.create({
+      data: {
+        buildingId: building.id,
+        name: "Floor RL",
+        number: 1,
+        distance: 0,
+      },
+    });
+
+    testRoom = await prisma.room.create({
+      data: {
+        buildingId: building.id,
+        floorId: floor.id,
+        name: "Test Room RL",
+        capacity: 4,
+        rows: 1,
+        cols: 4,
+        layout: layoutWithAisleAfter(2),
+        branchAllocated: "ConsultingClub",
+        claimed: 1,
+      },
+    });
+
+    // A1 A2 A3 | A4, with A2 taken
+    for (const col of [0, 1, 2, 3]) {
+      const seat = await prisma.seat.create({
+        data: {
+          roomId: testRoom.id,
+          label: `A${col + 1}`,
+          row: 0,
+          col,
+          status: col === 1 ? "Allocated" : "Available",
+          features:
+            col === 1 ? ["front_seat", "middle_seat", "power_outlet"] : [],
+          studentId: col === 1 ? testStudent.id : null,
+        },
+      });
+      if (col === 1) allocatedSeat = seat;
+    }
+
+    const jwt = require("jsonwebtoken");
+    const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+
+    adminToken = jwt.sign(
+      { id: adminUser.id, email: adminUser.email, role: "Admin" },
+      JWT_SECRET
+    );
+  });
+
+  afterAll(async () => {
+    await prisma.seat.deleteMany({ where: { roomId: testRoom.id } });
+    await prisma.room.deleteMany({ where: { name: "Test Room RL" } });
+    await prisma.floor.deleteMany({ where: { name: "Floor RL" } });
+    await prisma.building.deleteMany({ where: { code: "TBD-RL" } });
+    await prisma.block.deleteMany({ where: { code: "TB-RL" } });
+    await prisma.user.deleteMany({
+      where: { email: "admin-layout@test.com" },
+    });
+    await prisma.student.deleteMany({
+      where: { email: "student-layout@test.com" },
+    });
+    await prisma.$disconnect();
+  });
+
+  it("should reject a save based on an outdated version", async () => {
+    const response = await request(app)
+      .put(`/api/rooms/${testRoom.id}/layout`)
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({
+        version: testRoom.version + 1,
+        layout: layoutWithAisleAfter(0),
+      });
+
+    expect(response.status).toBe(409);
+    expect(response.body.currentRoom.version).toBe(testRoom.version);
+
+    const seats = await prisma.seat.findMany({ where: { roomId: testRoom.id } });
+    expect(seats).toHaveLength(4);
+  });
+
+  it("should keep seats and allocations when an aisle is dragged", async () => {
+    // A1 | A2 A3 A4: A2 becomes an aisle seat
+    const response = await request(app)
+      .put(`/api/rooms/${testRoom.id}/layout`)
+      .set("Authorization", `Bearer ${adminToken}`)
+      .send({
+        version: testRoom.version,
+        layout: layoutWithAisleAfter(0),
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.room.version).toBe(testRoom.version + 1);
+    expect(response.body.room.claimed).toBe(1);
+
+    const seat = await prisma.seat.findUnique({
+      where: { id: allocatedSeat.id },
+    });
+    expect(seat).not.toBeNull();
+    expect(seat!.status).toBe("Allocated");
+    expect(seat!.studentId).toBe(testStudent.id);
+    expect(seat!.label).toBe("A2");
+    expect(seat!.features).toEqual(
+      expect.arrayContaining(["aisle_seat", "power_outlet"])
+    );
+    expect(seat!.features).not.toContain("middle_seat");
+
+    const seats = await prisma.seat.findMany({ where: { roomId: testRoom.id } });
+    expect(seats).toHaveLength(4);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  RoomLockService,
+  InMemoryLockStore,
+  RedisLockStore,
+  RoomLockLostError,
+} from "../services/roomLockService";
+
+const at = (time: string) => new Date(`2030-01-01T${time}:00.000Z`);
+const range = (start: string, end: string) => ({
+  startTime: at(start),
+  endTime: at(end),
+});
+
+describe("RoomLockService", () => {
+  let service: RoomLockService;
+
+  beforeEach(() => {
+    service = new RoomLockService(new InMemoryLockStore());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should block overlapping but non-identical ranges", async () => {
+    const first = await service.acquireLock("room1", "t1", range("10:00", "11:00"));
+
+    expect(first).not.toBeNull();
+    expect(
+      await service.acquireLock("room1", "t2", range("10:30", "11:30"))
+    ).toBeNull();
+    expect(
+      await service.getLockHolder("room1", range("10:30", "11:30"))
+    ).toBe("t1");
+  });
+
+  it("should let back-to-back slots and other rooms through", async () => {
+    await service.acquireLock("room1", "t1", range("10:00", "11:00"));
+
+    expect(
+      await service.acquireLock("room1", "t2", range("11:00", "12:00"))
+    ).not.toBeNull();
+    expect(
+      await service.acquireLock("room2", "t3", range("10:00", "11:00"))
+    ).not.toBeNull();
+  });
+
+  it("should not let the same owner take a slot it already holds", async () => {
+    await service.acquireLock("room1", "t1", range("10:00", "11:00"));
+
+    expect(
+      await service.acquireLock("room1", "t1", range("10:00", "11:00"))
+    ).toBeNull();
+  });
+
+  it("should lock the whole room when buckets are disabled", async () => {
+    service = new RoomLockService(new InMemoryLockStore(), { bucketMinutes: 0 });
+    await service.acquireLock("room1", "t1", range("10:00", "11:00"));
+
+    expect(
+      await service.acquireLock("room1", "t2", range("15:00", "16:00"))
+    ).toBeNull();
+  });
+
+  it.each([NaN, -15, 2.5])(
+    "should fall back to hour buckets for a bucket size of %p",
+    async (bucketMinutes) => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      service = new RoomLockService(new InMemoryLockStore(), { bucketMinutes });
+
+      expect(service.lockKeys("room1", [range("10:30", "11:30")])).toEqual([
+        `room-lock:room1:${at("10:00").getTime()}`,
+        `room-lock:room1:${at("11:00").getTime()}`,
+      ]);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    }
+  );
+
+  it("should lock every range of a series or none of them", async () => {
+    await service.acquireLock("room1", "t1", range("14:00", "15:00"));
+
+    expect(
+      await service.acquireLock("room1", "t2", [
+        range("09:00", "10:00"),
+        range("14:30", "15:30"),
+      ])
+    ).toBeNull();
+    // The free first range was not left half-locked
+    expect(
+      await service.acquireLock("room1", "t3", range("09:00", "10:00"))
+    ).not.toBeNull();
+  });
+
+  it("should fence off a holder whose lease lapsed and was taken over", async () => {
+    jest.useFakeTimers({ now: at("08:00") });
+    service = new RoomLockService(new InMemoryLockStore(), { ttlMs: 1000 });
+
+    const stale = await service.acquireLock("room1", "t1", range("10:00", "11:00"));
+    jest.advanceTimersByTime(1500);
+    const fresh = await service.acquireLock("room1", "t2", range("10:30", "11:00"));
+
+    expect(fresh!.token).toBeGreaterThan(stale!.token);
+    await expect(service.checkStillHeld(stale!)).rejects.toBeInstanceOf(
+      RoomLockLostError
+    );
+
+    // The late release must not drop the new holder's lock
+    await service.releaseLock(stale);
+    await expect(service.checkStillHeld(fresh!)).resolves.toBeUndefined();
+  });
+});
+
+describe("RedisLockStore", () => {
+  it("should acquire through one script with the fencing counter first", async () => {
+    const client = { eval: jest.fn().mockResolvedValue(7) };
+    const store = new RedisLockStore(client);
+
+    const token = await store.acquire(["room-lock:a", "room-lock:b"], "t1", 30000);
+
+    expect(token).toBe(7);
+    expect(client.eval).toHaveBeenCalledTimes(1);
+    expect(client.eval.mock.calls[0][1]).toEqual([
+      "room-lock:fence",
+      "room-lock:a",
+      "room-lock:b",
+    ]);
+    expect(client.eval.mock.calls[0][2]).toEqual(["t1", 30000]);
+  });
+
+  it("should report a held key as a failed acquisition", async () => {
+    const client = { eval: jest.fn().mockResolvedValue(0) };
+
+    expect(
+      await new RedisLockStore(client).acquire(["room-lock:a"], "t1", 30000)
+    ).toBeNull();
+  });
+
+  it("should read the owner out of the stored value", async () => {
+    const client = { eval: jest.fn().mockResolvedValue("12:waitlist:w1") };
+
+    expect(await new RedisLockStore(client).holder(["room-lock:a"])).toBe(
+      "waitlist:w1"
+    );
+  });
+});
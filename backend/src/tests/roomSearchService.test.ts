@@ -0,0 +1,194 @@
+// Mock PrismaClient
+const mockPrisma = {
+  room: { findMany: jest.fn() },
+  roomBooking: { count: jest.fn() },
+  roomBlackout: { count: jest.fn() },
+  amenity: { findMany: jest.fn() },
+  bookingPolicy: { findMany: jest.fn() },
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  Branch: { ConsultingClub: "ConsultingClub" },
+}));
+
+jest.mock("../services/locationGraphService", () => ({
+  LocationGraphService: {
+    floorDistancesFrom: jest.fn().mockResolvedValue(null),
+    stepFreeFloorsFrom: jest.fn().mockResolvedValue(null),
+  },
+  nodeKey: (type: string, id: string) => `${type}:${id}`,
+}));
+
+import { RoomSearchService, SearchCriteria } from "../services/roomSearchService";
+
+const projector = { id: "amenity-projector", name: "Projector" };
+const whiteboard = { id: "amenity-whiteboard", name: "Whiteboard" };
+
+const makeRoom = (id: string, amenities: { id: string; name: string }[]) => ({
+  id,
+  name: id,
+  capacity: 30,
+  floorId: "floor1",
+  buildingId: "bld1",
+  distance: 0,
+  floor: {
+    id: "floor1",
+    name: "Ground",
+    distance: 0,
+    buildingId: "bld1",
+    stepFreeAccess: true,
+    building: {
+      id: "bld1",
+      name: "Main",
+      distance: 0,
+      blockId: "block1",
+      stepFreeEntrance: true,
+      block: { id: "block1", name: "North", distance: 0 },
+    },
+  },
+  amenities,
+});
+
+let searchCount = 0;
+
+// Each search gets a distinct start time so the result cache never answers it
+const criteria = (overrides: Partial<SearchCriteria> = {}): SearchCriteria => {
+  searchCount += 1;
+  return {
+    capacity: 30,
+    branch: "ConsultingClub" as any,
+    startTime: new Date(Date.UTC(2030, 0, 1, searchCount)),
+    endTime: new Date(Date.UTC(2030, 0, 1, searchCount + 1)),
+    currentLocation: { floorId: "floor1" },
+    ...overrides,
+  };
+};
+
+describe("RoomSearchService amenities", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.roomBooking.count.mockResolvedValue(0);
+    mockPrisma.roomBlackout.count.mockResolvedValue(0);
+    mockPrisma.amenity.findMany.mockResolvedValue([projector, whiteboard]);
+    mockPrisma.bookingPolicy.findMany.mockResolvedValue([]);
+  });
+
+  it("should only query rooms offering every required amenity", async () => {
+    mockPrisma.room.findMany.mockResolvedValue([]);
+
+    await RoomSearchService.searchRooms(
+      criteria({ requiredAmenityIds: [projector.id, whiteboard.id] })
+    );
+
+    expect(mockPrisma.room.findMany.mock.calls[0][0].where).toMatchObject({
+      AND: [
+        { amenities: { some: { id: projector.id } } },
+        { amenities: { some: { id: whiteboard.id } } },
+      ],
+    });
+  });
+
+  it("should reward preferred amenities and name the missing ones", async () => {
+    mockPrisma.room.findMany.mockResolvedValue([
+      makeRoom("bare", []),
+      makeRoom("half", [projector]),
+      makeRoom("full", [projector, whiteboard]),
+    ]);
+
+    const results = await RoomSearchService.searchRooms(
+      criteria({ preferredAmenityIds: [projector.id, whiteboard.id] })
+    );
+
+    expect(results.map((r) => r.room.id)).toEqual(["full", "half", "bare"]);
+    expect(results[0].score - results[1].score).toBeCloseTo(5);
+    expect(results[0].reasons).toEqual([]);
+    expect(results[1].reasons).toEqual(["No Whiteboard"]);
+    expect(results[2].reasons).toEqual(["No Projector, Whiteboard"]);
+  });
+
+  it("should not change scores when no amenities are preferred", () => {
+    const room = makeRoom("full", [projector]) as any;
+
+    expect(RoomSearchService.calculateRoomScore(room, criteria(), true, 0)).toBe(100);
+  });
+});
+
+describe("RoomSearchService buffers", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.roomBlackout.count.mockResolvedValue(0);
+    mockPrisma.amenity.findMany.mockResolvedValue([]);
+    mockPrisma.bookingPolicy.findMany.mockResolvedValue([]);
+  });
+
+  it("should explain a slot taken only by another booking's buffer", async () => {
+    mockPrisma.room.findMany.mockResolvedValue([
+      { ...makeRoom("lab", []), bufferBeforeMinutes: 0, bufferAfterMinutes: 15 },
+    ]);
+    // Clashes once buffers are applied, but not on the raw times
+    mockPrisma.roomBooking.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+    const search = criteria();
+
+    const [result] = await RoomSearchService.searchRooms(search);
+
+    expect(result.reasons).toEqual([
+      "Too close to another booking. This room keeps 15 min after each class free.",
+    ]);
+    expect(result.effectiveWindow).toEqual({
+      startTime: search.startTime,
+      endTime: new Date(search.endTime.getTime() + 15 * 60 * 1000),
+    });
+    expect(
+      mockPrisma.roomBooking.count.mock.calls[0][0].where.startTime
+    ).toEqual({ lt: new Date(search.endTime.getTime() + 15 * 60 * 1000) });
+  });
+});
+
+describe("RoomSearchService booking policies", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.roomBooking.count.mockResolvedValue(0);
+    mockPrisma.roomBlackout.count.mockResolvedValue(0);
+    mockPrisma.amenity.findMany.mockResolvedValue([]);
+  });
+
+  it("should exclude rooms whose policy forbids the slot", async () => {
+    mockPrisma.room.findMany.mockResolvedValue([
+      makeRoom("short", []),
+      makeRoom("open", []),
+    ]);
+    mockPrisma.bookingPolicy.findMany.mockResolvedValue([
+      { id: "p1", roomId: "short", buildingId: null, maxDurationMinutes: 30 },
+    ]);
+
+    const results = await RoomSearchService.searchRooms(criteria());
+
+    const short = results.find((r) => r.room.id === "short")!;
+    expect(short.excluded).toBe(true);
+    expect(short.reasons).toEqual([
+      "Bookings in this room can last at most 30 minutes.",
+    ]);
+    expect(results.find((r) => r.room.id === "open")!.excluded).toBe(false);
+  });
+
+  it("should count the teacher's active bookings against the quota", async () => {
+    mockPrisma.room.findMany.mockResolvedValue([makeRoom("lab", [])]);
+    mockPrisma.bookingPolicy.findMany.mockResolvedValue([
+      { id: "global", roomId: null, buildingId: null, maxActiveBookings: 2 },
+    ]);
+    // The availability check finds nothing, the teacher holds two bookings
+    mockPrisma.roomBooking.count.mockImplementation(async ({ where }) =>
+      where.teacherId ? 2 : 0
+    );
+
+    const [result] = await RoomSearchService.searchRooms(
+      criteria({ teacherId: "teacher1" })
+    );
+
+    expect(result.excluded).toBe(true);
+    expect(result.reasons).toEqual([
+      "You can hold at most 2 active bookings; you have 2.",
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  SeatGenerationService,
+  RoomLayout,
+} from "../services/seatGenerationService";
+
+const byLabel = (seats: { label: string; features: string[] }[]) =>
+  Object.fromEntries(seats.map((s) => [s.label, s.features]));
+
+describe("SeatGenerationService", () => {
+  describe("buildSeats with the default layout", () => {
+    it("should keep the single aisle after the third column", () => {
+      const seats = SeatGenerationService.buildSeats(
+        SeatGenerationService.defaultLayout(2, 6),
+        12
+      );
+      const features = byLabel(seats);
+
+      expect(features["A1"]).toEqual(["front_seat", "aisle_seat"]);
+      expect(features["A2"]).toEqual(["front_seat", "middle_seat"]);
+      expect(features["A3"]).toEqual(["front_seat", "aisle_seat"]);
+      expect(features["A4"]).toEqual(["front_seat", "aisle_seat"]);
+      expect(features["B5"]).toEqual(["middle_seat"]);
+      expect(features["B6"]).toEqual(["aisle_seat"]);
+    });
+
+    it("should stop filling at capacity", () => {
+      const seats = SeatGenerationService.buildSeats(
+        SeatGenerationService.defaultLayout(3, 4),
+        6
+      );
+
+      expect(seats.map((s) => s.label)).toEqual([
+        "A1",
+        "A2",
+        "A3",
+        "A4",
+        "B1",
+        "B2",
+      ]);
+    });
+  });
+
+  describe("buildSeats with a custom layout", () => {
+    const layout: RoomLayout = {
+      rows: [{ seats: 4, offset: 1 }, { seats: 6 }],
+      aislesAfter: [2],
+      blocked: [{ row: 1, col: 1 }],
+      stage: "front",
+    };
+
+    it("should place indented rows and skip blocked cells", () => {
+      const seats = SeatGenerationService.buildSeats(layout, 100);
+
+      expect(
+        seats.filter((s) => s.row === 0).map((s) => s.col)
+      ).toEqual([1, 2, 3, 4]);
+      expect(
+        seats.filter((s) => s.row === 1).map((s) => s.col)
+      ).toEqual([0, 2, 3, 4, 5, 6]);
+      // Seat numbers count seats, not grid cells
+      expect(seats.find((s) => s.row === 1 && s.col === 2)?.label).toBe("B2");
+    });
+
+    it("should derive aisle and middle seats per bank", () => {
+      const features = byLabel(SeatGenerationService.buildSeats(layout, 100));
+
+      // Row A: bank [1,2] | bank [3,4]
+      expect(features["A2"]).toEqual(["front_seat", "aisle_seat"]);
+      expect(features["A3"]).toEqual(["front_seat", "aisle_seat"]);
+      // Row B: bank [0,2] | bank [3,4,5,6]
+      expect(features["B1"]).toEqual(["aisle_seat"]);
+      expect(features["B2"]).toEqual(["aisle_seat"]);
+      expect(features["B4"]).toEqual(["middle_seat"]);
+      expect(features["B6"]).toEqual(["aisle_seat"]);
+    });
+
+    it("should mark the seats nearest a side stage as front seats", () => {
+      const seats = SeatGenerationService.buildSeats(
+        { ...layout, stage: "right" },
+        100
+      );
+
+      expect(
+        seats.filter((s) => s.features.includes("front_seat")).map((s) => s.label)
+      ).toEqual(["B6"]);
+    });
+
+    it("should report the grid size and seat count", () => {
+      expect(SeatGenerationService.layoutDimensions(layout)).toEqual({
+        rows: 2,
+        cols: 7,
+        seatCount: 10,
+      });
+    });
+  });
+
+  describe("validateLayout", () => {
+    it("should accept a well-formed layout", () => {
+      expect(
+        SeatGenerationService.validateLayout(
+          SeatGenerationService.defaultLayout(5, 8)
+        )
+      ).toBeNull();
+    });
+
+    it("should reject unknown stage orientations and empty layouts", () => {
+      expect(
+        SeatGenerationService.validateLayout({
+          ...SeatGenerationService.defaultLayout(2, 2),
+          stage: "ceiling",
+        })
+      ).toMatch(/Stage must be one of/);
+      expect(
+        SeatGenerationService.validateLayout({
+          rows: [{ seats: 0 }],
+          aislesAfter: [],
+          blocked: [],
+          stage: "front",
+        })
+      ).toBe("Layout must contain at least one seat");
+    });
+  });
+});
@@ -0,0 +1,172 @@
+// Mock PrismaClient
+const mockReallocateStudent = jest.fn();
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({})),
+  SeatStatus: {
+    Available: "Available",
+    Allocated: "Allocated",
+    Broken: "Broken",
+  },
+}));
+
+jest.mock("../services/allocationService", () => ({
+  AllocationService: {
+    reallocateStudent: mockReallocateStudent,
+  },
+}));
+
+import { SeatRegenerationService } from "../services/seatRegenerationService";
+import { SeatGenerationService } from "../services/seatGenerationService";
+
+const seat = (
+  id: string,
+  row: number,
+  col: number,
+  overrides: Record<string, unknown> = {}
+) =>
+  ({
+    id,
+    roomId: "room1",
+    label: `${String.fromCharCode(65 + row)}${col + 1}`,
+    row,
+    col,
+    features: [],
+    status: "Available",
+    version: 1,
+    studentId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as any);
+
+describe("SeatRegenerationService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("planChanges", () => {
+    it("should keep surviving seats with their student, status and custom features", () => {
+      const existing = [
+        seat("s1", 0, 0, {
+          status: "Allocated",
+          studentId: "stu1",
+          features: ["front_seat", "aisle_seat", "wheelchair_access"],
+        }),
+        seat("s2", 0, 1, { status: "Broken", features: ["front_seat", "aisle_seat"] }),
+      ];
+      // Growing the room from 1x2 to 1x3 turns s2 into a middle seat
+      const targets = SeatGenerationService.buildSeats(
+        SeatGenerationService.defaultLayout(1, 3),
+        3
+      );
+
+      const plan = SeatRegenerationService.planChanges(existing, targets, true);
+
+      expect(plan.report.kept).toBe(2);
+      expect(plan.report.added).toEqual([{ label: "A3", row: 0, col: 2 }]);
+      expect(plan.report.removed).toEqual([]);
+      expect(plan.toUpdate).toEqual([
+        { id: "s2", label: "A2", features: ["front_seat", "middle_seat"] },
+      ]);
+    });
+
+    it("should report students on removed seats as displaced", () => {
+      const existing = [
+        seat("s1", 0, 0),
+        seat("s2", 0, 1),
+        seat("s3", 1, 0, { status: "Allocated", studentId: "stu3" }),
+      ];
+      const targets = SeatGenerationService.buildSeats(
+        SeatGenerationService.defaultLayout(1, 2),
+        2
+      );
+
+      const plan = SeatRegenerationService.planChanges(existing, targets, true);
+
+      expect(plan.toDelete.map((s) => s.id)).toEqual(["s3"]);
+      expect(plan.report.displacedStudentIds).toEqual(["stu3"]);
+    });
+  });
+
+  describe("applyChanges", () => {
+    it("should update, create and delete seats and recount the room", async () => {
+      const tx = {
+        seat: {
+          findMany: jest.fn().mockResolvedValue([
+            seat("s1", 0, 0, { status: "Allocated", studentId: "stu1" }),
+            seat("s2", 1, 0, { status: "Allocated", studentId: "stu2" }),
+          ]),
+          deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+          update: jest.fn().mockResolvedValue({}),
+          createMany: jest.fn().mockResolvedValue({ count: 1 }),
+          count: jest.fn().mockResolvedValue(1),
+        },
+        room: { update: jest.fn().mockResolvedValue({}) },
+      };
+      const targets = SeatGenerationService.buildSeats(
+        SeatGenerationService.defaultLayout(1, 2),
+        2
+      );
+
+      const report = await SeatRegenerationService.applyChanges(
+        tx as any,
+        "room1",
+        targets
+      );
+
+      expect(tx.seat.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["s2"] } },
+      });
+      expect(tx.seat.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ roomId: "room1", label: "A2", row: 0, col: 1 }),
+        ],
+      });
+      expect(tx.room.update).toHaveBeenCalledWith({
+        where: { id: "room1" },
+        data: { claimed: 1 },
+      });
+      expect(report.displacedStudentIds).toEqual(["stu2"]);
+    });
+  });
+
+  describe("reallocateDisplaced", () => {
+    it("should record the outcome for each displaced student", async () => {
+      mockReallocateStudent
+        .mockResolvedValueOnce({
+          success: true,
+          student: { id: "stu1" },
+          newSeat: { id: "seat9", roomId: "room2" },
+          message: "Reallocated",
+        })
+        .mockResolvedValueOnce({
+          success: false,
+          student: { id: "stu2" },
+          message: "No suitable seats available",
+        });
+
+      const report = await SeatRegenerationService.reallocateDisplaced(
+        {
+          kept: 0,
+          updated: 0,
+          added: [],
+          removed: [
+            { seatId: "s1", label: "A1", row: 0, col: 0, status: "Allocated" as any, studentId: "stu1" },
+            { seatId: "s2", label: "A2", row: 0, col: 1, status: "Allocated" as any, studentId: "stu2" },
+            { seatId: "s3", label: "A3", row: 0, col: 2, status: "Available" as any, studentId: null },
+          ],
+          displacedStudentIds: ["stu1", "stu2"],
+        },
+        "building1",
+        "room1"
+      );
+
+      expect(mockReallocateStudent).toHaveBeenCalledWith("stu1", "building1", "room1");
+      expect(report.reallocations).toEqual([
+        expect.objectContaining({ studentId: "stu1", success: true, newRoomId: "room2" }),
+        expect.objectContaining({ studentId: "stu2", success: false, newSeatId: null }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import bcrypt from "bcrypt";
+
+// Mock PrismaClient
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  UserRole: {
+    SuperAdmin: "SuperAdmin",
+    Admin: "Admin",
+    Teacher: "Teacher",
+    Student: "Student",
+  },
+}));
+
+import {
+  StudentAccountService,
+  StudentAccountConflictError,
+} from "../services/studentAccountService";
+
+const student = { id: "stu1", email: "jane@example.com" };
+
+const createTx = (existingUser: unknown) => ({
+  user: {
+    findFirst: jest.fn().mockResolvedValue(existingUser),
+    create: jest.fn().mockResolvedValue({ id: "user-new" }),
+    update: jest.fn().mockResolvedValue({ id: "user-old" }),
+  },
+  student: { update: jest.fn().mockResolvedValue({}) },
+});
+
+describe("StudentAccountService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("prepareCredentials", () => {
+    it("should generate a password and store only its hash", async () => {
+      const prepared = await StudentAccountService.prepareCredentials("password");
+
+      expect(prepared.secret).toMatch(/^[A-Za-z2-9]{12}$/);
+      expect(prepared.setupTokenHash).toBeNull();
+      expect(await bcrypt.compare(prepared.secret, prepared.passwordHash)).toBe(true);
+    });
+
+    it("should generate a setup token that expires", async () => {
+      const prepared = await StudentAccountService.prepareCredentials("setupToken");
+
+      expect(prepared.setupTokenHash).toBe(
+        StudentAccountService.hashSetupToken(prepared.secret)
+      );
+      expect(prepared.setupTokenExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+      // The token is not a password
+      expect(await bcrypt.compare(prepared.secret, prepared.passwordHash)).toBe(false);
+    });
+  });
+
+  describe("applyCredentials", () => {
+    it("should create a Student user and link it to the student", async () => {
+      const tx = createTx(null);
+      const prepared = await StudentAccountService.prepareCredentials("setupToken");
+
+      const credentials = await StudentAccountService.applyCredentials(
+        tx as any,
+        student,
+        prepared
+      );
+
+      expect(tx.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: "jane@example.com",
+          role: "Student",
+          studentId: "stu1",
+          setupTokenHash: prepared.setupTokenHash,
+        }),
+      });
+      expect(tx.student.update).toHaveBeenCalledWith({
+        where: { id: "stu1" },
+        data: { userId: "user-new" },
+      });
+      expect(credentials).toEqual({
+        studentId: "stu1",
+        email: "jane@example.com",
+        mode: "setupToken",
+        setupToken: prepared.secret,
+        setupTokenExpiresAt: prepared.setupTokenExpiresAt,
+      });
+    });
+
+    it("should replace the credentials of the student's existing login", async () => {
+      const tx = createTx({ id: "user-old", role: "Student", studentId: "stu1" });
+      const prepared = await StudentAccountService.prepareCredentials("password");
+
+      const credentials = await StudentAccountService.applyCredentials(
+        tx as any,
+        student,
+        prepared
+      );
+
+      expect(tx.user.create).not.toHaveBeenCalled();
+      expect(tx.user.update).toHaveBeenCalledWith({
+        where: { id: "user-old" },
+        data: expect.objectContaining({
+          password: prepared.passwordHash,
+          setupTokenHash: null,
+          studentId: "stu1",
+        }),
+      });
+      expect(credentials.password).toBe(prepared.secret);
+    });
+
+    it("should refuse an email that belongs to another kind of account", async () => {
+      const tx = createTx({ id: "user-t", role: "Teacher", studentId: null });
+      const prepared = await StudentAccountService.prepareCredentials("password");
+
+      await expect(
+        StudentAccountService.applyCredentials(tx as any, student, prepared)
+      ).rejects.toThrow(StudentAccountConflictError);
+      expect(tx.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("redeemSetupToken", () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: "user1",
+        email: "jane@example.com",
+      });
+    });
+
+    it("should set the password and clear the token", async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const email = await StudentAccountService.redeemSetupToken("token", "secret1");
+
+      const setupTokenHash = StudentAccountService.hashSetupToken("token");
+      const { where, data } = mockPrisma.user.updateMany.mock.calls[0][0];
+      expect(where).toEqual({
+        setupTokenHash,
+        setupTokenExpiresAt: { gt: expect.any(Date) },
+      });
+      expect(data.setupTokenHash).toBeNull();
+      expect(await bcrypt.compare("secret1", data.password)).toBe(true);
+      expect(email).toBe("jane@example.com");
+    });
+
+    it("should reject expired or already redeemed tokens", async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(
+        await StudentAccountService.redeemSetupToken("token", "secret1")
+      ).toBeNull();
+    });
+
+    it("should reject unknown tokens", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      expect(
+        await StudentAccountService.redeemSetupToken("token", "secret1")
+      ).toBeNull();
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { deflateRawSync } from "zlib";
+
+// Mock PrismaClient
+const mockPrisma = {
+  student: {
+    findMany: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => mockPrisma),
+  Branch: {
+    ConsultingClub: "ConsultingClub",
+    RealEstateClub: "RealEstateClub",
+  },
+  UserRole: {
+    Teacher: "Teacher",
+    Student: "Student",
+  },
+  SeatStatus: {
+    Available: "Available",
+    Allocated: "Allocated",
+    Broken: "Broken",
+  },
+}));
+
+import {
+  StudentImportService,
+  StudentImportFileError,
+} from "../services/studentImportService";
+
+// Builds a minimal zip archive with deflated entries, like the ones spreadsheet apps write
+const buildZip = (files: Record<string, string>): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(text));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+};
+
+describe("StudentImportService", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+  });
+
+  describe("parseCsv", () => {
+    it("should handle quoted cells, escaped quotes and CRLF line endings", () => {
+      const rows = StudentImportService.parseCsv(
+        'name,tags\r\n"Doe, Jane","honors, ""A"" list"\r\nBob,\r\n'
+      );
+
+      expect(rows).toEqual([
+        ["name", "tags"],
+        ["Doe, Jane", 'honors, "A" list'],
+        ["Bob", ""],
+      ]);
+    });
+
+    it("should reject an unterminated quote", () => {
+      expect(() => StudentImportService.parseCsv('name\n"Jane')).toThrow(
+        StudentImportFileError
+      );
+    });
+  });
+
+  describe("parseXlsx", () => {
+    it("should read shared strings, inline strings and skipped cells from the first sheet", () => {
+      const workbook = buildZip({
+        "xl/sharedStrings.xml":
+          "<sst><si><t>name</t></si><si><t>email</t></si><si><r><t>Jane </t></r><r><t>Doe</t></r></si></sst>",
+        "xl/worksheets/sheet1.xml":
+          '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+          '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2" t="inlineStr"><is><t>R&amp;D</t></is></c></row></sheetData></worksheet>',
+      });
+
+      expect(StudentImportService.parseXlsx(workbook)).toEqual([
+        ["name", "email"],
+        ["Jane Doe", "", "R&D"],
+      ]);
+    });
+
+    it("should report files that are not workbooks", () => {
+      expect(() =>
+        StudentImportService.parseFile("xlsx", Buffer.from("not a zip").toString("base64"))
+      ).toThrow(StudentImportFileError);
+    });
+  });
+
+  describe("validateRows", () => {
+    it("should require the name, email and branch columns", () => {
+      expect(() =>
+        StudentImportService.validateRows([["name", "email"]])
+      ).toThrow("Missing required column(s): branch");
+    });
+
+    it("should report per-row errors for branches, needs and duplicate emails", () => {
+      const results = StudentImportService.validateRows([
+        ["Name", "Email", "Branch", "Tags", "Accessibility Needs"],
+        ["Jane", "Jane@Example.com", "consultingclub", "honors; athlete", "front_seat"],
+        ["Bob", "bob@example.com", "ChessClub", "", "teleport"],
+        ["Janet", "jane@example.com", "RealEstateClub", "", ""],
+      ]);
+
+      expect(results[0].row).toEqual({
+        name: "Jane",
+        email: "jane@example.com",
+        branch: "ConsultingClub",
+        tags: ["honors", "athlete"],
+        accessibilityNeeds: ["front_seat"],
+      });
+      expect(results[1].row).toBeNull();
+      expect(results[1].result.errors).toEqual([
+        expect.stringContaining('Unknown branch "ChessClub"'),
+        "Unknown accessibility need(s): teleport",
+      ]);
+      expect(results[2].result).toMatchObject({
+        line: 4,
+        action: "skip",
+        errors: ["Email is duplicated on line 2"],
+      });
+    });
+  });
+
+  describe("importStudents", () => {
+    const csv =
+      "name,email,branch,tags,accessibilityNeeds\n" +
+      "Jane,jane@example.com,ConsultingClub,,\n" +
+      "Bob,bob@example.com,RealEstateClub,,aisle_seat\n" +
+      "Eve,not-an-email,RealEstateClub,,\n";
+
+    it("should report creates and updates without writing on a dry run", async () => {
+      mockPrisma.student.findMany.mockResolvedValue([
+        { email: "bob@example.com", name: "Robert" },
+      ]);
+
+      const report = await StudentImportService.importStudents("csv", csv, true);
+
+      expect(report).toMatchObject({
+        dryRun: true,
+        total: 3,
+        valid: 2,
+        invalid: 1,
+        created: 1,
+        updated: 1,
+      });
+      expect(report.rows[1].warnings).toEqual([
+        expect.stringContaining("will not be changed"),
+      ]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should upsert valid rows by email in one transaction", async () => {
+      mockPrisma.student.findMany.mockResolvedValue([]);
+      mockPrisma.student.upsert.mockResolvedValue({});
+
+      await StudentImportService.importStudents("csv", csv, false);
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.student.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.student.upsert).toHaveBeenCalledWith({
+        where: { email: "bob@example.com" },
+        create: {
+          name: "Bob",
+          email: "bob@example.com",
+          branch: "RealEstateClub",
+          tags: [],
+          accessibilityNeeds: ["aisle_seat"],
+        },
+        update: {
+          branch: "RealEstateClub",
+          tags: [],
+          accessibilityNeeds: ["aisle_seat"],
+        },
+      });
+    });
+
+    it("should update a student whose stored email has capitals", async () => {
+      mockPrisma.student.findMany.mockResolvedValue([
+        { id: "stu-bob", email: "Bob@Example.com", name: "Bob" },
+      ]);
+      mockPrisma.student.upsert.mockResolvedValue({});
+
+      const report = await StudentImportService.importStudents("csv", csv, false);
+
+      expect(mockPrisma.student.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            email: {
+              in: ["jane@example.com", "bob@example.com"],
+              mode: "insensitive",
+            },
+          },
+        })
+      );
+      expect(report.rows[1].action).toBe("update");
+      expect(mockPrisma.student.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "stu-bob" } })
+      );
+    });
+
+    it("should provision logins for new students and skip emails owned by other accounts", async () => {
+      mockPrisma.student.findMany.mockResolvedValue([]);
+      mockPrisma.user.findMany.mockResolvedValue([
+        { email: "bob@example.com", role: "Teacher", studentId: null },
+      ]);
+      mockPrisma.student.upsert.mockResolvedValue({
+        id: "stu1",
+        email: "jane@example.com",
+      });
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue({ id: "user1" });
+
+      const report = await StudentImportService.importStudents(
+        "csv",
+        csv,
+        false,
+        "password"
+      );
+
+      expect(report.rows[0].provisionAccount).toBe(true);
+      expect(report.rows[1]).toMatchObject({
+        action: "skip",
+        errors: ["Email is already used by another account"],
+      });
+      expect(mockPrisma.student.upsert).toHaveBeenCalledTimes(1);
+      expect(report.credentials).toEqual([
+        expect.objectContaining({
+          studentId: "stu1",
+          mode: "password",
+          password: expect.any(String),
+        }),
+      ]);
+    });
+  });
+});
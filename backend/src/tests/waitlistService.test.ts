@@ -0,0 +1,176 @@
+// Mock PrismaClient
+const mockWaitlistFindMany = jest.fn();
+const mockRoomBookingFindFirst = jest.fn();
+const mockRoomBlackoutFindFirst = jest.fn();
+const mockRoomFindUnique = jest.fn();
+const mockTransaction = jest.fn();
+
+jest.mock("../../generated/prisma/client", () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    waitlistEntry: {
+      findMany: mockWaitlistFindMany,
+    },
+    roomBooking: {
+      findFirst: mockRoomBookingFindFirst,
+    },
+    roomBlackout: {
+      findFirst: mockRoomBlackoutFindFirst,
+    },
+    room: {
+      findUnique: mockRoomFindUnique,
+    },
+    $transaction: mockTransaction,
+  })),
+}));
+
+import { WaitlistService } from "../services/waitlistService";
+import { roomLockService } from "../services/roomLockService";
+import { BookingPolicyService } from "../services/bookingPolicyService";
+
+describe("WaitlistService", () => {
+  const startTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
+  const slot = { roomId: "room1", startTime, endTime };
+
+  const entry = (id: string, teacherId: string) => ({
+    id,
+    roomId: "room1",
+    teacherId,
+    branch: "ConsultingClub",
+    capacity: 20,
+    startTime,
+    endTime,
+    status: "Waiting",
+  });
+
+  let txBookingCreate: jest.Mock;
+  let txWaitlistUpdate: jest.Mock;
+  let policyCheck: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    policyCheck = jest
+      .spyOn(BookingPolicyService, "check")
+      .mockResolvedValue(null);
+    mockRoomBlackoutFindFirst.mockResolvedValue(null);
+    mockRoomFindUnique.mockResolvedValue(null);
+    txBookingCreate = jest.fn().mockImplementation(async ({ data }) => ({
+      id: `booking-${data.teacherId}`,
+      ...data,
+    }));
+    txWaitlistUpdate = jest.fn().mockResolvedValue({});
+    mockTransaction.mockImplementation(async (callback) =>
+      callback({
+        roomBooking: { create: txBookingCreate },
+        waitlistEntry: { update: txWaitlistUpdate },
+      })
+    );
+  });
+
+  it("should book the slot for the first waitlisted teacher", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1"), entry("w2", "t2")]);
+    // First entry is free; the second now clashes with the new booking
+    mockRoomBookingFindFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "booking-t1" });
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted).toHaveLength(1);
+    expect(promoted[0].entry.id).toBe("w1");
+    expect(txBookingCreate).toHaveBeenCalledTimes(1);
+    expect(txWaitlistUpdate).toHaveBeenCalledWith({
+      where: { id: "w1" },
+      data: { status: "Booked", bookingId: "booking-t1" },
+    });
+  });
+
+  it("should skip a teacher who is busy elsewhere and try the next one", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1"), entry("w2", "t2")]);
+    mockRoomBookingFindFirst
+      .mockResolvedValueOnce({ id: "other", teacherId: "t1" })
+      .mockResolvedValueOnce(null);
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted.map((p) => p.entry.id)).toEqual(["w2"]);
+    expect(txWaitlistUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep an entry waiting when the overlap constraint rejects it", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1"), entry("w2", "t2")]);
+    mockRoomBookingFindFirst.mockResolvedValue(null);
+    txBookingCreate.mockRejectedValueOnce(
+      new Error(
+        'conflicting key value violates exclusion constraint "RoomBooking_teacher_no_overlap"'
+      )
+    );
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted.map((p) => p.entry.id)).toEqual(["w2"]);
+  });
+
+  it("should book the slot pending approval when the room requires it", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1")]);
+    mockRoomBookingFindFirst.mockResolvedValue(null);
+    mockRoomFindUnique.mockResolvedValue({
+      requiresApproval: true,
+      bufferBeforeMinutes: null,
+      bufferAfterMinutes: null,
+      building: null,
+    });
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted).toHaveLength(1);
+    expect(txBookingCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "PendingApproval" }),
+      })
+    );
+  });
+
+  it("should keep an entry waiting when booking it would break a policy", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1"), entry("w2", "t2")]);
+    mockRoomBookingFindFirst.mockResolvedValue(null);
+    policyCheck.mockResolvedValueOnce({
+      status: 409,
+      code: "BOOKING_QUOTA_EXCEEDED",
+      message: "You can hold at most 2 active bookings; you have 2.",
+    });
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted.map((p) => p.entry.id)).toEqual(["w2"]);
+    expect(policyCheck).toHaveBeenCalledWith("room1", "t1", [
+      expect.objectContaining({ id: "w1", startTime, endTime }),
+    ]);
+    expect(txBookingCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not book a slot that falls inside a room blackout", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1")]);
+    mockRoomBookingFindFirst.mockResolvedValue(null);
+    mockRoomBlackoutFindFirst.mockResolvedValue({ id: "blk1", reason: "Repairs" });
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted).toEqual([]);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should leave entries waiting while the room is being booked by someone else", async () => {
+    mockWaitlistFindMany.mockResolvedValue([entry("w1", "t1")]);
+    const lock = await roomLockService.acquireLock("room1", "someone", {
+      startTime,
+      endTime,
+    });
+
+    const promoted = await WaitlistService.promoteWaiting(slot);
+
+    expect(promoted).toEqual([]);
+    expect(mockRoomBookingFindFirst).not.toHaveBeenCalled();
+    await roomLockService.releaseLock(lock);
+  });
+});
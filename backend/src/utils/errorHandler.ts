@@ -23,8 +23,25 @@ export enum ErrorCode {
   BOOKING_NOT_FOUND = "BOOKING_NOT_FOUND",
   CANNOT_CANCEL_ONGOING = "CANNOT_CANCEL_ONGOING",
   CANNOT_CANCEL_COMPLETED = "CANNOT_CANCEL_COMPLETED",
+  CANNOT_MODIFY_STARTED = "CANNOT_MODIFY_STARTED",
   BOOKING_CONFLICT = "BOOKING_CONFLICT",
   TEACHER_TIME_CONFLICT = "TEACHER_TIME_CONFLICT",
+  INVALID_RECURRENCE = "INVALID_RECURRENCE",
+  SERIES_CONFLICT = "SERIES_CONFLICT",
+  SERIES_NOT_FOUND = "SERIES_NOT_FOUND",
+  ALREADY_WAITLISTED = "ALREADY_WAITLISTED",
+  WAITLIST_ENTRY_NOT_FOUND = "WAITLIST_ENTRY_NOT_FOUND",
+  ROOM_BLACKED_OUT = "ROOM_BLACKED_OUT",
+  ROOM_LOCK_LOST = "ROOM_LOCK_LOST",
+  BOOKING_NOT_PENDING_APPROVAL = "BOOKING_NOT_PENDING_APPROVAL",
+
+  // Booking Policy Errors
+  BOOKING_TOO_LONG = "BOOKING_TOO_LONG",
+  BOOKING_TOO_SOON = "BOOKING_TOO_SOON",
+  BOOKING_TOO_FAR_AHEAD = "BOOKING_TOO_FAR_AHEAD",
+  BOOKING_OUTSIDE_HOURS = "BOOKING_OUTSIDE_HOURS",
+  BOOKING_QUOTA_EXCEEDED = "BOOKING_QUOTA_EXCEEDED",
+  BOOKING_POLICY_NOT_FOUND = "BOOKING_POLICY_NOT_FOUND",
 
   // Teacher Management Errors
   TEACHER_EXISTS = "TEACHER_EXISTS",
@@ -39,6 +56,12 @@ export enum ErrorCode {
   BUILDING_NOT_FOUND = "BUILDING_NOT_FOUND",
   FLOOR_NOT_FOUND = "FLOOR_NOT_FOUND",
   ROOM_NOT_FOUND = "ROOM_NOT_FOUND",
+  LOCATION_EDGE_EXISTS = "LOCATION_EDGE_EXISTS",
+  LOCATION_EDGE_NOT_FOUND = "LOCATION_EDGE_NOT_FOUND",
+
+  // Amenity Errors
+  AMENITY_EXISTS = "AMENITY_EXISTS",
+  AMENITY_NOT_FOUND = "AMENITY_NOT_FOUND",
 
   // Auth Errors
   SIGNUP_DISABLED = "SIGNUP_DISABLED",
@@ -57,6 +80,7 @@ export enum ErrorCode {
   NAME_UPDATE_FORBIDDEN = "NAME_UPDATE_FORBIDDEN",
   STUDENT_NOT_FOUND = "STUDENT_NOT_FOUND",
   EMAIL_IN_USE = "EMAIL_IN_USE",
+  INVALID_IMPORT_FILE = "INVALID_IMPORT_FILE",
 
   // Validation Errors
   VALIDATION_ERROR = "VALIDATION_ERROR",
@@ -80,10 +104,36 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.BOOKING_NOT_FOUND]: "Booking not found",
   [ErrorCode.CANNOT_CANCEL_ONGOING]: "Cannot cancel an ongoing booking",
   [ErrorCode.CANNOT_CANCEL_COMPLETED]: "Cannot cancel a completed booking",
+  [ErrorCode.CANNOT_MODIFY_STARTED]:
+    "Only bookings that have not started yet can be changed",
   [ErrorCode.BOOKING_CONFLICT]:
     "Another teacher is currently booking this room",
   [ErrorCode.TEACHER_TIME_CONFLICT]:
     "Teacher already has a booking during this time slot",
+  [ErrorCode.INVALID_RECURRENCE]: "Recurrence pattern produces no occurrences",
+  [ErrorCode.SERIES_CONFLICT]:
+    "Some occurrences of the series conflict with existing bookings",
+  [ErrorCode.SERIES_NOT_FOUND]: "Booking series not found",
+  [ErrorCode.ALREADY_WAITLISTED]:
+    "You are already on the waitlist for this room and time slot",
+  [ErrorCode.WAITLIST_ENTRY_NOT_FOUND]: "Waitlist entry not found",
+  [ErrorCode.ROOM_BLACKED_OUT]:
+    "Room is closed during this time for maintenance or another reason",
+  [ErrorCode.ROOM_LOCK_LOST]:
+    "Your hold on this room expired before the booking was saved. Please try again.",
+  [ErrorCode.BOOKING_NOT_PENDING_APPROVAL]:
+    "This booking is no longer waiting for approval",
+
+  // Booking Policy Errors
+  [ErrorCode.BOOKING_TOO_LONG]: "Booking is longer than this room allows",
+  [ErrorCode.BOOKING_TOO_SOON]:
+    "This room must be booked further in advance",
+  [ErrorCode.BOOKING_TOO_FAR_AHEAD]: "Booking is too far in the future",
+  [ErrorCode.BOOKING_OUTSIDE_HOURS]:
+    "Booking falls outside the hours this room can be booked",
+  [ErrorCode.BOOKING_QUOTA_EXCEEDED]:
+    "You have reached the maximum number of active bookings",
+  [ErrorCode.BOOKING_POLICY_NOT_FOUND]: "Booking policy not found",
 
   // Teacher Management Errors
   [ErrorCode.TEACHER_EXISTS]: "Teacher with this email already exists",
@@ -100,6 +150,13 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.BUILDING_NOT_FOUND]: "Building not found",
   [ErrorCode.FLOOR_NOT_FOUND]: "Floor not found",
   [ErrorCode.ROOM_NOT_FOUND]: "Room not found",
+  [ErrorCode.LOCATION_EDGE_EXISTS]:
+    "These two locations are already connected",
+  [ErrorCode.LOCATION_EDGE_NOT_FOUND]: "Walking route not found",
+
+  // Amenity Errors
+  [ErrorCode.AMENITY_EXISTS]: "An amenity with this name already exists",
+  [ErrorCode.AMENITY_NOT_FOUND]: "Amenity not found",
 
   // Auth Errors
   [ErrorCode.SIGNUP_DISABLED]:
@@ -119,6 +176,7 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.NAME_UPDATE_FORBIDDEN]: "Student name cannot be modified",
   [ErrorCode.STUDENT_NOT_FOUND]: "Student not found",
   [ErrorCode.EMAIL_IN_USE]: "Email is already in use",
+  [ErrorCode.INVALID_IMPORT_FILE]: "Import file could not be read",
 
   // Validation Errors
   [ErrorCode.VALIDATION_ERROR]: "Validation failed",
@@ -197,10 +255,37 @@ export function handlePrismaError(error: any, res: Response): Response {
   return sendError(res, 500, ErrorCode.INTERNAL_SERVER_ERROR);
 }
 
+// Exclusion constraints on RoomBooking and the codes they stand for
+const BOOKING_OVERLAP_CONSTRAINTS: Record<string, ErrorCode> = {
+  RoomBooking_room_no_overlap: ErrorCode.ROOM_NOT_AVAILABLE,
+  RoomBooking_teacher_no_overlap: ErrorCode.TEACHER_TIME_CONFLICT,
+};
+
+/**
+ * Error code for a write rejected by a booking overlap constraint, or null.
+ * Prisma has no known-request code for exclusion violations (Postgres
+ * 23P01), so the constraint is recognised by name in the message.
+ */
+export function bookingOverlapViolation(error: any): ErrorCode | null {
+  const message = String(error?.message ?? "");
+  for (const [constraint, code] of Object.entries(BOOKING_OVERLAP_CONSTRAINTS)) {
+    if (message.includes(constraint)) {
+      return code;
+    }
+  }
+  return null;
+}
+
 /**
  * Catch-all error handler for unexpected errors
  */
 export function handleUnexpectedError(error: any, res: Response): Response {
+  // A booking that lost a race past the application checks
+  const overlap = bookingOverlapViolation(error);
+  if (overlap) {
+    return sendError(res, 409, overlap);
+  }
+
   console.error("Unexpected error:", error);
   return sendError(res, 500, ErrorCode.INTERNAL_SERVER_ERROR);
 }
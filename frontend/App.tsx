@@ -7,6 +7,7 @@ import Layout from "./components/Layout";
 import PrivateRoute from "./components/PrivateRoute";
 import RoleBasedRedirect from "./components/RoleBasedRedirect";
 import SignInPage from "./pages/SignInPage";
+import AccountSetupPage from "./pages/AccountSetupPage";
 import BuildingsPage from "./pages/BuildingsPage";
 import RoomsPage from "./pages/RoomsPage";
 import SeatMapPage from "./pages/SeatMapPage";
@@ -19,7 +20,14 @@ import AdminManagementPage from "./pages/AdminManagementPage";
 import PasswordResetPage from "./pages/PasswordResetPage";
 import BlocksPage from "./pages/BlocksPage";
 import FloorsPage from "./pages/FloorsPage";
+import WalkingRoutesPage from "./pages/WalkingRoutesPage";
+import AmenitiesPage from "./pages/AmenitiesPage";
+import BookingPoliciesPage from "./pages/BookingPoliciesPage";
 import LocationHierarchyPage from "./pages/LocationHierarchyPage";
+import PlanningPage from "./pages/PlanningPage";
+import AuditLogPage from "./pages/AuditLogPage";
+import BookingManagementPage from "./pages/BookingManagementPage";
+import ApprovalsPage from "./pages/ApprovalsPage";
 
 const App: React.FC = () => {
   return (
@@ -29,6 +37,7 @@ const App: React.FC = () => {
           <BrowserRouter>
             <Routes>
               <Route path="/signin" element={<SignInPage />} />
+              <Route path="/setup-account" element={<AccountSetupPage />} />
               <Route
                 path="/login"
                 element={<Navigate to="/signin" replace />}
@@ -77,6 +86,30 @@ const App: React.FC = () => {
                             </PrivateRoute>
                           }
                         />
+                        <Route
+                          path="/walking-routes"
+                          element={
+                            <PrivateRoute requireAdmin={true}>
+                              <WalkingRoutesPage />
+                            </PrivateRoute>
+                          }
+                        />
+                        <Route
+                          path="/amenities"
+                          element={
+                            <PrivateRoute requireAdmin={true}>
+                              <AmenitiesPage />
+                            </PrivateRoute>
+                          }
+                        />
+                        <Route
+                          path="/booking-policies"
+                          element={
+                            <PrivateRoute requireAdmin={true}>
+                              <BookingPoliciesPage />
+                            </PrivateRoute>
+                          }
+                        />
                         <Route
                           path="/students"
                           element={
@@ -85,6 +118,14 @@ const App: React.FC = () => {
                             </PrivateRoute>
                           }
                         />
+                        <Route
+                          path="/planning"
+                          element={
+                            <PrivateRoute requireAdmin={true}>
+                              <PlanningPage />
+                            </PrivateRoute>
+                          }
+                        />
                         <Route
                           path="/faculty"
                           element={
@@ -93,6 +134,22 @@ const App: React.FC = () => {
                             </PrivateRoute>
                           }
                         />
+                        <Route
+                          path="/bookings"
+                          element={
+                            <PrivateRoute requireAdmin={true}>
+                              <BookingManagementPage />
+                            </PrivateRoute>
+                          }
+                        />
+                        <Route
+                          path="/approvals"
+                          element={
+                            <PrivateRoute requireAdmin={true}>
+                              <ApprovalsPage />
+                            </PrivateRoute>
+                          }
+                        />
                         <Route
                           path="/admins"
                           element={
@@ -101,6 +158,14 @@ const App: React.FC = () => {
                             </PrivateRoute>
                           }
                         />
+                        <Route
+                          path="/audit-log"
+                          element={
+                            <PrivateRoute requireSuperAdmin={true}>
+                              <AuditLogPage />
+                            </PrivateRoute>
+                          }
+                        />
                         <Route
                           path="/reset-password"
                           element={
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Chip,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/react";
+import { api } from "../services/apiService";
+import { HierarchyChange, HierarchyImportReport } from "../types";
+import { toast, getErrorMessage } from "../utils/toast";
+
+interface HierarchyImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const LEVELS: { key: "blocks" | "buildings" | "floors" | "rooms"; label: string }[] = [
+  { key: "blocks", label: "Blocks" },
+  { key: "buildings", label: "Buildings" },
+  { key: "floors", label: "Floors" },
+  { key: "rooms", label: "Rooms" },
+];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "—"
+    : typeof value === "object"
+    ? "custom layout"
+    : String(value);
+
+const ChangeRow: React.FC<{ change: HierarchyChange }> = ({ change }) => (
+  <div className="py-1.5 border-b border-default-100 last:border-0">
+    <div className="flex items-center gap-2">
+      <Chip
+        size="sm"
+        variant="flat"
+        color={change.action === "create" ? "success" : "primary"}
+      >
+        {change.action}
+      </Chip>
+      <span className="text-sm font-medium">{change.key}</span>
+    </div>
+    {change.changes && (
+      <div className="text-xs text-default-500 mt-1 ml-1">
+        {Object.entries(change.changes).map(([field, { from, to }]) => (
+          <div key={field}>
+            {field}: {formatValue(from)} → {formatValue(to)}
+          </div>
+        ))}
+      </div>
+    )}
+    {change.seatChanges && (
+      <div
+        className={`text-xs mt-1 ml-1 ${
+          change.seatChanges.displacedStudentIds.length > 0
+            ? "text-warning-600"
+            : "text-default-500"
+        }`}
+      >
+        Seats: {change.seatChanges.added.length} added,{" "}
+        {change.seatChanges.removed.length} removed
+        {change.seatChanges.displacedStudentIds.length > 0 &&
+          `, ${change.seatChanges.displacedStudentIds.length} student(s) will be reallocated`}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Uploads a JSON or CSV hierarchy file, previews what it would change and
+ * applies it once the admin confirms.
+ */
+const HierarchyImportModal: React.FC<HierarchyImportModalProps> = ({
+  isOpen,
+  onClose,
+  onImported,
+}) => {
+  const [file, setFile] = useState<{
+    format: "json" | "csv";
+    content: string;
+  } | null>(null);
+  const [report, setReport] = useState<HierarchyImportReport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setFileError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    reset();
+    if (!selected) return;
+
+    const format = selected.name.toLowerCase().endsWith(".csv")
+      ? "csv"
+      : "json";
+    const content = await selected.text();
+    setFile({ format, content });
+
+    setIsLoading(true);
+    try {
+      setReport(await api.importLocationHierarchy(format, content, true));
+    } catch (err) {
+      setFileError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const result = await api.importLocationHierarchy(
+        file.format,
+        file.content
+      );
+      toast.success(
+        "Import complete",
+        `${result.summary.created} created, ${result.summary.updated} updated`
+      );
+      reset();
+      onImported();
+    } catch (err) {
+      toast.error("Import failed", getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pendingChanges = report
+    ? report.summary.created + report.summary.updated
+    : 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      size="3xl"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          <h2 className="text-xl font-semibold">Import Locations</h2>
+          <p className="text-sm font-normal text-default-500">
+            Upload a JSON or CSV export. Existing blocks and buildings are
+            matched by code, floors by number and rooms by name; nothing is
+            deleted.
+          </p>
+        </ModalHeader>
+        <ModalBody>
+          <input
+            type="file"
+            accept=".json,.csv"
+            onChange={handleFileChange}
+            className="block w-full text-sm"
+          />
+          {fileError && <p className="text-sm text-danger">{fileError}</p>}
+
+          {report && !report.valid && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-danger">
+                Fix these problems before importing:
+              </p>
+              {report.errors.map((error, index) => (
+                <div key={index} className="text-sm">
+                  <span className="text-default-500">{error.source}:</span>{" "}
+                  {error.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report && report.valid && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Chip color="success" variant="flat">
+                  {report.summary.created} new
+                </Chip>
+                <Chip color="primary" variant="flat">
+                  {report.summary.updated} updated
+                </Chip>
+                <Chip variant="flat">{report.summary.unchanged} unchanged</Chip>
+              </div>
+              {LEVELS.map(({ key, label }) => {
+                const changes = report[key].filter(
+                  (change) => change.action !== "unchanged"
+                );
+                if (changes.length === 0) return null;
+                return (
+                  <div key={key}>
+                    <h3 className="text-sm font-semibold mb-1">{label}</h3>
+                    {changes.map((change) => (
+                      <ChangeRow key={change.key} change={change} />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={handleClose} isDisabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            color="primary"
+            onPress={handleImport}
+            isLoading={isLoading}
+            isDisabled={!report?.valid || pendingChanges === 0}
+          >
+            Apply Import
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default HierarchyImportModal;
@@ -206,11 +206,20 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         { name: "Blocks", href: "/blocks", icon: "🏗️" },
         { name: "Buildings", href: "/buildings", icon: "🏢" },
         { name: "Floors", href: "/floors", icon: "📐" },
+        { name: "Walking Routes", href: "/walking-routes", icon: "🚶" },
+        { name: "Amenities", href: "/amenities", icon: "📽️" },
         { name: "Students", href: "/students", icon: "👥" },
+        { name: "Planning", href: "/planning", icon: "🧮" },
         { name: "Faculty", href: "/faculty", icon: "👨‍🏫" },
+        { name: "Bookings", href: "/bookings", icon: "📅" },
+        { name: "Approvals", href: "/approvals", icon: "✅" },
+        { name: "Booking Rules", href: "/booking-policies", icon: "📏" },
         { name: "Reset Password", href: "/reset-password", icon: "🔑" },
         ...(isSuperAdmin
-          ? [{ name: "Admins", href: "/admins", icon: "👑" }]
+          ? [
+              { name: "Admins", href: "/admins", icon: "👑" },
+              { name: "Audit Log", href: "/audit-log", icon: "📜" },
+            ]
           : []),
       ]
     : isTeacher
@@ -280,6 +289,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       crumbs.push({ name: "Blocks", href: "/blocks" });
     } else if (paths.includes("floors")) {
       crumbs.push({ name: "Floors", href: "/floors" });
+    } else if (paths.includes("walking-routes")) {
+      crumbs.push({ name: "Walking Routes", href: "/walking-routes" });
+    } else if (paths.includes("amenities")) {
+      crumbs.push({ name: "Amenities", href: "/amenities" });
+    } else if (paths.includes("booking-policies")) {
+      crumbs.push({ name: "Booking Rules", href: "/booking-policies" });
     } else if (paths.includes("buildings") && paths.length > 1) {
       crumbs.push({ name: "Buildings", href: "/buildings" });
       if (paths.includes("rooms")) {
@@ -289,10 +304,18 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       crumbs.push({ name: "Seat Map", href: location.pathname });
     } else if (paths.includes("students")) {
       crumbs.push({ name: "Students", href: "/students" });
+    } else if (paths.includes("planning")) {
+      crumbs.push({ name: "Planning", href: "/planning" });
     } else if (paths.includes("faculty")) {
       crumbs.push({ name: "Faculty", href: "/faculty" });
+    } else if (paths.includes("bookings")) {
+      crumbs.push({ name: "Bookings", href: "/bookings" });
+    } else if (paths.includes("approvals")) {
+      crumbs.push({ name: "Approvals", href: "/approvals" });
     } else if (paths.includes("admins")) {
       crumbs.push({ name: "Admins", href: "/admins" });
+    } else if (paths.includes("audit-log")) {
+      crumbs.push({ name: "Audit Log", href: "/audit-log" });
     } else if (paths.includes("reset-password")) {
       crumbs.push({ name: "Reset Password", href: "/reset-password" });
     }
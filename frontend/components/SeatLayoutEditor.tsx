@@ -0,0 +1,543 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  ButtonGroup,
+  Card,
+  CardBody,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+} from "@heroui/react";
+import { api, ConflictError } from "../services/apiService";
+import { Room, Seat, SeatChangeReport, StageOrientation } from "../types";
+import { ACCESSIBILITY_NEEDS, SEAT_FEATURES } from "../constants";
+import {
+  getRoomLayout,
+  layoutToGrid,
+  gridToLayout,
+  defaultSeatLabel,
+  describeSeatChanges,
+} from "../utils/roomLayout";
+import { showSuccessToast } from "../utils/toast";
+
+type EditorTool = "select" | "seats" | "aisles";
+
+const STAGE_OPTIONS: { id: StageOrientation; label: string }[] = [
+  { id: "front", label: "Front (above row A)" },
+  { id: "back", label: "Back (below the last row)" },
+  { id: "left", label: "Left" },
+  { id: "right", label: "Right" },
+];
+
+const POSITIONAL_FEATURES: string[] = ACCESSIBILITY_NEEDS.map((n) => n.id);
+
+const positionKey = (row: number, col: number) => `${row}:${col}`;
+
+interface SeatLayoutEditorProps {
+  room: Room;
+  seats: Seat[];
+  onSaved: (room: Room, seats: Seat[]) => void;
+  onCancel: () => void;
+  onReload: () => void;
+}
+
+/**
+ * Edit mode of the seat map: draw the room's seats on a grid, move aisles,
+ * relabel seats and tag several seats at once. Everything is saved in one
+ * versioned request.
+ */
+const SeatLayoutEditor: React.FC<SeatLayoutEditorProps> = ({
+  room,
+  seats,
+  onSaved,
+  onCancel,
+  onReload,
+}) => {
+  const initialLayout = useMemo(() => getRoomLayout(room), [room]);
+  const [grid, setGrid] = useState<boolean[][]>(() =>
+    layoutToGrid(initialLayout)
+  );
+  const [aislesAfter, setAislesAfter] = useState<number[]>(
+    initialLayout.aislesAfter
+  );
+  const [stage, setStage] = useState<StageOrientation>(initialLayout.stage);
+
+  // Labels that differ from the default row-letter + number, by position
+  const [labels, setLabels] = useState<Map<string, string>>(() => {
+    const initialGrid = layoutToGrid(initialLayout);
+    return new Map(
+      seats
+        .filter(
+          (seat) =>
+            initialGrid[seat.row]?.[seat.col] &&
+            seat.label !== defaultSeatLabel(initialGrid, seat.row, seat.col)
+        )
+        .map((seat) => [positionKey(seat.row, seat.col), seat.label])
+    );
+  });
+  // Admin-assigned (non-positional) features, by position
+  const [customFeatures, setCustomFeatures] = useState<Map<string, string[]>>(
+    () =>
+      new Map(
+        seats.map((seat) => [
+          positionKey(seat.row, seat.col),
+          seat.features.filter((f) => !POSITIONAL_FEATURES.includes(f)),
+        ])
+      )
+  );
+
+  const [tool, setTool] = useState<EditorTool>("seats");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [draggedAisle, setDraggedAisle] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [hasConflict, setHasConflict] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<SeatChangeReport | null>(
+    null
+  );
+
+  // Any edit makes a previewed change report stale
+  useEffect(() => {
+    setPendingChanges(null);
+  }, [grid, aislesAfter, stage, labels, customFeatures]);
+
+  const width = grid[0]?.length ?? 0;
+  const seatCount = grid.reduce(
+    (count, cells) => count + cells.filter(Boolean).length,
+    0
+  );
+
+  const labelAt = (row: number, col: number) =>
+    labels.get(positionKey(row, col)) ?? defaultSeatLabel(grid, row, col);
+
+  const handleCellClick = (row: number, col: number) => {
+    const key = positionKey(row, col);
+    if (tool === "seats") {
+      setGrid((prev) =>
+        prev.map((cells, r) =>
+          r === row ? cells.map((cell, c) => (c === col ? !cell : cell)) : cells
+        )
+      );
+      if (grid[row][col]) {
+        // Removing a seat drops its label, tags and selection
+        setLabels((prev) => {
+          const next = new Map(prev);
+          next.delete(key);
+          return next;
+        });
+        setCustomFeatures((prev) => {
+          const next = new Map(prev);
+          next.delete(key);
+          return next;
+        });
+        setSelected((prev) => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }
+    } else if (tool === "select" && grid[row][col]) {
+      setSelected((prev) => {
+        const next = new Set(prev);
+        if (next.has(key)) {
+          next.delete(key);
+        } else {
+          next.add(key);
+        }
+        return next;
+      });
+    }
+  };
+
+  const toggleAisle = (afterCol: number) => {
+    setAislesAfter((prev) =>
+      prev.includes(afterCol)
+        ? prev.filter((c) => c !== afterCol)
+        : [...prev, afterCol]
+    );
+  };
+
+  const moveAisle = (to: number) => {
+    if (draggedAisle === null || draggedAisle === to) return;
+    setAislesAfter((prev) => [
+      ...prev.filter((c) => c !== draggedAisle && c !== to),
+      to,
+    ]);
+    setDraggedAisle(null);
+  };
+
+  const addRow = () => setGrid((prev) => [...prev, Array(width).fill(true)]);
+  const removeRow = () => {
+    if (grid.length <= 1) return;
+    const lastRow = grid.length - 1;
+    setGrid((prev) => prev.slice(0, -1));
+    setSelected(
+      (prev) =>
+        new Set([...prev].filter((key) => !key.startsWith(`${lastRow}:`)))
+    );
+  };
+  const addColumn = () => setGrid((prev) => prev.map((cells) => [...cells, true]));
+  const removeColumn = () => {
+    if (width <= 1) return;
+    const lastCol = width - 1;
+    setGrid((prev) => prev.map((cells) => cells.slice(0, -1)));
+    setAislesAfter((prev) => prev.filter((c) => c < lastCol - 1));
+    setSelected(
+      (prev) =>
+        new Set([...prev].filter((key) => !key.endsWith(`:${lastCol}`)))
+    );
+  };
+
+  const selectAll = () => {
+    const all = new Set<string>();
+    grid.forEach((cells, row) =>
+      cells.forEach((isSeat, col) => {
+        if (isSeat) all.add(positionKey(row, col));
+      })
+    );
+    setSelected(all);
+  };
+
+  const setFeatureOnSelection = (feature: string, enabled: boolean) => {
+    setCustomFeatures((prev) => {
+      const next = new Map(prev);
+      selected.forEach((key) => {
+        const current = (next.get(key) ?? []).filter((f) => f !== feature);
+        next.set(key, enabled ? [...current, feature] : current);
+      });
+      return next;
+    });
+  };
+
+  const singleSelection =
+    selected.size === 1 ? [...selected][0].split(":").map(Number) : null;
+
+  const handleRelabel = (value: string) => {
+    if (!singleSelection) return;
+    const [row, col] = singleSelection;
+    const key = positionKey(row, col);
+    setLabels((prev) => {
+      const next = new Map(prev);
+      if (!value || value === defaultSeatLabel(grid, row, col)) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+      return next;
+    });
+  };
+
+  const buildRequest = () => ({
+    version: room.version,
+    layout: gridToLayout(grid, aislesAfter, stage),
+    seats: grid.flatMap((cells, row) =>
+      cells.flatMap((isSeat, col) => {
+        if (!isSeat) return [];
+        const key = positionKey(row, col);
+        return [
+          {
+            row,
+            col,
+            label: labels.get(key),
+            features: customFeatures.get(key) ?? [],
+          },
+        ];
+      })
+    ),
+  });
+
+  const handleError = (err: unknown) => {
+    if (err instanceof ConflictError) {
+      setHasConflict(true);
+    }
+    setError((err as Error).message);
+  };
+
+  const saveLayout = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const result = await api.updateRoomLayout(room.id, buildRequest());
+      setPendingChanges(null);
+      showSuccessToast("Layout saved", describeSeatChanges(result.seatChanges));
+      onSaved(result.room, result.seats);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Students on removed seats are moved to other rooms, so confirm that first
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const preview = await api.previewRoomLayout(room.id, buildRequest());
+      if (preview.seatChanges.displacedStudentIds.length > 0) {
+        setPendingChanges(preview.seatChanges);
+        setSaving(false);
+        return;
+      }
+    } catch (err) {
+      handleError(err);
+      setSaving(false);
+      return;
+    }
+    await saveLayout();
+  };
+
+  const isSideStage = stage === "left" || stage === "right";
+
+  return (
+    <Card className="shadow-lg">
+      <CardBody className="p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <ButtonGroup size="sm">
+            <Button
+              color={tool === "seats" ? "primary" : "default"}
+              onPress={() => setTool("seats")}
+            >
+              Add / remove seats
+            </Button>
+            <Button
+              color={tool === "aisles" ? "primary" : "default"}
+              onPress={() => setTool("aisles")}
+            >
+              Aisles
+            </Button>
+            <Button
+              color={tool === "select" ? "primary" : "default"}
+              onPress={() => setTool("select")}
+            >
+              Select &amp; tag
+            </Button>
+          </ButtonGroup>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="flat" onPress={addRow}>
+              + Row
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={removeRow}
+              isDisabled={grid.length <= 1}
+            >
+              − Row
+            </Button>
+            <Button size="sm" variant="flat" onPress={addColumn}>
+              + Column
+            </Button>
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={removeColumn}
+              isDisabled={width <= 1}
+            >
+              − Column
+            </Button>
+          </div>
+          <Select
+            label="Stage"
+            size="sm"
+            className="max-w-xs"
+            selectedKeys={new Set([stage])}
+            onSelectionChange={(keys) => {
+              const value = Array.from(keys)[0] as StageOrientation;
+              if (value) setStage(value);
+            }}
+          >
+            {STAGE_OPTIONS.map((option) => (
+              <SelectItem key={option.id}>{option.label}</SelectItem>
+            ))}
+          </Select>
+        </div>
+
+        <p className="text-sm text-default-500">
+          {tool === "seats" &&
+            "Click a cell to add or remove a seat. Gaps inside a row become blocked cells."}
+          {tool === "aisles" &&
+            "Click the space between two columns to add or remove an aisle, or drag an aisle to move it."}
+          {tool === "select" &&
+            "Click seats to select them, then tag or relabel them below."}
+        </p>
+
+        <div
+          className={`overflow-auto rounded-2xl p-6 border border-default-200/50 dark:border-default-800/30 flex gap-4 ${
+            stage === "back"
+              ? "flex-col-reverse"
+              : stage === "left"
+              ? "flex-row"
+              : stage === "right"
+              ? "flex-row-reverse"
+              : "flex-col"
+          }`}
+        >
+          <div
+            className={`flex items-center justify-center rounded-lg bg-default-200/70 dark:bg-default-800/60 text-xs font-semibold uppercase tracking-widest text-default-600 dark:text-default-300 ${
+              isSideStage ? "w-8 [writing-mode:vertical-rl]" : "h-8"
+            }`}
+          >
+            Stage
+          </div>
+          <div className="flex flex-col gap-1 mx-auto min-w-min">
+            {grid.map((cells, row) => (
+              <div key={row} className="flex items-center">
+                <span className="w-6 text-xs text-default-400 text-center">
+                  {String.fromCharCode(65 + row)}
+                </span>
+                {cells.map((isSeat, col) => {
+                  const key = positionKey(row, col);
+                  const isSelected = selected.has(key);
+                  const tags = customFeatures.get(key) ?? [];
+                  return (
+                    <React.Fragment key={key}>
+                      <button
+                        type="button"
+                        onClick={() => handleCellClick(row, col)}
+                        title={
+                          isSeat
+                            ? [labelAt(row, col), ...tags].join(" · ")
+                            : "No seat"
+                        }
+                        className={`w-10 h-10 rounded-lg text-[10px] font-semibold transition-colors ${
+                          isSeat
+                            ? isSelected
+                              ? "bg-primary-200 border-2 border-primary-600 text-primary-900 dark:bg-primary-800 dark:text-primary-100"
+                              : "bg-success-100 border-2 border-success-400 text-success-800 dark:bg-success-900/50 dark:text-success-300"
+                            : "border-2 border-dashed border-default-300 dark:border-default-700 text-transparent"
+                        } ${tool === "aisles" ? "cursor-default" : "cursor-pointer"}`}
+                      >
+                        {isSeat ? labelAt(row, col) : ""}
+                        {isSeat && tags.length > 0 && (
+                          <span className="block text-[8px] leading-none">
+                            ★
+                          </span>
+                        )}
+                      </button>
+                      {col < width - 1 && (
+                        <div
+                          draggable={aislesAfter.includes(col)}
+                          onDragStart={() => setDraggedAisle(col)}
+                          onDragOver={(e) => {
+                            if (draggedAisle !== null) e.preventDefault();
+                          }}
+                          onDrop={() => moveAisle(col)}
+                          onClick={() => tool === "aisles" && toggleAisle(col)}
+                          className={`self-stretch transition-all ${
+                            aislesAfter.includes(col)
+                              ? `w-6 mx-1 rounded bg-warning-200/60 dark:bg-warning-800/40 ${
+                                  tool === "aisles" ? "cursor-grab" : ""
+                                }`
+                              : `w-1 ${
+                                  tool === "aisles"
+                                    ? "cursor-pointer hover:bg-warning-200/60 hover:w-3"
+                                    : ""
+                                }`
+                          }`}
+                        />
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {tool === "select" && (
+          <div className="space-y-3 border-t border-divider pt-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold">
+                {selected.size} selected
+              </span>
+              <Button size="sm" variant="light" onPress={selectAll}>
+                Select all
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                onPress={() => setSelected(new Set())}
+                isDisabled={selected.size === 0}
+              >
+                Clear
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {SEAT_FEATURES.map((feature) => (
+                <div key={feature.id} className="flex items-center gap-1">
+                  <Chip size="sm" variant="flat">
+                    {feature.label}
+                  </Chip>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    color="success"
+                    isDisabled={selected.size === 0}
+                    onPress={() => setFeatureOnSelection(feature.id, true)}
+                  >
+                    Tag
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    isDisabled={selected.size === 0}
+                    onPress={() => setFeatureOnSelection(feature.id, false)}
+                  >
+                    Untag
+                  </Button>
+                </div>
+              ))}
+            </div>
+            {singleSelection && (
+              <Input
+                label="Seat label"
+                size="sm"
+                className="max-w-xs"
+                value={labelAt(singleSelection[0], singleSelection[1])}
+                onChange={(e) => handleRelabel(e.target.value.trim())}
+                maxLength={10}
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4 border-t border-divider pt-4">
+          <div className="text-sm text-default-600 space-y-1">
+            <p>
+              {seatCount} seat{seatCount !== 1 ? "s" : ""} in the layout
+            </p>
+            {pendingChanges && (
+              <p className="text-warning-600">
+                {describeSeatChanges(pendingChanges)} Students on removed seats
+                will be moved to other rooms in the building where possible.
+              </p>
+            )}
+            {error && <p className="text-danger">{error}</p>}
+          </div>
+          <div className="flex gap-2">
+            {hasConflict && (
+              <Button variant="flat" color="warning" onPress={onReload}>
+                Reload room
+              </Button>
+            )}
+            <Button variant="light" onPress={onCancel} isDisabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              color={pendingChanges ? "warning" : "primary"}
+              onPress={pendingChanges ? saveLayout : handleSave}
+              isLoading={saving}
+              isDisabled={seatCount === 0}
+            >
+              {pendingChanges ? "Save Anyway" : "Save Layout"}
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
+
+export default SeatLayoutEditor;
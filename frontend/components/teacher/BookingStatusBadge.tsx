@@ -6,12 +6,14 @@ interface BookingStatusBadgeProps {
   status: BookingStatus;
   startTime: string;
   endTime: string;
+  isWaitlisted?: boolean;
 }
 
 const BookingStatusBadge: React.FC<BookingStatusBadgeProps> = ({
   status,
   startTime,
   endTime,
+  isWaitlisted = false,
 }) => {
   // Calculate actual status based on current time
   const now = new Date();
@@ -19,9 +21,19 @@ const BookingStatusBadge: React.FC<BookingStatusBadgeProps> = ({
   const end = new Date(endTime);
 
   let actualStatus: BookingStatus = status;
-  let displayText = status;
+  let displayText: string = status;
 
-  if (now < start) {
+  if (
+    status === BookingStatus.Cancelled ||
+    status === BookingStatus.Rejected
+  ) {
+    // Cancelled and rejected bookings keep their status regardless of the time window
+    actualStatus = status;
+    displayText = status;
+  } else if (status === BookingStatus.PendingApproval) {
+    actualStatus = status;
+    displayText = "Pending Approval";
+  } else if (now < start) {
     actualStatus = BookingStatus.NotStarted;
     displayText = BookingStatus.NotStarted;
   } else if (now >= start && now < end) {
@@ -33,14 +45,25 @@ const BookingStatusBadge: React.FC<BookingStatusBadgeProps> = ({
   }
 
   // Get color based on status
-  const getStatusColor = (): "primary" | "success" | "default" => {
+  const getStatusColor = ():
+    | "primary"
+    | "success"
+    | "warning"
+    | "danger"
+    | "default" => {
+    if (isWaitlisted) return "warning";
     switch (actualStatus) {
+      case BookingStatus.PendingApproval:
+        return "warning";
       case BookingStatus.NotStarted:
         return "primary";
       case BookingStatus.Ongoing:
         return "success";
       case BookingStatus.Completed:
         return "default";
+      case BookingStatus.Cancelled:
+      case BookingStatus.Rejected:
+        return "danger";
       default:
         return "default";
     }
@@ -65,7 +88,7 @@ const BookingStatusBadge: React.FC<BookingStatusBadgeProps> = ({
         size="sm"
         className="font-medium"
       >
-        {displayText}
+        {isWaitlisted ? "Waitlisted" : displayText}
       </Chip>
       <div className="text-xs text-default-500 text-right space-y-0.5">
         <div className="flex items-center gap-1 justify-end">
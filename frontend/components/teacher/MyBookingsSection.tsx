@@ -6,16 +6,32 @@ import {
   Button,
   Divider,
   Skeleton,
+  Chip,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  RadioGroup,
+  Radio,
+  Input,
 } from "@heroui/react";
 import { api } from "../../services/apiService";
-import { RoomBooking } from "../../types";
+import { RoomBooking, BookingStatus, WaitlistEntry } from "../../types";
 import { authService } from "../../services/authService";
 import BookingStatusBadge from "./BookingStatusBadge";
-import { ConfirmationModal, BookingSkeleton } from "../ui";
+import { ConfirmationModal, BookingSkeleton, TimeRangePicker } from "../ui";
 import { useBookingUpdates } from "../../hooks/useBookingUpdates";
 import { useSeatPlanner } from "../../context/SeatPlannerContext";
 import { showErrorToast, showSuccessToast } from "../../utils/toast";
 
+// Formats an ISO timestamp for a datetime-local input in local time
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
 interface MyBookingsSectionProps {
   refreshTrigger: number;
 }
@@ -33,6 +49,19 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
   const [bookingToCancel, setBookingToCancel] = useState<RoomBooking | null>(
     null
   );
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [leavingEntryId, setLeavingEntryId] = useState<string | null>(null);
+  const [bookingToEdit, setBookingToEdit] = useState<RoomBooking | null>(
+    null
+  );
+  const [editStartTime, setEditStartTime] = useState("");
+  const [editEndTime, setEditEndTime] = useState("");
+  const [editCapacity, setEditCapacity] = useState("");
+  const [editError, setEditError] = useState("");
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [cancelScope, setCancelScope] = useState<"occurrence" | "series">(
+    "occurrence"
+  );
 
   const user = authService.getUser();
 
@@ -60,10 +89,56 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
         loadBookings();
       }
     },
+    onBookingUpdated: (event) => {
+      // Replace the rescheduled booking in context
+      dispatch({ type: "UPDATE_BOOKING_SUCCESS", payload: event.booking });
+    },
     onBookingCanceled: (event) => {
       // Remove booking from context
       dispatch({ type: "DELETE_BOOKING_SUCCESS", payload: event.bookingId });
     },
+    onBookingAdminAction: (event) => {
+      // An admin created, cancelled or moved one of our bookings
+      if (event.teacherUserId !== user?.id) return;
+      const roomName = event.booking?.room?.name || "a room";
+      const messages = {
+        created: `An admin booked ${roomName} for you`,
+        cancelled: `Your booking for ${roomName} was cancelled by an admin`,
+        reassigned: `Your booking was moved to ${roomName} by an admin`,
+      };
+      showSuccessToast(
+        messages[event.action],
+        event.reason ? `Reason: ${event.reason}` : undefined
+      );
+      loadBookings(true);
+    },
+    onBookingReviewed: (event) => {
+      // An admin approved or rejected one of our pending bookings
+      if (event.teacherUserId !== user?.id) return;
+      const roomName = event.booking?.room?.name || "the room";
+      if (event.decision === "approved") {
+        showSuccessToast(
+          `Your booking for ${roomName} was approved`,
+          event.comment || undefined
+        );
+      } else {
+        showErrorToast(
+          new Error(event.comment || "No reason given"),
+          `Your booking for ${roomName} was rejected`
+        );
+      }
+      dispatch({ type: "UPDATE_BOOKING_SUCCESS", payload: event.booking });
+    },
+    onWaitlistPromoted: (event) => {
+      // A waitlisted slot of ours was booked after a cancellation
+      if (waitlist.some((entry) => entry.id === event.entryId)) {
+        showSuccessToast(
+          "Waitlisted room booked",
+          `${event.booking.room?.name || "The room"} is now reserved for you`
+        );
+        loadBookings(true);
+      }
+    },
     onBookingConflict: (event) => {
       // Show error notification for booking conflicts
       if (event.conflictingBooking) {
@@ -90,7 +165,11 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
     try {
       // For teachers, we need to get their teacher ID first
       // This is a simplified version - in production, you'd have a proper way to get teacher ID
-      const allBookings = await api.getBookings();
+      const [allBookings, waitlistEntries] = await Promise.all([
+        api.getBookings(),
+        api.getWaitlist(),
+      ]);
+      setWaitlist(waitlistEntries);
 
       // Update context with bookings
       dispatch({ type: "GET_BOOKINGS_SUCCESS", payload: allBookings });
@@ -109,6 +188,7 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
   }, [refreshTrigger]);
 
   const handleCancelClick = (booking: RoomBooking) => {
+    setCancelScope("occurrence");
     setBookingToCancel(booking);
   };
 
@@ -119,8 +199,18 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
     setCancelError("");
 
     try {
-      await api.cancelBooking(bookingToCancel.id);
-      showSuccessToast("Booking cancelled successfully");
+      if (cancelScope === "series" && bookingToCancel.seriesId) {
+        const result = await api.cancelBookingSeries(bookingToCancel.seriesId);
+        showSuccessToast(
+          "Series cancelled successfully",
+          `${result.cancelledCount} upcoming occurrence${
+            result.cancelledCount !== 1 ? "s" : ""
+          } cancelled`
+        );
+      } else {
+        await api.cancelBooking(bookingToCancel.id);
+        showSuccessToast("Booking cancelled successfully");
+      }
       setBookingToCancel(null);
       loadBookings();
     } catch (err) {
@@ -132,8 +222,58 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
     }
   };
 
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    setLeavingEntryId(entry.id);
+
+    try {
+      await api.leaveWaitlist(entry.id);
+      setWaitlist((prev) => prev.filter((e) => e.id !== entry.id));
+      showSuccessToast("Removed from waitlist");
+    } catch (err) {
+      showErrorToast(err, "Failed to leave waitlist");
+    } finally {
+      setLeavingEntryId(null);
+    }
+  };
+
+  const handleEditClick = (booking: RoomBooking) => {
+    setBookingToEdit(booking);
+    setEditStartTime(toLocalInputValue(booking.startTime));
+    setEditEndTime(toLocalInputValue(booking.endTime));
+    setEditCapacity(String(booking.capacity));
+    setEditError("");
+  };
+
+  const handleSaveEdit = async () => {
+    if (!bookingToEdit) return;
+
+    setIsSavingEdit(true);
+    setEditError("");
+
+    try {
+      const updated = await api.updateBooking(bookingToEdit.id, {
+        startTime: new Date(editStartTime).toISOString(),
+        endTime: new Date(editEndTime).toISOString(),
+        capacity: parseInt(editCapacity, 10),
+      });
+      dispatch({ type: "UPDATE_BOOKING_SUCCESS", payload: updated });
+      showSuccessToast("Booking rescheduled successfully");
+      setBookingToEdit(null);
+    } catch (err) {
+      setEditError((err as Error).message);
+      showErrorToast(err, "Failed to reschedule booking");
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
   const canCancelBooking = (booking: RoomBooking): boolean => {
     // Can only cancel NotStarted bookings
+    if (
+      booking.status === BookingStatus.Cancelled ||
+      booking.status === BookingStatus.Rejected
+    )
+      return false;
     const now = new Date();
     const start = new Date(booking.startTime);
     return now < start;
@@ -408,6 +548,29 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
                               </svg>
                               {booking.branch}
                             </span>
+                            {booking.status === BookingStatus.Cancelled &&
+                              booking.adminReason && (
+                                <span className="inline-flex items-center bg-danger-50 text-danger px-2.5 py-1 rounded-md text-xs font-medium">
+                                  Cancelled by admin: {booking.adminReason}
+                                </span>
+                              )}
+                            {booking.status === BookingStatus.Rejected &&
+                              booking.reviewComment && (
+                                <span className="inline-flex items-center bg-danger-50 text-danger px-2.5 py-1 rounded-md text-xs font-medium">
+                                  Rejected: {booking.reviewComment}
+                                </span>
+                              )}
+                            {booking.status === BookingStatus.NotStarted &&
+                              booking.reviewComment && (
+                                <span className="inline-flex items-center bg-success-50 text-success px-2.5 py-1 rounded-md text-xs font-medium">
+                                  Approved: {booking.reviewComment}
+                                </span>
+                              )}
+                            {booking.seriesId && (
+                              <Chip size="sm" variant="flat" color="secondary">
+                                Recurring
+                              </Chip>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -421,16 +584,26 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
                       />
 
                       {canCancelBooking(booking) && (
-                        <Button
-                          size="sm"
-                          color="danger"
-                          variant="flat"
-                          onPress={() => handleCancelClick(booking)}
-                          isLoading={cancellingId === booking.id}
-                          className="min-w-[70px]"
-                        >
-                          Cancel
-                        </Button>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="flat"
+                            onPress={() => handleEditClick(booking)}
+                            className="min-w-[70px]"
+                          >
+                            Reschedule
+                          </Button>
+                          <Button
+                            size="sm"
+                            color="danger"
+                            variant="flat"
+                            onPress={() => handleCancelClick(booking)}
+                            isLoading={cancellingId === booking.id}
+                            className="min-w-[70px]"
+                          >
+                            Cancel
+                          </Button>
+                        </div>
                       )}
                     </div>
                   </div>
@@ -438,12 +611,164 @@ const MyBookingsSection: React.FC<MyBookingsSectionProps> = ({
               ))}
             </div>
           )}
+
+          {!refreshing && waitlist.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-default-600 mb-3">
+                Waitlist
+              </h3>
+              <div className="space-y-3">
+                {waitlist.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="border border-dashed border-warning/50 rounded-xl p-4 flex justify-between items-start gap-4"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-default-900 truncate">
+                        {entry.room?.name || "Room"}
+                      </p>
+                      <p className="text-xs text-default-500 mt-0.5">
+                        {entry.branch} • {entry.capacity} students
+                      </p>
+                      <p className="text-xs text-default-400 mt-1">
+                        Booked automatically if the current booking is
+                        cancelled
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-2.5 flex-shrink-0">
+                      <BookingStatusBadge
+                        status={BookingStatus.NotStarted}
+                        startTime={entry.startTime}
+                        endTime={entry.endTime}
+                        isWaitlisted
+                      />
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        onPress={() => handleLeaveWaitlist(entry)}
+                        isLoading={leavingEntryId === entry.id}
+                      >
+                        Leave
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardBody>
       </Card>
 
+      {/* Reschedule Modal */}
+      <Modal
+        isOpen={!!bookingToEdit}
+        onClose={() => setBookingToEdit(null)}
+        size="md"
+      >
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="text-xl font-bold">
+                Reschedule {bookingToEdit?.room?.name || "Booking"}
+              </ModalHeader>
+              <ModalBody>
+                <TimeRangePicker
+                  startTime={editStartTime}
+                  endTime={editEndTime}
+                  onStartTimeChange={setEditStartTime}
+                  onEndTimeChange={setEditEndTime}
+                  isRequired
+                />
+                <Input
+                  type="number"
+                  label="Capacity"
+                  variant="bordered"
+                  min={1}
+                  max={bookingToEdit?.room?.capacity}
+                  value={editCapacity}
+                  onValueChange={setEditCapacity}
+                />
+                {editError && (
+                  <div className="bg-danger-50 border border-danger p-3 rounded-lg">
+                    <p className="text-danger text-sm">{editError}</p>
+                  </div>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                <Button
+                  color="default"
+                  variant="light"
+                  onPress={onClose}
+                  isDisabled={isSavingEdit}
+                >
+                  Keep Current Time
+                </Button>
+                <Button
+                  color="primary"
+                  onPress={handleSaveEdit}
+                  isLoading={isSavingEdit}
+                  isDisabled={!editStartTime || !editEndTime || !editCapacity}
+                >
+                  Save Changes
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
       {/* Cancel Confirmation Modal */}
+      <Modal
+        isOpen={!!bookingToCancel?.seriesId}
+        onClose={() => setBookingToCancel(null)}
+        size="md"
+      >
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="text-xl font-bold">
+                Cancel Recurring Booking
+              </ModalHeader>
+              <ModalBody>
+                <p className="text-default-600">
+                  This booking for {bookingToCancel?.room?.name} is part of a
+                  weekly series.
+                </p>
+                <RadioGroup
+                  value={cancelScope}
+                  onValueChange={(value) =>
+                    setCancelScope(value as "occurrence" | "series")
+                  }
+                >
+                  <Radio value="occurrence">Cancel this occurrence</Radio>
+                  <Radio value="series">
+                    Cancel entire series (all upcoming occurrences)
+                  </Radio>
+                </RadioGroup>
+              </ModalBody>
+              <ModalFooter>
+                <Button
+                  color="default"
+                  variant="light"
+                  onPress={onClose}
+                  isDisabled={!!cancellingId}
+                >
+                  Keep Booking
+                </Button>
+                <Button
+                  color="danger"
+                  onPress={handleConfirmCancel}
+                  isLoading={!!cancellingId}
+                >
+                  {cancelScope === "series" ? "Cancel Series" : "Cancel Booking"}
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
       <ConfirmationModal
-        isOpen={!!bookingToCancel}
+        isOpen={!!bookingToCancel && !bookingToCancel.seriesId}
         onClose={() => setBookingToCancel(null)}
         onConfirm={handleConfirmCancel}
         title="Cancel Booking"
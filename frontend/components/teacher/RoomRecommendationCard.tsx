@@ -11,9 +11,21 @@ import {
   ModalBody,
   ModalFooter,
   Divider,
+  Switch,
+  Checkbox,
+  CheckboxGroup,
+  RadioGroup,
+  Radio,
+  Input,
 } from "@heroui/react";
-import { RoomRecommendation, SearchCriteria } from "../../types";
-import { api } from "../../services/apiService";
+import {
+  BookingStatus,
+  RoomRecommendation,
+  SearchCriteria,
+  OccurrenceConflict,
+  RecurrenceRule,
+} from "../../types";
+import { api, ConflictError } from "../../services/apiService";
 import { showErrorToast, showSuccessToast } from "../../utils/toast";
 
 // Helper function to format time
@@ -36,6 +48,17 @@ const formatDate = (time: string) => {
   });
 };
 
+// Date#getDay numbering, listed Monday first
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
 interface RoomRecommendationCardProps {
   recommendation: RoomRecommendation;
   searchCriteria: SearchCriteria;
@@ -47,10 +70,32 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
   searchCriteria,
   onBookingCreated,
 }) => {
-  const { room, distance, score } = recommendation;
+  const { room, distance, score, reasons, buffers, effectiveWindow } =
+    recommendation;
+  // The room is held for setup and changeover around the class itself
+  const hasBuffers = buffers.beforeMinutes > 0 || buffers.afterMinutes > 0;
+  const bufferSummary = `${buffers.beforeMinutes} min before, ${buffers.afterMinutes} min after`;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isBooking, setIsBooking] = useState(false);
   const [bookingError, setBookingError] = useState<string>("");
+  const [repeatWeekly, setRepeatWeekly] = useState(false);
+  const [weekdays, setWeekdays] = useState<string[]>([
+    String(new Date(searchCriteria.startTime).getDay()),
+  ]);
+  const [endMode, setEndMode] = useState<"count" | "until">("count");
+  const [occurrenceCount, setOccurrenceCount] = useState("10");
+  const [untilDate, setUntilDate] = useState("");
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  const [canJoinWaitlist, setCanJoinWaitlist] = useState(false);
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
+  const [seriesConflicts, setSeriesConflicts] = useState<OccurrenceConflict[]>(
+    []
+  );
+
+  const wantedAmenityIds = new Set([
+    ...(searchCriteria.requiredAmenityIds ?? []),
+    ...(searchCriteria.preferredAmenityIds ?? []),
+  ]);
 
   // Get score color based on value
   const getScoreColor = (score: number): "success" | "warning" | "default" => {
@@ -63,42 +108,146 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
     setIsModalOpen(true);
   };
 
-  const handleConfirmBooking = async () => {
+  const buildRecurrence = (): RecurrenceRule => ({
+    byWeekday: weekdays.map(Number),
+    ...(endMode === "count"
+      ? { count: parseInt(occurrenceCount, 10) }
+      : { until: new Date(`${untilDate}T23:59:59.999`).toISOString() }),
+  });
+
+  const handleConfirmSeries = async () => {
     setIsBooking(true);
     setBookingError("");
+    setSeriesConflicts([]);
 
     try {
-      await api.createBooking({
+      const result = await api.createBookingSeries({
         roomId: room.id,
         branch: searchCriteria.branch,
         capacity: searchCriteria.capacity,
         startTime: searchCriteria.startTime,
         endTime: searchCriteria.endTime,
+        recurrence: buildRecurrence(),
+        skipConflicts,
       });
 
       setIsModalOpen(false);
       showSuccessToast(
-        "Room booked successfully",
-        `${room.name} has been reserved`
+        room.requiresApproval
+          ? "Recurring booking sent for approval"
+          : "Recurring booking created",
+        `${result.bookings.length} occurrence${
+          result.bookings.length !== 1 ? "s" : ""
+        } of ${room.name} ${room.requiresApproval ? "requested" : "booked"}${
+          result.skipped.length > 0
+            ? `, ${result.skipped.length} skipped due to conflicts`
+            : ""
+        }`
       );
       onBookingCreated();
+    } catch (error: any) {
+      if (error instanceof ConflictError && Array.isArray(error.currentData)) {
+        setSeriesConflicts(error.currentData);
+        setBookingError(
+          "Some occurrences conflict with existing bookings. Pick other days or skip the conflicting dates."
+        );
+      } else {
+        setBookingError(error.message || "An unexpected error occurred");
+      }
+      showErrorToast(error, "Failed to create recurring booking");
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  const handleJoinWaitlist = async () => {
+    setIsJoiningWaitlist(true);
+
+    try {
+      await api.joinWaitlist({
+        roomId: room.id,
+        branch: searchCriteria.branch,
+        capacity: searchCriteria.capacity,
+        startTime: searchCriteria.startTime,
+        endTime: searchCriteria.endTime,
+      });
+
+      setIsModalOpen(false);
+      setCanJoinWaitlist(false);
+      setBookingError("");
+      showSuccessToast(
+        "Added to waitlist",
+        `You'll get ${room.name} automatically if the current booking is cancelled`
+      );
+      onBookingCreated();
+    } catch (error) {
+      showErrorToast(error, "Failed to join waitlist");
+    } finally {
+      setIsJoiningWaitlist(false);
+    }
+  };
+
+  const isRecurrenceValid =
+    weekdays.length > 0 &&
+    (endMode === "count"
+      ? parseInt(occurrenceCount, 10) >= 1
+      : untilDate !== "");
+
+  const handleConfirmBooking = async () => {
+    if (repeatWeekly) {
+      return handleConfirmSeries();
+    }
+
+    setIsBooking(true);
+    setBookingError("");
+    setCanJoinWaitlist(false);
+
+    try {
+      const booking = await api.createBooking({
+        roomId: room.id,
+        branch: searchCriteria.branch,
+        capacity: searchCriteria.capacity,
+        startTime: searchCriteria.startTime,
+        endTime: searchCriteria.endTime,
+      });
+
+      setIsModalOpen(false);
+      if (booking.status === BookingStatus.PendingApproval) {
+        showSuccessToast(
+          "Booking sent for approval",
+          `${room.name} is held for you until an admin reviews the request`
+        );
+      } else {
+        showSuccessToast(
+          "Room booked successfully",
+          `${room.name} has been reserved`
+        );
+      }
+      onBookingCreated();
     } catch (error: any) {
       let errorMsg = error.message || "An unexpected error occurred";
 
       // Handle specific booking conflict errors
-      if (error.statusCode === 409) {
+      if (error instanceof ConflictError) {
         // Check for specific error codes
         if (error.code === "TEACHER_TIME_CONFLICT") {
           // Teacher already has a booking at this time
           setBookingError(errorMsg);
-        } else if (errorMsg.includes("already booked by")) {
-          // Room is booked by another teacher
+        } else if (error.code === "ROOM_BLACKED_OUT") {
+          // Room is closed for the slot; waiting would not help
+          setBookingError(errorMsg);
+        } else if (error.code === "BOOKING_QUOTA_EXCEEDED") {
+          // Teacher holds as many bookings as the policy allows
           setBookingError(errorMsg);
         } else if (errorMsg.includes("currently booking")) {
           // Another teacher is in the process of booking
           setBookingError(
             "Another teacher is currently booking this room. Please wait a moment and try again."
           );
+        } else if (error.code === "ROOM_NOT_AVAILABLE") {
+          // Room is booked by another teacher; offer the waitlist
+          setBookingError(errorMsg);
+          setCanJoinWaitlist(true);
         } else {
           // Generic conflict error
           setBookingError(
@@ -166,13 +315,58 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
           <div className="text-xs text-default-500">
             Layout: {room.rows} × {room.cols} seats
           </div>
+
+          {room.requiresApproval && (
+            <div className="text-xs text-warning-600">
+              Bookings of this room need admin approval
+            </div>
+          )}
+
+          {/* Time the room is held, buffers included */}
+          {hasBuffers && (
+            <div className="text-xs text-default-500">
+              Room held {formatTime(effectiveWindow.startTime)} -{" "}
+              {formatTime(effectiveWindow.endTime)} ({bufferSummary})
+            </div>
+          )}
+
+          {/* Amenities, highlighting the ones asked for */}
+          {room.amenities && room.amenities.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {room.amenities.map((amenity) => (
+                <Chip
+                  key={amenity.id}
+                  size="sm"
+                  variant="flat"
+                  color={wantedAmenityIds.has(amenity.id) ? "success" : "default"}
+                >
+                  {amenity.name}
+                </Chip>
+              ))}
+            </div>
+          )}
+
+          {/* Why the room ranked lower */}
+          {reasons.length > 0 && (
+            <ul className="text-xs text-warning-600 space-y-0.5">
+              {reasons.map((reason) => (
+                <li key={reason}>• {reason}</li>
+              ))}
+            </ul>
+          )}
         </CardBody>
 
-        <CardFooter className="border-t border-divider">
-          <Button color="primary" className="w-full" onPress={handleClaimRoom}>
-            Claim Room
-          </Button>
-        </CardFooter>
+        {!recommendation.excluded && (
+          <CardFooter className="border-t border-divider">
+            <Button
+              color="primary"
+              className="w-full"
+              onPress={handleClaimRoom}
+            >
+              Claim Room
+            </Button>
+          </CardFooter>
+        )}
       </Card>
 
       {/* Booking Confirmation Modal */}
@@ -269,6 +463,14 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
                             {formatTime(searchCriteria.startTime)} -{" "}
                             {formatTime(searchCriteria.endTime)}
                           </p>
+                          {hasBuffers && (
+                            <p className="text-xs text-default-500">
+                              Room held{" "}
+                              {formatTime(effectiveWindow.startTime)} -{" "}
+                              {formatTime(effectiveWindow.endTime)} (
+                              {bufferSummary})
+                            </p>
+                          )}
                         </div>
                       </div>
 
@@ -300,6 +502,82 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
                     </div>
                   </div>
 
+                  {/* Recurrence */}
+                  <div className="space-y-3">
+                    <Switch
+                      isSelected={repeatWeekly}
+                      onValueChange={(value) => {
+                        setRepeatWeekly(value);
+                        setSeriesConflicts([]);
+                        setBookingError("");
+                      }}
+                      size="sm"
+                    >
+                      Repeat weekly
+                    </Switch>
+
+                    {repeatWeekly && (
+                      <div className="space-y-3 pl-1">
+                        <CheckboxGroup
+                          label="On"
+                          orientation="horizontal"
+                          value={weekdays}
+                          onValueChange={setWeekdays}
+                          size="sm"
+                        >
+                          {WEEKDAYS.map((day) => (
+                            <Checkbox key={day.value} value={String(day.value)}>
+                              {day.label}
+                            </Checkbox>
+                          ))}
+                        </CheckboxGroup>
+
+                        <RadioGroup
+                          label="Ends"
+                          orientation="horizontal"
+                          value={endMode}
+                          onValueChange={(value) =>
+                            setEndMode(value as "count" | "until")
+                          }
+                          size="sm"
+                        >
+                          <Radio value="count">After</Radio>
+                          <Radio value="until">On date</Radio>
+                        </RadioGroup>
+
+                        {endMode === "count" ? (
+                          <Input
+                            type="number"
+                            label="Occurrences"
+                            variant="bordered"
+                            size="sm"
+                            min={1}
+                            max={52}
+                            value={occurrenceCount}
+                            onValueChange={setOccurrenceCount}
+                          />
+                        ) : (
+                          <Input
+                            type="date"
+                            label="Until"
+                            variant="bordered"
+                            size="sm"
+                            value={untilDate}
+                            onValueChange={setUntilDate}
+                          />
+                        )}
+
+                        <Checkbox
+                          isSelected={skipConflicts}
+                          onValueChange={setSkipConflicts}
+                          size="sm"
+                        >
+                          Skip conflicting dates and book the rest
+                        </Checkbox>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Error Message */}
                   {bookingError && (
                     <div className="bg-danger-50 dark:bg-danger-900/20 border-l-4 border-danger p-4 rounded-lg">
@@ -322,6 +600,30 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
                           <p className="text-danger text-sm mt-1">
                             {bookingError}
                           </p>
+                          {canJoinWaitlist && (
+                            <Button
+                              size="sm"
+                              color="warning"
+                              variant="flat"
+                              className="mt-3"
+                              onPress={handleJoinWaitlist}
+                              isLoading={isJoiningWaitlist}
+                            >
+                              Join Waitlist
+                            </Button>
+                          )}
+                          {seriesConflicts.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-sm text-danger">
+                              {seriesConflicts.map((conflict) => (
+                                <li key={conflict.startTime}>
+                                  <span className="font-medium">
+                                    {formatDate(conflict.startTime)}
+                                  </span>
+                                  : {conflict.message}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -364,10 +666,15 @@ const RoomRecommendationCard: React.FC<RoomRecommendationCardProps> = ({
                   color="primary"
                   onPress={handleConfirmBooking}
                   isLoading={isBooking}
+                  isDisabled={repeatWeekly && !isRecurrenceValid}
                   size="lg"
                   className="font-semibold"
                 >
-                  {isBooking ? "Booking..." : "Confirm Booking"}
+                  {isBooking
+                    ? "Booking..."
+                    : repeatWeekly
+                      ? "Confirm Series"
+                      : "Confirm Booking"}
                 </Button>
               </ModalFooter>
             </>
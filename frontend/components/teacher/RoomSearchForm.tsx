@@ -1,8 +1,9 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Input, Select, SelectItem, Button } from "@heroui/react";
 import LocationHierarchySelector from "./LocationHierarchySelector";
 import TimeRangePicker from "../ui/TimeRangePicker";
-import { SearchCriteria, Branch, BRANCH_OPTIONS } from "../../types";
+import { api } from "../../services/apiService";
+import { SearchCriteria, Branch, BRANCH_OPTIONS, Amenity } from "../../types";
 
 interface RoomSearchFormProps {
   onSearch: (criteria: SearchCriteria) => void;
@@ -27,6 +28,14 @@ const RoomSearchForm: React.FC<RoomSearchFormProps> = ({
     buildingId?: string;
     floorId?: string;
   }>({});
+  const [stepFree, setStepFree] = useState<"" | "require" | "prefer">("");
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [requiredAmenityIds, setRequiredAmenityIds] = useState<Set<string>>(
+    new Set()
+  );
+  const [preferredAmenityIds, setPreferredAmenityIds] = useState<Set<string>>(
+    new Set()
+  );
 
   const [errors, setErrors] = useState<{
     capacity?: string;
@@ -105,11 +114,23 @@ const RoomSearchForm: React.FC<RoomSearchFormProps> = ({
         Object.keys(preferredLocation).length > 0
           ? preferredLocation
           : undefined,
+      stepFree: stepFree || undefined,
+      requiredAmenityIds:
+        requiredAmenityIds.size > 0 ? [...requiredAmenityIds] : undefined,
+      preferredAmenityIds:
+        preferredAmenityIds.size > 0 ? [...preferredAmenityIds] : undefined,
     };
 
     onSearch(criteria);
   };
 
+  useEffect(() => {
+    api
+      .getAmenities()
+      .then(setAmenities)
+      .catch((err) => console.error("Failed to fetch amenities:", err));
+  }, []);
+
   const handleBranchChange = (keys: any) => {
     const selectedBranch = Array.from(keys)[0] as Branch;
     setBranch(selectedBranch);
@@ -197,6 +218,64 @@ const RoomSearchForm: React.FC<RoomSearchFormProps> = ({
         />
       </div>
 
+      {/* Step-free Access */}
+      <Select
+        label="Step-free access"
+        description="For groups that cannot use stairs or steps"
+        selectedKeys={[stepFree || "none"]}
+        onSelectionChange={(keys) => {
+          const value = Array.from(keys)[0] as string;
+          setStepFree(value === "none" ? "" : (value as "require" | "prefer"));
+        }}
+        variant="bordered"
+        className="max-w-md"
+      >
+        <SelectItem key="none">Not needed</SelectItem>
+        <SelectItem key="prefer">Preferred: rank other rooms lower</SelectItem>
+        <SelectItem key="require">Required: hide other rooms</SelectItem>
+      </Select>
+
+      {/* Amenities */}
+      {amenities.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Required amenities"
+            description="Only rooms offering all of these are shown"
+            placeholder="None"
+            selectionMode="multiple"
+            selectedKeys={requiredAmenityIds}
+            onSelectionChange={(keys) => {
+              const ids = new Set(Array.from(keys) as string[]);
+              setRequiredAmenityIds(ids);
+              setPreferredAmenityIds(
+                (prev) => new Set([...prev].filter((id) => !ids.has(id)))
+              );
+            }}
+            variant="bordered"
+          >
+            {amenities.map((amenity) => (
+              <SelectItem key={amenity.id}>{amenity.name}</SelectItem>
+            ))}
+          </Select>
+          <Select
+            label="Preferred amenities"
+            description="Rooms offering these rank higher"
+            placeholder="None"
+            selectionMode="multiple"
+            selectedKeys={preferredAmenityIds}
+            onSelectionChange={(keys) =>
+              setPreferredAmenityIds(new Set(Array.from(keys) as string[]))
+            }
+            disabledKeys={requiredAmenityIds}
+            variant="bordered"
+          >
+            {amenities.map((amenity) => (
+              <SelectItem key={amenity.id}>{amenity.name}</SelectItem>
+            ))}
+          </Select>
+        </div>
+      )}
+
       {/* Submit Button */}
       <div className="flex justify-end">
         <Button
@@ -0,0 +1,63 @@
+import React from "react";
+import { Input } from "@heroui/react";
+
+export interface BufferValues {
+  bufferBeforeMinutes: number | null;
+  bufferAfterMinutes: number | null;
+}
+
+interface BufferInputsProps extends BufferValues {
+  onChange: (values: BufferValues) => void;
+  // Shown while a field is empty, i.e. where the value is inherited from
+  inheritedLabel: string;
+}
+
+// An empty field stores null so the value is inherited
+const parseMinutes = (value: string): number | null =>
+  value === "" ? null : Math.max(0, parseInt(value, 10) || 0);
+
+export const BufferInputs: React.FC<BufferInputsProps> = ({
+  bufferBeforeMinutes,
+  bufferAfterMinutes,
+  onChange,
+  inheritedLabel,
+}) => (
+  <div className="flex flex-col gap-2">
+    <div className="grid grid-cols-2 gap-4">
+      <Input
+        label="Buffer before class (min)"
+        type="number"
+        min={0}
+        max={240}
+        variant="bordered"
+        placeholder={inheritedLabel}
+        value={bufferBeforeMinutes?.toString() ?? ""}
+        onChange={(e) =>
+          onChange({
+            bufferBeforeMinutes: parseMinutes(e.target.value),
+            bufferAfterMinutes,
+          })
+        }
+      />
+      <Input
+        label="Buffer after class (min)"
+        type="number"
+        min={0}
+        max={240}
+        variant="bordered"
+        placeholder={inheritedLabel}
+        value={bufferAfterMinutes?.toString() ?? ""}
+        onChange={(e) =>
+          onChange({
+            bufferBeforeMinutes,
+            bufferAfterMinutes: parseMinutes(e.target.value),
+          })
+        }
+      />
+    </div>
+    <span className="text-xs text-default-500">
+      Time kept free around every booking for setup and changeover. Leave
+      empty to inherit.
+    </span>
+  </div>
+);
@@ -428,3 +428,7 @@ export { default as TimeRangePicker } from "./TimeRangePicker";
 export { LocationCard } from "./LocationCard";
 export { BlockIcon, BuildingIcon, FloorIcon, RoomIcon } from "./LocationIcons";
 export { LocationBreadcrumb } from "./LocationBreadcrumb";
+
+// Export the booking buffer inputs used by the building and room forms
+export { BufferInputs } from "./BufferInputs";
+export type { BufferValues } from "./BufferInputs";
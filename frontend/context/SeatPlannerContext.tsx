@@ -5,6 +5,7 @@ import {
   Seat,
   Student,
   AllocationSummary,
+  RebalanceSummary,
   RoomBooking,
 } from "../types";
 
@@ -15,7 +16,7 @@ interface State {
   students: Student[];
   bookings: RoomBooking[];
   allocationSummary: AllocationSummary | null;
-  rebalanceSummary: any | null;
+  rebalanceSummary: RebalanceSummary | null;
   loading: boolean;
   error: string | null;
 }
@@ -41,7 +42,7 @@ type Action =
     }
   | {
       type: "RUN_REBALANCE_SUCCESS";
-      payload: { seats: Seat[]; rebalanceSummary: any };
+      payload: { seats: Seat[]; rebalanceSummary: RebalanceSummary };
     };
 
 const initialState: State = {
@@ -27,11 +27,42 @@ interface BookingExpiredEvent {
   booking: any;
 }
 
+interface BookingUpdatedEvent {
+  bookingId: string;
+  roomId: string;
+  previousRoomId: string;
+  booking: any;
+}
+
 interface BookingCanceledEvent {
   bookingId: string;
   roomId: string;
 }
 
+interface WaitlistPromotedEvent {
+  entryId: string;
+  teacherId: string;
+  booking: any;
+}
+
+interface BookingAdminActionEvent {
+  action: "created" | "cancelled" | "reassigned";
+  bookingId: string;
+  teacherId: string;
+  teacherUserId: string | null;
+  reason: string | null;
+  booking: any;
+}
+
+interface BookingReviewedEvent {
+  decision: "approved" | "rejected";
+  bookingId: string;
+  teacherId: string;
+  teacherUserId: string | null;
+  comment: string | null;
+  booking: any;
+}
+
 interface BookingConflictEvent {
   roomId: string;
   startTime: string;
@@ -50,8 +81,13 @@ interface BookingUpdateCallbacks {
   onBookingCreated?: (event: BookingCreatedEvent) => void;
   onBookingStatusChanged?: (event: BookingStatusChangedEvent) => void;
   onBookingExpired?: (event: BookingExpiredEvent) => void;
+  onBookingUpdated?: (event: BookingUpdatedEvent) => void;
   onBookingCanceled?: (event: BookingCanceledEvent) => void;
   onBookingConflict?: (event: BookingConflictEvent) => void;
+  onWaitlistPromoted?: (event: WaitlistPromotedEvent) => void;
+  onBookingAdminAction?: (event: BookingAdminActionEvent) => void;
+  onApprovalRequested?: (event: BookingCreatedEvent) => void;
+  onBookingReviewed?: (event: BookingReviewedEvent) => void;
 }
 
 /**
@@ -75,6 +111,10 @@ interface BookingUpdateCallbacks {
  *     console.log('Booking expired:', event);
  *     removeBookingFromList(event.bookingId);
  *   },
+ *   onBookingUpdated: (event) => {
+ *     console.log('Booking rescheduled:', event);
+ *     replaceBookingInList(event.booking);
+ *   },
  *   onBookingCanceled: (event) => {
  *     console.log('Booking canceled:', event);
  *     removeBookingFromList(event.bookingId);
@@ -82,6 +122,22 @@ interface BookingUpdateCallbacks {
  *   onBookingConflict: (event) => {
  *     console.log('Booking conflict:', event);
  *     showErrorToast(event.message);
+ *   },
+ *   onWaitlistPromoted: (event) => {
+ *     console.log('Waitlisted slot booked:', event);
+ *     refreshBookings();
+ *   },
+ *   onBookingAdminAction: (event) => {
+ *     console.log('Booking changed by an admin:', event);
+ *     refreshBookings();
+ *   },
+ *   onApprovalRequested: (event) => {
+ *     console.log('Booking waiting for approval:', event);
+ *     refreshApprovals();
+ *   },
+ *   onBookingReviewed: (event) => {
+ *     console.log('Booking approved or rejected:', event);
+ *     replaceBookingInList(event.booking);
  *   }
  * });
  * ```
@@ -109,6 +165,10 @@ export const useBookingUpdates = (callbacks: BookingUpdateCallbacks): void => {
       socket.on("bookingExpired", callbacks.onBookingExpired);
     }
 
+    if (callbacks.onBookingUpdated) {
+      socket.on("bookingUpdated", callbacks.onBookingUpdated);
+    }
+
     if (callbacks.onBookingCanceled) {
       socket.on("bookingCanceled", callbacks.onBookingCanceled);
     }
@@ -117,6 +177,22 @@ export const useBookingUpdates = (callbacks: BookingUpdateCallbacks): void => {
       socket.on("bookingConflict", callbacks.onBookingConflict);
     }
 
+    if (callbacks.onWaitlistPromoted) {
+      socket.on("waitlistPromoted", callbacks.onWaitlistPromoted);
+    }
+
+    if (callbacks.onBookingAdminAction) {
+      socket.on("bookingAdminAction", callbacks.onBookingAdminAction);
+    }
+
+    if (callbacks.onApprovalRequested) {
+      socket.on("approvalRequested", callbacks.onApprovalRequested);
+    }
+
+    if (callbacks.onBookingReviewed) {
+      socket.on("bookingReviewed", callbacks.onBookingReviewed);
+    }
+
     // Cleanup function to disconnect socket and remove listeners
     return () => {
       socket.disconnect();
@@ -125,7 +201,12 @@ export const useBookingUpdates = (callbacks: BookingUpdateCallbacks): void => {
     callbacks.onBookingCreated,
     callbacks.onBookingStatusChanged,
     callbacks.onBookingExpired,
+    callbacks.onBookingUpdated,
     callbacks.onBookingCanceled,
     callbacks.onBookingConflict,
+    callbacks.onWaitlistPromoted,
+    callbacks.onBookingAdminAction,
+    callbacks.onApprovalRequested,
+    callbacks.onBookingReviewed,
   ]);
 };
@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Input, Button } from "@heroui/react";
+import { authService } from "../services/authService";
+import AuthCard from "../components/auth/AuthCard";
+import { toast } from "../utils/toast";
+
+// Landing page for the one-time setup links admins hand out to new students
+const AccountSetupPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      setError("Password must be at least 6 characters");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setError(null);
+    setLoading(true);
+    try {
+      const { email } = await authService.setupPassword(token, password);
+      toast.success("Password set", `You can now sign in as ${email}`);
+      navigate("/signin");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password setup failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <AuthCard>
+          <div className="text-center space-y-1">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary-600 to-secondary-600 dark:from-primary-400 dark:to-secondary-400 bg-clip-text text-transparent">
+              Set Up Your Account
+            </h1>
+            <p className="text-sm text-default-500">
+              Choose the password you will use to sign in
+            </p>
+          </div>
+
+          {!token ? (
+            <p className="text-sm text-danger text-center">
+              This setup link is incomplete. Ask an administrator for a new
+              one.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="flex flex-col gap-5">
+              <Input
+                label="New Password"
+                type="password"
+                variant="bordered"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+              <Input
+                label="Confirm Password"
+                type="password"
+                variant="bordered"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                isInvalid={!!error}
+                errorMessage={error}
+                required
+              />
+              <Button color="primary" type="submit" isLoading={loading}>
+                Set Password
+              </Button>
+            </form>
+          )}
+        </AuthCard>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSetupPage;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Input,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Skeleton,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "@heroui/react";
+import { SkeletonTable, ConfirmationModal } from "../components/ui";
+import { api } from "../services/apiService";
+import { Amenity } from "../types";
+import { toast, getErrorMessage } from "../utils/toast";
+
+const emptyForm = { name: "", description: "" };
+
+const AmenitiesPage: React.FC = () => {
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showModal, setShowModal] = useState(false);
+  const [editingAmenity, setEditingAmenity] = useState<Amenity | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [amenityToDelete, setAmenityToDelete] = useState<Amenity | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const fetchAmenities = async () => {
+    try {
+      setAmenities(await api.getAmenities());
+      setError("");
+    } catch (err) {
+      const errorMsg = "Failed to fetch amenities.";
+      setError(errorMsg);
+      toast.error("Error", errorMsg);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAmenities();
+  }, []);
+
+  const openCreateModal = () => {
+    setEditingAmenity(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEditModal = (amenity: Amenity) => {
+    setEditingAmenity(amenity);
+    setForm({ name: amenity.name, description: amenity.description ?? "" });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+    setSaveLoading(true);
+    try {
+      const amenityData = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+      };
+      if (editingAmenity) {
+        await api.updateAmenity(editingAmenity.id, amenityData);
+        toast.success("Amenity updated");
+      } else {
+        await api.createAmenity(amenityData);
+        toast.success("Amenity added");
+      }
+      setShowModal(false);
+      await fetchAmenities();
+    } catch (err) {
+      toast.error("Failed to save amenity", getErrorMessage(err));
+    } finally {
+      setSaveLoading(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!amenityToDelete) return;
+    setDeleteLoading(true);
+    try {
+      await api.deleteAmenity(amenityToDelete.id);
+      toast.success("Amenity removed");
+      setAmenityToDelete(null);
+      await fetchAmenities();
+    } catch (err) {
+      toast.error("Failed to remove amenity", getErrorMessage(err));
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div>
+        <div className="flex justify-between items-center mb-6">
+          <Skeleton className="rounded-lg">
+            <div className="h-10 w-48 rounded-lg bg-default-200"></div>
+          </Skeleton>
+        </div>
+        <SkeletonTable
+          columns={["NAME", "DESCRIPTION", "ROOMS", "ACTIONS"]}
+          columnWidths={["w-40", "w-64", "w-16", "w-32"]}
+          rows={5}
+        />
+      </div>
+    );
+  }
+
+  if (error && amenities.length === 0) {
+    return <p className="text-danger text-center">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h1 className="text-3xl font-bold">Amenities</h1>
+        <Button color="primary" onPress={openCreateModal}>
+          Add Amenity
+        </Button>
+      </div>
+      <p className="text-default-500 mb-6">
+        Teachers can require or prefer these when searching for a room. Pick
+        which amenities a room offers from the room's card on its building
+        page.
+      </p>
+
+      <Table aria-label="Amenities table" className="min-w-full">
+        <TableHeader>
+          <TableColumn>NAME</TableColumn>
+          <TableColumn>DESCRIPTION</TableColumn>
+          <TableColumn>ROOMS</TableColumn>
+          <TableColumn align="end">ACTIONS</TableColumn>
+        </TableHeader>
+        <TableBody emptyContent="No amenities defined yet.">
+          {amenities.map((amenity) => (
+            <TableRow key={amenity.id}>
+              <TableCell>{amenity.name}</TableCell>
+              <TableCell>
+                <span className="text-default-500">
+                  {amenity.description || "—"}
+                </span>
+              </TableCell>
+              <TableCell>{amenity.roomCount ?? 0}</TableCell>
+              <TableCell>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    size="sm"
+                    color="primary"
+                    variant="flat"
+                    onPress={() => openEditModal(amenity)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    color="danger"
+                    variant="flat"
+                    onPress={() => setAmenityToDelete(amenity)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Modal isOpen={showModal} onClose={() => setShowModal(false)}>
+        <ModalContent>
+          <ModalHeader>
+            {editingAmenity ? "Edit Amenity" : "Add Amenity"}
+          </ModalHeader>
+          <ModalBody>
+            <Input
+              label="Name"
+              placeholder="e.g. Projector"
+              variant="bordered"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <Input
+              label="Description"
+              placeholder="Optional"
+              variant="bordered"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setShowModal(false)}>
+              Cancel
+            </Button>
+            <Button color="primary" onPress={handleSave} isLoading={saveLoading}>
+              {editingAmenity ? "Save" : "Add Amenity"}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!amenityToDelete}
+        onClose={() => setAmenityToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Amenity"
+        message={`Remove "${amenityToDelete?.name}"? ${
+          amenityToDelete?.roomCount
+            ? `It will be taken off ${amenityToDelete.roomCount} room(s).`
+            : ""
+        }`}
+        confirmText="Delete Amenity"
+        isLoading={deleteLoading}
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default AmenitiesPage;
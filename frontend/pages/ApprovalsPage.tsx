@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableColumn,
+  TableRow,
+  TableCell,
+  Button,
+  Input,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/react";
+import { SkeletonTable } from "../components/ui";
+import { api } from "../services/apiService";
+import { useBookingUpdates } from "../hooks/useBookingUpdates";
+import { showErrorToast, showSuccessToast } from "../utils/toast";
+import { RoomBooking } from "../types";
+
+type Decision = "approve" | "reject";
+
+const formatSlot = (booking: RoomBooking) => {
+  const start = new Date(booking.startTime);
+  const end = new Date(booking.endTime);
+  return `${start.toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })} – ${end.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+};
+
+const ApprovalsPage: React.FC = () => {
+  const [bookings, setBookings] = useState<RoomBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [bookingToReview, setBookingToReview] = useState<RoomBooking | null>(
+    null
+  );
+  const [decision, setDecision] = useState<Decision>("approve");
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchApprovals = useCallback(async () => {
+    try {
+      setBookings(await api.getPendingApprovals());
+    } catch (err) {
+      showErrorToast(err, "Failed to load approvals");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, [fetchApprovals]);
+
+  // New requests arrive and other admins' reviews drop out without a reload
+  useBookingUpdates({
+    onApprovalRequested: () => fetchApprovals(),
+    onBookingReviewed: () => fetchApprovals(),
+    onBookingUpdated: () => fetchApprovals(),
+    onBookingCanceled: () => fetchApprovals(),
+  });
+
+  const openReview = (booking: RoomBooking, next: Decision) => {
+    setBookingToReview(booking);
+    setDecision(next);
+    setComment("");
+  };
+
+  const closeReview = () => {
+    setBookingToReview(null);
+    setComment("");
+  };
+
+  const handleReview = async () => {
+    if (!bookingToReview) return;
+    setIsSubmitting(true);
+    try {
+      if (decision === "approve") {
+        await api.approveBooking(bookingToReview.id, comment.trim());
+      } else {
+        await api.rejectBooking(bookingToReview.id, comment.trim());
+      }
+      showSuccessToast(
+        decision === "approve" ? "Booking approved" : "Booking rejected",
+        `${bookingToReview.teacher?.name || "The teacher"} has been notified`
+      );
+      closeReview();
+      fetchApprovals();
+    } catch (err) {
+      showErrorToast(
+        err,
+        decision === "approve"
+          ? "Failed to approve booking"
+          : "Failed to reject booking"
+      );
+      fetchApprovals();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-2">Approvals</h1>
+      <p className="text-default-500 mb-6">
+        Bookings of rooms that require approval hold their slot until they are
+        reviewed here. Students are allocated once a booking is approved;
+        bookings not reviewed before they start are rejected automatically.
+      </p>
+
+      {loading ? (
+        <SkeletonTable
+          columns={["ROOM", "TEACHER", "BRANCH", "WHEN", "ACTIONS"]}
+          columnWidths={["w-40", "w-40", "w-32", "w-48", "w-40"]}
+          rows={5}
+        />
+      ) : (
+        <Table aria-label="Pending approvals table" className="min-w-full">
+          <TableHeader>
+            <TableColumn>ROOM</TableColumn>
+            <TableColumn>TEACHER</TableColumn>
+            <TableColumn>BRANCH</TableColumn>
+            <TableColumn>WHEN</TableColumn>
+            <TableColumn align="end">ACTIONS</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No bookings are waiting for approval.">
+            {bookings.map((booking) => (
+              <TableRow key={booking.id}>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{booking.room?.name}</span>
+                    <span className="text-xs text-default-500">
+                      {booking.room?.building?.name}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>{booking.teacher?.name}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span>{booking.branch}</span>
+                    <span className="text-xs text-default-500">
+                      {booking.capacity} students
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span>{formatSlot(booking)}</span>
+                    {booking.seriesId && (
+                      <span className="text-xs text-default-500">
+                        Part of a recurring series
+                      </span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      color="success"
+                      variant="flat"
+                      onPress={() => openReview(booking, "approve")}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      color="danger"
+                      variant="flat"
+                      onPress={() => openReview(booking, "reject")}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Modal isOpen={!!bookingToReview} onClose={closeReview} size="md">
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="text-xl font-bold">
+                {decision === "approve" ? "Approve Booking" : "Reject Booking"}
+              </ModalHeader>
+              <ModalBody>
+                <p className="text-default-600">
+                  {decision === "approve"
+                    ? `Confirm ${bookingToReview?.teacher?.name}'s booking of ${bookingToReview?.room?.name}? Students of ${bookingToReview?.branch} will be allocated to the room.`
+                    : `Turn down ${bookingToReview?.teacher?.name}'s booking of ${bookingToReview?.room?.name}? The slot is freed for the waitlist.`}
+                </p>
+                <Input
+                  label={
+                    decision === "approve" ? "Comment (optional)" : "Reason"
+                  }
+                  variant="bordered"
+                  placeholder={
+                    decision === "approve"
+                      ? "e.g. Please leave the stage clear"
+                      : "e.g. Reserved for the open day"
+                  }
+                  value={comment}
+                  onValueChange={setComment}
+                  isRequired={decision === "reject"}
+                />
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="light" onPress={onClose} isDisabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button
+                  color={decision === "approve" ? "success" : "danger"}
+                  onPress={handleReview}
+                  isLoading={isSubmitting}
+                  isDisabled={decision === "reject" && !comment.trim()}
+                >
+                  {decision === "approve" ? "Approve" : "Reject"}
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
+
+export default ApprovalsPage;
@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableColumn,
+  TableRow,
+  TableCell,
+  Button,
+  Input,
+  Select,
+  SelectItem,
+  Chip,
+  Pagination,
+} from "@heroui/react";
+import { SkeletonTable } from "../components/ui";
+import { api } from "../services/apiService";
+import { showErrorToast } from "../utils/toast";
+import { AuditEntityType, AuditLogEntry, AuditLogFilters } from "../types";
+
+const ENTITY_TYPES: AuditEntityType[] = [
+  "Seat",
+  "Room",
+  "User",
+  "RoomBooking",
+  "BookingSeries",
+  "RoomBlackout",
+  "Student",
+  "Location",
+  "Amenity",
+  "BookingPolicy",
+];
+const PAGE_SIZE = 25;
+
+const formatSnapshot = (snapshot?: Record<string, unknown> | null) =>
+  snapshot ? JSON.stringify(snapshot, null, 2) : "—";
+
+const AuditLogPage: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await api.getAuditLogs({
+        ...appliedFilters,
+        // Date inputs give local dates; send the whole day as an ISO range
+        from: appliedFilters.from
+          ? new Date(`${appliedFilters.from}T00:00:00`).toISOString()
+          : undefined,
+        to: appliedFilters.to
+          ? new Date(`${appliedFilters.to}T23:59:59.999`).toISOString()
+          : undefined,
+        page,
+        limit: PAGE_SIZE,
+      });
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (err) {
+      showErrorToast(err, "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const applyFilters = () => {
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setPage(1);
+    setAppliedFilters({});
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Audit Log</h1>
+        <span className="text-sm text-default-500">
+          {total} event{total !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <Input
+          label="Actor email"
+          variant="bordered"
+          value={filters.actorEmail || ""}
+          onValueChange={(value) =>
+            setFilters((prev) => ({ ...prev, actorEmail: value }))
+          }
+        />
+        <Select
+          label="Entity"
+          variant="bordered"
+          selectedKeys={filters.entityType ? new Set([filters.entityType]) : new Set()}
+          onSelectionChange={(keys) => {
+            const selected = Array.from(keys)[0] as AuditEntityType | undefined;
+            setFilters((prev) => ({ ...prev, entityType: selected }));
+          }}
+        >
+          {ENTITY_TYPES.map((type) => (
+            <SelectItem key={type}>{type}</SelectItem>
+          ))}
+        </Select>
+        <Input
+          label="Entity ID"
+          variant="bordered"
+          value={filters.entityId || ""}
+          onValueChange={(value) =>
+            setFilters((prev) => ({ ...prev, entityId: value }))
+          }
+        />
+        <Input
+          type="date"
+          label="From"
+          variant="bordered"
+          value={filters.from || ""}
+          onValueChange={(value) =>
+            setFilters((prev) => ({ ...prev, from: value }))
+          }
+        />
+        <Input
+          type="date"
+          label="To"
+          variant="bordered"
+          value={filters.to || ""}
+          onValueChange={(value) =>
+            setFilters((prev) => ({ ...prev, to: value }))
+          }
+        />
+      </div>
+      <div className="flex gap-2 mb-6">
+        <Button color="primary" onPress={applyFilters}>
+          Apply Filters
+        </Button>
+        <Button variant="flat" onPress={clearFilters}>
+          Clear
+        </Button>
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <SkeletonTable
+          columns={["TIME", "ACTOR", "ACTION", "ENTITY", "DETAILS"]}
+          columnWidths={["w-40", "w-48", "w-40", "w-48", "w-24"]}
+          rows={8}
+        />
+      ) : (
+        <Table aria-label="Audit log table" className="min-w-full">
+          <TableHeader>
+            <TableColumn>TIME</TableColumn>
+            <TableColumn>ACTOR</TableColumn>
+            <TableColumn>ACTION</TableColumn>
+            <TableColumn>ENTITY</TableColumn>
+            <TableColumn align="end">DETAILS</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No audit events match these filters.">
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{entry.actorEmail || "System"}</span>
+                    {entry.actorRole && (
+                      <span className="text-xs text-default-500">{entry.actorRole}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Chip size="sm" variant="flat">
+                    {entry.action}
+                  </Chip>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span>{entry.entityType}</span>
+                    <span className="text-xs text-default-500">{entry.entityId}</span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col items-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      onPress={() =>
+                        setExpandedId(expandedId === entry.id ? null : entry.id)
+                      }
+                    >
+                      {expandedId === entry.id ? "Hide" : "View"}
+                    </Button>
+                    {expandedId === entry.id && (
+                      <div className="grid grid-cols-2 gap-2 text-left w-full">
+                        <div>
+                          <p className="text-xs font-semibold mb-1">Before</p>
+                          <pre className="text-xs bg-default-100 p-2 rounded-md overflow-auto max-h-64">
+                            {formatSnapshot(entry.before)}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="text-xs font-semibold mb-1">After</p>
+                          <pre className="text-xs bg-default-100 p-2 rounded-md overflow-auto max-h-64">
+                            {formatSnapshot(entry.after)}
+                          </pre>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-center mt-6">
+          <Pagination total={totalPages} page={page} onChange={setPage} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
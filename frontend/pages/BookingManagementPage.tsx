@@ -0,0 +1,467 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableColumn,
+  TableRow,
+  TableCell,
+  Button,
+  Input,
+  Select,
+  SelectItem,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/react";
+import { SkeletonTable, TimeRangePicker } from "../components/ui";
+import BookingStatusBadge from "../components/teacher/BookingStatusBadge";
+import { api } from "../services/apiService";
+import { useBookingUpdates } from "../hooks/useBookingUpdates";
+import { showErrorToast, showSuccessToast } from "../utils/toast";
+import {
+  Branch,
+  BRANCH_OPTIONS,
+  BookingStatus,
+  Room,
+  RoomBooking,
+  Teacher,
+} from "../types";
+
+const STATUS_FILTERS = [
+  { key: "all", label: "All" },
+  { key: BookingStatus.PendingApproval, label: "Pending Approval" },
+  { key: BookingStatus.NotStarted, label: "Not Started" },
+  { key: BookingStatus.Ongoing, label: "Ongoing" },
+  { key: BookingStatus.Completed, label: "Completed" },
+  { key: BookingStatus.Cancelled, label: "Cancelled" },
+  { key: BookingStatus.Rejected, label: "Rejected" },
+];
+
+const isActive = (booking: RoomBooking) =>
+  booking.status === BookingStatus.NotStarted ||
+  booking.status === BookingStatus.Ongoing;
+
+const BookingManagementPage: React.FC = () => {
+  const [bookings, setBookings] = useState<RoomBooking[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const [bookingToCancel, setBookingToCancel] = useState<RoomBooking | null>(
+    null
+  );
+  const [bookingToReassign, setBookingToReassign] =
+    useState<RoomBooking | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [targetRoomId, setTargetRoomId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [newTeacherId, setNewTeacherId] = useState("");
+  const [newBranch, setNewBranch] = useState<Branch | "">("");
+  const [newCapacity, setNewCapacity] = useState("");
+  const [newStartTime, setNewStartTime] = useState("");
+  const [newEndTime, setNewEndTime] = useState("");
+
+  const fetchBookings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await api.getBookings(
+        statusFilter !== "all" ? { status: statusFilter } : undefined
+      );
+      setBookings(result);
+    } catch (err) {
+      showErrorToast(err, "Failed to load bookings");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  useEffect(() => {
+    Promise.all([api.getRooms(), api.getTeachers()])
+      .then(([roomList, teacherList]) => {
+        setRooms(roomList);
+        setTeachers(teacherList);
+      })
+      .catch((err) => showErrorToast(err, "Failed to load rooms and faculty"));
+  }, []);
+
+  useBookingUpdates({
+    onBookingCreated: () => fetchBookings(),
+    onBookingUpdated: () => fetchBookings(),
+    onBookingCanceled: () => fetchBookings(),
+    onBookingReviewed: () => fetchBookings(),
+  });
+
+  const closeModals = () => {
+    setBookingToCancel(null);
+    setBookingToReassign(null);
+    setIsCreateOpen(false);
+    setReason("");
+    setTargetRoomId("");
+  };
+
+  const handleForceCancel = async () => {
+    if (!bookingToCancel) return;
+    setIsSubmitting(true);
+    try {
+      await api.forceCancelBooking(bookingToCancel.id, reason.trim());
+      showSuccessToast(
+        "Booking cancelled",
+        `${bookingToCancel.teacher?.name || "The teacher"} has been notified`
+      );
+      closeModals();
+      fetchBookings();
+    } catch (err) {
+      showErrorToast(err, "Failed to cancel booking");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReassign = async () => {
+    if (!bookingToReassign) return;
+    setIsSubmitting(true);
+    try {
+      await api.reassignBooking(
+        bookingToReassign.id,
+        targetRoomId,
+        reason.trim() || undefined
+      );
+      showSuccessToast(
+        "Booking moved",
+        `${bookingToReassign.teacher?.name || "The teacher"} has been notified`
+      );
+      closeModals();
+      fetchBookings();
+    } catch (err) {
+      showErrorToast(err, "Failed to reassign booking");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newBranch) return;
+    setIsSubmitting(true);
+    try {
+      await api.adminCreateBooking({
+        teacherId: newTeacherId,
+        roomId: targetRoomId,
+        branch: newBranch,
+        capacity: parseInt(newCapacity, 10),
+        startTime: new Date(newStartTime).toISOString(),
+        endTime: new Date(newEndTime).toISOString(),
+        reason: reason.trim() || undefined,
+      });
+      showSuccessToast("Booking created on behalf of the teacher");
+      closeModals();
+      setNewTeacherId("");
+      setNewBranch("");
+      setNewCapacity("");
+      setNewStartTime("");
+      setNewEndTime("");
+      fetchBookings();
+    } catch (err) {
+      showErrorToast(err, "Failed to create booking");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const roomSelect = (excludeRoomId?: string) => (
+    <Select
+      label="Room"
+      variant="bordered"
+      selectedKeys={targetRoomId ? new Set([targetRoomId]) : new Set()}
+      onSelectionChange={(keys) =>
+        setTargetRoomId((Array.from(keys)[0] as string) || "")
+      }
+    >
+      {rooms
+        .filter((room) => room.id !== excludeRoomId)
+        .map((room) => (
+          <SelectItem key={room.id}>
+            {`${room.name} (${room.capacity} seats)`}
+          </SelectItem>
+        ))}
+    </Select>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Bookings</h1>
+        <Button color="primary" onPress={() => setIsCreateOpen(true)}>
+          Book for Teacher
+        </Button>
+      </div>
+
+      <div className="flex gap-4 mb-6 max-w-xs">
+        <Select
+          label="Status"
+          variant="bordered"
+          selectedKeys={new Set([statusFilter])}
+          onSelectionChange={(keys) =>
+            setStatusFilter((Array.from(keys)[0] as string) || "all")
+          }
+        >
+          {STATUS_FILTERS.map((filter) => (
+            <SelectItem key={filter.key}>{filter.label}</SelectItem>
+          ))}
+        </Select>
+      </div>
+
+      {loading && bookings.length === 0 ? (
+        <SkeletonTable
+          columns={["ROOM", "TEACHER", "BRANCH", "STATUS", "ACTIONS"]}
+          columnWidths={["w-40", "w-40", "w-32", "w-40", "w-40"]}
+          rows={6}
+        />
+      ) : (
+        <Table aria-label="Bookings table" className="min-w-full">
+          <TableHeader>
+            <TableColumn>ROOM</TableColumn>
+            <TableColumn>TEACHER</TableColumn>
+            <TableColumn>BRANCH</TableColumn>
+            <TableColumn>STATUS</TableColumn>
+            <TableColumn align="end">ACTIONS</TableColumn>
+          </TableHeader>
+          <TableBody emptyContent="No bookings found.">
+            {bookings.map((booking) => (
+              <TableRow key={booking.id}>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span className="font-medium">{booking.room?.name}</span>
+                    <span className="text-xs text-default-500">
+                      {booking.room?.building?.name}
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>{booking.teacher?.name}</TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <span>{booking.branch}</span>
+                    <span className="text-xs text-default-500">
+                      {booking.capacity} students
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col items-start gap-1">
+                    <BookingStatusBadge
+                      status={booking.status}
+                      startTime={booking.startTime}
+                      endTime={booking.endTime}
+                    />
+                    {booking.adminReason && (
+                      <span className="text-xs text-default-500">
+                        Reason: {booking.adminReason}
+                      </span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {(isActive(booking) ||
+                    booking.status === BookingStatus.PendingApproval) && (
+                    <div className="flex justify-end gap-2">
+                      {isActive(booking) && (
+                        <Button
+                          size="sm"
+                          variant="flat"
+                          onPress={() => setBookingToReassign(booking)}
+                        >
+                          Reassign
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        color="danger"
+                        variant="flat"
+                        onPress={() => setBookingToCancel(booking)}
+                      >
+                        Force Cancel
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Force Cancel Modal */}
+      <Modal isOpen={!!bookingToCancel} onClose={closeModals} size="md">
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="text-xl font-bold">
+                Force Cancel Booking
+              </ModalHeader>
+              <ModalBody>
+                <p className="text-default-600">
+                  Cancel {bookingToCancel?.teacher?.name}'s booking of{" "}
+                  {bookingToCancel?.room?.name}? Students allocated for it will
+                  be released and the teacher will be notified.
+                </p>
+                <Input
+                  label="Reason"
+                  variant="bordered"
+                  placeholder="e.g. Room needed for exams"
+                  value={reason}
+                  onValueChange={setReason}
+                  isRequired
+                />
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="light" onPress={onClose} isDisabled={isSubmitting}>
+                  Keep Booking
+                </Button>
+                <Button
+                  color="danger"
+                  onPress={handleForceCancel}
+                  isLoading={isSubmitting}
+                  isDisabled={!reason.trim()}
+                >
+                  Cancel Booking
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      {/* Reassign Modal */}
+      <Modal isOpen={!!bookingToReassign} onClose={closeModals} size="md">
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="text-xl font-bold">
+                Reassign Booking
+              </ModalHeader>
+              <ModalBody>
+                <p className="text-default-600">
+                  Move {bookingToReassign?.teacher?.name}'s booking out of{" "}
+                  {bookingToReassign?.room?.name}. Allocated students move with
+                  it.
+                </p>
+                {roomSelect(bookingToReassign?.roomId)}
+                <Input
+                  label="Reason (optional)"
+                  variant="bordered"
+                  value={reason}
+                  onValueChange={setReason}
+                />
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="light" onPress={onClose} isDisabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button
+                  color="primary"
+                  onPress={handleReassign}
+                  isLoading={isSubmitting}
+                  isDisabled={!targetRoomId}
+                >
+                  Reassign
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      {/* Create on Behalf Modal */}
+      <Modal isOpen={isCreateOpen} onClose={closeModals} size="lg">
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="text-xl font-bold">
+                Book for Teacher
+              </ModalHeader>
+              <ModalBody>
+                <Select
+                  label="Teacher"
+                  variant="bordered"
+                  selectedKeys={newTeacherId ? new Set([newTeacherId]) : new Set()}
+                  onSelectionChange={(keys) =>
+                    setNewTeacherId((Array.from(keys)[0] as string) || "")
+                  }
+                >
+                  {teachers.map((teacher) => (
+                    <SelectItem key={teacher.id}>{teacher.name}</SelectItem>
+                  ))}
+                </Select>
+                {roomSelect()}
+                <Select
+                  label="Branch"
+                  variant="bordered"
+                  selectedKeys={newBranch ? new Set([newBranch]) : new Set()}
+                  onSelectionChange={(keys) =>
+                    setNewBranch((Array.from(keys)[0] as Branch) || "")
+                  }
+                >
+                  {BRANCH_OPTIONS.map((option) => (
+                    <SelectItem key={option.id}>{option.label}</SelectItem>
+                  ))}
+                </Select>
+                <Input
+                  type="number"
+                  label="Capacity"
+                  variant="bordered"
+                  min={1}
+                  value={newCapacity}
+                  onValueChange={setNewCapacity}
+                />
+                <TimeRangePicker
+                  startTime={newStartTime}
+                  endTime={newEndTime}
+                  onStartTimeChange={setNewStartTime}
+                  onEndTimeChange={setNewEndTime}
+                  isRequired
+                />
+                <Input
+                  label="Reason (optional)"
+                  variant="bordered"
+                  value={reason}
+                  onValueChange={setReason}
+                />
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="light" onPress={onClose} isDisabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button
+                  color="primary"
+                  onPress={handleCreate}
+                  isLoading={isSubmitting}
+                  isDisabled={
+                    !newTeacherId ||
+                    !targetRoomId ||
+                    !newBranch ||
+                    !newCapacity ||
+                    !newStartTime ||
+                    !newEndTime
+                  }
+                >
+                  Create Booking
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+};
+
+export default BookingManagementPage;
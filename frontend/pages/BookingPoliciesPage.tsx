@@ -0,0 +1,463 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Input,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Select,
+  SelectItem,
+  Skeleton,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "@heroui/react";
+import { SkeletonTable, ConfirmationModal } from "../components/ui";
+import { api } from "../services/apiService";
+import { BookingPolicy, BookingPolicyRules, Building, Room } from "../types";
+import { toast, getErrorMessage } from "../utils/toast";
+
+const emptyRules: BookingPolicyRules = {
+  maxDurationMinutes: null,
+  minLeadMinutes: null,
+  maxLeadDays: null,
+  maxActiveBookings: null,
+  openFromMinute: null,
+  openUntilMinute: null,
+};
+
+const rulesOf = (policy: BookingPolicy | null): BookingPolicyRules =>
+  policy
+    ? {
+        maxDurationMinutes: policy.maxDurationMinutes,
+        minLeadMinutes: policy.minLeadMinutes,
+        maxLeadDays: policy.maxLeadDays,
+        maxActiveBookings: policy.maxActiveBookings,
+        openFromMinute: policy.openFromMinute,
+        openUntilMinute: policy.openUntilMinute,
+      }
+    : emptyRules;
+
+// An empty field stores null, i.e. inherit (or no limit on the global policy)
+const parseNumber = (value: string): number | null =>
+  value === "" ? null : Math.max(0, parseInt(value, 10) || 0);
+
+const minuteToTime = (minute: number | null): string =>
+  minute === null
+    ? ""
+    : `${String(Math.floor(minute / 60) % 24).padStart(2, "0")}:${String(
+        minute % 60
+      ).padStart(2, "0")}`;
+
+const timeToMinute = (value: string): number | null => {
+  if (!value) return null;
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const describeRules = (rules: BookingPolicyRules): string => {
+  const parts = [];
+  if (rules.maxDurationMinutes !== null) {
+    parts.push(`max ${rules.maxDurationMinutes} min`);
+  }
+  if (rules.minLeadMinutes !== null) {
+    parts.push(`${rules.minLeadMinutes} min notice`);
+  }
+  if (rules.maxLeadDays !== null) {
+    parts.push(`up to ${rules.maxLeadDays} days ahead`);
+  }
+  if (rules.maxActiveBookings !== null) {
+    parts.push(`${rules.maxActiveBookings} active per teacher`);
+  }
+  if (rules.openFromMinute !== null || rules.openUntilMinute !== null) {
+    parts.push(
+      `${minuteToTime(rules.openFromMinute ?? 0)}–${
+        rules.openUntilMinute === null || rules.openUntilMinute === 1440
+          ? "24:00"
+          : minuteToTime(rules.openUntilMinute)
+      }`
+    );
+  }
+  return parts.length > 0 ? parts.join(", ") : "Inherits everything";
+};
+
+const scopeOf = (policy: BookingPolicy): string =>
+  policy.room
+    ? `${policy.room.building.code} · ${policy.room.name}`
+    : policy.building
+    ? `${policy.building.code} · ${policy.building.name}`
+    : policy.id;
+
+interface RuleFieldsProps {
+  rules: BookingPolicyRules;
+  onChange: (rules: BookingPolicyRules) => void;
+  // Shown while a field is empty, i.e. what applies instead
+  emptyLabel: string;
+}
+
+const RuleFields: React.FC<RuleFieldsProps> = ({
+  rules,
+  onChange,
+  emptyLabel,
+}) => {
+  const numberField = (
+    rule: keyof BookingPolicyRules,
+    label: string,
+    min: number
+  ) => (
+    <Input
+      label={label}
+      type="number"
+      min={min}
+      variant="bordered"
+      placeholder={emptyLabel}
+      value={rules[rule]?.toString() ?? ""}
+      onChange={(e) =>
+        onChange({ ...rules, [rule]: parseNumber(e.target.value) })
+      }
+    />
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-4">
+        {numberField("maxDurationMinutes", "Max duration (min)", 1)}
+        {numberField("maxActiveBookings", "Active bookings per teacher", 1)}
+        {numberField("minLeadMinutes", "Minimum notice (min)", 0)}
+        {numberField("maxLeadDays", "Book at most (days ahead)", 1)}
+        <Input
+          label="Bookable from"
+          type="time"
+          variant="bordered"
+          value={minuteToTime(rules.openFromMinute)}
+          onChange={(e) =>
+            onChange({ ...rules, openFromMinute: timeToMinute(e.target.value) })
+          }
+        />
+        <Input
+          label="Bookable until"
+          type="time"
+          variant="bordered"
+          value={minuteToTime(rules.openUntilMinute)}
+          onChange={(e) =>
+            onChange({
+              ...rules,
+              // 00:00 as a closing time means midnight at the end of the day
+              openUntilMinute: timeToMinute(e.target.value) || null,
+            })
+          }
+        />
+      </div>
+      <span className="text-xs text-default-500">
+        Leave a field empty for "{emptyLabel.toLowerCase()}". Hours use the
+        server's time zone.
+      </span>
+    </div>
+  );
+};
+
+const BookingPoliciesPage: React.FC = () => {
+  const [globalRules, setGlobalRules] = useState<BookingPolicyRules>(emptyRules);
+  const [overrides, setOverrides] = useState<BookingPolicy[]>([]);
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [globalSaving, setGlobalSaving] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<BookingPolicy | null>(
+    null
+  );
+  const [buildingId, setBuildingId] = useState("");
+  const [roomId, setRoomId] = useState("");
+  const [form, setForm] = useState<BookingPolicyRules>(emptyRules);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [policyToDelete, setPolicyToDelete] = useState<BookingPolicy | null>(
+    null
+  );
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const fetchPolicies = async () => {
+    try {
+      const [policies, allBuildings] = await Promise.all([
+        api.getBookingPolicies(),
+        api.getBuildings(),
+      ]);
+      setGlobalRules(rulesOf(policies.global));
+      setOverrides(policies.overrides);
+      setBuildings(allBuildings);
+      setError("");
+    } catch (err) {
+      const errorMsg = "Failed to fetch booking policies.";
+      setError(errorMsg);
+      toast.error("Error", errorMsg);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  useEffect(() => {
+    setRooms([]);
+    if (!buildingId) return;
+    api
+      .getRoomsByBuilding(buildingId)
+      .then(setRooms)
+      .catch((err) => console.error(err));
+  }, [buildingId]);
+
+  const handleSaveGlobal = async () => {
+    setGlobalSaving(true);
+    try {
+      await api.saveGlobalBookingPolicy(globalRules);
+      toast.success("Booking rules saved");
+      await fetchPolicies();
+    } catch (err) {
+      toast.error("Failed to save booking rules", getErrorMessage(err));
+    } finally {
+      setGlobalSaving(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingPolicy(null);
+    setBuildingId("");
+    setRoomId("");
+    setForm(emptyRules);
+    setShowModal(true);
+  };
+
+  const openEditModal = (policy: BookingPolicy) => {
+    setEditingPolicy(policy);
+    setForm(rulesOf(policy));
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const targetRoomId = editingPolicy ? editingPolicy.roomId : roomId;
+    const targetBuildingId = editingPolicy
+      ? editingPolicy.buildingId
+      : buildingId;
+    if (!targetRoomId && !targetBuildingId) {
+      toast.error("Pick a building or room");
+      return;
+    }
+    setSaveLoading(true);
+    try {
+      if (targetRoomId) {
+        await api.saveRoomBookingPolicy(targetRoomId, form);
+      } else if (targetBuildingId) {
+        await api.saveBuildingBookingPolicy(targetBuildingId, form);
+      }
+      toast.success(editingPolicy ? "Override updated" : "Override added");
+      setShowModal(false);
+      await fetchPolicies();
+    } catch (err) {
+      toast.error("Failed to save override", getErrorMessage(err));
+    } finally {
+      setSaveLoading(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!policyToDelete) return;
+    setDeleteLoading(true);
+    try {
+      await api.deleteBookingPolicy(policyToDelete.id);
+      toast.success("Override removed");
+      setPolicyToDelete(null);
+      await fetchPolicies();
+    } catch (err) {
+      toast.error("Failed to remove override", getErrorMessage(err));
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div>
+        <div className="flex justify-between items-center mb-6">
+          <Skeleton className="rounded-lg">
+            <div className="h-10 w-48 rounded-lg bg-default-200"></div>
+          </Skeleton>
+        </div>
+        <SkeletonTable
+          columns={["APPLIES TO", "RULES", "ACTIONS"]}
+          columnWidths={["w-48", "w-64", "w-32"]}
+          rows={5}
+        />
+      </div>
+    );
+  }
+
+  if (error && overrides.length === 0) {
+    return <p className="text-danger text-center">{error}</p>;
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-2">Booking Rules</h1>
+      <p className="text-default-500 mb-6">
+        Limits checked whenever a teacher books or searches for a room. A room
+        override beats its building's, which beats the rules below, one rule at
+        a time. Admin bookings are not checked.
+      </p>
+
+      <Card className="mb-8">
+        <CardHeader className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold">All rooms</h2>
+          <Button
+            color="primary"
+            onPress={handleSaveGlobal}
+            isLoading={globalSaving}
+          >
+            Save
+          </Button>
+        </CardHeader>
+        <CardBody>
+          <RuleFields
+            rules={globalRules}
+            onChange={setGlobalRules}
+            emptyLabel="No limit"
+          />
+        </CardBody>
+      </Card>
+
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Overrides</h2>
+        <Button color="primary" onPress={openCreateModal}>
+          Add Override
+        </Button>
+      </div>
+
+      <Table aria-label="Booking policy overrides" className="min-w-full">
+        <TableHeader>
+          <TableColumn>APPLIES TO</TableColumn>
+          <TableColumn>RULES</TableColumn>
+          <TableColumn align="end">ACTIONS</TableColumn>
+        </TableHeader>
+        <TableBody emptyContent="No building or room overrides yet.">
+          {overrides.map((policy) => (
+            <TableRow key={policy.id}>
+              <TableCell>
+                <div className="flex flex-col">
+                  <span>{scopeOf(policy)}</span>
+                  <span className="text-xs text-default-500">
+                    {policy.roomId ? "Room" : "Building"}
+                  </span>
+                </div>
+              </TableCell>
+              <TableCell>
+                <span className="text-default-500">
+                  {describeRules(rulesOf(policy))}
+                </span>
+              </TableCell>
+              <TableCell>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    size="sm"
+                    color="primary"
+                    variant="flat"
+                    onPress={() => openEditModal(policy)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    color="danger"
+                    variant="flat"
+                    onPress={() => setPolicyToDelete(policy)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Modal size="lg" isOpen={showModal} onClose={() => setShowModal(false)}>
+        <ModalContent>
+          <ModalHeader>
+            {editingPolicy
+              ? `Edit Override: ${scopeOf(editingPolicy)}`
+              : "Add Override"}
+          </ModalHeader>
+          <ModalBody>
+            {!editingPolicy && (
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  label="Building"
+                  variant="bordered"
+                  selectedKeys={buildingId ? new Set([buildingId]) : new Set()}
+                  onSelectionChange={(keys) => {
+                    setBuildingId((Array.from(keys)[0] as string) ?? "");
+                    setRoomId("");
+                  }}
+                >
+                  {buildings.map((building) => (
+                    <SelectItem key={building.id}>
+                      {`${building.code} · ${building.name}`}
+                    </SelectItem>
+                  ))}
+                </Select>
+                <Select
+                  label="Room"
+                  placeholder="Whole building"
+                  variant="bordered"
+                  isDisabled={!buildingId}
+                  selectedKeys={roomId ? new Set([roomId]) : new Set()}
+                  onSelectionChange={(keys) =>
+                    setRoomId((Array.from(keys)[0] as string) ?? "")
+                  }
+                >
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id}>{room.name}</SelectItem>
+                  ))}
+                </Select>
+              </div>
+            )}
+            <RuleFields rules={form} onChange={setForm} emptyLabel="Inherit" />
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setShowModal(false)}>
+              Cancel
+            </Button>
+            <Button color="primary" onPress={handleSave} isLoading={saveLoading}>
+              {editingPolicy ? "Save" : "Add Override"}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!policyToDelete}
+        onClose={() => setPolicyToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Override"
+        message={`Remove the override for "${
+          policyToDelete ? scopeOf(policyToDelete) : ""
+        }"? It will fall back to the broader rules.`}
+        confirmText="Delete Override"
+        isLoading={deleteLoading}
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default BookingPoliciesPage;
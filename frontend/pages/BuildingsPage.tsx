@@ -8,6 +8,7 @@ import {
   ModalBody,
   ModalFooter,
   Input,
+  Checkbox,
   Select,
   SelectItem,
   Skeleton,
@@ -20,6 +21,7 @@ import {
   ConfirmationModal,
   LocationCard,
   BuildingIcon,
+  BufferInputs,
 } from "../components/ui";
 import { toast } from "../utils/toast";
 
@@ -81,6 +83,14 @@ const BuildingSkeleton: React.FC = () => (
   </div>
 );
 
+// Buffers set on the building; unset sides follow the global default
+const formatBuffers = (building: Building): string =>
+  building.bufferBeforeMinutes == null && building.bufferAfterMinutes == null
+    ? "Default"
+    : `${building.bufferBeforeMinutes ?? "default"} / ${
+        building.bufferAfterMinutes ?? "default"
+      } min`;
+
 const BuildingsPage: React.FC = () => {
   const { state, dispatch } = useSeatPlanner();
   const { buildings, loading, error } = state;
@@ -91,6 +101,9 @@ const BuildingsPage: React.FC = () => {
     code: "",
     blockId: "",
     distance: 0,
+    stepFreeEntrance: false,
+    bufferBeforeMinutes: null as number | null,
+    bufferAfterMinutes: null as number | null,
   });
   const [createLoading, setCreateLoading] = useState(false);
   const [editingBuilding, setEditingBuilding] = useState<Building | null>(null);
@@ -99,6 +112,9 @@ const BuildingsPage: React.FC = () => {
     code: "",
     blockId: "",
     distance: 0,
+    stepFreeEntrance: false,
+    bufferBeforeMinutes: null as number | null,
+    bufferAfterMinutes: null as number | null,
   });
   const [editLoading, setEditLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState<string | null>(null);
@@ -136,7 +152,15 @@ const BuildingsPage: React.FC = () => {
     setCreateLoading(true);
     try {
       await api.createBuilding(newBuilding);
-      setNewBuilding({ name: "", code: "", blockId: "", distance: 0 });
+      setNewBuilding({
+        name: "",
+        code: "",
+        blockId: "",
+        distance: 0,
+        stepFreeEntrance: false,
+        bufferBeforeMinutes: null,
+        bufferAfterMinutes: null,
+      });
       setShowCreateModal(false);
       // Small delay to ensure cache invalidation completes
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -157,6 +181,9 @@ const BuildingsPage: React.FC = () => {
       code: building.code,
       blockId: building.blockId,
       distance: building.distance,
+      stepFreeEntrance: building.stepFreeEntrance,
+      bufferBeforeMinutes: building.bufferBeforeMinutes ?? null,
+      bufferAfterMinutes: building.bufferAfterMinutes ?? null,
     });
   };
 
@@ -167,7 +194,15 @@ const BuildingsPage: React.FC = () => {
     try {
       await api.updateBuilding(editingBuilding.id, editBuilding);
       setEditingBuilding(null);
-      setEditBuilding({ name: "", code: "", blockId: "", distance: 0 });
+      setEditBuilding({
+        name: "",
+        code: "",
+        blockId: "",
+        distance: 0,
+        stepFreeEntrance: false,
+        bufferBeforeMinutes: null,
+        bufferAfterMinutes: null,
+      });
       // Small delay to ensure cache invalidation completes
       await new Promise((resolve) => setTimeout(resolve, 100));
       const buildingsData = await api.getBuildings();
@@ -252,6 +287,11 @@ const BuildingsPage: React.FC = () => {
             metadata={[
               { label: "Rooms", value: building.roomCount ?? 0 },
               { label: "Distance", value: `${building.distance}m` },
+              { label: "Step-free", value: building.stepFreeEntrance ? "Yes" : "No" },
+              {
+                label: "Buffers",
+                value: formatBuffers(building),
+              },
             ]}
             colorScheme="indigo"
             footer={
@@ -359,6 +399,20 @@ const BuildingsPage: React.FC = () => {
                     }
                     required
                   />
+                  <Checkbox
+                    isSelected={newBuilding.stepFreeEntrance}
+                    onValueChange={(stepFreeEntrance) =>
+                      setNewBuilding({ ...newBuilding, stepFreeEntrance })
+                    }
+                  >
+                    Step-free entrance (level or ramped)
+                  </Checkbox>
+                  <BufferInputs
+                    bufferBeforeMinutes={newBuilding.bufferBeforeMinutes}
+                    bufferAfterMinutes={newBuilding.bufferAfterMinutes}
+                    onChange={(buffers) => setNewBuilding({ ...newBuilding, ...buffers })}
+                    inheritedLabel="Global default"
+                  />
                 </div>
               </ModalBody>
               <ModalFooter>
@@ -443,6 +497,20 @@ const BuildingsPage: React.FC = () => {
                     }
                     required
                   />
+                  <Checkbox
+                    isSelected={editBuilding.stepFreeEntrance}
+                    onValueChange={(stepFreeEntrance) =>
+                      setEditBuilding({ ...editBuilding, stepFreeEntrance })
+                    }
+                  >
+                    Step-free entrance (level or ramped)
+                  </Checkbox>
+                  <BufferInputs
+                    bufferBeforeMinutes={editBuilding.bufferBeforeMinutes}
+                    bufferAfterMinutes={editBuilding.bufferAfterMinutes}
+                    onChange={(buffers) => setEditBuilding({ ...editBuilding, ...buffers })}
+                    inheritedLabel="Global default"
+                  />
                 </div>
               </ModalBody>
               <ModalFooter>
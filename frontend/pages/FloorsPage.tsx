@@ -7,6 +7,7 @@ import {
   ModalBody,
   ModalFooter,
   Input,
+  Checkbox,
   Select,
   SelectItem,
   Skeleton,
@@ -83,6 +84,7 @@ const FloorsPage: React.FC = () => {
     number: 0,
     buildingId: "",
     distance: 0,
+    stepFreeAccess: false,
   });
   const [createLoading, setCreateLoading] = useState(false);
   const [editingFloor, setEditingFloor] = useState<Floor | null>(null);
@@ -91,6 +93,7 @@ const FloorsPage: React.FC = () => {
     number: 0,
     buildingId: "",
     distance: 0,
+    stepFreeAccess: false,
   });
   const [editLoading, setEditLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState<string | null>(null);
@@ -149,7 +152,7 @@ const FloorsPage: React.FC = () => {
     setCreateLoading(true);
     try {
       await api.createFloor(newFloor);
-      setNewFloor({ name: "", number: 0, buildingId: "", distance: 0 });
+      setNewFloor({ name: "", number: 0, buildingId: "", distance: 0, stepFreeAccess: false });
       setShowCreateModal(false);
       await new Promise((resolve) => setTimeout(resolve, 100));
       fetchFloors(selectedBuildingId);
@@ -168,6 +171,7 @@ const FloorsPage: React.FC = () => {
       number: floor.number,
       buildingId: floor.buildingId,
       distance: floor.distance,
+      stepFreeAccess: floor.stepFreeAccess,
     });
   };
 
@@ -178,7 +182,7 @@ const FloorsPage: React.FC = () => {
     try {
       await api.updateFloor(editingFloor.id, editFloor);
       setEditingFloor(null);
-      setEditFloor({ name: "", number: 0, buildingId: "", distance: 0 });
+      setEditFloor({ name: "", number: 0, buildingId: "", distance: 0, stepFreeAccess: false });
       await new Promise((resolve) => setTimeout(resolve, 100));
       fetchFloors(selectedBuildingId);
     } catch (err) {
@@ -295,6 +299,7 @@ const FloorsPage: React.FC = () => {
               metadata={[
                 { label: "Floor Number", value: floor.number },
                 { label: "Distance", value: `${floor.distance}m` },
+                { label: "Step-free", value: floor.stepFreeAccess ? "Yes" : "No" },
               ]}
               badge={
                 floor.building
@@ -405,6 +410,14 @@ const FloorsPage: React.FC = () => {
                     }
                     required
                   />
+                  <Checkbox
+                    isSelected={newFloor.stepFreeAccess}
+                    onValueChange={(stepFreeAccess) =>
+                      setNewFloor({ ...newFloor, stepFreeAccess })
+                    }
+                  >
+                    Step-free access from the building entrance (ramp, level or lift)
+                  </Checkbox>
                 </div>
               </ModalBody>
               <ModalFooter>
@@ -493,6 +506,14 @@ const FloorsPage: React.FC = () => {
                     }
                     required
                   />
+                  <Checkbox
+                    isSelected={editFloor.stepFreeAccess}
+                    onValueChange={(stepFreeAccess) =>
+                      setEditFloor({ ...editFloor, stepFreeAccess })
+                    }
+                  >
+                    Step-free access from the building entrance (ramp, level or lift)
+                  </Checkbox>
                 </div>
               </ModalBody>
               <ModalFooter>
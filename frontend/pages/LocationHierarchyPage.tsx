@@ -7,10 +7,13 @@ import {
   AccordionItem,
   Chip,
   Skeleton,
+  Button,
 } from "@heroui/react";
 import { api } from "../services/apiService";
 import { authService } from "../services/authService";
 import { Block, Building, Floor, Room } from "../types";
+import HierarchyImportModal from "../components/HierarchyImportModal";
+import { toast, getErrorMessage } from "../utils/toast";
 
 interface BlockWithHierarchy extends Block {
   buildings: (Building & {
@@ -24,9 +27,11 @@ const LocationHierarchyPage: React.FC = () => {
   const navigate = useNavigate();
   const user = authService.getUser();
   const isStudent = user?.role === "Student";
+  const isAdmin = authService.isAdmin();
   const [blocks, setBlocks] = useState<BlockWithHierarchy[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   useEffect(() => {
     fetchHierarchy();
@@ -76,6 +81,26 @@ const LocationHierarchyPage: React.FC = () => {
     }
   };
 
+  const handleExport = async (format: "json" | "csv") => {
+    try {
+      const data = await api.exportLocationHierarchy(format);
+      const content =
+        typeof data === "string" ? data : JSON.stringify(data, null, 2);
+      const url = URL.createObjectURL(
+        new Blob([content], {
+          type: format === "csv" ? "text/csv" : "application/json",
+        })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `location-hierarchy.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error("Export failed", getErrorMessage(err));
+    }
+  };
+
   const getTotalRooms = (block: BlockWithHierarchy) => {
     return block.buildings.reduce(
       (sum, building) =>
@@ -137,7 +162,22 @@ const LocationHierarchyPage: React.FC = () => {
 
   return (
     <div>
-      <h1 className="text-3xl font-bold mb-6">Campus Locations</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Campus Locations</h1>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Button variant="flat" onPress={() => handleExport("json")}>
+              Export JSON
+            </Button>
+            <Button variant="flat" onPress={() => handleExport("csv")}>
+              Export CSV
+            </Button>
+            <Button color="primary" onPress={() => setIsImportOpen(true)}>
+              Import
+            </Button>
+          </div>
+        )}
+      </div>
       <p className="text-default-500 mb-6">
         Browse all locations organized by blocks, buildings, floors, and rooms
       </p>
@@ -296,6 +336,17 @@ const LocationHierarchyPage: React.FC = () => {
           ))}
         </Accordion>
       )}
+
+      {isAdmin && (
+        <HierarchyImportModal
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => {
+            setIsImportOpen(false);
+            fetchHierarchy();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,20 +1,40 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useSeatPlanner } from '../context/SeatPlannerContext';
-import { api, geminiService } from '../services/apiService';
+import { api, geminiService, ConflictError } from '../services/apiService';
 import { Card, Button, Spinner } from '../components/ui';
+import { Select, SelectItem } from '@heroui/react';
+import { AllocationBatch, AllocationStrategy, BatchConflict, ALLOCATION_STRATEGY_OPTIONS } from '../types';
 
 const PlanningPage: React.FC = () => {
    const { state, dispatch } = useSeatPlanner();
    const { allocationSummary, rebalanceSummary, students, rooms, loading } = state;
    const [geminiSuggestion, setGeminiSuggestion] = useState('');
    const [isSuggesting, setIsSuggesting] = useState(false);
+   const [strategy, setStrategy] = useState<AllocationStrategy>('greedy');
+   const [batches, setBatches] = useState<AllocationBatch[]>([]);
+   const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+   const [rollbackMessage, setRollbackMessage] = useState<string | null>(null);
+   const [rollbackConflicts, setRollbackConflicts] = useState<BatchConflict[]>([]);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      setBatches(await api.getAllocationBatches());
+    } catch (err) {
+      console.error('Failed to fetch allocation batches:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
   
   const handleRunAllocation = async () => {
     dispatch({ type: 'API_REQUEST_START' });
     try {
-      const result = await api.runAllocation();
+      const result = await api.runAllocation(strategy);
       dispatch({ type: 'RUN_ALLOCATION_SUCCESS', payload: result });
+      fetchBatches();
     } catch (err) {
       dispatch({ type: 'API_REQUEST_FAIL', payload: 'Failed to run allocation.' });
     }
@@ -23,13 +43,38 @@ const PlanningPage: React.FC = () => {
   const handleRebalance = async () => {
     dispatch({ type: 'API_REQUEST_START' });
     try {
-      const result = await api.runRebalance();
+      const result = await api.runRebalance(strategy);
       dispatch({ type: 'RUN_REBALANCE_SUCCESS', payload: result });
+      fetchBatches();
     } catch (err) {
       dispatch({ type: 'API_REQUEST_FAIL', payload: 'Failed to run rebalance.' });
     }
   };
   
+  const handleRollback = async (batch: AllocationBatch) => {
+    if (!window.confirm(`Roll back the ${batch.branch} allocation of ${batch._count.seats} seats?`)) {
+      return;
+    }
+    setRollingBackId(batch.id);
+    setRollbackMessage(null);
+    setRollbackConflicts([]);
+    try {
+      const result = await api.rollbackAllocationBatch(batch.id);
+      setRollbackMessage(`Released ${result.releasedCount} seat${result.releasedCount !== 1 ? 's' : ''}.`);
+      dispatch({ type: 'GET_ROOMS_SUCCESS', payload: await api.getRooms() });
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        setRollbackMessage(err.message);
+        setRollbackConflicts(Array.isArray(err.currentData) ? err.currentData : []);
+      } else {
+        setRollbackMessage('Failed to roll back allocation.');
+      }
+    } finally {
+      setRollingBackId(null);
+      fetchBatches();
+    }
+  };
+
   const handleGetSuggestion = async () => {
     setIsSuggesting(true);
     setGeminiSuggestion('');
@@ -52,10 +97,27 @@ const PlanningPage: React.FC = () => {
             <Card>
                 <div className="p-6">
                     <h2 className="text-xl font-bold text-dark mb-4">Actions</h2>
+                    <Select
+                        label="Allocation Strategy"
+                        variant="bordered"
+                        className="mb-4"
+                        selectedKeys={new Set([strategy])}
+                        onSelectionChange={(keys) => {
+                            const selected = Array.from(keys)[0] as AllocationStrategy;
+                            if (selected) setStrategy(selected);
+                        }}
+                        isDisabled={loading}
+                    >
+                        {ALLOCATION_STRATEGY_OPTIONS.map((option) => (
+                            <SelectItem key={option.id} textValue={option.label}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </Select>
                     <Button onClick={handleRunAllocation} disabled={loading} className="w-full">
                         {loading ? <Spinner /> : 'Run Automatic Allocation'}
                     </Button>
-                    <Button onClick={handleRebalance} disabled={loading} variant="secondary" className="w-full mt-4">
+                    <Button onClick={handleRebalance} disabled={loading} color="secondary" className="w-full mt-4">
                         {loading ? <Spinner /> : 'Rebalance Allocations'}
                     </Button>
                 </div>
@@ -64,7 +126,7 @@ const PlanningPage: React.FC = () => {
                 <div className="p-6">
                     <h2 className="text-xl font-bold text-dark mb-4">AI Seating Strategy</h2>
                     <p className="text-sm text-gray-600 mb-4">Get an AI-powered suggestion for an optimal seating strategy based on current student needs.</p>
-                    <Button onClick={handleGetSuggestion} disabled={isSuggesting} variant="secondary" className="w-full">
+                    <Button onClick={handleGetSuggestion} disabled={isSuggesting} color="secondary" className="w-full">
                         {isSuggesting ? <Spinner /> : 'Get Suggestion'}
                     </Button>
                 </div>
@@ -108,12 +170,16 @@ const PlanningPage: React.FC = () => {
                                 <p className="text-lg font-bold text-primary">{allocationSummary.branchAllocated}</p>
                             </div>
                         )}
+                        {allocationSummary.strategy && (
+                            <div className="text-center text-sm text-gray-600">
+                                <p>Strategy: {allocationSummary.strategy}{allocationSummary.durationMs !== undefined ? ` (${allocationSummary.durationMs} ms)` : ''}</p>
+                            </div>
+                        )}
                         {allocationSummary.roomsAllocated !== undefined && allocationSummary.roomsAllocated > 0 && (
                             <div className="text-center text-sm text-gray-600">
                                 <p>Affected {allocationSummary.roomsAllocated} room{allocationSummary.roomsAllocated !== 1 ? 's' : ''}</p>
                             </div>
                         )}
-                        </div>
                         {allocationSummary.unallocatedCount > 0 && (
                             <div>
                                 <h3 className="font-semibold text-dark mt-6 mb-2">Unallocated Students</h3>
@@ -138,16 +204,25 @@ const PlanningPage: React.FC = () => {
                                 <p className="text-2xl font-bold text-accent">{rebalanceSummary.reallocatedCount}</p>
                                 <p className="text-sm text-gray-500">Reallocated</p>
                             </div>
+                            <div>
+                                <p className="text-2xl font-bold text-secondary">{rebalanceSummary.newlyAllocatedCount}</p>
+                                <p className="text-sm text-gray-500">Newly Allocated</p>
+                            </div>
                             <div>
                                 <p className="text-2xl font-bold text-danger">{rebalanceSummary.stillUnassignedCount}</p>
                                 <p className="text-sm text-gray-500">Still Unassigned</p>
                             </div>
                         </div>
+                        {rebalanceSummary.roomsFreed > 0 && (
+                            <div className="text-center text-sm text-gray-600 mt-4">
+                                <p>Freed {rebalanceSummary.roomsFreed} room{rebalanceSummary.roomsFreed !== 1 ? 's' : ''}</p>
+                            </div>
+                        )}
                         {rebalanceSummary.stillUnassignedCount > 0 && (
                             <div>
                                 <h3 className="font-semibold text-dark mt-6 mb-2">Still Unassigned Students</h3>
                                 <ul className="list-disc list-inside bg-gray-50 p-3 rounded-md">
-                                    {rebalanceSummary.stillUnassigned.map(({ student, reason }: any) => (
+                                    {rebalanceSummary.stillUnassigned.map(({ student, reason }) => (
                                         <li key={student.id} className="text-sm">{student.name} - <span className="text-gray-600">{reason}</span></li>
                                     ))}
                                 </ul>
@@ -157,6 +232,54 @@ const PlanningPage: React.FC = () => {
                 </Card>
             )}
 
+            <Card>
+                <div className="p-6">
+                    <h2 className="text-xl font-bold text-dark mb-4">Allocation History</h2>
+                    {rollbackMessage && (
+                        <div className={`mb-4 p-3 rounded-md text-sm ${rollbackConflicts.length > 0 ? 'bg-red-50 text-danger' : 'bg-blue-50 text-gray-700'}`}>
+                            <p>{rollbackMessage}</p>
+                            {rollbackConflicts.length > 0 && (
+                                <ul className="list-disc list-inside mt-2">
+                                    {rollbackConflicts.map((conflict) => (
+                                        <li key={conflict.seatId}>Seat {conflict.seatLabel} - <span className="text-gray-600">{conflict.reason}</span></li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    {batches.length === 0 ? (
+                        <p className="text-gray-500">No allocation runs recorded yet.</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {batches.map((batch) => (
+                                <li key={batch.id} className="py-3 flex items-center justify-between gap-4">
+                                    <div>
+                                        <p className="font-semibold text-dark">{batch.branch}</p>
+                                        <p className="text-sm text-gray-500">
+                                            {batch._count.seats} seat{batch._count.seats !== 1 ? 's' : ''} · {new Date(batch.createdAt).toLocaleString()}
+                                            {batch.strategy ? ` · ${batch.strategy}` : ''}
+                                        </p>
+                                    </div>
+                                    {batch.status === 'RolledBack' ? (
+                                        <span className="text-sm text-gray-500">Rolled back</span>
+                                    ) : (
+                                        <Button
+                                            size="sm"
+                                            color="danger"
+                                            variant="flat"
+                                            onClick={() => handleRollback(batch)}
+                                            disabled={rollingBackId !== null}
+                                        >
+                                            {rollingBackId === batch.id ? <Spinner /> : 'Roll Back'}
+                                        </Button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </Card>
+
             {(isSuggesting || geminiSuggestion) && (
                  <Card>
                     <div className="p-6">
@@ -16,23 +16,35 @@ import {
   Skeleton,
   Tooltip,
   Chip,
+  Checkbox,
+  CheckboxGroup,
 } from "@heroui/react";
 import {
   SkeletonCard,
   ConfirmationModal,
   LocationBreadcrumb,
+  TimeRangePicker,
+  BufferInputs,
 } from "../components/ui";
 import { useSeatPlanner } from "../context/SeatPlannerContext";
 import { api, ConflictError } from "../services/apiService";
 import { authService } from "../services/authService";
 import {
   Room,
+  Amenity,
   Seat,
   Branch,
   AllocationSummary,
+  AllocationPlan,
+  AllocationStrategy,
+  ALLOCATION_STRATEGY_OPTIONS,
+  PlanConflict,
   BRANCH_OPTIONS,
   Floor,
+  RoomBlackout,
+  RoomBooking,
 } from "../types";
+import { describeSeatChanges, layoutSeatCount } from "../utils/roomLayout";
 import io from "socket.io-client";
 
 const BookedIcon: React.FC = () => (
@@ -71,9 +83,14 @@ const AllocationModal: React.FC<{
     { id: Branch; label: string }[]
   >([]);
   const [selectedBranch, setSelectedBranch] = useState<Branch | "">("");
+  const [strategy, setStrategy] = useState<AllocationStrategy>("greedy");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [result, setResult] = useState<AllocationSummary | null>(null);
+  const [preview, setPreview] = useState<{
+    summary: AllocationSummary;
+    plan: AllocationPlan;
+  } | null>(null);
   const isReallocation = !!roomBranchAllocated;
 
   useEffect(() => {
@@ -81,6 +98,7 @@ const AllocationModal: React.FC<{
       setLoading(true);
       setError("");
       setResult(null);
+      setPreview(null);
       api
         .getEligibleBranches(undefined, roomId)
         .then((branches) => {
@@ -110,7 +128,11 @@ const AllocationModal: React.FC<{
     setError("");
     setResult(null);
     try {
-      const response = await api.allocateBranchToRoom(selectedBranch, roomId);
+      const response = await api.allocateBranchToRoom(
+        selectedBranch,
+        roomId,
+        strategy
+      );
       setResult(response.summary);
     } catch (err) {
       setError((err as Error).message);
@@ -119,8 +141,59 @@ const AllocationModal: React.FC<{
     }
   };
 
+  const handlePreview = async () => {
+    if (!selectedBranch) {
+      setError("No branch selected.");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const response = await api.previewBranchToRoom(
+        selectedBranch,
+        roomId,
+        strategy
+      );
+      setPreview(response);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCommitPreview = async () => {
+    if (!preview) return;
+    setLoading(true);
+    setError("");
+    try {
+      const response = await api.commitAllocationPlan(preview.plan);
+      setPreview(null);
+      setResult(response.summary);
+    } catch (err) {
+      if (err instanceof ConflictError) {
+        const conflicts = (err.currentData as PlanConflict[] | null) || [];
+        setPreview(null);
+        setError(
+          `${err.message}${
+            conflicts.length > 0
+              ? ` (${conflicts.length} seat${
+                  conflicts.length !== 1 ? "s" : ""
+                } changed)`
+              : ""
+          }`
+        );
+      } else {
+        setError((err as Error).message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const closeModal = () => {
     setResult(null);
+    setPreview(null);
     setError("");
     onClose();
     if (result) {
@@ -160,6 +233,7 @@ const AllocationModal: React.FC<{
                       onSelectionChange={(keys) => {
                         const selectedKey = Array.from(keys)[0] as Branch;
                         setSelectedBranch(selectedKey || "");
+                        setPreview(null);
                       }}
                       isDisabled={loading || eligibleBranches.length === 0}
                     >
@@ -185,6 +259,65 @@ const AllocationModal: React.FC<{
                       </p>
                     </div>
                   )}
+                  <Select
+                    label="Allocation Strategy"
+                    variant="bordered"
+                    selectedKeys={new Set([strategy])}
+                    onSelectionChange={(keys) => {
+                      const selected = Array.from(keys)[0] as AllocationStrategy;
+                      if (selected) setStrategy(selected);
+                      setPreview(null);
+                    }}
+                    isDisabled={loading}
+                  >
+                    {ALLOCATION_STRATEGY_OPTIONS.map((option) => (
+                      <SelectItem key={option.id} textValue={option.label}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                  {preview && (
+                    <div className="space-y-2">
+                      <h4 className="font-semibold">
+                        Preview: {preview.summary.allocatedCount} allocated,{" "}
+                        {preview.summary.unallocatedCount} unallocated
+                      </h4>
+                      <div className="bg-default-100 p-3 rounded-lg max-h-48 overflow-y-auto">
+                        {preview.plan.assignments.length === 0 ? (
+                          <p className="text-sm text-default-600">
+                            No students would be allocated.
+                          </p>
+                        ) : (
+                          <ul className="text-sm space-y-1">
+                            {preview.plan.assignments.map((a) => (
+                              <li
+                                key={a.seatId}
+                                className="flex justify-between"
+                              >
+                                <span className="font-medium">
+                                  {a.studentName}
+                                </span>
+                                <span className="text-default-600">
+                                  Seat {a.seatLabel}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      {preview.summary.unallocatedCount > 0 && (
+                        <ul className="list-disc list-inside text-sm text-default-600">
+                          {preview.summary.unallocatedStudents.map(
+                            ({ student, reason }) => (
+                              <li key={student.id}>
+                                {student.name} - {reason}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                   {error && <p className="text-danger text-sm">{error}</p>}
                 </div>
               ) : (
@@ -240,6 +373,13 @@ const AllocationModal: React.FC<{
                       </Card>
                     )}
                   </div>
+                  {result.strategy && (
+                    <p className="text-xs text-default-500">
+                      Strategy: {result.strategy}
+                      {result.durationMs !== undefined &&
+                        ` (${result.durationMs} ms)`}
+                    </p>
+                  )}
                   {result.unallocatedCount > 0 && (
                     <div>
                       <h4 className="font-semibold mb-2">
@@ -268,11 +408,39 @@ const AllocationModal: React.FC<{
               )}
             </ModalBody>
             <ModalFooter>
-              {!result ? (
+              {!result && preview ? (
+                <>
+                  <Button
+                    color="default"
+                    variant="light"
+                    onPress={() => setPreview(null)}
+                    isDisabled={loading}
+                  >
+                    Back
+                  </Button>
+                  <Button
+                    color="primary"
+                    onPress={handleCommitPreview}
+                    isLoading={loading}
+                    isDisabled={preview.plan.assignments.length === 0}
+                  >
+                    Confirm Allocation
+                  </Button>
+                </>
+              ) : !result ? (
                 <>
                   <Button color="default" variant="light" onPress={closeModal}>
                     Cancel
                   </Button>
+                  <Button
+                    color="default"
+                    variant="bordered"
+                    onPress={handlePreview}
+                    isLoading={loading}
+                    isDisabled={!selectedBranch}
+                  >
+                    Preview
+                  </Button>
                   <Button
                     color="primary"
                     onPress={handleAllocate}
@@ -295,6 +463,338 @@ const AllocationModal: React.FC<{
   );
 };
 
+const formatWindow = (start: string, end: string) =>
+  `${new Date(start).toLocaleString()} – ${new Date(end).toLocaleString()}`;
+
+const BlackoutModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  room: Room;
+}> = ({ isOpen, onClose, room }) => {
+  const [blackouts, setBlackouts] = useState<RoomBlackout[]>([]);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [reason, setReason] = useState("");
+  const [cancelAffected, setCancelAffected] = useState(false);
+  const [affectedBookings, setAffectedBookings] = useState<
+    RoomBooking[] | null
+  >(null);
+  const [loading, setLoading] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const fetchBlackouts = async () => {
+    try {
+      setBlackouts(await api.getRoomBlackouts(room.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchBlackouts();
+    }
+  }, [isOpen, room.id]);
+
+  const windowData = () => ({
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    reason: reason.trim(),
+  });
+
+  const isFormValid =
+    !!startTime &&
+    !!endTime &&
+    new Date(endTime) > new Date(startTime) &&
+    reason.trim().length > 0;
+
+  const handleCheckAffected = async () => {
+    setLoading(true);
+    setError("");
+    setMessage("");
+    try {
+      const result = await api.createRoomBlackout(room.id, {
+        ...windowData(),
+        dryRun: true,
+      });
+      setAffectedBookings(result.affectedBookings);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    setError("");
+    setMessage("");
+    try {
+      const result = await api.createRoomBlackout(room.id, {
+        ...windowData(),
+        cancelAffected,
+      });
+      const cancelledCount = result.cancelledBookingIds?.length ?? 0;
+      setMessage(
+        cancelledCount > 0
+          ? `Blackout created and ${cancelledCount} booking${
+              cancelledCount !== 1 ? "s" : ""
+            } cancelled.`
+          : "Blackout created."
+      );
+      setStartTime("");
+      setEndTime("");
+      setReason("");
+      setCancelAffected(false);
+      setAffectedBookings(null);
+      await fetchBlackouts();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (blackoutId: string) => {
+    setRemovingId(blackoutId);
+    setError("");
+    setMessage("");
+    try {
+      await api.deleteRoomBlackout(room.id, blackoutId);
+      setBlackouts((prev) => prev.filter((b) => b.id !== blackoutId));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const closeModal = () => {
+    setAffectedBookings(null);
+    setError("");
+    setMessage("");
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={closeModal} size="2xl">
+      <ModalContent>
+        {(onClose) => (
+          <>
+            <ModalHeader>Blackouts for {room.name}</ModalHeader>
+            <ModalBody>
+              <div className="space-y-4">
+                <div>
+                  <h4 className="font-semibold text-sm mb-2">
+                    Upcoming blackouts
+                  </h4>
+                  {blackouts.length === 0 ? (
+                    <p className="text-sm text-default-500">
+                      This room has no upcoming blackouts.
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {blackouts.map((blackout) => (
+                        <li
+                          key={blackout.id}
+                          className="flex items-center justify-between gap-2 p-2 rounded-lg bg-default-100"
+                        >
+                          <div>
+                            <p className="text-sm font-medium">
+                              {blackout.reason}
+                            </p>
+                            <p className="text-xs text-default-500">
+                              {formatWindow(
+                                blackout.startTime,
+                                blackout.endTime
+                              )}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            color="danger"
+                            variant="light"
+                            onPress={() => handleRemove(blackout.id)}
+                            isLoading={removingId === blackout.id}
+                          >
+                            Remove
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div className="space-y-3 border-t border-divider pt-4">
+                  <h4 className="font-semibold text-sm">New blackout</h4>
+                  <TimeRangePicker
+                    startTime={startTime}
+                    endTime={endTime}
+                    onStartTimeChange={(value) => {
+                      setStartTime(value);
+                      setAffectedBookings(null);
+                    }}
+                    onEndTimeChange={(value) => {
+                      setEndTime(value);
+                      setAffectedBookings(null);
+                    }}
+                    isRequired
+                  />
+                  <Input
+                    label="Reason"
+                    placeholder="e.g., Projector maintenance"
+                    variant="bordered"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    isRequired
+                  />
+                  {affectedBookings && (
+                    <div className="bg-warning-50 dark:bg-warning-900/20 p-3 rounded-lg">
+                      {affectedBookings.length === 0 ? (
+                        <p className="text-sm">
+                          No bookings fall inside this window.
+                        </p>
+                      ) : (
+                        <>
+                          <p className="text-sm font-semibold mb-1">
+                            {affectedBookings.length} booking
+                            {affectedBookings.length !== 1 ? "s" : ""} overlap
+                            this window:
+                          </p>
+                          <ul className="text-xs space-y-1">
+                            {affectedBookings.map((booking) => (
+                              <li key={booking.id}>
+                                {booking.teacher?.name ?? "Unknown teacher"} ·{" "}
+                                {formatWindow(
+                                  booking.startTime,
+                                  booking.endTime
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                    </div>
+                  )}
+                  <Checkbox
+                    isSelected={cancelAffected}
+                    onValueChange={setCancelAffected}
+                  >
+                    Cancel overlapping bookings and notify their teachers
+                  </Checkbox>
+                  {error && <p className="text-danger text-sm">{error}</p>}
+                  {message && <p className="text-success text-sm">{message}</p>}
+                </div>
+              </div>
+            </ModalBody>
+            <ModalFooter>
+              <Button color="default" variant="light" onPress={onClose}>
+                Close
+              </Button>
+              <Button
+                color="warning"
+                variant="flat"
+                onPress={handleCheckAffected}
+                isDisabled={!isFormValid || loading}
+              >
+                Check Affected Bookings
+              </Button>
+              <Button
+                color="primary"
+                onPress={handleCreate}
+                isLoading={loading}
+                isDisabled={!isFormValid}
+              >
+                Create Blackout
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+};
+
+const AmenitiesModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  room: Room;
+  onSaved: () => void;
+}> = ({ isOpen, onClose, room, onSaved }) => {
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [selected, setSelected] = useState<string[]>(
+    (room.amenities ?? []).map((a) => a.id)
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      api
+        .getAmenities()
+        .then(setAmenities)
+        .catch((err) => setError((err as Error).message));
+    }
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      await api.setRoomAmenities(room.id, selected);
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <ModalContent>
+        <ModalHeader>Amenities in {room.name}</ModalHeader>
+        <ModalBody>
+          {amenities.length === 0 ? (
+            <p className="text-sm text-default-500">
+              No amenities defined yet. Add them on the{" "}
+              <Link to="/amenities" className="text-primary">
+                Amenities
+              </Link>{" "}
+              page.
+            </p>
+          ) : (
+            <CheckboxGroup value={selected} onValueChange={setSelected}>
+              {amenities.map((amenity) => (
+                <Checkbox key={amenity.id} value={amenity.id}>
+                  {amenity.name}
+                  {amenity.description && (
+                    <span className="text-xs text-default-500 ml-2">
+                      {amenity.description}
+                    </span>
+                  )}
+                </Checkbox>
+              ))}
+            </CheckboxGroup>
+          )}
+          {error && <p className="text-danger text-sm">{error}</p>}
+        </ModalBody>
+        <ModalFooter>
+          <Button color="default" variant="light" onPress={onClose}>
+            Cancel
+          </Button>
+          <Button color="primary" onPress={handleSave} isLoading={loading}>
+            Save
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
 const RoomsPage: React.FC = () => {
   const { buildingId } = useParams<{ buildingId: string }>();
   const navigate = useNavigate();
@@ -309,6 +809,9 @@ const RoomsPage: React.FC = () => {
     cols: 1,
     floorId: "",
     distance: 0,
+    bufferBeforeMinutes: null as number | null,
+    bufferAfterMinutes: null as number | null,
+    requiresApproval: false,
   });
   const [createLoading, setCreateLoading] = useState(false);
 
@@ -326,6 +829,9 @@ const RoomsPage: React.FC = () => {
     cols: 1,
     floorId: "",
     distance: 0,
+    bufferBeforeMinutes: null as number | null,
+    bufferAfterMinutes: null as number | null,
+    requiresApproval: false,
     version: 0,
   });
   const [editLoading, setEditLoading] = useState(false);
@@ -334,6 +840,8 @@ const RoomsPage: React.FC = () => {
   const [roomToDelete, setRoomToDelete] = useState<Room | null>(null);
   const [myAllocations, setMyAllocations] = useState<Seat[]>([]);
   const [allocatingRoomId, setAllocatingRoomId] = useState<string | null>(null);
+  const [blackoutRoom, setBlackoutRoom] = useState<Room | null>(null);
+  const [amenitiesRoom, setAmenitiesRoom] = useState<Room | null>(null);
   const [dataLoaded, setDataLoaded] = useState(false);
   const [initialLoad, setInitialLoad] = useState(true);
   const [roomsWithEligibleBranches, setRoomsWithEligibleBranches] = useState<
@@ -464,6 +972,9 @@ const RoomsPage: React.FC = () => {
         cols: 1,
         floorId: "",
         distance: 0,
+        bufferBeforeMinutes: null,
+        bufferAfterMinutes: null,
+        requiresApproval: false,
       });
       setShowCreateModal(false);
       // Small delay to ensure cache invalidation completes
@@ -478,7 +989,9 @@ const RoomsPage: React.FC = () => {
 
   const handleEditRoom = (room: Room) => {
     setEditingRoom(room);
-    const maxCapacity = room.rows * room.cols;
+    const maxCapacity = room.layout
+      ? layoutSeatCount(room.layout)
+      : room.rows * room.cols;
     setEditRoom({
       name: room.name,
       capacity: maxCapacity,
@@ -486,6 +999,9 @@ const RoomsPage: React.FC = () => {
       cols: room.cols,
       floorId: room.floorId,
       distance: room.distance,
+      bufferBeforeMinutes: room.bufferBeforeMinutes ?? null,
+      bufferAfterMinutes: room.bufferAfterMinutes ?? null,
+      requiresApproval: room.requiresApproval ?? false,
       version: room.version,
     });
   };
@@ -499,7 +1015,33 @@ const RoomsPage: React.FC = () => {
     }
     setEditLoading(true);
     try {
-      await api.updateRoom(editingRoom.id, editRoom);
+      const seatsAffected =
+        editRoom.rows !== editingRoom.rows ||
+        editRoom.cols !== editingRoom.cols ||
+        editRoom.capacity !== editingRoom.capacity;
+      if (seatsAffected) {
+        const preview = await api.previewRoomUpdate(editingRoom.id, editRoom);
+        if (
+          preview.seatChanges &&
+          preview.seatChanges.displacedStudentIds.length > 0 &&
+          !window.confirm(
+            `${describeSeatChanges(
+              preview.seatChanges
+            )} Students on removed seats will be moved to other rooms in this building where possible. Continue?`
+          )
+        ) {
+          return;
+        }
+      }
+
+      const updated = await api.updateRoom(editingRoom.id, editRoom);
+      const failedReallocations =
+        updated.seatChanges?.reallocations?.filter((r) => !r.success) ?? [];
+      if (failedReallocations.length > 0) {
+        alert(
+          `${failedReallocations.length} student(s) could not be reseated and are now unallocated: no suitable seat was free in this building.`
+        );
+      }
       setEditingRoom(null);
       // Small delay to ensure cache invalidation completes
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -700,6 +1242,28 @@ const RoomsPage: React.FC = () => {
                         Floor: {room.floor.name} • Distance: {room.distance}m
                       </p>
                     )}
+                    {(room.bufferBeforeMinutes != null ||
+                      room.bufferAfterMinutes != null) && (
+                      <p className="text-default-400 text-sm">
+                        Buffers: {room.bufferBeforeMinutes ?? "building"} min
+                        before • {room.bufferAfterMinutes ?? "building"} min
+                        after
+                      </p>
+                    )}
+                    {room.requiresApproval && (
+                      <p className="text-warning text-sm">
+                        Bookings need admin approval
+                      </p>
+                    )}
+                    {room.amenities && room.amenities.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {room.amenities.map((amenity) => (
+                          <Chip key={amenity.id} size="sm" variant="flat">
+                            {amenity.name}
+                          </Chip>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   <div className="bg-gradient-to-br from-success-50 to-success-100 dark:from-success-900/20 dark:to-success-800/20 p-4 rounded-xl border border-success-200 dark:border-success-800">
@@ -750,6 +1314,24 @@ const RoomsPage: React.FC = () => {
                             : "Allocate Branch"}
                         </Button>
                       )}
+                      <Button
+                        size="sm"
+                        color="warning"
+                        variant="flat"
+                        className="w-full"
+                        onPress={() => setBlackoutRoom(room)}
+                      >
+                        Blackouts
+                      </Button>
+                      <Button
+                        size="sm"
+                        color="secondary"
+                        variant="flat"
+                        className="w-full"
+                        onPress={() => setAmenitiesRoom(room)}
+                      >
+                        Amenities
+                      </Button>
                       <div className="flex gap-2 w-full">
                         <Button
                           size="sm"
@@ -884,6 +1466,23 @@ const RoomsPage: React.FC = () => {
                     required
                     className="md:col-span-2"
                   />
+                  <div className="md:col-span-2">
+                    <BufferInputs
+                      bufferBeforeMinutes={newRoom.bufferBeforeMinutes}
+                      bufferAfterMinutes={newRoom.bufferAfterMinutes}
+                      onChange={(buffers) => setNewRoom({ ...newRoom, ...buffers })}
+                      inheritedLabel="Building default"
+                    />
+                  </div>
+                  <Checkbox
+                    className="md:col-span-2"
+                    isSelected={newRoom.requiresApproval}
+                    onValueChange={(requiresApproval) =>
+                      setNewRoom({ ...newRoom, requiresApproval })
+                    }
+                  >
+                    Bookings need admin approval
+                  </Checkbox>
                 </div>
               </ModalBody>
               <ModalFooter>
@@ -925,6 +1524,12 @@ const RoomsPage: React.FC = () => {
                     label="Rows"
                     type="number"
                     variant="bordered"
+                    isDisabled={!!editingRoom?.layout}
+                    description={
+                      editingRoom?.layout
+                        ? "Set by the room layout on the seat map"
+                        : undefined
+                    }
                     value={editRoom.rows.toString()}
                     onChange={(e) => {
                       const rows = Math.max(1, parseInt(e.target.value) || 1);
@@ -940,6 +1545,12 @@ const RoomsPage: React.FC = () => {
                     label="Columns per Row"
                     type="number"
                     variant="bordered"
+                    isDisabled={!!editingRoom?.layout}
+                    description={
+                      editingRoom?.layout
+                        ? "Set by the room layout on the seat map"
+                        : undefined
+                    }
                     value={editRoom.cols.toString()}
                     onChange={(e) => {
                       const cols = Math.max(1, parseInt(e.target.value) || 1);
@@ -953,7 +1564,9 @@ const RoomsPage: React.FC = () => {
                   />
                   <Input
                     label={`Seat Capacity (Max: ${
-                      editRoom.rows * editRoom.cols
+                      editingRoom?.layout
+                        ? layoutSeatCount(editingRoom.layout)
+                        : editRoom.rows * editRoom.cols
                     })`}
                     type="number"
                     variant="bordered"
@@ -1003,10 +1616,28 @@ const RoomsPage: React.FC = () => {
                     required
                     className="md:col-span-2"
                   />
+                  <div className="md:col-span-2">
+                    <BufferInputs
+                      bufferBeforeMinutes={editRoom.bufferBeforeMinutes}
+                      bufferAfterMinutes={editRoom.bufferAfterMinutes}
+                      onChange={(buffers) => setEditRoom({ ...editRoom, ...buffers })}
+                      inheritedLabel="Building default"
+                    />
+                  </div>
+                  <Checkbox
+                    className="md:col-span-2"
+                    isSelected={editRoom.requiresApproval}
+                    onValueChange={(requiresApproval) =>
+                      setEditRoom({ ...editRoom, requiresApproval })
+                    }
+                  >
+                    Bookings need admin approval
+                  </Checkbox>
                 </div>
                 <p className="text-warning text-sm font-semibold">
-                  Warning: Changing dimensions or capacity will regenerate all
-                  seats in this room, unassigning any students.
+                  Changing dimensions or capacity regenerates the seats. Seats
+                  that remain keep their students; students on removed seats
+                  are moved to other rooms where possible.
                 </p>
               </ModalBody>
               <ModalFooter>
@@ -1036,6 +1667,23 @@ const RoomsPage: React.FC = () => {
         />
       )}
 
+      {blackoutRoom && (
+        <BlackoutModal
+          isOpen={true}
+          onClose={() => setBlackoutRoom(null)}
+          room={blackoutRoom}
+        />
+      )}
+
+      {amenitiesRoom && (
+        <AmenitiesModal
+          isOpen={true}
+          onClose={() => setAmenitiesRoom(null)}
+          room={amenitiesRoom}
+          onSaved={fetchRoomsForBuilding}
+        />
+      )}
+
       <ConfirmationModal
         isOpen={deleteConfirmOpen}
         onClose={() => {
@@ -18,6 +18,8 @@ import { useSeatPlanner } from "../context/SeatPlannerContext";
 import { api, ConflictError } from "../services/apiService";
 import { authService } from "../services/authService";
 import { Seat, SeatStatus, Student, Room, Branch } from "../types";
+import { getRoomLayout } from "../utils/roomLayout";
+import SeatLayoutEditor from "../components/SeatLayoutEditor";
 import io from "socket.io-client";
 
 const BRANCHES = [
@@ -126,6 +128,7 @@ const SeatMapPage: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [modalError, setModalError] = useState("");
   const [initialLoad, setInitialLoad] = useState(true);
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
 
   const roomSeats = useMemo(
     () => allSeats.filter((s) => s.roomId === roomId),
@@ -146,6 +149,19 @@ const SeatMapPage: React.FC = () => {
     return { total, filled, broken, available };
   }, [roomSeats]);
 
+  const roomLayout = useMemo(
+    () => (currentRoom ? getRoomLayout(currentRoom) : null),
+    [currentRoom]
+  );
+
+  const blockedCells = useMemo(
+    () =>
+      new Set(
+        (roomLayout?.blocked ?? []).map((cell) => `${cell.row}:${cell.col}`)
+      ),
+    [roomLayout]
+  );
+
   const seatColumns = useMemo(() => {
     if (!currentRoom || roomSeats.length === 0) return [];
     const actualRows =
@@ -199,6 +215,9 @@ const SeatMapPage: React.FC = () => {
       }
     });
     socket.on("allocationsUpdated", fetchData);
+    socket.on("roomLayoutUpdated", (data: { roomId: string }) => {
+      if (data.roomId === roomId) fetchData();
+    });
     return () => {
       socket.disconnect();
     };
@@ -379,7 +398,35 @@ const SeatMapPage: React.FC = () => {
 
         {/* Seat Map */}
         <div className="px-4">
-          {seatColumns.length > 0 ? (
+          {canEditSeats && currentRoom && (
+            <div className="flex justify-end mb-4">
+              {!isEditingLayout && (
+                <Button
+                  color="primary"
+                  variant="flat"
+                  onPress={() => setIsEditingLayout(true)}
+                >
+                  Edit Layout
+                </Button>
+              )}
+            </div>
+          )}
+          {isEditingLayout && currentRoom ? (
+            <SeatLayoutEditor
+              room={currentRoom}
+              seats={roomSeats}
+              onCancel={() => setIsEditingLayout(false)}
+              onReload={() => {
+                setIsEditingLayout(false);
+                fetchData();
+              }}
+              onSaved={(room, seats) => {
+                setCurrentRoom(room);
+                dispatch({ type: "GET_SEATS_SUCCESS", payload: seats });
+                setIsEditingLayout(false);
+              }}
+            />
+          ) : seatColumns.length > 0 ? (
             <Card className="bg-gradient-to-br from-white via-white to-default-50/30 dark:from-[#1a1a1a] dark:via-[#171717] dark:to-[#0f0f0f] shadow-lg border-0 dark:border dark:border-default-800/40">
               <CardBody className="p-8">
                 <div className="text-center mb-6">
@@ -389,14 +436,34 @@ const SeatMapPage: React.FC = () => {
                   <div className="w-24 h-1 bg-gradient-to-r from-primary-400 to-secondary-400 dark:from-primary-600 dark:to-secondary-600 rounded-full mx-auto"></div>
                 </div>
 
-                <div className="overflow-auto bg-gradient-to-br from-default-50/50 to-white dark:from-[#0a0a0a] dark:to-[#050505] rounded-2xl p-6 border border-default-200/50 dark:border-default-800/30">
-                  <div className="flex gap-0.5 sm:gap-1 md:gap-1.5 justify-center min-w-min">
+                <div
+                  className={`overflow-auto bg-gradient-to-br from-default-50/50 to-white dark:from-[#0a0a0a] dark:to-[#050505] rounded-2xl p-6 border border-default-200/50 dark:border-default-800/30 flex gap-4 ${
+                    roomLayout?.stage === "back"
+                      ? "flex-col-reverse"
+                      : roomLayout?.stage === "left"
+                      ? "flex-row"
+                      : roomLayout?.stage === "right"
+                      ? "flex-row-reverse"
+                      : "flex-col"
+                  }`}
+                >
+                  <div
+                    className={`flex items-center justify-center rounded-lg bg-default-200/70 dark:bg-default-800/60 text-xs font-semibold uppercase tracking-widest text-default-600 dark:text-default-300 ${
+                      roomLayout?.stage === "left" ||
+                      roomLayout?.stage === "right"
+                        ? "w-8 [writing-mode:vertical-rl]"
+                        : "h-8"
+                    }`}
+                  >
+                    Stage
+                  </div>
+                  <div className="flex gap-0.5 sm:gap-1 md:gap-1.5 justify-center min-w-min mx-auto">
                     {seatColumns.map((column, colIndex) => (
                       <div
                         key={colIndex}
                         className={`flex flex-col gap-0.5 sm:gap-1 md:gap-1.5 ${
-                          colIndex > 0 && colIndex % 3 === 0
-                            ? "ml-1 sm:ml-2 md:ml-3"
+                          roomLayout?.aislesAfter.includes(colIndex - 1)
+                            ? "ml-3 sm:ml-4 md:ml-6"
                             : ""
                         }`}
                       >
@@ -414,6 +481,12 @@ const SeatMapPage: React.FC = () => {
                               isClickable={canEditSeats}
                               isMyOwnSeat={isStudent && roomSeats.length === 1}
                             />
+                          ) : blockedCells.has(`${seatIndex}:${colIndex}`) ? (
+                            <div
+                              key={`blocked-${colIndex}-${seatIndex}`}
+                              title="No seat"
+                              className="w-8 h-8 sm:w-10 sm:h-10 md:w-12 md:h-12 lg:w-14 lg:h-14 rounded-lg bg-default-300/60 dark:bg-default-700/50 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(0,0,0,0.08)_4px,rgba(0,0,0,0.08)_8px)]"
+                            />
                           ) : (
                             <div
                               key={`empty-${colIndex}-${seatIndex}`}
@@ -21,12 +21,137 @@ import {
 import { SkeletonTable, ConfirmationModal } from "../components/ui";
 import { useSeatPlanner } from "../context/SeatPlannerContext";
 import { api } from "../services/apiService";
-import { Student, BRANCH_OPTIONS, Branch } from "../types";
+import {
+  Student,
+  StudentImportReport,
+  StudentCredentials,
+  CredentialMode,
+  BRANCH_OPTIONS,
+  Branch,
+} from "../types";
 import { ACCESSIBILITY_NEEDS } from "../constants";
-import { toast } from "../utils/toast";
+import { toast, getErrorMessage } from "../utils/toast";
 
 const POSSIBLE_NEEDS = ACCESSIBILITY_NEEDS;
 
+const CREDENTIAL_MODE_OPTIONS: { id: CredentialMode | "none"; label: string }[] =
+  [
+    { id: "none", label: "Don't create a login" },
+    { id: "setupToken", label: "Setup link (student picks a password)" },
+    { id: "password", label: "Generated password" },
+  ];
+
+const setupLink = (token: string) =>
+  `${window.location.origin}/setup-account?token=${encodeURIComponent(token)}`;
+
+const credentialValue = (credentials: StudentCredentials) =>
+  credentials.mode === "password"
+    ? credentials.password!
+    : setupLink(credentials.setupToken!);
+
+const downloadCredentials = (credentials: StudentCredentials[]) => {
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const lines = [
+    "email,type,credential,expires",
+    ...credentials.map((c) =>
+      [
+        c.email,
+        c.mode === "password" ? "password" : "setup link",
+        credentialValue(c),
+        c.setupTokenExpiresAt || "",
+      ]
+        .map(quote)
+        .join(",")
+    ),
+  ];
+  const url = URL.createObjectURL(
+    new Blob([lines.join("\n")], { type: "text/csv" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "student-credentials.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Shows freshly issued credentials. They cannot be retrieved again, so the
+// admin copies or downloads them here.
+const CredentialsList: React.FC<{
+  credentials: StudentCredentials[];
+  onDone: () => void;
+}> = ({ credentials, onDone }) => (
+  <div className="space-y-5 pb-2">
+    <p className="text-sm text-warning-600">
+      These credentials are shown only once. Copy or download them before
+      closing.
+    </p>
+    <Table aria-label="Issued credentials" removeWrapper>
+      <TableHeader>
+        <TableColumn>EMAIL</TableColumn>
+        <TableColumn>CREDENTIAL</TableColumn>
+        <TableColumn align="end">COPY</TableColumn>
+      </TableHeader>
+      <TableBody>
+        {credentials.map((c) => (
+          <TableRow key={c.studentId}>
+            <TableCell>{c.email}</TableCell>
+            <TableCell>
+              <code className="text-xs break-all">{credentialValue(c)}</code>
+              {c.setupTokenExpiresAt && (
+                <div className="text-xs text-default-500">
+                  Expires {new Date(c.setupTokenExpiresAt).toLocaleString()}
+                </div>
+              )}
+            </TableCell>
+            <TableCell>
+              <Button
+                size="sm"
+                variant="flat"
+                onPress={() =>
+                  navigator.clipboard.writeText(credentialValue(c))
+                }
+              >
+                Copy
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+    <div className="flex justify-end gap-3 pt-6 border-t border-default-200">
+      <Button variant="flat" onPress={() => downloadCredentials(credentials)}>
+        Download CSV
+      </Button>
+      <Button color="primary" onPress={onDone}>
+        Done
+      </Button>
+    </div>
+  </div>
+);
+
+const CredentialModeSelect: React.FC<{
+  value: CredentialMode | "none";
+  onChange: (value: CredentialMode | "none") => void;
+  label?: string;
+  includeNone?: boolean;
+}> = ({ value, onChange, label = "Login account", includeNone = true }) => (
+  <Select
+    label={label}
+    variant="bordered"
+    selectedKeys={new Set([value])}
+    disallowEmptySelection
+    onSelectionChange={(keys) =>
+      onChange(Array.from(keys)[0] as CredentialMode | "none")
+    }
+  >
+    {CREDENTIAL_MODE_OPTIONS.filter((o) => includeNone || o.id !== "none").map(
+      (option) => (
+        <SelectItem key={option.id}>{option.label}</SelectItem>
+      )
+    )}
+  </Select>
+);
+
 const StudentForm: React.FC<{
   student?: Student;
   onSave: (student: Omit<Student, "id"> | Student) => void;
@@ -42,6 +167,9 @@ const StudentForm: React.FC<{
   const [needs, setNeeds] = useState<string[]>(
     student?.accessibilityNeeds || []
   );
+  const [loginMode, setLoginMode] = useState<CredentialMode | "none">(
+    "setupToken"
+  );
   const [errors, setErrors] = useState<{
     name?: string;
     email?: string;
@@ -108,6 +236,7 @@ const StudentForm: React.FC<{
             .map((t) => t.trim())
             .filter(Boolean),
           accessibilityNeeds: needs,
+          ...(loginMode !== "none" ? { provisionAccount: loginMode } : {}),
         };
 
     onSave(studentData as any);
@@ -204,6 +333,9 @@ const StudentForm: React.FC<{
           ))}
         </div>
       </div>
+      {!student && (
+        <CredentialModeSelect value={loginMode} onChange={setLoginMode} />
+      )}
       <div className="flex justify-end gap-3 pt-6 border-t border-default-200">
         <Button
           color="default"
@@ -223,6 +355,224 @@ const StudentForm: React.FC<{
   );
 };
 
+const IMPORT_ACTION_COLORS = {
+  create: "success",
+  update: "primary",
+  skip: "danger",
+} as const;
+
+// Reads an uploaded file the way the import endpoint expects it: CSV as text,
+// XLSX as base64
+const readImportFile = async (
+  file: File
+): Promise<{ format: "csv" | "xlsx"; content: string }> => {
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return { format: "xlsx", content: btoa(binary) };
+  }
+  return { format: "csv", content: await file.text() };
+};
+
+const StudentImportForm: React.FC<{
+  onImported: (credentials: StudentCredentials[]) => void;
+  onCancel: () => void;
+}> = ({ onImported, onCancel }) => {
+  const [file, setFile] = useState<{
+    name: string;
+    format: "csv" | "xlsx";
+    content: string;
+  } | null>(null);
+  const [report, setReport] = useState<StudentImportReport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loginMode, setLoginMode] = useState<CredentialMode | "none">("none");
+  const provisionAccounts = loginMode === "none" ? undefined : loginMode;
+
+  const preview = async (
+    format: "csv" | "xlsx",
+    content: string,
+    mode: CredentialMode | undefined
+  ) => {
+    setIsLoading(true);
+    try {
+      // Always validate first so problems show up before anything is written
+      setReport(await api.importStudents(format, content, true, mode));
+    } catch (err) {
+      setFileError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoginModeChange = (mode: CredentialMode | "none") => {
+    setLoginMode(mode);
+    // Provisioning adds its own checks, so refresh the preview
+    if (file) {
+      setReport(null);
+      setFileError(null);
+      preview(file.format, file.content, mode === "none" ? undefined : mode);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setReport(null);
+    setFileError(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const { format, content } = await readImportFile(selected);
+    setFile({ name: selected.name, format, content });
+    await preview(format, content, provisionAccounts);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const result = await api.importStudents(
+        file.format,
+        file.content,
+        false,
+        provisionAccounts
+      );
+      toast.success(
+        "Import complete",
+        `${result.created} created, ${result.updated} updated, ${result.invalid} skipped`
+      );
+      onImported(result.credentials || []);
+    } catch (err) {
+      toast.error("Import failed", getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5 pb-2">
+      <div>
+        <input
+          type="file"
+          accept=".csv,.xlsx"
+          onChange={handleFileChange}
+          className="block w-full text-sm"
+        />
+        <p className="text-xs text-default-500 mt-2">
+          Columns: name, email, branch, tags, accessibilityNeeds. Separate
+          multiple tags or needs with semicolons. Existing students are matched
+          by email.
+        </p>
+        {fileError && <p className="text-sm text-danger mt-2">{fileError}</p>}
+      </div>
+
+      <CredentialModeSelect
+        label="Logins for students without one"
+        value={loginMode}
+        onChange={handleLoginModeChange}
+      />
+
+      {report && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Chip color="success" variant="flat">
+              {report.created} new
+            </Chip>
+            <Chip color="primary" variant="flat">
+              {report.updated} updates
+            </Chip>
+            <Chip color="danger" variant="flat">
+              {report.invalid} with errors
+            </Chip>
+          </div>
+          <Table
+            aria-label="Import preview"
+            removeWrapper
+            isHeaderSticky
+            classNames={{ base: "max-h-80 overflow-auto" }}
+          >
+            <TableHeader>
+              <TableColumn>LINE</TableColumn>
+              <TableColumn>STUDENT</TableColumn>
+              <TableColumn>RESULT</TableColumn>
+              <TableColumn>DETAILS</TableColumn>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={row.line}>
+                  <TableCell>{row.line}</TableCell>
+                  <TableCell>
+                    <div className="text-sm font-medium">{row.name || "—"}</div>
+                    <div className="text-xs text-default-500">
+                      {row.email || "—"}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        color={IMPORT_ACTION_COLORS[row.action]}
+                      >
+                        {row.action}
+                      </Chip>
+                      {row.provisionAccount && (
+                        <Chip size="sm" variant="flat" color="secondary">
+                          + login
+                        </Chip>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {[...row.errors, ...row.warnings].map((message) => (
+                      <div
+                        key={message}
+                        className={`text-xs ${
+                          row.errors.includes(message)
+                            ? "text-danger"
+                            : "text-warning"
+                        }`}
+                      >
+                        {message}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+
+      <div className="flex justify-end gap-3 pt-6 border-t border-default-200">
+        <Button
+          color="default"
+          variant="light"
+          onPress={onCancel}
+          isDisabled={isLoading}
+        >
+          Cancel
+        </Button>
+        <Button
+          color="primary"
+          onPress={handleImport}
+          isLoading={isLoading}
+          isDisabled={!report || report.valid === 0}
+        >
+          {report && report.invalid > 0
+            ? `Import ${report.valid} Valid Rows`
+            : "Import Students"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 const StudentsPage: React.FC = () => {
   const { state, dispatch } = useSeatPlanner();
   const { students, loading, error } = state;
@@ -234,6 +584,16 @@ const StudentsPage: React.FC = () => {
   const [studentToDelete, setStudentToDelete] = useState<Student | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
   const [saveLoading, setSaveLoading] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [issuedCredentials, setIssuedCredentials] = useState<
+    StudentCredentials[]
+  >([]);
+  const [credentialsStudent, setCredentialsStudent] = useState<Student | null>(
+    null
+  );
+  const [credentialsMode, setCredentialsMode] =
+    useState<CredentialMode>("setupToken");
+  const [credentialsLoading, setCredentialsLoading] = useState(false);
 
   useEffect(() => {
     const fetchStudents = async () => {
@@ -266,8 +626,14 @@ const StudentsPage: React.FC = () => {
         const updated = await api.updateStudent(studentData.id, studentData);
         dispatch({ type: "UPDATE_STUDENT_SUCCESS", payload: updated });
       } else {
-        const added = await api.addStudent(studentData as Omit<Student, "id">);
+        const { credentials, ...added } = await api.addStudent(
+          studentData as Omit<Student, "id">
+        );
         dispatch({ type: "ADD_STUDENT_SUCCESS", payload: added });
+        if (credentials) {
+          setIssuedCredentials([credentials]);
+          refreshStudents();
+        }
       }
       setIsModalOpen(false);
       setEditingStudent(undefined);
@@ -309,6 +675,39 @@ const StudentsPage: React.FC = () => {
     }
   };
 
+  const refreshStudents = async () => {
+    try {
+      const data = await api.getStudents();
+      dispatch({ type: "GET_STUDENTS_SUCCESS", payload: data });
+    } catch (err) {
+      toast.error("Error", "Failed to refresh students.");
+    }
+  };
+
+  const handleImported = (credentials: StudentCredentials[]) => {
+    setIsImportOpen(false);
+    setIssuedCredentials(credentials);
+    refreshStudents();
+  };
+
+  const handleIssueCredentials = async () => {
+    if (!credentialsStudent) return;
+    setCredentialsLoading(true);
+    try {
+      const credentials = await api.issueStudentCredentials(
+        credentialsStudent.id,
+        credentialsMode
+      );
+      setCredentialsStudent(null);
+      setIssuedCredentials([credentials]);
+      refreshStudents();
+    } catch (err) {
+      toast.error("Failed to issue login", getErrorMessage(err));
+    } finally {
+      setCredentialsLoading(false);
+    }
+  };
+
   const openAddModal = () => {
     setEditingStudent(undefined);
     setIsModalOpen(true);
@@ -338,6 +737,7 @@ const StudentsPage: React.FC = () => {
             "ALLOCATION",
             "NEEDS",
             "TAGS",
+            "LOGIN",
             "ACTIONS",
           ]}
           columnWidths={[
@@ -347,6 +747,7 @@ const StudentsPage: React.FC = () => {
             "w-36",
             "w-24",
             "w-20",
+            "w-20",
             "w-24",
           ]}
           rows={5}
@@ -361,9 +762,18 @@ const StudentsPage: React.FC = () => {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Students</h1>
-        <Button color="primary" onPress={openAddModal}>
-          Add Student
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            color="primary"
+            variant="flat"
+            onPress={() => setIsImportOpen(true)}
+          >
+            Import
+          </Button>
+          <Button color="primary" onPress={openAddModal}>
+            Add Student
+          </Button>
+        </div>
       </div>
 
       <Table aria-label="Students table" className="min-w-full">
@@ -374,6 +784,7 @@ const StudentsPage: React.FC = () => {
           <TableColumn>ALLOCATION</TableColumn>
           <TableColumn>NEEDS</TableColumn>
           <TableColumn>TAGS</TableColumn>
+          <TableColumn>LOGIN</TableColumn>
           <TableColumn align="end">ACTIONS</TableColumn>
         </TableHeader>
         <TableBody>
@@ -419,6 +830,19 @@ const StudentsPage: React.FC = () => {
                     ))}
                   </div>
                 </TableCell>
+                <TableCell>
+                  {!student.user ? (
+                    <span className="text-default-500">None</span>
+                  ) : student.user.setupTokenExpiresAt ? (
+                    <Chip size="sm" variant="flat" color="warning">
+                      Setup pending
+                    </Chip>
+                  ) : (
+                    <Chip size="sm" variant="flat" color="success">
+                      Active
+                    </Chip>
+                  )}
+                </TableCell>
                 <TableCell>
                   <div className="flex gap-2 justify-end">
                     <Button
@@ -429,6 +853,13 @@ const StudentsPage: React.FC = () => {
                     >
                       Edit
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      onPress={() => setCredentialsStudent(student)}
+                    >
+                      {student.user ? "Reissue Login" : "Create Login"}
+                    </Button>
                     <Button
                       size="sm"
                       color="danger"
@@ -481,6 +912,117 @@ const StudentsPage: React.FC = () => {
         </ModalContent>
       </Modal>
 
+      <Modal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        size="3xl"
+        scrollBehavior="inside"
+        classNames={{
+          body: "py-6",
+          header: "border-b border-default-200",
+        }}
+      >
+        <ModalContent>
+          {() => (
+            <>
+              <ModalHeader className="flex flex-col gap-1">
+                <h2 className="text-xl font-semibold">Import Students</h2>
+                <p className="text-sm font-normal text-default-500">
+                  Upload a CSV or XLSX file. Rows are checked before anything
+                  is saved.
+                </p>
+              </ModalHeader>
+              <ModalBody>
+                <StudentImportForm
+                  onImported={handleImported}
+                  onCancel={() => setIsImportOpen(false)}
+                />
+              </ModalBody>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      <Modal
+        isOpen={!!credentialsStudent}
+        onClose={() => setCredentialsStudent(null)}
+        classNames={{ header: "border-b border-default-200", body: "py-6" }}
+      >
+        <ModalContent>
+          {() => (
+            <>
+              <ModalHeader className="flex flex-col gap-1">
+                <h2 className="text-xl font-semibold">
+                  {credentialsStudent?.user ? "Reissue Login" : "Create Login"}
+                </h2>
+                <p className="text-sm font-normal text-default-500">
+                  {credentialsStudent?.name} ({credentialsStudent?.email})
+                </p>
+              </ModalHeader>
+              <ModalBody>
+                <div className="space-y-5 pb-2">
+                  <CredentialModeSelect
+                    label="Credential"
+                    value={credentialsMode}
+                    onChange={(mode) =>
+                      setCredentialsMode(mode as CredentialMode)
+                    }
+                    includeNone={false}
+                  />
+                  {credentialsStudent?.user && (
+                    <p className="text-sm text-warning-600">
+                      The student's current password and any unused setup
+                      link will stop working.
+                    </p>
+                  )}
+                  <div className="flex justify-end gap-3 pt-6 border-t border-default-200">
+                    <Button
+                      variant="light"
+                      onPress={() => setCredentialsStudent(null)}
+                      isDisabled={credentialsLoading}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      color="primary"
+                      onPress={handleIssueCredentials}
+                      isLoading={credentialsLoading}
+                    >
+                      {credentialsStudent?.user ? "Reissue" : "Create"}
+                    </Button>
+                  </div>
+                </div>
+              </ModalBody>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      <Modal
+        isOpen={issuedCredentials.length > 0}
+        onClose={() => setIssuedCredentials([])}
+        size="3xl"
+        isDismissable={false}
+        scrollBehavior="inside"
+        classNames={{ header: "border-b border-default-200", body: "py-6" }}
+      >
+        <ModalContent>
+          {() => (
+            <>
+              <ModalHeader>
+                <h2 className="text-xl font-semibold">Student Logins</h2>
+              </ModalHeader>
+              <ModalBody>
+                <CredentialsList
+                  credentials={issuedCredentials}
+                  onDone={() => setIssuedCredentials([])}
+                />
+              </ModalBody>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
       <ConfirmationModal
         isOpen={deleteConfirmOpen}
         onClose={() => {
@@ -10,6 +10,7 @@ import { showErrorToast } from "../utils/toast";
 
 const TeacherDashboardPage: React.FC = () => {
   const [searchResults, setSearchResults] = useState<RoomRecommendation[]>([]);
+  const [excludedRooms, setExcludedRooms] = useState<RoomRecommendation[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState<string>("");
   const [hasSearched, setHasSearched] = useState(false);
@@ -36,6 +37,12 @@ const TeacherDashboardPage: React.FC = () => {
         handleSearch(lastSearchCriteria);
       }
     },
+    onBookingUpdated: () => {
+      // Refresh search results if we have an active search
+      if (lastSearchCriteria && hasSearched) {
+        handleSearch(lastSearchCriteria);
+      }
+    },
     onBookingCanceled: () => {
       // Refresh search results if we have an active search
       if (lastSearchCriteria && hasSearched) {
@@ -69,10 +76,12 @@ const TeacherDashboardPage: React.FC = () => {
     try {
       const response = await api.searchRooms(criteria);
       setSearchResults(response.rooms);
+      setExcludedRooms(response.excluded);
     } catch (error) {
       const errorMsg = (error as Error).message;
       setSearchError(errorMsg);
       setSearchResults([]);
+      setExcludedRooms([]);
       showErrorToast(error, "Failed to search rooms");
     } finally {
       setIsSearching(false);
@@ -82,6 +91,7 @@ const TeacherDashboardPage: React.FC = () => {
   const handleBookingCreated = () => {
     // Clear search results
     setSearchResults([]);
+    setExcludedRooms([]);
     setHasSearched(false);
   };
 
@@ -149,6 +159,29 @@ const TeacherDashboardPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {!isSearching && excludedRooms.length > 0 && lastSearchCriteria && (
+        <div>
+          <h2 className="text-xl font-semibold mb-1">
+            Not Bookable ({excludedRooms.length})
+          </h2>
+          <p className="text-sm text-default-500 mb-4">
+            These rooms match your search but cannot be reached from your
+            location without steps, or their booking rules do not allow this
+            slot. Each card says why.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 opacity-70">
+            {excludedRooms.map((recommendation) => (
+              <RoomRecommendationCard
+                key={recommendation.room.id}
+                recommendation={recommendation}
+                searchCriteria={lastSearchCriteria}
+                onBookingCreated={handleBookingCreated}
+              />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
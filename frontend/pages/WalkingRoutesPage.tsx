@@ -0,0 +1,385 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Checkbox,
+  Chip,
+  Input,
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Select,
+  SelectItem,
+  Skeleton,
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "@heroui/react";
+import { SkeletonTable, ConfirmationModal } from "../components/ui";
+import { api } from "../services/apiService";
+import {
+  LocationEdge,
+  LocationEdgeKind,
+  LocationNodeType,
+} from "../types";
+import { toast, getErrorMessage } from "../utils/toast";
+
+interface LocationOption {
+  key: string;
+  type: LocationNodeType;
+  id: string;
+  label: string;
+}
+
+const KIND_COLORS: Record<LocationEdgeKind, "default" | "primary" | "secondary"> = {
+  Walkway: "default",
+  Stairs: "primary",
+  Lift: "secondary",
+};
+
+const emptyForm = {
+  from: "",
+  to: "",
+  distance: 0,
+  kind: "Walkway" as LocationEdgeKind,
+  stepFree: true,
+};
+
+const WalkingRoutesPage: React.FC = () => {
+  const [edges, setEdges] = useState<LocationEdge[]>([]);
+  const [locations, setLocations] = useState<LocationOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [showModal, setShowModal] = useState(false);
+  const [editingEdge, setEditingEdge] = useState<LocationEdge | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [edgeToDelete, setEdgeToDelete] = useState<LocationEdge | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const fetchEdges = async () => {
+    try {
+      setEdges(await api.getLocationEdges());
+      setError("");
+    } catch (err) {
+      const errorMsg = "Failed to fetch walking routes.";
+      setError(errorMsg);
+      toast.error("Error", errorMsg);
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [blocks, buildings, floors] = await Promise.all([
+          api.getBlocks(),
+          api.getBuildings(),
+          api.getFloors(),
+        ]);
+        const buildingNames = new Map(buildings.map((b) => [b.id, b.name]));
+        setLocations([
+          ...blocks.map((block) => ({
+            key: `Block:${block.id}`,
+            type: "Block" as const,
+            id: block.id,
+            label: `Block · ${block.name}`,
+          })),
+          ...buildings.map((building) => ({
+            key: `Building:${building.id}`,
+            type: "Building" as const,
+            id: building.id,
+            label: `Building · ${building.name}`,
+          })),
+          ...floors.map((floor) => ({
+            key: `Floor:${floor.id}`,
+            type: "Floor" as const,
+            id: floor.id,
+            label: `Floor · ${buildingNames.get(floor.buildingId) ?? ""} / ${
+              floor.name
+            }`,
+          })),
+        ]);
+        await fetchEdges();
+      } catch (err) {
+        const errorMsg = "Failed to fetch locations.";
+        setError(errorMsg);
+        toast.error("Error", errorMsg);
+        console.error(err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const optionFor = (key: string) => locations.find((l) => l.key === key);
+  const bothFloors =
+    optionFor(form.from)?.type === "Floor" &&
+    optionFor(form.to)?.type === "Floor";
+
+  const openCreateModal = () => {
+    setEditingEdge(null);
+    setForm(emptyForm);
+    setShowModal(true);
+  };
+
+  const openEditModal = (edge: LocationEdge) => {
+    setEditingEdge(edge);
+    setForm({
+      from: `${edge.fromType}:${edge.fromId}`,
+      to: `${edge.toType}:${edge.toId}`,
+      distance: edge.distance,
+      kind: edge.kind,
+      stepFree: edge.stepFree,
+    });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    setSaveLoading(true);
+    try {
+      if (editingEdge) {
+        await api.updateLocationEdge(editingEdge.id, {
+          distance: form.distance,
+          stepFree: form.stepFree,
+        });
+        toast.success("Route updated");
+      } else {
+        const from = optionFor(form.from);
+        const to = optionFor(form.to);
+        if (!from || !to) {
+          toast.error("Choose both locations");
+          return;
+        }
+        await api.createLocationEdge({
+          fromType: from.type,
+          fromId: from.id,
+          toType: to.type,
+          toId: to.id,
+          distance: form.distance,
+          kind: bothFloors ? form.kind : "Walkway",
+          stepFree: form.stepFree,
+        });
+        toast.success("Route added");
+      }
+      setShowModal(false);
+      await fetchEdges();
+    } catch (err) {
+      toast.error("Failed to save route", getErrorMessage(err));
+    } finally {
+      setSaveLoading(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!edgeToDelete) return;
+    setDeleteLoading(true);
+    try {
+      await api.deleteLocationEdge(edgeToDelete.id);
+      toast.success("Route removed");
+      setEdgeToDelete(null);
+      await fetchEdges();
+    } catch (err) {
+      toast.error("Failed to remove route", getErrorMessage(err));
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div>
+        <div className="flex justify-between items-center mb-6">
+          <Skeleton className="rounded-lg">
+            <div className="h-10 w-48 rounded-lg bg-default-200"></div>
+          </Skeleton>
+        </div>
+        <SkeletonTable
+          columns={["FROM", "TO", "KIND", "DISTANCE", "ACTIONS"]}
+          columnWidths={["w-48", "w-48", "w-20", "w-20", "w-32"]}
+          rows={5}
+        />
+      </div>
+    );
+  }
+
+  if (error && edges.length === 0) {
+    return <p className="text-danger text-center">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h1 className="text-3xl font-bold">Walking Routes</h1>
+        <Button color="primary" onPress={openCreateModal}>
+          Add Route
+        </Button>
+      </div>
+      <p className="text-default-500 mb-6">
+        Room search uses the shortest walk over these routes. Buildings are
+        already connected to their block and floors to their building by their
+        own distances; add routes for walkways between neighbours and for
+        stairs or lifts between floors. With no routes, search falls back to
+        adding up hierarchy distances. Step-free searches skip stairs and
+        routes with steps.
+      </p>
+
+      <Table aria-label="Walking routes table" className="min-w-full">
+        <TableHeader>
+          <TableColumn>FROM</TableColumn>
+          <TableColumn>TO</TableColumn>
+          <TableColumn>KIND</TableColumn>
+          <TableColumn>DISTANCE</TableColumn>
+          <TableColumn align="end">ACTIONS</TableColumn>
+        </TableHeader>
+        <TableBody emptyContent="No walking routes defined yet.">
+          {edges.map((edge) => (
+            <TableRow key={edge.id}>
+              <TableCell>
+                {edge.fromName ?? "Deleted location"}
+                <span className="text-default-400 text-xs ml-2">
+                  {edge.fromType}
+                </span>
+              </TableCell>
+              <TableCell>
+                {edge.toName ?? "Deleted location"}
+                <span className="text-default-400 text-xs ml-2">
+                  {edge.toType}
+                </span>
+              </TableCell>
+              <TableCell>
+                <div className="flex gap-1">
+                  <Chip size="sm" variant="flat" color={KIND_COLORS[edge.kind]}>
+                    {edge.kind}
+                  </Chip>
+                  {edge.kind !== "Stairs" && !edge.stepFree && (
+                    <Chip size="sm" variant="flat" color="warning">
+                      Has steps
+                    </Chip>
+                  )}
+                </div>
+              </TableCell>
+              <TableCell>{edge.distance}m</TableCell>
+              <TableCell>
+                <div className="flex gap-2 justify-end">
+                  <Button
+                    size="sm"
+                    color="primary"
+                    variant="flat"
+                    onPress={() => openEditModal(edge)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    color="danger"
+                    variant="flat"
+                    onPress={() => setEdgeToDelete(edge)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Modal isOpen={showModal} onClose={() => setShowModal(false)}>
+        <ModalContent>
+          <ModalHeader>
+            {editingEdge ? "Edit Walking Route" : "Add Walking Route"}
+          </ModalHeader>
+          <ModalBody>
+            {(["from", "to"] as const).map((end) => (
+              <Select
+                key={end}
+                label={end === "from" ? "From" : "To"}
+                variant="bordered"
+                isDisabled={!!editingEdge}
+                selectedKeys={form[end] ? new Set([form[end]]) : new Set()}
+                onSelectionChange={(keys) =>
+                  setForm({
+                    ...form,
+                    [end]: (Array.from(keys)[0] as string) || "",
+                  })
+                }
+              >
+                {locations.map((location) => (
+                  <SelectItem key={location.key} textValue={location.label}>
+                    {location.label}
+                  </SelectItem>
+                ))}
+              </Select>
+            ))}
+            {bothFloors && (
+              <Select
+                label="Kind"
+                variant="bordered"
+                isDisabled={!!editingEdge}
+                selectedKeys={new Set([form.kind])}
+                onSelectionChange={(keys) =>
+                  setForm({
+                    ...form,
+                    kind: (Array.from(keys)[0] as LocationEdgeKind) || "Walkway",
+                  })
+                }
+              >
+                <SelectItem key="Walkway">Walkway</SelectItem>
+                <SelectItem key="Stairs">Stairs</SelectItem>
+                <SelectItem key="Lift">Lift</SelectItem>
+              </Select>
+            )}
+            {!(bothFloors && form.kind === "Stairs") && (
+              <Checkbox
+                isSelected={form.stepFree}
+                onValueChange={(stepFree) => setForm({ ...form, stepFree })}
+              >
+                Step-free (no steps or kerbs along the way)
+              </Checkbox>
+            )}
+            <Input
+              type="number"
+              label="Distance (m)"
+              variant="bordered"
+              min={0}
+              value={String(form.distance)}
+              onChange={(e) =>
+                setForm({ ...form, distance: parseFloat(e.target.value) || 0 })
+              }
+            />
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setShowModal(false)}>
+              Cancel
+            </Button>
+            <Button color="primary" onPress={handleSave} isLoading={saveLoading}>
+              {editingEdge ? "Save" : "Add Route"}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <ConfirmationModal
+        isOpen={!!edgeToDelete}
+        onClose={() => setEdgeToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Walking Route"
+        message={`Remove the route between "${
+          edgeToDelete?.fromName ?? "deleted location"
+        }" and "${edgeToDelete?.toName ?? "deleted location"}"?`}
+        confirmText="Delete Route"
+        isLoading={deleteLoading}
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default WalkingRoutesPage;
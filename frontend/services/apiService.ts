@@ -2,17 +2,42 @@ import { GoogleGenAI } from "@google/genai";
 import {
   Building,
   Room,
+  RoomLayout,
+  Amenity,
+  BookingPolicy,
+  BookingPolicyRules,
+  SeatChangeReport,
   Seat,
   Student,
+  StudentImportReport,
+  StudentCredentials,
+  CredentialMode,
   SeatStatus,
   AllocationSummary,
+  RebalanceSummary,
+  AllocationPlan,
+  AllocationStrategy,
+  AllocationBatch,
+  RollbackSummary,
+  AuditLogFilters,
+  AuditLogPage,
   Branch,
   Teacher,
   RoomBooking,
+  RecurrenceRule,
+  BookingSeriesResult,
+  WaitlistEntry,
+  RoomBlackout,
+  RoomBlackoutResult,
   Block,
   Floor,
+  LocationEdge,
+  LocationEdgeKind,
+  LocationNodeType,
   SearchCriteria,
   RoomRecommendation,
+  HierarchyDocument,
+  HierarchyImportReport,
 } from "../types";
 
 const API_BASE_URL =
@@ -21,11 +46,13 @@ const API_BASE_URL =
 // Custom error class for conflicts
 export class ConflictError extends Error {
   currentData: any;
+  code?: string;
 
-  constructor(message: string, currentData: any) {
+  constructor(message: string, currentData: any, code?: string) {
     super(message);
     this.name = "ConflictError";
     this.currentData = currentData;
+    this.code = code;
   }
 }
 
@@ -108,8 +135,15 @@ async function fetchApi(url: string, options: RequestInit = {}) {
       .json()
       .catch(() => ({ message: "Conflict detected" }));
     throw new ConflictError(
-      errorData.message || "Resource was modified by another user",
-      errorData.currentSeat || errorData.currentRoom || null
+      errorData.message ||
+        errorData.error ||
+        "Resource was modified by another user",
+      errorData.currentSeat ||
+        errorData.currentRoom ||
+        errorData.conflicts ||
+        errorData.details?.conflicts ||
+        null,
+      errorData.code
     );
   }
 
@@ -133,6 +167,9 @@ async function fetchApi(url: string, options: RequestInit = {}) {
   if (response.status === 204) {
     return;
   }
+  if (response.headers.get("Content-Type")?.includes("text/csv")) {
+    return response.text();
+  }
   return response.json();
 }
 
@@ -155,6 +192,9 @@ export const api = {
     code: string;
     blockId: string;
     distance: number;
+    stepFreeEntrance?: boolean;
+    bufferBeforeMinutes?: number | null;
+    bufferAfterMinutes?: number | null;
   }): Promise<Building> =>
     fetchApi("/buildings", {
       method: "POST",
@@ -167,6 +207,9 @@ export const api = {
       code?: string;
       blockId?: string;
       distance?: number;
+      stepFreeEntrance?: boolean;
+      bufferBeforeMinutes?: number | null;
+      bufferAfterMinutes?: number | null;
     }
   ): Promise<Building> =>
     fetchApi(`/buildings/${buildingId}`, {
@@ -184,10 +227,14 @@ export const api = {
     buildingId: string;
     floorId: string;
     name: string;
-    capacity: number;
-    rows: number;
-    cols: number;
+    capacity?: number;
+    rows?: number;
+    cols?: number;
+    layout?: RoomLayout;
     distance: number;
+    bufferBeforeMinutes?: number | null;
+    bufferAfterMinutes?: number | null;
+    requiresApproval?: boolean;
   }): Promise<Room> =>
     fetchApi("/rooms", { method: "POST", body: JSON.stringify(roomData) }),
   updateRoom: (
@@ -197,20 +244,145 @@ export const api = {
       capacity?: number;
       rows?: number;
       cols?: number;
+      layout?: RoomLayout | null;
       floorId?: string;
       distance?: number;
+      bufferBeforeMinutes?: number | null;
+      bufferAfterMinutes?: number | null;
+      requiresApproval?: boolean;
       version: number;
     }
-  ): Promise<Room> =>
+  ): Promise<Room & { seatChanges: SeatChangeReport | null }> =>
     fetchApi(`/rooms/${roomId}`, {
       method: "PUT",
       body: JSON.stringify(roomData),
     }),
+  previewRoomUpdate: (
+    roomId: string,
+    roomData: {
+      capacity?: number;
+      rows?: number;
+      cols?: number;
+      layout?: RoomLayout | null;
+      version: number;
+    }
+  ): Promise<{ dryRun: true; seatChanges: SeatChangeReport | null }> =>
+    fetchApi(`/rooms/${roomId}`, {
+      method: "PUT",
+      body: JSON.stringify({ ...roomData, dryRun: true }),
+    }),
+  updateRoomLayout: (
+    roomId: string,
+    layoutData: {
+      version: number;
+      layout: RoomLayout;
+      seats?: {
+        row: number;
+        col: number;
+        label?: string;
+        features?: string[];
+      }[];
+    }
+  ): Promise<{ room: Room; seats: Seat[]; seatChanges: SeatChangeReport }> =>
+    fetchApi(`/rooms/${roomId}/layout`, {
+      method: "PUT",
+      body: JSON.stringify(layoutData),
+    }),
+  previewRoomLayout: (
+    roomId: string,
+    layoutData: {
+      version: number;
+      layout: RoomLayout;
+      seats?: {
+        row: number;
+        col: number;
+        label?: string;
+        features?: string[];
+      }[];
+    }
+  ): Promise<{ dryRun: true; seatChanges: SeatChangeReport }> =>
+    fetchApi(`/rooms/${roomId}/layout`, {
+      method: "PUT",
+      body: JSON.stringify({ ...layoutData, dryRun: true }),
+    }),
   deleteRoom: (roomId: string): Promise<void> =>
     fetchApi(`/rooms/${roomId}`, { method: "DELETE" }),
   getRoomById: (roomId: string): Promise<Room> => fetchApi(`/rooms/${roomId}`),
   getSeatsByRoom: (roomId: string): Promise<Seat[]> =>
     fetchApi(`/rooms/${roomId}/seats`),
+  getRoomBlackouts: (roomId: string): Promise<RoomBlackout[]> =>
+    fetchApi(`/rooms/${roomId}/blackouts`),
+  createRoomBlackout: (
+    roomId: string,
+    blackoutData: {
+      startTime: string;
+      endTime: string;
+      reason: string;
+      dryRun?: boolean;
+      cancelAffected?: boolean;
+    }
+  ): Promise<RoomBlackoutResult> =>
+    fetchApi(`/rooms/${roomId}/blackouts`, {
+      method: "POST",
+      body: JSON.stringify(blackoutData),
+    }),
+  deleteRoomBlackout: (roomId: string, blackoutId: string): Promise<void> =>
+    fetchApi(`/rooms/${roomId}/blackouts/${blackoutId}`, { method: "DELETE" }),
+  setRoomAmenities: (roomId: string, amenityIds: string[]): Promise<Room> =>
+    fetchApi(`/rooms/${roomId}/amenities`, {
+      method: "PUT",
+      body: JSON.stringify({ amenityIds }),
+    }),
+
+  // Amenities
+  getAmenities: (): Promise<Amenity[]> => fetchApi("/amenities"),
+  createAmenity: (amenityData: {
+    name: string;
+    description?: string | null;
+  }): Promise<Amenity> =>
+    fetchApi("/amenities", {
+      method: "POST",
+      body: JSON.stringify(amenityData),
+    }),
+  updateAmenity: (
+    amenityId: string,
+    amenityData: { name?: string; description?: string | null }
+  ): Promise<Amenity> =>
+    fetchApi(`/amenities/${amenityId}`, {
+      method: "PUT",
+      body: JSON.stringify(amenityData),
+    }),
+  deleteAmenity: (amenityId: string): Promise<void> =>
+    fetchApi(`/amenities/${amenityId}`, { method: "DELETE" }),
+
+  // Booking Policies
+  getBookingPolicies: (): Promise<{
+    global: BookingPolicy | null;
+    overrides: BookingPolicy[];
+  }> => fetchApi("/booking-policies"),
+  saveGlobalBookingPolicy: (rules: BookingPolicyRules): Promise<BookingPolicy> =>
+    fetchApi("/booking-policies/global", {
+      method: "PUT",
+      body: JSON.stringify(rules),
+    }),
+  saveBuildingBookingPolicy: (
+    buildingId: string,
+    rules: BookingPolicyRules
+  ): Promise<BookingPolicy> =>
+    fetchApi(`/booking-policies/buildings/${buildingId}`, {
+      method: "PUT",
+      body: JSON.stringify(rules),
+    }),
+  saveRoomBookingPolicy: (
+    roomId: string,
+    rules: BookingPolicyRules
+  ): Promise<BookingPolicy> =>
+    fetchApi(`/booking-policies/rooms/${roomId}`, {
+      method: "PUT",
+      body: JSON.stringify(rules),
+    }),
+  deleteBookingPolicy: (policyId: string): Promise<void> =>
+    fetchApi(`/booking-policies/${policyId}`, { method: "DELETE" }),
 
   // Seats
   updateSeatStatus: (
@@ -234,7 +406,9 @@ export const api = {
 
   // Students & Profile
   getStudents: (): Promise<Student[]> => fetchApi("/students"),
-  addStudent: (studentData: Omit<Student, "id">): Promise<Student> =>
+  addStudent: (
+    studentData: Omit<Student, "id"> & { provisionAccount?: CredentialMode }
+  ): Promise<Student & { credentials?: StudentCredentials }> =>
     fetchApi("/students", {
       method: "POST",
       body: JSON.stringify(studentData),
@@ -247,6 +421,24 @@ export const api = {
       method: "PUT",
       body: JSON.stringify(studentData),
     }),
+  importStudents: (
+    format: "csv" | "xlsx",
+    content: string,
+    dryRun = false,
+    provisionAccounts?: CredentialMode
+  ): Promise<StudentImportReport> =>
+    fetchApi("/students/import", {
+      method: "POST",
+      body: JSON.stringify({ format, content, dryRun, provisionAccounts }),
+    }),
+  issueStudentCredentials: (
+    studentId: string,
+    mode: CredentialMode
+  ): Promise<StudentCredentials> =>
+    fetchApi(`/students/${studentId}/credentials`, {
+      method: "POST",
+      body: JSON.stringify({ mode }),
+    }),
   deleteStudent: (studentId: string): Promise<void> =>
     fetchApi(`/students/${studentId}`, { method: "DELETE" }),
   getStudentProfile: (): Promise<Student> => fetchApi("/students/me"),
@@ -260,30 +452,79 @@ export const api = {
     }),
 
   // Planning
-  runAllocation: (): Promise<{ seats: Seat[]; summary: AllocationSummary }> =>
-    fetchApi("/plan/allocate", { method: "POST" }),
+  runAllocation: (
+    strategy?: AllocationStrategy
+  ): Promise<{ seats: Seat[]; summary: AllocationSummary }> =>
+    fetchApi("/plan/allocate", {
+      method: "POST",
+      body: JSON.stringify({ strategy }),
+    }),
 
-  runRebalance: (): Promise<{ seats: Seat[]; rebalanceSummary: any }> =>
-    fetchApi("/plan/rebalance", { method: "POST" }),
+  runRebalance: (
+    strategy?: AllocationStrategy
+  ): Promise<{
+    seats: Seat[];
+    rebalanceSummary: RebalanceSummary;
+  }> =>
+    fetchApi("/plan/rebalance", {
+      method: "POST",
+      body: JSON.stringify({ strategy }),
+    }),
 
   allocateBranchToBuilding: (
     branch: Branch,
-    buildingId: string
+    buildingId: string,
+    strategy?: AllocationStrategy
   ): Promise<{ summary: AllocationSummary }> =>
     fetchApi("/plan/allocate-branch", {
       method: "POST",
-      body: JSON.stringify({ branch, buildingId }),
+      body: JSON.stringify({ branch, buildingId, strategy }),
     }),
 
   allocateBranchToRoom: (
     branch: Branch,
-    roomId: string
+    roomId: string,
+    strategy?: AllocationStrategy
   ): Promise<{ summary: AllocationSummary }> =>
     fetchApi("/plan/allocate-branch-to-room", {
       method: "POST",
-      body: JSON.stringify({ branch, roomId }),
+      body: JSON.stringify({ branch, roomId, strategy }),
+    }),
+
+  previewBranchToBuilding: (
+    branch: Branch,
+    buildingId: string,
+    strategy?: AllocationStrategy
+  ): Promise<{ summary: AllocationSummary; plan: AllocationPlan }> =>
+    fetchApi("/plan/allocate-branch", {
+      method: "POST",
+      body: JSON.stringify({ branch, buildingId, strategy, preview: true }),
     }),
 
+  previewBranchToRoom: (
+    branch: Branch,
+    roomId: string,
+    strategy?: AllocationStrategy
+  ): Promise<{ summary: AllocationSummary; plan: AllocationPlan }> =>
+    fetchApi("/plan/allocate-branch-to-room", {
+      method: "POST",
+      body: JSON.stringify({ branch, roomId, strategy, preview: true }),
+    }),
+
+  commitAllocationPlan: (
+    plan: AllocationPlan
+  ): Promise<{ summary: AllocationSummary }> =>
+    fetchApi("/plan/commit", {
+      method: "POST",
+      body: JSON.stringify({ plan }),
+    }),
+
+  getAllocationBatches: (): Promise<AllocationBatch[]> =>
+    fetchApi("/plan/batches"),
+
+  rollbackAllocationBatch: (batchId: string): Promise<RollbackSummary> =>
+    fetchApi(`/plan/batches/${batchId}/rollback`, { method: "POST" }),
+
   getEligibleBranches: (
     buildingId?: string,
     roomId?: string
@@ -354,6 +595,17 @@ export const api = {
   deleteAdmin: (adminId: string): Promise<void> =>
     fetchApi(`/admins/${adminId}`, { method: "DELETE" }),
 
+  // Audit Log
+  getAuditLogs: (filters: AuditLogFilters = {}): Promise<AuditLogPage> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.append(key, String(value));
+      }
+    });
+    return fetchApi(`/audit-logs?${params.toString()}`);
+  },
+
   // Password Reset
   resetPassword: (resetData: {
     userEmail: string;
@@ -366,6 +618,20 @@ export const api = {
     }),
 
   // Blocks
+  // CSV exports come back as text, JSON ones as a document
+  exportLocationHierarchy: (
+    format: "json" | "csv"
+  ): Promise<HierarchyDocument | string> =>
+    fetchApi(`/locations/hierarchy/export?format=${format}`),
+  importLocationHierarchy: (
+    format: "json" | "csv",
+    content: string,
+    dryRun = false
+  ): Promise<HierarchyImportReport> =>
+    fetchApi("/locations/hierarchy/import", {
+      method: "POST",
+      body: JSON.stringify({ format, content, dryRun }),
+    }),
   getBlocks: (): Promise<Block[]> => fetchApi("/locations/blocks"),
   createBlock: (blockData: {
     name: string;
@@ -397,6 +663,7 @@ export const api = {
     name: string;
     number: number;
     distance: number;
+    stepFreeAccess?: boolean;
   }): Promise<Floor> =>
     fetchApi("/locations/floors", {
       method: "POST",
@@ -409,6 +676,7 @@ export const api = {
       number?: number;
       buildingId?: string;
       distance?: number;
+      stepFreeAccess?: boolean;
     }
   ): Promise<Floor> =>
     fetchApi(`/locations/floors/${floorId}`, {
@@ -418,10 +686,40 @@ export const api = {
   deleteFloor: (floorId: string): Promise<void> =>
     fetchApi(`/locations/floors/${floorId}`, { method: "DELETE" }),
 
+  // Walking routes
+  getLocationEdges: (): Promise<LocationEdge[]> =>
+    fetchApi("/locations/graph/edges"),
+  createLocationEdge: (edgeData: {
+    fromType: LocationNodeType;
+    fromId: string;
+    toType: LocationNodeType;
+    toId: string;
+    distance: number;
+    kind: LocationEdgeKind;
+    stepFree: boolean;
+  }): Promise<LocationEdge> =>
+    fetchApi("/locations/graph/edges", {
+      method: "POST",
+      body: JSON.stringify(edgeData),
+    }),
+  updateLocationEdge: (
+    edgeId: string,
+    edgeData: { distance?: number; stepFree?: boolean }
+  ): Promise<LocationEdge> =>
+    fetchApi(`/locations/graph/edges/${edgeId}`, {
+      method: "PATCH",
+      body: JSON.stringify(edgeData),
+    }),
+  deleteLocationEdge: (edgeId: string): Promise<void> =>
+    fetchApi(`/locations/graph/edges/${edgeId}`, { method: "DELETE" }),
+
   // Room Bookings
   searchRooms: (
     criteria: SearchCriteria
-  ): Promise<{ rooms: RoomRecommendation[] }> =>
+  ): Promise<{
+    rooms: RoomRecommendation[];
+    excluded: RoomRecommendation[];
+  }> =>
     fetchApi("/room-bookings/search", {
       method: "POST",
       body: JSON.stringify(criteria),
@@ -449,8 +747,97 @@ export const api = {
     const queryString = params.toString();
     return fetchApi(`/room-bookings${queryString ? `?${queryString}` : ""}`);
   },
+  joinWaitlist: (entryData: {
+    roomId: string;
+    branch: Branch;
+    capacity: number;
+    startTime: string;
+    endTime: string;
+  }): Promise<WaitlistEntry> =>
+    fetchApi("/room-bookings/waitlist", {
+      method: "POST",
+      body: JSON.stringify(entryData),
+    }),
+  getWaitlist: (): Promise<WaitlistEntry[]> =>
+    fetchApi("/room-bookings/waitlist"),
+  leaveWaitlist: (entryId: string): Promise<void> =>
+    fetchApi(`/room-bookings/waitlist/${entryId}`, { method: "DELETE" }),
+  updateBooking: (
+    bookingId: string,
+    changes: {
+      roomId?: string;
+      capacity?: number;
+      startTime?: string;
+      endTime?: string;
+    }
+  ): Promise<RoomBooking> =>
+    fetchApi(`/room-bookings/${bookingId}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    }),
   cancelBooking: (bookingId: string): Promise<void> =>
     fetchApi(`/room-bookings/${bookingId}`, { method: "DELETE" }),
+  adminCreateBooking: (bookingData: {
+    teacherId: string;
+    roomId: string;
+    branch: Branch;
+    capacity: number;
+    startTime: string;
+    endTime: string;
+    reason?: string;
+  }): Promise<RoomBooking> =>
+    fetchApi("/room-bookings/admin", {
+      method: "POST",
+      body: JSON.stringify(bookingData),
+    }),
+  forceCancelBooking: (
+    bookingId: string,
+    reason: string
+  ): Promise<RoomBooking> =>
+    fetchApi(`/room-bookings/${bookingId}/force-cancel`, {
+      method: "POST",
+      body: JSON.stringify({ reason }),
+    }),
+  reassignBooking: (
+    bookingId: string,
+    roomId: string,
+    reason?: string
+  ): Promise<RoomBooking> =>
+    fetchApi(`/room-bookings/${bookingId}/reassign`, {
+      method: "POST",
+      body: JSON.stringify({ roomId, reason }),
+    }),
+
+  // Booking Approvals
+  getPendingApprovals: (): Promise<RoomBooking[]> =>
+    fetchApi("/room-bookings/approvals"),
+  approveBooking: (bookingId: string, comment?: string): Promise<RoomBooking> =>
+    fetchApi(`/room-bookings/${bookingId}/approve`, {
+      method: "POST",
+      body: JSON.stringify({ comment: comment || null }),
+    }),
+  rejectBooking: (bookingId: string, comment: string): Promise<RoomBooking> =>
+    fetchApi(`/room-bookings/${bookingId}/reject`, {
+      method: "POST",
+      body: JSON.stringify({ comment }),
+    }),
+  createBookingSeries: (seriesData: {
+    roomId: string;
+    branch: Branch;
+    capacity: number;
+    startTime: string;
+    endTime: string;
+    recurrence: RecurrenceRule;
+    skipConflicts?: boolean;
+  }): Promise<BookingSeriesResult> =>
+    fetchApi("/room-bookings/series", {
+      method: "POST",
+      body: JSON.stringify(seriesData),
+    }),
+  cancelBookingSeries: (
+    seriesId: string
+  ): Promise<{ seriesId: string; cancelledCount: number }> =>
+    fetchApi(`/room-bookings/series/${seriesId}`, { method: "DELETE" }),
 };
 
 // Mock Gemini Service
@@ -80,6 +80,29 @@ class AuthService {
     return authData;
   }
 
+  // Redeems a one-time setup token from an admin and sets the account's password
+  async setupPassword(
+    token: string,
+    password: string
+  ): Promise<{ message: string; email: string }> {
+    const response = await fetch(`${API_BASE_URL}/auth/setup-password`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ token, password }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(
+        error.error || error.errors?.[0]?.msg || "Password setup failed"
+      );
+    }
+
+    return response.json();
+  }
+
   logout(): void {
     this.token = null;
     this.user = null;
@@ -45,6 +45,44 @@ export interface Student {
   tags: string[];
   accessibilityNeeds: string[];
   seats?: Seat[];
+  // The student's login, if one has been provisioned
+  user?: { id: string; setupTokenExpiresAt: string | null } | null;
+}
+
+// How a student's initial login is handed out: a generated password, or a
+// one-time link where the student chooses their own
+export type CredentialMode = "password" | "setupToken";
+
+// Returned once when credentials are issued; the server only keeps hashes
+export interface StudentCredentials {
+  studentId: string;
+  email: string;
+  mode: CredentialMode;
+  password?: string;
+  setupToken?: string;
+  setupTokenExpiresAt?: string;
+}
+
+// Outcome of a bulk student import; on a dry run nothing has been written yet
+export interface StudentImportRowResult {
+  line: number;
+  email: string;
+  name: string;
+  action: "create" | "update" | "skip";
+  errors: string[];
+  warnings: string[];
+  provisionAccount?: boolean;
+}
+
+export interface StudentImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  updated: number;
+  rows: StudentImportRowResult[];
+  credentials?: StudentCredentials[];
 }
 
 export interface Seat {
@@ -70,24 +108,94 @@ export interface Room {
   capacity: number;
   rows: number;
   cols: number;
+  layout?: RoomLayout | null;
   claimed: number;
   distance: number;
   branchAllocated?: Branch;
   building?: Building;
   floor?: Floor;
+  amenities?: Amenity[];
+  // Booking buffers in minutes; null inherits the building's
+  bufferBeforeMinutes?: number | null;
+  bufferAfterMinutes?: number | null;
+  // Bookings wait for an admin's approval before they are confirmed
+  requiresApproval?: boolean;
   version: number;
 }
 
+// Equipment or feature a room can offer, e.g. projector or lab benches
+export interface Amenity {
+  id: string;
+  name: string;
+  description?: string | null;
+  roomCount?: number;
+}
+
+// Where the stage is relative to the seat grid: "front" is above row 0
+export type StageOrientation = "front" | "back" | "left" | "right";
+
+export interface RoomLayoutRow {
+  seats: number;
+  offset?: number;
+}
+
+// Seat arrangement of a room; rooms without one are a plain rows×cols grid
+export interface RoomLayout {
+  rows: RoomLayoutRow[];
+  aislesAfter: number[];
+  blocked: { row: number; col: number }[];
+  stage: StageOrientation;
+}
+
+// What regenerating a room's seats changes; seats keep their allocation when
+// their grid position survives
+export interface SeatChangeReport {
+  kept: number;
+  updated: number;
+  added: { label: string; row: number; col: number }[];
+  removed: {
+    seatId: string;
+    label: string;
+    row: number;
+    col: number;
+    status: SeatStatus;
+    studentId: string | null;
+  }[];
+  displacedStudentIds: string[];
+  reallocations?: {
+    studentId: string;
+    fromSeatLabel: string;
+    success: boolean;
+    newSeatId: string | null;
+    newRoomId: string | null;
+    message: string;
+  }[];
+}
+
 export interface Building {
   id: string;
   name: string;
   code: string;
   blockId: string;
   distance: number;
+  stepFreeEntrance: boolean;
+  // Booking buffers in minutes; null falls back to the global default
+  bufferBeforeMinutes?: number | null;
+  bufferAfterMinutes?: number | null;
   block?: Block;
   roomCount?: number;
 }
 
+export type AllocationStrategy = "greedy" | "optimal";
+
+export const ALLOCATION_STRATEGY_OPTIONS = [
+  { id: "greedy" as AllocationStrategy, label: "Greedy (fast first-fit)" },
+  {
+    id: "optimal" as AllocationStrategy,
+    label: "Optimal (seat as many students as possible)",
+  },
+];
+
 export interface AllocationSummary {
   allocatedCount: number;
   unallocatedCount: number;
@@ -97,6 +205,155 @@ export interface AllocationSummary {
   branchAllocated?: string;
   availableSeatsAfterAllocation?: number;
   roomsAllocated?: number;
+  strategy?: AllocationStrategy;
+  durationMs?: number;
+  batchId?: string;
+}
+
+export interface PlannedAssignment {
+  studentId: string;
+  studentName: string;
+  seatId: string;
+  seatLabel: string;
+  seatVersion: number;
+  roomId: string;
+}
+
+export interface AllocationPlan {
+  branch: Branch;
+  buildingId?: string;
+  roomId?: string;
+  assignments: PlannedAssignment[];
+}
+
+export interface PlanConflict extends PlannedAssignment {
+  reason: string;
+}
+
+export type AllocationBatchStatus = "Applied" | "RolledBack";
+
+export interface AllocationBatch {
+  id: string;
+  branch: Branch;
+  buildingId?: string | null;
+  roomId?: string | null;
+  strategy?: AllocationStrategy | null;
+  status: AllocationBatchStatus;
+  createdAt: string;
+  rolledBackAt?: string | null;
+  _count: { seats: number };
+}
+
+export interface BatchConflict {
+  seatId: string;
+  seatLabel: string;
+  studentId: string;
+  roomId: string;
+  reason: string;
+}
+
+export interface RollbackSummary {
+  batchId: string;
+  releasedCount: number;
+  affectedRoomIds: string[];
+}
+
+export interface RebalanceSummary {
+  reallocatedCount: number;
+  newlyAllocatedCount: number;
+  roomsFreed: number;
+  stillUnassignedCount: number;
+  stillUnassigned: { student: Student; reason: string }[];
+  affectedRoomIds: string[];
+}
+
+// Location hierarchy exchange format: blocks and buildings are matched by code,
+// floors by number and rooms by name within their building
+export interface HierarchyDocument {
+  blocks: {
+    code: string;
+    name?: string;
+    distance?: number;
+    buildings?: {
+      code: string;
+      name?: string;
+      distance?: number;
+      floors?: {
+        number: number;
+        name?: string;
+        distance?: number;
+        rooms?: {
+          name: string;
+          capacity?: number;
+          rows?: number;
+          cols?: number;
+          distance?: number;
+          layout?: RoomLayout | null;
+        }[];
+      }[];
+    }[];
+  }[];
+}
+
+export interface HierarchyChange {
+  key: string;
+  action: "create" | "update" | "unchanged";
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  seatChanges?: SeatChangeReport;
+}
+
+export interface HierarchyImportReport {
+  dryRun: boolean;
+  valid: boolean;
+  errors: { source: string; code: string; message: string }[];
+  blocks: HierarchyChange[];
+  buildings: HierarchyChange[];
+  floors: HierarchyChange[];
+  rooms: HierarchyChange[];
+  summary: { created: number; updated: number; unchanged: number };
+}
+
+// Audit Log Types
+export type AuditEntityType =
+  | "Seat"
+  | "Room"
+  | "User"
+  | "RoomBooking"
+  | "BookingSeries"
+  | "RoomBlackout"
+  | "Student"
+  | "Location"
+  | "Amenity"
+  | "BookingPolicy";
+
+export interface AuditLogEntry {
+  id: string;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  actorRole?: string | null;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  actorEmail?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
 }
 
 // Teacher and Room Booking Types
@@ -110,9 +367,12 @@ export interface Teacher {
 }
 
 export enum BookingStatus {
+  PendingApproval = "PendingApproval",
   NotStarted = "NotStarted",
   Ongoing = "Ongoing",
   Completed = "Completed",
+  Cancelled = "Cancelled",
+  Rejected = "Rejected",
 }
 
 export interface RoomBooking {
@@ -124,12 +384,83 @@ export interface RoomBooking {
   startTime: string;
   endTime: string;
   status: BookingStatus;
+  seriesId?: string | null;
+  cancelledAt?: string | null;
+  adminReason?: string | null;
+  // Admin's comment on a booking that needed approval
+  reviewComment?: string | null;
+  reviewedAt?: string | null;
   room?: Room;
   teacher?: Teacher;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface WaitlistEntry {
+  id: string;
+  roomId: string;
+  teacherId: string;
+  branch: Branch;
+  capacity: number;
+  startTime: string;
+  endTime: string;
+  status: "Waiting" | "Booked";
+  bookingId?: string | null;
+  room?: Room;
+  createdAt: string;
+}
+
+// Weekly recurrence; weekdays use Date#getDay numbering (0 = Sunday)
+export interface RecurrenceRule {
+  byWeekday: number[];
+  until?: string;
+  count?: number;
+}
+
+export interface OccurrenceConflict {
+  startTime: string;
+  endTime: string;
+  code: "ROOM_NOT_AVAILABLE" | "TEACHER_TIME_CONFLICT" | "ROOM_BLACKED_OUT";
+  message: string;
+  conflictingBookingId?: string;
+  conflictingBlackoutId?: string;
+}
+
+// A window during which a room cannot be booked (maintenance, exams, ...)
+export interface RoomBlackout {
+  id: string;
+  roomId: string;
+  startTime: string;
+  endTime: string;
+  reason: string;
+  createdById?: string | null;
+  createdAt: string;
+}
+
+export interface RoomBlackoutResult {
+  blackout?: RoomBlackout;
+  affectedBookings: RoomBooking[];
+  cancelledBookingIds?: string[];
+}
+
+export interface BookingSeries {
+  id: string;
+  teacherId: string;
+  roomId: string;
+  branch: Branch;
+  capacity: number;
+  byWeekday: number[];
+  until?: string | null;
+  count?: number | null;
+  createdAt: string;
+}
+
+export interface BookingSeriesResult {
+  series: BookingSeries;
+  bookings: RoomBooking[];
+  skipped: OccurrenceConflict[];
+}
+
 // Location Hierarchy Types
 export interface Block {
   id: string;
@@ -146,11 +477,33 @@ export interface Floor {
   name: string;
   number: number;
   distance: number;
+  stepFreeAccess: boolean;
   building?: Building;
   createdAt: string;
   updatedAt: string;
 }
 
+// Walking routes between locations; room search takes the shortest path over
+// these when any are defined
+export type LocationNodeType = "Block" | "Building" | "Floor";
+
+export type LocationEdgeKind = "Walkway" | "Stairs" | "Lift";
+
+export interface LocationEdge {
+  id: string;
+  fromType: LocationNodeType;
+  fromId: string;
+  fromName: string | null;
+  toType: LocationNodeType;
+  toId: string;
+  toName: string | null;
+  distance: number;
+  kind: LocationEdgeKind;
+  stepFree: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Room Search and Recommendation Types
 export interface SearchCriteria {
   capacity: number;
@@ -167,6 +520,11 @@ export interface SearchCriteria {
     buildingId?: string;
     floorId?: string;
   };
+  // "require" leaves out rooms not reachable without steps, "prefer" ranks them down
+  stepFree?: "require" | "prefer";
+  // Rooms must offer every required amenity; preferred ones only rank rooms up
+  requiredAmenityIds?: string[];
+  preferredAmenityIds?: string[];
 }
 
 export interface RoomRecommendation {
@@ -177,4 +535,40 @@ export interface RoomRecommendation {
   };
   distance: number;
   score: number;
+  reasons: string[];
+  excluded?: boolean;
+  // Buffers of the room and the time it would really be occupied
+  buffers: BookingBuffers;
+  effectiveWindow: { startTime: string; endTime: string };
+}
+
+// Booking limits; null inherits from the building or global policy, or
+// means no limit on the global one
+export interface BookingPolicyRules {
+  maxDurationMinutes: number | null;
+  minLeadMinutes: number | null;
+  maxLeadDays: number | null;
+  maxActiveBookings: number | null;
+  // Bookable hours as minutes after midnight, e.g. 480 for 08:00
+  openFromMinute: number | null;
+  openUntilMinute: number | null;
+}
+
+export interface BookingPolicy extends BookingPolicyRules {
+  id: string;
+  buildingId: string | null;
+  roomId: string | null;
+  building?: { id: string; name: string; code: string } | null;
+  room?: {
+    id: string;
+    name: string;
+    building: { id: string; name: string; code: string };
+  } | null;
+  updatedAt: string;
+}
+
+// Minutes a booking keeps the room free before and after the class
+export interface BookingBuffers {
+  beforeMinutes: number;
+  afterMinutes: number;
 }
@@ -0,0 +1,109 @@
+import {
+  Room,
+  RoomLayout,
+  SeatChangeReport,
+  StageOrientation,
+} from "../types";
+
+/**
+ * The layout of a plain rows×cols room, matching what the backend generates
+ * for rooms without a stored layout.
+ */
+export const defaultRoomLayout = (rows: number, cols: number): RoomLayout => ({
+  rows: Array.from({ length: rows }, () => ({ seats: cols })),
+  aislesAfter: cols > 3 ? [2] : [],
+  blocked: [],
+  stage: "front",
+});
+
+export const getRoomLayout = (room: Room): RoomLayout =>
+  room.layout ?? defaultRoomLayout(room.rows, room.cols);
+
+export const layoutSeatCount = (layout: RoomLayout): number =>
+  layout.rows.reduce((count, row) => count + row.seats, 0);
+
+/**
+ * Expands a layout into a rectangular grid of seat cells ([row][col], true
+ * where there is a seat), which is easier to edit than rows with offsets.
+ */
+export const layoutToGrid = (layout: RoomLayout): boolean[][] => {
+  const blocked = new Set(layout.blocked.map((c) => `${c.row}:${c.col}`));
+  const rows = layout.rows.map((layoutRow, row) => {
+    const cells: boolean[] = [];
+    let col = layoutRow.offset ?? 0;
+    for (let placed = 0; placed < layoutRow.seats; placed++) {
+      while (blocked.has(`${row}:${col}`)) col++;
+      cells[col] = true;
+      col++;
+    }
+    return cells;
+  });
+  const width = Math.max(1, ...rows.map((cells) => cells.length));
+  return rows.map((cells) =>
+    Array.from({ length: width }, (_, col) => !!cells[col])
+  );
+};
+
+/**
+ * Inverse of layoutToGrid: gaps between a row's first and last seat become
+ * blocked cells.
+ */
+export const gridToLayout = (
+  grid: boolean[][],
+  aislesAfter: number[],
+  stage: StageOrientation
+): RoomLayout => {
+  const blocked: { row: number; col: number }[] = [];
+  const rows = grid.map((cells, row) => {
+    const first = cells.indexOf(true);
+    if (first === -1) return { seats: 0 };
+    const last = cells.lastIndexOf(true);
+    for (let col = first; col <= last; col++) {
+      if (!cells[col]) blocked.push({ row, col });
+    }
+    return {
+      seats: cells.filter(Boolean).length,
+      ...(first > 0 ? { offset: first } : {}),
+    };
+  });
+  const width = grid[0]?.length ?? 0;
+  return {
+    rows,
+    aislesAfter: [...aislesAfter]
+      .filter((col) => col < width - 1)
+      .sort((a, b) => a - b),
+    blocked,
+    stage,
+  };
+};
+
+/** The label the backend gives a seat that has not been relabelled, e.g. "C4". */
+export const defaultSeatLabel = (
+  grid: boolean[][],
+  row: number,
+  col: number
+): string =>
+  `${String.fromCharCode(65 + row)}${
+    grid[row].slice(0, col + 1).filter(Boolean).length
+  }`;
+
+/** One-line summary of a seat change report, e.g. for a confirmation prompt. */
+export const describeSeatChanges = (report: SeatChangeReport): string => {
+  const parts = [
+    `${report.kept} kept`,
+    `${report.added.length} added`,
+    `${report.removed.length} removed`,
+  ];
+  const displaced = report.displacedStudentIds.length;
+  if (report.reallocations) {
+    const reseated = report.reallocations.filter((r) => r.success).length;
+    if (displaced > 0) {
+      parts.push(`${reseated} of ${displaced} displaced students reseated`);
+    }
+  } else if (displaced > 0) {
+    parts.push(
+      `${displaced} student${displaced !== 1 ? "s" : ""} will need a new seat`
+    );
+  }
+  return `Seats: ${parts.join(", ")}.`;
+};